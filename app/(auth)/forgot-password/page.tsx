@@ -2,6 +2,7 @@
 
 import React, { Suspense, useEffect, useMemo, useState } from "react";
 import Image from "next/image";
+import { BACKEND_URL } from "@/lib/api";
 
 export default function ForgotPasswordPage() {
     return (
@@ -48,7 +49,7 @@ function ForgotPasswordContent() {
         setLoading(true);
         try {
             const res = await fetch(
-                `${process.env.NEXT_PUBLIC_BACKEND_URL}/auth/password/forgot`,
+                `${BACKEND_URL}/auth/password/forgot`,
                 {
                     method: "POST",
                     headers: { "Content-Type": "application/json" },
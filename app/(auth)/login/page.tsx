@@ -3,6 +3,7 @@
 import { useMemo, useState, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import Image from "next/image";
+import { safeNextPath } from "@/lib/session";
 import {
     ShieldCheckIcon,
     BoltIcon,
@@ -59,7 +60,7 @@ function LoginContent() {
 
         setLoading(true);
         try {
-            const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/auth/login`, {
+            const res = await fetch("/api/auth/login", {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
                 body: JSON.stringify({ email, password, remember }),
@@ -67,11 +68,7 @@ function LoginContent() {
 
             const data = await res.json().catch(() => ({}));
             if (res.ok) {
-                if (data.token) {
-                    if (remember) localStorage.setItem("jwt", data.token as string);
-                    else sessionStorage.setItem("jwt", data.token as string);
-                }
-                router.push("/dashboard");
+                router.push(safeNextPath(searchParams?.get("next")));
             } else {
                 setError((data.message as string) || "Login failed. Please try again.");
             }
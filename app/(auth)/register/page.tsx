@@ -25,6 +25,7 @@ import {
     BoltIcon,
     RocketLaunchIcon,
 } from "@heroicons/react/24/outline";
+import { BACKEND_URL } from "@/lib/api";
 
 /* ------------------------------- Types ---------------------------------- */
 
@@ -264,7 +265,7 @@ export default function RegisterPage() {
             setPlansLoading(true);
             setPlansError(null);
             try {
-                const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/plans-brief`, {
+                const res = await fetch(`${BACKEND_URL}/plans-brief`, {
                     headers: { "Content-Type": "application/json" },
                 });
                 if (!res.ok) throw new Error(`Failed to load plans (${res.status})`);
@@ -281,7 +282,7 @@ export default function RegisterPage() {
 
                 const pairs = await Promise.all(
                     items.map(async (p) => {
-                        const r = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/plans-id/${p.id}`, {
+                        const r = await fetch(`${BACKEND_URL}/plans-id/${p.id}`, {
                             headers: { "Content-Type": "application/json" },
                         });
                         if (!r.ok) throw new Error(`Failed to load plan ${p.id} (${r.status})`);
@@ -324,7 +325,7 @@ export default function RegisterPage() {
             try {
                 setStripeLoading(true);
                 const res = await fetch(
-                    `${process.env.NEXT_PUBLIC_BACKEND_URL}/billing/create-setup-intent?plan_id=${selectedPlanId}`,
+                    `${BACKEND_URL}/billing/create-setup-intent?plan_id=${selectedPlanId}`,
                     { method: "POST", headers: { "Content-Type": "application/json" } }
                 );
                 if (!res.ok) throw new Error(`Cannot initialize payment (${res.status})`);
@@ -446,7 +447,7 @@ export default function RegisterPage() {
 
         setLoading(true);
         try {
-            const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/auth/register`, {
+            const res = await fetch(`${BACKEND_URL}/auth/register`, {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
                 body: JSON.stringify({
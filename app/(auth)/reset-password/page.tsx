@@ -4,6 +4,7 @@ import React, { Suspense, useEffect, useMemo, useState } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import Image from "next/image";
 import { EyeIcon, EyeSlashIcon } from "@heroicons/react/24/outline";
+import { BACKEND_URL } from "@/lib/api";
 
 export default function ResetPasswordPage() {
     return (
@@ -49,7 +50,7 @@ function ResetPasswordContent() {
             }
             try {
                 const res = await fetch(
-                    `${process.env.NEXT_PUBLIC_BACKEND_URL}/auth/password/token-info?token=${encodeURIComponent(
+                    `${BACKEND_URL}/auth/password/token-info?token=${encodeURIComponent(
                         token
                     )}`
                 );
@@ -94,7 +95,7 @@ function ResetPasswordContent() {
         setLoading(true);
         try {
             const res = await fetch(
-                `${process.env.NEXT_PUBLIC_BACKEND_URL}/auth/password/reset`,
+                `${BACKEND_URL}/auth/password/reset`,
                 {
                     method: "POST",
                     headers: { "Content-Type": "application/json" },
@@ -1,32 +1,11 @@
 'use client';
 
-import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { ArrowLeftIcon, CheckIcon, TrashIcon } from '@heroicons/react/24/outline';
-
-/* ----------------------------- Types ----------------------------- */
-
-type CompanyBrief = { id: number; name: string | null };
-
-type IpPoolRow = {
-    id: number;
-    name: string | null;
-    ips: string[] | null;
-    reputation_score: number | null;
-    warmup_state: string | null;
-    created_at: string | null; // ISO
-    company: { id: number; name: string | null } | null;
-};
-
-type PatchBody = Partial<{
-    name: string;
-    ips: string[];
-    reputation_score: number | null;
-    warmup_state: string | null;
-    created_at: string | null; // ISO-8601 string
-    companyId: number | null;
-}>;
+import { api, errorMessage, isAbortError } from '@/lib/api';
+import type { CompanyBrief, IpPool, IpPoolInput } from '@/types/api';
 
 /* ----------------------------- Helpers ---------------------------- */
 
@@ -72,49 +51,19 @@ function extractLeadingInt(s: string): number | null {
     return Number.isFinite(n) ? Math.trunc(n) : null;
 }
 
-// strip undefined, keep nulls
-function stripUndefined<T extends Record<string, unknown>>(obj: T): T {
-    const out: Record<string, unknown> = {};
-    (Object.keys(obj) as Array<keyof T>).forEach(k => {
-        const v = obj[k];
-        if (v !== undefined) out[k as string] = v;
-    });
-    return out as T;
-}
-
-// safe join for base URL + path
-function joinUrl(base: string, path: string) {
-    if (!base) return path;
-    return `${base.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
-}
-
 /* ------------------------------ Page ------------------------------ */
 
 export default function IpPoolEditPage() {
     const router = useRouter();
-    const { id } = useParams<{ id: string }>();
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL ?? '';
-
-    // 2) memoize getToken and authHeaders
-    const getToken = useCallback(
-        () => (typeof window !== 'undefined' ? localStorage.getItem('jwt') : null),
-        []
-    );
-
-    const authHeaders = useCallback((): HeadersInit => {
-        const token = getToken();
-        return {
-            'Content-Type': 'application/json',
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        };
-    }, [getToken]);
+    const params = useParams<{ id: string }>();
+    const id = Number(params.id) || null;
 
     const backHref = '/admin/ip-pools';
 
     // Load current pool
     const [loading, setLoading] = useState(true);
     const [loadErr, setLoadErr] = useState<string | null>(null);
-    const [row, setRow] = useState<IpPoolRow | null>(null);
+    const [row, setRow] = useState<IpPool | null>(null);
 
     // Form state
     const [name, setName] = useState('');
@@ -145,16 +94,14 @@ export default function IpPoolEditPage() {
 
     // Fetch current pool
     useEffect(() => {
-        if (!backend || !id) return;
+        if (!id) return;
         let abort = false;
 
         (async () => {
             setLoading(true);
             setLoadErr(null);
             try {
-                const res = await fetch(joinUrl(backend, `/ippools/${id}`), { headers: authHeaders() });
-                if (!res.ok) throw new Error(`Failed to load IP pool (${res.status})`);
-                const js: IpPoolRow = await res.json();
+                const js = await api.ipPools.get(id);
                 if (abort) return;
 
                 setRow(js);
@@ -171,7 +118,7 @@ export default function IpPoolEditPage() {
                     setCompanyQuery('');
                 }
             } catch (e) {
-                setLoadErr(e instanceof Error ? e.message : String(e));
+                if (!abort) setLoadErr(errorMessage(e));
             } finally {
                 if (!abort) setLoading(false);
             }
@@ -180,11 +127,10 @@ export default function IpPoolEditPage() {
         return () => {
             abort = true;
         };
-    }, [backend, id, authHeaders]);
+    }, [id]);
 
     // Debounced company search
     useEffect(() => {
-        if (!backend) return;
         const q = companyQuery.trim();
 
         if (q === '' || (companyId !== null && q === String(companyId))) {
@@ -199,14 +145,10 @@ export default function IpPoolEditPage() {
             try {
                 setCompanyLoading(true);
                 setCompanyErr(null);
-                const url = joinUrl(backend, `/search-companies?q=${encodeURIComponent(q)}&limit=10`);
-                const res = await fetch(url, { headers: authHeaders(), signal: ctrl.signal });
-                if (!res.ok) throw new Error(`Search failed (${res.status})`);
-                const rows = (await res.json()) as CompanyBrief[];
-                setCompanyResults(rows);
+                setCompanyResults(await api.companies.search(q, { signal: ctrl.signal }));
                 setShowResults(true);
             } catch (err) {
-                if ((err as Error).name !== 'AbortError') {
+                if (!isAbortError(err)) {
                     setCompanyErr('Failed to search companies');
                     setCompanyResults([]);
                 }
@@ -219,84 +161,40 @@ export default function IpPoolEditPage() {
             clearTimeout(t);
             ctrl.abort();
         };
-    }, [backend, companyQuery, companyId, authHeaders]);
+    }, [companyQuery, companyId]);
 
     const canSubmit = name.trim().length > 0;
 
     // Build PATCH body
-    const payload: PatchBody = useMemo(() => {
-        const ips = parseIps(ipsText);
-        const rep = intOrNull(reputation);
-        // Convert datetime-local to ISO; allow clearing if blank
-        const createdISO = createdAt.trim() ? new Date(createdAt).toISOString() : null;
-
-        const body: PatchBody = {
-            name: name.trim(),
-            ips: ips.length ? ips : [],
-            reputation_score: rep,
-            warmup_state: warmupState.trim() === '' ? null : warmupState.trim(),
-            created_at: createdISO, // can be null to clear
-            companyId: companyId === null ? null : companyId,
-        };
-
-        return stripUndefined(body);
-    }, [name, ipsText, reputation, warmupState, createdAt, companyId]);
+    const payload: IpPoolInput = useMemo(() => ({
+        name: name.trim(),
+        ips: parseIps(ipsText),
+        reputation_score: intOrNull(reputation),
+        warmup_state: warmupState.trim() === '' ? null : warmupState.trim(),
+        // datetime-local to ISO; blank clears it
+        created_at: createdAt.trim() ? new Date(createdAt).toISOString() : null,
+        companyId,
+    }), [name, ipsText, reputation, warmupState, createdAt, companyId]);
 
     async function onSave() {
-        if (!backend) return alert('Missing NEXT_PUBLIC_BACKEND_URL');
         if (!canSubmit) return alert('Please enter a name.');
         if (!id) return;
-
         try {
-            const res = await fetch(joinUrl(backend, `/ippools/${id}`), {
-                method: 'PATCH',
-                headers: authHeaders(),
-                body: JSON.stringify(payload),
-            });
-
-            if (!res.ok) {
-                let msg = `Update failed (${res.status})`;
-                try {
-                    const js = (await res.json()) as { error?: string; message?: string } | null;
-                    if (js?.error) msg = js.error;
-                    else if (js?.message) msg = js.message;
-                } catch {
-                    const t = await res.text().catch(() => '');
-                    if (t) msg = t;
-                }
-                alert(msg);
-                return;
-            }
-
+            await api.ipPools.update(id, payload);
             router.push(backHref);
         } catch (e) {
-            alert(e instanceof Error ? e.message : 'Update failed');
+            alert(errorMessage(e, 'Update failed'));
         }
     }
 
     async function onDelete() {
-        if (!backend || !id) return;
+        if (!id) return;
         if (!confirm('Delete this IP pool?')) return;
         try {
-            const res = await fetch(joinUrl(backend, `/ippools/${id}`), {
-                method: 'DELETE',
-                headers: authHeaders(),
-            });
-            if (!res.ok && res.status !== 204) {
-                let msg = `Delete failed (${res.status})`;
-                try {
-                    const js = (await res.json()) as { error?: string; message?: string } | null;
-                    if (js?.error) msg = js.error;
-                    else if (js?.message) msg = js.message;
-                } catch {
-                    // ignore
-                }
-                alert(msg);
-                return;
-            }
+            await api.ipPools.remove(id);
             router.push(backHref);
         } catch (e) {
-            alert(e instanceof Error ? e.message : 'Delete failed');
+            alert(errorMessage(e, 'Delete failed'));
         }
     }
 
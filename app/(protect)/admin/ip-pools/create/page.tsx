@@ -4,19 +4,8 @@ import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { ArrowLeftIcon, CheckIcon } from '@heroicons/react/24/outline';
-
-/* ----------------------------- Types ----------------------------- */
-
-type CompanyBrief = { id: number; name: string | null };
-
-type PostBody = {
-    name: string;
-    ips?: string[];
-    reputation_score?: number | null;
-    warmup_state?: string | null;
-    created_at?: string | null; // ISO-8601 string
-    companyId?: number | null;
-};
+import { api, errorMessage, isAbortError } from '@/lib/api';
+import type { CompanyBrief, IpPoolInput } from '@/types/api';
 
 /* ----------------------------- Helpers ---------------------------- */
 
@@ -51,35 +40,10 @@ function extractLeadingInt(s: string): number | null {
     return Number.isFinite(n) ? Math.trunc(n) : null;
 }
 
-// strip undefined, keep nulls
-function stripUndefined<T extends Record<string, unknown>>(obj: T): T {
-    const out: Record<string, unknown> = {};
-    (Object.keys(obj) as Array<keyof T>).forEach((k) => {
-        const v = obj[k];
-        if (v !== undefined) out[k as string] = v;
-    });
-    return out as T;
-}
-
-// safe join for base URL + path
-function joinUrl(base: string, path: string) {
-    if (!base) return path;
-    return `${base.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
-}
-
 /* ------------------------------ Page ------------------------------ */
 
 export default function IpPoolCreatePage() {
     const router = useRouter();
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL ?? '';
-
-    const authHeaders = (): HeadersInit => {
-        const token = getToken();
-        return {
-            'Content-Type': 'application/json',
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        };
-    };
 
     const backHref = '/admin/ip-pools';
 
@@ -112,7 +76,6 @@ export default function IpPoolCreatePage() {
 
     // Debounced company search
     useEffect(() => {
-        if (!backend) return;
         const q = companyQuery.trim();
 
         // If the visible query matches a selected id, skip searching
@@ -128,15 +91,10 @@ export default function IpPoolCreatePage() {
             try {
                 setCompanyLoading(true);
                 setCompanyErr(null);
-                // FIX: use the actual backend route /companies/search
-                const url = joinUrl(backend, `/search-companies?q=${encodeURIComponent(q)}&limit=10`);
-                const res = await fetch(url, { headers: authHeaders(), signal: ctrl.signal });
-                if (!res.ok) throw new Error(`Search failed (${res.status})`);
-                const rows = (await res.json()) as CompanyBrief[];
-                setCompanyResults(rows);
+                setCompanyResults(await api.companies.search(q, { signal: ctrl.signal }));
                 setShowResults(true);
             } catch (err) {
-                if ((err as Error).name !== 'AbortError') {
+                if (!isAbortError(err)) {
                     setCompanyErr('Failed to search companies');
                     setCompanyResults([]);
                 }
@@ -150,71 +108,28 @@ export default function IpPoolCreatePage() {
             ctrl.abort();
         };
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [backend, companyQuery]);
+    }, [companyQuery]);
 
     const canSubmit = name.trim().length > 0;
 
-    // Build PostBody from state
-    const payload: PostBody = useMemo(() => {
-        const ips = parseIps(ipsText);
-        const rep = intOrNull(reputation);
-        const createdISO = createdAt.trim() ? new Date(createdAt).toISOString() : undefined;
-
-        const body: PostBody = {
-            name: name.trim(),
-            ips: ips.length ? ips : [],
-            reputation_score: rep,
-            warmup_state: warmupState.trim() === '' ? null : warmupState.trim(),
-            created_at: createdISO ?? null,
-            companyId: companyId === null ? null : companyId,
-        };
-        return stripUndefined(body);
-    }, [name, ipsText, reputation, warmupState, createdAt, companyId]);
-
-    const getToken = () =>
-        typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
+    // Build the request body from state
+    const payload: IpPoolInput = useMemo(() => ({
+        name: name.trim(),
+        ips: parseIps(ipsText),
+        reputation_score: intOrNull(reputation),
+        warmup_state: warmupState.trim() === '' ? null : warmupState.trim(),
+        created_at: createdAt.trim() ? new Date(createdAt).toISOString() : null,
+        companyId,
+    }), [name, ipsText, reputation, warmupState, createdAt, companyId]);
 
     async function onCreate() {
-        if (!backend) return alert('Missing NEXT_PUBLIC_BACKEND_URL');
         if (!canSubmit) return alert('Please enter a name.');
-
-        const token = getToken();
-        if (!token) {
-            alert('You are not signed in (no JWT found). Please log in again.');
-            return;
-        }
-
-        const url = joinUrl(backend, '/ippools');
-
         try {
-            const res = await fetch(url, {
-                method: 'POST',
-                headers: authHeaders(),
-                // If your server uses cookie-based auth instead of Bearer, uncomment next line
-                // credentials: 'include',
-                body: JSON.stringify(payload),
-            });
-
-            if (!res.ok) {
-                let msg = `Create failed (${res.status})`;
-                try {
-                    const js = (await res.json()) as { error?: string; message?: string } | null;
-                    if (js?.error) msg = js.error;
-                    else if (js?.message) msg = js.message;
-                } catch {
-                    const t = await res.text().catch(() => '');
-                    if (t) msg = t;
-                }
-                // log details to quickly diagnose (visible in browser console)
-                console.error('POST /ippools failed', { url, headers: authHeaders(), payload });
-                alert(msg);
-                return;
-            }
-
+            await api.ipPools.create(payload);
             router.push(backHref);
         } catch (e) {
-            console.error('Network error posting /ippools', e);
-            alert(e instanceof Error ? e.message : 'Create failed');
+            console.error('POST /ippools failed', { payload, error: e });
+            alert(errorMessage(e, 'Create failed'));
         }
     }
 
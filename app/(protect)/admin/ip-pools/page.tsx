@@ -11,6 +11,8 @@ import {
     TrashIcon,
     PencilSquareIcon,
 } from '@heroicons/react/24/outline';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
+import type { ApiPaged } from '@/lib/api';
 
 /* ----------------------------- Types ----------------------------- */
 
@@ -26,11 +28,6 @@ type IpPoolRow = {
     company: CompanyMini;
 };
 
-type ApiPaged<T> = {
-    meta: { page: number; perPage: number; total: number; totalPages: number };
-    items: T[];
-};
-
 /* ----------------------------- Page ----------------------------- */
 
 export default function IpPoolsIndexPage() {
@@ -72,11 +69,7 @@ export default function IpPoolsIndexPage() {
     const [loading, setLoading] = useState(true);
     const [err, setErr] = useState<string | null>(null);
 
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
+    const backend = BACKEND_URL;
 
     const listUrl = useMemo(() => {
         const sp = new URLSearchParams();
@@ -103,7 +96,7 @@ export default function IpPoolsIndexPage() {
             setLoading(true);
             setErr(null);
             try {
-                const res = await fetch(listUrl, { headers: authHeaders() });
+                const res = await apiFetch(listUrl);
                 if (!res.ok) throw new Error(`Failed to load IP pools (${res.status})`);
                 const json: ApiPaged<IpPoolRow> = await res.json();
                 if (!abort) setData(json);
@@ -184,9 +177,8 @@ export default function IpPoolsIndexPage() {
     async function handleDelete(id: number) {
         if (!confirm('Delete this IP pool?')) return;
         try {
-            const res = await fetch(`${backend}/ippools/${id}`, {
+            const res = await apiFetch(`${backend}/ippools/${id}`, {
                 method: 'DELETE',
-                headers: authHeaders(),
             });
             if (!res.ok && res.status !== 204) throw new Error(`Delete failed (${res.status})`);
             setData(prev => prev ? {
@@ -3,6 +3,9 @@
 import DashboardLayout from "@/components/dashboard/DashboardLayout";
 import { ReactNode, useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
+import { BACKEND_URL, apiFetch } from "@/lib/api";
+import { redirectToLogin } from "@/lib/session";
+import { isPlatformAdmin } from "@/lib/permissions";
 
 interface User {
     media: {
@@ -11,22 +14,14 @@ interface User {
     id: number;
     email: string;
     fullName: string;
+    roles?: string[];
     avatarUrl ?: {
         url: string;
     }
 }
 
 async function fetchMe(): Promise<User> {
-    const token = localStorage.getItem("jwt");
-    const res = await fetch(
-        `${process.env.NEXT_PUBLIC_BACKEND_URL}/auth/me`,
-        {
-            headers: {
-                "Content-Type": "application/json",
-                ...(token ? { Authorization: `Bearer ${token}` } : {}),
-            },
-        }
-    );
+    const res = await apiFetch(`${BACKEND_URL}/auth/me`);
     if (!res.ok) throw new Error("Not authenticated");
     return res.json();
 }
@@ -36,16 +31,19 @@ export default function DashboardPageLayout({
                                             }: {
     children: ReactNode;
 }) {
+    const router = useRouter();
     const [user, setUser] = useState<User | null>(null);
     const [loading, setLoading] = useState(true);
-    const router = useRouter();
-
     useEffect(() => {
         fetchMe()
-            .then((me) => setUser(me))
+            .then((me) => {
+                // middleware already checked the JWT claim; this covers a role revoked since login
+                if (isPlatformAdmin(me.roles)) setUser(me);
+                else router.replace("/dashboard");
+            })
             .catch(() => {
-                // if not authenticated, send them to /login
-                router.replace("/login");
+                // if not authenticated, send them to /login (and back here afterwards)
+                redirectToLogin();
             })
             .finally(() => setLoading(false));
     }, [router]);
@@ -4,6 +4,7 @@ import React, { useEffect, useMemo, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { ArrowLeftIcon, CheckIcon, InformationCircleIcon } from '@heroicons/react/24/outline';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
 
 /* ----------------------------- Types ----------------------------- */
 
@@ -91,12 +92,7 @@ function compactDeep<T>(obj: T): T {
 export default function PlanEditPage() {
     const router = useRouter();
     const { id } = useParams<{ id: string }>();
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
-
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
+    const backend = BACKEND_URL;
 
     const backHref = '/admin/plans';
 
@@ -153,7 +149,7 @@ export default function PlanEditPage() {
             setLoadErr(null);
             try {
                 // GET matches your controller's GET route
-                const res = await fetch(`${backend}/plans-id/${id}`, { headers: authHeaders() });
+                const res = await apiFetch(`${backend}/plans-id/${id}`);
                 if (!res.ok) throw new Error(`Failed to load plan (${res.status})`);
                 const p: Plan = await res.json();
 
@@ -292,9 +288,8 @@ export default function PlanEditPage() {
             const payload = compactDeep(raw);
 
             // PATCH matches your controller
-            const res = await fetch(`${backend}/plans/${id}`, {
+            const res = await apiFetch(`${backend}/plans/${id}`, {
                 method: 'PATCH',
-                headers: authHeaders(),
                 body: JSON.stringify(payload),
             });
             const json = await res.json();
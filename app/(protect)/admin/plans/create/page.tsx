@@ -4,6 +4,7 @@ import React, { useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { ArrowLeftIcon, CheckIcon, InformationCircleIcon } from '@heroicons/react/24/outline';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
 
 /* ----------------------------- Types ----------------------------- */
 
@@ -87,12 +88,7 @@ function compactDeep<T>(obj: T): T {
 
 export default function PlanCreatePage() {
     const router = useRouter();
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
-
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
+    const backend = BACKEND_URL;
 
     const backHref = '/admin/plans';
     const detailHref = (id: number) => `/admin/plans/${id}`;
@@ -215,9 +211,8 @@ export default function PlanCreatePage() {
             };
             const payload = compactDeep(rawPayload);
 
-            const res = await fetch(`${backend}/plans`, {
+            const res = await apiFetch(`${backend}/plans`, {
                 method: 'POST',
-                headers: authHeaders(),
                 body: JSON.stringify(payload),
             });
 
@@ -11,6 +11,8 @@ import {
     TrashIcon,
     PencilSquareIcon,
 } from '@heroicons/react/24/outline';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
+import type { ApiPaged } from '@/lib/api';
 
 /* ----------------------------- Types ----------------------------- */
 
@@ -23,11 +25,6 @@ type PlanRow = {
     features: Record<string, unknown> | unknown[] | null;
 };
 
-type ApiPaged<T> = {
-    meta: { page: number; perPage: number; total: number; totalPages: number };
-    items: T[];
-};
-
 /* ----------------------------- Page ----------------------------- */
 
 export default function PlansIndexPage() {
@@ -48,11 +45,7 @@ export default function PlansIndexPage() {
     const [loading, setLoading] = useState(true);
     const [err, setErr] = useState<string | null>(null);
 
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
+    const backend = BACKEND_URL;
 
     const listUrl = useMemo(() => {
         const sp = new URLSearchParams();
@@ -69,7 +62,7 @@ export default function PlansIndexPage() {
             setLoading(true);
             setErr(null);
             try {
-                const res = await fetch(listUrl, { headers: authHeaders() });
+                const res = await apiFetch(listUrl);
                 if (!res.ok) throw new Error(`Failed to load plans (${res.status})`);
                 const json: ApiPaged<PlanRow> = await res.json();
                 if (!abort) setData(json);
@@ -119,9 +112,8 @@ export default function PlansIndexPage() {
     async function handleDelete(id: number) {
         if (!confirm('Delete this plan?')) return;
         try {
-            const res = await fetch(`${backend}/plans/${id}`, {
+            const res = await apiFetch(`${backend}/plans/${id}`, {
                 method: 'DELETE',
-                headers: authHeaders(),
             });
             if (!res.ok && res.status !== 204) throw new Error(`Delete failed (${res.status})`);
             // optimistic update
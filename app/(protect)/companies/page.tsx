@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect, FormEvent } from "react";
+import { BACKEND_URL, apiFetch } from "@/lib/api";
 
 interface Company {
     id: number;
@@ -13,23 +14,11 @@ export default function CompaniesPage() {
     const [error, setError]         = useState<string | null>(null);
     const [loading, setLoading]     = useState(false);
 
-    function authHeaders() {
-        const token = typeof window !== "undefined"
-            ? localStorage.getItem("jwt")
-            : null;
-        return {
-            "Content-Type": "application/json",
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        };
-    }
     // 1) Load existing companies
     useEffect(() => {
         async function load() {
             try {
-                const res = await fetch(
-                    `${process.env.NEXT_PUBLIC_BACKEND_URL}/companies`,
-                    { headers: authHeaders() }
-                );
+                const res = await apiFetch(`${BACKEND_URL}/companies`);
                 if (!res.ok) {
                     throw new Error(`Failed to load: ${res.status}`);
                 }
@@ -51,11 +40,10 @@ export default function CompaniesPage() {
         }
         setLoading(true);
         try {
-            const res = await fetch(
-                `${process.env.NEXT_PUBLIC_BACKEND_URL}/companies`,
+            const res = await apiFetch(
+                `${BACKEND_URL}/companies`,
                 {
                     method: "POST",
-                    headers: authHeaders(),
                     body: JSON.stringify({ name: newName.trim() }),
                 }
             );
@@ -5,9 +5,8 @@ import Link from 'next/link';
 import { useParams, useRouter } from 'next/navigation';
 import {
     ArrowLeftIcon,
+    ArrowPathIcon,
     CheckIcon,
-    CodeBracketIcon,
-    EyeIcon,
     ExclamationTriangleIcon,
     PlayIcon,
     TrashIcon,
@@ -15,83 +14,21 @@ import {
     PowerIcon,
     CheckCircleIcon,
 } from '@heroicons/react/24/outline';
-import type { ReactCodeMirrorProps } from '@uiw/react-codemirror';
-
-/* -------------------- Lazy CodeMirror (no SSR) -------------------- */
-let CodeMirror: React.ComponentType<ReactCodeMirrorProps> | null = null;
-if (typeof window !== 'undefined') {
-    void import('@uiw/react-codemirror').then((m) => {
-        CodeMirror = m.default as React.ComponentType<ReactCodeMirrorProps>;
-    });
-}
+import FlowEditor from '@/components/automations/FlowEditor';
+import FlowSimulator from '@/components/automations/FlowSimulator';
+import RunsPanel from '@/components/automations/RunsPanel';
+import WebhookTriggerPanel from '@/components/automations/WebhookTriggerPanel';
+import Tabs from '@/components/ui/Tabs';
+import { api, errorMessage, isAbortError } from '@/lib/api';
+import { defaultFlow, defaultTrigger, parseFlow, toFlowJson } from '@/lib/automation-flow/flow';
+import { listFields } from '@/lib/automation-flow/payload-fields';
+import { validateFlow } from '@/lib/automation-flow/validate';
+import type { AutomationLifecycle, AutomationStatus } from '@/types/api';
+import type { AutomationFlow, TriggerKind } from '@/types/automation-flow';
 
 /* ----------------------------- Types ------------------------------ */
 
-type Automation = {
-    id: number;
-    name: string | null;
-    trigger: string | null;   // 'time' | 'webhook' | 'event' | null
-    flow: Record<string, unknown> | null;
-    status: 'draft' | 'active' | 'paused' | 'disabled' | null;
-    last_run_at: string | null;
-    created_at: string | null;
-};
-
-type TriggerKind = 'time' | 'webhook' | 'event';
-type FlowTrigger = { type?: TriggerKind; cron?: string; secret?: string; name?: string };
-type FlowShape = { trigger?: FlowTrigger; steps?: unknown };
-
-// Narrowing helper
-function getTriggerKindFromFlow(flow: unknown): TriggerKind | null {
-    if (!flow || typeof flow !== 'object') return null;
-    const trg = (flow as FlowShape).trigger;
-    const t = trg?.type;
-    return t === 'time' || t === 'webhook' || t === 'event' ? t : null;
-}
-
-type PostBody = {
-    name?: string | null;
-    trigger?: string | null;
-    flow?: Record<string, unknown> | null;
-    status?: string | null;
-};
-
-/* --------------------------- Utilities ---------------------------- */
-
-function cx(...xs: Array<string | false | null | undefined>): string {
-    return xs.filter(Boolean).join(' ');
-}
-
-function defaultFlow(trigger: TriggerKind): Record<string, unknown> {
-    switch (trigger) {
-        case 'time':
-            return {
-                trigger: { type: 'time', cron: '0 9 * * *' }, // every day 09:00
-                steps: [{ type: 'action', name: 'send_email', template_id: 123 }],
-            };
-        case 'webhook':
-            return {
-                trigger: { type: 'webhook', secret: 'replace-me' },
-                steps: [{ type: 'filter', if: 'payload.event == "signup"' }],
-            };
-        case 'event':
-            return {
-                trigger: { type: 'event', name: 'contact.created' },
-                steps: [{ type: 'action', name: 'add_to_list', list_id: 1 }],
-            };
-        default:
-            return { trigger: { type: 'time', cron: '0 9 * * *' }, steps: [] };
-    }
-}
-
-function escapeHtml(s: string): string {
-    return s
-        .replaceAll('&', '&amp;')
-        .replaceAll('<', '&lt;')
-        .replaceAll('>', '&gt;')
-        .replaceAll('"', '&quot;')
-        .replaceAll("'", '&#039;');
-}
+type View = 'editor' | 'runs';
 
 /* ------------------------------ Page ------------------------------ */
 
@@ -99,12 +36,6 @@ export default function AutomationEditPage() {
     const router = useRouter();
     const { hash, id } = useParams<{ hash: string; id: string }>();
 
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
-
     const backHref = `/dashboard/company/${hash}/automations`;
 
     // Data/UI state
@@ -114,13 +45,15 @@ export default function AutomationEditPage() {
 
     // Basics
     const [name, setName] = useState<string>('');
-    const [trigger, setTrigger] = useState<TriggerKind>('time');
-    const [status, setStatus] = useState<'draft' | 'active' | 'paused' | 'disabled'>('draft');
+    const [status, setStatus] = useState<AutomationStatus>('draft');
 
-    // Flow JSON (editable)
-    const [flowJSON, setFlowJSON] = useState<string>(JSON.stringify(defaultFlow('time'), null, 2));
-    const [flowObj, setFlowObj] = useState<Record<string, unknown>>(defaultFlow('time'));
+    // Flow (canvas and JSON views edit the same object)
+    const [flow, setFlow] = useState<AutomationFlow | null>(null);
     const [flowErr, setFlowErr] = useState<string | null>(null);
+    const [simPath, setSimPath] = useState<Set<string> | null>(null);
+    const [view, setView] = useState<View>('editor');
+    // Last received webhook payload; its fields feed the condition pickers
+    const [sample, setSample] = useState<unknown>(null);
 
     // Meta
     const [createdAt, setCreatedAt] = useState<string | null>(null);
@@ -128,181 +61,89 @@ export default function AutomationEditPage() {
 
     /* ---------- load automation ---------- */
     useEffect(() => {
-        let abort = false;
-        (async () => {
-            if (!backend) return setErr('Missing backend URL');
-            setLoading(true);
-            setErr(null);
-            try {
-                const res = await fetch(`${backend}/companies/${hash}/automations/${id}`, { headers: authHeaders() });
-                if (!res.ok) throw new Error(`Failed to load automation (${res.status})`);
-                const a: Automation = await res.json();
-
-                if (abort) return;
+        const ctrl = new AbortController();
+        setLoading(true);
+        setErr(null);
+        api.automations
+            .get(hash, Number(id), { signal: ctrl.signal })
+            .then((a) => {
                 setName(a.name ?? '');
-                // prefer explicit trigger, else infer from flow.trigger.type
-                const inferred = getTriggerKindFromFlow(a.flow);
-                const t: TriggerKind = (a.trigger as TriggerKind | null) ?? inferred ?? 'time';
-                setTrigger(t);
-
-                const flow = a.flow ?? defaultFlow(t);
-                setFlowObj(flow);
-                setFlowJSON(JSON.stringify(flow, null, 2));
+                // flow.trigger.type wins over the column; a missing flow starts from the default for the trigger
+                setFlow(a.flow ? parseFlow(a.flow) : defaultFlow((a.trigger as TriggerKind | null) ?? 'time'));
                 setFlowErr(null);
 
-                setStatus((a.status ?? 'draft') as 'draft' | 'active' | 'paused' | 'disabled');
+                setStatus(a.status ?? 'draft');
                 setCreatedAt(a.created_at);
                 setLastRunAt(a.last_run_at);
-            } catch (e) {
-                if (!abort) setErr(e instanceof Error ? e.message : String(e));
-            } finally {
-                if (!abort) setLoading(false);
-            }
-        })();
-        return () => { abort = true; };
-    }, [backend, hash, id]);
-
-    /* ---------- react to trigger changes: sync JSON's trigger block ---------- */
-    useEffect(() => {
-        try {
-            const parsed = JSON.parse(flowJSON || '{}') as Record<string, unknown>;
-            const next = { ...parsed, trigger: defaultFlow(trigger).trigger };
-            const nextStr = JSON.stringify(next, null, 2);
-            setFlowJSON(nextStr);
-            setFlowObj(next);
-            setFlowErr(null);
-        } catch {
-            const def = defaultFlow(trigger);
-            setFlowJSON(JSON.stringify(def, null, 2));
-            setFlowObj(def);
-            setFlowErr(null);
-        }
-        // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [trigger]);
+            })
+            .catch((e) => {
+                if (!isAbortError(e)) setErr(errorMessage(e));
+            })
+            .finally(() => {
+                if (!ctrl.signal.aborted) setLoading(false);
+            });
+        return () => ctrl.abort();
+    }, [hash, id]);
 
-    /* ---------- validate as user edits ---------- */
-    useEffect(() => {
-        try {
-            const parsed = JSON.parse(flowJSON || '{}') as Record<string, unknown>;
-            setFlowObj(parsed);
-            setFlowErr(null);
-        } catch {
-            setFlowErr('Flow is not valid JSON.');
-        }
-    }, [flowJSON]);
+    const trigger = flow?.trigger.type ?? 'time';
 
-    const canSubmit = name.trim().length > 0 && !flowErr;
+    // Switching the trigger replaces only the trigger block; steps are kept
+    function changeTrigger(kind: TriggerKind) {
+        if (flow && kind !== trigger) setFlow({ ...flow, trigger: defaultTrigger(kind) });
+    }
 
-    /* ---------- lint (UX hints) ---------- */
-    const lintIssues = useMemo(() => {
-        const issues: string[] = [];
-        if (!flowObj || typeof flowObj !== 'object') {
-            issues.push('Flow must be a JSON object.');
-            return issues;
-        }
-        const trg = (flowObj as Record<string, unknown>)['trigger'];
-        if (!trg || typeof trg !== 'object') {
-            issues.push('Missing "trigger" object.');
-        } else {
-            const ttype = (trg as Record<string, unknown>)['type'];
-            if (ttype !== trigger) {
-                issues.push(`Trigger type in JSON ("${String(ttype)}") differs from selection ("${trigger}").`);
-            }
-            if (trigger === 'time') {
-                const cron = (trg as Record<string, unknown>)['cron'];
-                if (!cron || typeof cron !== 'string' || cron.trim() === '') {
-                    issues.push('Time trigger requires a non-empty "cron" string.');
-                }
-            }
-            if (trigger === 'webhook') {
-                const secret = (trg as Record<string, unknown>)['secret'];
-                if (!secret || typeof secret !== 'string' || secret.trim().length < 8) {
-                    issues.push('Webhook trigger "secret" should be at least 8 characters.');
-                }
-            }
-            if (trigger === 'event') {
-                const name = (trg as Record<string, unknown>)['name'];
-                if (!name || typeof name !== 'string' || name.trim() === '') {
-                    issues.push('Event trigger requires "name" (e.g., "contact.created").');
-                }
-            }
-        }
-        const steps = (flowObj as Record<string, unknown>)['steps'];
-        if (!Array.isArray(steps)) {
-            issues.push('Flow "steps" should be an array.');
-        }
-        return issues;
-    }, [flowObj, trigger]);
+    const fields = useMemo(() => (trigger === 'webhook' && sample ? listFields(sample) : undefined), [trigger, sample]);
+
+    const issues = useMemo(() => (flow ? validateFlow(flow) : []), [flow]);
+    const hasErrors = issues.some((i) => i.severity === 'error');
+
+    const canSubmit = name.trim().length > 0 && !!flow && !flowErr && !hasErrors;
 
     /* ---------- actions ---------- */
 
     async function saveAutomation(goBackAfter = false) {
-        if (!backend) return setErr('Missing backend URL');
-        if (!canSubmit) return setErr('Please fix the form errors.');
+        if (!canSubmit) return setErr(hasErrors ? 'Please fix the errors shown on the flow.' : 'Please fix the form errors.');
 
         setWorking(true);
         setErr(null);
         try {
-            const payload: PostBody = {
+            await api.automations.update(hash, Number(id), {
                 name: name.trim(),
                 trigger,
                 status,
-                flow: flowErr ? null : flowObj,
-            };
-            const res = await fetch(`${backend}/companies/${hash}/automations/${id}`, {
-                method: 'PATCH',
-                headers: authHeaders(),
-                body: JSON.stringify(payload),
+                flow: flow ? toFlowJson(flow) : null,
             });
-            const json = (await res.json()) as Automation | { error?: string };
-            if (!res.ok) throw new Error('error' in json && json.error ? json.error : `Update failed (${res.status})`);
-
             if (goBackAfter) router.push(backHref);
         } catch (e) {
-            setErr(e instanceof Error ? e.message : String(e));
+            setErr(errorMessage(e));
         } finally {
             setWorking(false);
         }
     }
 
-    async function lifecycle(action: 'run' | 'enable' | 'pause' | 'disable') {
-        if (!backend) return setErr('Missing backend URL');
+    async function lifecycle(action: AutomationLifecycle) {
         setWorking(true);
         setErr(null);
         try {
-            const res = await fetch(`${backend}/companies/${hash}/automations/${id}/${action}`, {
-                method: 'POST',
-                headers: authHeaders(),
-            });
-            const payload = await res.json();
-            if (!res.ok) throw new Error((payload && payload.error) || `${action} failed (${res.status})`);
-            // normalize: /run returns { automation, run: {...} }, others return automation directly
-            const a: Automation | undefined = payload.automation ?? payload;
-            if (a) {
-                setStatus((a.status ?? 'draft') as typeof status);
-                setLastRunAt(a.last_run_at ?? lastRunAt);
-            }
+            const a = await api.automations.lifecycle(hash, Number(id), action);
+            setStatus(a.status ?? 'draft');
+            setLastRunAt(a.last_run_at ?? lastRunAt);
         } catch (e) {
-            setErr(e instanceof Error ? e.message : String(e));
+            setErr(errorMessage(e));
         } finally {
             setWorking(false);
         }
     }
 
     async function handleDelete() {
-        if (!backend) return setErr('Missing backend URL');
         if (!confirm('Delete this automation?')) return;
         setWorking(true);
         setErr(null);
         try {
-            const res = await fetch(`${backend}/companies/${hash}/automations/${id}`, {
-                method: 'DELETE',
-                headers: authHeaders(),
-            });
-            if (!res.ok && res.status !== 204) throw new Error(`Delete failed (${res.status})`);
+            await api.automations.remove(hash, Number(id));
             router.push(backHref);
         } catch (e) {
-            setErr(e instanceof Error ? e.message : String(e));
+            setErr(errorMessage(e));
         } finally {
             setWorking(false);
         }
@@ -311,10 +152,10 @@ export default function AutomationEditPage() {
     /* ------------------------------ Render ------------------------------ */
 
     if (loading) return <p className="p-6 text-center text-gray-600">Loading automation…</p>;
-    if (err && name === '' && flowJSON === '') {
+    if (!flow) {
         return (
             <div className="p-6 text-center">
-                <p className="text-red-600">{err}</p>
+                <p className="text-red-600">{err ?? 'Automation not found.'}</p>
                 <button onClick={() => router.push(backHref)} className="mt-3 inline-flex items-center px-3 py-2 rounded border">
                     <ArrowLeftIcon className="h-4 w-4 mr-1" /> Back
                 </button>
@@ -368,7 +209,7 @@ export default function AutomationEditPage() {
                         <label className="block text-sm font-medium mb-1">Trigger</label>
                         <select
                             value={trigger}
-                            onChange={(e) => setTrigger(e.target.value as TriggerKind)}
+                            onChange={(e) => changeTrigger(e.target.value as TriggerKind)}
                             className="w-full rounded border px-3 py-2"
                         >
                             <option value="time">time (CRON)</option>
@@ -381,7 +222,7 @@ export default function AutomationEditPage() {
                         <label className="block text-sm font-medium mb-1">Status</label>
                         <select
                             value={status}
-                            onChange={(e) => setStatus(e.target.value as typeof status)}
+                            onChange={(e) => setStatus(e.target.value as AutomationStatus)}
                             className="w-full rounded border px-3 py-2"
                         >
                             <option value="draft">draft</option>
@@ -401,152 +242,117 @@ export default function AutomationEditPage() {
                 {/* Hints based on trigger */}
                 <div className="text-sm text-gray-600 flex items-center gap-2">
                     <ExclamationTriangleIcon className="h-4 w-4" />
-                    {trigger === 'time' && <span>Use a standard CRON string in <code>flow.trigger.cron</code> (e.g. <code>0 9 * * *</code> for daily 09:00).</span>}
-                    {trigger === 'webhook' && <span>Provide a strong <code>flow.trigger.secret</code>; you’ll receive a URL elsewhere after enabling.</span>}
+                    {trigger === 'time' && <span>Use a standard CRON string (e.g. <code>0 9 * * *</code> for daily 09:00); edit it on the trigger node.</span>}
+                    {trigger === 'webhook' && <span>The trigger URL, secret rotation and a test sender are below the flow; received payloads fill the condition field pickers.</span>}
                     {trigger === 'event' && (
                         <span>
-                            Set <code>flow.trigger.name</code> to an internal event (e.g. <code>&quot;contact.created&quot;</code>).
+                            Set the trigger node to an internal event (e.g. <code>&quot;contact.created&quot;</code>).
                         </span>
                     )}
                 </div>
             </div>
 
-            {/* FLOW EDITOR + LINT + JSON INPUT (TOP) */}
-            <div className="bg-white border rounded-lg p-4 space-y-4">
-                <div className="flex items-center justify-between">
-                    <div className="inline-flex items-center gap-2 text-sm">
-                        <CodeBracketIcon className="h-4 w-4" />
-                        <span>Flow (JSON)</span>
-                    </div>
+            {/* Actions */}
+            <div className="bg-white border rounded-lg p-4">
+                <div className="text-sm font-medium mb-1">Actions</div>
+                <div className="flex flex-wrap gap-2">
                     <button
                         type="button"
-                        onClick={() => {
-                            const def = defaultFlow(trigger);
-                            setFlowJSON(JSON.stringify(def, null, 2));
-                            setFlowObj(def);
-                            setFlowErr(null);
-                        }}
-                        className="text-sm inline-flex items-center px-2 py-1 rounded border hover:bg-gray-50"
-                        title="Reset to default for current trigger"
+                        disabled={working}
+                        onClick={() => lifecycle('run')}
+                        className="inline-flex items-center px-3 py-1.5 rounded border hover:bg-gray-50 text-sm disabled:opacity-60"
+                        title="Run now"
                     >
-                        Reset to default
+                        <PlayIcon className="h-4 w-4 mr-1" /> Run
+                    </button>
+                    <button
+                        type="button"
+                        disabled={working || status === 'active'}
+                        onClick={() => lifecycle('enable')}
+                        className="inline-flex items-center px-3 py-1.5 rounded border hover:bg-gray-50 text-sm disabled:opacity-60"
+                        title="Enable"
+                    >
+                        <CheckCircleIcon className="h-4 w-4 mr-1" /> Enable
+                    </button>
+                    <button
+                        type="button"
+                        disabled={working || status === 'paused'}
+                        onClick={() => lifecycle('pause')}
+                        className="inline-flex items-center px-3 py-1.5 rounded border hover:bg-gray-50 text-sm disabled:opacity-60"
+                        title="Pause"
+                    >
+                        <PauseIcon className="h-4 w-4 mr-1" /> Pause
+                    </button>
+                    <button
+                        type="button"
+                        disabled={working || status === 'disabled'}
+                        onClick={() => lifecycle('disable')}
+                        className="inline-flex items-center px-3 py-1.5 rounded border hover:bg-gray-50 text-sm disabled:opacity-60"
+                        title="Disable"
+                    >
+                        <PowerIcon className="h-4 w-4 mr-1" /> Disable
+                    </button>
+                    <button
+                        type="button"
+                        disabled={working}
+                        onClick={handleDelete}
+                        className="inline-flex items-center px-3 py-1.5 rounded border text-red-600 hover:bg-red-50 text-sm disabled:opacity-60"
+                        title="Delete"
+                    >
+                        <TrashIcon className="h-4 w-4 mr-1" /> Delete
                     </button>
-                </div>
-
-                <div className="grid lg:grid-cols-2 gap-4">
-                    {/* Left: JSON editor */}
-                    <div className="border rounded overflow-hidden">
-                        <div className="px-3 py-2 border-b bg-gray-50 text-sm text-gray-700">JSON editor</div>
-                        <div>
-                            {CodeMirror ? (
-                                <CodeMirror value={flowJSON} height="420px" onChange={(v) => setFlowJSON(v)} />
-                            ) : (
-                                <textarea
-                                    value={flowJSON}
-                                    onChange={(e) => setFlowJSON(e.target.value)}
-                                    rows={20}
-                                    className={cx('w-full px-3 py-2 font-mono text-sm outline-none', flowErr ? 'bg-rose-50' : undefined)}
-                                    placeholder='{"trigger":{"type":"time","cron":"0 9 * * *"},"steps":[]}'
-                                />
-                            )}
-                        </div>
-                    </div>
-
-                    {/* Right: Lint + Quick testers */}
-                    <div className="space-y-3">
-                        <div className="border rounded p-3">
-                            <div className="text-sm font-medium mb-2">Checks</div>
-                            {flowErr ? (
-                                <div className="text-sm text-red-600">Flow JSON error: {flowErr}</div>
-                            ) : lintIssues.length > 0 ? (
-                                <ul className="list-disc ml-4 text-sm text-amber-700">
-                                    {lintIssues.map((it) => (
-                                        <li key={it}>{it}</li>
-                                    ))}
-                                </ul>
-                            ) : (
-                                <div className="text-sm text-green-700">Looks good!</div>
-                            )}
-                        </div>
-
-                        {/* Quick actions */}
-                        <div className="border rounded p-3">
-                            <div className="text-sm font-medium mb-1">Actions</div>
-                            <div className="flex flex-wrap gap-2">
-                                <button
-                                    type="button"
-                                    disabled={working}
-                                    onClick={() => lifecycle('run')}
-                                    className="inline-flex items-center px-3 py-1.5 rounded border hover:bg-gray-50 text-sm disabled:opacity-60"
-                                    title="Run now"
-                                >
-                                    <PlayIcon className="h-4 w-4 mr-1" /> Run
-                                </button>
-                                <button
-                                    type="button"
-                                    disabled={working || status === 'active'}
-                                    onClick={() => lifecycle('enable')}
-                                    className="inline-flex items-center px-3 py-1.5 rounded border hover:bg-gray-50 text-sm disabled:opacity-60"
-                                    title="Enable"
-                                >
-                                    <CheckCircleIcon className="h-4 w-4 mr-1" /> Enable
-                                </button>
-                                <button
-                                    type="button"
-                                    disabled={working || status === 'paused'}
-                                    onClick={() => lifecycle('pause')}
-                                    className="inline-flex items-center px-3 py-1.5 rounded border hover:bg-gray-50 text-sm disabled:opacity-60"
-                                    title="Pause"
-                                >
-                                    <PauseIcon className="h-4 w-4 mr-1" /> Pause
-                                </button>
-                                <button
-                                    type="button"
-                                    disabled={working || status === 'disabled'}
-                                    onClick={() => lifecycle('disable')}
-                                    className="inline-flex items-center px-3 py-1.5 rounded border hover:bg-gray-50 text-sm disabled:opacity-60"
-                                    title="Disable"
-                                >
-                                    <PowerIcon className="h-4 w-4 mr-1" /> Disable
-                                </button>
-                                <button
-                                    type="button"
-                                    disabled={working}
-                                    onClick={handleDelete}
-                                    className="inline-flex items-center px-3 py-1.5 rounded border text-red-600 hover:bg-red-50 text-sm disabled:opacity-60"
-                                    title="Delete"
-                                >
-                                    <TrashIcon className="h-4 w-4 mr-1" /> Delete
-                                </button>
-                            </div>
-                        </div>
-                    </div>
                 </div>
             </div>
 
-            {/* PREVIEW (BOTTOM) */}
-            <div className="border rounded overflow-hidden bg-white">
-                <div className="px-3 py-2 border-b bg-gray-50 text-sm text-gray-700 flex items-center justify-between">
-          <span className="inline-flex items-center">
-            <EyeIcon className="h-4 w-4 mr-1" />
-            Flow Preview (read-only)
-          </span>
-                    <span className="text-xs text-gray-500">
-            Trigger: <span className="font-medium">{trigger || '—'}</span> · Status:{' '}
-                        <span className="font-medium">{status || '—'}</span>
-          </span>
-                </div>
-                <iframe
-                    title="preview"
-                    className="w-full h-[560px] bg-white"
-                    sandbox="allow-same-origin"
-                    srcDoc={`<!doctype html><html><head><meta charset="utf-8" /><meta name="viewport" content="width=device-width,initial-scale=1" />
-<style>body{font-family:ui-sans-serif,system-ui,Segoe UI,Roboto,Helvetica,Arial,Apple Color Emoji,Segoe UI Emoji;margin:16px;color:#111827;}</style>
-</head><body><pre style="white-space:pre-wrap;font-family:ui-monospace,Menlo,monospace;font-size:13px;line-height:1.5;margin:0">${escapeHtml(
-                        JSON.stringify(flowErr ? { error: 'Invalid JSON' } : flowObj, null, 2)
-                    )}</pre></body></html>`}
-                />
-            </div>
+            <Tabs
+                tabs={[
+                    { id: 'editor', label: 'Editor' },
+                    { id: 'runs', label: 'Runs' },
+                ]}
+                activeId={view}
+                onChange={(v) => setView(v as View)}
+            />
+
+            {view === 'editor' ? (
+                <>
+                    {/* Flow */}
+                    <FlowEditor
+                        hash={hash}
+                        value={flow}
+                        onChange={setFlow}
+                        issues={issues}
+                        jsonError={flowErr}
+                        onJsonError={setFlowErr}
+                        path={simPath}
+                        fields={fields}
+                        actions={
+                            <button
+                                type="button"
+                                onClick={() => setFlow(defaultFlow(trigger))}
+                                className="text-sm inline-flex items-center px-2 py-1 rounded border hover:bg-gray-50"
+                                title="Reset to default for current trigger"
+                            >
+                                <ArrowPathIcon className="h-4 w-4 mr-1" /> Reset to default
+                            </button>
+                        }
+                    />
+
+                    {flow.trigger.type === 'webhook' && (
+                        <WebhookTriggerPanel
+                            hash={hash}
+                            automationId={Number(id)}
+                            trigger={flow.trigger}
+                            onSecret={(secret) => setFlow((f) => (f && f.trigger.type === 'webhook' ? { ...f, trigger: { ...f.trigger, secret } } : f))}
+                            onSample={setSample}
+                        />
+                    )}
+
+                    {/* Simulator */}
+                    <FlowSimulator hash={hash} flow={flow} disabled={!!flowErr} onPath={setSimPath} />
+                </>
+            ) : (
+                <RunsPanel hash={hash} automationId={Number(id)} flow={flow} />
+            )}
 
             {/* Errors */}
             {err && <div className="text-sm text-red-600">{err}</div>}
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import {
@@ -15,27 +15,13 @@ import {
     CheckCircleIcon,
     TrashIcon,
 } from '@heroicons/react/24/outline';
+import { api, errorMessage, isAbortError } from '@/lib/api';
+import type { ApiPaged, Automation, AutomationLifecycle, AutomationStatus } from '@/types/api';
 
 /* ----------------------------- Types ----------------------------- */
 
-type AutomationStatus = 'draft' | 'active' | 'paused' | 'disabled';
 type AutomationTrigger = 'time' | 'webhook' | 'event' | '' | string;
 
-type AutomationRow = {
-    id: number;
-    name: string | null;
-    trigger: string | null; // 'time' | 'webhook' | 'event' | null
-    flow: Record<string, unknown> | null;
-    status: AutomationStatus | null;
-    last_run_at: string | null;
-    created_at: string | null;
-};
-
-type ApiPaged<T> = {
-    meta: { page: number; perPage: number; total: number; totalPages: number };
-    items: T[];
-};
-
 /* ----------------------------- Page ----------------------------- */
 
 export default function AutomationsIndexPage() {
@@ -59,45 +45,29 @@ export default function AutomationsIndexPage() {
     useEffect(() => setTrigger(triggerFromUrl), [triggerFromUrl]);
 
     // Data
-    const [data, setData] = useState<ApiPaged<AutomationRow> | null>(null);
+    const [data, setData] = useState<ApiPaged<Automation> | null>(null);
     const [loading, setLoading] = useState(true);
     const [err, setErr] = useState<string | null>(null);
     const [workingId, setWorkingId] = useState<number | null>(null);
 
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
-
-    const listUrl = useMemo(() => {
-        const sp = new URLSearchParams();
-        sp.set('page', String(page));
-        sp.set('perPage', String(perPage));
-        if (qFromUrl) sp.set('search', qFromUrl);
-        if (statusFromUrl) sp.set('status', statusFromUrl);
-        if (triggerFromUrl) sp.set('trigger', triggerFromUrl);
-        return `${backend}/companies/${hash}/automations?${sp.toString()}`;
-    }, [backend, hash, page, perPage, qFromUrl, statusFromUrl, triggerFromUrl]);
-
     useEffect(() => {
-        let abort = false;
-        (async () => {
-            setLoading(true);
-            setErr(null);
-            try {
-                const res = await fetch(listUrl, { headers: authHeaders() });
-                if (!res.ok) throw new Error(`Failed to load automations (${res.status})`);
-                const json: ApiPaged<AutomationRow> = await res.json();
-                if (!abort) setData(json);
-            } catch (e) {
-                if (!abort) setErr(e instanceof Error ? e.message : String(e));
-            } finally {
-                if (!abort) setLoading(false);
-            }
-        })();
-        return () => { abort = true; };
-    }, [listUrl]);
+        const ctrl = new AbortController();
+        setLoading(true);
+        setErr(null);
+        api.automations
+            .list(hash, {
+                signal: ctrl.signal,
+                query: { page, perPage, search: qFromUrl, status: statusFromUrl, trigger: triggerFromUrl },
+            })
+            .then(setData)
+            .catch((e) => {
+                if (!isAbortError(e)) setErr(errorMessage(e));
+            })
+            .finally(() => {
+                if (!ctrl.signal.aborted) setLoading(false);
+            });
+        return () => ctrl.abort();
+    }, [hash, page, perPage, qFromUrl, statusFromUrl, triggerFromUrl]);
 
     function updateQuery(partial: Record<string, unknown>) {
         const sp = new URLSearchParams(search.toString());
@@ -147,31 +117,20 @@ export default function AutomationsIndexPage() {
         return `${tType || 'unknown'} · ${steps} step${steps === 1 ? '' : 's'}`;
     };
 
-    async function lifecycle(id: number, action: 'enable' | 'pause' | 'disable' | 'run') {
+    async function lifecycle(id: number, action: AutomationLifecycle) {
         setWorkingId(id);
         try {
-            const res = await fetch(`${backend}/companies/${hash}/automations/${id}/${action}`, {
-                method: 'POST',
-                headers: authHeaders(),
-            });
-            const ok = action === 'run' ? res.ok : res.ok; // both return JSON
-            if (!ok) throw new Error(`${action} failed (${res.status})`);
-            const payload = await res.json();
-            const updated: AutomationRow | null =
-                action === 'run'
-                    ? (payload.automation as AutomationRow | undefined) ?? null
-                    : (payload as AutomationRow | null);
-
+            const updated = await api.automations.lifecycle(hash, id, action);
             setData(prev =>
                 prev
                     ? {
                         ...prev,
-                        items: prev.items.map(a => (a.id === id ? (updated ?? a) : a)),
+                        items: prev.items.map(a => (a.id === id ? updated : a)),
                     }
                     : prev
             );
         } catch (e) {
-            alert(e instanceof Error ? e.message : String(e));
+            alert(errorMessage(e));
         } finally {
             setWorkingId(null);
         }
@@ -181,11 +140,7 @@ export default function AutomationsIndexPage() {
         if (!confirm('Delete this automation?')) return;
         setWorkingId(id);
         try {
-            const res = await fetch(`${backend}/companies/${hash}/automations/${id}`, {
-                method: 'DELETE',
-                headers: authHeaders(),
-            });
-            if (!res.ok && res.status !== 204) throw new Error(`Delete failed (${res.status})`);
+            await api.automations.remove(hash, id);
             setData(prev =>
                 prev
                     ? {
@@ -196,7 +151,7 @@ export default function AutomationsIndexPage() {
                     : prev
             );
         } catch (e) {
-            alert(e instanceof Error ? e.message : String(e));
+            alert(errorMessage(e));
         } finally {
             setWorkingId(null);
         }
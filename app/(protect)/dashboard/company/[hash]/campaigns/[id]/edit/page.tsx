@@ -13,7 +13,32 @@ import {
 } from '@heroicons/react/24/outline';
 import { Listbox, Transition } from '@headlessui/react';
 import { CheckIcon as CheckMini, ChevronUpDownIcon } from '@heroicons/react/20/solid';
-
+import { api, errorMessage, isAbortError } from '@/lib/api';
+import SendTestDialog from '@/components/messaging/SendTestDialog';
+import PreflightDialog, { type PreflightAction } from '@/components/campaigns/PreflightDialog';
+import AbTestEditor from '@/components/campaigns/AbTestEditor';
+import ThrottleEditor from '@/components/campaigns/ThrottleEditor';
+import SpreadSendOptions from '@/components/campaigns/SpreadSendOptions';
+import RecurrenceEditor from '@/components/campaigns/RecurrenceEditor';
+import { usePlanCapabilities } from '@/components/company/usePlanCapabilities';
+import { DEFAULT_LOCAL_TIME, browserTimeZone } from '@/lib/send-time';
+import { validateAbTest } from '@/lib/ab-test';
+import { validateThrottle } from '@/lib/throttle';
+import { defaultRecurrence, formatRecurrence, nextOccurrenceAt, validateRecurrence } from '@/lib/rrule';
+import type {
+    ApiPaged,
+    CampaignAbTest,
+    CampaignInput,
+    CampaignRecipient,
+    CampaignStatus,
+    CampaignThrottle,
+    DomainSummary,
+    ListGroup,
+    Segment,
+    SendMode,
+    TargetKind,
+    Template,
+} from '@/types/api';
 /* ----------------------- Reusable SelectBox ----------------------- */
 
 type OptionValue = string | number;
@@ -164,55 +189,11 @@ function SelectBox({
 
 /* ----------------------------- Types ----------------------------- */
 
-type CampaignStatus = 'draft' | 'scheduled' | 'sending' | 'paused' | 'completed' | 'cancelled';
-type SendMode = 'immediate' | 'scheduled';
-type TargetKind = 'list' | 'segment';
-
-type Campaign = {
-    id: number;
-    name: string | null;
-    subject: string | null;
-    send_mode: SendMode;
-    scheduled_at: string | null;
-    target: TargetKind;
-    status: CampaignStatus;
-    created_at: string | null;
-
-    template_id: number | null;
-    domain_id: number | null;
-    listGroup_id: number | null;
-    segment_id: number | null;
-
-    metrics: { sent: number; delivered: number; opens: number; clicks: number; bounces: number; complaints: number };
-};
-
-type ApiPaged<T> = {
-    meta: { page: number; perPage: number; total: number; totalPages: number };
-    items: T[];
-};
-
-type ListSummary = { id: number; name: string };
-type SegmentSummary = { id: number; name: string; materialized_count?: number | null };
-type TemplateSummary = { id: number; name: string };
-type DomainSummary = { id: number; domain: string; statusDomain?: string };
-
-type RecipientRow = { id: number; email: string | null; name: string | null; status: string | null };
-type RecipientsPage = {
-    meta: { page: number; perPage: number; total: number; totalPages: number };
-    items: RecipientRow[];
-};
-
 /* ----------------------------- Page ----------------------------- */
 
 export default function CampaignEditPage() {
     const router = useRouter();
     const { hash, id } = useParams<{ hash: string; id: string }>();
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
-
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
 
     const backHref = `/dashboard/company/${hash}/campaigns`;
     const templateCreateHref = `/dashboard/company/${hash}/templates/create`;
@@ -222,65 +203,33 @@ export default function CampaignEditPage() {
 
     /* ------------------------ Picklists ------------------------ */
 
-    const listsUrl = useMemo(() => (backend ? `${backend}/companies/${hash}/lists?perPage=200` : null), [backend, hash]);
-    const segmentsUrl = useMemo(() => (backend ? `${backend}/companies/${hash}/segments?perPage=200` : null), [backend, hash]);
-    const templatesUrl = useMemo(() => (backend ? `${backend}/companies/${hash}/templates?perPage=200` : null), [backend, hash]);
-    const domainsUrl = useMemo(() => (backend ? `${backend}/companies/${hash}/domains` : null), [backend, hash]);
-
-    const [lists, setLists] = useState<ListSummary[]>([]);
-    const [segments, setSegments] = useState<SegmentSummary[]>([]);
-    const [templates, setTemplates] = useState<TemplateSummary[]>([]);
+    const [lists, setLists] = useState<ListGroup[]>([]);
+    const [segments, setSegments] = useState<Segment[]>([]);
+    const [templates, setTemplates] = useState<Template[]>([]);
     const [domains, setDomains] = useState<DomainSummary[]>([]);
     const [pickErr, setPickErr] = useState<string | null>(null);
 
     useEffect(() => {
-        if (!listsUrl || !segmentsUrl || !templatesUrl) return;
-        let abort = false;
-        (async () => {
-            setPickErr(null);
-            try {
-                const [lRes, sRes, tRes] = await Promise.all([
-                    fetch(listsUrl, { headers: authHeaders() }),
-                    fetch(segmentsUrl, { headers: authHeaders() }),
-                    fetch(templatesUrl, { headers: authHeaders() }),
-                ]);
-                if (!lRes.ok) throw new Error(`Lists failed (${lRes.status})`);
-                if (!sRes.ok) throw new Error(`Segments failed (${sRes.status})`);
-                if (!tRes.ok) throw new Error(`Templates failed (${tRes.status})`);
-                const lJson: ApiPaged<ListSummary> = await lRes.json();
-                const sJson: ApiPaged<SegmentSummary> = await sRes.json();
-                const tJson: ApiPaged<TemplateSummary> = await tRes.json();
-                if (!abort) {
-                    setLists(lJson.items ?? []);
-                    setSegments(sJson.items ?? []);
-                    setTemplates(tJson.items ?? []);
-                }
-            } catch (e) {
-                if (!abort) setPickErr(e instanceof Error ? e.message : String(e));
-            }
-        })();
-        return () => {
-            abort = true;
-        };
-    }, [listsUrl, segmentsUrl, templatesUrl]);
-
-    useEffect(() => {
-        if (!domainsUrl) return;
-        let abort = false;
-        (async () => {
-            try {
-                const res = await fetch(domainsUrl, { headers: authHeaders() });
-                if (!res.ok) throw new Error(`Domains failed (${res.status})`);
-                const dJson: DomainSummary[] = await res.json();
-                if (!abort) setDomains(Array.isArray(dJson) ? dJson : []);
-            } catch (e) {
-                if (!abort) setPickErr((prev) => prev ?? (e instanceof Error ? e.message : String(e)));
-            }
-        })();
-        return () => {
-            abort = true;
-        };
-    }, [domainsUrl]);
+        const ctrl = new AbortController();
+        const o = { signal: ctrl.signal, query: { perPage: 200 } };
+        setPickErr(null);
+        Promise.all([
+            api.lists.list(hash, o),
+            api.segments.list(hash, o),
+            api.templates.list(hash, o),
+            api.domains.list(hash, { signal: ctrl.signal }),
+        ])
+            .then(([l, sg, t, d]) => {
+                setLists(l.items);
+                setSegments(sg.items);
+                setTemplates(t.items);
+                setDomains(d);
+            })
+            .catch((e) => {
+                if (!isAbortError(e)) setPickErr(errorMessage(e));
+            });
+        return () => ctrl.abort();
+    }, [hash]);
 
     /* ---------------------- Load campaign ---------------------- */
 
@@ -295,23 +244,27 @@ export default function CampaignEditPage() {
     const [target, setTarget] = useState<TargetKind>('list');
     const [listGroupId, setListGroupId] = useState<number | ''>('');
     const [segmentId, setSegmentId] = useState<number | ''>('');
+    const [abTest, setAbTest] = useState<CampaignAbTest | null>(null);
+    const [throttle, setThrottle] = useState<CampaignThrottle | null>(null);
     const [sendMode, setSendMode] = useState<SendMode>('immediate');
     const [scheduledAtLocal, setScheduledAtLocal] = useState(''); // local yyyy-MM-ddThh:mm
+    const [sendLocalTime, setSendLocalTime] = useState(DEFAULT_LOCAL_TIME);
+    const [fallbackTz, setFallbackTz] = useState(browserTimeZone);
+    const isSpreadMode = sendMode === 'local_time' || sendMode === 'optimized';
+    const [recurrence, setRecurrence] = useState(() => formatRecurrence(defaultRecurrence(browserTimeZone())));
+    const isRecurring = sendMode === 'recurring';
+    const { capabilities, loading: capsLoading } = usePlanCapabilities(hash);
+    const canOptimize = !!capabilities.sendTimeOptimization;
     const [status, setStatus] = useState<CampaignStatus>('draft');
-
-    const campaignUrl = useMemo(() => (backend ? `${backend}/companies/${hash}/campaigns/${id}` : null), [backend, hash, id]);
+    const [showSendTest, setShowSendTest] = useState(false);
 
     useEffect(() => {
-        if (!campaignUrl) return;
-        let abort = false;
+        const ctrl = new AbortController();
         (async () => {
             setLoading(true);
             setLoadErr(null);
             try {
-                const res = await fetch(campaignUrl, { headers: authHeaders() });
-                if (!res.ok) throw new Error(`Failed to load campaign (${res.status})`);
-                const c = (await res.json()) as Campaign;
-                if (abort) return;
+                const c = await api.campaigns.get(hash, Number(id), { signal: ctrl.signal });
 
                 setCampaignId(c.id);
                 setName(c.name ?? '');
@@ -321,7 +274,12 @@ export default function CampaignEditPage() {
                 setTarget(c.target);
                 setListGroupId((c.listGroup_id ?? '') as number | '');
                 setSegmentId((c.segment_id ?? '') as number | '');
+                setAbTest(c.ab_test ?? null);
+                setThrottle(c.throttle ?? null);
                 setSendMode(c.send_mode);
+                setSendLocalTime(c.send_local_time || DEFAULT_LOCAL_TIME);
+                setFallbackTz(c.fallback_timezone || browserTimeZone());
+                if (c.recurrence?.rrule) setRecurrence(c.recurrence.rrule);
                 setStatus(c.status);
 
                 if (c.scheduled_at) {
@@ -333,51 +291,38 @@ export default function CampaignEditPage() {
                     setScheduledAtLocal('');
                 }
             } catch (e) {
-                if (!abort) setLoadErr(e instanceof Error ? e.message : String(e));
+                if (!isAbortError(e)) setLoadErr(errorMessage(e));
             } finally {
-                if (!abort) setLoading(false);
+                if (!ctrl.signal.aborted) setLoading(false);
             }
         })();
-        return () => {
-            abort = true;
-        };
-    }, [campaignUrl]);
+        return () => ctrl.abort();
+    }, [hash, id]);
 
     /* -------------------------- Recipients -------------------------- */
 
-    const [recips, setRecips] = useState<RecipientsPage | null>(null);
+    const [recips, setRecips] = useState<ApiPaged<CampaignRecipient> | null>(null);
     const [recipsLoading, setRecipsLoading] = useState(false);
     const [recipsErr, setRecipsErr] = useState<string | null>(null);
     const [page, setPage] = useState(1);
     const perPage = 25;
 
-    const recipientsUrl = useMemo(() => {
-        if (!backend || !campaignId) return null;
-        const sp = new URLSearchParams({ page: String(page), perPage: String(perPage) });
-        return `${backend}/companies/${hash}/campaigns/${campaignId}/recipients?${sp.toString()}`;
-    }, [backend, hash, campaignId, page]);
-
     useEffect(() => {
-        if (!recipientsUrl) return;
-        let abort = false;
-        (async () => {
-            setRecipsLoading(true);
-            setRecipsErr(null);
-            try {
-                const res = await fetch(recipientsUrl, { headers: authHeaders() });
-                if (!res.ok) throw new Error(`Failed to load recipients (${res.status})`);
-                const json: RecipientsPage = await res.json();
-                if (!abort) setRecips(json);
-            } catch (e) {
-                if (!abort) setRecipsErr(e instanceof Error ? e.message : String(e));
-            } finally {
-                if (!abort) setRecipsLoading(false);
-            }
-        })();
-        return () => {
-            abort = true;
-        };
-    }, [recipientsUrl]);
+        if (!campaignId) return;
+        const ctrl = new AbortController();
+        setRecipsLoading(true);
+        setRecipsErr(null);
+        api.campaigns
+            .recipients(hash, campaignId, { signal: ctrl.signal, query: { page, perPage } })
+            .then(setRecips)
+            .catch((e) => {
+                if (!isAbortError(e)) setRecipsErr(errorMessage(e));
+            })
+            .finally(() => {
+                if (!ctrl.signal.aborted) setRecipsLoading(false);
+            });
+        return () => ctrl.abort();
+    }, [hash, campaignId, page]);
 
     /* ---------------------------- Helpers --------------------------- */
 
@@ -401,33 +346,37 @@ export default function CampaignEditPage() {
 
     /* ------------------------------ Save ------------------------------ */
 
-    async function saveChanges() {
-        if (!backend || !campaignId) return;
+    async function saveChanges(): Promise<number> {
+        if (!campaignId) throw new Error('The campaign has not loaded yet.');
         if (target === 'list' && !listGroupId) throw new Error('Please choose a list.');
         if (target === 'segment' && !segmentId) throw new Error('Please choose a segment.');
-
-        const body: Record<string, unknown> = {
+        const abProblem = abTest && validateAbTest(abTest, { subject, template_id: templateId || null });
+        if (abProblem) throw new Error(abProblem);
+        const throttleProblem = throttle && validateThrottle(throttle);
+        if (throttleProblem) throw new Error(throttleProblem);
+        const recurrenceProblem = isRecurring && validateRecurrence(recurrence);
+        if (recurrenceProblem) throw new Error(recurrenceProblem);
+
+        const body: Partial<CampaignInput> = {
             name: name.trim() || null,
             subject: subject.trim() || null,
             template_id: templateId || null,
             domain_id: domainId || null,
             target,
-            list_group_id: target === 'list' ? listGroupId : null,
-            segment_id: target === 'segment' ? segmentId : null,
+            list_group_id: target === 'list' ? listGroupId || null : null,
+            segment_id: target === 'segment' ? segmentId || null : null,
             send_mode: sendMode,
-            scheduled_at: sendMode === 'scheduled' ? toISOFromLocal(scheduledAtLocal) : null,
+            scheduled_at: isRecurring
+                ? nextOccurrenceAt(recurrence)
+                : sendMode !== 'immediate' ? toISOFromLocal(scheduledAtLocal) : null,
+            send_local_time: isSpreadMode ? sendLocalTime : null,
+            fallback_timezone: isSpreadMode ? fallbackTz : null,
+            recurrence: isRecurring ? { rrule: recurrence } : null,
+            throttle,
+            ab_test: abTest,
         };
 
-        const res = await fetch(`${backend}/companies/${hash}/campaigns/${campaignId}`, {
-            method: 'PATCH',
-            headers: authHeaders(),
-            body: JSON.stringify(body),
-        });
-        if (!res.ok) {
-            const txt = await res.text();
-            throw new Error(`Save failed (${res.status}) ${txt || ''}`);
-        }
-        const updated: Campaign = await res.json();
+        const updated = await api.campaigns.update(hash, campaignId, body);
         setTemplateId((updated.template_id ?? '') as number | '');
         setDomainId((updated.domain_id ?? '') as number | '');
         setListGroupId((updated.listGroup_id ?? '') as number | '');
@@ -437,28 +386,15 @@ export default function CampaignEditPage() {
     }
 
     async function onDuplicate() {
-        if (!backend) return;
         setActionErr(null);
         setActionMsg(null);
         setActing(true);
         try {
-            const idNew = await saveChanges();
-            if (!idNew) throw new Error('No campaign ID to duplicate.');
-
-            const res = await fetch(`${backend}/companies/${hash}/campaigns/${idNew}/duplicate`, {
-                method: 'POST',
-                headers: authHeaders(),
-            });
-            if (!res.ok) {
-                const txt = await res.text().catch(() => '');
-                throw new Error(`Duplicate failed (${res.status}) ${txt || ''}`);
-            }
-
-            const created = (await res.json()) as Campaign;
+            const created = await api.campaigns.duplicate(hash, await saveChanges());
             setActionMsg('Duplicated. Redirecting…');
             router.push(`/dashboard/company/${hash}/campaigns/${created.id}/edit`);
         } catch (e) {
-            setActionErr(e instanceof Error ? e.message : String(e));
+            setActionErr(errorMessage(e));
         } finally {
             setActing(false);
         }
@@ -473,6 +409,7 @@ export default function CampaignEditPage() {
     const [acting, setActing] = useState(false);
     const [actionErr, setActionErr] = useState<string | null>(null);
     const [actionMsg, setActionMsg] = useState<string | null>(null);
+    const [preflight, setPreflight] = useState<PreflightAction | null>(null);
 
     async function onSave() {
         setSaveErr(null);
@@ -482,7 +419,7 @@ export default function CampaignEditPage() {
             const idSaved = await saveChanges();
             setSaveMsg(`Saved (ID ${idSaved}).`);
         } catch (e) {
-            setSaveErr(e instanceof Error ? e.message : String(e));
+            setSaveErr(errorMessage(e));
         } finally {
             setSaving(false);
         }
@@ -495,22 +432,23 @@ export default function CampaignEditPage() {
         setActionMsg(null);
         setActing(true);
         try {
-            if (sendMode !== 'scheduled') throw new Error('Select “Scheduled” and a date/time to schedule.');
-            if (!scheduledAtLocal) throw new Error('Please pick a date & time.');
+            if (sendMode === 'immediate') throw new Error('Select “Scheduled” and a date/time to schedule.');
+            if (!scheduledAtLocal && !isRecurring && !isSpreadMode) throw new Error('Please pick a date & time.');
             const idSaved = await saveChanges();
-            const iso = toISOFromLocal(scheduledAtLocal);
+            // spread modes without a "not before" start fanning out right away
+            const iso = isRecurring
+                ? nextOccurrenceAt(recurrence)
+                : !scheduledAtLocal && isSpreadMode ? new Date().toISOString() : toISOFromLocal(scheduledAtLocal);
             if (!iso) throw new Error('Invalid schedule date/time.');
-            const res = await fetch(`${backend}/companies/${hash}/campaigns/${idSaved}/schedule`, {
-                method: 'POST',
-                headers: authHeaders(),
-                body: JSON.stringify({ scheduled_at: iso }),
-            });
-            const payload = (await res.json()) as Campaign | { error?: string };
-            if (!res.ok) throw new Error('error' in payload && payload.error ? payload.error : `Schedule failed (${res.status})`);
-            setActionMsg(`Scheduled for ${toLocale((payload as Campaign).scheduled_at)}.`);
-            setStatus((payload as Campaign).status);
+            const scheduled = await api.campaigns.schedule(hash, idSaved, iso);
+            setActionMsg(
+                isRecurring
+                    ? `Recurring schedule started; first send ${toLocale(scheduled.scheduled_at)}.`
+                    : `Scheduled for ${toLocale(scheduled.scheduled_at)}.`
+            );
+            setStatus(scheduled.status);
         } catch (e) {
-            setActionErr(e instanceof Error ? e.message : String(e));
+            setActionErr(errorMessage(e));
         } finally {
             setActing(false);
         }
@@ -522,17 +460,11 @@ export default function CampaignEditPage() {
         setActionMsg(null);
         setActing(true);
         try {
-            const idSaved = await saveChanges();
-            const res = await fetch(`${backend}/companies/${hash}/campaigns/${idSaved}/send`, {
-                method: 'POST',
-                headers: authHeaders(),
-            });
-            const payload = (await res.json()) as Campaign | { error?: string };
-            if (!res.ok) throw new Error('error' in payload && payload.error ? payload.error : `Send failed (${res.status})`);
+            const sent = await api.campaigns.send(hash, await saveChanges());
             setActionMsg('Sending started.');
-            setStatus((payload as Campaign).status);
+            setStatus(sent.status);
         } catch (e) {
-            setActionErr(e instanceof Error ? e.message : String(e));
+            setActionErr(errorMessage(e));
         } finally {
             setActing(false);
         }
@@ -550,8 +482,11 @@ export default function CampaignEditPage() {
     const isCancelled = status === 'cancelled';
     const isDraft = status === 'draft';
 
-    // You can only trigger a new send from a draft.
-    const canSendNow = isDraft;
+    // You can only trigger a new send from a draft; recurring campaigns only send on their schedule.
+    const canSendNow = isDraft && !isRecurring;
+
+    // A live series can still change its rule; only occurrences that have not started pick it up.
+    const canEditRecurrence = isDraft || status === 'scheduled' || status === 'paused';
 
     // You can only schedule from a draft (not when already scheduled/sending/paused/completed/cancelled).
     const canSchedule = isDraft;
@@ -566,13 +501,18 @@ export default function CampaignEditPage() {
         { value: 'segment', label: 'Segment' },
     ] as const satisfies readonly SBOption[];
 
-    const sendModeOptions = [
+    const sendModeOptions: SBOption[] = [
         { value: 'immediate', label: 'Immediate' },
         { value: 'scheduled', label: 'Scheduled' },
-    ] as const satisfies readonly SBOption[];
-
-    const domainOptions: SBOption[] = domains.map((d) => ({ value: d.id, label: d.domain, hint: d.statusDomain }));
-    const templateOptions: SBOption[] = templates.map((t) => ({ value: t.id, label: t.name }));
+        { value: 'local_time', label: 'Recipient local time' },
+        ...(canOptimize || sendMode === 'optimized'
+            ? [{ value: 'optimized', label: 'Optimized send time', hint: 'Best hour per contact from open history' }]
+            : []),
+        { value: 'recurring', label: 'Recurring', hint: 'Repeats on a schedule' },
+    ];
+
+    const domainOptions: SBOption[] = domains.map((d) => ({ value: d.id, label: d.domain ?? `#${d.id}`, hint: d.statusDomain ?? undefined }));
+    const templateOptions: SBOption[] = templates.map((t) => ({ value: t.id, label: t.name ?? `#${t.id}` }));
     const listOptions: SBOption[] = lists.map((l) => ({ value: l.id, label: l.name }));
     const segmentOptions: SBOption[] = segments.map((s) => ({ value: s.id, label: s.name }));
 
@@ -599,6 +539,15 @@ export default function CampaignEditPage() {
                     <span className="ml-3 align-middle text-sm font-normal px-2 py-0.5 rounded-full border">{status}</span>
                 </h1>
                 <div className="flex gap-2">
+                    <button
+                        onClick={() => setShowSendTest(true)}
+                        disabled={templateId === '' || campaignId === null}
+                        className="px-4 py-2 rounded border hover:bg-gray-50 disabled:opacity-60"
+                        title={templateId === '' ? 'Pick a template first' : 'Send a proof to your inbox'}
+                    >
+                        <PaperAirplaneIcon className="h-5 w-5 inline-block mr-1" />
+                        Send test
+                    </button>
                     <button
                         onClick={onSave}
                         disabled={saving}
@@ -658,6 +607,16 @@ export default function CampaignEditPage() {
                 {pickErr && <div className="text-sm text-red-600">{pickErr}</div>}
             </div>
 
+            {/* A/B test */}
+            <AbTestEditor
+                value={abTest}
+                onChange={setAbTest}
+                templates={templates}
+                baseSubject={subject}
+                baseTemplateId={templateId === '' ? null : templateId}
+                disabled={!isDraft}
+            />
+
             {/* Targeting */}
             <div className="bg-white border rounded-lg p-4 space-y-3">
                 <h2 className="text-lg font-semibold">Recipients</h2>
@@ -704,39 +663,81 @@ export default function CampaignEditPage() {
                             onChange={(v) => setSendMode((v as SendMode) || 'immediate')}
                             options={sendModeOptions}
                         />
-                        {sendMode === 'scheduled' && (
+                        {sendMode !== 'immediate' && !isRecurring && (
                             <div className="mt-2">
-                                <label className="block text-sm font-medium mb-1">Scheduled for</label>
+                                <label className="block text-sm font-medium mb-1">{isSpreadMode ? 'Not before' : 'Scheduled for'}</label>
                                 <input
                                     type="datetime-local"
                                     value={scheduledAtLocal}
                                     onChange={(e) => setScheduledAtLocal(e.target.value)}
                                     className="w-full rounded border px-3 py-2"
                                 />
-                                <p className="text-xs text-gray-500 mt-1">Local time; will be stored as UTC.</p>
+                                <p className="text-xs text-gray-500 mt-1">
+                                    {isSpreadMode ? 'Optional; leave empty to start as soon as the campaign is scheduled or sent.' : 'Local time; will be stored as UTC.'}
+                                </p>
                             </div>
                         )}
+                        {!canOptimize && !capsLoading && (
+                            <p className="text-xs text-gray-500 mt-1">Optimized send time is not included in your plan.</p>
+                        )}
                     </div>
                 </div>
+
+                {isSpreadMode && (
+                    <SpreadSendOptions
+                        hash={hash}
+                        mode={sendMode}
+                        localTime={sendLocalTime}
+                        onLocalTimeChange={setSendLocalTime}
+                        fallbackTimezone={fallbackTz}
+                        onFallbackTimezoneChange={setFallbackTz}
+                        target={target}
+                        listId={listGroupId === '' ? null : listGroupId}
+                        segmentId={segmentId === '' ? null : segmentId}
+                        start={toISOFromLocal(scheduledAtLocal)}
+                    />
+                )}
+
+                {isRecurring && (
+                    <>
+                        <RecurrenceEditor value={recurrence} onChange={setRecurrence} disabled={!canEditRecurrence} />
+                        {!isDraft && canEditRecurrence && (
+                            <p className="text-xs text-gray-500">Saving a new schedule affects only occurrences that have not started yet.</p>
+                        )}
+                    </>
+                )}
             </div>
 
+            {/* Pacing */}
+            <ThrottleEditor value={throttle} onChange={setThrottle} audienceSize={recips?.meta.total ?? null} disabled={!isDraft} />
+
             {/* Actions */}
             <div className="flex flex-wrap items-center gap-3">
                 <button
-                    onClick={onSendNow}
+                    onClick={() => setPreflight('send')}
                     disabled={acting || !canSendNow}
                     className="inline-flex items-center px-4 py-2 rounded border hover:bg-gray-50 disabled:opacity-60"
-                    title={canSendNow ? 'Send immediately' : 'Sending is only available for drafts'}
+                    title={
+                        canSendNow
+                            ? 'Send immediately'
+                            : isRecurring
+                                ? 'Recurring campaigns send on their schedule; use Schedule to start it'
+                                : 'Sending is only available for drafts'
+                    }
                 >
                     <PaperAirplaneIcon className="h-5 w-5 mr-1" />
                     {acting ? 'Working…' : 'Send now'}
                 </button>
 
                 <button
-                    onClick={onSchedule}
+                    onClick={() => setPreflight('schedule')}
                     disabled={acting || !canSchedule}
                     className="inline-flex items-center px-4 py-2 rounded border hover:bg-gray-50 disabled:opacity-60"
-                    title={canSchedule ? 'Schedule this campaign' : 'Scheduling is only available for drafts'}
+                    title={
+                        !canSchedule
+                            ? 'Scheduling is only available for drafts'
+                            : isRecurring ? 'Start the recurring schedule' : 'Schedule this campaign'
+                    }
                 >
                     <CalendarDaysIcon className="h-5 w-5 mr-1" />
                     {acting ? 'Working…' : 'Schedule'}
@@ -750,7 +751,7 @@ export default function CampaignEditPage() {
                             if (!idSaved) return;
                             await refreshRecipients();
                         } catch (e) {
-                            setActionErr(e instanceof Error ? e.message : String(e));
+                            setActionErr(errorMessage(e));
                         }
                     }}
                     disabled={!canPreviewRecipients || acting}
@@ -890,6 +891,36 @@ export default function CampaignEditPage() {
                 </Link>
                 <div />
             </div>
+
+            {campaignId !== null && (
+                <SendTestDialog
+                    open={showSendTest}
+                    onClose={() => setShowSendTest(false)}
+                    hash={hash}
+                    send={(body) => api.campaigns.sendTest(hash, campaignId, body)}
+                    note="Sends the saved campaign with its template and subject. Save first to include unsaved changes."
+                    defaultDomainId={domainId === '' ? null : domainId}
+                    defaultSubject={subject}
+                    subjectEditable={false}
+                />
+            )}
+
+            <PreflightDialog
+                open={preflight !== null}
+                onClose={() => setPreflight(null)}
+                action={preflight ?? 'send'}
+                request={{
+                    hash,
+                    subject: subject.trim() || null,
+                    template_id: templateId === '' ? null : templateId,
+                    domain_id: domainId === '' ? null : domainId,
+                    target,
+                    list_id: listGroupId === '' ? null : listGroupId,
+                    segment_id: segmentId === '' ? null : segmentId,
+                    variants: abTest?.variants ?? null,
+                }}
+                onConfirm={preflight === 'schedule' ? onSchedule : onSendNow}
+            />
         </div>
     );
 }
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useEffect, useMemo, useState, useCallback } from 'react';
+import React, { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import {
@@ -12,40 +12,25 @@ import {
     XMarkIcon,
     DocumentDuplicateIcon,
 } from '@heroicons/react/24/outline';
-
-/* ----------------------------- Types ----------------------------- */
-
-type CampaignStatus = 'draft' | 'scheduled' | 'sending' | 'paused' | 'completed' | 'cancelled';
-type SendMode = 'immediate' | 'scheduled';
-type TargetKind = 'list' | 'segment';
-
-type Campaign = {
-    id: number;
-    name: string | null;
-    subject: string | null;
-    send_mode: SendMode;
-    scheduled_at: string | null;
-    target: TargetKind;
-    status: CampaignStatus;
-    created_at: string | null;
-    template_id: number | null;
-    domain_id: number | null;
-    listGroup_id: number | null;
-    segment_id: number | null;
-    metrics: { sent: number; delivered: number; opens: number; clicks: number; bounces: number; complaints: number };
-};
-
-type StatsResponse = { metrics: Campaign['metrics']; status: CampaignStatus };
-
-type RecipientsPage = {
-    meta: { page: number; perPage: number; total: number; totalPages: number };
-    items: { id: number; email: string | null; name: string | null; status: string | null }[];
-};
-
-type DomainSummary = { id: number; domain: string; statusDomain?: string };
-type TemplateSummary = { id: number; name: string };
-type ListSummary = { id: number; name: string };
-type SegmentSummary = { id: number; name: string };
+import { api, errorMessage, isAbortError } from '@/lib/api';
+import AbTestResults from '@/components/campaigns/AbTestResults';
+import CampaignProgressPanel from '@/components/campaigns/CampaignProgressPanel';
+import LinkClicks from '@/components/campaigns/LinkClicks';
+import OccurrencesPanel from '@/components/campaigns/OccurrencesPanel';
+import type {
+    ApiPaged,
+    Campaign,
+    CampaignAbTest,
+    CampaignAction,
+    CampaignRecipient,
+    CampaignStats,
+    DomainSummary,
+    ListGroup,
+    Segment,
+    Template,
+} from '@/types/api';
+import { effectiveHourlyRate } from '@/lib/throttle';
+import { describeRecurrence, parseRecurrence } from '@/lib/rrule';
 
 /* ----------------------------- Page ----------------------------- */
 
@@ -54,23 +39,18 @@ export default function CampaignDetailPage() {
     const search = useSearchParams();
     const { hash, id } = useParams<{ hash: string; id: string }>();
 
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
-    const authHeaders = useCallback<() => HeadersInit>(() => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    }, []);
-
     // Pager for recipients
     const page = Math.max(1, parseInt(search.get('page') || '1', 10) || 1);
     const perPage = Math.min(200, Math.max(1, parseInt(search.get('perPage') || '25', 10) || 25));
 
     const [data, setData] = useState<Campaign | null>(null);
-    const [stats, setStats] = useState<StatsResponse | null>(null);
-    const [recips, setRecips] = useState<RecipientsPage | null>(null);
+    const [stats, setStats] = useState<CampaignStats | null>(null);
+    const [recips, setRecips] = useState<ApiPaged<CampaignRecipient> | null>(null);
 
     const [loading, setLoading] = useState(true);
     const [err, setErr] = useState<string | null>(null);
     const [loadingRecips, setLoadingRecips] = useState(false);
+    const [recipsErr, setRecipsErr] = useState<string | null>(null);
 
     // UI state for actions
     const [actionMsg, setActionMsg] = useState<string | null>(null);
@@ -89,104 +69,78 @@ export default function CampaignDetailPage() {
         }
     };
 
-    const campaignUrl = useMemo(() => `${backend}/companies/${hash}/campaigns/${id}`, [backend, hash, id]);
-    const statsUrl = useMemo(() => `${backend}/companies/${hash}/campaigns/${id}/stats`, [backend, hash, id]);
-    const recipientsUrl = useMemo(() => {
-        const sp = new URLSearchParams({ page: String(page), perPage: String(perPage) });
-        return `${backend}/companies/${hash}/campaigns/${id}/recipients?${sp.toString()}`;
-    }, [backend, hash, id, page, perPage]);
-
     // Lookups for related names
     const [domains, setDomains] = useState<Record<number, DomainSummary>>({});
-    const [templates, setTemplates] = useState<Record<number, TemplateSummary>>({});
-    const [lists, setLists] = useState<Record<number, ListSummary>>({});
-    const [segments, setSegments] = useState<Record<number, SegmentSummary>>({});
-
-    const loadLookups = useCallback(async () => {
-        if (!backend) return;
-        try {
-            const [dRes, tRes, lRes, sRes] = await Promise.all([
-                fetch(`${backend}/companies/${hash}/domains`, { headers: authHeaders() }),
-                fetch(`${backend}/companies/${hash}/templates?perPage=200`, { headers: authHeaders() }),
-                fetch(`${backend}/companies/${hash}/lists?perPage=200`, { headers: authHeaders() }),
-                fetch(`${backend}/companies/${hash}/segments?perPage=200`, { headers: authHeaders() }),
-            ]);
-            if (dRes.ok) {
-                const dJson: DomainSummary[] = await dRes.json();
-                setDomains(Object.fromEntries(dJson.map((d) => [d.id, d])));
-            }
-            if (tRes.ok) {
-                const tJson = (await tRes.json()) as { items: TemplateSummary[] };
-                setTemplates(Object.fromEntries((tJson.items ?? []).map((t) => [t.id, t])));
-            }
-            if (lRes.ok) {
-                const lJson = (await lRes.json()) as { items: ListSummary[] };
-                setLists(Object.fromEntries((lJson.items ?? []).map((l) => [l.id, l])));
-            }
-            if (sRes.ok) {
-                const sJson = (await sRes.json()) as { items: SegmentSummary[] };
-                setSegments(Object.fromEntries((sJson.items ?? []).map((s) => [s.id, s])));
-            }
-        } catch {
-            /* silent */
-        }
-    }, [backend, hash, authHeaders]);
+    const [templates, setTemplates] = useState<Record<number, Template>>({});
+    const [lists, setLists] = useState<Record<number, ListGroup>>({});
+    const [segments, setSegments] = useState<Record<number, Segment>>({});
+    const [lookupErr, setLookupErr] = useState<string | null>(null);
 
-    // Fetch campaign + stats + lookups
     useEffect(() => {
-        let abort = false;
-        (async () => {
-            setLoading(true);
-            setErr(null);
-            try {
-                const [cRes, sRes] = await Promise.all([
-                    fetch(campaignUrl, { headers: authHeaders() }),
-                    fetch(statsUrl, { headers: authHeaders() }),
-                ]);
-                if (!cRes.ok) throw new Error(`Load failed (${cRes.status})`);
-                const cJson: Campaign = await cRes.json();
-                if (!abort) setData(cJson);
-                if (sRes.ok) {
-                    const sJson: StatsResponse = await sRes.json();
-                    if (!abort) setStats(sJson);
-                }
-            } catch (e) {
-                if (!abort) setErr(e instanceof Error ? e.message : String(e));
-            } finally {
-                if (!abort) setLoading(false);
-            }
-        })();
-        return () => {
-            abort = true;
-        };
-    }, [authHeaders, campaignUrl, statsUrl]);
+        const ctrl = new AbortController();
+        const o = { signal: ctrl.signal, query: { perPage: 200 } };
+        const byId = <T extends { id: number }>(rows: T[]) => Object.fromEntries(rows.map((r) => [r.id, r]));
+        setLookupErr(null);
+        Promise.all([
+            api.domains.list(hash, { signal: ctrl.signal }),
+            api.templates.list(hash, o),
+            api.lists.list(hash, o),
+            api.segments.list(hash, o),
+        ])
+            .then(([d, t, l, sg]) => {
+                setDomains(byId(d));
+                setTemplates(byId(t.items));
+                setLists(byId(l.items));
+                setSegments(byId(sg.items));
+            })
+            .catch((e) => {
+                if (!isAbortError(e)) setLookupErr(errorMessage(e));
+            });
+        return () => ctrl.abort();
+    }, [hash]);
 
+    // Fetch campaign + stats; stats are optional, the campaign carries its own metrics
     useEffect(() => {
-        loadLookups()
-    }, [loadLookups]);
+        const ctrl = new AbortController();
+        const cid = Number(id);
+        setLoading(true);
+        setErr(null);
+        Promise.all([
+            api.campaigns.get(hash, cid, { signal: ctrl.signal }),
+            api.campaigns.stats(hash, cid, { signal: ctrl.signal }).catch((e) => {
+                if (isAbortError(e)) throw e;
+                return null;
+            }),
+        ])
+            .then(([c, st]) => {
+                setData(c);
+                setStats(st);
+            })
+            .catch((e) => {
+                if (!isAbortError(e)) setErr(errorMessage(e));
+            })
+            .finally(() => {
+                if (!ctrl.signal.aborted) setLoading(false);
+            });
+        return () => ctrl.abort();
+    }, [hash, id]);
 
     // Fetch recipients
     useEffect(() => {
-        if (!backend) return;
-        let abort = false;
-        (async () => {
-            setLoadingRecips(true);
-            try {
-                const res = await fetch(recipientsUrl, { headers: authHeaders() });
-                if (!res.ok) throw new Error(`Recipients failed (${res.status})`);
-                const json: RecipientsPage = await res.json();
-                if (!abort) setRecips(json);
-            } catch {
-                if (!abort)
-                    setRecips({ meta: { page: 1, perPage, total: 0, totalPages: 0 }, items: [] });
-            } finally {
-                if (!abort) setLoadingRecips(false);
-            }
-        })();
-        return () => {
-            abort = true;
-        };
-    }, [recipientsUrl, backend, perPage, authHeaders]);
+        const ctrl = new AbortController();
+        setLoadingRecips(true);
+        setRecipsErr(null);
+        api.campaigns
+            .recipients(hash, Number(id), { signal: ctrl.signal, query: { page, perPage } })
+            .then(setRecips)
+            .catch((e) => {
+                if (!isAbortError(e)) setRecipsErr(errorMessage(e));
+            })
+            .finally(() => {
+                if (!ctrl.signal.aborted) setLoadingRecips(false);
+            });
+        return () => ctrl.abort();
+    }, [hash, id, page, perPage]);
 
     function updateQuery(partial: Record<string, unknown>) {
         const sp = new URLSearchParams(search.toString());
@@ -198,14 +152,18 @@ export default function CampaignDetailPage() {
     }
 
     /* ------------------------------ Derived UI permissions (same logic as Edit) ------------------------------ */
-    const canSend = data?.status === 'draft'; // only from draft
+    const canSend = data?.status === 'draft' && data.send_mode !== 'recurring'; // only from draft; series send on schedule
     const canSchedule = data?.status === 'draft'; // only from draft
     const canPause = data?.status === 'sending' || data?.status === 'scheduled';
     const canResume = data?.status === 'paused';
     const canCancel = !!data && !['completed', 'cancelled'].includes(data.status);
 
     const reasonSend =
-        canSend ? 'Send immediately' : 'Sending is only available for drafts';
+        canSend
+            ? 'Send immediately'
+            : data?.send_mode === 'recurring'
+                ? 'Recurring campaigns send on their schedule'
+                : 'Sending is only available for drafts';
     const reasonSchedule =
         canSchedule ? 'Schedule this campaign' : 'Scheduling is only available for drafts';
     const reasonPause =
@@ -215,7 +173,7 @@ export default function CampaignDetailPage() {
     const reasonCancel =
         canCancel ? 'Cancel this campaign' : 'Already completed/cancelled';
 
-    async function callAction(path: 'send' | 'schedule' | 'pause' | 'resume' | 'cancel') {
+    async function callAction(path: 'send' | 'schedule' | CampaignAction) {
         if (!data) return;
         setActing(true);
         setActionErr(null);
@@ -229,22 +187,14 @@ export default function CampaignDetailPage() {
             if (path === 'cancel' && !canCancel) throw new Error('This campaign cannot be cancelled.');
 
             // schedule needs scheduled_at; since this is read-only, require it to already exist
-            const body =
-                path === 'schedule' && data.scheduled_at ? { scheduled_at: data.scheduled_at } : undefined;
-            if (path === 'schedule' && !body) throw new Error('No schedule set. Use Edit to set a time.');
-
-            const res = await fetch(`${backend}/companies/${hash}/campaigns/${data.id}/${path}`, {
-                method: 'POST',
-                headers: authHeaders(),
-                body: body ? JSON.stringify(body) : undefined,
-            });
-
-            if (!res.ok) {
-                const txt = await res.text().catch(() => '');
-                throw new Error(`Action failed (${res.status}) ${txt || ''}`);
-            }
+            if (path === 'schedule' && !data.scheduled_at) throw new Error('No schedule set. Use Edit to set a time.');
 
-            const updated: Campaign = await res.json();
+            const updated =
+                path === 'send'
+                    ? await api.campaigns.send(hash, data.id)
+                    : path === 'schedule'
+                        ? await api.campaigns.schedule(hash, data.id, data.scheduled_at!)
+                        : await api.campaigns.action(hash, data.id, path);
             setData(updated);
             setStats((prev) => (prev ? { ...prev, status: updated.status } : prev));
             setActionMsg(
@@ -259,31 +209,23 @@ export default function CampaignDetailPage() {
                                 : 'Cancelled.'
             );
         } catch (e) {
-            setActionErr(e instanceof Error ? e.message : String(e));
+            setActionErr(errorMessage(e));
         } finally {
             setActing(false);
         }
     }
 
     async function duplicateCampaign() {
-        if (!backend || !data) return;
+        if (!data) return;
         setActing(true);
         setActionErr(null);
         setActionMsg(null);
         try {
-            const res = await fetch(`${backend}/companies/${hash}/campaigns/${data.id}/duplicate`, {
-                method: 'POST',
-                headers: authHeaders(),
-            });
-            if (!res.ok) {
-                const txt = await res.text().catch(() => '');
-                throw new Error(`Duplicate failed (${res.status}) ${txt || ''}`);
-            }
-            const created: Campaign = await res.json();
+            const created = await api.campaigns.duplicate(hash, data.id);
             setActionMsg('Duplicated. Redirecting to edit…');
             router.push(`/dashboard/company/${hash}/campaigns/${created.id}/edit`);
         } catch (e) {
-            setActionErr(e instanceof Error ? e.message : String(e));
+            setActionErr(errorMessage(e));
         } finally {
             setActing(false);
         }
@@ -306,6 +248,28 @@ export default function CampaignDetailPage() {
     const listName = data.listGroup_id ? lists[data.listGroup_id]?.name ?? `#${data.listGroup_id}` : '—';
     const segmentName = data.segment_id ? segments[data.segment_id]?.name ?? `#${data.segment_id}` : '—';
 
+    const recurrence = (() => {
+        if (data.send_mode !== 'recurring' || !data.recurrence) return null;
+        try {
+            return parseRecurrence(data.recurrence.rrule);
+        } catch {
+            return null;
+        }
+    })();
+
+    const liveAb = stats?.ab_test;
+    const abTest: CampaignAbTest | null = data.ab_test
+        ? {
+              ...data.ab_test,
+              winner_key: liveAb?.winner_key ?? data.ab_test.winner_key,
+              winner_decided_at: liveAb?.winner_decided_at ?? data.ab_test.winner_decided_at,
+              variants: data.ab_test.variants.map((v) => ({
+                  ...v,
+                  metrics: liveAb?.variants.find((x) => x.key === v.key)?.metrics ?? v.metrics,
+              })),
+          }
+        : null;
+
     return (
         <div className="max-w-6xl mx-auto p-6 space-y-6">
             {/* Header */}
@@ -316,6 +280,15 @@ export default function CampaignDetailPage() {
                 <h1 className="text-2xl font-semibold">
                     Campaign: {data.name || <span className="text-gray-500 italic">(unnamed)</span>}
                     <span className="ml-3 align-middle text-sm font-normal px-2 py-0.5 rounded-full border">{data.status}</span>
+                    {data.parent_id && (
+                        <span className="ml-3 align-middle text-sm font-normal text-gray-500">
+                            occurrence of{' '}
+                            <Link href={`/dashboard/company/${hash}/campaigns/${data.parent_id}`} className="text-indigo-600 hover:underline">
+                                #{data.parent_id}
+                            </Link>
+                            {data.occurrence_at && ` · ${toLocale(data.occurrence_at)}`}
+                        </span>
+                    )}
                 </h1>
                 <Link href={editHref} className="inline-flex items-center px-4 py-2 rounded border hover:bg-gray-50">
                     Edit
@@ -337,22 +310,50 @@ export default function CampaignDetailPage() {
                     </div>
                     <div>
                         <dt className="text-sm text-gray-500">Send mode</dt>
-                        <dd className="mt-1">{data.send_mode}</dd>
+                        <dd className="mt-1">
+                            {data.send_mode === 'local_time'
+                                ? `Recipient local time · ${data.send_local_time ?? '—'} (fallback ${data.fallback_timezone ?? 'UTC'})`
+                                : data.send_mode === 'optimized'
+                                    ? `Optimized send time (fallback ${data.send_local_time ?? '—'} ${data.fallback_timezone ?? 'UTC'})`
+                                    : data.send_mode === 'recurring'
+                                        ? `Recurring · ${recurrence ? describeRecurrence(recurrence) : data.recurrence?.rrule ?? '—'}`
+                                        : data.send_mode}
+                        </dd>
                     </div>
                     <div>
-                        <dt className="text-sm text-gray-500">Scheduled for</dt>
+                        <dt className="text-sm text-gray-500">{data.send_mode === 'recurring' ? 'Next send' : 'Scheduled for'}</dt>
                         <dd className="mt-1">{toLocale(data.scheduled_at)}</dd>
                     </div>
                     <div>
                         <dt className="text-sm text-gray-500">Created</dt>
                         <dd className="mt-1">{toLocale(data.created_at)}</dd>
                     </div>
+                    <div>
+                        <dt className="text-sm text-gray-500">Pacing</dt>
+                        <dd className="mt-1">
+                            {data.throttle ? (
+                                <>
+                                    {effectiveHourlyRate(data.throttle) !== null
+                                        ? `Up to ${Math.round(effectiveHourlyRate(data.throttle) ?? 0).toLocaleString()}/hour`
+                                        : 'Domain caps only'}
+                                    {data.throttle.batch_size && data.throttle.batch_interval_minutes
+                                        ? ` · batches of ${data.throttle.batch_size.toLocaleString()} every ${data.throttle.batch_interval_minutes} min`
+                                        : ''}
+                                    {data.throttle.domain_caps.length > 0 &&
+                                        ` · ${data.throttle.domain_caps.map((c) => `${c.domain} ≤ ${c.max_per_hour}/h`).join(', ')}`}
+                                </>
+                            ) : (
+                                <span className="text-gray-500">Not throttled</span>
+                            )}
+                        </dd>
+                    </div>
                 </dl>
             </div>
 
             {/* Read-only relationships */}
             <div className="bg-white border rounded-lg p-4">
                 <h2 className="text-lg font-semibold mb-3">Related</h2>
+                {lookupErr && <p className="mb-3 text-sm text-amber-700">Names could not be loaded: {lookupErr}</p>}
                 <dl className="grid md:grid-cols-2 gap-4">
                     <div>
                         <dt className="text-sm text-gray-500">From domain</dt>
@@ -447,12 +448,12 @@ export default function CampaignDetailPage() {
             {/* Metrics */}
             <div className="grid md:grid-cols-3 gap-4">
                 {[
-                    { label: 'Sent', value: stats?.metrics.sent ?? data.metrics.sent },
-                    { label: 'Delivered', value: stats?.metrics.delivered ?? data.metrics.delivered },
-                    { label: 'Opens', value: stats?.metrics.opens ?? data.metrics.opens },
-                    { label: 'Clicks', value: stats?.metrics.clicks ?? data.metrics.clicks },
-                    { label: 'Bounces', value: stats?.metrics.bounces ?? data.metrics.bounces },
-                    { label: 'Complaints', value: stats?.metrics.complaints ?? data.metrics.complaints },
+                    { label: 'Sent', value: stats?.metrics.sent ?? data.metrics?.sent ?? 0 },
+                    { label: 'Delivered', value: stats?.metrics.delivered ?? data.metrics?.delivered ?? 0 },
+                    { label: 'Opens', value: stats?.metrics.opens ?? data.metrics?.opens ?? 0 },
+                    { label: 'Clicks', value: stats?.metrics.clicks ?? data.metrics?.clicks ?? 0 },
+                    { label: 'Bounces', value: stats?.metrics.bounces ?? data.metrics?.bounces ?? 0 },
+                    { label: 'Complaints', value: stats?.metrics.complaints ?? data.metrics?.complaints ?? 0 },
                 ].map((m) => (
                     <div key={m.label} className="bg-white border rounded-lg p-4">
                         <div className="text-sm text-gray-500">{m.label}</div>
@@ -461,6 +462,37 @@ export default function CampaignDetailPage() {
                 ))}
             </div>
 
+            {data.send_mode === 'recurring' && data.status !== 'draft' && (
+                <OccurrencesPanel hash={hash} campaignId={data.id} timezone={recurrence?.timezone ?? 'UTC'} />
+            )}
+
+            {data.status !== 'draft' && data.send_mode !== 'recurring' && (
+                <CampaignProgressPanel
+                    hash={hash}
+                    campaignId={data.id}
+                    status={data.status}
+                    onStatus={(status) => setData((d) => (d ? { ...d, status } : d))}
+                />
+            )}
+
+            {data.status !== 'draft' && data.send_mode !== 'recurring' && (
+                <LinkClicks
+                    hash={hash}
+                    campaignId={data.id}
+                    templateId={data.template_id}
+                    delivered={stats?.metrics.delivered ?? data.metrics?.delivered ?? 0}
+                />
+            )}
+
+            {abTest && (
+                <AbTestResults
+                    abTest={abTest}
+                    baseSubject={data.subject}
+                    baseTemplateName={templateName}
+                    templateName={(tid) => templates[tid]?.name ?? `#${tid}`}
+                />
+            )}
+
             {/* Recipients preview */}
             <div className="bg-white border rounded-lg overflow-hidden">
                 <div className="p-3 border-b flex items-center justify-between">
@@ -493,6 +525,12 @@ export default function CampaignDetailPage() {
                                     Loading…
                                 </td>
                             </tr>
+                        ) : recipsErr ? (
+                            <tr>
+                                <td className="px-3 py-6 text-center text-red-600" colSpan={3}>
+                                    {recipsErr}
+                                </td>
+                            </tr>
                         ) : !recips || recips.items.length === 0 ? (
                             <tr>
                                 <td className="px-3 py-6 text-center text-gray-500" colSpan={3}>
@@ -0,0 +1,377 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import {
+    ArrowDownTrayIcon,
+    ArrowLeftIcon,
+    ArrowsRightLeftIcon,
+    DocumentArrowDownIcon,
+    ExclamationTriangleIcon,
+} from '@heroicons/react/24/outline';
+import { api, errorMessage, isAbortError } from '@/lib/api';
+import {
+    CURVE_HOURS,
+    curveStart,
+    MAX_COMPARE,
+    MIN_COMPARE,
+    RATE_DEFS,
+    chronological,
+    delta,
+    downloadText,
+    openCurve,
+    rate,
+    sentAt,
+    toCsv,
+} from '@/lib/campaign-compare';
+import type { Campaign, CampaignEvent } from '@/types/api';
+
+/** Opened events read per campaign for the time-to-open curve (200 each); past that the curve stops early. */
+const OPEN_PAGES = 10;
+const PER_PAGE = 200;
+
+const LINE_COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ef4444', '#0ea5e9', '#8b5cf6', '#14b8a6', '#f97316', '#ec4899', '#64748b'];
+
+function cx(...xs: Array<string | false | null | undefined>) {
+    return xs.filter(Boolean).join(' ');
+}
+
+function pct(r: number | null, digits = 1) {
+    return r === null ? '—' : `${(r * 100).toFixed(digits)}%`;
+}
+
+function parseIds(raw: string | null): number[] {
+    const ids = (raw ?? '')
+        .split(',')
+        .map((s) => Number(s.trim()))
+        .filter((n) => Number.isInteger(n) && n > 0);
+    return [...new Set(ids)].slice(0, MAX_COMPARE);
+}
+
+/** Newest-first when the first item is later than the last; the events API does not promise an order. */
+function newestFirst(items: CampaignEvent[]): boolean {
+    return items.length > 1 && Date.parse(items[0].at) > Date.parse(items[items.length - 1].at);
+}
+
+type Curve = { points: Array<number | null>; truncated: boolean };
+
+async function loadCurve(hash: string, c: Campaign, signal: AbortSignal): Promise<Curve | null> {
+    const events = (type: string, page: number, perPage = PER_PAGE) =>
+        api.campaigns.events(hash, c.id, { signal, query: { type, page, perPage } });
+
+    const head = await events('opened', 1);
+    const desc = newestFirst(head.items);
+    const last = head.meta.totalPages;
+    // read the oldest opens: the first pages, or the last ones when the list is newest first
+    const pages = desc
+        ? Array.from({ length: Math.min(OPEN_PAGES, last) }, (_, i) => last - i)
+        : Array.from({ length: Math.min(OPEN_PAGES, last) }, (_, i) => i + 1);
+    const opens: CampaignEvent[] = [];
+    for (const page of pages) opens.push(...(page === 1 ? head.items : (await events('opened', page)).items));
+
+    const delivered = await events('delivered', 1, 1);
+    const firstDelivery =
+        desc && delivered.meta.totalPages > 1 ? (await events('delivered', delivered.meta.totalPages, 1)).items : delivered.items;
+
+    const truncated = last > OPEN_PAGES;
+    const points = openCurve(opens, curveStart(c, [...firstDelivery, ...opens]), c.metrics?.opens ?? 0, !truncated);
+    return points && { points, truncated };
+}
+
+export default function CampaignComparePage() {
+    const router = useRouter();
+    const search = useSearchParams();
+    const { hash } = useParams<{ hash: string }>();
+    const ids = useMemo(() => parseIds(search.get('ids')), [search]);
+
+    const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [err, setErr] = useState<string | null>(null);
+    const [curves, setCurves] = useState<Record<number, Curve | null>>({});
+    const [curvesLoading, setCurvesLoading] = useState(false);
+
+    const backHref = `/dashboard/company/${hash}/campaigns`;
+
+    useEffect(() => {
+        if (ids.length < MIN_COMPARE) {
+            setLoading(false);
+            return;
+        }
+        const ctrl = new AbortController();
+        setLoading(true);
+        setErr(null);
+        Promise.all(ids.map((id) => api.campaigns.get(hash, id, { signal: ctrl.signal })))
+            .then((cs) => setCampaigns(chronological(cs)))
+            .catch((e) => {
+                if (!isAbortError(e)) setErr(errorMessage(e));
+            })
+            .finally(() => {
+                if (!ctrl.signal.aborted) setLoading(false);
+            });
+        return () => ctrl.abort();
+    }, [hash, ids]);
+
+    useEffect(() => {
+        if (!campaigns.length) return;
+        const ctrl = new AbortController();
+        setCurvesLoading(true);
+        (async () => {
+            const out: Record<number, Curve | null> = {};
+            for (const c of campaigns) {
+                try {
+                    out[c.id] = await loadCurve(hash, c, ctrl.signal);
+                } catch (e) {
+                    if (isAbortError(e)) return;
+                    out[c.id] = null;
+                }
+                setCurves({ ...out });
+            }
+            setCurvesLoading(false);
+        })();
+        return () => ctrl.abort();
+    }, [hash, campaigns]);
+
+    const chartData = useMemo(
+        () =>
+            CURVE_HOURS.map((h, i) => {
+                const row: Record<string, number | null> = { hour: h };
+                for (const c of campaigns) {
+                    const v = curves[c.id]?.points[i] ?? null;
+                    row[`c${c.id}`] = v === null ? null : Math.round(v * 1000) / 10;
+                }
+                return row;
+            }),
+        [campaigns, curves]
+    );
+
+    const label = (c: Campaign) => c.name || c.subject || `Campaign #${c.id}`;
+
+    function exportCsv() {
+        const header = [
+            'campaign_id',
+            'name',
+            'subject',
+            'sent_at',
+            'sent',
+            'delivered',
+            'opens',
+            'clicks',
+            'bounces',
+            'complaints',
+            ...RATE_DEFS.map((d) => `${d.key}_rate`),
+            ...RATE_DEFS.map((d) => `${d.key}_rate_delta_pp`),
+            ...CURVE_HOURS.filter((h) => h > 0).map((h) => `opened_within_${h}h`),
+        ];
+        const rows = campaigns.map((c, i) => {
+            const prev = campaigns[i - 1];
+            const m = c.metrics;
+            const curve = curves[c.id]?.points;
+            return [
+                c.id,
+                c.name,
+                c.subject,
+                sentAt(c) || null,
+                m?.sent ?? null,
+                m?.delivered ?? null,
+                m?.opens ?? null,
+                m?.clicks ?? null,
+                m?.bounces ?? null,
+                m?.complaints ?? null,
+                ...RATE_DEFS.map((d) => {
+                    const r = rate(d, m);
+                    return r === null ? null : +r.toFixed(4);
+                }),
+                ...RATE_DEFS.map((d) => {
+                    const dl = prev ? delta(rate(d, m), rate(d, prev.metrics)) : null;
+                    return dl === null ? null : +dl.toFixed(2);
+                }),
+                ...CURVE_HOURS.map((_, j) => (curve && curve[j] !== null ? +curve[j].toFixed(4) : null)).slice(1),
+            ];
+        });
+        downloadText(`campaign-comparison-${new Date().toISOString().slice(0, 10)}.csv`, toCsv([header, ...rows]));
+    }
+
+    if (ids.length < MIN_COMPARE) {
+        return (
+            <div className="max-w-3xl mx-auto p-6 text-center space-y-3">
+                <p className="text-gray-600">
+                    Pick {MIN_COMPARE}–{MAX_COMPARE} campaigns on the campaigns page to compare them.
+                </p>
+                <Link href={backHref} className="text-indigo-600 hover:underline">
+                    ← Back to campaigns
+                </Link>
+            </div>
+        );
+    }
+
+    if (loading) return <p className="p-6 text-center text-gray-600">Loading campaigns…</p>;
+
+    if (err)
+        return (
+            <div className="p-6 text-center">
+                <p className="inline-flex items-center gap-2 text-red-600">
+                    <ExclamationTriangleIcon className="h-5 w-5" />
+                    {err}
+                </p>
+                <div>
+                    <button onClick={() => router.push(backHref)} className="mt-3 inline-flex items-center px-3 py-2 rounded border">
+                        <ArrowLeftIcon className="h-4 w-4 mr-1" /> Back
+                    </button>
+                </div>
+            </div>
+        );
+
+    return (
+        <div className="max-w-7xl mx-auto p-6 space-y-6 print:max-w-none print:p-0">
+            {/* Header */}
+            <div className="flex items-center justify-between gap-3">
+                <button
+                    onClick={() => router.push(backHref)}
+                    className="inline-flex items-center text-gray-600 hover:text-gray-800 print:hidden"
+                >
+                    <ArrowLeftIcon className="h-5 w-5 mr-1" /> Back
+                </button>
+                <h1 className="flex items-center gap-2 text-2xl font-semibold">
+                    <ArrowsRightLeftIcon className="h-6 w-6 text-indigo-600 print:hidden" />
+                    Campaign comparison
+                </h1>
+                <div className="flex gap-2 print:hidden">
+                    <button onClick={exportCsv} className="inline-flex items-center px-4 py-2 rounded border hover:bg-gray-50" title="Download as CSV">
+                        <ArrowDownTrayIcon className="h-5 w-5 mr-1" />
+                        CSV
+                    </button>
+                    <button
+                        onClick={() => window.print()}
+                        className="inline-flex items-center px-4 py-2 rounded border hover:bg-gray-50"
+                        title="Print or save as PDF"
+                    >
+                        <DocumentArrowDownIcon className="h-5 w-5 mr-1" />
+                        PDF
+                    </button>
+                </div>
+            </div>
+
+            {/* Rates */}
+            <div className="bg-white border rounded-lg overflow-auto print:overflow-visible">
+                <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50">
+                    <tr className="text-left align-bottom">
+                        <th className="px-3 py-2">Metric</th>
+                        {campaigns.map((c, i) => (
+                            <th key={c.id} className="px-3 py-2 text-right">
+                                <span className="inline-flex items-center gap-1.5">
+                                    <span className="h-2.5 w-2.5 rounded-full" style={{ background: LINE_COLORS[i % LINE_COLORS.length] }} />
+                                    <Link href={`/dashboard/company/${hash}/campaigns/${c.id}`} className="hover:underline">
+                                        {label(c)}
+                                    </Link>
+                                </span>
+                                <div className="text-xs font-normal text-gray-500">
+                                    {sentAt(c) ? new Date(sentAt(c)).toLocaleDateString() : '—'}
+                                </div>
+                            </th>
+                        ))}
+                    </tr>
+                    </thead>
+                    <tbody>
+                    <tr className="border-t">
+                        <td className="px-3 py-2 text-gray-600">Sent</td>
+                        {campaigns.map((c) => (
+                            <td key={c.id} className="px-3 py-2 text-right tabular-nums">
+                                {(c.metrics?.sent ?? 0).toLocaleString()}
+                            </td>
+                        ))}
+                    </tr>
+                    {RATE_DEFS.map((d) => (
+                        <tr key={d.key} className="border-t">
+                            <td className="px-3 py-2 text-gray-600">{d.label}</td>
+                            {campaigns.map((c, i) => {
+                                const r = rate(d, c.metrics);
+                                const dl = i > 0 ? delta(r, rate(d, campaigns[i - 1].metrics)) : null;
+                                const better = dl !== null && dl !== 0 && (dl > 0) !== d.lowerIsBetter;
+                                return (
+                                    <td key={c.id} className="px-3 py-2 text-right tabular-nums">
+                                        <div className="font-medium">{pct(r, d.key === 'complaint' ? 2 : 1)}</div>
+                                        {dl !== null && (
+                                            <div
+                                                className={cx(
+                                                    'text-xs',
+                                                    dl === 0 ? 'text-gray-400' : better ? 'text-emerald-600' : 'text-red-600'
+                                                )}
+                                                title="Change from the previous campaign, in percentage points"
+                                            >
+                                                {dl > 0 ? '+' : ''}
+                                                {dl.toFixed(d.key === 'complaint' ? 2 : 1)} pp
+                                            </div>
+                                        )}
+                                    </td>
+                                );
+                            })}
+                        </tr>
+                    ))}
+                    </tbody>
+                </table>
+                <p className="border-t px-3 py-2 text-xs text-gray-500">
+                    Campaigns are ordered by send date; deltas compare each campaign with the one before it.
+                </p>
+            </div>
+
+            {/* Time to open */}
+            <div className="bg-white border rounded-lg p-4 break-inside-avoid">
+                <div className="mb-3 flex items-center justify-between">
+                    <h2 className="text-lg font-semibold">Time to open</h2>
+                    <span className="text-sm text-gray-500">
+                        {curvesLoading ? 'Loading opens…' : 'Share of openers who had opened, by hours since the send started'}
+                    </span>
+                </div>
+                <ResponsiveContainer width="100%" height={320}>
+                    <LineChart data={chartData} margin={{ top: 10, right: 30, left: 0, bottom: 10 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                        <XAxis dataKey="hour" tick={{ fontSize: 11, fill: '#6b7280' }} tickFormatter={(h: number) => `${h}h`} />
+                        <YAxis domain={[0, 100]} tick={{ fontSize: 11, fill: '#6b7280' }} tickFormatter={(v: number) => `${v}%`} width={50} />
+                        <Tooltip
+                            contentStyle={{ backgroundColor: '#fff', border: '1px solid #e5e7eb', borderRadius: '8px', fontSize: '12px' }}
+                            labelFormatter={(h) => `${h}h after the send started`}
+                            formatter={(v) => `${v}%`}
+                        />
+                        <Legend wrapperStyle={{ fontSize: 12 }} />
+                        {campaigns.map((c, i) => (
+                            <Line
+                                key={c.id}
+                                type="monotone"
+                                dataKey={`c${c.id}`}
+                                name={label(c)}
+                                stroke={LINE_COLORS[i % LINE_COLORS.length]}
+                                strokeWidth={2}
+                                dot={false}
+                                connectNulls
+                                isAnimationActive={false}
+                            />
+                        ))}
+                    </LineChart>
+                </ResponsiveContainer>
+                {!curvesLoading && campaigns.some((c) => curves[c.id]?.truncated) && (
+                    <p className="mt-2 rounded bg-amber-50 px-2 py-1 text-xs text-amber-700">
+                        Based on the first {(OPEN_PAGES * PER_PAGE).toLocaleString()} opens of{' '}
+                        {campaigns
+                            .filter((c) => curves[c.id]?.truncated)
+                            .map(label)
+                            .join(', ')}
+                        ; their curves stop at the last open read.
+                    </p>
+                )}
+                {!curvesLoading && campaigns.some((c) => !curves[c.id]) && (
+                    <p className="mt-2 text-xs text-gray-500">
+                        No open data for{' '}
+                        {campaigns
+                            .filter((c) => !curves[c.id])
+                            .map(label)
+                            .join(', ')}
+                        .
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+}
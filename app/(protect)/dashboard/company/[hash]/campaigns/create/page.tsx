@@ -12,6 +12,30 @@ import {
 } from '@heroicons/react/24/outline';
 import { Listbox, Transition } from '@headlessui/react';
 import { CheckIcon as CheckMini, ChevronUpDownIcon } from '@heroicons/react/20/solid';
+import { api, errorMessage, isAbortError } from '@/lib/api';
+import PreflightDialog, { type PreflightAction } from '@/components/campaigns/PreflightDialog';
+import AbTestEditor from '@/components/campaigns/AbTestEditor';
+import ThrottleEditor from '@/components/campaigns/ThrottleEditor';
+import SpreadSendOptions from '@/components/campaigns/SpreadSendOptions';
+import RecurrenceEditor from '@/components/campaigns/RecurrenceEditor';
+import { usePlanCapabilities } from '@/components/company/usePlanCapabilities';
+import { DEFAULT_LOCAL_TIME, browserTimeZone } from '@/lib/send-time';
+import { validateAbTest } from '@/lib/ab-test';
+import { validateThrottle } from '@/lib/throttle';
+import { defaultRecurrence, formatRecurrence, nextOccurrenceAt, validateRecurrence } from '@/lib/rrule';
+import type {
+    ApiPaged,
+    CampaignAbTest,
+    CampaignInput,
+    CampaignRecipient,
+    CampaignThrottle,
+    DomainSummary,
+    ListGroup,
+    Segment,
+    SendMode,
+    TargetKind,
+    Template,
+} from '@/types/api';
 
 /* ----------------------- Reusable SelectBox ----------------------- */
 
@@ -167,46 +191,6 @@ function SelectBox({
     );
 }
 
-/* ------------ Types (align with your backend) ------------ */
-
-type CampaignStatus = 'draft' | 'scheduled' | 'sending' | 'paused' | 'completed' | 'cancelled';
-type SendMode = 'immediate' | 'scheduled';
-type TargetKind = 'list' | 'segment';
-
-type Campaign = {
-    id: number;
-    name: string | null;
-    subject: string | null;
-    send_mode: SendMode;
-    scheduled_at: string | null;
-    target: TargetKind;
-    status: CampaignStatus;
-    created_at: string | null;
-
-    template_id: number | null;
-    domain_id: number | null;
-    listGroup_id: number | null;
-    segment_id: number | null;
-
-    metrics: { sent: number; delivered: number; opens: number; clicks: number; bounces: number; complaints: number };
-};
-
-type ApiPaged<T> = {
-    meta: { page: number; perPage: number; total: number; totalPages: number };
-    items: T[];
-};
-
-type ListSummary = { id: number; name: string };
-type SegmentSummary = { id: number; name: string; materialized_count?: number | null };
-type TemplateSummary = { id: number; name: string };
-type DomainSummary = { id: number; domain: string; statusDomain?: string };
-
-type RecipientRow = { id: number; email: string | null; name: string | null; status: string | null };
-type RecipientsPage = {
-    meta: { page: number; perPage: number; total: number; totalPages: number };
-    items: RecipientRow[];
-};
-
 /* ----------------------------- Page ----------------------------- */
 
 export default function CampaignCreatePage() {
@@ -214,13 +198,6 @@ export default function CampaignCreatePage() {
     const params = useParams<{ hash: string }>();
     const hash = params.hash;
 
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
-
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
-
     const backHref = `/dashboard/company/${hash}/campaigns`;
     const templateCreateHref = `/dashboard/company/${hash}/templates/create`;
     const domainCreateHref   = `/dashboard/company/${hash}/domains/create`;
@@ -229,67 +206,33 @@ export default function CampaignCreatePage() {
 
     /* ------------------------ Picklist data ------------------------ */
 
-    const listsUrl = useMemo(() => (backend ? `${backend}/companies/${hash}/lists?perPage=200` : null), [backend, hash]);
-    const segmentsUrl = useMemo(() => (backend ? `${backend}/companies/${hash}/segments?perPage=200` : null), [backend, hash]);
-    const templatesUrl = useMemo(() => (backend ? `${backend}/companies/${hash}/templates?perPage=200` : null), [backend, hash]);
-    const domainsUrl = useMemo(() => (backend ? `${backend}/companies/${hash}/domains` : null), [backend, hash]);
-
-    const [lists, setLists] = useState<ListSummary[]>([]);
-    const [segments, setSegments] = useState<SegmentSummary[]>([]);
-    const [templates, setTemplates] = useState<TemplateSummary[]>([]);
+    const [lists, setLists] = useState<ListGroup[]>([]);
+    const [segments, setSegments] = useState<Segment[]>([]);
+    const [templates, setTemplates] = useState<Template[]>([]);
     const [domains, setDomains] = useState<DomainSummary[]>([]);
     const [pickErr, setPickErr] = useState<string | null>(null);
 
     useEffect(() => {
-        if (!listsUrl || !segmentsUrl || !templatesUrl) return;
-        let abort = false;
-        (async () => {
-            setPickErr(null);
-            try {
-                const [lRes, sRes, tRes] = await Promise.all([
-                    fetch(listsUrl, { headers: authHeaders() }),
-                    fetch(segmentsUrl, { headers: authHeaders() }),
-                    fetch(templatesUrl, { headers: authHeaders() }),
-                ]);
-                if (!lRes.ok) throw new Error(`Lists failed (${lRes.status})`);
-                if (!sRes.ok) throw new Error(`Segments failed (${sRes.status})`);
-                if (!tRes.ok) throw new Error(`Templates failed (${tRes.status})`);
-
-                const lJson: ApiPaged<ListSummary> = await lRes.json();
-                const sJson: ApiPaged<SegmentSummary> = await sRes.json();
-                const tJson: ApiPaged<TemplateSummary> = await tRes.json();
-
-                if (!abort) {
-                    setLists(lJson.items ?? []);
-                    setSegments(sJson.items ?? []);
-                    setTemplates(tJson.items ?? []);
-                }
-            } catch (e) {
-                if (!abort) setPickErr(e instanceof Error ? e.message : String(e));
-            }
-        })();
-        return () => {
-            abort = true;
-        };
-    }, [listsUrl, segmentsUrl, templatesUrl]);
-
-    useEffect(() => {
-        if (!domainsUrl) return;
-        let abort = false;
-        (async () => {
-            try {
-                const res = await fetch(domainsUrl, { headers: authHeaders() });
-                if (!res.ok) throw new Error(`Domains failed (${res.status})`);
-                const dJson: DomainSummary[] = await res.json();
-                if (!abort) setDomains(Array.isArray(dJson) ? dJson : []);
-            } catch (e) {
-                if (!abort) setPickErr((prev) => prev ?? (e instanceof Error ? e.message : String(e)));
-            }
-        })();
-        return () => {
-            abort = true;
-        };
-    }, [domainsUrl]);
+        const ctrl = new AbortController();
+        const o = { signal: ctrl.signal, query: { perPage: 200 } };
+        setPickErr(null);
+        Promise.all([
+            api.lists.list(hash, o),
+            api.segments.list(hash, o),
+            api.templates.list(hash, o),
+            api.domains.list(hash, { signal: ctrl.signal }),
+        ])
+            .then(([l, sg, t, d]) => {
+                setLists(l.items);
+                setSegments(sg.items);
+                setTemplates(t.items);
+                setDomains(d);
+            })
+            .catch((e) => {
+                if (!isAbortError(e)) setPickErr(errorMessage(e));
+            });
+        return () => ctrl.abort();
+    }, [hash]);
 
     /* -------------------------- Form state ------------------------- */
 
@@ -301,8 +244,17 @@ export default function CampaignCreatePage() {
     const [target, setTarget] = useState<TargetKind>('list');
     const [listGroupId, setListGroupId] = useState<number | ''>('');
     const [segmentId, setSegmentId] = useState<number | ''>('');
+    const [abTest, setAbTest] = useState<CampaignAbTest | null>(null);
+    const [throttle, setThrottle] = useState<CampaignThrottle | null>(null);
     const [sendMode, setSendMode] = useState<SendMode>('immediate');
     const [scheduledAtLocal, setScheduledAtLocal] = useState<string>(''); // yyyy-MM-ddThh:mm (local)
+    const [sendLocalTime, setSendLocalTime] = useState(DEFAULT_LOCAL_TIME);
+    const [fallbackTz, setFallbackTz] = useState(browserTimeZone);
+    const isSpreadMode = sendMode === 'local_time' || sendMode === 'optimized';
+    const [recurrence, setRecurrence] = useState(() => formatRecurrence(defaultRecurrence(browserTimeZone())));
+    const isRecurring = sendMode === 'recurring';
+    const { capabilities, loading: capsLoading } = usePlanCapabilities(hash);
+    const canOptimize = !!capabilities.sendTimeOptimization;
 
     // Save/create state
     const [saving, setSaving] = useState(false);
@@ -312,42 +264,32 @@ export default function CampaignCreatePage() {
     // Actions state
     const [actionErr, setActionErr] = useState<string | null>(null);
     const [actionMsg, setActionMsg] = useState<string | null>(null);
+    const [preflight, setPreflight] = useState<PreflightAction | null>(null);
     const [acting, setActing] = useState(false);
 
     // Recipients preview
-    const [recips, setRecips] = useState<RecipientsPage | null>(null);
+    const [recips, setRecips] = useState<ApiPaged<CampaignRecipient> | null>(null);
     const [recipsLoading, setRecipsLoading] = useState(false);
     const [recipsErr, setRecipsErr] = useState<string | null>(null);
     const [page, setPage] = useState(1);
     const perPage = 25;
 
-    const recipientsUrl = useMemo(() => {
-        if (!backend || !campaignId) return null;
-        const sp = new URLSearchParams({ page: String(page), perPage: String(perPage) });
-        return `${backend}/companies/${hash}/campaigns/${campaignId}/recipients?${sp.toString()}`;
-    }, [backend, hash, campaignId, page]);
-
     useEffect(() => {
-        if (!recipientsUrl) return;
-        let abort = false;
-        (async () => {
-            setRecipsLoading(true);
-            setRecipsErr(null);
-            try {
-                const res = await fetch(recipientsUrl, { headers: authHeaders() });
-                if (!res.ok) throw new Error(`Failed to load recipients (${res.status})`);
-                const json: RecipientsPage = await res.json();
-                if (!abort) setRecips(json);
-            } catch (e) {
-                if (!abort) setRecipsErr(e instanceof Error ? e.message : String(e));
-            } finally {
-                if (!abort) setRecipsLoading(false);
-            }
-        })();
-        return () => {
-            abort = true;
-        };
-    }, [recipientsUrl]);
+        if (!campaignId) return;
+        const ctrl = new AbortController();
+        setRecipsLoading(true);
+        setRecipsErr(null);
+        api.campaigns
+            .recipients(hash, campaignId, { signal: ctrl.signal, query: { page, perPage } })
+            .then(setRecips)
+            .catch((e) => {
+                if (!isAbortError(e)) setRecipsErr(errorMessage(e));
+            })
+            .finally(() => {
+                if (!ctrl.signal.aborted) setRecipsLoading(false);
+            });
+        return () => ctrl.abort();
+    }, [hash, campaignId, page]);
 
     /* ---------------------------- Helpers --------------------------- */
 
@@ -372,44 +314,41 @@ export default function CampaignCreatePage() {
     /* ---------------------------- Save (draft) --------------------------- */
 
     async function ensureCreatedOrPatched(): Promise<number> {
-        if (!backend) throw new Error('Missing backend URL');
-
         if (target === 'list' && !listGroupId) throw new Error('Please choose a list.');
         if (target === 'segment' && !segmentId) throw new Error('Please choose a segment.');
-
-        const body: Record<string, unknown> = {
+        const abProblem = abTest && validateAbTest(abTest, { subject, template_id: templateId || null });
+        if (abProblem) throw new Error(abProblem);
+        const throttleProblem = throttle && validateThrottle(throttle);
+        if (throttleProblem) throw new Error(throttleProblem);
+        const recurrenceProblem = isRecurring && validateRecurrence(recurrence);
+        if (recurrenceProblem) throw new Error(recurrenceProblem);
+
+        const body: Partial<CampaignInput> = {
             name: name.trim(),
             subject: subject.trim() || undefined,
             template_id: templateId || undefined,
             domain_id: domainId || undefined,
             target,
-            list_group_id: target === 'list' ? listGroupId : undefined,
-            segment_id: target === 'segment' ? segmentId : undefined,
+            list_group_id: target === 'list' ? listGroupId || undefined : undefined,
+            segment_id: target === 'segment' ? segmentId || undefined : undefined,
             send_mode: sendMode,
-            scheduled_at: sendMode === 'scheduled' ? toISOFromLocal(scheduledAtLocal) : undefined,
+            scheduled_at: isRecurring
+                ? nextOccurrenceAt(recurrence)
+                : sendMode !== 'immediate' ? toISOFromLocal(scheduledAtLocal) : undefined,
+            send_local_time: isSpreadMode ? sendLocalTime : undefined,
+            fallback_timezone: isSpreadMode ? fallbackTz : undefined,
+            recurrence: isRecurring ? { rrule: recurrence } : undefined,
+            throttle: throttle ?? undefined,
+            ab_test: abTest ?? undefined,
         };
         if (!body.name) throw new Error('Please enter a campaign name');
 
         if (campaignId == null) {
-            const res = await fetch(`${backend}/companies/${hash}/campaigns`, {
-                method: 'POST',
-                headers: authHeaders(),
-                body: JSON.stringify(body),
-            });
-            const payload = (await res.json()) as Campaign | { error?: string };
-            if (!res.ok) throw new Error(('error' in payload && payload.error) ? payload.error : `Create failed (${res.status})`);
-            setCampaignId((payload as Campaign).id);
-            return (payload as Campaign).id;
-        } else {
-            const res = await fetch(`${backend}/companies/${hash}/campaigns/${campaignId}`, {
-                method: 'PATCH',
-                headers: authHeaders(),
-                body: JSON.stringify(body),
-            });
-            const payload = (await res.json()) as Campaign | { error?: string };
-            if (!res.ok) throw new Error(('error' in payload && payload.error) ? payload.error : `Save failed (${res.status})`);
-            return (payload as Campaign).id;
+            const created = await api.campaigns.create(hash, body);
+            setCampaignId(created.id);
+            return created.id;
         }
+        return (await api.campaigns.update(hash, campaignId, body)).id;
     }
 
     async function onSaveDraft() {
@@ -420,7 +359,7 @@ export default function CampaignCreatePage() {
             const id = await ensureCreatedOrPatched();
             setSaveMsg(`Campaign saved (ID ${id}).`);
         } catch (e) {
-            setSaveErr(e instanceof Error ? e.message : String(e));
+            setSaveErr(errorMessage(e));
         } finally {
             setSaving(false);
         }
@@ -433,22 +372,23 @@ export default function CampaignCreatePage() {
         setActionMsg(null);
         setActing(true);
         try {
-            if (sendMode !== 'scheduled') throw new Error('Select “Scheduled” and a date/time to schedule.');
-            if (!scheduledAtLocal) throw new Error('Please pick a date & time.');
+            if (sendMode === 'immediate') throw new Error('Select “Scheduled” and a date/time to schedule.');
+            if (!scheduledAtLocal && !isRecurring && !isSpreadMode) throw new Error('Please pick a date & time.');
             const id = await ensureCreatedOrPatched();
-            const iso = toISOFromLocal(scheduledAtLocal);
+            // spread modes without a "not before" start fanning out right away
+            const iso = isRecurring
+                ? nextOccurrenceAt(recurrence)
+                : !scheduledAtLocal && isSpreadMode ? new Date().toISOString() : toISOFromLocal(scheduledAtLocal);
             if (!iso) throw new Error('Invalid schedule date/time.');
 
-            const res = await fetch(`${backend}/companies/${hash}/campaigns/${id}/schedule`, {
-                method: 'POST',
-                headers: authHeaders(),
-                body: JSON.stringify({ scheduled_at: iso }),
-            });
-            const payload = (await res.json()) as Campaign | { error?: string };
-            if (!res.ok) throw new Error(('error' in payload && payload.error) ? payload.error : `Schedule failed (${res.status})`);
-            setActionMsg(`Scheduled for ${toLocale((payload as Campaign).scheduled_at)}.`);
+            const scheduled = await api.campaigns.schedule(hash, id, iso);
+            setActionMsg(
+                isRecurring
+                    ? `Recurring schedule started; first send ${toLocale(scheduled.scheduled_at)}.`
+                    : `Scheduled for ${toLocale(scheduled.scheduled_at)}.`
+            );
         } catch (e) {
-            setActionErr(e instanceof Error ? e.message : String(e));
+            setActionErr(errorMessage(e));
         } finally {
             setActing(false);
         }
@@ -460,15 +400,10 @@ export default function CampaignCreatePage() {
         setActing(true);
         try {
             const id = await ensureCreatedOrPatched();
-            const res = await fetch(`${backend}/companies/${hash}/campaigns/${id}/send`, {
-                method: 'POST',
-                headers: authHeaders(),
-            });
-            const payload = (await res.json()) as Campaign | { error?: string };
-            if (!res.ok) throw new Error(('error' in payload && payload.error) ? payload.error : `Send failed (${res.status})`);
+            await api.campaigns.send(hash, id);
             setActionMsg('Sending started.');
         } catch (e) {
-            setActionErr(e instanceof Error ? e.message : String(e));
+            setActionErr(errorMessage(e));
         } finally {
             setActing(false);
         }
@@ -488,20 +423,25 @@ export default function CampaignCreatePage() {
         { value: 'segment', label: 'Segment' },
     ] as const satisfies readonly SBOption[];
 
-    const sendModeOptions = [
+    const sendModeOptions: SBOption[] = [
         { value: 'immediate', label: 'Immediate' },
         { value: 'scheduled', label: 'Scheduled' },
-    ] as const satisfies readonly SBOption[];
+        { value: 'local_time', label: 'Recipient local time' },
+        ...(canOptimize || sendMode === 'optimized'
+            ? [{ value: 'optimized', label: 'Optimized send time', hint: 'Best hour per contact from open history' }]
+            : []),
+        { value: 'recurring', label: 'Recurring', hint: 'Repeats on a schedule' },
+    ];
 
     const domainOptions: SBOption[] = domains.map((d) => ({
         value: d.id,
-        label: d.domain,
-        hint: d.statusDomain,
+        label: d.domain ?? `#${d.id}`,
+        hint: d.statusDomain ?? undefined,
     }));
 
     const templateOptions: SBOption[] = templates.map((t) => ({
         value: t.id,
-        label: t.name,
+        label: t.name ?? `#${t.id}`,
     }));
 
     const listOptions: SBOption[] = lists.map((l) => ({ value: l.id, label: l.name }));
@@ -575,6 +515,15 @@ export default function CampaignCreatePage() {
                 {pickErr && <div className="text-sm text-red-600">{pickErr}</div>}
             </div>
 
+            {/* A/B test */}
+            <AbTestEditor
+                value={abTest}
+                onChange={setAbTest}
+                templates={templates}
+                baseSubject={subject}
+                baseTemplateId={templateId === '' ? null : templateId}
+            />
+
             {/* Targeting */}
             <div className="bg-white border rounded-lg p-4 space-y-3">
                 <h2 className="text-lg font-semibold">Recipients</h2>
@@ -621,39 +570,64 @@ export default function CampaignCreatePage() {
                             onChange={(v) => setSendMode((v as SendMode) || 'immediate')}
                             options={sendModeOptions}
                         />
-                        {sendMode === 'scheduled' && (
+                        {sendMode !== 'immediate' && !isRecurring && (
                             <div className="mt-2">
-                                <label className="block text-sm font-medium mb-1">Scheduled for</label>
+                                <label className="block text-sm font-medium mb-1">{isSpreadMode ? 'Not before' : 'Scheduled for'}</label>
                                 <input
                                     type="datetime-local"
                                     value={scheduledAtLocal}
                                     onChange={(e) => setScheduledAtLocal(e.target.value)}
                                     className="w-full rounded border px-3 py-2"
                                 />
-                                <p className="text-xs text-gray-500 mt-1">Local time; will be stored as UTC.</p>
+                                <p className="text-xs text-gray-500 mt-1">
+                                    {isSpreadMode ? 'Optional; leave empty to start as soon as the campaign is scheduled or sent.' : 'Local time; will be stored as UTC.'}
+                                </p>
                             </div>
                         )}
+                        {!canOptimize && !capsLoading && (
+                            <p className="text-xs text-gray-500 mt-1">Optimized send time is not included in your plan.</p>
+                        )}
                     </div>
                 </div>
+
+                {isSpreadMode && (
+                    <SpreadSendOptions
+                        hash={hash}
+                        mode={sendMode}
+                        localTime={sendLocalTime}
+                        onLocalTimeChange={setSendLocalTime}
+                        fallbackTimezone={fallbackTz}
+                        onFallbackTimezoneChange={setFallbackTz}
+                        target={target}
+                        listId={listGroupId === '' ? null : listGroupId}
+                        segmentId={segmentId === '' ? null : segmentId}
+                        start={toISOFromLocal(scheduledAtLocal)}
+                    />
+                )}
+
+                {isRecurring && <RecurrenceEditor value={recurrence} onChange={setRecurrence} />}
             </div>
 
+            {/* Pacing */}
+            <ThrottleEditor value={throttle} onChange={setThrottle} audienceSize={recips?.meta.total ?? null} />
+
             {/* Actions */}
             <div className="flex flex-wrap items-center gap-3">
                 <button
-                    onClick={onSendNow}
-                    disabled={acting}
+                    onClick={() => setPreflight('send')}
+                    disabled={acting || isRecurring}
                     className="inline-flex items-center px-4 py-2 rounded border hover:bg-gray-50 disabled:opacity-60"
-                    title="Send immediately"
+                    title={isRecurring ? 'Recurring campaigns send on their schedule; use Schedule to start it' : 'Send immediately'}
                 >
                     <PaperAirplaneIcon className="h-5 w-5 mr-1" />
                     {acting ? 'Working…' : 'Send now'}
                 </button>
 
                 <button
-                    onClick={onSchedule}
+                    onClick={() => setPreflight('schedule')}
                     disabled={acting}
                     className="inline-flex items-center px-4 py-2 rounded border hover:bg-gray-50 disabled:opacity-60"
-                    title="Schedule this campaign"
+                    title={isRecurring ? 'Start the recurring schedule' : 'Schedule this campaign'}
                 >
                     <CalendarDaysIcon className="h-5 w-5 mr-1" />
                     {acting ? 'Working…' : 'Schedule'}
@@ -666,7 +640,7 @@ export default function CampaignCreatePage() {
                             if (!id) return;
                             await refreshRecipients();
                         } catch (e) {
-                            setActionErr(e instanceof Error ? e.message : String(e));
+                            setActionErr(errorMessage(e));
                         }
                     }}
                     disabled={!campaignId && acting}
@@ -770,6 +744,23 @@ export default function CampaignCreatePage() {
                 <Link href={backHref} className="text-sm text-gray-600 hover:text-gray-800">← Back to campaigns</Link>
                 <div />
             </div>
+
+            <PreflightDialog
+                open={preflight !== null}
+                onClose={() => setPreflight(null)}
+                action={preflight ?? 'send'}
+                request={{
+                    hash,
+                    subject: subject.trim() || null,
+                    template_id: templateId === '' ? null : templateId,
+                    domain_id: domainId === '' ? null : domainId,
+                    target,
+                    list_id: listGroupId === '' ? null : listGroupId,
+                    segment_id: segmentId === '' ? null : segmentId,
+                    variants: abTest?.variants ?? null,
+                }}
+                onConfirm={preflight === 'schedule' ? onSchedule : onSendNow}
+            />
         </div>
     );
 }
@@ -16,6 +16,7 @@ import {
     ChartBarIcon,
     CalendarDaysIcon,
     UserGroupIcon,
+    ArrowsRightLeftIcon,
 } from '@heroicons/react/24/outline';
 import {
     EnvelopeIcon as EnvelopeSolid,
@@ -23,47 +24,9 @@ import {
     CalendarDaysIcon as CalendarSolid,
     UserGroupIcon as UserGroupSolid,
 } from '@heroicons/react/24/solid';
-
-/* ----------------------------- Types ----------------------------- */
-
-type CampaignStatus =
-    | 'draft'
-    | 'scheduled'
-    | 'sending'
-    | 'paused'
-    | 'completed'
-    | 'cancelled';
-
-type SendMode = 'immediate' | 'scheduled';
-type TargetKind = 'list' | 'segment';
-
-type CampaignRow = {
-    id: number;
-    name: string | null;
-    subject: string | null;
-    send_mode: SendMode;
-    scheduled_at: string | null;
-    target: TargetKind;
-    status: CampaignStatus;
-    created_at: string | null;
-    template_id: number | null;
-    domain_id: number | null;
-    listGroup_id: number | null;
-    segment_id: number | null;
-    metrics: {
-        sent: number;
-        delivered: number;
-        opens: number;
-        clicks: number;
-        bounces: number;
-        complaints: number;
-    };
-};
-
-type ApiPaged<T> = {
-    meta: { page: number; perPage: number; total: number; totalPages: number };
-    items: T[];
-};
+import { api, errorMessage, isAbortError } from '@/lib/api';
+import type { ApiPaged, Campaign, CampaignStatus } from '@/types/api';
+import { MAX_COMPARE, MIN_COMPARE } from '@/lib/campaign-compare';
 
 /* ----------------------------- Page ----------------------------- */
 
@@ -85,43 +48,28 @@ export default function CampaignsIndexPage() {
     useEffect(() => setStatus(statusFromUrl), [statusFromUrl]);
 
     // Data
-    const [data, setData] = useState<ApiPaged<CampaignRow> | null>(null);
+    const [data, setData] = useState<ApiPaged<Campaign> | null>(null);
     const [loading, setLoading] = useState(true);
     const [err, setErr] = useState<string | null>(null);
 
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
-
-    const listUrl = useMemo(() => {
-        const sp = new URLSearchParams();
-        sp.set('page', String(page));
-        sp.set('perPage', String(perPage));
-        if (qFromUrl) sp.set('search', qFromUrl);
-        if (statusFromUrl) sp.set('status', statusFromUrl);
-        return `${backend}/companies/${hash}/campaigns?${sp.toString()}`;
-    }, [backend, hash, page, perPage, qFromUrl, statusFromUrl]);
+    // Campaigns picked for the comparison report; kept across pages
+    const [selected, setSelected] = useState<number[]>([]);
 
     useEffect(() => {
-        let abort = false;
-        (async () => {
-            setLoading(true);
-            setErr(null);
-            try {
-                const res = await fetch(listUrl, { headers: authHeaders() });
-                if (!res.ok) throw new Error(`Failed to load campaigns (${res.status})`);
-                const json: ApiPaged<CampaignRow> = await res.json();
-                if (!abort) setData(json);
-            } catch (e) {
-                if (!abort) setErr(e instanceof Error ? e.message : String(e));
-            } finally {
-                if (!abort) setLoading(false);
-            }
-        })();
-        return () => { abort = true; };
-    }, [listUrl]);
+        const ctrl = new AbortController();
+        setLoading(true);
+        setErr(null);
+        api.campaigns
+            .list(hash, { signal: ctrl.signal, query: { page, perPage, search: qFromUrl, status: statusFromUrl } })
+            .then(setData)
+            .catch((e) => {
+                if (!isAbortError(e)) setErr(errorMessage(e));
+            })
+            .finally(() => {
+                if (!ctrl.signal.aborted) setLoading(false);
+            });
+        return () => ctrl.abort();
+    }, [hash, page, perPage, qFromUrl, statusFromUrl]);
 
     function updateQuery(partial: Record<string, unknown>) {
         const sp = new URLSearchParams(search.toString());
@@ -143,8 +91,14 @@ export default function CampaignsIndexPage() {
         updateQuery({ search: undefined, status: undefined, page: 1 });
     }
 
+    function toggleSelected(id: number) {
+        setSelected(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+    }
+
     const backHref = `/dashboard/company/${hash}`;
     const createHref = `/dashboard/company/${hash}/campaigns/create`;
+    const canCompare = selected.length >= MIN_COMPARE && selected.length <= MAX_COMPARE;
+    const compareHref = `/dashboard/company/${hash}/campaigns/compare?ids=${selected.join(',')}`;
 
     const toLocale = (s?: string | null) => {
         if (!s) return '—';
@@ -175,11 +129,7 @@ export default function CampaignsIndexPage() {
     async function handleDelete(id: number) {
         if (!confirm('Delete this campaign?')) return;
         try {
-            const res = await fetch(`${backend}/companies/${hash}/campaigns/${id}`, {
-                method: 'DELETE',
-                headers: authHeaders(),
-            });
-            if (!res.ok && res.status !== 204) throw new Error(`Delete failed (${res.status})`);
+            await api.campaigns.remove(hash, id);
             // refetch or optimistic update
             setData(prev => prev ? {
                 ...prev,
@@ -187,7 +137,7 @@ export default function CampaignsIndexPage() {
                 meta: { ...prev.meta, total: Math.max(0, prev.meta.total - 1) },
             } : prev);
         } catch (e) {
-            alert(e instanceof Error ? e.message : String(e));
+            alert(errorMessage(e));
         }
     }
 
@@ -201,8 +151,8 @@ export default function CampaignsIndexPage() {
             draft: items.filter(c => c.status === 'draft').length,
             active: items.filter(c => ['scheduled', 'sending'].includes(c.status)).length,
             completed: items.filter(c => c.status === 'completed').length,
-            totalSent: items.reduce((sum, c) => sum + c.metrics.sent, 0),
-            totalOpens: items.reduce((sum, c) => sum + c.metrics.opens, 0),
+            totalSent: items.reduce((sum, c) => sum + (c.metrics?.sent ?? 0), 0),
+            totalOpens: items.reduce((sum, c) => sum + (c.metrics?.opens ?? 0), 0),
         };
     }, [data]);
 
@@ -270,13 +220,34 @@ export default function CampaignsIndexPage() {
                             </p>
                         </div>
                     </div>
-                    <Link
-                        href={createHref}
-                        className="inline-flex items-center gap-2 rounded-lg bg-gradient-to-r from-indigo-500 to-indigo-600 px-4 py-2 text-white font-medium hover:from-indigo-600 hover:to-indigo-700 transition-all shadow-sm"
-                    >
-                        <PlusIcon className="h-4 w-4" />
-                        New Campaign
-                    </Link>
+                    <div className="flex items-center gap-2">
+                        {selected.length > 0 && (
+                            <button
+                                type="button"
+                                onClick={() => setSelected([])}
+                                className="rounded-lg px-3 py-2 text-sm font-medium text-gray-600 hover:text-gray-900"
+                            >
+                                Clear selection
+                            </button>
+                        )}
+                        <button
+                            type="button"
+                            onClick={() => router.push(compareHref)}
+                            disabled={!canCompare}
+                            className="inline-flex items-center gap-2 rounded-lg bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm ring-1 ring-gray-200 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                            title={canCompare ? 'Compare selected campaigns' : `Select ${MIN_COMPARE}–${MAX_COMPARE} sent campaigns to compare`}
+                        >
+                            <ArrowsRightLeftIcon className="h-4 w-4" />
+                            Compare{selected.length > 0 ? ` (${selected.length})` : ''}
+                        </button>
+                        <Link
+                            href={createHref}
+                            className="inline-flex items-center gap-2 rounded-lg bg-gradient-to-r from-indigo-500 to-indigo-600 px-4 py-2 text-white font-medium hover:from-indigo-600 hover:to-indigo-700 transition-all shadow-sm"
+                        >
+                            <PlusIcon className="h-4 w-4" />
+                            New Campaign
+                        </Link>
+                    </div>
                 </div>
 
                 {/* Stats Cards */}
@@ -429,6 +400,9 @@ export default function CampaignsIndexPage() {
                         <table className="min-w-full text-sm">
                             <thead className="bg-gray-50 text-gray-700 border-b border-gray-200">
                             <tr className="text-left">
+                                <th className="px-4 py-3 w-10">
+                                    <span className="sr-only">Select</span>
+                                </th>
                                 <th className="px-4 py-3 font-semibold">Campaign Name</th>
                                 <th className="px-4 py-3 font-semibold">Subject</th>
                                 <th className="px-4 py-3 font-semibold">Status</th>
@@ -443,7 +417,7 @@ export default function CampaignsIndexPage() {
                             <tbody className="divide-y divide-gray-200">
                             {items.length === 0 ? (
                                 <tr>
-                                    <td className="px-4 py-12 text-center text-gray-500" colSpan={9}>
+                                    <td className="px-4 py-12 text-center text-gray-500" colSpan={10}>
                                         <div className="flex flex-col items-center">
                                             <EnvelopeSolid className="h-12 w-12 text-gray-400 mb-3" />
                                             <h3 className="text-lg font-semibold text-gray-900 mb-1">No campaigns found</h3>
@@ -465,6 +439,17 @@ export default function CampaignsIndexPage() {
                             ) : (
                                 items.map((c) => (
                                     <tr key={c.id} className="hover:bg-gray-50 transition-colors">
+                                        <td className="px-4 py-3">
+                                            <input
+                                                type="checkbox"
+                                                checked={selected.includes(c.id)}
+                                                onChange={() => toggleSelected(c.id)}
+                                                disabled={c.status === 'draft' || (!selected.includes(c.id) && selected.length >= MAX_COMPARE)}
+                                                className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 disabled:opacity-40"
+                                                aria-label={`Select ${c.name || 'campaign'} for comparison`}
+                                                title={c.status === 'draft' ? 'Drafts have no results to compare' : undefined}
+                                            />
+                                        </td>
                                         <td className="px-4 py-3">
                                             <div className="font-medium text-gray-900">
                                                 {c.name || <span className="text-gray-400 italic">(unnamed campaign)</span>}
@@ -492,8 +477,8 @@ export default function CampaignsIndexPage() {
                                         <td className="px-4 py-3 text-gray-600">{toLocale(c.created_at)}</td>
                                         <td className="px-4 py-3">
                                             <div className="text-xs text-gray-600">
-                                                <div className="font-medium">{c.metrics.sent.toLocaleString()} sent</div>
-                                                <div>{c.metrics.opens.toLocaleString()} opens • {c.metrics.clicks.toLocaleString()} clicks</div>
+                                                <div className="font-medium">{(c.metrics?.sent ?? 0).toLocaleString()} sent</div>
+                                                <div>{(c.metrics?.opens ?? 0).toLocaleString()} opens • {(c.metrics?.clicks ?? 0).toLocaleString()} clicks</div>
                                             </div>
                                         </td>
                                         <td className="px-4 py-3">
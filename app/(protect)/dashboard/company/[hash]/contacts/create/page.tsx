@@ -26,6 +26,7 @@ import {
 import Select, { SingleValue, type StylesConfig } from 'react-select';
 import TimezoneSelect, { ITimezone } from 'react-timezone-select';
 import type { MultiValue } from 'react-select';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
 
 type ListGroup = { id: number; name: string };
 type Option = { value: string; label: string };
@@ -124,7 +125,7 @@ const customSelectStyles: StylesConfig<Option, boolean> = {
 export default function ContactCreatePage() {
     const router = useRouter();
     const { hash } = useParams<{ hash: string }>();
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
+    const backend = BACKEND_URL;
     const [mounted, setMounted] = useState(false);
     useEffect(() => setMounted(true), []);
     // State
@@ -160,13 +161,6 @@ export default function ContactCreatePage() {
     const [saving, setSaving] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
-    const authHeaders = useMemo(() => {
-        return (): HeadersInit => {
-            const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-            return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-        };
-    }, []);
-
     const backHref = `/dashboard/company/${hash}/contacts`;
 
     const localeOption = useMemo(
@@ -192,7 +186,7 @@ export default function ContactCreatePage() {
         let abort = false;
         (async () => {
             try {
-                const res = await fetch(`${backend}/companies/${hash}/lists?perPage=200`, { headers: authHeaders() });
+                const res = await apiFetch(`${backend}/companies/${hash}/lists?perPage=200`);
                 if (!res.ok) throw new Error(`Failed to load lists (${res.status})`);
                 const json = (await res.json()) as ListsResponse;
                 if (!abort) {
@@ -206,7 +200,7 @@ export default function ContactCreatePage() {
             }
         })();
         return () => { abort = true; };
-    }, [backend, hash, authHeaders]);
+    }, [backend, hash]);
 
     // Email check
     async function checkEmailExists(value: string) {
@@ -217,10 +211,7 @@ export default function ContactCreatePage() {
         }
         setEmailCheck({ state: 'checking' });
         try {
-            const res = await fetch(
-                `${backend}/companies/${hash}/contacts?perPage=1&search=${encodeURIComponent(em)}`,
-                { headers: authHeaders() }
-            );
+            const res = await apiFetch(`${backend}/companies/${hash}/contacts?perPage=1&search=${encodeURIComponent(em)}`);
             if (!res.ok) throw new Error(String(res.status));
             const json = (await res.json()) as ContactsResponse;
             const items = Array.isArray(json?.items) ? json.items : [];
@@ -271,9 +262,8 @@ export default function ContactCreatePage() {
         if (!newListName.trim()) return;
         setCreatingList(true);
         try {
-            const res = await fetch(`${backend}/companies/${hash}/lists`, {
+            const res = await apiFetch(`${backend}/companies/${hash}/lists`, {
                 method: 'POST',
-                headers: authHeaders(),
                 body: JSON.stringify({ name: newListName.trim() }),
             });
             if (!res.ok) throw new Error(`Create list failed (${res.status})`);
@@ -322,9 +312,8 @@ export default function ContactCreatePage() {
                 ...(selectedListIds.length ? { list_ids: selectedListIds } : {}),
             };
 
-            const res = await fetch(`${backend}/companies/${hash}/contacts`, {
+            const res = await apiFetch(`${backend}/companies/${hash}/contacts`, {
                 method: 'POST',
-                headers: authHeaders(),
                 body: JSON.stringify(body),
             });
             if (!res.ok) throw new Error(`Create contact failed (${res.status})`);
@@ -19,6 +19,7 @@ import {
     TagIcon,
     DocumentTextIcon,
 } from '@heroicons/react/24/outline';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
 
 type Contact = {
     id: number;
@@ -163,14 +164,7 @@ export default function ContactDetailPage() {
     const { hash } = useParams<{ hash: string }>();
     const search = useSearchParams();
 
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
-    const authHeaders = useMemo(
-        () => (): HeadersInit => {
-            const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-            return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-        },
-        []
-    );
+    const backend = BACKEND_URL;
 
     const emailQuery = (search.get('email') || '').trim();
 
@@ -206,7 +200,7 @@ export default function ContactDetailPage() {
 
             try {
                 const url = `${backend}/companies/contacts/${hash}/lookup?email=${encodeURIComponent(emailQuery)}`;
-                const res = await fetch(url, { headers: authHeaders() });
+                const res = await apiFetch(url);
                 if (!res.ok) {
                     if (res.status === 404) throw new Error('Contact not found.');
                     throw new Error(`Failed to load contact (${res.status})`);
@@ -226,16 +220,15 @@ export default function ContactDetailPage() {
         return () => {
             abort = true;
         };
-    }, [backend, hash, emailQuery, authHeaders]);
+    }, [backend, hash, emailQuery]);
 
     async function onDelete() {
         if (!contact) return;
         setDeleting(true);
         setErr(null);
         try {
-            const res = await fetch(`${backend}/companies/${hash}/contacts/${contact.id}`, {
+            const res = await apiFetch(`${backend}/companies/${hash}/contacts/${contact.id}`, {
                 method: 'DELETE',
-                headers: authHeaders(),
             });
             if (!res.ok && res.status !== 204) throw new Error(`Delete failed (${res.status})`);
             showToast('success', 'Contact deleted successfully');
@@ -23,6 +23,7 @@ import {
 } from '@heroicons/react/24/solid';
 import Select, { SingleValue, StylesConfig } from 'react-select';
 import TimezoneSelect, { ITimezone } from 'react-timezone-select';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
 
 type Contact = {
     id: number;
@@ -120,13 +121,7 @@ export default function ContactEditByEmailPage() {
     const search = useSearchParams();
     const emailQuery = (search.get('email') || '').trim();
 
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL!;
-    const authHeaders = useMemo(() => {
-        return (): HeadersInit => {
-            const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-            return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-        };
-    }, []);
+    const backend = BACKEND_URL;
 
     // State
     const [contact, setContact] = useState<Contact | null>(null);
@@ -173,7 +168,7 @@ export default function ContactEditByEmailPage() {
         (async () => {
             setLoadingLists(true);
             try {
-                const res = await fetch(`${backend}/companies/${hash}/lists?perPage=200`, { headers: authHeaders() });
+                const res = await apiFetch(`${backend}/companies/${hash}/lists?perPage=200`);
                 if (!res.ok) throw new Error(`Failed to load lists (${res.status})`);
                 const json = (await res.json()) as ListsResponse;
                 if (!abort) {
@@ -187,7 +182,7 @@ export default function ContactEditByEmailPage() {
             }
         })();
         return () => { abort = true; };
-    }, [backend, hash, authHeaders]);
+    }, [backend, hash]);
 
     // Load contact
     useEffect(() => {
@@ -198,7 +193,7 @@ export default function ContactEditByEmailPage() {
             try {
                 if (!emailQuery) throw new Error('Email query parameter is required.');
                 const url = `${backend}/companies/contacts/${hash}/lookup?email=${encodeURIComponent(emailQuery)}`;
-                const res = await fetch(url, { headers: authHeaders() });
+                const res = await apiFetch(url);
                 if (!res.ok) {
                     if (res.status === 404) throw new Error('Contact not found.');
                     const t = await res.text();
@@ -234,7 +229,7 @@ export default function ContactEditByEmailPage() {
             }
         })();
         return () => { abort = true; };
-    }, [backend, hash, emailQuery, authHeaders]);
+    }, [backend, hash, emailQuery]);
 
     // Options for add list dropdown
     const addListOptions = useMemo(() => {
@@ -260,9 +255,9 @@ export default function ContactEditByEmailPage() {
         if (!contact) return;
         setSelectedListIds(ids => ids.filter(id => id !== listId));
         try {
-            const res = await fetch(
+            const res = await apiFetch(
                 `${backend}/companies/${hash}/lists/${listId}/contacts/${contact.id}`,
-                { method: 'DELETE', headers: authHeaders() }
+                { method: 'DELETE' }
             );
             if (!res.ok && res.status !== 204) {
                 setSelectedListIds(ids => Array.from(new Set([...ids, listId])));
@@ -279,9 +274,8 @@ export default function ContactEditByEmailPage() {
         if (!newListName.trim()) return;
         setCreatingList(true);
         try {
-            const res = await fetch(`${backend}/companies/${hash}/lists`, {
+            const res = await apiFetch(`${backend}/companies/${hash}/lists`, {
                 method: 'POST',
-                headers: authHeaders(),
                 body: JSON.stringify({ name: newListName.trim() }),
             });
             if (!res.ok) throw new Error(`Create list failed (${res.status})`);
@@ -321,9 +315,8 @@ export default function ContactEditByEmailPage() {
                 list_ids: validIds,
             };
 
-            const res = await fetch(`${backend}/companies/${hash}/contacts/${contact.id}`, {
+            const res = await apiFetch(`${backend}/companies/${hash}/contacts/${contact.id}`, {
                 method: 'PATCH',
-                headers: authHeaders(),
                 body: JSON.stringify(body),
             });
             if (!res.ok) throw new Error(`Save failed (${res.status})`);
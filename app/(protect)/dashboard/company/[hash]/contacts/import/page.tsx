@@ -21,6 +21,7 @@ import {
 } from '@heroicons/react/24/outline';
 import { CheckCircleIcon as CheckCircleSolid } from '@heroicons/react/24/solid';
 import Select, { type MultiValue, type StylesConfig } from 'react-select';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
 
 type ListGroup = { id: number; name: string };
 type ListsResponse = { items?: Array<{ id: number; name: string }> };
@@ -124,7 +125,7 @@ function StatCard({
 export default function ContactCsvImportPage() {
     const router = useRouter();
     const { hash } = useParams<{ hash: string }>();
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
+    const backend = BACKEND_URL;
 
     const fileInputRef = useRef<HTMLInputElement | null>(null);
 
@@ -157,13 +158,6 @@ export default function ContactCsvImportPage() {
         total: number;
     }>(null);
 
-    const authHeaders = useMemo(() => {
-        return (): HeadersInit => {
-            const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-            return token ? { Authorization: `Bearer ${token}` } : {};
-        };
-    }, []);
-
     const backHref = `/dashboard/company/${hash}/contacts`;
 
     function showToast(kind: 'info' | 'success' | 'error', text: string) {
@@ -176,7 +170,7 @@ export default function ContactCsvImportPage() {
         let abort = false;
         (async () => {
             try {
-                const res = await fetch(`${backend}/companies/${hash}/lists?perPage=200`, { headers: authHeaders() });
+                const res = await apiFetch(`${backend}/companies/${hash}/lists?perPage=200`);
                 if (!res.ok) throw new Error(`Failed to load lists (${res.status})`);
                 const json = (await res.json()) as ListsResponse;
                 if (!abort) {
@@ -192,7 +186,7 @@ export default function ContactCsvImportPage() {
         return () => {
             abort = true;
         };
-    }, [backend, hash, authHeaders]);
+    }, [backend, hash]);
 
     const listOptions = useMemo<Option[]>(
         () => lists.map((l) => ({ value: String(l.id), label: l.name })),
@@ -288,9 +282,8 @@ export default function ContactCsvImportPage() {
 
         setUploading(true);
         try {
-            const res = await fetch(`${backend}/companies/${hash}/contacts-import`, {
+            const res = await apiFetch(`${backend}/companies/${hash}/contacts-import`, {
                 method: 'POST',
-                headers: authHeaders(),
                 body: form,
             });
 
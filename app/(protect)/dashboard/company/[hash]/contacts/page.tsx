@@ -24,6 +24,8 @@ import {
 import {
     CheckCircleIcon as CheckCircleSolid,
 } from '@heroicons/react/24/solid';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
+import type { ApiPaged } from '@/lib/api';
 
 type ContactItem = {
     id: number;
@@ -34,11 +36,6 @@ type ContactItem = {
     created_at: string | null;
 };
 
-type ApiListResponse<T> = {
-    meta: { page: number; perPage: number; total: number; totalPages: number };
-    items: T[];
-};
-
 /* ---------- Components ---------- */
 function StatCard({
                       label,
@@ -221,19 +218,14 @@ export default function ContactsListPage() {
     // Local state
     const [searchTerm, setSearchTerm] = useState(qFromUrl);
     const [viewMode, setViewMode] = useState<'grid' | 'table'>('table');
-    const [data, setData] = useState<ApiListResponse<ContactItem> | null>(null);
+    const [data, setData] = useState<ApiPaged<ContactItem> | null>(null);
     const [loading, setLoading] = useState(true);
     const [err, setErr] = useState<string | null>(null);
     const [deletingId, setDeletingId] = useState<number | null>(null);
     const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
     const [isBulkDeleting, setIsBulkDeleting] = useState(false);
 
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
-
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
+    const backend = BACKEND_URL;
 
     useEffect(() => setSearchTerm(qFromUrl), [qFromUrl]);
 
@@ -252,9 +244,9 @@ export default function ContactsListPage() {
             setLoading(true);
             setErr(null);
             try {
-                const res = await fetch(listUrl, { headers: authHeaders() });
+                const res = await apiFetch(listUrl);
                 if (!res.ok) throw new Error(`Failed to load contacts (${res.status})`);
-                const json: ApiListResponse<ContactItem> = await res.json();
+                const json: ApiPaged<ContactItem> = await res.json();
                 if (!abort) setData(json);
             } catch (e) {
                 if (!abort) setErr(e instanceof Error ? e.message : String(e));
@@ -294,7 +286,7 @@ export default function ContactsListPage() {
         setDeletingId(id);
         try {
             const url = `${backend}/companies/${hash}/contacts/${id}`;
-            const res = await fetch(url, { method: 'DELETE', headers: authHeaders() });
+            const res = await apiFetch(url, { method: 'DELETE' });
             if (!res.ok && res.status !== 204) throw new Error(`Delete failed (${res.status})`);
             setData(prev => prev
                 ? { ...prev, items: prev.items.filter(i => i.id !== id), meta: { ...prev.meta, total: prev.meta.total - 1 } }
@@ -325,7 +317,7 @@ export default function ContactsListPage() {
         for (const id of selectedIds) {
             try {
                 const url = `${backend}/companies/${hash}/contacts/${id}`;
-                const res = await fetch(url, { method: 'DELETE', headers: authHeaders() });
+                const res = await apiFetch(url, { method: 'DELETE' });
                 if (!res.ok && res.status !== 204) {
                     errors.push(`Contact ${id}: ${res.status}`);
                 } else {
@@ -22,6 +22,7 @@ import {
     ResponsiveContainer, BarChart, Bar, CartesianGrid, XAxis, YAxis, Tooltip, Legend,
     PieChart, Pie, Cell,
 } from "recharts";
+import { api, errorMessage, isAbortError } from "@/lib/api";
 
 /* ================= Types ================= */
 type DmarcPolicy = { adkim?: string|null; aspf?: string|null; p?: string|null; sp?: string|null; pct?: number|null };
@@ -65,7 +66,6 @@ type DispBar = { disposition: string; count: number };
 type PieDatum = { name: "Pass (aligned)" | "SPF fail" | "DKIM fail" | "Other"; value: number };
 
 /* ================= Constants & Helpers ================= */
-const backend = process.env.NEXT_PUBLIC_BACKEND_URL || "";
 const QUICK_RANGES = [
     { label: 'Last 7 Days', days: 7 },
     { label: 'Last 14 Days', days: 14 },
@@ -90,11 +90,6 @@ const pieSliceLabel = ({ value, percent }: PieLabelInput) => {
 const tooltipFormatter = (val: number | string) =>
     typeof val === "number" ? val.toLocaleString() : String(val);
 
-function authHeaders(): HeadersInit {
-    const token = typeof window !== "undefined" ? localStorage.getItem("jwt") : null;
-    return { "Content-Type": "application/json", ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-}
-
 function fmt(n?: number|null) {
     return n == null || Number.isNaN(n) ? "0" : new Intl.NumberFormat().format(n);
 }
@@ -311,26 +306,21 @@ export default function CompanyDmarcReportPage() {
 
     // Fetch data
     useEffect(() => {
-        let aborted = false;
+        const controller = new AbortController();
         (async () => {
             try {
                 setLoading(true);
                 setError(null);
-                const url = `${backend}/companies/${hash}/reports/dmarc?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`;
-                const res = await fetch(url, { headers: authHeaders() });
-                if (!res.ok) throw new Error(`Failed: ${res.status}`);
-                const json: CompanyDmarcResponse = await res.json();
-                if (aborted) return;
+                const json = await api.reports.dmarc<CompanyDmarcResponse>(hash, { from, to }, { signal: controller.signal });
                 setData(json);
                 setActiveDomainId(prev => prev ?? json.domains?.[0]?.id ?? null);
             } catch (e) {
-                const msg = e instanceof Error ? e.message : "Failed to load DMARC data";
-                if (!aborted) setError(msg);
+                if (!isAbortError(e)) setError(errorMessage(e, "Failed to load DMARC data"));
             } finally {
-                if (!aborted) setLoading(false);
+                if (!controller.signal.aborted) setLoading(false);
             }
         })();
-        return () => { aborted = true; };
+        return () => controller.abort();
     }, [hash, from, to]);
 
     const applyQuickRange = (days: number) => {
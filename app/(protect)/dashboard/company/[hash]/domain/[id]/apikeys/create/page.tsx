@@ -19,6 +19,8 @@ import {
 } from "@heroicons/react/24/outline";
 import { ExclamationTriangleIcon } from "@heroicons/react/24/solid";
 import copy from "copy-to-clipboard";
+import { BACKEND_URL, apiFetch } from "@/lib/api";
+import Can, { AccessDenied } from "@/components/company/Can";
 
 interface ApiError {
     error: true;
@@ -48,9 +50,6 @@ export default function CreateDomainApiKeyPage() {
     const [secret, setSecret] = useState<string | null>(null);
     const [copied, setCopied] = useState(false);
 
-    const getToken = () =>
-        typeof window !== "undefined" ? localStorage.getItem("jwt") : null;
-
     const toggleScope = (scope: string) => {
         setSelectedScopes((prev) =>
             prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]
@@ -95,15 +94,10 @@ export default function CreateDomainApiKeyPage() {
         };
 
         try {
-            const token = getToken();
-            const res = await fetch(
-                `${process.env.NEXT_PUBLIC_BACKEND_URL}/companies/${hash}/domains/${domainId}/apikeys`,
+            const res = await apiFetch(
+                `${BACKEND_URL}/companies/${hash}/domains/${domainId}/apikeys`,
                 {
                     method: "POST",
-                    headers: {
-                        "Content-Type": "application/json",
-                        ...(token ? { Authorization: `Bearer ${token}` } : {}),
-                    },
                     body: JSON.stringify(payload),
                 }
             );
@@ -294,162 +288,164 @@ export default function CreateDomainApiKeyPage() {
                     </div>
                 )}
 
-                <form onSubmit={handleSubmit} className="space-y-6">
-                    {/* Key Label */}
-                    <div className="rounded-xl bg-white shadow-sm ring-1 ring-gray-200 overflow-hidden">
-                        <div className="bg-gradient-to-r from-blue-500 to-blue-600 px-6 py-4">
-                            <div className="flex items-center gap-2 text-white">
-                                <DocumentTextIcon className="h-5 w-5" />
-                                <h3 className="text-sm font-semibold uppercase tracking-wider">Key Details</h3>
+                <Can permission="apikey.manage" fallback={<AccessDenied />}>
+                    <form onSubmit={handleSubmit} className="space-y-6">
+                        {/* Key Label */}
+                        <div className="rounded-xl bg-white shadow-sm ring-1 ring-gray-200 overflow-hidden">
+                            <div className="bg-gradient-to-r from-blue-500 to-blue-600 px-6 py-4">
+                                <div className="flex items-center gap-2 text-white">
+                                    <DocumentTextIcon className="h-5 w-5" />
+                                    <h3 className="text-sm font-semibold uppercase tracking-wider">Key Details</h3>
+                                </div>
+                            </div>
+                            <div className="p-6">
+                                <div>
+                                    <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+                                        <SparklesIcon className="h-4 w-4 text-gray-400" />
+                                        Label
+                                        <span className="text-red-500">*</span>
+                                    </label>
+                                    <input
+                                        type="text"
+                                        value={label}
+                                        onChange={(e) => setLabel(e.target.value)}
+                                        className="w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                                        placeholder="e.g., Production API Key, CI/CD Integration"
+                                        required
+                                    />
+                                    {apiError?.fields?.label && (
+                                        <p className="mt-2 text-sm text-red-600">{apiError.fields.label}</p>
+                                    )}
+                                    <p className="mt-2 text-xs text-gray-500">
+                                        Choose a descriptive name to help you identify this key later
+                                    </p>
+                                </div>
                             </div>
                         </div>
-                        <div className="p-6">
-                            <div>
-                                <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
-                                    <SparklesIcon className="h-4 w-4 text-gray-400" />
-                                    Label
-                                    <span className="text-red-500">*</span>
-                                </label>
-                                <input
-                                    type="text"
-                                    value={label}
-                                    onChange={(e) => setLabel(e.target.value)}
-                                    className="w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
-                                    placeholder="e.g., Production API Key, CI/CD Integration"
-                                    required
-                                />
-                                {apiError?.fields?.label && (
-                                    <p className="mt-2 text-sm text-red-600">{apiError.fields.label}</p>
+
+                        {/* Scopes */}
+                        <div className="rounded-xl bg-white shadow-sm ring-1 ring-gray-200 overflow-hidden">
+                            <div className="bg-gradient-to-r from-purple-500 to-purple-600 px-6 py-4">
+                                <div className="flex items-center justify-between">
+                                    <div className="flex items-center gap-2 text-white">
+                                        <ShieldCheckIcon className="h-5 w-5" />
+                                        <h3 className="text-sm font-semibold uppercase tracking-wider">Permissions</h3>
+                                    </div>
+                                    <button
+                                        type="button"
+                                        onClick={handleSelectAll}
+                                        className="inline-flex items-center gap-1 rounded-lg bg-white/20 px-3 py-1 text-xs font-medium text-white hover:bg-white/30 transition-colors"
+                                    >
+                                        {selectAll ? (
+                                            <>
+                                                <CheckCircleIcon className="h-3.5 w-3.5" />
+                                                Deselect All
+                                            </>
+                                        ) : (
+                                            <>
+                                                <CheckCircleIcon className="h-3.5 w-3.5" />
+                                                Select All
+                                            </>
+                                        )}
+                                    </button>
+                                </div>
+                            </div>
+                            <div className="p-6">
+                                <div className="space-y-3">
+                                    {AVAILABLE_SCOPES.map((scope) => {
+                                        const isChecked = selectedScopes.includes(scope.value);
+                                        const Icon = scope.icon;
+                                        return (
+                                            <label
+                                                key={scope.value}
+                                                className={`relative flex items-start gap-3 rounded-lg p-3 cursor-pointer transition-all ${
+                                                    isChecked
+                                                        ? 'bg-indigo-50 ring-2 ring-indigo-500'
+                                                        : 'bg-gray-50 hover:bg-gray-100 ring-1 ring-gray-200'
+                                                }`}
+                                            >
+                                                <input
+                                                    type="checkbox"
+                                                    checked={isChecked}
+                                                    onChange={() => toggleScope(scope.value)}
+                                                    className="sr-only"
+                                                />
+                                                <div className={`rounded-lg p-2 ${
+                                                    isChecked ? 'bg-indigo-500 text-white' : 'bg-white text-gray-400'
+                                                }`}>
+                                                    <Icon className="h-4 w-4" />
+                                                </div>
+                                                <div className="flex-1">
+                                                    <div className={`text-sm font-medium ${
+                                                        isChecked ? 'text-indigo-900' : 'text-gray-900'
+                                                    }`}>
+                                                        {scope.label}
+                                                    </div>
+                                                    <div className={`text-xs ${
+                                                        isChecked ? 'text-indigo-700' : 'text-gray-500'
+                                                    }`}>
+                                                        {scope.description}
+                                                    </div>
+                                                </div>
+                                                {isChecked && (
+                                                    <div className="absolute top-3 right-3">
+                                                        <CheckIcon className="h-5 w-5 text-indigo-500" />
+                                                    </div>
+                                                )}
+                                            </label>
+                                        );
+                                    })}
+                                </div>
+                                {apiError?.fields?.scopes && (
+                                    <p className="mt-3 text-sm text-red-600">{apiError.fields.scopes}</p>
                                 )}
-                                <p className="mt-2 text-xs text-gray-500">
-                                    Choose a descriptive name to help you identify this key later
-                                </p>
+                                <div className="mt-4 rounded-lg bg-gray-50 border border-gray-200 p-3">
+                                    <p className="text-xs text-gray-600">
+                                        <LockClosedIcon className="inline h-3.5 w-3.5 mr-1" />
+                                        Selected permissions determine what operations this API key can perform. You can create multiple keys with different permission sets for various use cases.
+                                    </p>
+                                </div>
                             </div>
                         </div>
-                    </div>
 
-                    {/* Scopes */}
-                    <div className="rounded-xl bg-white shadow-sm ring-1 ring-gray-200 overflow-hidden">
-                        <div className="bg-gradient-to-r from-purple-500 to-purple-600 px-6 py-4">
-                            <div className="flex items-center justify-between">
-                                <div className="flex items-center gap-2 text-white">
-                                    <ShieldCheckIcon className="h-5 w-5" />
-                                    <h3 className="text-sm font-semibold uppercase tracking-wider">Permissions</h3>
-                                </div>
+                        {/* Actions */}
+                        <div className="flex items-center justify-between rounded-xl bg-white shadow-sm ring-1 ring-gray-200 p-6">
+                            <div className="text-sm text-gray-600">
+                                <KeyIcon className="inline h-4 w-4 mr-1" />
+                                {selectedScopes.length} permission{selectedScopes.length !== 1 ? 's' : ''} selected
+                            </div>
+                            <div className="flex items-center gap-3">
                                 <button
                                     type="button"
-                                    onClick={handleSelectAll}
-                                    className="inline-flex items-center gap-1 rounded-lg bg-white/20 px-3 py-1 text-xs font-medium text-white hover:bg-white/30 transition-colors"
+                                    onClick={() => router.back()}
+                                    className="inline-flex items-center gap-2 rounded-lg bg-gray-100 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-200 transition-colors"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={saving}
+                                    className="inline-flex items-center gap-2 rounded-lg bg-gradient-to-r from-indigo-500 to-indigo-600 px-4 py-2 text-sm font-medium text-white hover:from-indigo-600 hover:to-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-sm"
                                 >
-                                    {selectAll ? (
+                                    {saving ? (
                                         <>
-                                            <CheckCircleIcon className="h-3.5 w-3.5" />
-                                            Deselect All
+                                            <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                                                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                                            </svg>
+                                            Creating...
                                         </>
                                     ) : (
                                         <>
-                                            <CheckCircleIcon className="h-3.5 w-3.5" />
-                                            Select All
+                                            <KeyIcon className="h-4 w-4" />
+                                            Create API Key
                                         </>
                                     )}
                                 </button>
                             </div>
                         </div>
-                        <div className="p-6">
-                            <div className="space-y-3">
-                                {AVAILABLE_SCOPES.map((scope) => {
-                                    const isChecked = selectedScopes.includes(scope.value);
-                                    const Icon = scope.icon;
-                                    return (
-                                        <label
-                                            key={scope.value}
-                                            className={`relative flex items-start gap-3 rounded-lg p-3 cursor-pointer transition-all ${
-                                                isChecked
-                                                    ? 'bg-indigo-50 ring-2 ring-indigo-500'
-                                                    : 'bg-gray-50 hover:bg-gray-100 ring-1 ring-gray-200'
-                                            }`}
-                                        >
-                                            <input
-                                                type="checkbox"
-                                                checked={isChecked}
-                                                onChange={() => toggleScope(scope.value)}
-                                                className="sr-only"
-                                            />
-                                            <div className={`rounded-lg p-2 ${
-                                                isChecked ? 'bg-indigo-500 text-white' : 'bg-white text-gray-400'
-                                            }`}>
-                                                <Icon className="h-4 w-4" />
-                                            </div>
-                                            <div className="flex-1">
-                                                <div className={`text-sm font-medium ${
-                                                    isChecked ? 'text-indigo-900' : 'text-gray-900'
-                                                }`}>
-                                                    {scope.label}
-                                                </div>
-                                                <div className={`text-xs ${
-                                                    isChecked ? 'text-indigo-700' : 'text-gray-500'
-                                                }`}>
-                                                    {scope.description}
-                                                </div>
-                                            </div>
-                                            {isChecked && (
-                                                <div className="absolute top-3 right-3">
-                                                    <CheckIcon className="h-5 w-5 text-indigo-500" />
-                                                </div>
-                                            )}
-                                        </label>
-                                    );
-                                })}
-                            </div>
-                            {apiError?.fields?.scopes && (
-                                <p className="mt-3 text-sm text-red-600">{apiError.fields.scopes}</p>
-                            )}
-                            <div className="mt-4 rounded-lg bg-gray-50 border border-gray-200 p-3">
-                                <p className="text-xs text-gray-600">
-                                    <LockClosedIcon className="inline h-3.5 w-3.5 mr-1" />
-                                    Selected permissions determine what operations this API key can perform. You can create multiple keys with different permission sets for various use cases.
-                                </p>
-                            </div>
-                        </div>
-                    </div>
-
-                    {/* Actions */}
-                    <div className="flex items-center justify-between rounded-xl bg-white shadow-sm ring-1 ring-gray-200 p-6">
-                        <div className="text-sm text-gray-600">
-                            <KeyIcon className="inline h-4 w-4 mr-1" />
-                            {selectedScopes.length} permission{selectedScopes.length !== 1 ? 's' : ''} selected
-                        </div>
-                        <div className="flex items-center gap-3">
-                            <button
-                                type="button"
-                                onClick={() => router.back()}
-                                className="inline-flex items-center gap-2 rounded-lg bg-gray-100 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-200 transition-colors"
-                            >
-                                Cancel
-                            </button>
-                            <button
-                                type="submit"
-                                disabled={saving}
-                                className="inline-flex items-center gap-2 rounded-lg bg-gradient-to-r from-indigo-500 to-indigo-600 px-4 py-2 text-sm font-medium text-white hover:from-indigo-600 hover:to-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-sm"
-                            >
-                                {saving ? (
-                                    <>
-                                        <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                                        </svg>
-                                        Creating...
-                                    </>
-                                ) : (
-                                    <>
-                                        <KeyIcon className="h-4 w-4" />
-                                        Create API Key
-                                    </>
-                                )}
-                            </button>
-                        </div>
-                    </div>
-                </form>
+                    </form>
+                </Can>
             </div>
         </div>
     );
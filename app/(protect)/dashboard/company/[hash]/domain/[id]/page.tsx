@@ -4,6 +4,7 @@ import React, { Fragment } from 'react';
 import Link from 'next/link';
 import { useParams, useRouter, usePathname, useSearchParams } from 'next/navigation';
 import { normalizeMx } from '@/utils/dns';
+import { api, ApiError, errorMessage } from '@/lib/api';
 import {
     ArrowLeftIcon,
     TrashIcon,
@@ -34,6 +35,7 @@ import type { DomainDetail } from '@/types/domain';
 import GeneralInfoTab from '@/components/domain/tabs/GeneralInfoTab';
 import RecordsTab from '@/components/domain/tabs/RecordsTab';
 import KeysTab from '@/components/domain/tabs/KeysTab';
+import Can from '@/components/company/Can';
 
 /* ---------- Status typing & helpers ---------- */
 type DomainStatus = 'active' | 'pending' | 'failed' | 'unknown';
@@ -151,30 +153,20 @@ export default function DomainDetailPage() {
         setActiveTab(paramTab);
     }, [paramTab]);
 
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
-
     // Initial load
     React.useEffect(() => {
         (async () => {
             try {
-                const res = await fetch(
-                    `${process.env.NEXT_PUBLIC_BACKEND_URL}/companies/${hash}/domains/${id}`,
-                    { headers: authHeaders() }
-                );
-                if (res.status === 403 || res.status === 401) {
-                    setError("You don't have access to this domain.");
-                    return;
-                }
-                if (!res.ok) throw new Error(`Failed to load domain: ${res.status}`);
-                const data: DomainDetail = await res.json();
+                const data = await api.domains.get(hash, Number(id));
                 const mx = normalizeMx(data?.records?.mx_expected);
                 const fixed: DomainDetail = { ...data, records: { ...data.records, mx_expected: mx } };
                 setDetail(fixed);
             } catch (e) {
-                setError(e instanceof Error ? e.message : 'Failed to load domain');
+                if (e instanceof ApiError && (e.status === 403 || e.status === 401)) {
+                    setError("You don't have access to this domain.");
+                    return;
+                }
+                setError(errorMessage(e, 'Failed to load domain'));
             } finally {
                 setLoading(false);
             }
@@ -185,21 +177,12 @@ export default function DomainDetailPage() {
     const refreshDomain = async () => {
         setRefreshing(true);
         try {
-            await fetch(
-                `${process.env.NEXT_PUBLIC_BACKEND_URL}/companies/${hash}/domains/${id}/verify`,
-                { method: 'POST', headers: authHeaders() }
-            );
-
-            const res = await fetch(
-                `${process.env.NEXT_PUBLIC_BACKEND_URL}/companies/${hash}/domains/${id}`,
-                { headers: authHeaders() }
-            );
-            if (!res.ok) throw new Error(`Failed to load domain: ${res.status}`);
-            const data: DomainDetail = await res.json();
+            await api.domains.verify(hash, Number(id)).catch(() => undefined);
+            const data = await api.domains.get(hash, Number(id));
             const mx = normalizeMx(data?.records?.mx_expected);
             setDetail({ ...data, records: { ...data.records, mx_expected: mx } });
         } catch (e) {
-            setError(e instanceof Error ? e.message : 'Failed to refresh');
+            setError(errorMessage(e, 'Failed to refresh'));
         } finally {
             setRefreshing(false);
         }
@@ -210,21 +193,10 @@ export default function DomainDetailPage() {
         setDeleteBusy(true);
         setDeleteError(null);
         try {
-            const res = await fetch(
-                `${process.env.NEXT_PUBLIC_BACKEND_URL}/companies/${hash}/domains/${detail.id}`,
-                { method: 'DELETE', headers: authHeaders() }
-            );
-            if (!res.ok && res.status !== 204) {
-                let msg = `Delete failed: ${res.status}`;
-                try {
-                    const j = await res.json();
-                    if (j?.message) msg = j.message;
-                } catch {}
-                throw new Error(msg);
-            }
+            await api.domains.remove(hash, detail.id);
             router.push(`/dashboard/company/${hash}/domain`);
         } catch (err) {
-            setDeleteError(err instanceof Error ? err.message : String(err));
+            setDeleteError(errorMessage(err));
             setDeleteBusy(false);
         }
     }
@@ -338,40 +310,42 @@ export default function DomainDetailPage() {
                             {company.name || 'Company'}
                         </Link>
 
-                        <Menu as="div" className="relative inline-block text-left">
-                            <Menu.Button className="inline-flex items-center gap-2 rounded-lg bg-white px-3 py-2 text-sm font-medium text-gray-700 shadow-sm ring-1 ring-gray-200 hover:bg-gray-50 transition-all">
-                                <EllipsisHorizontalIcon className="h-4 w-4" />
-                            </Menu.Button>
-
-                            <Transition
-                                as={Fragment}
-                                enter="transition ease-out duration-100"
-                                enterFrom="transform opacity-0 scale-95"
-                                enterTo="transform opacity-100 scale-100"
-                                leave="transition ease-in duration-75"
-                                leaveFrom="opacity-100 scale-100"
-                                leaveTo="opacity-0 scale-95"
-                            >
-                                <Menu.Items className="absolute right-0 z-10 mt-2 w-48 origin-top-right rounded-lg bg-white shadow-lg ring-1 ring-gray-200 focus:outline-none">
-                                    <div className="p-1">
-                                        <Menu.Item>
-                                            {({ active }) => (
-                                                <button
-                                                    type="button"
-                                                    onClick={() => setConfirmOpen(true)}
-                                                    className={`w-full rounded-md px-3 py-2 text-left text-sm inline-flex items-center gap-2 transition-colors ${
-                                                        active ? 'bg-red-50 text-red-700' : 'text-red-600'
-                                                    }`}
-                                                >
-                                                    <TrashIcon className="h-4 w-4" />
-                                                    Delete Domain
-                                                </button>
-                                            )}
-                                        </Menu.Item>
-                                    </div>
-                                </Menu.Items>
-                            </Transition>
-                        </Menu>
+                        <Can permission="domain.manage">
+                            <Menu as="div" className="relative inline-block text-left">
+                                <Menu.Button className="inline-flex items-center gap-2 rounded-lg bg-white px-3 py-2 text-sm font-medium text-gray-700 shadow-sm ring-1 ring-gray-200 hover:bg-gray-50 transition-all">
+                                    <EllipsisHorizontalIcon className="h-4 w-4" />
+                                </Menu.Button>
+
+                                <Transition
+                                    as={Fragment}
+                                    enter="transition ease-out duration-100"
+                                    enterFrom="transform opacity-0 scale-95"
+                                    enterTo="transform opacity-100 scale-100"
+                                    leave="transition ease-in duration-75"
+                                    leaveFrom="opacity-100 scale-100"
+                                    leaveTo="opacity-0 scale-95"
+                                >
+                                    <Menu.Items className="absolute right-0 z-10 mt-2 w-48 origin-top-right rounded-lg bg-white shadow-lg ring-1 ring-gray-200 focus:outline-none">
+                                        <div className="p-1">
+                                            <Menu.Item>
+                                                {({ active }) => (
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => setConfirmOpen(true)}
+                                                        className={`w-full rounded-md px-3 py-2 text-left text-sm inline-flex items-center gap-2 transition-colors ${
+                                                            active ? 'bg-red-50 text-red-700' : 'text-red-600'
+                                                        }`}
+                                                    >
+                                                        <TrashIcon className="h-4 w-4" />
+                                                        Delete Domain
+                                                    </button>
+                                                )}
+                                            </Menu.Item>
+                                        </div>
+                                    </Menu.Items>
+                                </Transition>
+                            </Menu>
+                        </Can>
                     </div>
                 </div>
 
@@ -472,10 +446,8 @@ export default function DomainDetailPage() {
                                     </p>
                                 </div>
                                 <KeysTab
-                                    backendUrl={process.env.NEXT_PUBLIC_BACKEND_URL as string}
                                     companyHash={company.hash}
                                     domainId={detail.id}
-                                    authHeaders={authHeaders}
                                 />
                             </div>
                         )}
@@ -10,6 +10,8 @@ import {
     PlusIcon,
     XMarkIcon,
 } from '@heroicons/react/24/outline';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
+import Can, { AccessDenied } from '@/components/company/Can';
 
 /* ----------------------------- Types ----------------------------- */
 
@@ -90,15 +92,7 @@ export default function CreateDomainPage() {
     const params = useParams<{ hash: string }>();
     const hash = params.hash;
 
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
-
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return {
-            'Content-Type': 'application/json',
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        };
-    };
+    const backend = BACKEND_URL;
 
     const backHref = `/dashboard/company/${hash}/domain`;
 
@@ -130,9 +124,8 @@ export default function CreateDomainPage() {
         setApiError(null);
 
         try {
-            const res = await fetch(`${backend}/companies/${hash}/domains`, {
+            const res = await apiFetch(`${backend}/companies/${hash}/domains`, {
                 method: 'POST',
-                headers: authHeaders(),
 
                 body: JSON.stringify({ domain: domain.trim().toLowerCase() }),
             });
@@ -193,47 +186,49 @@ export default function CreateDomainPage() {
                 </div>
 
                 {/* Create Domain */}
-                <GradientSection icon={<GlobeAltIcon className="h-5 w-5" />} title="Domain Details" from="from-blue-500" to="to-blue-600">
-                    <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-2">
-                            <GlobeAltIcon className="inline h-4 w-4 mr-1 text-gray-400" />
-                            Domain *
-                        </label>
-                        <input
-                            value={domain}
-                            onChange={(e) => setDomain(e.target.value)}
-                            placeholder="example.com"
-                            className="w-full rounded-lg border border-gray-300 px-3 py-2 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/20 transition-all"
-                            inputMode="url"
-                            autoCapitalize="none"
-                            autoCorrect="off"
-                            spellCheck={false}
-                            disabled={saving}
-                        />
-                        {domainErr && (
-                            <p className="mt-2 text-sm text-rose-700 flex items-start gap-2">
-                                <ExclamationTriangleIcon className="h-4 w-4 mt-0.5" /> {domainErr}
-                            </p>
+                <Can permission="domain.manage" fallback={<AccessDenied />}>
+                    <GradientSection icon={<GlobeAltIcon className="h-5 w-5" />} title="Domain Details" from="from-blue-500" to="to-blue-600">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                <GlobeAltIcon className="inline h-4 w-4 mr-1 text-gray-400" />
+                                Domain *
+                            </label>
+                            <input
+                                value={domain}
+                                onChange={(e) => setDomain(e.target.value)}
+                                placeholder="example.com"
+                                className="w-full rounded-lg border border-gray-300 px-3 py-2 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/20 transition-all"
+                                inputMode="url"
+                                autoCapitalize="none"
+                                autoCorrect="off"
+                                spellCheck={false}
+                                disabled={saving}
+                            />
+                            {domainErr && (
+                                <p className="mt-2 text-sm text-rose-700 flex items-start gap-2">
+                                    <ExclamationTriangleIcon className="h-4 w-4 mt-0.5" /> {domainErr}
+                                </p>
+                            )}
+                        </div>
+
+                        {apiError && (
+                            <div className="rounded-lg border border-rose-200 bg-rose-50 p-3 flex items-start gap-2">
+                                <ExclamationTriangleIcon className="h-4 w-4 text-rose-600 mt-0.5" />
+                                <div className="text-sm text-rose-800">{apiError.message}</div>
+                            </div>
                         )}
-                    </div>
 
-                    {apiError && (
-                        <div className="rounded-lg border border-rose-200 bg-rose-50 p-3 flex items-start gap-2">
-                            <ExclamationTriangleIcon className="h-4 w-4 text-rose-600 mt-0.5" />
-                            <div className="text-sm text-rose-800">{apiError.message}</div>
-                        </div>
-                    )}
-
-                    <button
-                        onClick={onCreate}
-                        disabled={!canSubmit}
-                        className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-gradient-to-r from-blue-500 to-blue-600 text-white hover:from-blue-600 hover:to-blue-700 disabled:opacity-60 disabled:cursor-not-allowed transition-all"
-                    >
-                        <PlusIcon className="h-5 w-5" />
-                        {saving ? 'Adding…' : 'Add Domain'}
-                    </button>
-
-                </GradientSection>
+                        <button
+                            onClick={onCreate}
+                            disabled={!canSubmit}
+                            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-gradient-to-r from-blue-500 to-blue-600 text-white hover:from-blue-600 hover:to-blue-700 disabled:opacity-60 disabled:cursor-not-allowed transition-all"
+                        >
+                            <PlusIcon className="h-5 w-5" />
+                            {saving ? 'Adding…' : 'Add Domain'}
+                        </button>
+
+                    </GradientSection>
+                </Can>
 
                 {/* Helpful link */}
                 <div className="flex justify-between">
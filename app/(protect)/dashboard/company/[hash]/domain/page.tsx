@@ -18,6 +18,8 @@ import {
 import {
     GlobeAltIcon as GlobeAltSolid,
 } from '@heroicons/react/24/solid';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
+import Can from '@/components/company/Can';
 
 interface DomainBrief {
     id: number;
@@ -134,13 +136,15 @@ function EmptyState({ hash }: { hash: string }) {
                 Domains let you manage DNS records, track verification status, and configure email policies.
                 Get started by adding your first domain.
             </p>
-            <Link
-                href={`/dashboard/company/${hash}/domain/new`}
-                className="inline-flex items-center gap-2 rounded-lg bg-gradient-to-r from-blue-600 to-indigo-600 px-8 py-4 text-white font-medium hover:from-blue-700 hover:to-indigo-700 transition-all shadow-lg hover:shadow-xl"
-            >
-                <PlusIcon className="h-6 w-6" />
-                Add Your First Domain
-            </Link>
+            <Can permission="domain.manage">
+                <Link
+                    href={`/dashboard/company/${hash}/domain/new`}
+                    className="inline-flex items-center gap-2 rounded-lg bg-gradient-to-r from-blue-600 to-indigo-600 px-8 py-4 text-white font-medium hover:from-blue-700 hover:to-indigo-700 transition-all shadow-lg hover:shadow-xl"
+                >
+                    <PlusIcon className="h-6 w-6" />
+                    Add Your First Domain
+                </Link>
+            </Can>
         </div>
     );
 }
@@ -214,18 +218,10 @@ export default function DomainListPage() {
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string|null>(null);
 
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
-
     useEffect(() => {
         (async () => {
             try {
-                const res = await fetch(
-                    `${process.env.NEXT_PUBLIC_BACKEND_URL}/companies/${hash}/domains`,
-                    { headers: authHeaders() }
-                );
+                const res = await apiFetch(`${BACKEND_URL}/companies/${hash}/domains`);
                 if (res.status === 403) {
                     setError('You don\'t have access to this company\'s domains.');
                     return;
@@ -291,13 +287,15 @@ export default function DomainListPage() {
                         </div>
                     </div>
 
-                    <Link
-                        href={`/dashboard/company/${hash}/domain/new`}
-                        className="inline-flex items-center gap-2 rounded-lg bg-gradient-to-r from-blue-600 to-indigo-600 px-6 py-3 text-white font-medium hover:from-blue-700 hover:to-indigo-700 transition-all shadow-lg hover:shadow-xl"
-                    >
-                        <PlusIcon className="h-5 w-5" />
-                        Add Domain
-                    </Link>
+                    <Can permission="domain.manage">
+                        <Link
+                            href={`/dashboard/company/${hash}/domain/new`}
+                            className="inline-flex items-center gap-2 rounded-lg bg-gradient-to-r from-blue-600 to-indigo-600 px-6 py-3 text-white font-medium hover:from-blue-700 hover:to-indigo-700 transition-all shadow-lg hover:shadow-xl"
+                        >
+                            <PlusIcon className="h-5 w-5" />
+                            Add Domain
+                        </Link>
+                    </Can>
                 </div>
 
                 {/* Summary Stats */}
@@ -19,6 +19,7 @@ import {
     ShieldCheckIcon,
 } from '@heroicons/react/24/outline';
 import { EnvelopeIcon as EnvelopeSolid } from '@heroicons/react/24/solid';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
 
 /* ========================= Types ========================= */
 type InboundAttachment = {
@@ -112,8 +113,7 @@ export default function InboundDetailPage() {
     const { hash, id } = useParams<{ hash: string; id: string }>();
     const router = useRouter();
 
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL!;
-    const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
+    const backend = BACKEND_URL;
 
     const url = useMemo(
         () => `${backend}/companies/${hash}/inbound-messages/${encodeURIComponent(id)}`,
@@ -135,12 +135,7 @@ export default function InboundDetailPage() {
             setLoading(true);
             setErr(null);
             try {
-                const res = await fetch(url, {
-                    headers: {
-                        'Content-Type': 'application/json',
-                        ...(token ? { Authorization: `Bearer ${token}` } : {}),
-                    },
-                });
+                const res = await apiFetch(url);
                 if (!res.ok) throw new Error(`Failed to load inbound (${res.status})`);
                 const json = await res.json();
                 // Accept both {item:{...}} and flat { ... }
@@ -153,7 +148,7 @@ export default function InboundDetailPage() {
             }
         })();
         return () => { abort = true; };
-    }, [url, token]);
+    }, [url]);
 
     const html = data?.body?.html ?? null;
     const text = data?.body?.text ?? null;
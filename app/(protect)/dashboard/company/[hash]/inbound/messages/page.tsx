@@ -33,6 +33,8 @@ import {
     CheckCircleIcon as CheckCircleSolid,
     XCircleIcon as XCircleSolid,
 } from '@heroicons/react/24/solid';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
+import type { ApiPaged } from '@/lib/api';
 
 /* ----------------------------- Types ----------------------------- */
 
@@ -51,11 +53,6 @@ type InboundMessage = {
     domain: { id: number; domain: string | null } | null;
 };
 
-type ApiListResponse<T> = {
-    meta: { page: number; perPage: number; total: number; totalPages: number };
-    items: T[];
-};
-
 /* ----------------------------- Helpers ----------------------------- */
 
 const toLocale = (s?: string | null, format: 'full' | 'short' | 'time' = 'short') => {
@@ -247,7 +244,7 @@ export default function InboundMessagesListPage() {
     useEffect(() => setArc(arcFromUrl), [arcFromUrl]);
 
     // Data state
-    const [data, setData] = useState<ApiListResponse<InboundMessage> | null>(null);
+    const [data, setData] = useState<ApiPaged<InboundMessage> | null>(null);
     const [loading, setLoading] = useState(true);
     const [err, setErr] = useState<string | null>(null);
 
@@ -255,12 +252,7 @@ export default function InboundMessagesListPage() {
     const [domains, setDomains] = useState<DomainBrief[]>([]);
     const [domainsErr, setDomainsErr] = useState<string | null>(null);
 
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
-
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
+    const backend = BACKEND_URL;
 
     const listUrl = useMemo(() => {
         const sp = new URLSearchParams();
@@ -288,9 +280,9 @@ export default function InboundMessagesListPage() {
             setLoading(true);
             setErr(null);
             try {
-                const res = await fetch(listUrl, { headers: authHeaders() });
+                const res = await apiFetch(listUrl);
                 if (!res.ok) throw new Error(`Failed to load inbound messages (${res.status})`);
-                const json: ApiListResponse<InboundMessage> = await res.json();
+                const json: ApiPaged<InboundMessage> = await res.json();
                 if (!abort) setData(json);
             } catch (e) {
                 if (!abort) setErr(e instanceof Error ? e.message : String(e));
@@ -308,7 +300,7 @@ export default function InboundMessagesListPage() {
             setDomainsErr(null);
             try {
                 const url = `${backend}/companies/${hash}/domains`;
-                const res = await fetch(url, { headers: authHeaders() });
+                const res = await apiFetch(url);
                 if (res.ok) {
                     const list = (await res.json()) as DomainBrief[];
                     const norm: DomainBrief[] = list.map(d => ({ id: d.id, domain: d.domain ?? null }));
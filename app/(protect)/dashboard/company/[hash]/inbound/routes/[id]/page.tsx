@@ -23,6 +23,7 @@ import {
     PencilSquareIcon,
 } from '@heroicons/react/24/outline';
 import { CheckCircleIcon as CheckCircleSolid } from '@heroicons/react/24/solid';
+import { BACKEND_URL, apiFetch, joinUrl } from '@/lib/api';
 
 /* ----------------------------- Types ----------------------------- */
 
@@ -59,8 +60,6 @@ type InboundRoute = {
 
 /* ----------------------------- Helpers ----------------------------- */
 
-const joinUrl = (base: string, path: string) => `${(base || '').replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
-
 const splitCSV = (s: string): string[] => s.split(',').map(x => x.trim()).filter(Boolean);
 
 const toCSV = (a?: string[]) => (Array.isArray(a) ? a.join(', ') : '');
@@ -126,12 +125,7 @@ function parsePattern(pattern?: string | null): {
 export default function InboundRouteEditLikeCreatePage() {
     const router = useRouter();
     const { hash, id } = useParams<{ hash: string; id: string }>();
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL ?? '';
-
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
+    const backend = BACKEND_URL;
 
     /* ----------- load company + domains + route ----------- */
     const [company, setCompany] = useState<Company | null>(null);
@@ -181,14 +175,14 @@ export default function InboundRouteEditLikeCreatePage() {
             setLoadErr(null);
             try {
                 // company
-                const cRes = await fetch(joinUrl(backend, `/companies/${hash}`), { headers: authHeaders() });
+                const cRes = await apiFetch(joinUrl(backend, `/companies/${hash}`));
                 if (!cRes.ok) throw new Error(`Failed to load company (${cRes.status})`);
                 const c: Company = await cRes.json();
                 if (!abort) setCompany(c);
 
                 // domains
                 try {
-                    const dRes = await fetch(joinUrl(backend, `/companies/${hash}/domains`), { headers: authHeaders() });
+                    const dRes = await apiFetch(joinUrl(backend, `/companies/${hash}/domains`));
                     if (dRes.ok) {
                         const list = (await dRes.json()) as DomainBrief[];
                         if (!abort) setDomains(list);
@@ -198,7 +192,7 @@ export default function InboundRouteEditLikeCreatePage() {
                 }
 
                 // route
-                const rRes = await fetch(routeUrl, { headers: authHeaders() });
+                const rRes = await apiFetch(routeUrl);
                 if (!rRes.ok) throw new Error(`Failed to load route (${rRes.status})`);
                 const r = (await rRes.json()) as InboundRoute;
                 if (abort) return;
@@ -318,9 +312,8 @@ export default function InboundRouteEditLikeCreatePage() {
 
         setSubmitting(true);
         try {
-            const res = await fetch(routeUrl, {
+            const res = await apiFetch(routeUrl, {
                 method: 'PATCH',
-                headers: authHeaders(),
                 body: JSON.stringify(payload),
             });
             if (!res.ok) {
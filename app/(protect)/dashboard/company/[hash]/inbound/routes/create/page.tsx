@@ -24,6 +24,7 @@ import {
 import {
     CheckCircleIcon as CheckCircleSolid,
 } from '@heroicons/react/24/solid';
+import { BACKEND_URL, apiFetch, joinUrl } from '@/lib/api';
 
 /* ----------------------------- Types ----------------------------- */
 
@@ -56,8 +57,6 @@ type CreateRoutePayload = {
 
 /* ----------------------------- Helpers ----------------------------- */
 
-const joinUrl = (base: string, path: string) =>
-    `${(base || '').replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
 
 const splitCSV = (s: string): string[] =>
     s
@@ -117,13 +116,7 @@ function parseDomainBriefs(raw: unknown): DomainBrief[] {
 export default function InboundRouteCreateLikeMailgunPage() {
     const router = useRouter();
     const { hash } = useParams<{ hash: string }>();
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL ?? '';
-
-    const authHeaders = (): HeadersInit => {
-        const token =
-            typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
+    const backend = BACKEND_URL;
 
     /* ----------- load company + domains for scope dropdown ----------- */
     const [company, setCompany] = useState<Company | null>(null);
@@ -139,7 +132,7 @@ export default function InboundRouteCreateLikeMailgunPage() {
             setLoading(true);
             setLoadErr(null);
             try {
-                const cRes = await fetch(joinUrl(backend, `/companies/${hash}`), { headers: authHeaders() });
+                const cRes = await apiFetch(joinUrl(backend, `/companies/${hash}`));
                 if (!cRes.ok) throw new Error(`Failed to load company (${cRes.status})`);
                 const c: Company = await cRes.json();
                 if (!abort) setCompany(c);
@@ -147,7 +140,7 @@ export default function InboundRouteCreateLikeMailgunPage() {
                 if (!abort) setLoadErr(e instanceof Error ? e.message : 'Failed to load company');
             }
             try {
-                const dRes = await fetch(joinUrl(backend, `/companies/${hash}/domains`), { headers: authHeaders() });
+                const dRes = await apiFetch(joinUrl(backend, `/companies/${hash}/domains`));
                 if (dRes.ok) {
                     const raw: unknown = await dRes.json();
                     const norm = parseDomainBriefs(raw);
@@ -296,9 +289,8 @@ export default function InboundRouteCreateLikeMailgunPage() {
 
         setSubmitting(true);
         try {
-            const res = await fetch(joinUrl(backend, `/companies/${hash}/inbound-routes`), {
+            const res = await apiFetch(joinUrl(backend, `/companies/${hash}/inbound-routes`), {
                 method: 'POST',
-                headers: authHeaders(),
                 body: JSON.stringify(payload),
             });
             if (!res.ok) {
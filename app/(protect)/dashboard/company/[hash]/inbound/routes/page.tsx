@@ -21,6 +21,8 @@ import {
     ArchiveBoxIcon,
     StopIcon,
 } from '@heroicons/react/24/outline';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
+import type { ApiPaged } from '@/lib/api';
 
 /* ----------------------------- Types ----------------------------- */
 
@@ -45,11 +47,6 @@ type InboundRouteItem = {
     domain: { id: number; domain: string | null } | null;
 };
 
-type ApiListResponse<T> = {
-    meta: { page: number; perPage: number; total: number; totalPages: number };
-    items: T[];
-};
-
 /* ----------------------------- Helpers ----------------------------- */
 
 function getActionConfig(action?: string | null) {
@@ -139,7 +136,7 @@ export default function InboundRoutesListPage() {
     useEffect(() => setDomainId(domainFromUrl), [domainFromUrl]);
 
     // Data state
-    const [data, setData] = useState<ApiListResponse<InboundRouteItem> | null>(null);
+    const [data, setData] = useState<ApiPaged<InboundRouteItem> | null>(null);
     const [loading, setLoading] = useState(true);
     const [err, setErr] = useState<string | null>(null);
     const [deletingId, setDeletingId] = useState<number | null>(null);
@@ -148,12 +145,7 @@ export default function InboundRoutesListPage() {
     const [domains, setDomains] = useState<DomainBrief[]>([]);
     const [domainsErr, setDomainsErr] = useState<string | null>(null);
 
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
-
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
+    const backend = BACKEND_URL;
 
     const listUrl = useMemo(() => {
         const sp = new URLSearchParams();
@@ -171,9 +163,9 @@ export default function InboundRoutesListPage() {
             setLoading(true);
             setErr(null);
             try {
-                const res = await fetch(listUrl, { headers: authHeaders() });
+                const res = await apiFetch(listUrl);
                 if (!res.ok) throw new Error(`Failed to load inbound routes (${res.status})`);
-                const json: ApiListResponse<InboundRouteItem> = await res.json();
+                const json: ApiPaged<InboundRouteItem> = await res.json();
                 if (!abort) setData(json);
             } catch (e) {
                 if (!abort) setErr(e instanceof Error ? e.message : String(e));
@@ -191,7 +183,7 @@ export default function InboundRoutesListPage() {
             setDomainsErr(null);
             try {
                 const url = `${backend}/companies/${hash}/domains`;
-                const res = await fetch(url, { headers: authHeaders() });
+                const res = await apiFetch(url);
                 if (res.ok) {
                     const list = (await res.json()) as DomainBrief[];
                     const norm: DomainBrief[] = list.map(d => ({ id: d.id, domain: d.domain ?? null }));
@@ -231,7 +223,7 @@ export default function InboundRoutesListPage() {
         setDeletingId(id);
         try {
             const url = `${backend}/companies/${hash}/inbound-routes/${id}`;
-            const res = await fetch(url, { method: 'DELETE', headers: authHeaders() });
+            const res = await apiFetch(url, { method: 'DELETE' });
             if (!res.ok && res.status !== 204) throw new Error(`Delete failed (${res.status})`);
             setData(prev => prev
                 ? { ...prev, items: prev.items.filter(i => i.id !== id), meta: { ...prev.meta, total: Math.max(0, prev.meta.total - 1) } }
@@ -9,6 +9,7 @@ import {
     TrashIcon,
     ClipboardIcon,
 } from '@heroicons/react/24/outline';
+import { BACKEND_URL, apiFetch, joinUrl } from '@/lib/api';
 
 /* ----------------------------- Types ----------------------------- */
 
@@ -48,8 +49,6 @@ const badgeForWarmup = (state?: string | null) => {
     }
 };
 
-const joinUrl = (base: string, path: string) =>
-    `${(base || '').replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
 
 /* ----------------------------- Page ----------------------------- */
 
@@ -57,12 +56,7 @@ export default function CompanyIpPoolDetailPage() {
     const router = useRouter();
     const { hash, id } = useParams<{ hash: string; id: string }>();
 
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL ?? '';
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
-    const authz = authHeaders();
+    const backend = BACKEND_URL;
 
     const [pool, setPool] = useState<IpPool | null>(null);
     const [loading, setLoading] = useState(true);
@@ -81,7 +75,7 @@ export default function CompanyIpPoolDetailPage() {
         setLoading(true);
         setErr(null);
         try {
-            const res = await fetch(showUrl, { headers: authz });
+            const res = await apiFetch(showUrl);
             if (!res.ok) throw new Error(`Failed to load IP pool (${res.status})`);
             const js: IpPool = await res.json();
             setPool(js);
@@ -104,7 +98,7 @@ export default function CompanyIpPoolDetailPage() {
         try {
             setDeleting(true);
             const url = joinUrl(backend, `/companies/${hash}/ippools/${id}`);
-            const res = await fetch(url, { method: 'DELETE', headers: authz });
+            const res = await apiFetch(url, { method: 'DELETE' });
             if (!res.ok && res.status !== 204) throw new Error(`Delete failed (${res.status})`);
             router.push(backHref);
         } catch (e) {
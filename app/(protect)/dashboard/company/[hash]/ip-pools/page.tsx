@@ -10,6 +10,8 @@ import {
     XMarkIcon,
     InformationCircleIcon,
 } from '@heroicons/react/24/outline';
+import { BACKEND_URL, apiFetch, joinUrl } from '@/lib/api';
+import type { ApiPaged } from '@/lib/api';
 
 /* ----------------------------- Types ----------------------------- */
 
@@ -24,29 +26,15 @@ type IpPoolRow = {
     created_at: string | null; // ISO
 };
 
-type ApiPaged<T> = {
-    meta: { page: number; perPage: number; total: number; totalPages: number };
-    items: T[];
-};
-
 type Urgency = 'low' | 'normal' | 'high' | 'urgent';
 
-/* ----------------------------- Helpers ----------------------------- */
-
-const joinUrl = (base: string, path: string) =>
-    `${(base || '').replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
-
 /* ----------------------------- Page ----------------------------- */
 
 export default function CompanyIpPoolsPage() {
     const router = useRouter();
     const { hash } = useParams<{ hash: string }>();
 
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL ?? '';
-    const authHeaders = React.useCallback((): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    }, []);
+    const backend = BACKEND_URL;
 
     // company
     const [company, setCompany] = useState<Company | null>(null);
@@ -85,7 +73,7 @@ export default function CompanyIpPoolsPage() {
         (async () => {
             try {
                 const url = joinUrl(backend, `/companies/${hash}`);
-                const res = await fetch(url, { headers: authHeaders() });
+                const res = await apiFetch(url);
                 if (!res.ok) throw new Error(`Failed to load company (${res.status})`);
                 const c: Company = await res.json();
                 if (!abort) setCompany(c);
@@ -95,7 +83,7 @@ export default function CompanyIpPoolsPage() {
         })();
 
         return () => { abort = true; };
-    }, [backend, hash, authHeaders]);
+    }, [backend, hash]);
 
 // load pools
     useEffect(() => {
@@ -106,7 +94,7 @@ export default function CompanyIpPoolsPage() {
             setLoading(true);
             setError(null);
             try {
-                const res = await fetch(listUrl, { headers: authHeaders() });
+                const res = await apiFetch(listUrl);
                 if (res.status === 403) {
                     setError('You don’t have access to this company’s IP pools.');
                     return;
@@ -122,7 +110,7 @@ export default function CompanyIpPoolsPage() {
         })();
 
         return () => { abort = true; };
-    }, [listUrl, backend, hash, authHeaders]);
+    }, [listUrl, backend, hash]);
 
 
     const backHref = `/dashboard/company/${hash}`;
@@ -204,9 +192,8 @@ export default function CompanyIpPoolsPage() {
         setSaveError(null);
 
         try {
-            const res = await fetch(requestUrl, {
+            const res = await apiFetch(requestUrl, {
                 method: 'POST',
-                headers: authHeaders(),
                 body: JSON.stringify(payload),
             });
             if (!res.ok) {
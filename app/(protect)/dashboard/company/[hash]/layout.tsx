@@ -0,0 +1,10 @@
+'use client';
+
+import { ReactNode } from 'react';
+import { useParams } from 'next/navigation';
+import CompanyRoleProvider from '@/components/company/CompanyRoleProvider';
+
+export default function CompanyLayout({ children }: { children: ReactNode }) {
+    const { hash } = useParams<{ hash: string }>();
+    return <CompanyRoleProvider hash={hash}>{children}</CompanyRoleProvider>;
+}
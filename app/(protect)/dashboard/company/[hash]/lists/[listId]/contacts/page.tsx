@@ -30,6 +30,8 @@ import {
     Cell,
     Tooltip,
 } from 'recharts';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
+import type { ApiPaged } from '@/lib/api';
 
 type MemberItem = {
     id: number;
@@ -42,11 +44,6 @@ type MemberItem = {
     } | null;
 };
 
-type ApiListResponse<T> = {
-    meta: { page: number; perPage: number; total: number; totalPages: number };
-    items: T[];
-};
-
 type ListSummary = {
     id: number;
     name: string;
@@ -169,7 +166,7 @@ export default function ContactsByListPage() {
     // State
     const [searchTerm, setSearchTerm] = useState(qFromUrl);
     const [listInfo, setListInfo] = useState<ListSummary | null>(null);
-    const [data, setData] = useState<ApiListResponse<MemberItem> | null>(null);
+    const [data, setData] = useState<ApiPaged<MemberItem> | null>(null);
     const [loading, setLoading] = useState(true);
     const [err, setErr] = useState<string | null>(null);
     const [removingId, setRemovingId] = useState<number | null>(null);
@@ -191,11 +188,7 @@ export default function ContactsByListPage() {
     const [addEmail, setAddEmail] = useState('');
     const [addingEmail, setAddingEmail] = useState(false);
 
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
+    const backend = BACKEND_URL;
 
     // URLs
     const listInfoUrl = useMemo(
@@ -218,7 +211,7 @@ export default function ContactsByListPage() {
         let abort = false;
         (async () => {
             try {
-                const res = await fetch(listInfoUrl, { headers: authHeaders() });
+                const res = await apiFetch(listInfoUrl);
                 if (!res.ok) throw new Error(`Failed to load list (${res.status})`);
                 const json: ListSummary = await res.json();
                 if (!abort) setListInfo(json);
@@ -236,9 +229,9 @@ export default function ContactsByListPage() {
             setLoading(true);
             setErr(null);
             try {
-                const res = await fetch(membersUrl, { headers: authHeaders() });
+                const res = await apiFetch(membersUrl);
                 if (!res.ok) throw new Error(`Failed to load members (${res.status})`);
-                const json: ApiListResponse<MemberItem> = await res.json();
+                const json: ApiPaged<MemberItem> = await res.json();
                 if (!abort) setData(json);
             } catch (e) {
                 if (!abort) setErr(e instanceof Error ? e.message : String(e));
@@ -279,7 +272,7 @@ export default function ContactsByListPage() {
         setRemovingId(membershipId);
         try {
             const url = `${backend}/companies/${hash}/lists/${listId}/contacts/${contactId}`;
-            const res = await fetch(url, { method: 'DELETE', headers: authHeaders() });
+            const res = await apiFetch(url, { method: 'DELETE' });
             if (!res.ok && res.status !== 204) throw new Error(`Remove failed (${res.status})`);
 
             setData(prev => prev
@@ -317,9 +310,9 @@ export default function ContactsByListPage() {
                 sp.set('perPage', pickDebounced ? '20' : '10');
                 if (pickDebounced) sp.set('search', pickDebounced);
                 const url = `${backend}/companies/${hash}/contacts?${sp.toString()}`;
-                const res = await fetch(url, { headers: authHeaders() });
+                const res = await apiFetch(url);
                 if (!res.ok) throw new Error(`Search failed (${res.status})`);
-                const json: ApiListResponse<ContactSearchItem> = await res.json();
+                const json: ApiPaged<ContactSearchItem> = await res.json();
 
                 const existingIds = new Set<number>(
                     (data?.items || [])
@@ -355,9 +348,8 @@ export default function ContactsByListPage() {
         try {
             const ids = Array.from(pickSelected);
             for (const cid of ids) {
-                const res = await fetch(`${backend}/companies/${hash}/lists/${listId}/contacts`, {
+                const res = await apiFetch(`${backend}/companies/${hash}/lists/${listId}/contacts`, {
                     method: 'POST',
-                    headers: authHeaders(),
                     body: JSON.stringify({ contact_id: cid }),
                 });
                 if (!res.ok) throw new Error(`Failed to add contact #${cid} (${res.status})`);
@@ -370,7 +362,7 @@ export default function ContactsByListPage() {
 
             showToast('success', `Added ${ids.length} contact(s) to the list`);
 
-            fetch(listInfoUrl, { headers: authHeaders() })
+            apiFetch(listInfoUrl)
                 .then(r => (r.ok ? r.json() : null))
                 .then(json => json && setListInfo(json))
                 .catch(() => {});
@@ -386,9 +378,8 @@ export default function ContactsByListPage() {
         if (!email) return;
         setAddingEmail(true);
         try {
-            const res = await fetch(`${backend}/companies/${hash}/lists/${listId}/contacts`, {
+            const res = await apiFetch(`${backend}/companies/${hash}/lists/${listId}/contacts`, {
                 method: 'POST',
-                headers: authHeaders(),
                 body: JSON.stringify({ email }),
             });
             if (!res.ok) throw new Error(`Failed to add ${email} (${res.status})`);
@@ -399,7 +390,7 @@ export default function ContactsByListPage() {
 
             showToast('success', `Added ${email} to the list`);
 
-            fetch(listInfoUrl, { headers: authHeaders() })
+            apiFetch(listInfoUrl)
                 .then(r => (r.ok ? r.json() : null))
                 .then(json => json && setListInfo(json))
                 .catch(() => {});
@@ -19,18 +19,8 @@ import {
 import {
     CheckCircleIcon as CheckCircleSolid,
 } from '@heroicons/react/24/solid';
-
-type ListGroup = {
-    id: number;
-    name: string;
-    created_at: string | null;
-    counts?: { contacts: number | null; campaigns: number | null };
-};
-
-type BulkResult = {
-    summary: { added: number; skipped: number; total: number };
-    results: Array<{ email: string; status: 'added' | 'exists'; membership_id: number }>;
-};
+import { api, errorMessage } from '@/lib/api';
+import type { ListBulkResult, ListGroup } from '@/types/api';
 
 /* ---------- Components ---------- */
 function Toast({
@@ -106,12 +96,6 @@ export default function ListCreatePage() {
     const params = useParams<{ hash: string }>();
     const hash = params.hash;
 
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
-
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
 
     const backHref = `/dashboard/company/${hash}/lists`;
 
@@ -128,7 +112,7 @@ export default function ListCreatePage() {
     const [defaultName, setDefaultName] = useState('');
     const [bulkWorking, setBulkWorking] = useState(false);
     const [bulkErr, setBulkErr] = useState<string | null>(null);
-    const [bulkRes, setBulkRes] = useState<BulkResult | null>(null);
+    const [bulkRes, setBulkRes] = useState<ListBulkResult | null>(null);
 
     const canCreate = useMemo(() => name.trim().length > 0, [name]);
 
@@ -138,24 +122,16 @@ export default function ListCreatePage() {
     }
 
     async function onCreate() {
-        if (!backend) return setCreateErr('Missing backend URL');
         setCreating(true);
         setCreateErr(null);
         setCreatedList(null);
 
         try {
-            const res = await fetch(`${backend}/companies/${hash}/lists`, {
-                method: 'POST',
-                headers: authHeaders(),
-                body: JSON.stringify({ name: name.trim() }),
-            });
-            const payload: ListGroup | { error?: string } = await res.json();
-            if (!res.ok) throw new Error(('error' in payload && payload.error) ? payload.error : `Create failed (${res.status})`);
-            setCreatedList(payload as ListGroup);
+            setCreatedList(await api.lists.create(hash, { name: name.trim() }));
             setBulkOpen(true);
             showToast('success', `List "${name.trim()}" created successfully!`);
         } catch (e) {
-            const message = e instanceof Error ? e.message : String(e);
+            const message = errorMessage(e);
             setCreateErr(message);
             showToast('error', message);
         } finally {
@@ -164,7 +140,6 @@ export default function ListCreatePage() {
     }
 
     async function onBulkAdd() {
-        if (!backend) return setBulkErr('Missing backend URL');
         if (!createdList) return setBulkErr('Create the list first.');
         const emails = emailsText
             .split(/\r?\n/)
@@ -181,18 +156,11 @@ export default function ListCreatePage() {
         setBulkRes(null);
 
         try {
-            const res = await fetch(`${backend}/companies/${hash}/lists/${createdList.id}/contacts/bulk`, {
-                method: 'POST',
-                headers: authHeaders(),
-                body: JSON.stringify({ emails, default_name: defaultName || undefined }),
-            });
-            const payload: BulkResult | { error?: string } = await res.json();
-            if (!res.ok) throw new Error(('error' in payload && payload.error) ? payload.error : `Import failed (${res.status})`);
-            setBulkRes(payload as BulkResult);
-            const result = payload as BulkResult;
+            const result = await api.lists.bulkAdd(hash, createdList.id, { emails, default_name: defaultName || undefined });
+            setBulkRes(result);
             showToast('success', `Import complete! ${result.summary.added} added, ${result.summary.skipped} skipped.`);
         } catch (e) {
-            const message = e instanceof Error ? e.message : String(e);
+            const message = errorMessage(e);
             setBulkErr(message);
             showToast('error', message);
         } finally {
@@ -31,6 +31,8 @@ import {
     CartesianGrid,
     Tooltip,
 } from 'recharts';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
+import type { ApiPaged } from '@/lib/api';
 
 type ListGroup = {
     id: number;
@@ -43,11 +45,6 @@ type ListGroup = {
     };
 };
 
-type ApiListResponse<T> = {
-    meta: { page: number; perPage: number; total: number; totalPages: number };
-    items: T[];
-};
-
 /* ---------- Components ---------- */
 function Toast({
                    kind = 'info',
@@ -182,7 +179,7 @@ export default function ListsIndexPage() {
 
     // State
     const [searchTerm, setSearchTerm] = useState(qFromUrl);
-    const [data, setData] = useState<ApiListResponse<ListGroup> | null>(null);
+    const [data, setData] = useState<ApiPaged<ListGroup> | null>(null);
     const [loading, setLoading] = useState(true);
     const [err, setErr] = useState<string | null>(null);
     const [toast, setToast] = useState<{ kind: 'info' | 'success' | 'error'; text: string } | null>(null);
@@ -192,12 +189,7 @@ export default function ListsIndexPage() {
     const [renaming, setRenaming] = useState(false);
     const [deletingId, setDeletingId] = useState<number | null>(null);
 
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
-
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
+    const backend = BACKEND_URL;
 
     const listUrl = useMemo(() => {
         const sp = new URLSearchParams();
@@ -217,9 +209,9 @@ export default function ListsIndexPage() {
             setLoading(true);
             setErr(null);
             try {
-                const res = await fetch(listUrl, { headers: authHeaders() });
+                const res = await apiFetch(listUrl);
                 if (!res.ok) throw new Error(`Failed to load lists (${res.status})`);
-                const json: ApiListResponse<ListGroup> = await res.json();
+                const json: ApiPaged<ListGroup> = await res.json();
                 if (!abort) setData(json);
             } catch (e) {
                 if (!abort) setErr(e instanceof Error ? e.message : String(e));
@@ -277,9 +269,8 @@ export default function ListsIndexPage() {
         if (!id || !renameValue.trim()) return;
         setRenaming(true);
         try {
-            const res = await fetch(`${backend}/companies/${hash}/lists/${id}`, {
+            const res = await apiFetch(`${backend}/companies/${hash}/lists/${id}`, {
                 method: 'PATCH',
-                headers: authHeaders(),
                 body: JSON.stringify({ name: renameValue.trim() }),
             });
             if (!res.ok) throw new Error(`Rename failed (${res.status})`);
@@ -302,9 +293,8 @@ export default function ListsIndexPage() {
         if (!confirm('Delete this list? All its memberships will be removed. This action cannot be undone.')) return;
         setDeletingId(id);
         try {
-            const res = await fetch(`${backend}/companies/${hash}/lists/${id}`, {
+            const res = await apiFetch(`${backend}/companies/${hash}/lists/${id}`, {
                 method: 'DELETE',
-                headers: authHeaders(),
             });
             if (!res.ok && res.status !== 204) throw new Error(`Delete failed (${res.status})`);
             setData(prev => prev
@@ -14,6 +14,7 @@ import {
     NoSymbolIcon as BouncedIcon,
     XMarkIcon as UnsubIcon,
 } from '@heroicons/react/24/solid';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
 
 /* ========================= Types ========================= */
 
@@ -154,8 +155,7 @@ export default function CompanyEventsPage() {
     const search = useSearchParams();
     const { hash } = useParams<{ hash: string }>();
 
-    const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
+    const backend = BACKEND_URL;
 
     // Query params (typed)
     const page = Math.max(1, parseInt(search.get('page') || '1', 10) || 1);
@@ -259,12 +259,7 @@ export default function CompanyEventsPage() {
             setLoading(true);
             setErr(null);
             try {
-                const res = await fetch(eventsUrl, {
-                    headers: {
-                        'Content-Type': 'application/json',
-                        ...(token ? { Authorization: `Bearer ${token}` } : {}),
-                    },
-                });
+                const res = await apiFetch(eventsUrl);
                 if (!res.ok) throw new Error(`Failed to load events (${res.status})`);
                 const json: EventsApiResponse = await res.json();
                 console.log('Fetched events:', json);
@@ -276,19 +271,14 @@ export default function CompanyEventsPage() {
             }
         })();
         return () => { abort = true; };
-    }, [eventsUrl, token]);
+    }, [eventsUrl]);
 
     // Fetch domains
     useEffect(() => {
         let abort = false;
         (async () => {
             try {
-                const res = await fetch(domainsUrl, {
-                    headers: {
-                        'Content-Type': 'application/json',
-                        ...(token ? { Authorization: `Bearer ${token}` } : {}),
-                    },
-                });
+                const res = await apiFetch(domainsUrl);
                 if (!res.ok) throw new Error(`Failed to load domains (${res.status})`);
                 const json: DomainItem[] = await res.json();
                 if (!abort) setDomains(json);
@@ -297,7 +287,7 @@ export default function CompanyEventsPage() {
             }
         })();
         return () => { abort = true; };
-    }, [domainsUrl, token]);
+    }, [domainsUrl]);
 
     if (loading) {
         return (
@@ -27,6 +27,7 @@ import {
 import { EnvelopeIcon as EnvelopeSolid } from '@heroicons/react/24/solid';
 
 import { TabDef } from '@/components/ui/Tabs';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
 
 /* ========================= Types ========================= */
 type Detail = {
@@ -226,8 +227,7 @@ export default function MessageByMessageIdPage() {
     const [err, setErr] = useState<string | null>(null);
     const [activeTab, setActiveTab] = useState<'html' | 'text' | 'headers' | 'attachments'>('html');
 
-    const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
+    const backend = BACKEND_URL;
     // Events state
     const [events, setEvents] = useState<EventItem[] | null>(null);
     const [aggs, setAggs] = useState<Record<string, number>>({});
@@ -264,12 +264,7 @@ export default function MessageByMessageIdPage() {
             setLoading(true);
             setErr(null);
             try {
-                const res = await fetch(url, {
-                    headers: {
-                        'Content-Type': 'application/json',
-                        ...(token ? { Authorization: `Bearer ${token}` } : {}),
-                    },
-                });
+                const res = await apiFetch(url);
                 if (!res.ok) throw new Error(`Failed to load message (${res.status})`);
                 const json: Detail = await res.json();
                 if (!abort) setData(json);
@@ -280,7 +275,7 @@ export default function MessageByMessageIdPage() {
             }
         })();
         return () => { abort = true; };
-    }, [url, token]);
+    }, [url]);
 
     // Fetch events for this message
     useEffect(() => {
@@ -290,12 +285,7 @@ export default function MessageByMessageIdPage() {
             setEvLoading(true);
             setEvErr(null);
             try {
-                const res = await fetch(eventsUrl, {
-                    headers: {
-                        'Content-Type': 'application/json',
-                        ...(token ? { Authorization: `Bearer ${token}` } : {}),
-                    },
-                });
+                const res = await apiFetch(eventsUrl);
                 if (!res.ok) throw new Error(`Failed to load events (${res.status})`);
                 const json: EventsResponse = await res.json();
                 if (!abort) {
@@ -309,7 +299,7 @@ export default function MessageByMessageIdPage() {
             }
         })();
         return () => { abort = true; };
-    }, [eventsUrl, token, backend]);
+    }, [eventsUrl, backend]);
 
 
     /* ===== Loading / Error ===== */
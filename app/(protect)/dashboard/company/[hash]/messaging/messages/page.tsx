@@ -42,6 +42,7 @@ import {
     Legend,
     Brush,
 } from 'recharts';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
 
 /* ========================= Types ========================= */
 
@@ -320,8 +321,7 @@ export default function CompanyMessagesPage() {
     const [showAdvanced, setShowAdvanced] = useState(false);
     const [viewMode, setViewMode] = useState<'grid' | 'table'>('table');
 
-    const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
+    const backend = BACKEND_URL;
 
     // URL parameters
     const page = Math.max(1, parseInt(search.get('page') || '1', 10) || 1);
@@ -360,12 +360,7 @@ export default function CompanyMessagesPage() {
             setLoading(true);
             setErr(null);
             try {
-                const res = await fetch(listUrl, {
-                    headers: {
-                        'Content-Type': 'application/json',
-                        ...(token ? { Authorization: `Bearer ${token}` } : {}),
-                    },
-                });
+                const res = await apiFetch(listUrl);
                 if (!res.ok) throw new Error(`Failed to load messages (${res.status})`);
                 const json: ApiResponse = await res.json();
                 if (!abort) setData(json);
@@ -376,19 +371,14 @@ export default function CompanyMessagesPage() {
             }
         })();
         return () => { abort = true; };
-    }, [listUrl, token]);
+    }, [listUrl]);
 
     // Fetch domains
     useEffect(() => {
         let abort = false;
         (async () => {
             try {
-                const res = await fetch(domainsUrl, {
-                    headers: {
-                        'Content-Type': 'application/json',
-                        ...(token ? { Authorization: `Bearer ${token}` } : {}),
-                    },
-                });
+                const res = await apiFetch(domainsUrl);
                 if (!res.ok) throw new Error(`Failed to load domains (${res.status})`);
                 const json: DomainItem[] = await res.json();
                 if (!abort) setDomains(json);
@@ -399,7 +389,7 @@ export default function CompanyMessagesPage() {
             }
         })();
         return () => { abort = true; };
-    }, [domainsUrl, token]);
+    }, [domainsUrl]);
 
     function updateQuery(partial: Record<string, unknown>, resetPage = false) {
         const sp = new URLSearchParams(search.toString());
@@ -11,6 +11,8 @@ import {
     ClipboardIcon,
 } from '@heroicons/react/24/outline';
 import copy from 'copy-to-clipboard';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
+import Can from '@/components/company/Can';
 
 type Cred = {
     id: number;
@@ -27,7 +29,7 @@ type RotateResp = { credential: Cred; password: string | null };
 export default function SmtpCredentialDetailPage() {
     const router = useRouter();
     const { hash, id } = useParams<{ hash: string; id: string }>();
-    const baseUrl = process.env.NEXT_PUBLIC_BACKEND_URL as string | undefined;
+    const baseUrl = BACKEND_URL;
 
     const [cred, setCred] = React.useState<Cred | null>(null);
     const [loading, setLoading] = React.useState(true);
@@ -39,11 +41,6 @@ export default function SmtpCredentialDetailPage() {
     const [lastPassword, setLastPassword] = React.useState<string | null>(null);
     const [copied, setCopied] = React.useState(false);
 
-    const authHeaders = React.useCallback((): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    }, []);
-
     const getUrl = React.useMemo(() => {
         if (!baseUrl) return null;
         return `${baseUrl}/companies/${hash}/smtp-credentials/${id}`;
@@ -57,7 +54,7 @@ export default function SmtpCredentialDetailPage() {
             setLoading(true);
             setErr(null);
             try {
-                const res = await fetch(getUrl, { headers: authHeaders() });
+                const res = await apiFetch(getUrl);
                 if (!res.ok) throw new Error(`Failed to load credential (${res.status})`);
                 const j: Cred = await res.json();
                 if (!abort) setCred(j);
@@ -69,7 +66,7 @@ export default function SmtpCredentialDetailPage() {
         })();
 
         return () => { abort = true; };
-    }, [getUrl, authHeaders]);
+    }, [getUrl]);
 
     async function onSave(e: React.FormEvent<HTMLFormElement>) {
         e.preventDefault();
@@ -87,9 +84,8 @@ export default function SmtpCredentialDetailPage() {
         };
 
         try {
-            const res = await fetch(getUrl!, {
+            const res = await apiFetch(getUrl!, {
                 method: 'PATCH',
-                headers: authHeaders(),
                 body: JSON.stringify(payload),
             });
             if (!res.ok) throw new Error(`Save failed (${res.status})`);
@@ -107,9 +103,8 @@ export default function SmtpCredentialDetailPage() {
         setRotating(true);
         setLastPassword(null);
         try {
-            const res = await fetch(`${baseUrl}/companies/${hash}/smtp-credentials/${id}/rotate`, {
+            const res = await apiFetch(`${baseUrl}/companies/${hash}/smtp-credentials/${id}/rotate`, {
                 method: 'POST',
-                headers: authHeaders(),
             });
             if (!res.ok) throw new Error(`Rotate failed (${res.status})`);
             const j: RotateResp = await res.json();
@@ -127,9 +122,8 @@ export default function SmtpCredentialDetailPage() {
         if (!confirm('Delete this credential?')) return;
         setDeleting(true);
         try {
-            const res = await fetch(`${baseUrl}/companies/${hash}/smtp-credentials/${id}`, {
+            const res = await apiFetch(`${baseUrl}/companies/${hash}/smtp-credentials/${id}`, {
                 method: 'DELETE',
-                headers: authHeaders(),
             });
             if (!res.ok && res.status !== 204) throw new Error(`Delete failed (${res.status})`);
             router.push(`/dashboard/company/${hash}/smtp`);
@@ -237,33 +231,35 @@ export default function SmtpCredentialDetailPage() {
                             />
                         </div>
 
-                        <div className="flex items-center gap-2 pt-1">
-                            <button
-                                type="submit"
-                                disabled={saving}
-                                className="rounded bg-blue-700 px-3 py-2 text-white hover:bg-blue-800"
-                            >
-                                {saving ? 'Saving…' : 'Save'}
-                            </button>
-                            <button
-                                type="button"
-                                onClick={rotate}
-                                disabled={rotating}
-                                className="inline-flex items-center gap-1 rounded border px-3 py-2 hover:bg-gray-50"
-                            >
-                                <ArrowPathIcon className={`h-4 w-4 ${rotating ? 'animate-spin' : ''}`} />
-                                Rotate password
-                            </button>
-                            <button
-                                type="button"
-                                onClick={onDelete}
-                                disabled={deleting}
-                                className="inline-flex items-center gap-1 rounded border px-3 py-2 text-red-700 hover:bg-red-50"
-                            >
-                                <TrashIcon className="h-4 w-4" />
-                                Delete
-                            </button>
-                        </div>
+                        <Can permission="smtp.manage">
+                            <div className="flex items-center gap-2 pt-1">
+                                <button
+                                    type="submit"
+                                    disabled={saving}
+                                    className="rounded bg-blue-700 px-3 py-2 text-white hover:bg-blue-800"
+                                >
+                                    {saving ? 'Saving…' : 'Save'}
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={rotate}
+                                    disabled={rotating}
+                                    className="inline-flex items-center gap-1 rounded border px-3 py-2 hover:bg-gray-50"
+                                >
+                                    <ArrowPathIcon className={`h-4 w-4 ${rotating ? 'animate-spin' : ''}`} />
+                                    Rotate password
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={onDelete}
+                                    disabled={deleting}
+                                    className="inline-flex items-center gap-1 rounded border px-3 py-2 text-red-700 hover:bg-red-50"
+                                >
+                                    <TrashIcon className="h-4 w-4" />
+                                    Delete
+                                </button>
+                            </div>
+                        </Can>
                     </form>
                 </div>
             </div>
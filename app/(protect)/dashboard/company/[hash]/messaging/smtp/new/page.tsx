@@ -13,6 +13,8 @@ import {
 } from '@heroicons/react/24/outline';
 import { Combobox, Transition } from '@headlessui/react';
 import copy from 'copy-to-clipboard';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
+import Can, { AccessDenied } from '@/components/company/Can';
 
 type CreateResp = {
     credential: {
@@ -36,7 +38,7 @@ function classNames(...xs: Array<string | false | null | undefined>) {
 export default function NewSmtpCredentialPage() {
     const router = useRouter();
     const { hash } = useParams<{ hash: string }>();
-    const baseUrl = process.env.NEXT_PUBLIC_BACKEND_URL as string | undefined;
+    const baseUrl = BACKEND_URL;
 
     const [busy, setBusy] = React.useState(false);
     const [err, setErr] = React.useState<string | null>(null);
@@ -49,11 +51,6 @@ export default function NewSmtpCredentialPage() {
     const [selectedPool, setSelectedPool] = React.useState<IpPoolBrief | null>(null);
     const [query, setQuery] = React.useState('');
 
-    const authHeaders = React.useCallback((): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    }, []);
-
     const requestNewPoolHref = `/dashboard/company/${hash}/ip-pools`;
 
     // --- Load IP pools (try hash route, fallback to legacy) ---
@@ -73,7 +70,7 @@ export default function NewSmtpCredentialPage() {
 
                 let loaded: IpPoolBrief[] | null = null;
                 for (const url of urls) {
-                    const res = await fetch(url, { headers: authHeaders() });
+                    const res = await apiFetch(url);
                     if (res.ok) {
                         loaded = (await res.json()) as IpPoolBrief[];
                         break;
@@ -101,7 +98,7 @@ export default function NewSmtpCredentialPage() {
         return () => {
             abort = true;
         };
-    }, [authHeaders, baseUrl, hash]);
+    }, [baseUrl, hash]);
 
     const filteredPools =
         query.trim() === ''
@@ -137,9 +134,8 @@ export default function NewSmtpCredentialPage() {
         };
 
         try {
-            const res = await fetch(`${baseUrl}/companies/${hash}/smtp-credentials`, {
+            const res = await apiFetch(`${baseUrl}/companies/${hash}/smtp-credentials`, {
                 method: 'POST',
-                headers: authHeaders(),
                 body: JSON.stringify(payload),
             });
             if (!res.ok) throw new Error(`Create failed (${res.status})`);
@@ -202,162 +198,164 @@ export default function NewSmtpCredentialPage() {
             )}
 
             {/* Form */}
-            <form onSubmit={onSubmit} className="space-y-5 bg-white rounded-lg border p-5 shadow-sm">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div>
-                        <label className="block text-sm font-medium mb-1">Username prefix</label>
-                        <input name="username_prefix" placeholder="smtpuser" className="w-full rounded border px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500/30" />
-                        <p className="text-xs text-gray-500 mt-1">Final username is {`<prefix>@<domain>`} when used per-domain.</p>
-                    </div>
-                    <div>
-                        <label className="block text-sm font-medium mb-1">Domain hint</label>
-                        <input name="domain_hint" placeholder="example.com" className="w-full rounded border px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500/30" />
-                        <p className="text-xs text-gray-500 mt-1">Only used to render the example username in responses.</p>
-                    </div>
-                    <div>
-                        <label className="block text-sm font-medium mb-1">Scopes (CSV)</label>
-                        <input name="scopes" placeholder="submit" className="w-full rounded border px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500/30" />
-                    </div>
-
-                    {/* IP Pool – Modern searchable picker */}
-                    <div>
-                        <div className="flex items-center justify-between">
-                            <label className="block text-sm font-medium mb-1">IP Pool</label>
-                            <Link
-                                href={requestNewPoolHref}
-                                className="inline-flex items-center gap-1 text-xs text-blue-700 hover:underline"
-                                title="Request a new IP pool"
-                            >
-                                <LinkIcon className="h-4 w-4" />
-                                Request new IP pool
-                            </Link>
+            <Can permission="smtp.manage" fallback={<AccessDenied />}>
+                <form onSubmit={onSubmit} className="space-y-5 bg-white rounded-lg border p-5 shadow-sm">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Username prefix</label>
+                            <input name="username_prefix" placeholder="smtpuser" className="w-full rounded border px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500/30" />
+                            <p className="text-xs text-gray-500 mt-1">Final username is {`<prefix>@<domain>`} when used per-domain.</p>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Domain hint</label>
+                            <input name="domain_hint" placeholder="example.com" className="w-full rounded border px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500/30" />
+                            <p className="text-xs text-gray-500 mt-1">Only used to render the example username in responses.</p>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Scopes (CSV)</label>
+                            <input name="scopes" placeholder="submit" className="w-full rounded border px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500/30" />
                         </div>
 
-                        {poolsErr && <div className="text-xs text-red-600 mb-1">{poolsErr}</div>}
-
-                        {pools === null ? (
-                            <div className="flex items-center gap-2 rounded border px-3 py-2 text-sm text-gray-500">
-                                <MagnifyingGlassIcon className="h-4 w-4" /> Loading pools…
+                        {/* IP Pool – Modern searchable picker */}
+                        <div>
+                            <div className="flex items-center justify-between">
+                                <label className="block text-sm font-medium mb-1">IP Pool</label>
+                                <Link
+                                    href={requestNewPoolHref}
+                                    className="inline-flex items-center gap-1 text-xs text-blue-700 hover:underline"
+                                    title="Request a new IP pool"
+                                >
+                                    <LinkIcon className="h-4 w-4" />
+                                    Request new IP pool
+                                </Link>
                             </div>
-                        ) : (pools?.length ?? 0) > 0 ? (
-                            <>
-                                {/* Hidden input to submit the selected id */}
-                                <input type="hidden" name="ip_pool_id" value={selectedPool?.id ?? ''} />
-
-                                <Combobox value={selectedPool} onChange={setSelectedPool} nullable>
-                                    <div className="relative">
-                                        <div className="relative w-full cursor-default overflow-hidden rounded border bg-white text-left focus-within:ring-2 focus-within:ring-blue-500/30">
-                                            <Combobox.Input
-                                                className="w-full border-0 px-3 py-2 focus:outline-none"
-                                                displayValue={(p: IpPoolBrief | null) => (p ? p.name || `Pool #${p.id}` : '')}
-                                                onChange={(e) => setQuery(e.target.value)}
-                                                placeholder="Search pools…"
-                                            />
-                                            <Combobox.Button className="absolute inset-y-0 right-0 flex items-center pr-2">
-                                                <ChevronUpDownIcon className="h-5 w-5 text-gray-400" />
-                                            </Combobox.Button>
-                                        </div>
 
-                                        <Transition
-                                            leave="transition ease-in duration-100"
-                                            leaveFrom="opacity-100"
-                                            leaveTo="opacity-0"
-                                        >
-                                            <Combobox.Options className="absolute z-10 mt-1 max-h-60 w-full overflow-auto rounded-md bg-white py-1 shadow-lg ring-1 ring-black/5 focus:outline-none text-sm">
-                                                {filteredPools.length === 0 ? (
-                                                    <div className="px-3 py-2 text-gray-500">No matches</div>
-                                                ) : (
-                                                    filteredPools.map((p) => (
-                                                        <Combobox.Option
-                                                            key={p.id}
-                                                            value={p}
-                                                            className={({ active }) =>
-                                                                classNames(
-                                                                    active ? 'bg-blue-50 text-blue-900' : 'text-gray-900',
-                                                                    'cursor-default select-none py-2 pl-3 pr-3'
-                                                                )
-                                                            }
+                            {poolsErr && <div className="text-xs text-red-600 mb-1">{poolsErr}</div>}
+
+                            {pools === null ? (
+                                <div className="flex items-center gap-2 rounded border px-3 py-2 text-sm text-gray-500">
+                                    <MagnifyingGlassIcon className="h-4 w-4" /> Loading pools…
+                                </div>
+                            ) : (pools?.length ?? 0) > 0 ? (
+                                <>
+                                    {/* Hidden input to submit the selected id */}
+                                    <input type="hidden" name="ip_pool_id" value={selectedPool?.id ?? ''} />
+
+                                    <Combobox value={selectedPool} onChange={setSelectedPool} nullable>
+                                        <div className="relative">
+                                            <div className="relative w-full cursor-default overflow-hidden rounded border bg-white text-left focus-within:ring-2 focus-within:ring-blue-500/30">
+                                                <Combobox.Input
+                                                    className="w-full border-0 px-3 py-2 focus:outline-none"
+                                                    displayValue={(p: IpPoolBrief | null) => (p ? p.name || `Pool #${p.id}` : '')}
+                                                    onChange={(e) => setQuery(e.target.value)}
+                                                    placeholder="Search pools…"
+                                                />
+                                                <Combobox.Button className="absolute inset-y-0 right-0 flex items-center pr-2">
+                                                    <ChevronUpDownIcon className="h-5 w-5 text-gray-400" />
+                                                </Combobox.Button>
+                                            </div>
+
+                                            <Transition
+                                                leave="transition ease-in duration-100"
+                                                leaveFrom="opacity-100"
+                                                leaveTo="opacity-0"
+                                            >
+                                                <Combobox.Options className="absolute z-10 mt-1 max-h-60 w-full overflow-auto rounded-md bg-white py-1 shadow-lg ring-1 ring-black/5 focus:outline-none text-sm">
+                                                    {filteredPools.length === 0 ? (
+                                                        <div className="px-3 py-2 text-gray-500">No matches</div>
+                                                    ) : (
+                                                        filteredPools.map((p) => (
+                                                            <Combobox.Option
+                                                                key={p.id}
+                                                                value={p}
+                                                                className={({ active }) =>
+                                                                    classNames(
+                                                                        active ? 'bg-blue-50 text-blue-900' : 'text-gray-900',
+                                                                        'cursor-default select-none py-2 pl-3 pr-3'
+                                                                    )
+                                                                }
+                                                            >
+                                                                <div className="flex items-center justify-between">
+                                                                    <span className="truncate">{p.name || `Pool #${p.id}`}</span>
+                                                                    <span className="ml-2 text-xs text-gray-500">#{p.id}</span>
+                                                                </div>
+                                                            </Combobox.Option>
+                                                        ))
+                                                    )}
+
+                                                    {/* Footer action inside the dropdown */}
+                                                    <div className="mt-1 border-t pt-1">
+                                                        <Link
+                                                            href={requestNewPoolHref}
+                                                            className="flex items-center gap-2 px-3 py-2 text-blue-700 hover:bg-blue-50"
                                                         >
-                                                            <div className="flex items-center justify-between">
-                                                                <span className="truncate">{p.name || `Pool #${p.id}`}</span>
-                                                                <span className="ml-2 text-xs text-gray-500">#{p.id}</span>
-                                                            </div>
-                                                        </Combobox.Option>
-                                                    ))
-                                                )}
-
-                                                {/* Footer action inside the dropdown */}
-                                                <div className="mt-1 border-t pt-1">
-                                                    <Link
-                                                        href={requestNewPoolHref}
-                                                        className="flex items-center gap-2 px-3 py-2 text-blue-700 hover:bg-blue-50"
-                                                    >
-                                                        <LinkIcon className="h-4 w-4" />
-                                                        Request a new IP pool
-                                                    </Link>
-                                                </div>
-                                            </Combobox.Options>
-                                        </Transition>
+                                                            <LinkIcon className="h-4 w-4" />
+                                                            Request a new IP pool
+                                                        </Link>
+                                                    </div>
+                                                </Combobox.Options>
+                                            </Transition>
+                                        </div>
+                                    </Combobox>
+                                </>
+                            ) : (
+                                <div className="rounded border p-3">
+                                    <div className="text-sm text-gray-600">No IP pools found.</div>
+                                    <div className="mt-2 flex items-center gap-2">
+                                        <input
+                                            name="ip_pool_id"
+                                            type="number"
+                                            placeholder="Enter pool id (optional)"
+                                            className="w-40 rounded border px-3 py-2"
+                                        />
+                                        <Link
+                                            href={requestNewPoolHref}
+                                            className="text-sm text-blue-700 hover:underline"
+                                            title="Request a new IP pool"
+                                        >
+                                            Request new IP pool →
+                                        </Link>
                                     </div>
-                                </Combobox>
-                            </>
-                        ) : (
-                            <div className="rounded border p-3">
-                                <div className="text-sm text-gray-600">No IP pools found.</div>
-                                <div className="mt-2 flex items-center gap-2">
-                                    <input
-                                        name="ip_pool_id"
-                                        type="number"
-                                        placeholder="Enter pool id (optional)"
-                                        className="w-40 rounded border px-3 py-2"
-                                    />
-                                    <Link
-                                        href={requestNewPoolHref}
-                                        className="text-sm text-blue-700 hover:underline"
-                                        title="Request a new IP pool"
-                                    >
-                                        Request new IP pool →
-                                    </Link>
                                 </div>
-                            </div>
-                        )}
-                    </div>
+                            )}
+                        </div>
 
-                    <div>
-                        <label className="block text-sm font-medium mb-1">Max messages / minute</label>
-                        <input
-                            name="max_msgs_min"
-                            type="number"
-                            min={0}
-                            defaultValue={0}
-                            className="w-full rounded border px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500/30"
-                        />
-                    </div>
-                    <div>
-                        <label className="block text-sm font-medium mb-1">Max recipients / message</label>
-                        <input
-                            name="max_rcpt_msg"
-                            type="number"
-                            min={0}
-                            defaultValue={0}
-                            className="w-full rounded border px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500/30"
-                        />
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Max messages / minute</label>
+                            <input
+                                name="max_msgs_min"
+                                type="number"
+                                min={0}
+                                defaultValue={0}
+                                className="w-full rounded border px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500/30"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Max recipients / message</label>
+                            <input
+                                name="max_rcpt_msg"
+                                type="number"
+                                min={0}
+                                defaultValue={0}
+                                className="w-full rounded border px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500/30"
+                            />
+                        </div>
                     </div>
-                </div>
 
-                <div className="flex items-center justify-end gap-2">
-                    <button
-                        type="button"
-                        onClick={() => router.push(`/dashboard/company/${hash}/smtp`)}
-                        className="px-4 py-2 rounded border hover:bg-gray-50"
-                    >
-                        Cancel
-                    </button>
-                    <button type="submit" disabled={busy} className="px-4 py-2 rounded bg-blue-700 text-white hover:bg-blue-800">
-                        {busy ? 'Creating…' : 'Create'}
-                    </button>
-                </div>
-            </form>
+                    <div className="flex items-center justify-end gap-2">
+                        <button
+                            type="button"
+                            onClick={() => router.push(`/dashboard/company/${hash}/smtp`)}
+                            className="px-4 py-2 rounded border hover:bg-gray-50"
+                        >
+                            Cancel
+                        </button>
+                        <button type="submit" disabled={busy} className="px-4 py-2 rounded bg-blue-700 text-white hover:bg-blue-800">
+                            {busy ? 'Creating…' : 'Create'}
+                        </button>
+                    </div>
+                </form>
+            </Can>
         </div>
     );
 }
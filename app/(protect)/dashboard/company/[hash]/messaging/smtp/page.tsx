@@ -12,6 +12,8 @@ import {
     CheckCircleIcon,
 } from '@heroicons/react/24/outline';
 import copy from 'copy-to-clipboard';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
+import Can from '@/components/company/Can';
 
 type Cred = {
     id: number;
@@ -28,7 +30,7 @@ type ListResp = { items: Cred[]; total: number };
 export default function CompanySmtpListPage() {
     const router = useRouter();
     const { hash } = useParams<{ hash: string }>();
-    const baseUrl = process.env.NEXT_PUBLIC_BACKEND_URL as string | undefined;
+    const baseUrl = BACKEND_URL;
 
     const [data, setData] = React.useState<ListResp | null>(null);
     const [loading, setLoading] = React.useState(true);
@@ -38,11 +40,6 @@ export default function CompanySmtpListPage() {
     const [lastPassword, setLastPassword] = React.useState<string | null>(null);
     const [copied, setCopied] = React.useState(false);
 
-    const authHeaders = React.useCallback((): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    }, []);
-
     const listUrl = React.useMemo(() => {
         if (!baseUrl) return null;
         return `${baseUrl}/companies/${hash}/smtp-credentials`;
@@ -56,7 +53,7 @@ export default function CompanySmtpListPage() {
             setLoading(true);
             setErr(null);
             try {
-                const res = await fetch(listUrl, { headers: authHeaders() });
+                const res = await apiFetch(listUrl);
                 if (!res.ok) throw new Error(`Failed to load credentials (${res.status})`);
                 const json: ListResp = await res.json();
                 if (!abort) setData(json);
@@ -68,16 +65,15 @@ export default function CompanySmtpListPage() {
         })();
 
         return () => { abort = true; };
-    }, [listUrl, authHeaders]);
+    }, [listUrl]);
 
     async function rotatePassword(id: number) {
         if (!baseUrl) return;
         setRotatingId(id);
         setLastPassword(null);
         try {
-            const res = await fetch(`${baseUrl}/companies/${hash}/smtp-credentials/${id}/rotate`, {
+            const res = await apiFetch(`${baseUrl}/companies/${hash}/smtp-credentials/${id}/rotate`, {
                 method: 'POST',
-                headers: authHeaders(),
             });
             if (!res.ok) throw new Error(`Rotate failed (${res.status})`);
             const j = await res.json();
@@ -95,9 +91,8 @@ export default function CompanySmtpListPage() {
         if (!confirm('Are you sure you want to delete this SMTP credential?')) return;
         setDeletingId(id);
         try {
-            const res = await fetch(`${baseUrl}/companies/${hash}/smtp-credentials/${id}`, {
+            const res = await apiFetch(`${baseUrl}/companies/${hash}/smtp-credentials/${id}`, {
                 method: 'DELETE',
-                headers: authHeaders(),
             });
             if (!res.ok && res.status !== 204) throw new Error(`Delete failed (${res.status})`);
             setData((prev) => prev ? { ...prev, items: prev.items.filter(i => i.id !== id), total: prev.total - 1 } : prev);
@@ -186,22 +181,24 @@ export default function CompanySmtpListPage() {
                                     >
                                         View
                                     </Link>
-                                    <button
-                                        onClick={() => rotatePassword(c.id)}
-                                        disabled={rotatingId === c.id}
-                                        className="inline-flex items-center gap-1 rounded border px-2 py-1 hover:bg-gray-50"
-                                    >
-                                        <ArrowPathIcon className={`h-4 w-4 ${rotatingId === c.id ? 'animate-spin' : ''}`} />
-                                        Rotate
-                                    </button>
-                                    <button
-                                        onClick={() => deleteCred(c.id)}
-                                        disabled={deletingId === c.id}
-                                        className="inline-flex items-center gap-1 rounded border px-2 py-1 text-red-700 hover:bg-red-50"
-                                    >
-                                        <TrashIcon className="h-4 w-4" />
-                                        Delete
-                                    </button>
+                                    <Can permission="smtp.manage">
+                                        <button
+                                            onClick={() => rotatePassword(c.id)}
+                                            disabled={rotatingId === c.id}
+                                            className="inline-flex items-center gap-1 rounded border px-2 py-1 hover:bg-gray-50"
+                                        >
+                                            <ArrowPathIcon className={`h-4 w-4 ${rotatingId === c.id ? 'animate-spin' : ''}`} />
+                                            Rotate
+                                        </button>
+                                        <button
+                                            onClick={() => deleteCred(c.id)}
+                                            disabled={deletingId === c.id}
+                                            className="inline-flex items-center gap-1 rounded border px-2 py-1 text-red-700 hover:bg-red-50"
+                                        >
+                                            <TrashIcon className="h-4 w-4" />
+                                            Delete
+                                        </button>
+                                    </Can>
                                 </div>
                             </td>
                         </tr>
@@ -32,6 +32,7 @@ import {
     UserGroupIcon as UserGroupSolid,
 } from '@heroicons/react/24/solid';
 import copy from 'copy-to-clipboard';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
 
 /* ---------- Types ---------- */
 interface UserBrief   { id: number; email: string; fullName: string | null }
@@ -210,16 +211,11 @@ export default function CompanyDetailPage() {
     const [domainsLoading, setDomLoading] = useState(true);
     const [domainsError, setDomError] = useState<string | null>(null);
 
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
-
     // Load company
     useEffect(() => {
         (async () => {
             try {
-                const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/companies/${hash}`, { headers: authHeaders() });
+                const res = await apiFetch(`${BACKEND_URL}/companies/${hash}`);
                 if (res.status === 403) { setError('You don\'t have access to this company.'); return; }
                 if (!res.ok) throw new Error(`Failed to load company: ${res.status}`);
 
@@ -245,10 +241,7 @@ export default function CompanyDetailPage() {
     useEffect(() => {
         (async () => {
             try {
-                const res = await fetch(
-                    `${process.env.NEXT_PUBLIC_BACKEND_URL}/companies/${hash}/domains`,
-                    { headers: authHeaders() }
-                );
+                const res = await apiFetch(`${BACKEND_URL}/companies/${hash}/domains`);
                 if (res.status === 403) { setDomError('You don\'t have access to this company\'s domains.'); return; }
                 if (!res.ok) throw new Error(`Failed to load domains: ${res.status}`);
                 const data: DomainBrief[] = await res.json();
@@ -32,6 +32,7 @@ import {
     Area,
     AreaChart,
 } from "recharts";
+import { BACKEND_URL, apiFetch } from "@/lib/api";
 
 /* ================= Types ================= */
 type Iso = string;
@@ -56,7 +57,7 @@ type ReputationHistoryResponse = {
 type LinePoint = { date: string; [provider: string]: number | string };
 
 /* ================= Constants & Helpers ================= */
-const backend = process.env.NEXT_PUBLIC_BACKEND_URL || "";
+const backend = BACKEND_URL;
 const QUICK_RANGES = [
     { label: 'Last 7 Days', days: 7 },
     { label: 'Last 14 Days', days: 14 },
@@ -77,11 +78,6 @@ const CHART_COLORS = [
     '#f97316', // orange
 ];
 
-function authHeaders(): HeadersInit {
-    const token = typeof window !== "undefined" ? localStorage.getItem("jwt") : null;
-    return { "Content-Type": "application/json", ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-}
-
 function todayYMD() {
     return new Date().toISOString().slice(0, 10);
 }
@@ -248,7 +244,7 @@ export default function CompanyReputationPage() {
                 setLoading(true);
                 setError(null);
                 const url = `${backend}/companies/${hash}/reputation/history?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`;
-                const res = await fetch(url, { headers: authHeaders() });
+                const res = await apiFetch(url);
                 if (!res.ok) throw new Error(`Failed: ${res.status}`);
                 const json: ReputationHistoryResponse = await res.json();
                 if (aborted) return;
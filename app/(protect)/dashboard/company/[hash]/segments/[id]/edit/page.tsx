@@ -10,59 +10,24 @@ import {
     PencilSquareIcon,
     FunnelIcon,
     UsersIcon,
-    EnvelopeIcon,
-    ShieldCheckIcon,
-    ListBulletIcon,
-    XMarkIcon,
     SparklesIcon,
     HashtagIcon,
     BeakerIcon,
     CheckCircleIcon,
-    ExclamationTriangleIcon,
-    UserGroupIcon
+    ExclamationTriangleIcon
 } from '@heroicons/react/24/outline';
 import {
     CheckCircleIcon as CheckCircleSolid,
     ExclamationTriangleIcon as ExclamationTriangleSolid,
     InformationCircleIcon as InformationCircleSolid
 } from '@heroicons/react/24/solid';
-
-/* ---------- Types ---------- */
-type Definition = {
-    status?: string;
-    email_contains?: string;
-    gdpr_consent?: boolean;
-    in_list_ids?: number[];
-    not_in_list_ids?: number[];
-};
-
-type Segment = {
-    id: number;
-    name: string;
-    definition: Definition | null;
-    materialized_count: number | null;
-    last_built_at: string | null;
-    hash?: string | null;
-};
-
-type ListSummary = {
-    id: number;
-    name: string;
-    created_at?: string | null;
-    counts?: { contacts?: number | null; campaigns?: number | null };
-};
-
-type ApiPaged<T> = {
-    meta: { page: number; perPage: number; total: number; totalPages: number };
-    items: T[];
-};
-
-type BuildDryRunResponse = {
-    segment: Segment;
-    matches: number;
-    sample: Array<{ id: number; email: string | null; name: string | null; status: string | null }>;
-    dryRun: boolean;
-};
+import RuleBuilder from '@/components/segments/RuleBuilder';
+import { useAttributeKeys } from '@/components/segments/useAttributeKeys';
+import { useCampaignOptions } from '@/components/segments/useCampaignOptions';
+import { api, errorMessage } from '@/lib/api';
+import { countRules, createGroup, ruleDefinition, parseDefinition, toDefinition, validateRules } from '@/lib/segment-rules/rules';
+import type { BuildDryRunResponse, ListGroup } from '@/types/api';
+import type { RuleGroup, SegmentRule } from '@/types/segment-rules';
 
 /* ---------- Component ---------- */
 export default function SegmentEditPage() {
@@ -79,65 +44,41 @@ export default function SegmentEditPage() {
         return Number.isFinite(n) ? n : null;
     })();
 
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
-
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
-
-    /* ---------- Lists (for in/not-in pickers) ---------- */
-    const listsUrl = useMemo(() => {
-        if (!backend || !hash) return null;
-        return `${backend}/companies/${hash}/lists?perPage=200`;
-    }, [backend, hash]);
-
-    const [lists, setLists] = useState<ListSummary[]>([]);
+    /* ---------- Lists (for list membership rules) ---------- */
+    const [lists, setLists] = useState<ListGroup[]>([]);
     const [listsErr, setListsErr] = useState<string | null>(null);
 
     useEffect(() => {
-        if (!listsUrl) return;
+        if (!hash) return;
         let abort = false;
         (async () => {
             setListsErr(null);
             try {
-                const res = await fetch(listsUrl, { headers: authHeaders() });
-                if (!res.ok) throw new Error(`Failed to load lists (${res.status})`);
-                const json: ApiPaged<ListSummary> = await res.json();
+                const json = await api.lists.list(hash, { query: { perPage: 200 } });
                 if (!abort) setLists(json.items || []);
             } catch (e) {
-                if (!abort) setListsErr(e instanceof Error ? e.message : String(e));
+                if (!abort) setListsErr(errorMessage(e));
             }
         })();
         return () => {
             abort = true;
         };
-    }, [listsUrl]);
+    }, [hash]);
+
+    const attributeKeys = useAttributeKeys(hash);
+    const campaigns = useCampaignOptions(hash);
 
     /* ---------- Form state ---------- */
     const [segmentId, setSegmentId] = useState<number | null>(segmentIdFromRoute);
     const [segmentHash, setSegmentHash] = useState<string | null>(null);
     const [name, setName] = useState('');
-    const [status, setStatus] = useState<string>('');
-    const [emailContains, setEmailContains] = useState('');
-    const [gdprConsent, setGdprConsent] = useState<'ignore' | 'true' | 'false'>('ignore');
-    const [inListIds, setInListIds] = useState<number[]>([]);
-    const [notInListIds, setNotInListIds] = useState<number[]>([]);
+    const [rules, setRules] = useState<RuleGroup>(() => createGroup());
 
     /* ---------- Load segment ---------- */
-    const segmentUrl = useMemo(() => {
-        if (!backend || !hash || segmentIdFromRoute == null) return null;
-        return `${backend}/companies/${hash}/segments/${segmentIdFromRoute}`;
-    }, [backend, hash, segmentIdFromRoute]);
-
     const [loadErr, setLoadErr] = useState<string | null>(null);
     const [loading, setLoading] = useState<boolean>(false);
 
     useEffect(() => {
-        if (!backend) {
-            setLoadErr('Missing NEXT_PUBLIC_BACKEND_URL');
-            return;
-        }
         if (!hash) {
             setLoadErr('Missing company hash in route');
             return;
@@ -146,7 +87,6 @@ export default function SegmentEditPage() {
             setLoadErr('Missing or invalid segment id in route');
             return;
         }
-        if (!segmentUrl) return;
 
         let abort = false;
         setLoading(true);
@@ -154,23 +94,16 @@ export default function SegmentEditPage() {
 
         (async () => {
             try {
-                const res = await fetch(segmentUrl, { headers: authHeaders() });
-                if (!res.ok) throw new Error(`Failed to load segment (${res.status})`);
-                const s: Segment = await res.json();
+                const s = await api.segments.get(hash, segmentIdFromRoute);
                 if (abort) return;
 
                 setSegmentId(s.id);
                 setSegmentHash(s.hash ?? null);
                 setName(s.name ?? '');
-
-                const def: Definition = s.definition ?? {};
-                setStatus(typeof def.status === 'string' ? def.status : '');
-                setEmailContains(typeof def.email_contains === 'string' ? def.email_contains : '');
-                setGdprConsent(typeof def.gdpr_consent === 'boolean' ? (def.gdpr_consent ? 'true' : 'false') : 'ignore');
-                setInListIds(Array.isArray(def.in_list_ids) ? def.in_list_ids.map(Number) : []);
-                setNotInListIds(Array.isArray(def.not_in_list_ids) ? def.not_in_list_ids.map(Number) : []);
+                // legacy flat definitions load as a single AND group
+                setRules(parseDefinition(s.definition));
             } catch (e) {
-                if (!abort) setLoadErr(e instanceof Error ? e.message : String(e));
+                if (!abort) setLoadErr(errorMessage(e));
             } finally {
                 if (!abort) setLoading(false);
             }
@@ -179,7 +112,7 @@ export default function SegmentEditPage() {
         return () => {
             abort = true;
         };
-    }, [segmentUrl, backend, hash, segmentIdFromRoute]);
+    }, [hash, segmentIdFromRoute]);
 
     /* ---------- UI state ---------- */
     const [saving, setSaving] = useState(false);
@@ -192,44 +125,27 @@ export default function SegmentEditPage() {
     const backHref = `/dashboard/company/${hash}/segments`;
 
     /* ---------- Helpers ---------- */
-    function buildDefinition(): Definition {
-        const def: Definition = {};
-        if (status.trim() !== '') def.status = status.trim();
-        if (emailContains.trim() !== '') def.email_contains = emailContains.trim();
-        if (gdprConsent !== 'ignore') def.gdpr_consent = gdprConsent === 'true';
-        if (inListIds.length > 0) def.in_list_ids = inListIds;
-        if (notInListIds.length > 0) def.not_in_list_ids = notInListIds;
-        return def;
-    }
+    const issues = useMemo(() => validateRules(rules), [rules]);
+    const hasErrors = issues.some((i) => i.severity === 'error');
 
-    function toggleInList(id: number) {
-        setInListIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
-        setNotInListIds((prev) => prev.filter((x) => x !== id));
-    }
-
-    function toggleNotInList(id: number) {
-        setNotInListIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
-        setInListIds((prev) => prev.filter((x) => x !== id));
-    }
+    // Counts one rule through a dry-run build of the saved segment with just that rule
+    const countRule = segmentId == null
+        ? undefined
+        : (rule: SegmentRule) => api.segments.build(hash, segmentId, { dryRun: true, definition: ruleDefinition(rule) }).then((r) => r.matches);
+    const ruleCount = countRules(rules);
 
     async function savePatchOnly() {
-        if (!backend) throw new Error('Missing backend URL');
         if (!hash) throw new Error('Missing company hash');
         if (!segmentId) throw new Error('Missing segment id');
 
         const body = {
             name: name.trim(),
-            definition: buildDefinition(),
+            definition: toDefinition(rules),
         };
         if (!body.name) throw new Error('Please enter a segment name');
+        if (hasErrors) throw new Error('Please fix the errors shown in the rules');
 
-        const res = await fetch(`${backend}/companies/${hash}/segments/${segmentId}`, {
-            method: 'PATCH',
-            headers: authHeaders(),
-            body: JSON.stringify(body),
-        });
-        if (!res.ok) throw new Error(`Save failed (${res.status})`);
-        const s: Segment = await res.json();
+        const s = await api.segments.update(hash, segmentId, body);
 
         setName(s.name ?? body.name);
         setSegmentId(s.id);
@@ -246,7 +162,7 @@ export default function SegmentEditPage() {
             setSaveSuccess(true);
             setTimeout(() => setSaveSuccess(false), 3000);
         } catch (e) {
-            setSaveErr(e instanceof Error ? e.message : String(e));
+            setSaveErr(errorMessage(e));
         } finally {
             setSaving(false);
         }
@@ -259,7 +175,7 @@ export default function SegmentEditPage() {
             await savePatchOnly();
             router.push(backHref);
         } catch (e) {
-            setSaveErr(e instanceof Error ? e.message : String(e));
+            setSaveErr(errorMessage(e));
             setSaving(false);
         }
     }
@@ -270,16 +186,9 @@ export default function SegmentEditPage() {
         setPreviewing(true);
         try {
             const id = await savePatchOnly();
-            const res = await fetch(`${backend}/companies/${hash}/segments/${id}/build`, {
-                method: 'POST',
-                headers: authHeaders(),
-                body: JSON.stringify({ dryRun: true }),
-            });
-            if (!res.ok) throw new Error(`Preview failed (${res.status})`);
-            const json: BuildDryRunResponse = await res.json();
-            setPreview(json);
+            setPreview(await api.segments.build(hash, id, { dryRun: true }));
         } catch (e) {
-            setPreviewErr(e instanceof Error ? e.message : String(e));
+            setPreviewErr(errorMessage(e));
         } finally {
             setPreviewing(false);
         }
@@ -388,7 +297,7 @@ export default function SegmentEditPage() {
                     <div className="flex items-center gap-2">
                         <button
                             onClick={onSaveOnly}
-                            disabled={saving}
+                            disabled={saving || hasErrors}
                             className="inline-flex items-center gap-2 rounded-lg bg-gray-100 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
                         >
                             {saving ? (
@@ -408,7 +317,7 @@ export default function SegmentEditPage() {
                         </button>
                         <button
                             onClick={onSaveAndClose}
-                            disabled={saving}
+                            disabled={saving || hasErrors}
                             className="inline-flex items-center gap-2 rounded-lg bg-gradient-to-r from-indigo-500 to-indigo-600 px-4 py-2 text-sm font-medium text-white hover:from-indigo-600 hover:to-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-sm"
                         >
                             <CheckCircleIcon className="h-4 w-4" />
@@ -467,189 +376,35 @@ export default function SegmentEditPage() {
                     </div>
                 </div>
 
-                {/* Filter Criteria */}
+                {/* Rules */}
                 <div className="rounded-xl bg-white shadow-sm ring-1 ring-gray-200 overflow-hidden">
                     <div className="bg-gradient-to-r from-indigo-500 to-indigo-600 px-6 py-4">
-                        <div className="flex items-center gap-2 text-white">
-                            <FunnelIcon className="h-5 w-5" />
-                            <h3 className="text-sm font-semibold uppercase tracking-wider">Filter Criteria</h3>
-                        </div>
-                    </div>
-                    <div className="p-6">
-                        <div className="grid md:grid-cols-2 gap-6">
-                            {/* Status Filter */}
-                            <div>
-                                <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
-                                    <CheckCircleIcon className="h-4 w-4 text-gray-400" />
-                                    Contact Status
-                                </label>
-                                <select
-                                    value={status}
-                                    onChange={(e) => setStatus(e.target.value)}
-                                    className="w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
-                                >
-                                    <option value="">All statuses</option>
-                                    <option value="subscribed">✅ Subscribed</option>
-                                    <option value="unsubscribed">❌ Unsubscribed</option>
-                                    <option value="bounced">⚠️ Bounced</option>
-                                    <option value="complained">🚫 Complained</option>
-                                </select>
-                                <p className="mt-1 text-xs text-gray-500">Filter contacts by their subscription status</p>
-                            </div>
-
-                            {/* Email Contains */}
-                            <div>
-                                <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
-                                    <EnvelopeIcon className="h-4 w-4 text-gray-400" />
-                                    Email Contains
-                                </label>
-                                <input
-                                    value={emailContains}
-                                    onChange={(e) => setEmailContains(e.target.value)}
-                                    placeholder="@example.com"
-                                    className="w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
-                                />
-                                <p className="mt-1 text-xs text-gray-500">Case-insensitive substring match</p>
-                            </div>
-
-                            {/* GDPR Consent */}
-                            <div>
-                                <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
-                                    <ShieldCheckIcon className="h-4 w-4 text-gray-400" />
-                                    GDPR Consent
-                                </label>
-                                <select
-                                    value={gdprConsent}
-                                    onChange={(e) => setGdprConsent(e.target.value as 'ignore' | 'true' | 'false')}
-                                    className="w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
-                                >
-                                    <option value="ignore">All contacts</option>
-                                    <option value="true">✅ Has consent</option>
-                                    <option value="false">❌ No consent</option>
-                                </select>
-                                <p className="mt-1 text-xs text-gray-500">Filter by GDPR consent status</p>
-                            </div>
-                        </div>
-                    </div>
-                </div>
-
-                {/* List Membership */}
-                <div className="rounded-xl bg-white shadow-sm ring-1 ring-gray-200 overflow-hidden">
-                    <div className="bg-gradient-to-r from-purple-500 to-purple-600 px-6 py-4">
                         <div className="flex items-center justify-between">
                             <div className="flex items-center gap-2 text-white">
-                                <ListBulletIcon className="h-5 w-5" />
-                                <h3 className="text-sm font-semibold uppercase tracking-wider">List Membership</h3>
+                                <FunnelIcon className="h-5 w-5" />
+                                <h3 className="text-sm font-semibold uppercase tracking-wider">Segment Rules</h3>
                             </div>
-                            {listsErr && (
+                            {listsErr ? (
                                 <span className="text-xs text-red-200 bg-red-900/20 px-2 py-1 rounded">
                                     {listsErr}
                                 </span>
+                            ) : (
+                                <span className="text-xs text-indigo-100">
+                                    {ruleCount} condition{ruleCount !== 1 ? 's' : ''}
+                                </span>
                             )}
                         </div>
                     </div>
                     <div className="p-6">
-                        <div className="grid md:grid-cols-2 gap-6">
-                            {/* Include Lists */}
-                            <div>
-                                <div className="flex items-center justify-between mb-3">
-                                    <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
-                                        <UserGroupIcon className="h-4 w-4 text-emerald-500" />
-                                        Must be in ANY of these lists
-                                    </label>
-                                    <span className="inline-flex items-center rounded-full bg-emerald-100 px-2 py-1 text-xs font-medium text-emerald-700">
-                                        {inListIds.length} selected
-                                    </span>
-                                </div>
-                                <div className="rounded-lg border border-gray-200 bg-gray-50 max-h-60 overflow-y-auto">
-                                    {lists.length === 0 ? (
-                                        <div className="p-4 text-center text-sm text-gray-500">
-                                            <ListBulletIcon className="mx-auto h-8 w-8 text-gray-300 mb-2" />
-                                            No lists available
-                                        </div>
-                                    ) : (
-                                        <div className="p-2">
-                                            {lists.map((list) => (
-                                                <label
-                                                    key={list.id}
-                                                    className={`flex items-center gap-3 rounded-lg p-2 cursor-pointer transition-all hover:bg-white ${
-                                                        inListIds.includes(list.id) ? 'bg-emerald-50 ring-1 ring-emerald-200' : ''
-                                                    }`}
-                                                >
-                                                    <input
-                                                        type="checkbox"
-                                                        checked={inListIds.includes(list.id)}
-                                                        onChange={() => toggleInList(list.id)}
-                                                        className="h-4 w-4 rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
-                                                    />
-                                                    <span className={`text-sm ${inListIds.includes(list.id) ? 'font-medium text-emerald-900' : 'text-gray-700'}`}>
-                                                        {list.name}
-                                                    </span>
-                                                    {list.counts?.contacts && (
-                                                        <span className="ml-auto text-xs text-gray-500">
-                                                            {list.counts.contacts.toLocaleString()} contacts
-                                                        </span>
-                                                    )}
-                                                </label>
-                                            ))}
-                                        </div>
-                                    )}
-                                </div>
-                                <p className="mt-2 text-xs text-gray-500">
-                                    Contacts must be in at least one selected list
-                                </p>
-                            </div>
-
-                            {/* Exclude Lists */}
-                            <div>
-                                <div className="flex items-center justify-between mb-3">
-                                    <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
-                                        <XMarkIcon className="h-4 w-4 text-red-500" />
-                                        Must NOT be in any of these lists
-                                    </label>
-                                    <span className="inline-flex items-center rounded-full bg-red-100 px-2 py-1 text-xs font-medium text-red-700">
-                                        {notInListIds.length} selected
-                                    </span>
-                                </div>
-                                <div className="rounded-lg border border-gray-200 bg-gray-50 max-h-60 overflow-y-auto">
-                                    {lists.length === 0 ? (
-                                        <div className="p-4 text-center text-sm text-gray-500">
-                                            <ListBulletIcon className="mx-auto h-8 w-8 text-gray-300 mb-2" />
-                                            No lists available
-                                        </div>
-                                    ) : (
-                                        <div className="p-2">
-                                            {lists.map((list) => (
-                                                <label
-                                                    key={list.id}
-                                                    className={`flex items-center gap-3 rounded-lg p-2 cursor-pointer transition-all hover:bg-white ${
-                                                        notInListIds.includes(list.id) ? 'bg-red-50 ring-1 ring-red-200' : ''
-                                                    }`}
-                                                >
-                                                    <input
-                                                        type="checkbox"
-                                                        checked={notInListIds.includes(list.id)}
-                                                        onChange={() => toggleNotInList(list.id)}
-                                                        className="h-4 w-4 rounded border-gray-300 text-red-600 focus:ring-red-500"
-                                                    />
-                                                    <span className={`text-sm ${notInListIds.includes(list.id) ? 'font-medium text-red-900' : 'text-gray-700'}`}>
-                                                        {list.name}
-                                                    </span>
-                                                    {list.counts?.contacts && (
-                                                        <span className="ml-auto text-xs text-gray-500">
-                                                            {list.counts.contacts.toLocaleString()} contacts
-                                                        </span>
-                                                    )}
-                                                </label>
-                                            ))}
-                                        </div>
-                                    )}
-                                </div>
-                                <p className="mt-2 text-xs text-gray-500">
-                                    Contacts will be excluded if in any selected list
-                                </p>
-                            </div>
-                        </div>
+                        <RuleBuilder
+                            value={rules}
+                            onChange={setRules}
+                            lists={lists}
+                            campaigns={campaigns}
+                            attributeKeys={attributeKeys}
+                            issues={issues}
+                            onCount={countRule}
+                        />
                     </div>
                 </div>
 
@@ -657,7 +412,7 @@ export default function SegmentEditPage() {
                 <div className="flex items-center gap-3">
                     <button
                         onClick={onPreviewDryRun}
-                        disabled={previewing || !segmentId}
+                        disabled={previewing || !segmentId || hasErrors}
                         className="inline-flex items-center gap-2 rounded-lg bg-gradient-to-r from-purple-500 to-purple-600 px-4 py-2 text-sm font-medium text-white hover:from-purple-600 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-sm"
                     >
                         {previewing ? (
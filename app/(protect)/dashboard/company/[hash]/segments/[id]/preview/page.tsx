@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import {
@@ -17,39 +17,24 @@ import {
     UserIcon,
     CheckIcon,
     XMarkIcon,
+    ClockIcon,
+    ChartBarIcon,
+    ListBulletIcon,
 } from '@heroicons/react/24/outline';
 import {
     CheckCircleIcon as CheckCircleSolid,
     ExclamationTriangleIcon as ExclamationTriangleSolid
 } from '@heroicons/react/24/solid';
+import { api, errorMessage } from '@/lib/api';
+import { describeRules, parseDefinition } from '@/lib/segment-rules/rules';
+import { describeSchedule } from '@/lib/segment-rules/schedule';
+import BuildHistory from '@/components/segments/BuildHistory';
+import GrowthChart from '@/components/segments/GrowthChart';
+import RebuildSchedule from '@/components/segments/RebuildSchedule';
+import type { ApiPaged, ListGroup, Segment, SegmentPreviewRow } from '@/types/api';
+import type { SegmentDefinition } from '@/types/segment-rules';
 
 /* ---------- Types ---------- */
-type Definition = {
-    status?: string;
-    email_contains?: string;
-    gdpr_consent?: boolean;
-    in_list_ids?: number[];
-    not_in_list_ids?: number[];
-};
-
-type Segment = {
-    id: number;
-    name: string;
-    definition: Definition | null;
-    materialized_count: number | null;
-    last_built_at: string | null;
-    hash?: string | null;
-};
-
-type ApiPaged<T> = {
-    meta: { page: number; perPage: number; total: number; totalPages: number };
-    items: T[];
-};
-
-type PreviewRow = { id: number; email: string | null; name: string | null; status: string | null };
-
-type ListSummary = { id: number; name: string };
-
 type IconComponent = React.ComponentType<React.SVGProps<SVGSVGElement>>;
 type ChipColor = 'green' | 'blue' | 'emerald' | 'red' | 'indigo' | 'purple';
 
@@ -81,13 +66,6 @@ export default function SegmentPreviewPage() {
     const page = Math.max(1, parseInt(search.get('page') || '1', 10) || 1);
     const perPage = Math.min(200, Math.max(1, parseInt(search.get('perPage') || '25', 10) || 25));
 
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
-
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
-
     const backHref = `/dashboard/company/${hash}/segments`;
 
     /* ---------- Data: segment ---------- */
@@ -95,121 +73,94 @@ export default function SegmentPreviewPage() {
     const [segErr, setSegErr] = useState<string | null>(null);
     const [segLoading, setSegLoading] = useState(false);
 
-    const segUrl = useMemo(() => {
-        if (!backend || !hash || segmentId == null) return null;
-        return `${backend}/companies/${hash}/segments/${segmentId}`;
-    }, [backend, hash, segmentId]);
-
     useEffect(() => {
-        if (!backend) { setSegErr('Missing NEXT_PUBLIC_BACKEND_URL'); return; }
         if (!hash) { setSegErr('Missing company hash in route'); return; }
         if (segmentId == null) { setSegErr('Missing or invalid segment id'); return; }
-        if (!segUrl) return;
 
         let abort = false;
         (async () => {
             setSegLoading(true);
             setSegErr(null);
             try {
-                const res = await fetch(segUrl, { headers: authHeaders() });
-                if (!res.ok) throw new Error(`Failed to load segment (${res.status})`);
-                const s: Segment = await res.json();
+                const s = await api.segments.get(hash, segmentId);
                 if (!abort) setSegment(s);
             } catch (e) {
-                if (!abort) setSegErr(e instanceof Error ? e.message : String(e));
+                if (!abort) setSegErr(errorMessage(e));
             } finally {
                 if (!abort) setSegLoading(false);
             }
         })();
         return () => { abort = true; };
-    }, [segUrl, backend, hash, segmentId]);
+    }, [hash, segmentId]);
 
     /* ---------- Data: lists for humanized rules ---------- */
-    const [lists, setLists] = useState<ListSummary[]>([]);
+    const [lists, setLists] = useState<ListGroup[]>([]);
     const [listsErr, setListsErr] = useState<string | null>(null);
 
-    const listsUrl = useMemo(() => {
-        if (!backend || !hash) return null;
-        return `${backend}/companies/${hash}/lists?perPage=200`;
-    }, [backend, hash]);
-
     useEffect(() => {
-        if (!listsUrl) return;
+        if (!hash) return;
         let abort = false;
         (async () => {
             setListsErr(null);
             try {
-                const res = await fetch(listsUrl, { headers: authHeaders() });
-                if (!res.ok) throw new Error(`Failed to load lists (${res.status})`);
-                const json: ApiPaged<ListSummary> = await res.json();
+                const json = await api.lists.list(hash, { query: { perPage: 200 } });
                 if (!abort) setLists(json.items || []);
             } catch (e) {
-                if (!abort) setListsErr(e instanceof Error ? e.message : String(e));
+                if (!abort) setListsErr(errorMessage(e));
             }
         })();
         return () => { abort = true; };
-    }, [listsUrl]);
+    }, [hash]);
 
     const listName = (id: number) => lists.find(l => l.id === id)?.name ?? `#${id}`;
 
     /* ---------- Data: preview (paginated) ---------- */
-    const [preview, setPreview] = useState<ApiPaged<PreviewRow> | null>(null);
+    const [preview, setPreview] = useState<ApiPaged<SegmentPreviewRow> | null>(null);
     const [prevErr, setPrevErr] = useState<string | null>(null);
     const [prevLoading, setPrevLoading] = useState(false);
 
-    const previewUrl = useMemo(() => {
-        if (!backend || !hash || segmentId == null) return null;
-        const sp = new URLSearchParams({ page: String(page), perPage: String(perPage) });
-        return `${backend}/companies/${hash}/segments/${segmentId}/preview?` + sp.toString();
-    }, [backend, hash, segmentId, page, perPage]);
-
     useEffect(() => {
-        if (!previewUrl) return;
+        if (!hash || segmentId == null) return;
         let abort = false;
         (async () => {
             setPrevLoading(true);
             setPrevErr(null);
             try {
-                const res = await fetch(previewUrl, { headers: authHeaders() });
-                if (!res.ok) throw new Error(`Failed to load preview (${res.status})`);
-                const json: ApiPaged<PreviewRow> = await res.json();
+                const json = await api.segments.preview(hash, segmentId, { query: { page, perPage } });
                 if (!abort) setPreview(json);
             } catch (e) {
-                if (!abort) setPrevErr(e instanceof Error ? e.message : String(e));
+                if (!abort) setPrevErr(errorMessage(e));
             } finally {
                 if (!abort) setPrevLoading(false);
             }
         })();
         return () => { abort = true; };
-    }, [previewUrl]);
+    }, [hash, segmentId, page, perPage]);
 
     /* ---------- Actions ---------- */
     const [building, setBuilding] = useState(false);
     const [buildErr, setBuildErr] = useState<string | null>(null);
     const [buildMsg, setBuildMsg] = useState<string | null>(null);
+    // bumped after a build so the history and chart reload
+    const [buildsVersion, setBuildsVersion] = useState(0);
 
     async function handleBuildNow() {
-        if (!backend || !hash || segmentId == null) return;
+        if (!hash || segmentId == null) return;
         if (!confirm('Build this segment now? This will update the materialized count.')) return;
         setBuilding(true);
         setBuildErr(null);
         setBuildMsg(null);
         try {
-            const res = await fetch(`${backend}/companies/${hash}/segments/${segmentId}/build`, {
-                method: 'POST',
-                headers: authHeaders(),
-                body: JSON.stringify({ dryRun: false }),
-            });
-            const payload = await res.json();
-            if (!res.ok) throw new Error(payload?.error || `Build failed (${res.status})`);
+            const payload = await api.segments.buildNow(hash, segmentId);
 
             // refresh segment header (count + last_built_at)
-            setSegment(payload.segment as Segment);
+            setSegment(payload.segment);
             setBuildMsg(
-                `Built successfully: ${payload?.performed?.new_count ?? '—'} matches (change: ${payload?.performed?.delta ?? '—'})`
+                `Built successfully: ${payload.performed?.new_count ?? '—'} matches (change: ${payload.performed?.delta ?? '—'})`
             );
+            setBuildsVersion(v => v + 1);
         } catch (e) {
-            setBuildErr(e instanceof Error ? e.message : String(e));
+            setBuildErr(errorMessage(e));
         } finally {
             setBuilding(false);
         }
@@ -260,7 +211,7 @@ export default function SegmentPreviewPage() {
         router.replace(`?${sp.toString()}`);
     }
 
-    function ruleChips(def?: Definition | null) {
+    function ruleChips(def?: SegmentDefinition | null) {
         if (!def || Object.keys(def).length === 0) {
             return (
                 <div className="inline-flex items-center gap-2 rounded-lg bg-gray-100 px-3 py-1.5 text-xs text-gray-600">
@@ -281,6 +232,13 @@ export default function SegmentPreviewPage() {
             purple: 'bg-purple-50 text-purple-700 border-purple-200',
         };
 
+        if (def.rules) {
+            chips.push({
+                icon: FunnelIcon,
+                label: describeRules(parseDefinition(def), { list: listName }),
+                color: 'indigo'
+            });
+        }
         if (def.status) {
             chips.push({
                 icon: CheckCircleIcon,
@@ -448,7 +406,7 @@ export default function SegmentPreviewPage() {
                             <div className="text-sm font-semibold text-gray-900">
                                 {segment.last_built_at ? toLocale(segment.last_built_at) : 'Never'}
                             </div>
-                            <div className="text-xs text-gray-500 mt-1">Last updated</div>
+                            <div className="text-xs text-gray-500 mt-1">{describeSchedule(segment.schedule)}</div>
                         </div>
                     </div>
 
@@ -535,6 +493,49 @@ export default function SegmentPreviewPage() {
                     </div>
                 </div>
 
+                {/* Rebuild Schedule */}
+                <div className="rounded-xl bg-white shadow-sm ring-1 ring-gray-200 overflow-hidden">
+                    <div className="bg-gradient-to-r from-sky-500 to-sky-600 px-6 py-4">
+                        <div className="flex items-center gap-2 text-white">
+                            <ClockIcon className="h-5 w-5" />
+                            <h3 className="text-sm font-semibold uppercase tracking-wider">Rebuild Schedule</h3>
+                        </div>
+                    </div>
+                    <div className="p-6">
+                        <RebuildSchedule
+                            hash={hash}
+                            segmentId={segment.id}
+                            schedule={segment.schedule ?? null}
+                            nextBuildAt={segment.next_build_at ?? null}
+                            onSaved={setSegment}
+                        />
+                    </div>
+                </div>
+
+                {/* Growth */}
+                <div className="rounded-xl bg-white shadow-sm ring-1 ring-gray-200 overflow-hidden">
+                    <div className="bg-gradient-to-r from-emerald-500 to-emerald-600 px-6 py-4">
+                        <div className="flex items-center gap-2 text-white">
+                            <ChartBarIcon className="h-5 w-5" />
+                            <h3 className="text-sm font-semibold uppercase tracking-wider">Audience Growth</h3>
+                        </div>
+                    </div>
+                    <div className="p-6">
+                        <GrowthChart hash={hash} segmentId={segment.id} version={buildsVersion} />
+                    </div>
+                </div>
+
+                {/* Build History */}
+                <div className="rounded-xl bg-white shadow-sm ring-1 ring-gray-200 overflow-hidden">
+                    <div className="bg-gradient-to-r from-gray-600 to-gray-700 px-6 py-4">
+                        <div className="flex items-center gap-2 text-white">
+                            <ListBulletIcon className="h-5 w-5" />
+                            <h3 className="text-sm font-semibold uppercase tracking-wider">Build History</h3>
+                        </div>
+                    </div>
+                    <BuildHistory hash={hash} segmentId={segment.id} version={buildsVersion} />
+                </div>
+
                 {/* Contacts Table */}
                 <div className="rounded-xl bg-white shadow-sm ring-1 ring-gray-200 overflow-hidden">
                     <div className="bg-gradient-to-r from-purple-500 to-purple-600 px-6 py-4">
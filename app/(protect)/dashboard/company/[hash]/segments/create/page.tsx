@@ -9,52 +9,18 @@ import {
     PlayCircleIcon,
     FunnelIcon,
     UserGroupIcon,
-    EnvelopeIcon,
-    ShieldCheckIcon,
-    ListBulletIcon,
     ExclamationTriangleIcon,
     SparklesIcon,
     Cog6ToothIcon,
-    MagnifyingGlassIcon,
-    XMarkIcon,
     InformationCircleIcon,
 } from '@heroicons/react/24/outline';
-
-/* ---------- Types ---------- */
-type Definition = {
-    status?: string;
-    email_contains?: string;
-    gdpr_consent?: boolean;
-    in_list_ids?: number[];
-    not_in_list_ids?: number[];
-};
-
-type Segment = {
-    id: number;
-    name: string;
-    definition: Definition | null;
-    materialized_count: number | null;
-    last_built_at: string | null;
-};
-
-type ListSummary = {
-    id: number;
-    name: string;
-    created_at?: string | null;
-    counts?: { contacts?: number | null; campaigns?: number | null };
-};
-
-type ApiPaged<T> = {
-    meta: { page: number; perPage: number; total: number; totalPages: number };
-    items: T[];
-};
-
-type BuildDryRunResponse = {
-    segment: Segment;
-    matches: number;
-    sample: Array<{ id: number; email: string | null; name: string | null; status: string | null }>;
-    dryRun: boolean;
-};
+import RuleBuilder from '@/components/segments/RuleBuilder';
+import { useAttributeKeys } from '@/components/segments/useAttributeKeys';
+import { useCampaignOptions } from '@/components/segments/useCampaignOptions';
+import { api, errorMessage } from '@/lib/api';
+import { countRules, createGroup, ruleDefinition, toDefinition, validateRules } from '@/lib/segment-rules/rules';
+import type { BuildDryRunResponse, ListGroup } from '@/types/api';
+import type { RuleGroup, SegmentRule } from '@/types/segment-rules';
 
 const STATUS_CONFIG = {
     subscribed: {
@@ -112,57 +78,33 @@ export default function SegmentCreatePage() {
     const router = useRouter();
     const { hash } = useParams<{ hash: string }>();
 
-    // backend + auth
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
-
-    // lists (for in/not-in pickers)
-    const listsUrl = useMemo(() => {
-        if (!backend) return null;
-        return `${backend}/companies/${hash}/lists?perPage=200`;
-    }, [backend, hash]);
-
-    const [lists, setLists] = useState<ListSummary[]>([]);
+    // lists (for list membership rules)
+    const [lists, setLists] = useState<ListGroup[]>([]);
     const [listsErr, setListsErr] = useState<string | null>(null);
-    const [listsLoading, setListsLoading] = useState(true);
-
-    // Search state for lists
-    const [inListSearch, setInListSearch] = useState('');
-    const [notInListSearch, setNotInListSearch] = useState('');
+    const attributeKeys = useAttributeKeys(hash);
+    const campaigns = useCampaignOptions(hash);
 
     useEffect(() => {
-        if (!listsUrl) return;
+        if (!hash) return;
         let abort = false;
         (async () => {
             setListsErr(null);
-            setListsLoading(true);
             try {
-                const res = await fetch(listsUrl, { headers: authHeaders() });
-                if (!res.ok) throw new Error(`Failed to load lists (${res.status})`);
-                const json: ApiPaged<ListSummary> = await res.json();
+                const json = await api.lists.list(hash, { query: { perPage: 200 } });
                 if (!abort) setLists(json.items || []);
             } catch (e) {
-                if (!abort) setListsErr(e instanceof Error ? e.message : String(e));
-            } finally {
-                if (!abort) setListsLoading(false);
+                if (!abort) setListsErr(errorMessage(e));
             }
         })();
         return () => {
             abort = true;
         };
-    }, [listsUrl]);
+    }, [hash]);
 
     // form state
     const [segmentId, setSegmentId] = useState<number | null>(null);
     const [name, setName] = useState('');
-    const [status, setStatus] = useState<string>('');
-    const [emailContains, setEmailContains] = useState('');
-    const [gdprConsent, setGdprConsent] = useState<'ignore' | 'true' | 'false'>('ignore');
-    const [inListIds, setInListIds] = useState<number[]>([]);
-    const [notInListIds, setNotInListIds] = useState<number[]>([]);
+    const [rules, setRules] = useState<RuleGroup>(() => createGroup());
 
     // UI state
     const [saving, setSaving] = useState(false);
@@ -174,70 +116,30 @@ export default function SegmentCreatePage() {
 
     const backHref = `/dashboard/company/${hash}/segments`;
 
-    // Filter lists based on search
-    const filteredInLists = useMemo(() => {
-        if (!inListSearch) return lists;
-        return lists.filter(l =>
-            l.name.toLowerCase().includes(inListSearch.toLowerCase())
-        );
-    }, [lists, inListSearch]);
-
-    const filteredNotInLists = useMemo(() => {
-        if (!notInListSearch) return lists;
-        return lists.filter(l =>
-            l.name.toLowerCase().includes(notInListSearch.toLowerCase())
-        );
-    }, [lists, notInListSearch]);
+    const issues = useMemo(() => validateRules(rules), [rules]);
+    const hasErrors = issues.some((i) => i.severity === 'error');
 
-    function buildDefinition(): Definition {
-        const def: Definition = {};
-        if (status.trim() !== '') def.status = status.trim();
-        if (emailContains.trim() !== '') def.email_contains = emailContains.trim();
-        if (gdprConsent !== 'ignore') def.gdpr_consent = gdprConsent === 'true';
-        if (inListIds.length > 0) def.in_list_ids = inListIds;
-        if (notInListIds.length > 0) def.not_in_list_ids = notInListIds;
-        return def;
-    }
-
-    function toggleInList(id: number) {
-        setInListIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
-        setNotInListIds((prev) => prev.filter((x) => x !== id));
-    }
-
-    function toggleNotInList(id: number) {
-        setNotInListIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
-        setInListIds((prev) => prev.filter((x) => x !== id));
-    }
+    // Counts one rule through a dry-run build of the saved segment with just that rule
+    const countRule = segmentId == null
+        ? undefined
+        : (rule: SegmentRule) => api.segments.build(hash, segmentId, { dryRun: true, definition: ruleDefinition(rule) }).then((r) => r.matches);
 
     async function ensureCreatedOrPatched(): Promise<number> {
-        if (!backend) throw new Error('Missing backend URL');
-
         const body = {
             name: name.trim(),
-            definition: buildDefinition(),
+            definition: toDefinition(rules),
         };
         if (!body.name) throw new Error('Please enter a segment name');
+        if (hasErrors) throw new Error('Please fix the errors shown in the rules');
 
         if (segmentId == null) {
             // CREATE
-            const res = await fetch(`${backend}/companies/${hash}/segments`, {
-                method: 'POST',
-                headers: authHeaders(),
-                body: JSON.stringify(body),
-            });
-            if (!res.ok) throw new Error(`Create failed (${res.status})`);
-            const s: Segment = await res.json();
+            const s = await api.segments.create(hash, body);
             setSegmentId(s.id);
             return s.id;
         } else {
             // PATCH
-            const res = await fetch(`${backend}/companies/${hash}/segments/${segmentId}`, {
-                method: 'PATCH',
-                headers: authHeaders(),
-                body: JSON.stringify(body),
-            });
-            if (!res.ok) throw new Error(`Save failed (${res.status})`);
-            const s: Segment = await res.json();
+            const s = await api.segments.update(hash, segmentId, body);
             return s.id;
         }
     }
@@ -248,7 +150,7 @@ export default function SegmentCreatePage() {
         try {
             await ensureCreatedOrPatched();
         } catch (e) {
-            setSaveErr(e instanceof Error ? e.message : String(e));
+            setSaveErr(errorMessage(e));
         } finally {
             setSaving(false);
         }
@@ -261,7 +163,7 @@ export default function SegmentCreatePage() {
             await ensureCreatedOrPatched();
             router.push(backHref);
         } catch (e) {
-            setSaveErr(e instanceof Error ? e.message : String(e));
+            setSaveErr(errorMessage(e));
             setSaving(false);
         }
     }
@@ -272,31 +174,15 @@ export default function SegmentCreatePage() {
         setPreviewing(true);
         try {
             const id = await ensureCreatedOrPatched();
-            const res = await fetch(`${backend}/companies/${hash}/segments/${id}/build`, {
-                method: 'POST',
-                headers: authHeaders(),
-                body: JSON.stringify({ dryRun: true }),
-            });
-            if (!res.ok) throw new Error(`Preview failed (${res.status})`);
-            const json: BuildDryRunResponse = await res.json();
-            setPreview(json);
+            setPreview(await api.segments.build(hash, id, { dryRun: true }));
         } catch (e) {
-            setPreviewErr(e instanceof Error ? e.message : String(e));
+            setPreviewErr(errorMessage(e));
         } finally {
             setPreviewing(false);
         }
     }
 
-    // Calculate active filters count
-    const activeFiltersCount = useMemo(() => {
-        let count = 0;
-        if (status) count++;
-        if (emailContains) count++;
-        if (gdprConsent !== 'ignore') count++;
-        if (inListIds.length > 0) count++;
-        if (notInListIds.length > 0) count++;
-        return count;
-    }, [status, emailContains, gdprConsent, inListIds, notInListIds]);
+    const activeFiltersCount = countRules(rules);
 
     return (
         <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-50">
@@ -315,14 +201,14 @@ export default function SegmentCreatePage() {
                         <div>
                             <h1 className="text-2xl font-bold text-gray-900">Create Segment</h1>
                             <p className="text-sm text-gray-500">
-                                Define filters to create a targeted contact segment
+                                Combine conditions to create a targeted contact segment
                             </p>
                         </div>
                     </div>
                     <div className="flex items-center gap-2">
                         <button
                             onClick={onSaveOnly}
-                            disabled={saving}
+                            disabled={saving || hasErrors}
                             className="inline-flex items-center gap-2 rounded-lg bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm ring-1 ring-gray-200 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
                         >
                             <CheckIcon className="h-4 w-4" />
@@ -330,7 +216,7 @@ export default function SegmentCreatePage() {
                         </button>
                         <button
                             onClick={onSaveAndClose}
-                            disabled={saving}
+                            disabled={saving || hasErrors}
                             className="inline-flex items-center gap-2 rounded-lg bg-gradient-to-r from-indigo-500 to-indigo-600 px-4 py-2 text-sm font-medium text-white hover:from-indigo-600 hover:to-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-sm"
                         >
                             <CheckIcon className="h-4 w-4" />
@@ -369,231 +255,30 @@ export default function SegmentCreatePage() {
                     </div>
                 </div>
 
-                {/* Filters */}
+                {/* Rules */}
                 <div className="bg-white rounded-xl shadow-sm ring-1 ring-gray-200 overflow-hidden">
                     <div className="bg-gradient-to-r from-purple-500 to-purple-600 px-6 py-3">
                         <div className="flex items-center justify-between">
                             <div className="flex items-center gap-2 text-white">
                                 <FunnelIcon className="h-5 w-5" />
-                                <h3 className="text-sm font-semibold uppercase tracking-wider">Segment Filters</h3>
+                                <h3 className="text-sm font-semibold uppercase tracking-wider">Segment Rules</h3>
                             </div>
                             <span className="text-xs text-purple-100">
-                                {activeFiltersCount} active filter{activeFiltersCount !== 1 ? 's' : ''}
+                                {activeFiltersCount} condition{activeFiltersCount !== 1 ? 's' : ''}
                             </span>
                         </div>
                     </div>
                     <div className="p-6">
-                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                            {/* Status */}
-                            <div>
-                                <label className="block text-sm font-medium text-gray-700 mb-2">
-                                    <UserGroupIcon className="inline h-4 w-4 mr-1" />
-                                    Contact Status
-                                </label>
-                                <select
-                                    value={status}
-                                    onChange={(e) => setStatus(e.target.value)}
-                                    className="w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
-                                >
-                                    <option value="">All statuses</option>
-                                    <option value="subscribed">Subscribed</option>
-                                    <option value="unsubscribed">Unsubscribed</option>
-                                    <option value="bounced">Bounced</option>
-                                    <option value="complained">Complained</option>
-                                </select>
-                                <p className="mt-1 text-xs text-gray-500">Filter by subscription status</p>
-                            </div>
-
-                            {/* Email contains */}
-                            <div>
-                                <label className="block text-sm font-medium text-gray-700 mb-2">
-                                    <EnvelopeIcon className="inline h-4 w-4 mr-1" />
-                                    Email Contains
-                                </label>
-                                <input
-                                    value={emailContains}
-                                    onChange={(e) => setEmailContains(e.target.value)}
-                                    placeholder="@example.com"
-                                    className="w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
-                                />
-                                <p className="mt-1 text-xs text-gray-500">Case-insensitive substring</p>
-                            </div>
-
-                            {/* GDPR */}
-                            <div>
-                                <label className="block text-sm font-medium text-gray-700 mb-2">
-                                    <ShieldCheckIcon className="inline h-4 w-4 mr-1" />
-                                    GDPR Consent
-                                </label>
-                                <select
-                                    value={gdprConsent}
-                                    onChange={(e) => setGdprConsent(e.target.value as 'ignore' | 'true' | 'false')}
-                                    className="w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
-                                >
-                                    <option value="ignore">Any consent status</option>
-                                    <option value="true">Has consent</option>
-                                    <option value="false">No consent</option>
-                                </select>
-                                <p className="mt-1 text-xs text-gray-500">Filter by GDPR consent</p>
-                            </div>
-                        </div>
-                    </div>
-                </div>
-
-                {/* List Filters */}
-                <div className="bg-white rounded-xl shadow-sm ring-1 ring-gray-200 overflow-hidden">
-                    <div className="bg-gradient-to-r from-amber-500 to-amber-600 px-6 py-3">
-                        <div className="flex items-center gap-2 text-white">
-                            <ListBulletIcon className="h-5 w-5" />
-                            <h3 className="text-sm font-semibold uppercase tracking-wider">List Membership</h3>
-                        </div>
-                    </div>
-                    <div className="p-6">
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                            {/* Include Lists */}
-                            <div>
-                                <div className="flex items-center justify-between mb-3">
-                                    <label className="text-sm font-medium text-gray-700">
-                                        Must be in ANY of these lists
-                                    </label>
-                                    <span className="inline-flex items-center rounded-full bg-emerald-100 px-2.5 py-0.5 text-xs font-medium text-emerald-800">
-                                        {inListIds.length} selected
-                                    </span>
-                                </div>
-
-                                <div className="relative mb-3">
-                                    <MagnifyingGlassIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
-                                    <input
-                                        type="text"
-                                        value={inListSearch}
-                                        onChange={(e) => setInListSearch(e.target.value)}
-                                        placeholder="Search lists..."
-                                        className="w-full pl-9 pr-9 py-2 rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
-                                    />
-                                    {inListSearch && (
-                                        <button
-                                            onClick={() => setInListSearch('')}
-                                            className="absolute right-3 top-1/2 -translate-y-1/2"
-                                        >
-                                            <XMarkIcon className="h-4 w-4 text-gray-400 hover:text-gray-600" />
-                                        </button>
-                                    )}
-                                </div>
-
-                                <div className="h-64 overflow-y-auto rounded-lg border border-gray-200">
-                                    {listsLoading ? (
-                                        <div className="p-4 text-center text-gray-500">Loading lists...</div>
-                                    ) : listsErr ? (
-                                        <div className="p-4 text-center text-red-600">{listsErr}</div>
-                                    ) : filteredInLists.length === 0 ? (
-                                        <div className="p-4 text-center text-gray-500">
-                                            {inListSearch ? 'No lists match your search' : 'No lists available'}
-                                        </div>
-                                    ) : (
-                                        <ul className="divide-y divide-gray-100">
-                                            {filteredInLists.map((l) => (
-                                                <li
-                                                    key={l.id}
-                                                    className="flex items-center gap-3 px-3 py-2 hover:bg-gray-50 transition-colors"
-                                                >
-                                                    <input
-                                                        type="checkbox"
-                                                        checked={inListIds.includes(l.id)}
-                                                        onChange={() => toggleInList(l.id)}
-                                                        className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
-                                                    />
-                                                    <div className="flex-1 min-w-0">
-                                                        <div className="font-medium text-sm text-gray-900 truncate">
-                                                            {l.name}
-                                                        </div>
-                                                        {l.counts?.contacts !== undefined && (
-                                                            <div className="text-xs text-gray-500">
-                                                                {l.counts.contacts} contacts
-                                                            </div>
-                                                        )}
-                                                    </div>
-                                                </li>
-                                            ))}
-                                        </ul>
-                                    )}
-                                </div>
-                                <p className="mt-2 text-xs text-gray-500">
-                                    Leave empty to include all lists
-                                </p>
-                            </div>
-
-                            {/* Exclude Lists */}
-                            <div>
-                                <div className="flex items-center justify-between mb-3">
-                                    <label className="text-sm font-medium text-gray-700">
-                                        Must NOT be in any of these lists
-                                    </label>
-                                    <span className="inline-flex items-center rounded-full bg-red-100 px-2.5 py-0.5 text-xs font-medium text-red-800">
-                                        {notInListIds.length} selected
-                                    </span>
-                                </div>
-
-                                <div className="relative mb-3">
-                                    <MagnifyingGlassIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
-                                    <input
-                                        type="text"
-                                        value={notInListSearch}
-                                        onChange={(e) => setNotInListSearch(e.target.value)}
-                                        placeholder="Search lists..."
-                                        className="w-full pl-9 pr-9 py-2 rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
-                                    />
-                                    {notInListSearch && (
-                                        <button
-                                            onClick={() => setNotInListSearch('')}
-                                            className="absolute right-3 top-1/2 -translate-y-1/2"
-                                        >
-                                            <XMarkIcon className="h-4 w-4 text-gray-400 hover:text-gray-600" />
-                                        </button>
-                                    )}
-                                </div>
-
-                                <div className="h-64 overflow-y-auto rounded-lg border border-gray-200">
-                                    {listsLoading ? (
-                                        <div className="p-4 text-center text-gray-500">Loading lists...</div>
-                                    ) : listsErr ? (
-                                        <div className="p-4 text-center text-red-600">{listsErr}</div>
-                                    ) : filteredNotInLists.length === 0 ? (
-                                        <div className="p-4 text-center text-gray-500">
-                                            {notInListSearch ? 'No lists match your search' : 'No lists available'}
-                                        </div>
-                                    ) : (
-                                        <ul className="divide-y divide-gray-100">
-                                            {filteredNotInLists.map((l) => (
-                                                <li
-                                                    key={l.id}
-                                                    className="flex items-center gap-3 px-3 py-2 hover:bg-gray-50 transition-colors"
-                                                >
-                                                    <input
-                                                        type="checkbox"
-                                                        checked={notInListIds.includes(l.id)}
-                                                        onChange={() => toggleNotInList(l.id)}
-                                                        className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
-                                                    />
-                                                    <div className="flex-1 min-w-0">
-                                                        <div className="font-medium text-sm text-gray-900 truncate">
-                                                            {l.name}
-                                                        </div>
-                                                        {l.counts?.contacts !== undefined && (
-                                                            <div className="text-xs text-gray-500">
-                                                                {l.counts.contacts} contacts
-                                                            </div>
-                                                        )}
-                                                    </div>
-                                                </li>
-                                            ))}
-                                        </ul>
-                                    )}
-                                </div>
-                                <p className="mt-2 text-xs text-gray-500">
-                                    Leave empty to not exclude any lists
-                                </p>
-                            </div>
-                        </div>
+                        {listsErr && <p className="mb-3 text-sm text-red-600">{listsErr}</p>}
+                        <RuleBuilder
+                            value={rules}
+                            onChange={setRules}
+                            lists={lists}
+                            campaigns={campaigns}
+                            attributeKeys={attributeKeys}
+                            issues={issues}
+                            onCount={countRule}
+                        />
                     </div>
                 </div>
 
@@ -602,7 +287,7 @@ export default function SegmentCreatePage() {
                     <div className="flex items-center justify-between">
                         <button
                             onClick={onPreviewDryRun}
-                            disabled={previewing}
+                            disabled={previewing || hasErrors}
                             className="inline-flex items-center gap-2 rounded-lg bg-gradient-to-r from-purple-500 to-purple-600 px-4 py-2 text-sm font-medium text-white hover:from-purple-600 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-sm"
                         >
                             <PlayCircleIcon className="h-4 w-4" />
@@ -37,6 +37,9 @@ import {
     CartesianGrid,
     Tooltip,
 } from 'recharts';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
+import type { ApiPaged } from '@/lib/api';
+import { describeRules, parseDefinition } from '@/lib/segment-rules/rules';
 
 /* ---------- Types ---------- */
 type SegmentItem = {
@@ -59,11 +62,6 @@ type SyncRunResponse = {
     at?: string;
 };
 
-type ApiListResponse<T> = {
-    meta: { page: number; perPage: number; total: number; totalPages: number };
-    items: T[];
-};
-
 type StatusPayload = {
     progress: number | null;
     status: 'queued' | 'running' | 'ok' | 'error' | 'unknown';
@@ -285,6 +283,14 @@ function DefinitionChips({ def }: { def: Record<string, unknown> | null }) {
     }
     const chips: React.ReactNode[] = [];
 
+    if (def.rules) {
+        const summary = describeRules(parseDefinition(def));
+        chips.push(
+            <Chip key="rules" title={summary}>
+                Rules: <code className="font-mono text-[11px] max-w-xs truncate">{summary}</code>
+            </Chip>
+        );
+    }
     if (def.status) {
         chips.push(
             <Chip key="status">
@@ -325,7 +331,7 @@ function DefinitionChips({ def }: { def: Record<string, unknown> | null }) {
     }
 
     Object.entries(def)
-        .filter(([k]) => !['status', 'email_contains', 'in_list_ids', 'not_in_list_ids', 'gdpr_consent'].includes(k))
+        .filter(([k]) => !['status', 'email_contains', 'in_list_ids', 'not_in_list_ids', 'gdpr_consent', 'rules', 'version'].includes(k))
         .forEach(([k, v]) => {
             chips.push(
                 <Chip key={`extra_${k}`}>
@@ -349,7 +355,7 @@ export default function SegmentsListPage() {
     const qFromUrl = (search.get('search') || '').trim();
 
     const [searchTerm, setSearchTerm] = useState(qFromUrl);
-    const [data, setData] = useState<ApiListResponse<SegmentItem> | null>(null);
+    const [data, setData] = useState<ApiPaged<SegmentItem> | null>(null);
     const [loading, setLoading] = useState(true);
     const [err, setErr] = useState<string | null>(null);
     const [workingId, setWorkingId] = useState<number | null>(null);
@@ -358,12 +364,7 @@ export default function SegmentsListPage() {
 
     const pollTimers = useRef<Record<number, number>>({});
 
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
-
-    const authHeaders = useCallback((): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    }, []);
+    const backend = BACKEND_URL;
 
     const toastTimer = useRef<number | null>(null);
     const showToast = useCallback((kind: 'info'|'success'|'error', text: string, ms = 3000) => {
@@ -374,9 +375,7 @@ export default function SegmentsListPage() {
 
     const fetchStatusOnce = useCallback(async (segmentId: number) => {
         try {
-            const res = await fetch(`${backend}/companies/${hash}/segments/${segmentId}/builds/status`, {
-                headers: authHeaders(),
-            });
+            const res = await apiFetch(`${backend}/companies/${hash}/segments/${segmentId}/builds/status`);
             if (!res.ok) throw new Error(String(res.status));
             const json = (await res.json()) as BackendStatus;
 
@@ -422,7 +421,7 @@ export default function SegmentsListPage() {
         } catch {
             // keep previous status on errors
         }
-    }, [backend, hash, authHeaders, showToast]);
+    }, [backend, hash, showToast]);
 
     const listUrl = useMemo(() => {
         const sp = new URLSearchParams();
@@ -449,9 +448,9 @@ export default function SegmentsListPage() {
             setLoading(true);
             setErr(null);
             try {
-                const res = await fetch(listUrl, { headers: authHeaders() });
+                const res = await apiFetch(listUrl);
                 if (!res.ok) throw new Error(`Failed to load segments (${res.status})`);
-                const json: ApiListResponse<SegmentItem> = await res.json();
+                const json: ApiPaged<SegmentItem> = await res.json();
                 if (!abort) {
                     setData(json);
                     for (const item of json.items ?? []) {
@@ -465,7 +464,7 @@ export default function SegmentsListPage() {
             }
         })();
         return () => { abort = true; };
-    }, [listUrl, authHeaders, fetchStatusOnce]);
+    }, [listUrl, fetchStatusOnce]);
 
     function updateQuery(partial: Record<string, unknown>) {
         const sp = new URLSearchParams(search.toString());
@@ -489,9 +488,9 @@ export default function SegmentsListPage() {
     async function handleBuild(id: number) {
         setWorkingId(id);
         try {
-            const res = await fetch(
+            const res = await apiFetch(
                 `${backend}/companies/${hash}/segments/${id}/builds/run-now`,
-                { method: 'POST', headers: authHeaders(), body: JSON.stringify({ materialize: true }) }
+                { method: 'POST', body: JSON.stringify({ materialize: true }) }
             );
 
             // 202 → enqueued (async path)
@@ -612,9 +611,8 @@ export default function SegmentsListPage() {
         if (!confirm('Delete this segment? This action cannot be undone.')) return;
         setWorkingId(id);
         try {
-            const res = await fetch(`${backend}/companies/${hash}/segments/${id}`, {
+            const res = await apiFetch(`${backend}/companies/${hash}/segments/${id}`, {
                 method: 'DELETE',
-                headers: authHeaders(),
             });
             if (!res.ok && res.status !== 204) throw new Error(`Delete failed (${res.status})`);
             setData((prev) =>
@@ -16,6 +16,8 @@ import {
     ClipboardDocumentIcon as ClipboardSolid
 } from '@heroicons/react/24/solid';
 import copy from 'copy-to-clipboard';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
+import Can, { AccessDenied } from '@/components/company/Can';
 
 /* ----------------------------- Types ----------------------------- */
 interface ApiError {
@@ -38,12 +40,6 @@ const AVAILABLE_SCOPES = [
     { value: 'users:manage', label: 'Manage Users', description: 'Add, edit, and remove users' },
 ];
 
-/* ----------------------------- Helpers ---------------------------- */
-function authHeaders(): HeadersInit {
-    const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-    return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-}
-
 /* ------------------------------ Page ------------------------------ */
 export default function CreateDomainApiKeyPage() {
     const router = useRouter();
@@ -73,10 +69,7 @@ export default function CreateDomainApiKeyPage() {
             setLoadingDomains(true);
             setDomainError(null);
             try {
-                const res = await fetch(
-                    `${process.env.NEXT_PUBLIC_BACKEND_URL}/companies/${hash}/domains`,
-                    { headers: authHeaders() }
-                );
+                const res = await apiFetch(`${BACKEND_URL}/companies/${hash}/domains`);
                 if (res.status === 403) throw new Error('You don&#39;t have access to this company&#39;s domains.');
                 if (!res.ok) throw new Error(`Failed to load domains (${res.status})`);
                 const data = (await res.json()) as DomainBrief[];
@@ -152,11 +145,10 @@ export default function CreateDomainApiKeyPage() {
             const payload = { label: label.trim(), scopes: selectedScopes };
 
             // Always domain-scoped
-            const endpoint = `${process.env.NEXT_PUBLIC_BACKEND_URL}/companies/${hash}/domains/${domainId}/apikeys`;
+            const endpoint = `${BACKEND_URL}/companies/${hash}/domains/${domainId}/apikeys`;
 
-            const res = await fetch(endpoint, {
+            const res = await apiFetch(endpoint, {
                 method: 'POST',
-                headers: authHeaders(),
                 body: JSON.stringify(payload),
             });
 
@@ -336,159 +328,161 @@ export default function CreateDomainApiKeyPage() {
                 )}
 
                 {/* Form Card */}
-                <div className="bg-white rounded-xl shadow-sm ring-1 ring-gray-200 overflow-hidden">
-                    <div className="bg-gradient-to-r from-indigo-500 to-indigo-600 px-6 py-4">
-                        <div className="flex items-center gap-3 text-white">
-                            <KeySolid className="h-5 w-5" />
-                            <h2 className="text-lg font-semibold">API Key Configuration</h2>
+                <Can permission="apikey.manage" fallback={<AccessDenied />}>
+                    <div className="bg-white rounded-xl shadow-sm ring-1 ring-gray-200 overflow-hidden">
+                        <div className="bg-gradient-to-r from-indigo-500 to-indigo-600 px-6 py-4">
+                            <div className="flex items-center gap-3 text-white">
+                                <KeySolid className="h-5 w-5" />
+                                <h2 className="text-lg font-semibold">API Key Configuration</h2>
+                            </div>
                         </div>
-                    </div>
 
-                    <form onSubmit={handleSubmit} className="p-6 space-y-6">
-                        {/* Domain Selection */}
-                        <div>
-                            <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-3">
-                                <GlobeAltIcon className="h-4 w-4" />
-                                Target Domain <span className="text-red-500">*</span>
-                            </label>
-                            {loadingDomains ? (
-                                <div className="h-12 w-full animate-pulse rounded-lg bg-gray-100" />
-                            ) : domainError ? (
-                                <div className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3">
-                                    <div className="flex items-center gap-2 text-amber-900">
-                                        <ExclamationTriangleIcon className="h-4 w-4" />
-                                        <span className="text-sm">{domainError}</span>
+                        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+                            {/* Domain Selection */}
+                            <div>
+                                <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-3">
+                                    <GlobeAltIcon className="h-4 w-4" />
+                                    Target Domain <span className="text-red-500">*</span>
+                                </label>
+                                {loadingDomains ? (
+                                    <div className="h-12 w-full animate-pulse rounded-lg bg-gray-100" />
+                                ) : domainError ? (
+                                    <div className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3">
+                                        <div className="flex items-center gap-2 text-amber-900">
+                                            <ExclamationTriangleIcon className="h-4 w-4" />
+                                            <span className="text-sm">{domainError}</span>
+                                        </div>
                                     </div>
-                                </div>
-                            ) : domains.length === 0 ? (
-                                <div className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3">
-                                    <div className="flex items-center gap-2 text-amber-900">
-                                        <ExclamationTriangleIcon className="h-4 w-4" />
-                                        <span className="text-sm">No domains available. Add a domain first.</span>
+                                ) : domains.length === 0 ? (
+                                    <div className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3">
+                                        <div className="flex items-center gap-2 text-amber-900">
+                                            <ExclamationTriangleIcon className="h-4 w-4" />
+                                            <span className="text-sm">No domains available. Add a domain first.</span>
+                                        </div>
                                     </div>
-                                </div>
-                            ) : (
-                                <select
+                                ) : (
+                                    <select
+                                        className="w-full rounded-lg border border-gray-300 px-4 py-3 text-sm outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                                        value={domainId ?? ''}
+                                        onChange={(e) => setDomainId(Number(e.target.value) || null)}
+                                        required
+                                    >
+                                        <option value="" disabled>
+                                            Select a domain for this API key…
+                                        </option>
+                                        {sortedDomains.map((d) => (
+                                            <option key={d.id} value={d.id}>
+                                                {d.domain ?? `Domain #${d.id}`}
+                                            </option>
+                                        ))}
+                                    </select>
+                                )}
+                                {apiError?.fields?.domain && (
+                                    <p className="mt-2 text-sm text-red-600">{apiError.fields.domain}</p>
+                                )}
+                            </div>
+
+                            {/* Label */}
+                            <div>
+                                <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-3">
+                                    <TagIcon className="h-4 w-4" />
+                                    API Key Label <span className="text-red-500">*</span>
+                                </label>
+                                <input
+                                    type="text"
+                                    value={label}
+                                    onChange={(e) => setLabel(e.target.value)}
                                     className="w-full rounded-lg border border-gray-300 px-4 py-3 text-sm outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
-                                    value={domainId ?? ''}
-                                    onChange={(e) => setDomainId(Number(e.target.value) || null)}
+                                    placeholder="e.g. Production CI/CD Pipeline, Development Environment"
                                     required
-                                >
-                                    <option value="" disabled>
-                                        Select a domain for this API key…
-                                    </option>
-                                    {sortedDomains.map((d) => (
-                                        <option key={d.id} value={d.id}>
-                                            {d.domain ?? `Domain #${d.id}`}
-                                        </option>
-                                    ))}
-                                </select>
-                            )}
-                            {apiError?.fields?.domain && (
-                                <p className="mt-2 text-sm text-red-600">{apiError.fields.domain}</p>
-                            )}
-                        </div>
+                                />
+                                <p className="mt-1 text-xs text-gray-500">Give your API key a descriptive name to help identify its purpose</p>
+                                {apiError?.fields?.label && (
+                                    <p className="mt-2 text-sm text-red-600">{apiError.fields.label}</p>
+                                )}
+                            </div>
 
-                        {/* Label */}
-                        <div>
-                            <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-3">
-                                <TagIcon className="h-4 w-4" />
-                                API Key Label <span className="text-red-500">*</span>
-                            </label>
-                            <input
-                                type="text"
-                                value={label}
-                                onChange={(e) => setLabel(e.target.value)}
-                                className="w-full rounded-lg border border-gray-300 px-4 py-3 text-sm outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
-                                placeholder="e.g. Production CI/CD Pipeline, Development Environment"
-                                required
-                            />
-                            <p className="mt-1 text-xs text-gray-500">Give your API key a descriptive name to help identify its purpose</p>
-                            {apiError?.fields?.label && (
-                                <p className="mt-2 text-sm text-red-600">{apiError.fields.label}</p>
-                            )}
-                        </div>
+                            {/* Scopes */}
+                            <div>
+                                <div className="flex items-center justify-between mb-3">
+                                    <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                                        <ShieldCheckIcon className="h-4 w-4" />
+                                        Permissions & Scopes <span className="text-red-500">*</span>
+                                    </label>
+                                    <button
+                                        type="button"
+                                        onClick={handleSelectAll}
+                                        className="text-sm text-indigo-600 hover:text-indigo-700 font-medium hover:underline"
+                                    >
+                                        {selectAll ? 'Deselect All' : 'Select All'}
+                                    </button>
+                                </div>
+                                <div className="grid grid-cols-1 gap-3">
+                                    {AVAILABLE_SCOPES.map((scope) => {
+                                        const isSelected = selectedScopes.includes(scope.value);
+                                        return (
+                                            <label
+                                                key={scope.value}
+                                                className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-all ${
+                                                    isSelected
+                                                        ? 'border-indigo-200 bg-indigo-50 ring-1 ring-indigo-200'
+                                                        : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+                                                }`}
+                                            >
+                                                <input
+                                                    type="checkbox"
+                                                    checked={isSelected}
+                                                    onChange={() => toggleScope(scope.value)}
+                                                    className="mt-0.5 h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                                                />
+                                                <div className="flex-1">
+                                                    <span className={`text-sm font-medium ${isSelected ? 'text-indigo-900' : 'text-gray-900'}`}>
+                                                        {scope.label}
+                                                    </span>
+                                                    <p className={`text-xs mt-0.5 ${isSelected ? 'text-indigo-700' : 'text-gray-500'}`}>
+                                                        {scope.description}
+                                                    </p>
+                                                </div>
+                                            </label>
+                                        );
+                                    })}
+                                </div>
+                                <p className="mt-2 text-xs text-gray-500">Select the permissions this API key should have. You can always create additional keys with different scopes.</p>
+                                {apiError?.fields?.scopes && (
+                                    <p className="mt-2 text-sm text-red-600">{apiError.fields.scopes}</p>
+                                )}
+                            </div>
 
-                        {/* Scopes */}
-                        <div>
-                            <div className="flex items-center justify-between mb-3">
-                                <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
-                                    <ShieldCheckIcon className="h-4 w-4" />
-                                    Permissions & Scopes <span className="text-red-500">*</span>
-                                </label>
+                            {/* Actions */}
+                            <div className="flex flex-col sm:flex-row justify-end gap-3 pt-4 border-t border-gray-200">
                                 <button
                                     type="button"
-                                    onClick={handleSelectAll}
-                                    className="text-sm text-indigo-600 hover:text-indigo-700 font-medium hover:underline"
+                                    onClick={() => router.push(`/dashboard/company/${hash}/settings/apikeys`)}
+                                    className="flex-1 sm:flex-none inline-flex items-center justify-center px-4 py-3 rounded-lg border border-gray-300 text-gray-700 font-medium hover:bg-gray-50 transition-all"
                                 >
-                                    {selectAll ? 'Deselect All' : 'Select All'}
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={saving || loadingDomains || !!domainError || !domainId}
+                                    className="flex-1 sm:flex-none inline-flex items-center justify-center gap-2 px-6 py-3 rounded-lg bg-gradient-to-r from-indigo-500 to-indigo-600 text-white font-medium hover:from-indigo-600 hover:to-indigo-700 disabled:opacity-50 transition-all shadow-sm"
+                                >
+                                    {saving ? (
+                                        <>
+                                            <div className="h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent" />
+                                            Creating…
+                                        </>
+                                    ) : (
+                                        <>
+                                            <KeySolid className="h-4 w-4" />
+                                            Create API Key
+                                        </>
+                                    )}
                                 </button>
                             </div>
-                            <div className="grid grid-cols-1 gap-3">
-                                {AVAILABLE_SCOPES.map((scope) => {
-                                    const isSelected = selectedScopes.includes(scope.value);
-                                    return (
-                                        <label
-                                            key={scope.value}
-                                            className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-all ${
-                                                isSelected
-                                                    ? 'border-indigo-200 bg-indigo-50 ring-1 ring-indigo-200'
-                                                    : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
-                                            }`}
-                                        >
-                                            <input
-                                                type="checkbox"
-                                                checked={isSelected}
-                                                onChange={() => toggleScope(scope.value)}
-                                                className="mt-0.5 h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
-                                            />
-                                            <div className="flex-1">
-                                                <span className={`text-sm font-medium ${isSelected ? 'text-indigo-900' : 'text-gray-900'}`}>
-                                                    {scope.label}
-                                                </span>
-                                                <p className={`text-xs mt-0.5 ${isSelected ? 'text-indigo-700' : 'text-gray-500'}`}>
-                                                    {scope.description}
-                                                </p>
-                                            </div>
-                                        </label>
-                                    );
-                                })}
-                            </div>
-                            <p className="mt-2 text-xs text-gray-500">Select the permissions this API key should have. You can always create additional keys with different scopes.</p>
-                            {apiError?.fields?.scopes && (
-                                <p className="mt-2 text-sm text-red-600">{apiError.fields.scopes}</p>
-                            )}
-                        </div>
-
-                        {/* Actions */}
-                        <div className="flex flex-col sm:flex-row justify-end gap-3 pt-4 border-t border-gray-200">
-                            <button
-                                type="button"
-                                onClick={() => router.push(`/dashboard/company/${hash}/settings/apikeys`)}
-                                className="flex-1 sm:flex-none inline-flex items-center justify-center px-4 py-3 rounded-lg border border-gray-300 text-gray-700 font-medium hover:bg-gray-50 transition-all"
-                            >
-                                Cancel
-                            </button>
-                            <button
-                                type="submit"
-                                disabled={saving || loadingDomains || !!domainError || !domainId}
-                                className="flex-1 sm:flex-none inline-flex items-center justify-center gap-2 px-6 py-3 rounded-lg bg-gradient-to-r from-indigo-500 to-indigo-600 text-white font-medium hover:from-indigo-600 hover:to-indigo-700 disabled:opacity-50 transition-all shadow-sm"
-                            >
-                                {saving ? (
-                                    <>
-                                        <div className="h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent" />
-                                        Creating…
-                                    </>
-                                ) : (
-                                    <>
-                                        <KeySolid className="h-4 w-4" />
-                                        Create API Key
-                                    </>
-                                )}
-                            </button>
-                        </div>
-                    </form>
-                </div>
+                        </form>
+                    </div>
+                </Can>
             </div>
         </div>
     );
@@ -19,6 +19,8 @@ import {
     BuildingOffice2Icon as BuildingSolid,
     GlobeAltIcon as GlobeSolid,
 } from '@heroicons/react/24/solid';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
+import Can from '@/components/company/Can';
 
 /* ----------------------------- Types ----------------------------- */
 
@@ -48,11 +50,6 @@ type Grouped = Record<
 
 /* ----------------------------- Helpers ----------------------------- */
 
-function authHeaders(): HeadersInit {
-    const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-    return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-}
-
 function toArrayScopes(v: ApiKeyItem['scopes']): string[] {
     if (!v) return [];
     if (Array.isArray(v)) return v.map(String);
@@ -121,8 +118,8 @@ export default function CompanyApiKeysPage() {
             setError(null);
             try {
                 const [kRes, dRes] = await Promise.all([
-                    fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/companies/${hash}/apikeys`, { headers: authHeaders() }),
-                    fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/companies/${hash}/domains`, { headers: authHeaders() }),
+                    apiFetch(`${BACKEND_URL}/companies/${hash}/apikeys`),
+                    apiFetch(`${BACKEND_URL}/companies/${hash}/domains`),
                 ]);
 
                 if (kRes.status === 403 || dRes.status === 403) throw new Error('You do not have access to this company.');
@@ -210,9 +207,8 @@ export default function CompanyApiKeysPage() {
         if (!ok) return;
         setDeletingId(id);
         try {
-            const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/companies/${hash}/apikeys/${id}`, {
+            const res = await apiFetch(`${BACKEND_URL}/companies/${hash}/apikeys/${id}`, {
                 method: 'DELETE',
-                headers: authHeaders(),
             });
             if (res.status !== 204) {
                 const text = await res.text().catch(() => '');
@@ -286,13 +282,15 @@ export default function CompanyApiKeysPage() {
                             </p>
                         </div>
                     </div>
-                    <Link
-                        href={`/dashboard/company/${hash}/settings/apikeys/new`}
-                        className="inline-flex items-center gap-2 rounded-lg bg-gradient-to-r from-indigo-500 to-indigo-600 px-4 py-2 text-white font-medium hover:from-indigo-600 hover:to-indigo-700 transition-all shadow-sm"
-                    >
-                        <PlusIcon className="h-4 w-4" />
-                        Create API Key
-                    </Link>
+                    <Can permission="apikey.manage">
+                        <Link
+                            href={`/dashboard/company/${hash}/settings/apikeys/new`}
+                            className="inline-flex items-center gap-2 rounded-lg bg-gradient-to-r from-indigo-500 to-indigo-600 px-4 py-2 text-white font-medium hover:from-indigo-600 hover:to-indigo-700 transition-all shadow-sm"
+                        >
+                            <PlusIcon className="h-4 w-4" />
+                            Create API Key
+                        </Link>
+                    </Can>
                 </div>
 
                 {/* Search */}
@@ -327,13 +325,15 @@ export default function CompanyApiKeysPage() {
                             </p>
                             {!q && (
                                 <div className="mt-6">
-                                    <Link
-                                        href={`/dashboard/company/${hash}/settings/apikeys/new`}
-                                        className="inline-flex items-center gap-2 rounded-lg bg-gradient-to-r from-indigo-500 to-indigo-600 px-4 py-2 text-white font-medium hover:from-indigo-600 hover:to-indigo-700 transition-all shadow-sm"
-                                    >
-                                        <PlusIcon className="h-4 w-4" />
-                                        Create API Key
-                                    </Link>
+                                    <Can permission="apikey.manage">
+                                        <Link
+                                            href={`/dashboard/company/${hash}/settings/apikeys/new`}
+                                            className="inline-flex items-center gap-2 rounded-lg bg-gradient-to-r from-indigo-500 to-indigo-600 px-4 py-2 text-white font-medium hover:from-indigo-600 hover:to-indigo-700 transition-all shadow-sm"
+                                        >
+                                            <PlusIcon className="h-4 w-4" />
+                                            Create API Key
+                                        </Link>
+                                    </Can>
                                 </div>
                             )}
                         </div>
@@ -425,15 +425,17 @@ export default function CompanyApiKeysPage() {
                                                                     </div>
                                                                 </div>
 
-                                                                <button
-                                                                    onClick={() => handleDelete(k.id)}
-                                                                    disabled={deletingId === k.id}
-                                                                    className="inline-flex items-center gap-2 rounded-lg border border-red-300 px-3 py-2 text-sm font-medium text-red-700 hover:bg-red-50 disabled:opacity-50 transition-all"
-                                                                    title="Delete API key"
-                                                                >
-                                                                    <TrashIcon className="h-4 w-4" />
-                                                                    {deletingId === k.id ? 'Deleting…' : 'Delete'}
-                                                                </button>
+                                                                <Can permission="apikey.manage">
+                                                                    <button
+                                                                        onClick={() => handleDelete(k.id)}
+                                                                        disabled={deletingId === k.id}
+                                                                        className="inline-flex items-center gap-2 rounded-lg border border-red-300 px-3 py-2 text-sm font-medium text-red-700 hover:bg-red-50 disabled:opacity-50 transition-all"
+                                                                        title="Delete API key"
+                                                                    >
+                                                                        <TrashIcon className="h-4 w-4" />
+                                                                        {deletingId === k.id ? 'Deleting…' : 'Delete'}
+                                                                    </button>
+                                                                </Can>
                                                             </div>
                                                         </div>
                                                     </div>
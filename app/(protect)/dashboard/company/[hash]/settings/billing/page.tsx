@@ -25,6 +25,8 @@ import {
 import {CheckCircleIcon as CheckCircleSolid, CreditCardIcon as CreditCardSolid} from '@heroicons/react/24/solid';
 import {loadStripe} from '@stripe/stripe-js';
 import {Elements, PaymentElement, useElements, useStripe} from '@stripe/react-stripe-js';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
+import Can, { AccessDenied } from '@/components/company/Can';
 
 /* ------------------------------- Types -------------------------------- */
 
@@ -271,11 +273,6 @@ export default function CompanyBillingPage() {
     // Remember the plan we tried to switch to when we discovered a missing PM
     const [pendingPlanId, setPendingPlanId] = useState<number | null>(null);
 
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
-
     const selected = selectedPlanId != null ? details[selectedPlanId] : undefined;
 
     // Show payment panel only if current or selected plan is paid (non-free)
@@ -287,9 +284,7 @@ export default function CompanyBillingPage() {
         let cancel = false;
         (async () => {
             try {
-                const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/companies/${hash}`, {
-                    headers: authHeaders(),
-                });
+                const res = await apiFetch(`${BACKEND_URL}/companies/${hash}`);
                 if (!res.ok) throw new Error(`Failed to load company (${res.status})`);
                 const data = (await res.json()) as Record<string, unknown>;
                 if (!cancel) {
@@ -312,9 +307,7 @@ export default function CompanyBillingPage() {
         let cancel = false;
         (async () => {
             try {
-                const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/companies-plan/${hash}`, {
-                    headers: authHeaders(),
-                });
+                const res = await apiFetch(`${BACKEND_URL}/companies-plan/${hash}`);
                 if (!res.ok && res.status !== 200) throw new Error(`Failed to load current plan (${res.status})`);
                 const data = (await res.json().catch(() => null)) as CurrentPlan | null;
                 if (!cancel) setCurrentPlan(data ?? null);
@@ -334,7 +327,7 @@ export default function CompanyBillingPage() {
             try {
                 setPlansLoading(true);
 
-                const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/plans-brief`, {
+                const res = await apiFetch(`${BACKEND_URL}/plans-brief`, {
                     headers: { 'Content-Type': 'application/json' },
                 });
                 if (!res.ok) throw new Error(`Failed to load plans (${res.status})`);
@@ -348,7 +341,7 @@ export default function CompanyBillingPage() {
 
                 const pairs = await Promise.all(
                     items.map(async (p) => {
-                        const r = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/plans-id/${p.id}`, {
+                        const r = await apiFetch(`${BACKEND_URL}/plans-id/${p.id}`, {
                             headers: { 'Content-Type': 'application/json' },
                         });
                         if (!r.ok) throw new Error(`Failed to load plan ${p.id} (${r.status})`);
@@ -376,9 +369,9 @@ export default function CompanyBillingPage() {
             setCardLoading(true);
             if (!stripePromise) throw new Error('Payments unavailable (missing Stripe publishable key).');
 
-            const res = await fetch(
-                `${process.env.NEXT_PUBLIC_BACKEND_URL}/companies/${hash}/billing/setup-intent`,
-                { method: 'POST', headers: authHeaders() }
+            const res = await apiFetch(
+                `${BACKEND_URL}/companies/${hash}/billing/setup-intent`,
+                { method: 'POST' }
             );
             if (!res.ok) throw new Error(`Cannot initialize payment (${res.status})`);
             const { clientSecret } = (await res.json()) as { clientSecret: string };
@@ -398,11 +391,10 @@ export default function CompanyBillingPage() {
             if (!stripeConfirmRef.current) throw new Error('Payment form not ready.');
             const pmId = await stripeConfirmRef.current();
 
-            const res = await fetch(
-                `${process.env.NEXT_PUBLIC_BACKEND_URL}/companies/${hash}/billing/update-payment-method`,
+            const res = await apiFetch(
+                `${BACKEND_URL}/companies/${hash}/billing/update-payment-method`,
                 {
                     method: 'POST',
-                    headers: authHeaders(),
                     body: JSON.stringify({ payment_method: pmId }),
                 }
             );
@@ -414,11 +406,10 @@ export default function CompanyBillingPage() {
 
             // If we were in the middle of a plan change, retry it now
             if (pendingPlanId != null) {
-                const retry = await fetch(
-                    `${process.env.NEXT_PUBLIC_BACKEND_URL}/companies/${hash}/billing/change-plan`,
+                const retry = await apiFetch(
+                    `${BACKEND_URL}/companies/${hash}/billing/change-plan`,
                     {
                         method: 'POST',
-                        headers: authHeaders(),
                         body: JSON.stringify({ plan_id: pendingPlanId }),
                     }
                 );
@@ -451,9 +442,7 @@ export default function CompanyBillingPage() {
 
                 // refresh current plan
                 try {
-                    const p = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/companies-plan/${hash}`, {
-                        headers: authHeaders(),
-                    }).then((r) => r.json());
+                    const p = await apiFetch(`${BACKEND_URL}/companies-plan/${hash}`).then((r) => r.json());
                     setCurrentPlan((p as CurrentPlan | null) ?? null);
                 } catch {
                     /* ignore */
@@ -475,11 +464,10 @@ export default function CompanyBillingPage() {
         }
 
         try {
-            const res = await fetch(
-                `${process.env.NEXT_PUBLIC_BACKEND_URL}/companies/${hash}/billing/change-plan`,
+            const res = await apiFetch(
+                `${BACKEND_URL}/companies/${hash}/billing/change-plan`,
                 {
                     method: 'POST',
-                    headers: authHeaders(),
                     body: JSON.stringify({ plan_id: selectedPlanId }),
                 }
             );
@@ -532,9 +520,7 @@ export default function CompanyBillingPage() {
 
             // Refresh current plan
             try {
-                const p = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/companies-plan/${hash}`, {
-                    headers: authHeaders(),
-                }).then((r) => r.json());
+                const p = await apiFetch(`${BACKEND_URL}/companies-plan/${hash}`).then((r) => r.json());
                 setCurrentPlan((p as CurrentPlan | null) ?? null);
             } catch {
                 /* ignore */
@@ -558,11 +544,10 @@ export default function CompanyBillingPage() {
         setError(null);
         setSuccess(null);
         try {
-            const res = await fetch(
-                `${process.env.NEXT_PUBLIC_BACKEND_URL}/companies/${hash}/billing/cancel-subscription`,
+            const res = await apiFetch(
+                `${BACKEND_URL}/companies/${hash}/billing/cancel-subscription`,
                 {
                     method: 'POST',
-                    headers: authHeaders(),
                     body: JSON.stringify({ cancel_now: false }),
                 }
             );
@@ -577,9 +562,7 @@ export default function CompanyBillingPage() {
             setSuccess('Subscription will cancel at period end.');
             // Optionally refresh status
             try {
-                const c = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/companies/${hash}`, {
-                    headers: authHeaders(),
-                }).then((r) => r.json());
+                const c = await apiFetch(`${BACKEND_URL}/companies/${hash}`).then((r) => r.json());
                 const name = (c?.name as string | null) ?? (company?.name ?? null);
                 const status = (c?.subscriptionStatus as string | null) ?? 'canceled';
                 setCompany({ name, subscriptionStatus: status });
@@ -595,9 +578,8 @@ export default function CompanyBillingPage() {
     async function openBillingPortal() {
         setError(null);
         try {
-            const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/companies-billing-portal/${hash}`, {
+            const res = await apiFetch(`${BACKEND_URL}/companies-billing-portal/${hash}`, {
                 method: 'POST',
-                headers: authHeaders(),
             });
             if (!res.ok) throw new Error(`Failed to open billing portal (${res.status})`);
             const { url } = (await res.json()) as { url: string };
@@ -781,31 +763,35 @@ export default function CompanyBillingPage() {
                             )}
 
                             {/* Plan change form */}
-                            <form onSubmit={handleChangePlan} className="border-t pt-6">
-                                <button
-                                    type="submit"
-                                    className="w-full inline-flex items-center justify-center gap-2 px-6 py-3 rounded-xl bg-gradient-to-r from-indigo-500 to-indigo-600 text-white font-semibold hover:from-indigo-600 hover:to-indigo-700 disabled:opacity-50 transition-all shadow-sm"
-                                    disabled={plansLoading}
-                                >
-                                    <DocumentTextIcon className="h-5 w-5" />
-                                    Update Plan
-                                </button>
-                            </form>
-
-                            {/* Cancel subscription — period end only (shown for paid plans) */}
-                            {needsPaymentUI && (
-                                <div className="border-t pt-6">
-                                    <h3 className="text-lg font-semibold text-gray-900 mb-2">Cancel subscription</h3>
-                                    <p className="text-sm text-gray-600 mb-4">Cancel at the end of the current billing period.</p>
+                            <Can permission="billing.manage">
+                                <form onSubmit={handleChangePlan} className="border-t pt-6">
                                     <button
-                                        onClick={handleCancelAtPeriodEnd}
-                                        className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-red-300 text-red-700 hover:bg-red-50 transition-colors"
+                                        type="submit"
+                                        className="w-full inline-flex items-center justify-center gap-2 px-6 py-3 rounded-xl bg-gradient-to-r from-indigo-500 to-indigo-600 text-white font-semibold hover:from-indigo-600 hover:to-indigo-700 disabled:opacity-50 transition-all shadow-sm"
+                                        disabled={plansLoading}
                                     >
-                                        <ExclamationTriangleIcon className="h-4 w-4" />
-                                        Cancel at period end
+                                        <DocumentTextIcon className="h-5 w-5" />
+                                        Update Plan
                                     </button>
-                                </div>
-                            )}
+                                </form>
+                            </Can>
+
+                            {/* Cancel subscription — period end only (shown for paid plans) */}
+                            <Can permission="billing.manage">
+                                {needsPaymentUI && (
+                                    <div className="border-t pt-6">
+                                        <h3 className="text-lg font-semibold text-gray-900 mb-2">Cancel subscription</h3>
+                                        <p className="text-sm text-gray-600 mb-4">Cancel at the end of the current billing period.</p>
+                                        <button
+                                            onClick={handleCancelAtPeriodEnd}
+                                            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-red-300 text-red-700 hover:bg-red-50 transition-colors"
+                                        >
+                                            <ExclamationTriangleIcon className="h-4 w-4" />
+                                            Cancel at period end
+                                        </button>
+                                    </div>
+                                )}
+                            </Can>
                         </div>
                     </section>
 
@@ -821,73 +807,75 @@ export default function CompanyBillingPage() {
                                 </div>
                             </div>
 
-                            <div className="p-6 space-y-6">
-                                <p className="text-sm text-gray-600">
-                                    Manage the default payment method used for your subscription charges.
-                                </p>
-
-                                <div className="flex items-center gap-3">
-                                    <button
-                                        type="button"
-                                        onClick={openBillingPortal}
-                                        className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors font-medium"
-                                    >
-                                        <BanknotesIcon className="h-4 w-4" />
-                                        Manage in Stripe Portal
-                                    </button>
-                                    <button
-                                        type="button"
-                                        onClick={initCompanySetupIntent}
-                                        className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors font-medium"
-                                    >
-                                        <CreditCardIcon className="h-4 w-4" />
-                                        {cardClientSecret ? 'Reset form' : 'Add / change card'}
-                                    </button>
-                                </div>
-
-                                {cardError && (
-                                    <div className="rounded-lg bg-red-50 border border-red-200 p-3">
-                                        <p className="text-sm text-red-600">{cardError}</p>
+                            <Can permission="billing.manage" fallback={<div className="p-6"><AccessDenied message="Only owners and billing contacts can change the payment method." /></div>}>
+                                <div className="p-6 space-y-6">
+                                    <p className="text-sm text-gray-600">
+                                        Manage the default payment method used for your subscription charges.
+                                    </p>
+
+                                    <div className="flex items-center gap-3">
+                                        <button
+                                            type="button"
+                                            onClick={openBillingPortal}
+                                            className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors font-medium"
+                                        >
+                                            <BanknotesIcon className="h-4 w-4" />
+                                            Manage in Stripe Portal
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={initCompanySetupIntent}
+                                            className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors font-medium"
+                                        >
+                                            <CreditCardIcon className="h-4 w-4" />
+                                            {cardClientSecret ? 'Reset form' : 'Add / change card'}
+                                        </button>
                                     </div>
-                                )}
 
-                                {cardLoading && (
-                                    <div className="rounded-xl border border-neutral-200 p-4 animate-pulse">
-                                        <div className="h-4 w-40 bg-neutral-200 rounded mb-3" />
-                                        <div className="h-9 w-full bg-neutral-200 rounded" />
-                                    </div>
-                                )}
-
-                                {!cardLoading && stripePromise && cardClientSecret && (
-                                    <Elements
-                                        stripe={stripePromise}
-                                        options={{ clientSecret: cardClientSecret, appearance: { theme: 'stripe' } }}
-                                    >
-                                        <div className="space-y-4">
-                                            <StripePayment
-                                                ref={stripeConfirmRef}
-                                                note="Your card will be saved for future automatic charges."
-                                            />
-                                            <button
-                                                onClick={handleSaveNewCard}
-                                                className="w-full inline-flex items-center justify-center gap-2 px-6 py-3 rounded-xl bg-gradient-to-r from-emerald-500 to-emerald-600 text-white font-semibold hover:from-emerald-600 hover:to-emerald-700 transition-all shadow-sm"
-                                            >
-                                                <ShieldCheckIcon className="h-5 w-5" />
-                                                Save payment method
-                                            </button>
+                                    {cardError && (
+                                        <div className="rounded-lg bg-red-50 border border-red-200 p-3">
+                                            <p className="text-sm text-red-600">{cardError}</p>
                                         </div>
-                                    </Elements>
-                                )}
+                                    )}
 
-                                {!cardLoading && !cardClientSecret && (
-                                    <div className="rounded-xl border border-dashed border-gray-300 bg-gray-50/50 p-8 text-center">
-                                        <CreditCardIcon className="mx-auto h-12 w-12 text-gray-400 mb-3" />
-                                        <p className="text-sm text-gray-600">
-                                            Click <span className="font-medium text-gray-700">Add / change card</span> to open the secure payment form.
-                                        </p>
-                                    </div>
-                                )}
-                            </div>
+                                    {cardLoading && (
+                                        <div className="rounded-xl border border-neutral-200 p-4 animate-pulse">
+                                            <div className="h-4 w-40 bg-neutral-200 rounded mb-3" />
+                                            <div className="h-9 w-full bg-neutral-200 rounded" />
+                                        </div>
+                                    )}
+
+                                    {!cardLoading && stripePromise && cardClientSecret && (
+                                        <Elements
+                                            stripe={stripePromise}
+                                            options={{ clientSecret: cardClientSecret, appearance: { theme: 'stripe' } }}
+                                        >
+                                            <div className="space-y-4">
+                                                <StripePayment
+                                                    ref={stripeConfirmRef}
+                                                    note="Your card will be saved for future automatic charges."
+                                                />
+                                                <button
+                                                    onClick={handleSaveNewCard}
+                                                    className="w-full inline-flex items-center justify-center gap-2 px-6 py-3 rounded-xl bg-gradient-to-r from-emerald-500 to-emerald-600 text-white font-semibold hover:from-emerald-600 hover:to-emerald-700 transition-all shadow-sm"
+                                                >
+                                                    <ShieldCheckIcon className="h-5 w-5" />
+                                                    Save payment method
+                                                </button>
+                                            </div>
+                                        </Elements>
+                                    )}
+
+                                    {!cardLoading && !cardClientSecret && (
+                                        <div className="rounded-xl border border-dashed border-gray-300 bg-gray-50/50 p-8 text-center">
+                                            <CreditCardIcon className="mx-auto h-12 w-12 text-gray-400 mb-3" />
+                                            <p className="text-sm text-gray-600">
+                                                Click <span className="font-medium text-gray-700">Add / change card</span> to open the secure payment form.
+                                            </p>
+                                        </div>
+                                    )}
+                                </div>
+                            </Can>
                         </section>
                     )}
                 </div>
@@ -18,6 +18,8 @@ import countries from 'world-countries';
 import { PhoneInput } from 'react-international-phone';
 import type { CountryIso2 } from 'react-international-phone';
 import 'react-international-phone/style.css';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
+import Can from '@/components/company/Can';
 
 /* ---------------- Types ---------------- */
 type Address = { street?: string; city?: string; zip?: string; country?: string } | null;
@@ -32,10 +34,6 @@ type CompanyDetail = {
 };
 
 /* -------------- Helpers --------------- */
-const authHeaders = (): HeadersInit => {
-    const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-    return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-};
 
 // Strong type for world-countries without using `any`
 type WCountry = { cca2?: string; name?: { common?: string } };
@@ -107,9 +105,7 @@ export default function CompanyEditPage() {
             setLoading(true);
             setError(null);
             try {
-                const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/companies/${hash}`, {
-                    headers: authHeaders(),
-                });
+                const res = await apiFetch(`${BACKEND_URL}/companies/${hash}`);
                 if (res.status === 403) throw new Error(`You don't have access to this company.`);
                 if (!res.ok) throw new Error(`Failed to load company (${res.status})`);
 
@@ -214,9 +210,8 @@ export default function CompanyEditPage() {
                 return;
             }
             setSaving(true);
-            const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/companies/${hash}`, {
+            const res = await apiFetch(`${BACKEND_URL}/companies/${hash}`, {
                 method: 'PATCH',
-                headers: authHeaders(),
                 body: JSON.stringify(patch),
             });
             if (!res.ok) {
@@ -335,34 +330,36 @@ export default function CompanyEditPage() {
                         </div>
                     </div>
 
-                    <div className="flex items-center gap-2">
-                        <button
-                            onClick={() => {
-                                setName(initial.name ?? '');
-                                setPhone(initial.phone_number ?? '');
-                                const a = normalizeAddress(initial.address);
-                                setStreet(a?.street ?? '');
-                                setCity(a?.city ?? '');
-                                setZip(a?.zip ?? '');
-                                setCountryCode(nameToCode(a?.country || '') || '');
-                                setActive(Boolean(initial.status ?? true));
-                                setNotice('Changes reverted.');
-                            }}
-                            className="inline-flex items-center gap-2 rounded-lg bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm ring-1 ring-gray-200 hover:bg-gray-50 transition-all"
-                        >
-                            Reset
-                        </button>
-                        <button
-                            form="company-edit-form"
-                            type="submit"
-                            disabled={saveDisabled}
-                            className={`inline-flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-semibold text-white transition-all shadow-sm
-                ${saveDisabled ? 'bg-indigo-400 cursor-not-allowed' : 'bg-gradient-to-r from-indigo-600 to-indigo-700 hover:from-indigo-700 hover:to-indigo-800'}
-              `}
-                        >
-                            {saving ? 'Saving…' : 'Save changes'}
-                        </button>
-                    </div>
+                    <Can permission="company.manage">
+                        <div className="flex items-center gap-2">
+                            <button
+                                onClick={() => {
+                                    setName(initial.name ?? '');
+                                    setPhone(initial.phone_number ?? '');
+                                    const a = normalizeAddress(initial.address);
+                                    setStreet(a?.street ?? '');
+                                    setCity(a?.city ?? '');
+                                    setZip(a?.zip ?? '');
+                                    setCountryCode(nameToCode(a?.country || '') || '');
+                                    setActive(Boolean(initial.status ?? true));
+                                    setNotice('Changes reverted.');
+                                }}
+                                className="inline-flex items-center gap-2 rounded-lg bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm ring-1 ring-gray-200 hover:bg-gray-50 transition-all"
+                            >
+                                Reset
+                            </button>
+                            <button
+                                form="company-edit-form"
+                                type="submit"
+                                disabled={saveDisabled}
+                                className={`inline-flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-semibold text-white transition-all shadow-sm
+                    ${saveDisabled ? 'bg-indigo-400 cursor-not-allowed' : 'bg-gradient-to-r from-indigo-600 to-indigo-700 hover:from-indigo-700 hover:to-indigo-800'}
+                  `}
+                            >
+                                {saving ? 'Saving…' : 'Save changes'}
+                            </button>
+                        </div>
+                    </Can>
                 </div>
 
                 {/* Alerts */}
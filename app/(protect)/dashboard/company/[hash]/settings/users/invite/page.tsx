@@ -12,6 +12,9 @@ import {
     CheckIcon,
     ExclamationTriangleIcon,
 } from '@heroicons/react/24/outline';
+import { BACKEND_URL, apiFetch, joinUrl } from '@/lib/api';
+import Can, { AccessDenied } from '@/components/company/Can';
+import { COMPANY_ROLES } from '@/lib/permissions';
 
 type InviteStatus = 'added' | 'already_member' | 'needs_invite';
 
@@ -36,8 +39,6 @@ type InviteResult = {
     message?: string;
 };
 
-const ALL_ROLES = ['owner', 'admin', 'member', 'billing', 'viewer'] as const;
-
 function classNames(...s: Array<string | false | null | undefined>) {
     return s.filter(Boolean).join(' ');
 }
@@ -55,12 +56,6 @@ function parseEmails(input: string): string[] {
     return uniq.filter(validEmail);
 }
 
-function joinUrl(base: string, path: string) {
-    const b = base.replace(/\/+$/, '');
-    const p = path.replace(/^\/+/, '');
-    return `${b}/${p}`;
-}
-
 export default function CompanyInvitePage() {
     const router = useRouter();
     const pathname = usePathname() ?? '';
@@ -80,7 +75,7 @@ export default function CompanyInvitePage() {
     const [results, setResults] = useState<InviteResult[]>([]);
     const [error, setError] = useState<string | null>(null);
 
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL as string;
+    const backend = BACKEND_URL;
     const frontend =
         (process.env.NEXT_PUBLIC_FRONTEND_URL as string | undefined) ??
         (typeof window !== 'undefined' ? window.location.origin : '');
@@ -98,14 +93,6 @@ export default function CompanyInvitePage() {
         setInvalids(invalid);
     }, [emailsInput]);
 
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return {
-            'Content-Type': 'application/json',
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        };
-    };
-
     const toggleRole = (role: string) => {
         setSelectedRoles((prev) => {
             const set = new Set(prev);
@@ -142,9 +129,8 @@ export default function CompanyInvitePage() {
     const inviteOne = useCallback(
         async (email: string): Promise<InviteResult> => {
             try {
-                const res = await fetch(`${backend}/companies/${companyHash}/users/invite`, {
+                const res = await apiFetch(`${backend}/companies/${companyHash}/users/invite`, {
                     method: 'POST',
-                    headers: authHeaders(),
                     body: JSON.stringify({ email, roles: selectedRoles }),
                 });
 
@@ -232,100 +218,102 @@ export default function CompanyInvitePage() {
             </div>
 
             {/* Entry panel */}
-            <div className="bg-white border rounded-lg shadow p-5 space-y-5">
-                <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Emails</label>
-                    <textarea
-                        className="w-full rounded border p-3 text-sm"
-                        rows={4}
-                        placeholder="Paste or type emails… e.g. alice@acme.com, bob@acme.com"
-                        value={emailsInput}
-                        onChange={(e) => setEmailsInput(e.target.value)}
-                    />
-                    <div className="mt-2 text-xs text-gray-500">
-                        You can paste multiple emails separated by commas, semicolons, spaces or new lines.
-                    </div>
-                    <div className="mt-2 flex flex-wrap gap-2">
-                        {emails.map((e) => (
-                            <span key={e} className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-blue-50 text-blue-700">
-                {e}
-                                <button
-                                    onClick={() => removeEmail(e)}
-                                    className="ml-1 inline-flex items-center justify-center h-4 w-4 rounded-full hover:bg-blue-100"
-                                    title="Remove"
-                                >
-                  <XMarkIcon className="h-3 w-3" />
-                </button>
-              </span>
-                        ))}
-                        {invalids.length > 0 && (
-                            <span className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-red-50 text-red-700">
-                <ExclamationTriangleIcon className="h-3 w-3" />
-                                {invalids.length} invalid entr{invalids.length === 1 ? 'y' : 'ies'} ignored
-              </span>
-                        )}
+            <Can permission="users.manage" fallback={<AccessDenied />}>
+                <div className="bg-white border rounded-lg shadow p-5 space-y-5">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Emails</label>
+                        <textarea
+                            className="w-full rounded border p-3 text-sm"
+                            rows={4}
+                            placeholder="Paste or type emails… e.g. alice@acme.com, bob@acme.com"
+                            value={emailsInput}
+                            onChange={(e) => setEmailsInput(e.target.value)}
+                        />
+                        <div className="mt-2 text-xs text-gray-500">
+                            You can paste multiple emails separated by commas, semicolons, spaces or new lines.
+                        </div>
+                        <div className="mt-2 flex flex-wrap gap-2">
+                            {emails.map((e) => (
+                                <span key={e} className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-blue-50 text-blue-700">
+                    {e}
+                                    <button
+                                        onClick={() => removeEmail(e)}
+                                        className="ml-1 inline-flex items-center justify-center h-4 w-4 rounded-full hover:bg-blue-100"
+                                        title="Remove"
+                                    >
+                      <XMarkIcon className="h-3 w-3" />
+                    </button>
+                  </span>
+                            ))}
+                            {invalids.length > 0 && (
+                                <span className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-red-50 text-red-700">
+                    <ExclamationTriangleIcon className="h-3 w-3" />
+                                    {invalids.length} invalid entr{invalids.length === 1 ? 'y' : 'ies'} ignored
+                  </span>
+                            )}
+                        </div>
                     </div>
-                </div>
 
-                {/* Roles selector */}
-                <div>
-                    <div className="text-sm font-medium text-gray-700 mb-2">Roles (applied to all)</div>
-                    <div className="flex flex-wrap gap-2">
-                        {ALL_ROLES.map((role) => {
-                            const checked = selectedRoles.includes(role);
-                            return (
-                                <label
-                                    key={role}
-                                    className={classNames(
-                                        'cursor-pointer inline-flex items-center gap-2 px-3 py-2 rounded border text-sm',
-                                        checked ? 'bg-blue-50 border-blue-300 text-blue-700' : 'hover:bg-white'
-                                    )}
-                                >
-                                    <input
-                                        type="checkbox"
-                                        className="accent-blue-600"
-                                        checked={checked}
-                                        onChange={() => toggleRole(role)}
-                                    />
-                                    {role}
-                                </label>
-                            );
-                        })}
+                    {/* Roles selector */}
+                    <div>
+                        <div className="text-sm font-medium text-gray-700 mb-2">Roles (applied to all)</div>
+                        <div className="flex flex-wrap gap-2">
+                            {COMPANY_ROLES.map((role) => {
+                                const checked = selectedRoles.includes(role);
+                                return (
+                                    <label
+                                        key={role}
+                                        className={classNames(
+                                            'cursor-pointer inline-flex items-center gap-2 px-3 py-2 rounded border text-sm',
+                                            checked ? 'bg-blue-50 border-blue-300 text-blue-700' : 'hover:bg-white'
+                                        )}
+                                    >
+                                        <input
+                                            type="checkbox"
+                                            className="accent-blue-600"
+                                            checked={checked}
+                                            onChange={() => toggleRole(role)}
+                                        />
+                                        {role}
+                                    </label>
+                                );
+                            })}
+                        </div>
+                        <p className="text-xs text-gray-500 mt-2">
+                            If no role is selected, <span className="font-medium">member</span> will be used.
+                        </p>
                     </div>
-                    <p className="text-xs text-gray-500 mt-2">
-                        If no role is selected, <span className="font-medium">member</span> will be used.
-                    </p>
-                </div>
-
-                {/* Actions */}
-                <div className="flex items-center gap-3">
-                    <button
-                        onClick={sendInvites}
-                        disabled={submitting || emails.length === 0}
-                        className={classNames(
-                            'inline-flex items-center gap-2 px-4 py-2 rounded bg-blue-600 text-white',
-                            submitting || emails.length === 0 ? 'opacity-60 cursor-not-allowed' : 'hover:bg-blue-700'
-                        )}
-                    >
-                        <UserPlusIcon className="h-5 w-5" />
-                        {submitting ? 'Inviting…' : emails.length > 1 ? `Invite ${emails.length} users` : 'Invite user'}
-                    </button>
 
-                    <button
-                        onClick={() => {
-                            setEmailsInput('');
-                            setResults([]);
-                        }}
-                        disabled={submitting}
-                        className="inline-flex items-center gap-2 px-4 py-2 rounded border hover:bg-gray-50"
-                    >
-                        <TrashIcon className="h-5 w-5" />
-                        Clear
-                    </button>
-
-                    {error && <span className="text-red-600 text-sm">{error}</span>}
+                    {/* Actions */}
+                    <div className="flex items-center gap-3">
+                        <button
+                            onClick={sendInvites}
+                            disabled={submitting || emails.length === 0}
+                            className={classNames(
+                                'inline-flex items-center gap-2 px-4 py-2 rounded bg-blue-600 text-white',
+                                submitting || emails.length === 0 ? 'opacity-60 cursor-not-allowed' : 'hover:bg-blue-700'
+                            )}
+                        >
+                            <UserPlusIcon className="h-5 w-5" />
+                            {submitting ? 'Inviting…' : emails.length > 1 ? `Invite ${emails.length} users` : 'Invite user'}
+                        </button>
+
+                        <button
+                            onClick={() => {
+                                setEmailsInput('');
+                                setResults([]);
+                            }}
+                            disabled={submitting}
+                            className="inline-flex items-center gap-2 px-4 py-2 rounded border hover:bg-gray-50"
+                        >
+                            <TrashIcon className="h-5 w-5" />
+                            Clear
+                        </button>
+
+                        {error && <span className="text-red-600 text-sm">{error}</span>}
+                    </div>
                 </div>
-            </div>
+            </Can>
 
             {/* Results */}
             {results.length > 0 && (
@@ -20,6 +20,9 @@ import {
     UserCircleIcon as UserCircleSolid,
 } from '@heroicons/react/24/solid';
 import Image from 'next/image';
+import { BACKEND_URL, apiFetch, joinUrl } from '@/lib/api';
+import Can from '@/components/company/Can';
+import { COMPANY_ROLES } from '@/lib/permissions';
 
 type BackendMedia = {
     id: number;
@@ -50,8 +53,6 @@ type UserItem = {
     roles: string[];
 };
 
-const ALL_ROLES = ['owner', 'admin', 'member', 'billing', 'viewer'] as const;
-
 const ROLE_CONFIG = {
     owner: { label: 'Owner', color: 'bg-purple-100 text-purple-700 border-purple-200' },
     admin: { label: 'Admin', color: 'bg-red-100 text-red-700 border-red-200' },
@@ -65,11 +66,6 @@ function classNames(...s: Array<string | false | null | undefined>) {
 }
 
 // join path to backend origin, ensuring exactly one slash
-function joinUrl(base: string, path: string) {
-    const b = base.replace(/\/+$/, '');
-    const p = path.replace(/^\/+/, '');
-    return `${b}/${p}`;
-}
 
 // Normalize media URL to absolute on the same domain as `backend`
 function normalizeImageUrl(backend: string, media?: BackendMedia): string | null {
@@ -103,15 +99,7 @@ export default function CompanyUsersPage() {
     const [perPage] = useState(25);
     const [total, setTotal] = useState(0);
 
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return {
-            'Content-Type': 'application/json',
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        };
-    };
-
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL as string;
+    const backend = BACKEND_URL;
 
     // memoize normalizeUser (it depends on `backend`)
     const normalizeUser = useCallback(
@@ -133,11 +121,10 @@ export default function CompanyUsersPage() {
             setError(null);
 
             try {
-                const url = new URL(`${backend}/companies/${companyHash}/users`);
-                url.searchParams.set('page', String(targetPage));
-                url.searchParams.set('per_page', String(perPage));
+                const qs = new URLSearchParams({ page: String(targetPage), per_page: String(perPage) });
+                const url = `${backend}/companies/${companyHash}/users?${qs.toString()}`;
 
-                const res = await fetch(url.toString(), { headers: authHeaders() });
+                const res = await apiFetch(url);
                 if (res.status === 403 || res.status === 401) {
                     setError('You do not have access to this company.');
                     setUsers([]);
@@ -194,9 +181,8 @@ export default function CompanyUsersPage() {
         setBusyUserId(u.id);
         try {
             const roles = draftRoles[u.id] ?? [];
-            const res = await fetch(`${backend}/companies/${companyHash}/users/${u.id}`, {
+            const res = await apiFetch(`${backend}/companies/${companyHash}/users/${u.id}`, {
                 method: 'PATCH',
-                headers: authHeaders(),
                 body: JSON.stringify({ roles }),
             });
             if (!res.ok) throw new Error(`Failed to update roles: ${res.status}`);
@@ -216,9 +202,8 @@ export default function CompanyUsersPage() {
         if (!confirm(`Remove ${u.name ?? u.email} from this company?`)) return;
         setBusyUserId(u.id);
         try {
-            const res = await fetch(`${backend}/companies/${companyHash}/users/${u.id}`, {
+            const res = await apiFetch(`${backend}/companies/${companyHash}/users/${u.id}`, {
                 method: 'DELETE',
-                headers: authHeaders(),
             });
             if (!res.ok) throw new Error(`Failed to remove user: ${res.status}`);
 
@@ -303,13 +288,15 @@ export default function CompanyUsersPage() {
                             </p>
                         </div>
                     </div>
-                    <Link
-                        href={`/dashboard/company/${companyHash}/settings/users/invite`}
-                        className="inline-flex items-center gap-2 rounded-lg bg-gradient-to-r from-indigo-500 to-indigo-600 px-4 py-2 text-white font-medium hover:from-indigo-600 hover:to-indigo-700 transition-all shadow-sm"
-                    >
-                        <UserPlusIcon className="h-4 w-4" />
-                        Invite User
-                    </Link>
+                    <Can permission="users.manage">
+                        <Link
+                            href={`/dashboard/company/${companyHash}/settings/users/invite`}
+                            className="inline-flex items-center gap-2 rounded-lg bg-gradient-to-r from-indigo-500 to-indigo-600 px-4 py-2 text-white font-medium hover:from-indigo-600 hover:to-indigo-700 transition-all shadow-sm"
+                        >
+                            <UserPlusIcon className="h-4 w-4" />
+                            Invite User
+                        </Link>
+                    </Can>
                 </div>
 
                 {/* Stats Card */}
@@ -365,13 +352,15 @@ export default function CompanyUsersPage() {
                                     Invite your first team member to get started
                                 </p>
                                 <div className="mt-6">
-                                    <Link
-                                        href={`/dashboard/company/${companyHash}/settings/users/invite`}
-                                        className="inline-flex items-center gap-2 rounded-lg bg-gradient-to-r from-indigo-500 to-indigo-600 px-4 py-2 text-white font-medium hover:from-indigo-600 hover:to-indigo-700 transition-all shadow-sm"
-                                    >
-                                        <UserPlusIcon className="h-4 w-4" />
-                                        Invite User
-                                    </Link>
+                                    <Can permission="users.manage">
+                                        <Link
+                                            href={`/dashboard/company/${companyHash}/settings/users/invite`}
+                                            className="inline-flex items-center gap-2 rounded-lg bg-gradient-to-r from-indigo-500 to-indigo-600 px-4 py-2 text-white font-medium hover:from-indigo-600 hover:to-indigo-700 transition-all shadow-sm"
+                                        >
+                                            <UserPlusIcon className="h-4 w-4" />
+                                            Invite User
+                                        </Link>
+                                    </Can>
                                 </div>
                             </div>
                         ) : (
@@ -431,54 +420,56 @@ export default function CompanyUsersPage() {
                                                 </div>
 
                                                 {/* Right: actions */}
-                                                <div className="flex items-center gap-2 ml-4">
-                                                    {!isEditing ? (
-                                                        <button
-                                                            onClick={() => beginEdit(u)}
-                                                            className="inline-flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-all"
-                                                        >
-                                                            <PencilSquareIcon className="h-4 w-4" />
-                                                            Edit Roles
-                                                        </button>
-                                                    ) : (
-                                                        <>
+                                                <Can permission="users.manage">
+                                                    <div className="flex items-center gap-2 ml-4">
+                                                        {!isEditing ? (
                                                             <button
-                                                                onClick={() => saveEdit(u)}
-                                                                disabled={busyUserId === u.id}
-                                                                className={classNames(
-                                                                    'inline-flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg bg-green-600 text-white hover:bg-green-700 transition-all',
-                                                                    busyUserId === u.id && 'opacity-70 cursor-not-allowed'
-                                                                )}
-                                                            >
-                                                                {busyUserId === u.id ? (
-                                                                    <div className="h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent" />
-                                                                ) : (
-                                                                    <CheckIcon className="h-4 w-4" />
-                                                                )}
-                                                                Save
-                                                            </button>
-                                                            <button
-                                                                onClick={cancelEdit}
+                                                                onClick={() => beginEdit(u)}
                                                                 className="inline-flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-all"
                                                             >
-                                                                <XMarkIcon className="h-4 w-4" />
-                                                                Cancel
+                                                                <PencilSquareIcon className="h-4 w-4" />
+                                                                Edit Roles
                                                             </button>
-                                                        </>
-                                                    )}
-
-                                                    <button
-                                                        onClick={() => removeFromCompany(u)}
-                                                        disabled={busyUserId === u.id}
-                                                        className={classNames(
-                                                            'inline-flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg border border-red-300 text-red-700 hover:bg-red-50 transition-all',
-                                                            busyUserId === u.id && 'opacity-70 cursor-not-allowed'
+                                                        ) : (
+                                                            <>
+                                                                <button
+                                                                    onClick={() => saveEdit(u)}
+                                                                    disabled={busyUserId === u.id}
+                                                                    className={classNames(
+                                                                        'inline-flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg bg-green-600 text-white hover:bg-green-700 transition-all',
+                                                                        busyUserId === u.id && 'opacity-70 cursor-not-allowed'
+                                                                    )}
+                                                                >
+                                                                    {busyUserId === u.id ? (
+                                                                        <div className="h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent" />
+                                                                    ) : (
+                                                                        <CheckIcon className="h-4 w-4" />
+                                                                    )}
+                                                                    Save
+                                                                </button>
+                                                                <button
+                                                                    onClick={cancelEdit}
+                                                                    className="inline-flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-all"
+                                                                >
+                                                                    <XMarkIcon className="h-4 w-4" />
+                                                                    Cancel
+                                                                </button>
+                                                            </>
                                                         )}
-                                                    >
-                                                        <UserMinusIcon className="h-4 w-4" />
-                                                        Remove
-                                                    </button>
-                                                </div>
+
+                                                        <button
+                                                            onClick={() => removeFromCompany(u)}
+                                                            disabled={busyUserId === u.id}
+                                                            className={classNames(
+                                                                'inline-flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg border border-red-300 text-red-700 hover:bg-red-50 transition-all',
+                                                                busyUserId === u.id && 'opacity-70 cursor-not-allowed'
+                                                            )}
+                                                        >
+                                                            <UserMinusIcon className="h-4 w-4" />
+                                                            Remove
+                                                        </button>
+                                                    </div>
+                                                </Can>
                                             </div>
 
                                             {/* Edit panel */}
@@ -489,7 +480,7 @@ export default function CompanyUsersPage() {
                                                         Role Permissions
                                                     </div>
                                                     <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-                                                        {ALL_ROLES.map((role) => {
+                                                        {COMPANY_ROLES.map((role) => {
                                                             const checked = (draftRoles[u.id] ?? []).includes(role);
                                                             const config = ROLE_CONFIG[role];
                                                             return (
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import {
@@ -20,8 +20,28 @@ import {
     BeakerIcon,
     BookOpenIcon,
     PlusIcon,
+    Squares2X2Icon,
+    PaperAirplaneIcon,
 } from '@heroicons/react/24/outline';
-import type { ReactCodeMirrorProps } from '@uiw/react-codemirror';
+import type { EditorView, ReactCodeMirrorProps } from '@uiw/react-codemirror';
+import { api, errorMessage, isAbortError } from '@/lib/api';
+import type { Contact, TemplateInput } from '@/types/api';
+import type { EmailDocument } from '@/types/email-builder';
+import EmailBuilder from '@/components/templates/builder/EmailBuilder';
+import { usePlanCapabilities } from '@/components/company/usePlanCapabilities';
+import { createDocument, parseDocument } from '@/lib/email-builder/document';
+import { compileDocument, inlineCompiledHtml } from '@/lib/email-builder/compile';
+import { MJML_STARTER, compileMjml } from '@/lib/mjml';
+import { emailLintExtensions, jumpToLine } from '@/lib/editor';
+import { countBySeverity, lintEmailHtml } from '@/lib/email-lint';
+import { useMjmlCompile } from '@/components/templates/useMjmlCompile';
+import MjmlIssues from '@/components/templates/MjmlIssues';
+import LintIssues from '@/components/templates/LintIssues';
+import InboxPreview from '@/components/templates/InboxPreview';
+import MergeTagPanel from '@/components/templates/MergeTagPanel';
+import { useMergeTags } from '@/components/templates/useMergeTags';
+import { contactPreviewData } from '@/lib/merge-tags';
+import SendTestDialog from '@/components/messaging/SendTestDialog';
 
 // Lazy import editor so Next doesn't SSR it
 let CodeMirror: React.ComponentType<ReactCodeMirrorProps> | null = null;
@@ -39,17 +59,7 @@ if (typeof window !== 'undefined') {
 
 /* -------------------------------- Types -------------------------------- */
 
-type Template = {
-    id: number;
-    name: string | null;
-    engine: string | null; // 'raw' | 'handlebars' | null
-    version: number | null;
-    html: string | null;
-    text: string | null;
-    created_at: string | null;
-};
-
-type ContentMode = 'html' | 'text';
+type ContentMode = 'html' | 'text' | 'visual';
 type ViewMode = 'split' | 'editor' | 'preview';
 
 type InlineResponse = { html?: string; error?: string };
@@ -129,26 +139,6 @@ View in browser: {{view_in_browser_url}}`,
     },
 ];
 
-/* ----------------------------- Merge tags ------------------------------ */
-
-const MERGE_TAGS = [
-    { category: 'Contact', tags: [
-            { key: '{{contact.name}}', label: 'Name', icon: '👤' },
-            { key: '{{contact.email}}', label: 'Email', icon: '✉️' },
-            { key: '{{contact.first_name}}', label: 'First Name', icon: '👤' },
-            { key: '{{contact.last_name}}', label: 'Last Name', icon: '👤' },
-        ]},
-    { category: 'Company', tags: [
-            { key: '{{company.name}}', label: 'Company Name', icon: '🏢' },
-            { key: '{{company.website}}', label: 'Website', icon: '🌐' },
-        ]},
-    { category: 'System', tags: [
-            { key: '{{today}}', label: 'Today\'s Date', icon: '📅' },
-            { key: '{{unsubscribe_url}}', label: 'Unsubscribe Link', icon: '🔗' },
-            { key: '{{view_in_browser_url}}', label: 'Browser View Link', icon: '🔗' },
-        ]},
-];
-
 const CONTENT_BLOCKS = [
     {
         label: 'Header Section',
@@ -203,8 +193,9 @@ function defaultPreviewData() {
         contact: {
             name: 'Jane Example',
             email: 'jane@example.com',
-            first_name: 'Jane',
-            last_name: 'Example'
+            locale: 'en',
+            timezone: 'UTC',
+            attributes: { first_name: 'Jane', last_name: 'Example' },
         },
         company: {
             name: 'Acme Inc.',
@@ -247,12 +238,6 @@ export default function TemplateEditPage() {
     const router = useRouter();
     const { hash, id } = useParams<{ hash: string; id: string }>();
 
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
-
     const backHref = `/dashboard/company/${hash}/templates/${id}`;
 
     // Loading & error
@@ -269,6 +254,17 @@ export default function TemplateEditPage() {
     const [html, setHtml] = useState<string>('');
     const [text, setText] = useState<string>('');
 
+    // Visual builder design; while set, `html` is its compiled output
+    const [design, setDesign] = useState<EmailDocument | null>(null);
+    const { capabilities } = usePlanCapabilities(hash);
+    const canUseBuilder = !!capabilities.templateBuilder;
+
+    // MJML source when engine is 'mjml'; `html` then holds the compiled output
+    const [mjml, setMjml] = useState<string>('');
+    const isMjml = engine === 'mjml';
+    const mjmlOut = useMjmlCompile(mjml, isMjml);
+    const editorView = useRef<EditorView | null>(null);
+
     // View
     const [viewMode, setViewMode] = useState<ViewMode>('split');
     const [showTemplateLibrary, setShowTemplateLibrary] = useState(false);
@@ -282,7 +278,9 @@ export default function TemplateEditPage() {
     const [dataJSON, setDataJSON] = useState<string>(JSON.stringify(defaultPreviewData(), null, 2));
     const [dataObj, setDataObj] = useState<Record<string, unknown>>(defaultPreviewData());
     const [dataErr, setDataErr] = useState<string | null>(null);
+    const [previewContact, setPreviewContact] = useState<Contact | null>(null);
     const [showPreviewData, setShowPreviewData] = useState(false);
+    const [showSendTest, setShowSendTest] = useState(false);
 
     // Inline CSS & textify helpers
     const [inlineCss, setInlineCss] = useState<boolean>(true);
@@ -299,16 +297,12 @@ export default function TemplateEditPage() {
 
     // Fetch existing template
     useEffect(() => {
-        let abort = false;
-        (async () => {
-            if (!backend) return setLoadErr('Missing backend URL');
-            setLoading(true);
-            setLoadErr(null);
-            try {
-                const res = await fetch(`${backend}/companies/${hash}/templates/${id}`);
-                if (!res.ok) throw new Error(`Failed to load template (${res.status})`);
-                const tpl = (await res.json()) as Template;
-                if (abort) return;
+        const ctrl = new AbortController();
+        setLoading(true);
+        setLoadErr(null);
+        api.templates
+            .get(hash, Number(id), { signal: ctrl.signal })
+            .then((tpl) => {
                 setName(tpl.name ?? '');
                 setEngine(tpl.engine ?? 'raw');
                 setVersion(tpl.version != null ? String(tpl.version) : '');
@@ -316,17 +310,19 @@ export default function TemplateEditPage() {
                 setText(tpl.text ?? '');
                 setCreatedAt(tpl.created_at ?? null);
                 // auto choose mode
-                setMode(tpl.html ? 'html' : 'text');
-            } catch (e) {
-                if (!abort) setLoadErr(e instanceof Error ? e.message : String(e));
-            } finally {
-                if (!abort) setLoading(false);
-            }
-        })();
-        return () => {
-            abort = true;
-        };
-    }, [backend, hash, id]);
+                setMjml(tpl.mjml ?? '');
+                const doc = parseDocument(tpl.builder_json);
+                setDesign(doc);
+                setMode(doc ? 'visual' : tpl.html ? 'html' : 'text');
+            })
+            .catch((e) => {
+                if (!isAbortError(e)) setLoadErr(errorMessage(e));
+            })
+            .finally(() => {
+                if (!ctrl.signal.aborted) setLoading(false);
+            });
+        return () => ctrl.abort();
+    }, [hash, id]);
 
     /* ---------- validate preview JSON ---------- */
     useEffect(() => {
@@ -339,9 +335,19 @@ export default function TemplateEditPage() {
         }
     }, [dataJSON]);
 
+    /* ---------- compile visual design ---------- */
+    useEffect(() => {
+        if (design) setHtml(compileDocument(design));
+    }, [design]);
+
+    /* ---------- compile MJML ---------- */
+    useEffect(() => {
+        if (isMjml && mjmlOut.html) setHtml(mjmlOut.html);
+    }, [isMjml, mjmlOut.html]);
+
     /* ---------- inline CSS on server (optional) ---------- */
     useEffect(() => {
-        if (!inlineCss || mode !== 'html' || !html.trim()) {
+        if (!inlineCss || mode === 'text' || !html.trim()) {
             setInlineErr(null);
             setInlinedHtml('');
             return;
@@ -416,34 +422,99 @@ export default function TemplateEditPage() {
         }
     }, [mode, html, text, engine, dataObj, inlineCss, inlining, inlineErr, inlinedHtml]);
 
+    const previewText = useMemo(() => {
+        try {
+            if (engine === 'handlebars' && Handlebars) return Handlebars.compile(text || '')(dataObj);
+        } catch {
+            // half-typed tags; fall back to plain substitution
+        }
+        return substitute(text || '', dataObj);
+    }, [text, engine, dataObj]);
+
     /* ---------- warnings ---------- */
     const hasUnsubscribe = useMemo(() => {
-        const content = mode === 'html' ? html : text;
+        const content = mode === 'text' ? text : html;
         return content?.includes('{{unsubscribe_url}}');
     }, [mode, html, text]);
 
+    // the lint pass scans the whole document, so let it trail behind typing
+    const lintSource = useDeferredValue(html);
+    const lintIssues = useMemo(() => (mode === 'text' || !lintSource.trim() ? [] : lintEmailHtml(lintSource).issues), [mode, lintSource]);
+    const lintErrors = countBySeverity(lintIssues).error;
+
+    const mergeTags = useMergeTags(hash, html, text, engine !== 'raw');
+    const mergeTagWarnings = mergeTags.issues.filter((i) => i.severity !== 'info').length;
+
     const canSubmit = name.trim().length > 0;
 
     /* ---------- actions ---------- */
 
     function loadTemplate(template: typeof STARTER_TEMPLATES[0]) {
+        if (design && !window.confirm('Loading a starter template replaces your visual design. Continue?')) return;
+        setDesign(null);
+        if (mode === 'visual') setMode('html');
+        if (isMjml) setEngine('handlebars');
         setHtml(template.html);
         setText(template.text);
         setName(template.name);
         setShowTemplateLibrary(false);
     }
 
+    function previewAs(contact: Contact | null) {
+        setPreviewContact(contact);
+        const data = contact ? contactPreviewData(contact, defaultPreviewData()) : defaultPreviewData();
+        setDataJSON(JSON.stringify(data, null, 2));
+    }
+
     function insertTag(tag: string) {
-        if (mode === 'html') {
-            setHtml(prev => prev + tag);
+        if (mode === 'visual') {
+            // blocks are edited in the inspector; hand the tag over via the clipboard
+            void navigator.clipboard?.writeText(tag);
+        } else if (mode === 'html' && isMjml) {
+            setMjml(prev => prev + tag);
+        } else if (mode === 'html') {
+            onHtmlChange(html + tag);
         } else {
             setText(prev => prev + tag);
         }
     }
 
+    /** Fresh compile for saving: the preview's debounced output may lag behind the editor. */
+    async function compiledMjml(source: string): Promise<string> {
+        if (!source.trim()) return '';
+        const out = await compileMjml(source);
+        if (out.html === undefined) throw new Error(out.error || 'MJML could not be compiled');
+        return out.html;
+    }
+
+    function onHtmlChange(value: string) {
+        // hand-editing the markup detaches it from the visual design
+        if (design) setDesign(null);
+        setHtml(value);
+    }
+
+    function onEngineChange(value: string) {
+        if (value === 'mjml' && !isMjml) {
+            const replaces = design || (!mjml.trim() && html.trim());
+            if (replaces && !window.confirm('MJML replaces the current HTML with its compiled output. Continue?')) return;
+            setDesign(null);
+            if (mode === 'visual') setMode('html');
+            if (!mjml.trim()) setMjml(MJML_STARTER);
+        }
+        setEngine(value);
+    }
+
+    function openVisual() {
+        if (!design) {
+            if (html.trim() && !window.confirm('The visual builder starts a new design and replaces the current HTML. Continue?')) return;
+            setDesign(createDocument());
+        }
+        setMode('visual');
+    }
+
     function insertBlock(block: typeof CONTENT_BLOCKS[0]) {
         if (mode === 'html') {
-            setHtml(prev => prev + '\n' + block.html);
+            onHtmlChange(html + '\n' + block.html);
         } else {
             setText(prev => prev + '\n' + block.text);
         }
@@ -471,65 +542,49 @@ export default function TemplateEditPage() {
     }
 
     async function saveTemplate(redirect: 'back' | 'stay' | 'duplicate') {
-        if (!backend) return setErr('Missing backend URL');
         if (!canSubmit) return setErr('Please enter a name.');
 
         setSaving(true);
         setErr(null);
         try {
-            const payload: Record<string, unknown> = {
+            // the builder's output is stored inlined; saving as plain text drops the design with the HTML
+            const visual = mode !== 'text' && design ? design : null;
+            const source = mode !== 'text' && isMjml ? mjml : null;
+            const body = visual ? await inlineCompiledHtml(compileDocument(visual)) : source !== null ? await compiledMjml(source) : html;
+            const payload: TemplateInput = {
                 name: name.trim(),
                 engine: engine.trim() || null,
-                version: version.trim() === '' ? null : Number(version),
-                html: mode === 'html' ? (html.trim() === '' ? null : html) : null,
+                // no `version`: the backend numbers revisions and keeps each save as one
+                html: mode !== 'text' ? (body.trim() === '' ? null : body) : null,
                 text: mode === 'text' ? (text.trim() === '' ? null : text) : null,
+                builder_json: visual,
+                mjml: source,
             };
 
             if (redirect === 'duplicate') {
                 // Create new template as copy
-                const res = await fetch(`${backend}/companies/${hash}/templates`, {
-                    method: 'POST',
-                    headers: authHeaders(),
-                    body: JSON.stringify({
-                        ...payload,
-                        name: `${name.trim()} (Copy)`,
-                    }),
-                });
-                const json = (await res.json()) as Template | { error?: string };
-                if (!res.ok) throw new Error('error' in json && json.error ? json.error : `Duplicate failed`);
-                const created = json as Template;
+                const created = await api.templates.create(hash, { ...payload, name: `${name.trim()} (Copy)` });
                 router.push(`/dashboard/company/${hash}/templates/${created.id}/edit`);
             } else {
                 // Update existing template
-                const res = await fetch(`${backend}/companies/${hash}/templates/${id}`, {
-                    method: 'PATCH',
-                    headers: authHeaders(),
-                    body: JSON.stringify(payload),
-                });
-                const json = (await res.json()) as Template | { error?: string };
-                if (!res.ok) throw new Error('error' in json && json.error ? json.error : `Save failed`);
-
+                const saved = await api.templates.update(hash, Number(id), payload);
+                if (saved.version != null) setVersion(String(saved.version));
                 if (redirect === 'back') router.push(backHref);
             }
         } catch (e) {
-            setErr(e instanceof Error ? e.message : String(e));
+            setErr(errorMessage(e));
         } finally {
             setSaving(false);
         }
     }
 
     async function onDelete() {
-        if (!backend) return setErr('Missing backend URL');
         if (!confirm('Are you sure you want to delete this template? This action cannot be undone.')) return;
         try {
-            const res = await fetch(`${backend}/companies/${hash}/templates/${id}`, {
-                method: 'DELETE',
-                headers: authHeaders(),
-            });
-            if (!res.ok && res.status !== 204) throw new Error(`Delete failed (${res.status})`);
+            await api.templates.remove(hash, Number(id));
             router.push(`/dashboard/company/${hash}/templates`);
         } catch (e) {
-            setErr(e instanceof Error ? e.message : String(e));
+            setErr(errorMessage(e));
         }
     }
 
@@ -589,6 +644,13 @@ export default function TemplateEditPage() {
                     </div>
 
                     <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => setShowSendTest(true)}
+                            className="inline-flex items-center gap-2 rounded-lg bg-white px-3 py-2 text-sm font-medium text-gray-700 shadow-sm ring-1 ring-gray-200 hover:bg-gray-50 transition-all"
+                        >
+                            <PaperAirplaneIcon className="h-4 w-4" />
+                            Send test
+                        </button>
                         <button
                             onClick={() => saveTemplate('duplicate')}
                             className="inline-flex items-center gap-2 rounded-lg bg-white px-3 py-2 text-sm font-medium text-gray-700 shadow-sm ring-1 ring-gray-200 hover:bg-gray-50 transition-all"
@@ -641,14 +703,16 @@ export default function TemplateEditPage() {
                                 <TagIcon className="h-4 w-4" />
                                 Merge Tags
                             </button>
-                            <button
-                                onClick={() => setShowBlocks(!showBlocks)}
-                                className="inline-flex items-center gap-2 rounded-lg bg-white px-3 py-1.5 text-xs font-medium text-gray-700 ring-1 ring-gray-200 hover:bg-gray-50 transition-all"
-                            >
-                                <PlusIcon className="h-4 w-4" />
-                                Content Blocks
-                            </button>
-                            {mode === 'html' && (
+                            {mode !== 'visual' && !isMjml && (
+                                <button
+                                    onClick={() => setShowBlocks(!showBlocks)}
+                                    className="inline-flex items-center gap-2 rounded-lg bg-white px-3 py-1.5 text-xs font-medium text-gray-700 ring-1 ring-gray-200 hover:bg-gray-50 transition-all"
+                                >
+                                    <PlusIcon className="h-4 w-4" />
+                                    Content Blocks
+                                </button>
+                            )}
+                            {mode !== 'text' && (
                                 <button
                                     onClick={onGeneratePlainText}
                                     disabled={textifying || !html.trim()}
@@ -694,6 +758,16 @@ export default function TemplateEditPage() {
                     </div>
                 </div>
 
+                <SendTestDialog
+                    open={showSendTest}
+                    onClose={() => setShowSendTest(false)}
+                    hash={hash}
+                    send={(body) => api.templates.sendTest(hash, Number(id), body)}
+                    note="Sends the last saved version of this template. Save first to include unsaved edits."
+                    defaultSubject={name ? `[Test] ${name}` : '[Test]'}
+                    previewData={dataObj}
+                />
+
                 {/* Template Library Modal */}
                 {showTemplateLibrary && (
                     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
@@ -740,7 +814,10 @@ export default function TemplateEditPage() {
                 {/* Merge Tags Dropdown */}
                 {showMergeTags && (
                     <div className="absolute z-40 mt-2 bg-white rounded-lg shadow-lg ring-1 ring-gray-200 p-4 max-w-md">
-                        {MERGE_TAGS.map((category) => (
+                        {mode === 'visual' && (
+                            <p className="mb-3 text-xs text-gray-500">Click a tag to copy it, then paste it into a block.</p>
+                        )}
+                        {mergeTags.catalog.map((category) => (
                             <div key={category.category} className="mb-4 last:mb-0">
                                 <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">
                                     {category.category}
@@ -820,11 +897,12 @@ export default function TemplateEditPage() {
                                 </label>
                                 <select
                                     value={engine}
-                                    onChange={(e) => setEngine(e.target.value)}
+                                    onChange={(e) => onEngineChange(e.target.value)}
                                     className="w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
                                 >
                                     <option value="handlebars">Handlebars ({'{{tags}}'})</option>
                                     <option value="raw">Raw HTML</option>
+                                    <option value="mjml">MJML</option>
                                     <option value="">(none)</option>
                                 </select>
                             </div>
@@ -833,13 +911,13 @@ export default function TemplateEditPage() {
                                 <label className="block text-sm font-medium text-gray-700 mb-2">
                                     Version
                                 </label>
-                                <input
-                                    type="number"
-                                    value={version}
-                                    onChange={(e) => setVersion(e.target.value)}
-                                    placeholder="1"
-                                    className="w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
-                                />
+                                <div className="flex items-center justify-between rounded-lg border border-gray-300 bg-gray-50 px-3 py-2 text-sm">
+                                    <span className="font-medium text-gray-900">v{version || '1'}</span>
+                                    <Link href={`${backHref}#history`} className="text-xs text-indigo-600 hover:text-indigo-700">
+                                        History
+                                    </Link>
+                                </div>
+                                <p className="mt-1 text-xs text-gray-500">Every save creates a new revision.</p>
                             </div>
                         </div>
 
@@ -870,6 +948,20 @@ export default function TemplateEditPage() {
                                         <DocumentTextIcon className="h-4 w-4" />
                                         Plain Text
                                     </button>
+                                    {(canUseBuilder || design) && !isMjml && (
+                                        <button
+                                            onClick={openVisual}
+                                            className={cx(
+                                                'inline-flex items-center gap-2 rounded-lg px-3 py-1.5 text-sm font-medium transition-all',
+                                                mode === 'visual'
+                                                    ? 'bg-indigo-100 text-indigo-700 ring-1 ring-indigo-200'
+                                                    : 'text-gray-600 hover:text-gray-900'
+                                            )}
+                                        >
+                                            <Squares2X2Icon className="h-4 w-4" />
+                                            Visual
+                                        </button>
+                                    )}
                                 </div>
 
                                 <label className="inline-flex items-center gap-2 text-sm">
@@ -891,12 +983,30 @@ export default function TemplateEditPage() {
                                 </button>
                             </div>
 
-                            {!hasUnsubscribe && (
-                                <div className="inline-flex items-center gap-2 rounded-lg bg-amber-50 px-3 py-1.5 text-sm text-amber-700">
-                                    <ExclamationTriangleIcon className="h-4 w-4" />
-                                    <span>Consider adding {'{{unsubscribe_url}}'}</span>
-                                </div>
-                            )}
+                            <div className="flex items-center gap-2">
+                                {mergeTagWarnings > 0 && (
+                                    <button
+                                        onClick={() => setShowPreviewData(true)}
+                                        className="inline-flex items-center gap-2 rounded-lg bg-amber-50 px-3 py-1.5 text-sm text-amber-700 hover:bg-amber-100"
+                                    >
+                                        <TagIcon className="h-4 w-4" />
+                                        <span>{mergeTagWarnings} merge tag issue{mergeTagWarnings === 1 ? '' : 's'}</span>
+                                    </button>
+                                )}
+
+                                {lintErrors > 0 && (
+                                    <div className="inline-flex items-center gap-2 rounded-lg bg-red-50 px-3 py-1.5 text-sm text-red-700">
+                                        <ExclamationTriangleIcon className="h-4 w-4" />
+                                        <span>{lintErrors} email compatibility error{lintErrors === 1 ? '' : 's'}</span>
+                                    </div>
+                                )}
+                                {!hasUnsubscribe && (
+                                    <div className="inline-flex items-center gap-2 rounded-lg bg-amber-50 px-3 py-1.5 text-sm text-amber-700">
+                                        <ExclamationTriangleIcon className="h-4 w-4" />
+                                        <span>Consider adding {'{{unsubscribe_url}}'}</span>
+                                    </div>
+                                )}
+                            </div>
                         </div>
                     </div>
                 </div>
@@ -918,6 +1028,13 @@ export default function TemplateEditPage() {
                                 </button>
                             </div>
                         </div>
+                        <MergeTagPanel
+                            hash={hash}
+                            variables={mergeTags.variables}
+                            issues={mergeTags.issues}
+                            contact={previewContact}
+                            onContact={previewAs}
+                        />
                         <div className="p-0">
                             <textarea
                                 value={dataJSON}
@@ -941,7 +1058,7 @@ export default function TemplateEditPage() {
                 {/* Main Content Area */}
                 <div className={cx(
                     'grid gap-6',
-                    viewMode === 'split' && 'grid-cols-1 lg:grid-cols-2',
+                    viewMode === 'split' && (mode === 'visual' ? 'grid-cols-1' : 'grid-cols-1 lg:grid-cols-2'),
                     viewMode === 'editor' && 'grid-cols-1',
                     viewMode === 'preview' && 'grid-cols-1'
                 )}>
@@ -953,7 +1070,7 @@ export default function TemplateEditPage() {
                                     <div className="flex items-center gap-2 text-white">
                                         <CodeBracketIcon className="h-5 w-5" />
                                         <h3 className="text-sm font-semibold uppercase tracking-wider">
-                                            {mode === 'html' ? 'HTML Editor' : 'Plain Text Editor'}
+                                            {mode === 'visual' ? 'Visual Builder' : mode === 'html' ? (isMjml ? 'MJML Editor' : 'HTML Editor') : 'Plain Text Editor'}
                                         </h3>
                                     </div>
                                     {viewMode === 'split' && (
@@ -974,31 +1091,71 @@ export default function TemplateEditPage() {
                                     )}
                                 </div>
                             </div>
-                            <div className="h-[600px] overflow-auto">
-                                {mode === 'html' ? (
-                                    CodeMirror ? (
-                                        <CodeMirror
-                                            value={html}
-                                            height="600px"
-                                            onChange={(v: string) => setHtml(v)}
-                                        />
+                            {mode === 'html' && design && (
+                                <div className="px-4 py-2 bg-amber-50 border-b border-amber-200 text-xs text-amber-700">
+                                    This HTML is generated by the visual builder. Editing it here detaches the template from its design.
+                                </div>
+                            )}
+                            {mode === 'visual' && design ? (
+                                <EmailBuilder value={design} onChange={setDesign} />
+                            ) : (
+                                <div className="h-[600px] overflow-auto">
+                                    {mode === 'html' && isMjml ? (
+                                        CodeMirror ? (
+                                            <CodeMirror
+                                                value={mjml}
+                                                height="600px"
+                                                onChange={(v: string) => setMjml(v)}
+                                                onCreateEditor={(view) => (editorView.current = view)}
+                                            />
+                                        ) : (
+                                            <textarea
+                                                value={mjml}
+                                                onChange={(e) => setMjml(e.target.value)}
+                                                className="w-full h-full px-4 py-3 font-mono text-sm border-0 outline-none resize-none"
+                                                placeholder="<mjml>…</mjml>"
+                                            />
+                                        )
+                                    ) : mode === 'html' ? (
+                                        CodeMirror ? (
+                                            <CodeMirror
+                                                value={html}
+                                                height="600px"
+                                                onChange={(v: string) => onHtmlChange(v)}
+                                                onCreateEditor={(view) => (editorView.current = view)}
+                                                extensions={emailLintExtensions}
+                                            />
+                                        ) : (
+                                            <textarea
+                                                value={html}
+                                                onChange={(e) => onHtmlChange(e.target.value)}
+                                                className="w-full h-full px-4 py-3 font-mono text-sm border-0 outline-none resize-none"
+                                                placeholder="Start typing your HTML template..."
+                                            />
+                                        )
                                     ) : (
                                         <textarea
-                                            value={html}
-                                            onChange={(e) => setHtml(e.target.value)}
+                                            value={text}
+                                            onChange={(e) => setText(e.target.value)}
                                             className="w-full h-full px-4 py-3 font-mono text-sm border-0 outline-none resize-none"
-                                            placeholder="Start typing your HTML template..."
+                                            placeholder="Start typing your plain text template..."
                                         />
-                                    )
-                                ) : (
-                                    <textarea
-                                        value={text}
-                                        onChange={(e) => setText(e.target.value)}
-                                        className="w-full h-full px-4 py-3 font-mono text-sm border-0 outline-none resize-none"
-                                        placeholder="Start typing your plain text template..."
-                                    />
-                                )}
-                            </div>
+                                    )}
+                                </div>
+                            )}
+                            {mode === 'html' && isMjml && (
+                                <MjmlIssues
+                                    issues={mjmlOut.issues}
+                                    error={mjmlOut.error}
+                                    onJump={(line) => jumpToLine(editorView.current, line)}
+                                />
+                            )}
+                            {mode !== 'text' && (
+                                <LintIssues
+                                    issues={lintIssues}
+                                    onJump={mode === 'html' && !isMjml ? (line) => jumpToLine(editorView.current, line) : undefined}
+                                />
+                            )}
                         </div>
                     )}
 
@@ -1034,12 +1191,7 @@ export default function TemplateEditPage() {
                                     </div>
                                 </div>
                             </div>
-                            <iframe
-                                title="preview"
-                                className="w-full h-[600px] bg-white"
-                                sandbox="allow-same-origin"
-                                srcDoc={`<!doctype html><html><head><meta charset="utf-8" /><meta name="viewport" content="width=device-width,initial-scale=1" /></head><body style="margin:0">${previewHtml}</body></html>`}
-                            />
+                            <InboxPreview html={mode === 'text' ? null : previewHtml} text={previewText} />
                         </div>
                     )}
                 </div>
@@ -20,6 +20,8 @@ import {
     CheckCircleIcon,
 } from '@heroicons/react/24/outline';
 import type * as HandlebarsNS from 'handlebars';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
+import TemplateHistory from '@/components/templates/history/TemplateHistory';
 
 /* ---------------- Types ---------------- */
 
@@ -191,11 +193,7 @@ export default function TemplateShowPage() {
     const router = useRouter();
     const { hash, id } = useParams<{ hash: string; id: string }>();
 
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
+    const backend = BACKEND_URL;
 
     const [tpl, setTpl] = useState<TemplateItem | null>(null);
     const [loading, setLoading] = useState(true);
@@ -212,6 +210,12 @@ export default function TemplateShowPage() {
     const [dataErr, setDataErr] = useState<string | null>(null);
     const [showPreviewData, setShowPreviewData] = useState(false);
     const [showSource, setShowSource] = useState(false);
+    const [showHistory, setShowHistory] = useState(false);
+
+    // the editor links here with #history
+    useEffect(() => {
+        if (window.location.hash === '#history') setShowHistory(true);
+    }, []);
 
     // fetch template
     useEffect(() => {
@@ -220,7 +224,7 @@ export default function TemplateShowPage() {
             setLoading(true);
             setErr(null);
             try {
-                const res = await fetch(`${backend}/companies/${hash}/templates/${id}`, { headers: authHeaders() });
+                const res = await apiFetch(`${backend}/companies/${hash}/templates/${id}`);
                 if (!res.ok) throw new Error(`Failed to load template (${res.status})`);
                 const json: TemplateItem = await res.json();
                 if (!abort) setTpl(json);
@@ -330,9 +334,8 @@ export default function TemplateShowPage() {
         if (!tpl) return;
         if (!confirm('Are you sure you want to delete this template? This action cannot be undone.')) return;
         try {
-            const res = await fetch(`${backend}/companies/${hash}/templates/${tpl.id}`, {
+            const res = await apiFetch(`${backend}/companies/${hash}/templates/${tpl.id}`, {
                 method: 'DELETE',
-                headers: authHeaders(),
             });
             if (!res.ok && res.status !== 204) throw new Error(`Delete failed (${res.status})`);
             router.push(`/dashboard/company/${hash}/templates`);
@@ -344,9 +347,8 @@ export default function TemplateShowPage() {
     async function onDuplicate() {
         if (!tpl) return;
         try {
-            const res = await fetch(`${backend}/companies/${hash}/templates`, {
+            const res = await apiFetch(`${backend}/companies/${hash}/templates`, {
                 method: 'POST',
-                headers: authHeaders(),
                 body: JSON.stringify({
                     name: `${tpl.name} (Copy)`,
                     engine: tpl.engine,
@@ -512,6 +514,18 @@ export default function TemplateShowPage() {
                                 <BeakerIcon className="h-4 w-4" />
                                 Test Data
                             </button>
+                            <button
+                                onClick={() => setShowHistory(!showHistory)}
+                                className={cx(
+                                    "inline-flex items-center gap-2 rounded-lg px-3 py-1.5 text-xs font-medium transition-all",
+                                    showHistory
+                                        ? "bg-gray-200 text-gray-800 ring-1 ring-gray-300"
+                                        : "bg-white text-gray-700 ring-1 ring-gray-200 hover:bg-gray-50"
+                                )}
+                            >
+                                <ClockIcon className="h-4 w-4" />
+                                History
+                            </button>
                             <label className="inline-flex items-center gap-2 text-sm ml-4">
                                 <input
                                     type="checkbox"
@@ -537,6 +551,15 @@ export default function TemplateShowPage() {
                     </div>
                 </div>
 
+                {/* Version History */}
+                {showHistory && (
+                    <TemplateHistory
+                        hash={hash}
+                        templateId={tpl.id}
+                        onRestored={(restored) => setTpl((prev) => ({ ...prev, ...restored }))}
+                    />
+                )}
+
                 {/* Source Code Panel */}
                 {showSource && (
                     <div className="bg-white rounded-xl shadow-sm ring-1 ring-gray-200 overflow-hidden">
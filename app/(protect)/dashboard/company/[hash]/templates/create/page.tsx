@@ -1,6 +1,6 @@
 'use client';
 
-import React, {useEffect, useMemo, useState} from 'react';
+import React, {useDeferredValue, useEffect, useMemo, useRef, useState} from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import {
     ArrowLeftIcon,
@@ -18,8 +18,26 @@ import {
     DocumentPlusIcon,
     BeakerIcon,
     BookOpenIcon,
+    Squares2X2Icon,
 } from '@heroicons/react/24/outline';
-import type { ReactCodeMirrorProps } from '@uiw/react-codemirror';
+import type { EditorView, ReactCodeMirrorProps } from '@uiw/react-codemirror';
+import { api, errorMessage } from '@/lib/api';
+import type { Contact } from '@/types/api';
+import type { EmailDocument } from '@/types/email-builder';
+import EmailBuilder from '@/components/templates/builder/EmailBuilder';
+import { usePlanCapabilities } from '@/components/company/usePlanCapabilities';
+import { createDocument } from '@/lib/email-builder/document';
+import { compileDocument, inlineCompiledHtml } from '@/lib/email-builder/compile';
+import { MJML_STARTER, compileMjml } from '@/lib/mjml';
+import { emailLintExtensions, jumpToLine } from '@/lib/editor';
+import { countBySeverity, lintEmailHtml } from '@/lib/email-lint';
+import { useMjmlCompile } from '@/components/templates/useMjmlCompile';
+import MjmlIssues from '@/components/templates/MjmlIssues';
+import LintIssues from '@/components/templates/LintIssues';
+import InboxPreview from '@/components/templates/InboxPreview';
+import MergeTagPanel from '@/components/templates/MergeTagPanel';
+import { useMergeTags } from '@/components/templates/useMergeTags';
+import { contactPreviewData } from '@/lib/merge-tags';
 
 // Lazy import editor so Next doesn't SSR it
 let CodeMirror: React.ComponentType<ReactCodeMirrorProps> | null = null;
@@ -38,17 +56,7 @@ if (typeof window !== 'undefined') {
 
 /* -------------------------------- Types -------------------------------- */
 
-type Template = {
-    id: number;
-    name: string | null;
-    engine: string | null;
-    version: number | null;
-    html: string | null;
-    text: string | null;
-    created_at: string | null;
-};
-
-type ContentMode = 'html' | 'text';
+type ContentMode = 'html' | 'text' | 'visual';
 type ViewMode = 'split' | 'editor' | 'preview';
 
 type InlineResponse = { html?: string; error?: string };
@@ -227,26 +235,6 @@ View in browser: {{view_in_browser_url}}`,
     },
 ];
 
-/* ----------------------------- Merge tags ------------------------------ */
-
-const MERGE_TAGS = [
-    { category: 'Contact', tags: [
-            { key: '{{contact.name}}', label: 'Name', icon: '👤' },
-            { key: '{{contact.email}}', label: 'Email', icon: '✉️' },
-            { key: '{{contact.first_name}}', label: 'First Name', icon: '👤' },
-            { key: '{{contact.last_name}}', label: 'Last Name', icon: '👤' },
-        ]},
-    { category: 'Company', tags: [
-            { key: '{{company.name}}', label: 'Company Name', icon: '🏢' },
-            { key: '{{company.website}}', label: 'Website', icon: '🌐' },
-        ]},
-    { category: 'System', tags: [
-            { key: '{{today}}', label: 'Today\'s Date', icon: '📅' },
-            { key: '{{unsubscribe_url}}', label: 'Unsubscribe Link', icon: '🔗' },
-            { key: '{{view_in_browser_url}}', label: 'Browser View Link', icon: '🔗' },
-        ]},
-];
-
 const CONTENT_BLOCKS = [
     {
         label: 'Header Section',
@@ -301,8 +289,9 @@ function defaultPreviewData() {
         contact: {
             name: 'Jane Example',
             email: 'jane@example.com',
-            first_name: 'Jane',
-            last_name: 'Example'
+            locale: 'en',
+            timezone: 'UTC',
+            attributes: { first_name: 'Jane', last_name: 'Example' },
         },
         company: {
             name: 'Acme Inc.',
@@ -320,12 +309,6 @@ export default function TemplateCreatePage() {
     const router = useRouter();
     const { hash } = useParams<{ hash: string }>();
 
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
-
     const backHref = `/dashboard/company/${hash}/templates`;
 
     // Basics
@@ -338,6 +321,17 @@ export default function TemplateCreatePage() {
     const [html, setHtml] = useState<string>('');
     const [text, setText] = useState<string>('');
 
+    // Visual builder design; while set, `html` is its compiled output
+    const [design, setDesign] = useState<EmailDocument | null>(null);
+    const { capabilities } = usePlanCapabilities(hash);
+    const canUseBuilder = !!capabilities.templateBuilder;
+
+    // MJML source when engine is 'mjml'; `html` then holds the compiled output
+    const [mjml, setMjml] = useState<string>('');
+    const isMjml = engine === 'mjml';
+    const mjmlOut = useMjmlCompile(mjml, isMjml);
+    const editorView = useRef<EditorView | null>(null);
+
     // View
     const [viewMode, setViewMode] = useState<ViewMode>('split');
     const [showTemplateLibrary, setShowTemplateLibrary] = useState(false);
@@ -348,6 +342,7 @@ export default function TemplateCreatePage() {
     const [dataJSON, setDataJSON] = useState(JSON.stringify(defaultPreviewData(), null, 2));
     const [dataObj, setDataObj] = useState<Record<string, unknown>>(defaultPreviewData());
     const [dataErr, setDataErr] = useState<string | null>(null);
+    const [previewContact, setPreviewContact] = useState<Contact | null>(null);
     const [showPreviewData, setShowPreviewData] = useState(false);
 
     // Inline CSS & textify helpers
@@ -374,9 +369,19 @@ export default function TemplateCreatePage() {
         }
     }, [dataJSON]);
 
+    /* ---------- compile visual design ---------- */
+    useEffect(() => {
+        if (design) setHtml(compileDocument(design));
+    }, [design]);
+
+    /* ---------- compile MJML ---------- */
+    useEffect(() => {
+        if (isMjml && mjmlOut.html) setHtml(mjmlOut.html);
+    }, [isMjml, mjmlOut.html]);
+
     /* ---------- inline CSS on server ---------- */
     useEffect(() => {
-        if (!inlineCss || mode !== 'html' || !html.trim()) {
+        if (!inlineCss || mode === 'text' || !html.trim()) {
             setInlineErr(null);
             setInlinedHtml('');
             return;
@@ -451,34 +456,99 @@ export default function TemplateCreatePage() {
         }
     }, [mode, html, text, engine, dataObj, inlineCss, inlining, inlineErr, inlinedHtml]);
 
+    const previewText = useMemo(() => {
+        try {
+            if (engine === 'handlebars' && Handlebars) return Handlebars.compile(text || '')(dataObj);
+        } catch {
+            // half-typed tags; fall back to plain substitution
+        }
+        return substitute(text || '', dataObj);
+    }, [text, engine, dataObj]);
+
     /* ---------- warnings ---------- */
     const hasUnsubscribe = useMemo(() => {
-        const content = mode === 'html' ? html : text;
+        const content = mode === 'text' ? text : html;
         return content?.includes('{{unsubscribe_url}}');
     }, [mode, html, text]);
 
+    // the lint pass scans the whole document, so let it trail behind typing
+    const lintSource = useDeferredValue(html);
+    const lintIssues = useMemo(() => (mode === 'text' || !lintSource.trim() ? [] : lintEmailHtml(lintSource).issues), [mode, lintSource]);
+    const lintErrors = countBySeverity(lintIssues).error;
+
+    const mergeTags = useMergeTags(hash, html, text, engine !== 'raw');
+    const mergeTagWarnings = mergeTags.issues.filter((i) => i.severity !== 'info').length;
+
     const canSubmit = name.trim().length > 0 && (html.trim().length > 0 || text.trim().length > 0);
 
     /* ---------- actions ---------- */
 
     function loadTemplate(template: typeof STARTER_TEMPLATES[0]) {
+        if (design && !window.confirm('Loading a starter template replaces your visual design. Continue?')) return;
+        setDesign(null);
+        if (mode === 'visual') setMode('html');
+        if (isMjml) setEngine('handlebars');
         setHtml(template.html);
         setText(template.text);
         setName(template.name);
         setShowTemplateLibrary(false);
     }
 
+    function previewAs(contact: Contact | null) {
+        setPreviewContact(contact);
+        const data = contact ? contactPreviewData(contact, defaultPreviewData()) : defaultPreviewData();
+        setDataJSON(JSON.stringify(data, null, 2));
+    }
+
     function insertTag(tag: string) {
-        if (mode === 'html') {
-            setHtml(prev => prev + tag);
+        if (mode === 'visual') {
+            // blocks are edited in the inspector; hand the tag over via the clipboard
+            void navigator.clipboard?.writeText(tag);
+        } else if (mode === 'html' && isMjml) {
+            setMjml(prev => prev + tag);
+        } else if (mode === 'html') {
+            onHtmlChange(html + tag);
         } else {
             setText(prev => prev + tag);
         }
     }
 
+    /** Fresh compile for saving: the preview's debounced output may lag behind the editor. */
+    async function compiledMjml(source: string): Promise<string> {
+        if (!source.trim()) return '';
+        const out = await compileMjml(source);
+        if (out.html === undefined) throw new Error(out.error || 'MJML could not be compiled');
+        return out.html;
+    }
+
+    function onHtmlChange(value: string) {
+        // hand-editing the markup detaches it from the visual design
+        if (design) setDesign(null);
+        setHtml(value);
+    }
+
+    function onEngineChange(value: string) {
+        if (value === 'mjml' && !isMjml) {
+            const replaces = design || (!mjml.trim() && html.trim());
+            if (replaces && !window.confirm('MJML replaces the current HTML with its compiled output. Continue?')) return;
+            setDesign(null);
+            if (mode === 'visual') setMode('html');
+            if (!mjml.trim()) setMjml(MJML_STARTER);
+        }
+        setEngine(value);
+    }
+
+    function openVisual() {
+        if (!design) {
+            if (html.trim() && !window.confirm('The visual builder starts a new design and replaces the current HTML. Continue?')) return;
+            setDesign(createDocument());
+        }
+        setMode('visual');
+    }
+
     function insertBlock(block: typeof CONTENT_BLOCKS[0]) {
         if (mode === 'html') {
-            setHtml(prev => prev + '\n' + block.html);
+            onHtmlChange(html + '\n' + block.html);
         } else {
             setText(prev => prev + '\n' + block.text);
         }
@@ -506,30 +576,23 @@ export default function TemplateCreatePage() {
     }
 
     async function createTemplate(action: 'save' | 'save-continue' | 'save-test') {
-        if (!backend) return setErr('Missing backend URL');
         if (!canSubmit) return setErr('Please enter a name and content');
 
         setSaving(true);
         setErr(null);
 
         try {
-            const payload: Record<string, unknown> = {
+            // the builder's output is stored inlined, like any other email HTML
+            const body = design ? await inlineCompiledHtml(compileDocument(design)) : isMjml ? await compiledMjml(mjml) : html;
+            const created = await api.templates.create(hash, {
                 name: name.trim(),
                 engine: engine.trim() || null,
                 version: version.trim() === '' ? null : Number(version),
-                html: html.trim() === '' ? null : html,
+                html: body.trim() === '' ? null : body,
                 text: text.trim() === '' ? null : text,
-            };
-
-            const res = await fetch(`${backend}/companies/${hash}/templates`, {
-                method: 'POST',
-                headers: authHeaders(),
-                body: JSON.stringify(payload),
+                builder_json: design,
+                mjml: isMjml ? mjml : null,
             });
-            const json = (await res.json()) as Template | { error?: string };
-            if (!res.ok) throw new Error('error' in json && json.error ? json.error : `Create failed`);
-
-            const created = json as Template;
 
             if (action === 'save-continue') {
                 router.push(`/dashboard/company/${hash}/templates/${created.id}`);
@@ -541,7 +604,7 @@ export default function TemplateCreatePage() {
                 router.push(backHref);
             }
         } catch (e) {
-            setErr(e instanceof Error ? e.message : String(e));
+            setErr(errorMessage(e));
         } finally {
             setSaving(false);
         }
@@ -607,14 +670,16 @@ export default function TemplateCreatePage() {
                                 <TagIcon className="h-4 w-4" />
                                 Merge Tags
                             </button>
-                            <button
-                                onClick={() => setShowBlocks(!showBlocks)}
-                                className="inline-flex items-center gap-2 rounded-lg bg-white px-3 py-1.5 text-xs font-medium text-gray-700 ring-1 ring-gray-200 hover:bg-gray-50 transition-all"
-                            >
-                                <PlusIcon className="h-4 w-4" />
-                                Content Blocks
-                            </button>
-                            {mode === 'html' && (
+                            {mode !== 'visual' && !isMjml && (
+                                <button
+                                    onClick={() => setShowBlocks(!showBlocks)}
+                                    className="inline-flex items-center gap-2 rounded-lg bg-white px-3 py-1.5 text-xs font-medium text-gray-700 ring-1 ring-gray-200 hover:bg-gray-50 transition-all"
+                                >
+                                    <PlusIcon className="h-4 w-4" />
+                                    Content Blocks
+                                </button>
+                            )}
+                            {mode !== 'text' && (
                                 <button
                                     onClick={onGeneratePlainText}
                                     disabled={textifying || !html.trim()}
@@ -702,7 +767,10 @@ export default function TemplateCreatePage() {
                 {/* Merge Tags Dropdown */}
                 {showMergeTags && (
                     <div className="absolute z-40 mt-2 bg-white rounded-lg shadow-lg ring-1 ring-gray-200 p-4 max-w-md">
-                        {MERGE_TAGS.map((category) => (
+                        {mode === 'visual' && (
+                            <p className="mb-3 text-xs text-gray-500">Click a tag to copy it, then paste it into a block.</p>
+                        )}
+                        {mergeTags.catalog.map((category) => (
                             <div key={category.category} className="mb-4 last:mb-0">
                                 <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">
                                     {category.category}
@@ -782,11 +850,12 @@ export default function TemplateCreatePage() {
                                 </label>
                                 <select
                                     value={engine}
-                                    onChange={(e) => setEngine(e.target.value)}
+                                    onChange={(e) => onEngineChange(e.target.value)}
                                     className="w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
                                 >
                                     <option value="handlebars">Handlebars ({'{{tags}}'})</option>
                                     <option value="raw">Raw HTML</option>
+                                    <option value="mjml">MJML</option>
                                 </select>
                             </div>
 
@@ -831,6 +900,20 @@ export default function TemplateCreatePage() {
                                         <DocumentTextIcon className="h-4 w-4" />
                                         Plain Text
                                     </button>
+                                    {(canUseBuilder || design) && !isMjml && (
+                                        <button
+                                            onClick={openVisual}
+                                            className={cx(
+                                                'inline-flex items-center gap-2 rounded-lg px-3 py-1.5 text-sm font-medium transition-all',
+                                                mode === 'visual'
+                                                    ? 'bg-indigo-100 text-indigo-700 ring-1 ring-indigo-200'
+                                                    : 'text-gray-600 hover:text-gray-900'
+                                            )}
+                                        >
+                                            <Squares2X2Icon className="h-4 w-4" />
+                                            Visual
+                                        </button>
+                                    )}
                                 </div>
 
                                 <label className="inline-flex items-center gap-2 text-sm">
@@ -852,12 +935,30 @@ export default function TemplateCreatePage() {
                                 </button>
                             </div>
 
-                            {!hasUnsubscribe && (
-                                <div className="inline-flex items-center gap-2 rounded-lg bg-amber-50 px-3 py-1.5 text-sm text-amber-700">
-                                    <ExclamationTriangleIcon className="h-4 w-4" />
-                                    <span>Consider adding {'{{unsubscribe_url}}'}</span>
-                                </div>
-                            )}
+                            <div className="flex items-center gap-2">
+                                {mergeTagWarnings > 0 && (
+                                    <button
+                                        onClick={() => setShowPreviewData(true)}
+                                        className="inline-flex items-center gap-2 rounded-lg bg-amber-50 px-3 py-1.5 text-sm text-amber-700 hover:bg-amber-100"
+                                    >
+                                        <TagIcon className="h-4 w-4" />
+                                        <span>{mergeTagWarnings} merge tag issue{mergeTagWarnings === 1 ? '' : 's'}</span>
+                                    </button>
+                                )}
+
+                                {lintErrors > 0 && (
+                                    <div className="inline-flex items-center gap-2 rounded-lg bg-red-50 px-3 py-1.5 text-sm text-red-700">
+                                        <ExclamationTriangleIcon className="h-4 w-4" />
+                                        <span>{lintErrors} email compatibility error{lintErrors === 1 ? '' : 's'}</span>
+                                    </div>
+                                )}
+                                {!hasUnsubscribe && (
+                                    <div className="inline-flex items-center gap-2 rounded-lg bg-amber-50 px-3 py-1.5 text-sm text-amber-700">
+                                        <ExclamationTriangleIcon className="h-4 w-4" />
+                                        <span>Consider adding {'{{unsubscribe_url}}'}</span>
+                                    </div>
+                                )}
+                            </div>
                         </div>
                     </div>
                 </div>
@@ -879,6 +980,13 @@ export default function TemplateCreatePage() {
                                 </button>
                             </div>
                         </div>
+                        <MergeTagPanel
+                            hash={hash}
+                            variables={mergeTags.variables}
+                            issues={mergeTags.issues}
+                            contact={previewContact}
+                            onContact={previewAs}
+                        />
                         <div className="p-0">
                             <textarea
                                 value={dataJSON}
@@ -902,7 +1010,7 @@ export default function TemplateCreatePage() {
                 {/* Main Content Area */}
                 <div className={cx(
                     'grid gap-6',
-                    viewMode === 'split' && 'grid-cols-1 lg:grid-cols-2',
+                    viewMode === 'split' && (mode === 'visual' ? 'grid-cols-1' : 'grid-cols-1 lg:grid-cols-2'),
                     viewMode === 'editor' && 'grid-cols-1',
                     viewMode === 'preview' && 'grid-cols-1'
                 )}>
@@ -914,7 +1022,7 @@ export default function TemplateCreatePage() {
                                     <div className="flex items-center gap-2 text-white">
                                         <CodeBracketIcon className="h-5 w-5" />
                                         <h3 className="text-sm font-semibold uppercase tracking-wider">
-                                            {mode === 'html' ? 'HTML Editor' : 'Plain Text Editor'}
+                                            {mode === 'visual' ? 'Visual Builder' : mode === 'html' ? (isMjml ? 'MJML Editor' : 'HTML Editor') : 'Plain Text Editor'}
                                         </h3>
                                     </div>
                                     {viewMode === 'split' && (
@@ -935,31 +1043,71 @@ export default function TemplateCreatePage() {
                                     )}
                                 </div>
                             </div>
-                            <div className="h-[600px] overflow-auto">
-                                {mode === 'html' ? (
-                                    CodeMirror ? (
-                                        <CodeMirror
-                                            value={html}
-                                            height="600px"
-                                            onChange={(v: string) => setHtml(v)}
-                                        />
+                            {mode === 'html' && design && (
+                                <div className="px-4 py-2 bg-amber-50 border-b border-amber-200 text-xs text-amber-700">
+                                    This HTML is generated by the visual builder. Editing it here detaches the template from its design.
+                                </div>
+                            )}
+                            {mode === 'visual' && design ? (
+                                <EmailBuilder value={design} onChange={setDesign} />
+                            ) : (
+                                <div className="h-[600px] overflow-auto">
+                                    {mode === 'html' && isMjml ? (
+                                        CodeMirror ? (
+                                            <CodeMirror
+                                                value={mjml}
+                                                height="600px"
+                                                onChange={(v: string) => setMjml(v)}
+                                                onCreateEditor={(view) => (editorView.current = view)}
+                                            />
+                                        ) : (
+                                            <textarea
+                                                value={mjml}
+                                                onChange={(e) => setMjml(e.target.value)}
+                                                className="w-full h-full px-4 py-3 font-mono text-sm border-0 outline-none resize-none"
+                                                placeholder="<mjml>…</mjml>"
+                                            />
+                                        )
+                                    ) : mode === 'html' ? (
+                                        CodeMirror ? (
+                                            <CodeMirror
+                                                value={html}
+                                                height="600px"
+                                                onChange={(v: string) => onHtmlChange(v)}
+                                                onCreateEditor={(view) => (editorView.current = view)}
+                                                extensions={emailLintExtensions}
+                                            />
+                                        ) : (
+                                            <textarea
+                                                value={html}
+                                                onChange={(e) => onHtmlChange(e.target.value)}
+                                                className="w-full h-full px-4 py-3 font-mono text-sm border-0 outline-none resize-none"
+                                                placeholder="Start typing your HTML template..."
+                                            />
+                                        )
                                     ) : (
                                         <textarea
-                                            value={html}
-                                            onChange={(e) => setHtml(e.target.value)}
+                                            value={text}
+                                            onChange={(e) => setText(e.target.value)}
                                             className="w-full h-full px-4 py-3 font-mono text-sm border-0 outline-none resize-none"
-                                            placeholder="Start typing your HTML template..."
+                                            placeholder="Start typing your plain text template..."
                                         />
-                                    )
-                                ) : (
-                                    <textarea
-                                        value={text}
-                                        onChange={(e) => setText(e.target.value)}
-                                        className="w-full h-full px-4 py-3 font-mono text-sm border-0 outline-none resize-none"
-                                        placeholder="Start typing your plain text template..."
-                                    />
-                                )}
-                            </div>
+                                    )}
+                                </div>
+                            )}
+                            {mode === 'html' && isMjml && (
+                                <MjmlIssues
+                                    issues={mjmlOut.issues}
+                                    error={mjmlOut.error}
+                                    onJump={(line) => jumpToLine(editorView.current, line)}
+                                />
+                            )}
+                            {mode !== 'text' && (
+                                <LintIssues
+                                    issues={lintIssues}
+                                    onJump={mode === 'html' && !isMjml ? (line) => jumpToLine(editorView.current, line) : undefined}
+                                />
+                            )}
                         </div>
                     )}
 
@@ -995,12 +1143,7 @@ export default function TemplateCreatePage() {
                                     </div>
                                 </div>
                             </div>
-                            <iframe
-                                title="preview"
-                                className="w-full h-[600px] bg-white"
-                                sandbox="allow-same-origin"
-                                srcDoc={`<!doctype html><html><head><meta charset="utf-8" /><meta name="viewport" content="width=device-width,initial-scale=1" /></head><body style="margin:0">${previewHtml}</body></html>`}
-                            />
+                            <InboxPreview html={mode === 'text' ? null : previewHtml} text={previewText} />
                         </div>
                     )}
                 </div>
@@ -20,6 +20,8 @@ import {
     ExclamationTriangleIcon,
     DocumentDuplicateIcon,
 } from '@heroicons/react/24/outline';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
+import type { ApiPaged } from '@/lib/api';
 
 type TemplateItem = {
     id: number;
@@ -34,11 +36,6 @@ type TemplateItem = {
     };
 };
 
-type ApiListResponse<T> = {
-    meta: { page: number; perPage: number; total: number; totalPages: number };
-    items: T[];
-};
-
 /* ---------------- Engine Configuration ---------------- */
 const ENGINE_CONFIG = {
     raw: {
@@ -153,16 +150,12 @@ export default function TemplatesListPage() {
     const [searchTerm, setSearchTerm] = useState(qFromUrl);
     useEffect(() => setSearchTerm(qFromUrl), [qFromUrl]);
 
-    const [data, setData] = useState<ApiListResponse<TemplateItem> | null>(null);
+    const [data, setData] = useState<ApiPaged<TemplateItem> | null>(null);
     const [loading, setLoading] = useState(true);
     const [err, setErr] = useState<string | null>(null);
     const [deletingId, setDeletingId] = useState<number | null>(null);
 
-    const backend = process.env.NEXT_PUBLIC_BACKEND_URL;
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
+    const backend = BACKEND_URL;
 
     const listUrl = useMemo(() => {
         const sp = new URLSearchParams();
@@ -179,9 +172,9 @@ export default function TemplatesListPage() {
             setLoading(true);
             setErr(null);
             try {
-                const res = await fetch(listUrl, { headers: authHeaders() });
+                const res = await apiFetch(listUrl);
                 if (!res.ok) throw new Error(`Failed to load templates (${res.status})`);
-                const json: ApiListResponse<TemplateItem> = await res.json();
+                const json: ApiPaged<TemplateItem> = await res.json();
                 if (!abort) setData(json);
             } catch (e) {
                 if (!abort) setErr(e instanceof Error ? e.message : String(e));
@@ -216,9 +209,8 @@ export default function TemplatesListPage() {
         if (!confirm('Are you sure you want to delete this template?')) return;
         setDeletingId(id);
         try {
-            const res = await fetch(`${backend}/companies/${hash}/templates/${id}`, {
+            const res = await apiFetch(`${backend}/companies/${hash}/templates/${id}`, {
                 method: 'DELETE',
-                headers: authHeaders(),
             });
             if (!res.ok && res.status !== 204) throw new Error(`Delete failed (${res.status})`);
             setData(prev =>
@@ -29,6 +29,7 @@ import {
     Pie,
     Cell,
 } from "recharts";
+import { BACKEND_URL, apiFetch } from "@/lib/api";
 
 /* ================= Types ================= */
 type IsoString = string;
@@ -61,7 +62,7 @@ type CompanyTlsRptResponse = {
 type ByStringNumber = Record<string, number>;
 
 /* ================= Helpers ================= */
-const backend = process.env.NEXT_PUBLIC_BACKEND_URL || "";
+const backend = BACKEND_URL;
 const QUICK_RANGES = [
     { label: 'Last 7 Days', days: 7 },
     { label: 'Last 14 Days', days: 14 },
@@ -72,11 +73,6 @@ const QUICK_RANGES = [
 
 const PIE_COLORS = ['#10b981', '#ef4444'];
 
-function authHeaders(): HeadersInit {
-    const token = typeof window !== "undefined" ? localStorage.getItem("jwt") : null;
-    return { "Content-Type": "application/json", ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-}
-
 function fmt(n?: number | null) {
     return n == null || Number.isNaN(n) ? "0" : new Intl.NumberFormat().format(n);
 }
@@ -285,7 +281,7 @@ export default function CompanyTlsRptPage() {
                 setLoading(true);
                 setError(null);
                 const url = `${backend}/companies/${hash}/reports/tlsrpt?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`;
-                const res = await fetch(url, { headers: authHeaders() });
+                const res = await apiFetch(url);
                 if (!res.ok) throw new Error(`Failed: ${res.status}`);
                 const json: CompanyTlsRptResponse = await res.json();
                 if (aborted) return;
@@ -23,6 +23,7 @@ import {
     BoltIcon as BoltSolid,
     CalendarDaysIcon as CalendarDaysSolid,
 } from '@heroicons/react/24/solid';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
 
 /* ========================= Types (tolerant) ========================= */
 
@@ -41,7 +42,7 @@ type MonthCompareRow = { month: string; sent?: number; count?: number };
 
 /* ========================= Helpers ========================= */
 
-const backend = process.env.NEXT_PUBLIC_BACKEND_URL || '';
+const backend = BACKEND_URL;
 
 function clamp(n: number, min = 0, max = Number.MAX_SAFE_INTEGER) {
     return Math.max(min, Math.min(max, n));
@@ -138,13 +139,6 @@ export default function CompanyUsagePage() {
     const router = useRouter();
     const { hash } = useParams<{ hash: string }>();
 
-    // token: undefined (initializing) | null | string
-    const [token, setToken] = useState<string | null | undefined>(undefined);
-    useEffect(() => {
-        const t = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        setToken(t ?? null);
-    }, []);
-
     const [summary, setSummary] = useState<UsageSummary | null>(null);
     const [daily, setDaily] = useState<DailyRow[]>([]);
     const [monthly, setMonthly] = useState<MonthCompareRow[]>([]);
@@ -156,17 +150,8 @@ export default function CompanyUsagePage() {
     const to = todayUtcYMD();
     const from = ymdOffset(-(rangeDays - 1));
 
-    const baseHeaders: HeadersInit = useMemo(
-        () => ({
-            'Content-Type': 'application/json',
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        }),
-        [token]
-    );
-
-    // Fetch everything — only after token is known (even if it's null).
+    // Fetch everything
     useEffect(() => {
-        if (token === undefined) return; // still initializing
         let aborted = false;
 
         async function run() {
@@ -179,9 +164,9 @@ export default function CompanyUsagePage() {
                 const compareUrl = `${backend}/usage-compare/companies/${hash}?months=6`;
 
                 const [sRes, dRes, mRes] = await Promise.all([
-                    fetch(summaryUrl, { headers: baseHeaders }),
-                    fetch(dailyUrl,   { headers: baseHeaders }),
-                    fetch(compareUrl, { headers: baseHeaders }),
+                    apiFetch(summaryUrl),
+                    apiFetch(dailyUrl),
+                    apiFetch(compareUrl),
                 ]);
 
                 if (!sRes.ok) throw new Error(`Summary failed (${sRes.status})`);
@@ -221,7 +206,7 @@ export default function CompanyUsagePage() {
 
         run();
         return () => { aborted = true; };
-    }, [hash, baseHeaders, from, to, token]);
+    }, [hash, from, to]);
 
     // ===== Derived values (must run every render) =====
     const dailyLimit =
@@ -265,11 +250,10 @@ export default function CompanyUsagePage() {
         }));
     }, [monthly]);
 
-    const effectiveLoading = token === undefined || loading;
 
     /* ========================= Render ========================= */
 
-    if (effectiveLoading) {
+    if (loading) {
         return (
             <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-50">
                 <div className="max-w-7xl mx-auto p-6 space-y-6">
@@ -2,6 +2,8 @@
 
 import React, { useEffect, useMemo, useState, useCallback } from 'react';
 import { useParams, useRouter } from 'next/navigation';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
+import Can from '@/components/company/Can';
 
 type WebhookRow = {
     id: number;
@@ -32,12 +34,7 @@ const EVENT_OPTIONS: Array<{ key: EventKey; label: string; group: 'Messaging' |
     { key: 'reputation.sampled',label: 'Reputation sampled',group: 'Compliance' },
 ];
 
-const backend = process.env.NEXT_PUBLIC_BACKEND_URL || '';
-
-function authHeaders(): HeadersInit {
-    const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-    return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-}
+const backend = BACKEND_URL;
 
 /* ----------------------- Backoff helpers ----------------------- */
 type BackoffMode = 'exponential' | 'fixed' | 'linear' | 'custom';
@@ -129,7 +126,7 @@ export default function EditWebhookPage() {
     const load = useCallback(async () => {
         try {
             setLoading(true);
-            const res = await fetch(`${backend}/companies/${hash}/webhooks`, { headers: authHeaders() });
+            const res = await apiFetch(`${backend}/companies/${hash}/webhooks`);
             if (!res.ok) throw new Error(`Load failed (${res.status})`);
             const list: WebhookRow[] = await res.json();
             const found = list.find(w => w.id === Number(id));
@@ -221,9 +218,8 @@ export default function EditWebhookPage() {
                 retry_backoff: backoffRaw, // built from the advanced UI
             };
 
-            const res = await fetch(`${backend}/companies/${hash}/webhooks/${id}`, {
+            const res = await apiFetch(`${backend}/companies/${hash}/webhooks/${id}`, {
                 method: 'PATCH',
-                headers: authHeaders(),
                 body: JSON.stringify(payload),
             });
 
@@ -524,13 +520,15 @@ export default function EditWebhookPage() {
                         >
                             Cancel
                         </button>
-                        <button
-                            type="submit"
-                            disabled={busy}
-                            className="px-3 py-2 rounded bg-blue-600 text-white text-sm hover:bg-blue-700 disabled:opacity-50 w-full"
-                        >
-                            {busy ? 'Saving…' : 'Save Changes'}
-                        </button>
+                        <Can permission="webhook.manage">
+                            <button
+                                type="submit"
+                                disabled={busy}
+                                className="px-3 py-2 rounded bg-blue-600 text-white text-sm hover:bg-blue-700 disabled:opacity-50 w-full"
+                            >
+                                {busy ? 'Saving…' : 'Save Changes'}
+                            </button>
+                        </Can>
                     </div>
                 </aside>
             </form>
@@ -23,6 +23,8 @@ import {
     XCircleIcon as XCircleSolid,
     ChartBarIcon as ChartBarSolid,
 } from '@heroicons/react/24/solid';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
+import Can from '@/components/company/Can';
 
 /* ========================= Types ========================= */
 
@@ -69,14 +71,9 @@ const STATUS_OPTIONS: Array<{ id: 'all' | 'active' | 'disabled'; label: string }
 
 /* ========================= Helpers ========================= */
 
-const backend = process.env.NEXT_PUBLIC_BACKEND_URL || '';
+const backend = BACKEND_URL;
 const classNames = (...a: Array<string | false | null | undefined>) => a.filter(Boolean).join(' ');
 
-function authHeaders(): HeadersInit {
-    const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-    return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-}
-
 function fmtDate(iso?: string | null) {
     if (!iso) return '—';
     try {
@@ -286,7 +283,7 @@ export default function CompanyWebhooksListPage() {
         try {
             setLoading(true);
             setErr(null);
-            const res = await fetch(`${backend}/companies/${hash}/webhooks`, { headers: authHeaders() });
+            const res = await apiFetch(`${backend}/companies/${hash}/webhooks`);
             if (!res.ok) throw new Error(`Load failed (${res.status})`);
             const json: WebhookRow[] = await res.json();
             setRows(json);
@@ -320,9 +317,8 @@ export default function CompanyWebhooksListPage() {
         try {
             setBusyId(id);
             const next = current === 'active' ? 'disabled' : 'active';
-            const res = await fetch(`${backend}/companies/${hash}/webhooks/${id}`, {
+            const res = await apiFetch(`${backend}/companies/${hash}/webhooks/${id}`, {
                 method: 'PATCH',
-                headers: authHeaders(),
                 body: JSON.stringify({ status: next }),
             });
             if (!res.ok) throw new Error(`Update failed (${res.status})`);
@@ -405,13 +401,15 @@ export default function CompanyWebhooksListPage() {
                             <ArrowPathIcon className="h-4 w-4" />
                             Refresh
                         </button>
-                        <Link
-                            href={`/dashboard/company/${hash}/webhooks/new`}
-                            className="inline-flex items-center gap-2 rounded-lg bg-gradient-to-r from-indigo-500 to-indigo-600 px-4 py-2 text-white font-medium hover:from-indigo-600 hover:to-indigo-700 transition-all shadow-sm"
-                        >
-                            <PlusIcon className="h-4 w-4" />
-                            New Webhook
-                        </Link>
+                        <Can permission="webhook.manage">
+                            <Link
+                                href={`/dashboard/company/${hash}/webhooks/new`}
+                                className="inline-flex items-center gap-2 rounded-lg bg-gradient-to-r from-indigo-500 to-indigo-600 px-4 py-2 text-white font-medium hover:from-indigo-600 hover:to-indigo-700 transition-all shadow-sm"
+                            >
+                                <PlusIcon className="h-4 w-4" />
+                                New Webhook
+                            </Link>
+                        </Can>
                     </div>
                 </div>
 
@@ -575,13 +573,15 @@ export default function CompanyWebhooksListPage() {
                                 </p>
                                 {rows.length === 0 && (
                                     <div className="mt-6">
-                                        <Link
-                                            href={`/dashboard/company/${hash}/webhooks/new`}
-                                            className="inline-flex items-center gap-2 rounded-lg bg-gradient-to-r from-indigo-500 to-indigo-600 px-4 py-2 text-white font-medium hover:from-indigo-600 hover:to-indigo-700 transition-all shadow-sm"
-                                        >
-                                            <PlusIcon className="h-4 w-4" />
-                                            Create Webhook
-                                        </Link>
+                                        <Can permission="webhook.manage">
+                                            <Link
+                                                href={`/dashboard/company/${hash}/webhooks/new`}
+                                                className="inline-flex items-center gap-2 rounded-lg bg-gradient-to-r from-indigo-500 to-indigo-600 px-4 py-2 text-white font-medium hover:from-indigo-600 hover:to-indigo-700 transition-all shadow-sm"
+                                            >
+                                                <PlusIcon className="h-4 w-4" />
+                                                Create Webhook
+                                            </Link>
+                                        </Can>
                                     </div>
                                 )}
                             </div>
@@ -656,24 +656,26 @@ export default function CompanyWebhooksListPage() {
                                                             <PencilSquareIcon className="h-3 w-3" />
                                                             Edit
                                                         </Link>
-                                                        <button
-                                                            className={classNames(
-                                                                'inline-flex items-center gap-1 px-2 py-1 rounded-lg border text-xs font-medium transition-all',
-                                                                w.status === 'active'
-                                                                    ? 'border-red-300 text-red-700 hover:bg-red-50'
-                                                                    : 'border-green-300 text-green-700 hover:bg-green-50',
-                                                                isBusy && 'opacity-50 cursor-not-allowed'
-                                                            )}
-                                                            onClick={() => toggleEnable(w.id, w.status)}
-                                                            disabled={isBusy}
-                                                        >
-                                                            {isBusy ? (
-                                                                <div className="h-3 w-3 animate-spin rounded-full border border-current border-t-transparent" />
-                                                            ) : (
-                                                                <PowerIcon className="h-3 w-3" />
-                                                            )}
-                                                            {w.status === 'active' ? 'Disable' : 'Enable'}
-                                                        </button>
+                                                        <Can permission="webhook.manage">
+                                                            <button
+                                                                className={classNames(
+                                                                    'inline-flex items-center gap-1 px-2 py-1 rounded-lg border text-xs font-medium transition-all',
+                                                                    w.status === 'active'
+                                                                        ? 'border-red-300 text-red-700 hover:bg-red-50'
+                                                                        : 'border-green-300 text-green-700 hover:bg-green-50',
+                                                                    isBusy && 'opacity-50 cursor-not-allowed'
+                                                                )}
+                                                                onClick={() => toggleEnable(w.id, w.status)}
+                                                                disabled={isBusy}
+                                                            >
+                                                                {isBusy ? (
+                                                                    <div className="h-3 w-3 animate-spin rounded-full border border-current border-t-transparent" />
+                                                                ) : (
+                                                                    <PowerIcon className="h-3 w-3" />
+                                                                )}
+                                                                {w.status === 'active' ? 'Disable' : 'Enable'}
+                                                            </button>
+                                                        </Can>
                                                     </div>
                                                 </td>
                                             </tr>
@@ -10,6 +10,7 @@ import { ArrowLeftIcon, ChevronUpDownIcon, CheckCircleIcon } from '@heroicons/re
 import countryList from 'react-select-country-list';
 import { loadStripe } from '@stripe/stripe-js';
 import { Elements, PaymentElement, useElements, useStripe } from '@stripe/react-stripe-js';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
 
 /* -------------------------------- Types -------------------------------- */
 
@@ -210,11 +211,6 @@ export default function CreateCompanyPage() {
     const [apiError, setApiError] = useState<ApiError | null>(null);
     const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
-
     const selected = selectedPlanId != null ? details[selectedPlanId] : undefined;
     const requireCard = (selected?.monthlyPrice ?? 0) > 0;
     const selectedBullets = useMemo(() => toFeatureBullets(selected?.features ?? null), [selected]);
@@ -228,7 +224,7 @@ export default function CreateCompanyPage() {
                 setPlansLoading(true);
                 setPlansError(null);
 
-                const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/plans-brief`, { headers: { 'Content-Type': 'application/json' } });
+                const res = await apiFetch(`${BACKEND_URL}/plans-brief`, { headers: { 'Content-Type': 'application/json' } });
                 if (!res.ok) throw new Error(`Failed to load plans (${res.status})`);
                 const items = (await res.json()) as PlanBrief[];
                 if (cancelled) return;
@@ -237,7 +233,7 @@ export default function CreateCompanyPage() {
 
                 const pairs = await Promise.all(
                     items.map(async (p) => {
-                        const r = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/plans-id/${p.id}`, { headers: { 'Content-Type': 'application/json' } });
+                        const r = await apiFetch(`${BACKEND_URL}/plans-id/${p.id}`, { headers: { 'Content-Type': 'application/json' } });
                         if (!r.ok) throw new Error(`Failed to load plan ${p.id} (${r.status})`);
                         const d = (await r.json()) as PlanDetail;
                         return [p.id, d] as const;
@@ -272,8 +268,8 @@ export default function CreateCompanyPage() {
 
             try {
                 setStripeLoading(true);
-                const res = await fetch(
-                    `${process.env.NEXT_PUBLIC_BACKEND_URL}/billing/create-setup-intent?plan_id=${selectedPlanId}`,
+                const res = await apiFetch(
+                    `${BACKEND_URL}/billing/create-setup-intent?plan_id=${selectedPlanId}`,
                     { method: 'POST', headers: { 'Content-Type': 'application/json' } }
                 );
                 if (!res.ok) throw new Error(`Cannot initialize payment (${res.status})`);
@@ -344,9 +340,8 @@ export default function CreateCompanyPage() {
                 ...(paymentMethodId ? { stripe_payment_method: paymentMethodId } : {}),
             };
 
-            const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/companies`, {
+            const res = await apiFetch(`${BACKEND_URL}/companies`, {
                 method: 'POST',
-                headers: authHeaders(),
                 body: JSON.stringify(payload),
             });
 
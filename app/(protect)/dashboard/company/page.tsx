@@ -15,6 +15,7 @@ import {
     CheckCircleIcon,
     ExclamationTriangleIcon,
 } from '@heroicons/react/24/outline';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
 
 type PlanBrief = { id: number | null; name: string | null } | null;
 
@@ -36,17 +37,10 @@ export default function CompaniesListPage() {
     const [loading, setLoading] = useState(true);
     const [error,   setError]   = useState<string | null>(null);
 
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
-
     useEffect(() => {
         (async () => {
             try {
-                const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/companies/list-full`, {
-                    headers: authHeaders(),
-                });
+                const res = await apiFetch(`${BACKEND_URL}/companies/list-full`);
                 if (res.status === 403 || res.status === 401) { setError('You don’t have access to these companies.'); return; }
                 if (!res.ok) throw new Error(`Failed to load companies: ${res.status}`);
                 const data: CompanyFull[] = await res.json();
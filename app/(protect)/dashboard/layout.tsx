@@ -2,7 +2,8 @@
 
 import DashboardLayout from "@/components/dashboard/DashboardLayout";
 import { ReactNode, useEffect, useState } from "react";
-import { useRouter } from "next/navigation";
+import { BACKEND_URL, apiFetch } from "@/lib/api";
+import { redirectToLogin } from "@/lib/session";
 import SessionKeeper from "@/components/session/SessionKeeper";
 import SessionGuard from "@/components/session/SessionGuard";
 import SupportBubble from '@/components/support/SupportBubble';
@@ -20,16 +21,7 @@ interface User {
 }
 
 async function fetchMe(): Promise<User> {
-    const token = localStorage.getItem("jwt");
-    const res = await fetch(
-        `${process.env.NEXT_PUBLIC_BACKEND_URL}/auth/me`,
-        {
-            headers: {
-                "Content-Type": "application/json",
-                ...(token ? { Authorization: `Bearer ${token}` } : {}),
-            },
-        }
-    );
+    const res = await apiFetch(`${BACKEND_URL}/auth/me`);
     if (!res.ok) throw new Error("Not authenticated");
     return res.json();
 }
@@ -41,17 +33,15 @@ export default function DashboardPageLayout({
 }) {
     const [user, setUser] = useState<User | null>(null);
     const [loading, setLoading] = useState(true);
-    const router = useRouter();
-
     useEffect(() => {
         fetchMe()
             .then((me) => setUser(me))
             .catch(() => {
-                // if not authenticated, send them to /login
-                router.replace("/login");
+                // if not authenticated, send them to /login (and back here afterwards)
+                redirectToLogin();
             })
             .finally(() => setLoading(false));
-    }, [router]);
+    }, []);
     // while we’re checking auth, render nothing (or a spinner)
     if (loading || !user) {
         return null;
@@ -76,7 +66,7 @@ export default function DashboardPageLayout({
             <SessionGuard>
                 {children}
             </SessionGuard>
-            <SupportBubble tokenStorageKey="jwt" />
+            <SupportBubble />
         </DashboardLayout>
     );
 }
\ No newline at end of file
@@ -4,6 +4,7 @@ import React, { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import ProfileStep, { ProfileData } from '@/components/dashboard/onboarding/ProfileStep'
 import CompanyStep from '@/components/dashboard/onboarding/CompanyStep'
+import { BACKEND_URL, apiFetch } from '@/lib/api'
 
 export type Country = { label: string; value: string }
 
@@ -19,21 +20,15 @@ export default function OnboardingPage() {
     const [profileData, setProfileData] = useState<ProfileData>({ fullName: '', file: undefined })
     const [profileSaved, setProfileSaved] = useState(false)
 
-    function authHeaders(): HeadersInit {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null
-        return token ? { Authorization: `Bearer ${token}` } : {}
-    }
-
     async function saveProfile(data: ProfileData) {
         const form = new FormData()
         form.append('fullName', data.fullName.trim())
         if (data.file) form.append('file', data.file)
 
-        const res = await fetch(
-            `${process.env.NEXT_PUBLIC_BACKEND_URL}/me/profile`,
+        const res = await apiFetch(
+            `${BACKEND_URL}/me/profile`,
             {
                 method: 'POST',
-                headers: authHeaders(),
                 body: form,
             }
         )
@@ -78,14 +73,10 @@ export default function OnboardingPage() {
         setError(null)
         setSaving(true)
         try {
-            const res = await fetch(
-                `${process.env.NEXT_PUBLIC_BACKEND_URL}/companies`,
+            const res = await apiFetch(
+                `${BACKEND_URL}/companies`,
                 {
                     method: 'POST',
-                    headers: {
-                        'Content-Type': 'application/json',
-                        ...authHeaders(),
-                    },
                     body: JSON.stringify(payload),
                 }
             )
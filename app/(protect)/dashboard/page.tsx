@@ -20,6 +20,7 @@ import {
 import {
     SparklesIcon as SparklesSolid,
 } from '@heroicons/react/24/solid';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
 
 /* ----------------------------- Types ----------------------------- */
 
@@ -244,16 +245,11 @@ export default function DashboardPage() {
     const [loading, setLoading] = useState(true);
     const [err, setErr] = useState<string | null>(null);
 
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
-
     useEffect(() => {
         (async () => {
             try {
                 // Load user data
-                const meRes = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/auth/me`, { headers: authHeaders() });
+                const meRes = await apiFetch(`${BACKEND_URL}/auth/me`);
                 const meJson: unknown = await meRes.json();
                 if (!meRes.ok) throw new Error(`Failed to load user (${meRes.status})`);
                 if (isObj(meJson) && typeof meJson.redirectTo === 'string') {
@@ -266,9 +262,7 @@ export default function DashboardPage() {
                 setMe({ id: meJson.id, email: meJson.email, fullName: (meJson.fullName as string) ?? null });
 
                 // Load companies
-                const cRes = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/companies/list-full`, {
-                    headers: authHeaders(),
-                });
+                const cRes = await apiFetch(`${BACKEND_URL}/companies/list-full`);
                 if (!cRes.ok) throw new Error(`Failed to load companies (${cRes.status})`);
                 const raw: unknown = await cRes.json();
                 const arr = Array.isArray(raw) ? raw : [];
@@ -7,6 +7,7 @@ import PhoneInput from "react-phone-number-input";
 import Select from "react-select";
 import countryList from "react-select-country-list";
 import "react-phone-number-input/style.css";
+import { BACKEND_URL, apiFetch } from "@/lib/api";
 
 interface CompanyForm {
     name: string;
@@ -35,9 +36,6 @@ export default function CreateCompanyPage() {
     const [saving, setSaving] = useState(false);
     const [apiError, setApiError] = useState<ApiError | null>(null);
 
-    const getToken = () =>
-        typeof window !== "undefined" ? localStorage.getItem("jwt") : null;
-
     const countryOptions = useMemo(() => countryList().getData(), []);
 
     function handleTextChange(
@@ -69,15 +67,10 @@ export default function CreateCompanyPage() {
         };
 
         try {
-            const token = getToken();
-            const res = await fetch(
-                `${process.env.NEXT_PUBLIC_BACKEND_URL}/companies`,
+            const res = await apiFetch(
+                `${BACKEND_URL}/companies`,
                 {
                     method: "POST",
-                    headers: {
-                        "Content-Type": "application/json",
-                        ...(token ? { Authorization: `Bearer ${token}` } : {}),
-                    },
                     body: JSON.stringify(payload),
                 }
             );
@@ -5,6 +5,7 @@ import React, { useEffect, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { PlusIcon } from "@heroicons/react/24/outline";
+import { BACKEND_URL, apiFetch } from "@/lib/api";
 
 interface Company {
     id: number;
@@ -18,22 +19,10 @@ export default function CompaniesListPage() {
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
 
-    const authHeaders = (): HeadersInit => {
-        const token =
-            typeof window !== "undefined" ? localStorage.getItem("jwt") : null;
-        return {
-            "Content-Type": "application/json",
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        };
-    };
-
     useEffect(() => {
         async function load() {
             try {
-                const res = await fetch(
-                    `${process.env.NEXT_PUBLIC_BACKEND_URL}/companies`,
-                    { headers: authHeaders() }
-                );
+                const res = await apiFetch(`${BACKEND_URL}/companies`);
                 if (!res.ok) throw new Error(`Failed: ${res.status}`);
                 const data: Company[] = await res.json();
                 setCompanies(data);
@@ -11,6 +11,7 @@ import { useRouter } from "next/navigation";
 import { useDropzone } from "react-dropzone";
 import { PhotoIcon, XCircleIcon } from "@heroicons/react/24/outline";
 import Image from "next/image";
+import { BACKEND_URL, apiFetch } from "@/lib/api";
 
 interface Settings {
     id: number;
@@ -43,21 +44,13 @@ export default function SettingsPage() {
     const [saving, setSaving] = useState(false);
     const [apiError, setApiError] = useState<ApiError | null>(null);
 
-    const getToken = () =>
-        typeof window !== "undefined" ? localStorage.getItem("jwt") : null;
-
     // Load existing settings
     useEffect(() => {
         async function load() {
             try {
-                const token = getToken();
-                const res = await fetch(
-                    `${process.env.NEXT_PUBLIC_BACKEND_URL}/me/settings`,
+                const res = await apiFetch(
+                    `${BACKEND_URL}/me/settings`,
                     {
-                        headers: {
-                            "Content-Type": "application/json",
-                            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-                        },
                     }
                 );
                 if (!res.ok) throw new Error("Failed to fetch settings");
@@ -105,7 +98,6 @@ export default function SettingsPage() {
         setApiError(null);
 
         try {
-            const token = getToken();
             const body = new FormData();
             body.append("fullName", form.fullName);
             if (form.currentPassword && form.newPassword) {
@@ -120,11 +112,10 @@ export default function SettingsPage() {
                 body.append("file", form.file);
             }
 
-            const res = await fetch(
-                `${process.env.NEXT_PUBLIC_BACKEND_URL}/me/settings`,
+            const res = await apiFetch(
+                `${BACKEND_URL}/me/settings`,
                 {
                     method: "POST",
-                    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
                     body,
                 }
             );
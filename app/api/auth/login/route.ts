@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { backendUrl, relaySetCookies, setSessionCookies } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+type LoginBody = { email?: string; password?: string; remember?: boolean };
+type LoginResult = { success: true } | { error: true; message: string };
+
+export async function POST(req: NextRequest) {
+    let body: LoginBody = {};
+    try {
+        body = await req.json();
+    } catch {
+        return NextResponse.json<LoginResult>({ error: true, message: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const { email, password, remember = false } = body;
+    if (!email || !password) {
+        return NextResponse.json<LoginResult>({ error: true, message: 'Email and password required' }, { status: 400 });
+    }
+
+    try {
+        const backendRes = await fetch(backendUrl('/auth/login'), {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ email, password, remember }),
+        });
+        const data = (await backendRes.json().catch(() => ({}))) as { token?: string; message?: string };
+
+        if (!backendRes.ok || !data.token) {
+            return NextResponse.json<LoginResult>(
+                { error: true, message: data.message || 'Login failed. Please try again.' },
+                { status: backendRes.ok ? 502 : backendRes.status },
+            );
+        }
+
+        // the token never reaches client JS: it lives in an HttpOnly cookie
+        const res = NextResponse.json<LoginResult>({ success: true });
+        relaySetCookies(backendRes, res);
+        setSessionCookies(req, res, data.token, remember);
+        return res;
+    } catch {
+        return NextResponse.json<LoginResult>({ error: true, message: 'Authentication service unavailable' }, { status: 502 });
+    }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { backendCookieHeader, backendUrl, clearSessionCookies, readToken, relaySetCookies } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+export async function POST(req: NextRequest) {
+    const headers: Record<string, string> = {};
+    const token = readToken(req);
+    const cookie = backendCookieHeader(req);
+    if (token) headers.Authorization = `Bearer ${token}`;
+    if (cookie) headers.Cookie = cookie;
+
+    const res = NextResponse.json({ success: true });
+    try {
+        const backendRes = await fetch(backendUrl('/auth/logout'), { method: 'POST', headers });
+        relaySetCookies(backendRes, res);
+    } catch {
+        // best effort: the local session is dropped regardless
+    }
+    clearSessionCookies(res);
+    return res;
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    backendCookieHeader,
+    backendUrl,
+    clearSessionCookies,
+    readToken,
+    relaySetCookies,
+    setSessionCookies,
+} from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+type RefreshResult = { success: true } | { error: true; message: string };
+
+export async function POST(req: NextRequest) {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const token = readToken(req);
+    const cookie = backendCookieHeader(req);
+    if (token) headers.Authorization = `Bearer ${token}`;
+    if (cookie) headers.Cookie = cookie;
+
+    try {
+        const backendRes = await fetch(backendUrl('/auth/refresh'), {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({}),
+        });
+        const data = (await backendRes.json().catch(() => ({}))) as { token?: string; message?: string };
+
+        if (backendRes.ok && data.token) {
+            const res = NextResponse.json<RefreshResult>({ success: true });
+            relaySetCookies(backendRes, res);
+            setSessionCookies(req, res, data.token);
+            return res;
+        }
+
+        const res = NextResponse.json<RefreshResult>(
+            { error: true, message: data.message || 'Session expired' },
+            { status: 401 },
+        );
+        clearSessionCookies(res);
+        return res;
+    } catch {
+        // keep the cookies: the backend being down is not a reason to sign the user out
+        return NextResponse.json<RefreshResult>({ error: true, message: 'Authentication service unavailable' }, { status: 502 });
+    }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { backendCookieHeader, backendUrl, readToken, relaySetCookies } from '@/lib/auth';
+
+// streams request/response bodies through — keep it on node
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type Ctx = { params: Promise<{ path: string[] }> };
+
+// hop-by-hop or recomputed by fetch; never forwarded as-is
+const DROP_REQUEST = new Set(['host', 'connection', 'content-length', 'cookie', 'authorization', 'accept-encoding']);
+const DROP_RESPONSE = new Set(['connection', 'content-encoding', 'content-length', 'transfer-encoding', 'set-cookie']);
+// these answer with a raw JWT; only app/api/auth/* may call them
+const RESERVED = /^auth\/(login|refresh)\/?$/;
+
+/**
+ * Backend-for-frontend proxy: `/api/backend/<path>` → `${BACKEND_URL}/<path>`, with the
+ * HttpOnly session cookie turned into a Bearer header so the JWT never reaches client JS.
+ */
+async function proxy(req: NextRequest, { params }: Ctx) {
+    const { path } = await params;
+    if (RESERVED.test(path.join('/'))) {
+        return NextResponse.json({ error: true, message: 'Not found' }, { status: 404 });
+    }
+
+    const target = backendUrl(path.map(encodeURIComponent).join('/')) + req.nextUrl.search;
+
+    const headers = new Headers();
+    req.headers.forEach((value, key) => {
+        if (!DROP_REQUEST.has(key)) headers.set(key, value);
+    });
+    const token = readToken(req);
+    const cookie = backendCookieHeader(req);
+    if (token) headers.set('Authorization', `Bearer ${token}`);
+    if (cookie) headers.set('Cookie', cookie);
+
+    const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+
+    let upstream: Response;
+    try {
+        upstream = await fetch(target, {
+            method: req.method,
+            headers,
+            body: hasBody ? await req.arrayBuffer() : undefined,
+            redirect: 'manual',
+            cache: 'no-store',
+        });
+    } catch {
+        return NextResponse.json({ error: true, message: 'Backend unavailable' }, { status: 502 });
+    }
+
+    const resHeaders = new Headers();
+    upstream.headers.forEach((value, key) => {
+        if (!DROP_RESPONSE.has(key)) resHeaders.set(key, value);
+    });
+
+    const res = new NextResponse(upstream.body, { status: upstream.status, headers: resHeaders });
+    relaySetCookies(upstream, res);
+    return res;
+}
+
+export { proxy as GET, proxy as POST, proxy as PUT, proxy as PATCH, proxy as DELETE, proxy as HEAD };
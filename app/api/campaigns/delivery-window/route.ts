@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BackendError, backendFetcher, readToken } from '@/lib/auth';
+import {
+    type DeliveryWindow,
+    type DeliveryWindowRequest,
+    bucketize,
+    isValidTimeZone,
+    nextLocalTime,
+    nextUtcHour,
+    openHistograms,
+    parseLocalTime,
+    peakHour,
+} from '@/lib/send-time';
+import type { ApiPaged, Contact } from '@/types/api';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type DeliveryWindowResult = DeliveryWindow | { error: string };
+
+/** Audience pages sampled (200 contacts each). */
+const SAMPLE_PAGES = 5;
+/** Pages of `opened` events read for the optimized mode (200 each). */
+const EVENT_PAGES = 10;
+const PER_PAGE = 200;
+/** Open history considered for the optimized mode. */
+const HISTORY_DAYS = 90;
+
+type OpenedEvent = { at: string; recipient?: { email?: string | null } | null };
+
+export async function POST(req: NextRequest) {
+    let body: Partial<DeliveryWindowRequest> = {};
+    try {
+        body = await req.json();
+    } catch {
+        return NextResponse.json<DeliveryWindowResult>({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+    const at = parseLocalTime(body.local_time ?? '');
+    if (!body.hash || (body.mode !== 'local_time' && body.mode !== 'optimized') || !at) {
+        return NextResponse.json<DeliveryWindowResult>({ error: 'hash, mode and local_time (HH:MM) required' }, { status: 400 });
+    }
+    if (!isValidTimeZone(body.fallback_timezone)) {
+        return NextResponse.json<DeliveryWindowResult>({ error: 'Unknown fallback_timezone' }, { status: 400 });
+    }
+    if (!readToken(req)) {
+        return NextResponse.json<DeliveryWindowResult>({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const get = backendFetcher(req);
+    const co = `companies/${encodeURIComponent(body.hash)}`;
+    const fallbackTz = body.fallback_timezone;
+    const parsedStart = body.start ? Date.parse(body.start) : NaN;
+    const start = Number.isNaN(parsedStart) ? Date.now() : Math.max(parsedStart, Date.now());
+
+    const loadAudience = async () => {
+        const id = body.target === 'segment' ? body.segment_id : body.list_id;
+        if (!id) return { total: 0, contacts: [] as Array<Pick<Contact, 'email' | 'timezone'>> };
+        // segment previews carry no timezone; those contacts use the fallback
+        const path = body.target === 'segment' ? `${co}/segments/${id}/preview` : `${co}/lists/${id}/contacts`;
+        const contacts: Array<Pick<Contact, 'email' | 'timezone'>> = [];
+        let total = 0;
+        for (let page = 1; page <= SAMPLE_PAGES; page++) {
+            const res = await get<ApiPaged<Pick<Contact, 'email' | 'timezone'>>>(`${path}?page=${page}&perPage=${PER_PAGE}`);
+            total = res.meta.total;
+            contacts.push(...res.items);
+            if (page >= res.meta.totalPages) break;
+        }
+        return { total, contacts };
+    };
+
+    const loadOpens = async () => {
+        if (body.mode !== 'optimized') return [];
+        const since = new Date(Date.now() - HISTORY_DAYS * 86_400_000).toISOString().slice(0, 10);
+        const events: OpenedEvent[] = [];
+        for (let page = 1; page <= EVENT_PAGES; page++) {
+            const res = await get<{ meta: { total: number }; items: OpenedEvent[] }>(
+                `${co}/events?type=opened&since=${since}&order=desc&page=${page}&perPage=${PER_PAGE}`
+            );
+            events.push(...res.items);
+            if (res.items.length < PER_PAGE || events.length >= res.meta.total) break;
+        }
+        return events;
+    };
+
+    try {
+        const [{ total, contacts }, opens] = await Promise.all([loadAudience(), loadOpens()]);
+        const { byEmail, overall } = openHistograms(opens.map((e) => ({ email: e.recipient?.email, at: e.at })));
+        const audienceHour = peakHour(overall);
+
+        let fallback = 0;
+        const times = contacts.map((c) => {
+            if (body.mode === 'optimized') {
+                const own = c.email ? peakHour(byEmail.get(c.email.toLowerCase()) ?? []) : null;
+                if (own !== null) return nextUtcHour(start, own);
+                fallback++;
+                return audienceHour !== null ? nextUtcHour(start, audienceHour) : nextLocalTime(start, at, fallbackTz);
+            }
+            if (isValidTimeZone(c.timezone)) return nextLocalTime(start, at, c.timezone);
+            fallback++;
+            return nextLocalTime(start, at, fallbackTz);
+        });
+
+        const buckets = bucketize(times, contacts.length ? total / contacts.length : 0);
+        return NextResponse.json<DeliveryWindowResult>({
+            buckets,
+            total,
+            sampled: contacts.length,
+            fallback,
+            first: buckets[0]?.at ?? null,
+            last: buckets[buckets.length - 1]?.at ?? null,
+        });
+    } catch (err) {
+        const status = err instanceof BackendError ? (err.status === 401 || err.status === 403 ? err.status : 502) : 500;
+        const msg = err instanceof Error ? err.message : 'Delivery preview error';
+        return NextResponse.json<DeliveryWindowResult>({ error: msg }, { status });
+    }
+}
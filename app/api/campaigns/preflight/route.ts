@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BackendError, backendFetcher, readToken } from '@/lib/auth';
+import {
+    type AudienceSample,
+    type PreflightReport,
+    type PreflightRequest,
+    audienceChecks,
+    authenticationChecks,
+    buildReport,
+    contentTargets,
+    targetContentChecks,
+} from '@/lib/preflight';
+import type { ApiPaged, Contact, Template } from '@/types/api';
+import type { DomainDetail } from '@/types/domain';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type PreflightResult = PreflightReport | { error: string };
+
+/** Audience pages read for the hygiene sample (200 contacts each). */
+const SAMPLE_PAGES = 5;
+const SAMPLE_PER_PAGE = 200;
+
+export async function POST(req: NextRequest) {
+    let body: Partial<PreflightRequest> = {};
+    try {
+        body = await req.json();
+    } catch {
+        return NextResponse.json<PreflightResult>({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+    if (!body.hash) {
+        return NextResponse.json<PreflightResult>({ error: 'hash (string) required' }, { status: 400 });
+    }
+    if (!readToken(req)) {
+        return NextResponse.json<PreflightResult>({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const get = backendFetcher(req);
+    const co = `companies/${encodeURIComponent(body.hash)}`;
+
+    const targets = contentTargets({ subject: body.subject ?? null, template_id: body.template_id ?? null, variants: body.variants });
+
+    // variants often share a template; fetch each one once
+    const loadTemplates = async (): Promise<Map<number, Template>> => {
+        const ids = [...new Set(targets.map((t) => t.template_id).filter((id): id is number => !!id))];
+        const rows = await Promise.all(ids.map((id) => get<Template>(`${co}/templates/${id}`)));
+        return new Map(rows.map((t, i) => [ids[i], t]));
+    };
+
+    // the detail carries the stored result of the last verification run
+    const loadDomain = async (): Promise<DomainDetail | null> =>
+        body.domain_id ? get<DomainDetail>(`${co}/domains/${body.domain_id}`) : null;
+
+    const loadAudience = async (): Promise<AudienceSample | null> => {
+        const id = body.target === 'segment' ? body.segment_id : body.list_id;
+        if (!id) return null;
+        const path = body.target === 'segment' ? `${co}/segments/${id}/preview` : `${co}/lists/${id}/contacts`;
+        const byStatus: Record<string, number> = {};
+        let total = 0;
+        let sampled = 0;
+        for (let page = 1; page <= SAMPLE_PAGES; page++) {
+            const res = await get<ApiPaged<Pick<Contact, 'id' | 'status'>>>(`${path}?page=${page}&perPage=${SAMPLE_PER_PAGE}`);
+            total = res.meta.total;
+            for (const c of res.items) {
+                const s = (c.status ?? 'unknown').toLowerCase();
+                byStatus[s] = (byStatus[s] ?? 0) + 1;
+            }
+            sampled += res.items.length;
+            if (page >= res.meta.totalPages) break;
+        }
+        return { total, sampled, byStatus };
+    };
+
+    try {
+        const [templates, domain, audience] = await Promise.all([loadTemplates(), loadDomain(), loadAudience()]);
+        const items = [
+            ...targets.flatMap((t) => targetContentChecks(t, t.template_id ? templates.get(t.template_id) ?? null : null)),
+            ...authenticationChecks(domain),
+            ...audienceChecks(audience),
+        ];
+        return NextResponse.json<PreflightResult>(buildReport(items));
+    } catch (err) {
+        const status = err instanceof BackendError ? (err.status === 401 || err.status === 403 ? err.status : 502) : 500;
+        const msg = err instanceof Error ? err.message : 'Pre-flight error';
+        return NextResponse.json<PreflightResult>({ error: msg }, { status });
+    }
+}
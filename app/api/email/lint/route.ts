@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type LintIssue, lintEmailHtml } from '@/lib/email-lint';
+
+type LintBody = { html?: string };
+type LintResult = { issues?: LintIssue[]; bytes?: number; error?: string };
+
+export async function POST(req: NextRequest) {
+    let body: LintBody = {};
+    try {
+        body = await req.json();
+    } catch {
+        return NextResponse.json<LintResult>({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    if (typeof body.html !== 'string') {
+        return NextResponse.json<LintResult>({ error: 'html (string) required' }, { status: 400 });
+    }
+
+    // same checks the template editor runs in the browser
+    const { issues, bytes } = lintEmailHtml(body.html);
+    return NextResponse.json<LintResult>({ issues, bytes });
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// mjml needs Node APIs — do NOT run on edge
+export const runtime = 'nodejs';
+
+import mjml2html from 'mjml';
+import type { MjmlIssue, MjmlResult } from '@/lib/mjml';
+
+type MjmlBody = { mjml?: string };
+
+export async function POST(req: NextRequest) {
+    try {
+        let body: MjmlBody = {};
+        try {
+            body = await req.json();
+        } catch {
+            return NextResponse.json<MjmlResult>({ error: 'Invalid JSON body' }, { status: 400 });
+        }
+
+        const source = typeof body.mjml === 'string' ? body.mjml : undefined;
+        if (!source) {
+            return NextResponse.json<MjmlResult>({ error: 'mjml (string) required' }, { status: 400 });
+        }
+
+        // Soft validation renders despite issues so the preview keeps working while the user types.
+        // mj-include would read files from this server, so it is never honoured.
+        const out = mjml2html(source, { validationLevel: 'soft', ignoreIncludes: true, keepComments: false });
+        const errors: MjmlIssue[] = out.errors.map((e) => ({ line: e.line, message: e.message, tagName: e.tagName }));
+
+        return NextResponse.json<MjmlResult>({ html: out.html, errors });
+    } catch (err) {
+        // the parser throws when the document is not MJML at all
+        const msg = err instanceof Error ? err.message : 'MJML error';
+        return NextResponse.json<MjmlResult>({ error: msg, errors: [] }, { status: 422 });
+    }
+}
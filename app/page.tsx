@@ -23,6 +23,7 @@ import {
     ArrowLeftIcon,
     CreditCardIcon,
 } from '@heroicons/react/24/outline';
+import { BACKEND_URL } from '@/lib/api';
 
 /* ========================= Types (match backend) ========================= */
 
@@ -201,7 +202,7 @@ export default function MonkeysMailLanding() {
             setPlansLoading(true);
             setPlansError(null);
             try {
-                const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/plans-brief`, {
+                const res = await fetch(`${BACKEND_URL}/plans-brief`, {
                     headers: { 'Content-Type': 'application/json' },
                 });
                 if (!res.ok) throw new Error(`Failed to load plans (${res.status})`);
@@ -216,7 +217,7 @@ export default function MonkeysMailLanding() {
 
                 const pairs = await Promise.all(
                     items.map(async (p) => {
-                        const r = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/plans-id/${p.id}`, {
+                        const r = await fetch(`${BACKEND_URL}/plans-id/${p.id}`, {
                             headers: { 'Content-Type': 'application/json' },
                         });
                         if (!r.ok) throw new Error(`Failed to load plan ${p.id} (${r.status})`);
@@ -258,7 +259,7 @@ export default function MonkeysMailLanding() {
             try {
                 setStripeLoading(true);
                 const res = await fetch(
-                    `${process.env.NEXT_PUBLIC_BACKEND_URL}/billing/create-setup-intent?plan_id=${selectedPlanId}`,
+                    `${BACKEND_URL}/billing/create-setup-intent?plan_id=${selectedPlanId}`,
                     { method: 'POST', headers: { 'Content-Type': 'application/json' } }
                 );
                 if (!res.ok) throw new Error(`Cannot initialize payment (${res.status})`);
@@ -345,7 +346,7 @@ export default function MonkeysMailLanding() {
 
         setLoading(true);
         try {
-            const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/auth/register`, {
+            const res = await fetch(`${BACKEND_URL}/auth/register`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
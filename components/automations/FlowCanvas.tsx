@@ -0,0 +1,433 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import {
+    ArrowDownIcon,
+    ArrowUpIcon,
+    ArrowsRightLeftIcon,
+    BoltIcon,
+    CalendarDaysIcon,
+    ClockIcon,
+    EnvelopeIcon,
+    FlagIcon,
+    FunnelIcon,
+    GlobeAltIcon,
+    PencilSquareIcon,
+    PlusIcon,
+    QuestionMarkCircleIcon,
+    StopCircleIcon,
+    TrashIcon,
+    UserMinusIcon,
+    UserPlusIcon,
+} from '@heroicons/react/24/outline';
+import type { AutomationFlow, FlowStep, FlowTrigger } from '@/types/automation-flow';
+import {
+    type ListRef,
+    type StepKind,
+    ROOT,
+    STEP_KINDS,
+    TRIGGER_LABELS,
+    countSteps,
+    createStep,
+    findStep,
+    insertStep,
+    isTerminal,
+    moveStep,
+    removeStep,
+    replaceStep,
+    stepKind,
+    stepLabel,
+} from '@/lib/automation-flow/flow';
+import type { PayloadField } from '@/lib/automation-flow/payload-fields';
+import type { FlowIssue } from '@/lib/automation-flow/validate';
+import { StepInspector, TriggerInspector } from './FlowInspector';
+import { useFlowOptions } from './useFlowOptions';
+
+/* -------------------------------- Types -------------------------------- */
+
+type Props = {
+    hash: string;
+    value: AutomationFlow;
+    onChange: (flow: AutomationFlow) => void;
+    issues: FlowIssue[];
+    /** Step ids (and 'trigger') a simulation went through; the rest are dimmed. */
+    path?: Set<string> | null;
+    /** Fields of a sample trigger payload, offered in condition inspectors. */
+    fields?: PayloadField[];
+};
+
+type Icon = React.ComponentType<{ className?: string }>;
+
+const STEP_ICONS: Record<StepKind | 'unknown', { icon: Icon; color: string }> = {
+    send_email: { icon: EnvelopeIcon, color: 'text-indigo-600' },
+    add_to_list: { icon: UserPlusIcon, color: 'text-emerald-600' },
+    remove_from_list: { icon: UserMinusIcon, color: 'text-rose-600' },
+    update_attribute: { icon: PencilSquareIcon, color: 'text-sky-600' },
+    call_webhook: { icon: GlobeAltIcon, color: 'text-violet-600' },
+    delay: { icon: ClockIcon, color: 'text-amber-600' },
+    wait_until: { icon: CalendarDaysIcon, color: 'text-amber-600' },
+    filter: { icon: FunnelIcon, color: 'text-gray-600' },
+    split: { icon: ArrowsRightLeftIcon, color: 'text-gray-600' },
+    goal: { icon: FlagIcon, color: 'text-emerald-600' },
+    exit: { icon: StopCircleIcon, color: 'text-gray-500' },
+    unknown: { icon: QuestionMarkCircleIcon, color: 'text-gray-400' },
+};
+
+const GROUPS = ['Actions', 'Timing', 'Logic'] as const;
+
+function cx(...xs: Array<string | false | null | undefined>) {
+    return xs.filter(Boolean).join(' ');
+}
+
+function plural(n: number, unit: string): string {
+    return `${n} ${n === 1 ? unit.replace(/s$/, '') : unit}`;
+}
+
+function triggerSummary(t: FlowTrigger): string {
+    switch (t.type) {
+        case 'time':
+            return t.cron ? `CRON ${t.cron}` : 'No schedule';
+        case 'webhook':
+            return 'Incoming HTTP request';
+        case 'event':
+            return t.name || 'No event chosen';
+    }
+}
+
+function stepSummary(s: FlowStep, templates: Map<number, string>, lists: Map<number, string>): string {
+    switch (s.type) {
+        case 'action':
+            switch (s.name) {
+                case 'send_email':
+                    return s.template_id === null ? 'No template chosen' : templates.get(s.template_id) ?? `Template #${s.template_id}`;
+                case 'add_to_list':
+                case 'remove_from_list':
+                    return s.list_id === null ? 'No list chosen' : lists.get(s.list_id) ?? `List #${s.list_id}`;
+                case 'update_attribute':
+                    return s.attribute ? `${s.attribute} = ${s.value || '""'}` : 'No attribute';
+                case 'call_webhook':
+                    return `${s.method} ${s.url}`;
+            }
+            return '';
+        case 'delay':
+            return `Wait ${plural(s.amount, s.unit)}`;
+        case 'wait_until':
+            return `Until ${s.time || '--:--'}${s.weekdays.length ? ` on ${s.weekdays.join(', ')}` : ''}`;
+        case 'filter':
+        case 'split':
+            return s.if || 'No condition';
+        case 'goal':
+            return s.name ? `${s.name}${s.if ? `: ${s.if}` : ''}` : 'Unnamed goal';
+        case 'exit':
+            return 'Leave the flow';
+        case 'unknown':
+            return 'Edit in the JSON view';
+    }
+}
+
+function refKey(ref: ListRef, index: number): string {
+    return ref.parent === null ? `root:${index}` : `${ref.parent}:${ref.branch}:${index}`;
+}
+
+/* ------------------------------ Component ------------------------------ */
+
+/**
+ * Node-graph editor for an automation flow. Pure view over `value`: edits go through
+ * the tree operations in lib/automation-flow/flow and are reported via `onChange`.
+ */
+export default function FlowCanvas({ hash, value: flow, onChange, issues, path, fields }: Props) {
+    const [selected, setSelected] = useState<string>('trigger');
+    const [adding, setAdding] = useState<string | null>(null);
+    const { templates, lists, templateNames, listNames, error: loadErr } = useFlowOptions(hash);
+
+    const issuesByTarget = useMemo(() => {
+        const m = new Map<string, FlowIssue[]>();
+        for (const i of issues) m.set(i.target, [...(m.get(i.target) ?? []), i]);
+        return m;
+    }, [issues]);
+
+    const selectedStep = selected === 'trigger' ? null : findStep(flow, selected)?.step ?? null;
+
+    /* ---------- edits ---------- */
+
+    function add(ref: ListRef, index: number, kind: StepKind) {
+        const step = createStep(kind);
+        onChange(insertStep(flow, ref, index, step));
+        setAdding(null);
+        setSelected(step.id);
+    }
+
+    function remove(step: FlowStep) {
+        if (step.type === 'split') {
+            const nested = countSteps([...step.yes, ...step.no]);
+            if (nested > 0 && !confirm(`Delete this split and the ${nested} step${nested === 1 ? '' : 's'} in its branches?`)) return;
+        }
+        onChange(removeStep(flow, step.id));
+        if (selected === step.id) setSelected('trigger');
+    }
+
+    /* ---------- nodes ---------- */
+
+    function issueLines(target: string) {
+        const xs = issuesByTarget.get(target) ?? [];
+        if (xs.length === 0) return null;
+        return (
+            <ul className="mt-1 space-y-0.5">
+                {xs.map((i) => (
+                    <li key={i.message} className={cx('text-xs', i.severity === 'error' ? 'text-red-600' : 'text-amber-700')}>
+                        {i.message}
+                    </li>
+                ))}
+            </ul>
+        );
+    }
+
+    function nodeCls(target: string) {
+        const xs = issuesByTarget.get(target) ?? [];
+        return cx(
+            'group relative w-64 cursor-pointer rounded-lg border px-3 py-2 text-left shadow-sm transition-all',
+            path?.has(target) ? 'bg-emerald-50' : 'bg-white',
+            path && !path.has(target) && 'opacity-50',
+            selected === target && 'ring-2 ring-indigo-500',
+            xs.some((i) => i.severity === 'error') ? 'border-red-300' : xs.length ? 'border-amber-300' : 'border-gray-200 hover:border-indigo-300',
+        );
+    }
+
+    function addPoint(ref: ListRef, index: number, atEnd: boolean) {
+        const key = refKey(ref, index);
+        const open = adding === key;
+        return (
+            <div className="relative flex flex-col items-center">
+                <div className="h-3 w-px bg-gray-300" />
+                <button
+                    type="button"
+                    title="Add a step"
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        setAdding(open ? null : key);
+                    }}
+                    className={cx(
+                        'flex h-6 w-6 items-center justify-center rounded-full border bg-white text-gray-500 hover:border-indigo-400 hover:text-indigo-600',
+                        open && 'border-indigo-400 text-indigo-600',
+                    )}
+                >
+                    <PlusIcon className="h-3.5 w-3.5" />
+                </button>
+                {open && (
+                    <div className="absolute top-full z-20 mt-1 w-56 rounded-lg border bg-white p-2 shadow-lg" onClick={(e) => e.stopPropagation()}>
+                        {GROUPS.map((g) => (
+                            <div key={g} className="mb-1 last:mb-0">
+                                <div className="px-2 py-1 text-[11px] font-semibold uppercase tracking-wider text-gray-400">{g}</div>
+                                {STEP_KINDS.filter((k) => k.group === g && (atEnd || (k.kind !== 'split' && k.kind !== 'exit'))).map(({ kind, label }) => {
+                                    const { icon: Icon, color } = STEP_ICONS[kind];
+                                    return (
+                                        <button
+                                            key={kind}
+                                            type="button"
+                                            onClick={() => add(ref, index, kind)}
+                                            className="flex w-full items-center gap-2 rounded px-2 py-1 text-sm text-gray-700 hover:bg-gray-50"
+                                        >
+                                            <Icon className={cx('h-4 w-4', color)} />
+                                            {label}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        ))}
+                    </div>
+                )}
+                {!atEnd && <div className="h-3 w-px bg-gray-300" />}
+            </div>
+        );
+    }
+
+    function renderList(steps: FlowStep[], ref: ListRef): React.ReactNode {
+        const last = steps[steps.length - 1];
+        return (
+            <>
+                {steps.map((s, i) => (
+                    <React.Fragment key={s.id}>
+                        {addPoint(ref, i, false)}
+                        {renderStep(s, i, steps.length)}
+                    </React.Fragment>
+                ))}
+                {!(last && isTerminal(last)) && addPoint(ref, steps.length, true)}
+            </>
+        );
+    }
+
+    function renderStep(s: FlowStep, index: number, total: number) {
+        const { icon: Icon, color } = STEP_ICONS[stepKind(s)];
+        return (
+            <div className="flex flex-col items-center">
+                <div
+                    role="button"
+                    tabIndex={0}
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        setSelected(s.id);
+                    }}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') setSelected(s.id);
+                    }}
+                    className={nodeCls(s.id)}
+                >
+                    <div className="absolute right-1 top-1 z-10 hidden items-center gap-0.5 rounded bg-white/90 shadow-sm ring-1 ring-gray-200 group-hover:flex">
+                        <IconButton title="Move up" disabled={index === 0} onClick={() => onChange(moveStep(flow, s.id, -1))}>
+                            <ArrowUpIcon className="h-3.5 w-3.5" />
+                        </IconButton>
+                        <IconButton title="Move down" disabled={index === total - 1 || isTerminal(s)} onClick={() => onChange(moveStep(flow, s.id, 1))}>
+                            <ArrowDownIcon className="h-3.5 w-3.5" />
+                        </IconButton>
+                        <IconButton title="Delete" danger onClick={() => remove(s)}>
+                            <TrashIcon className="h-3.5 w-3.5" />
+                        </IconButton>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Icon className={cx('h-4 w-4 shrink-0', color)} />
+                        <span className="text-sm font-medium text-gray-900">{stepLabel(s)}</span>
+                    </div>
+                    <p className="mt-0.5 truncate font-mono text-xs text-gray-500">{stepSummary(s, templateNames, listNames)}</p>
+                    {issueLines(s.id)}
+                </div>
+
+                {s.type === 'split' && (
+                    <div className="flex items-start gap-6">
+                        {(['yes', 'no'] as const).map((branch) => (
+                            <div key={branch} className="flex flex-col items-center">
+                                <div className="h-3 w-px bg-gray-300" />
+                                <span
+                                    className={cx(
+                                        'rounded-full px-2 py-0.5 text-xs font-medium',
+                                        branch === 'yes' ? 'bg-emerald-50 text-emerald-700' : 'bg-gray-100 text-gray-600',
+                                    )}
+                                >
+                                    {branch === 'yes' ? 'Yes' : 'No'}
+                                </span>
+                                {renderList(s[branch], { parent: s.id, branch })}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        );
+    }
+
+    /* ------------------------------- Render -------------------------------- */
+
+    const errorCount = issues.filter((i) => i.severity === 'error').length;
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-[minmax(0,1fr)_300px] min-h-[560px]">
+            {/* Canvas */}
+            <div className="overflow-auto bg-gray-50 p-6" onClick={() => setAdding(null)}>
+                {loadErr && (
+                    <div className="mx-auto mb-3 max-w-xl rounded-lg bg-amber-50 px-3 py-2 text-xs text-amber-700 ring-1 ring-amber-200">{loadErr}</div>
+                )}
+                <div className="flex min-w-max flex-col items-center">
+                    <div
+                        role="button"
+                        tabIndex={0}
+                        onClick={() => setSelected('trigger')}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') setSelected('trigger');
+                        }}
+                        className={nodeCls('trigger')}
+                    >
+                        <div className="flex items-center gap-2">
+                            <BoltIcon className="h-4 w-4 shrink-0 text-amber-500" />
+                            <span className="text-sm font-medium text-gray-900">Trigger · {TRIGGER_LABELS[flow.trigger.type]}</span>
+                        </div>
+                        <p className="mt-0.5 truncate font-mono text-xs text-gray-500">{triggerSummary(flow.trigger)}</p>
+                        {issueLines('trigger')}
+                    </div>
+                    {renderList(flow.steps, ROOT)}
+                </div>
+            </div>
+
+            {/* Inspector */}
+            <aside className="border-t lg:border-t-0 lg:border-l border-gray-200 bg-white p-4 space-y-6 overflow-y-auto">
+                <div>
+                    <div className="flex items-center justify-between mb-4">
+                        <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                            {selectedStep ? stepLabel(selectedStep) : 'Trigger'}
+                        </h4>
+                        {selectedStep && (
+                            <button type="button" onClick={() => setSelected('trigger')} className="text-xs text-indigo-600 hover:text-indigo-700">
+                                Trigger
+                            </button>
+                        )}
+                    </div>
+                    {selectedStep ? (
+                        <StepInspector
+                            step={selectedStep}
+                            templates={templates}
+                            lists={lists}
+                            fields={fields}
+                            onChange={(s) => onChange(replaceStep(flow, s))}
+                        />
+                    ) : (
+                        <TriggerInspector trigger={flow.trigger} onChange={(trigger) => onChange({ ...flow, trigger })} />
+                    )}
+                </div>
+
+                <div>
+                    <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Checks</h4>
+                    {issues.length === 0 ? (
+                        <p className="text-sm text-green-700">Looks good!</p>
+                    ) : (
+                        <>
+                            <p className="mb-2 text-xs text-gray-500">
+                                {errorCount ? `${errorCount} error${errorCount === 1 ? '' : 's'} must be fixed before saving.` : 'Only warnings; the flow can be saved.'}
+                            </p>
+                            <ul className="space-y-1">
+                                {issues.map((i, n) => {
+                                    const step = i.target === 'trigger' ? null : findStep(flow, i.target)?.step;
+                                    return (
+                                        <li key={n}>
+                                            <button
+                                                type="button"
+                                                onClick={() => setSelected(step ? i.target : 'trigger')}
+                                                className={cx('text-left text-xs hover:underline', i.severity === 'error' ? 'text-red-600' : 'text-amber-700')}
+                                            >
+                                                <span className="font-medium">{step ? stepLabel(step) : 'Trigger'}:</span> {i.message}
+                                            </button>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        </>
+                    )}
+                </div>
+            </aside>
+        </div>
+    );
+}
+
+/* ----------------------------- Subcomponents ---------------------------- */
+
+function IconButton({ title, onClick, disabled, danger, children }: {
+    title: string;
+    onClick: () => void;
+    disabled?: boolean;
+    danger?: boolean;
+    children: React.ReactNode;
+}) {
+    return (
+        <button
+            type="button"
+            title={title}
+            disabled={disabled}
+            onClick={(e) => {
+                e.stopPropagation();
+                onClick();
+            }}
+            className={cx(
+                'rounded p-1 disabled:opacity-30 disabled:cursor-not-allowed',
+                danger ? 'text-gray-500 hover:bg-red-50 hover:text-red-600' : 'text-gray-500 hover:bg-gray-100 hover:text-gray-900',
+            )}
+        >
+            {children}
+        </button>
+    );
+}
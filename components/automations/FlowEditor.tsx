@@ -0,0 +1,113 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { ReactCodeMirrorProps } from '@uiw/react-codemirror';
+import type { AutomationFlow } from '@/types/automation-flow';
+import { parseFlow, toFlowJson } from '@/lib/automation-flow/flow';
+import type { PayloadField } from '@/lib/automation-flow/payload-fields';
+import type { FlowIssue } from '@/lib/automation-flow/validate';
+import FlowCanvas from './FlowCanvas';
+
+/* -------------------- Lazy CodeMirror (no SSR) -------------------- */
+let CodeMirror: React.ComponentType<ReactCodeMirrorProps> | null = null;
+if (typeof window !== 'undefined') {
+    void import('@uiw/react-codemirror').then((m) => {
+        CodeMirror = m.default as React.ComponentType<ReactCodeMirrorProps>;
+    });
+}
+
+type View = 'canvas' | 'json';
+
+type Props = {
+    hash: string;
+    value: AutomationFlow;
+    onChange: (flow: AutomationFlow) => void;
+    issues: FlowIssue[];
+    /** Set while the JSON view holds text that does not parse; the canvas keeps the last valid flow. */
+    jsonError: string | null;
+    onJsonError: (err: string | null) => void;
+    /** Rendered next to the view switch. */
+    actions?: React.ReactNode;
+    /** Highlights a simulated path on the canvas. */
+    path?: Set<string> | null;
+    /** Sample payload fields for condition pickers. */
+    fields?: PayloadField[];
+};
+
+function stringify(flow: AutomationFlow): string {
+    return JSON.stringify(toFlowJson(flow), null, 2);
+}
+
+/** Canvas and raw JSON views over the same flow. */
+export default function FlowEditor({ hash, value, onChange, issues, jsonError, onJsonError, actions, path, fields }: Props) {
+    const [view, setView] = useState<View>('canvas');
+    const [text, setText] = useState(() => stringify(value));
+    // The flow last produced from `text`; anything else reaching `value` rewrites the text
+    const fromText = useRef<AutomationFlow | null>(null);
+
+    useEffect(() => {
+        if (value === fromText.current) return;
+        setText(stringify(value));
+        onJsonError(null);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [value]);
+
+    function editText(next: string) {
+        setText(next);
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(next || '{}');
+        } catch {
+            return onJsonError('Flow is not valid JSON.');
+        }
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return onJsonError('Flow must be a JSON object.');
+        onJsonError(null);
+        const flow = parseFlow(parsed);
+        fromText.current = flow;
+        onChange(flow);
+    }
+
+    return (
+        <div className="bg-white border rounded-lg overflow-hidden">
+            <div className="p-3 border-b flex items-center justify-between gap-3">
+                <div className="inline-flex rounded-lg bg-gray-100 p-1">
+                    {(['canvas', 'json'] as View[]).map((v) => (
+                        <button
+                            key={v}
+                            type="button"
+                            onClick={() => setView(v)}
+                            disabled={v === 'canvas' && !!jsonError}
+                            title={v === 'canvas' && jsonError ? 'Fix the JSON first' : undefined}
+                            className={
+                                'rounded px-3 py-1 text-xs font-medium transition-all disabled:opacity-50 ' +
+                                (view === v ? 'bg-white shadow-sm text-gray-900' : 'text-gray-600 hover:text-gray-900')
+                            }
+                        >
+                            {v === 'canvas' ? 'Canvas' : 'JSON'}
+                        </button>
+                    ))}
+                </div>
+                {actions}
+            </div>
+
+            {view === 'canvas' ? (
+                <FlowCanvas hash={hash} value={value} onChange={onChange} issues={issues} path={path} fields={fields} />
+            ) : (
+                <div>
+                    {jsonError && <div className="px-3 py-2 text-sm text-red-600 bg-rose-50 border-b">Flow JSON error: {jsonError}</div>}
+                    {CodeMirror ? (
+                        <CodeMirror value={text} height="560px" onChange={editText} />
+                    ) : (
+                        <textarea
+                            value={text}
+                            onChange={(e) => editText(e.target.value)}
+                            rows={24}
+                            className={'w-full px-3 py-2 font-mono text-sm outline-none' + (jsonError ? ' bg-rose-50' : '')}
+                            placeholder='{"trigger":{"type":"time","cron":"0 9 * * *"},"steps":[]}'
+                        />
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,336 @@
+'use client';
+
+import React from 'react';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+import type { DelayUnit, FlowStep, FlowTrigger, WaitUntilStep } from '@/types/automation-flow';
+import { validateCondition } from '@/lib/automation-flow/condition';
+import { randomSecret } from '@/lib/automation-flow/flow';
+import { type PayloadField, fieldCondition, previewValue } from '@/lib/automation-flow/payload-fields';
+
+export type Option = { id: number; name: string };
+
+const WEEKDAYS: Array<{ code: WaitUntilStep['weekdays'][number]; label: string }> = [
+    { code: 'MO', label: 'Mon' },
+    { code: 'TU', label: 'Tue' },
+    { code: 'WE', label: 'Wed' },
+    { code: 'TH', label: 'Thu' },
+    { code: 'FR', label: 'Fri' },
+    { code: 'SA', label: 'Sat' },
+    { code: 'SU', label: 'Sun' },
+];
+
+const DELAY_UNITS: DelayUnit[] = ['minutes', 'hours', 'days'];
+
+const EVENT_SUGGESTIONS = ['contact.created', 'contact.updated', 'contact.unsubscribed', 'list.subscribed', 'email.opened', 'email.clicked'];
+
+/* ------------------------------ Fields ------------------------------ */
+
+const inputCls = 'w-full rounded-lg border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+function Field({ label, hint, children }: { label: string; hint?: string; children: React.ReactNode }) {
+    return (
+        <label className="block">
+            <span className="block text-xs font-medium text-gray-600 mb-1">{label}</span>
+            {children}
+            {hint && <span className="mt-1 block text-xs text-gray-400">{hint}</span>}
+        </label>
+    );
+}
+
+function TextField({ label, value, onChange, placeholder, hint, mono }: {
+    label: string;
+    value: string;
+    onChange: (v: string) => void;
+    placeholder?: string;
+    hint?: string;
+    mono?: boolean;
+}) {
+    return (
+        <Field label={label} hint={hint}>
+            <input value={value} onChange={(e) => onChange(e.target.value)} placeholder={placeholder} className={inputCls + (mono ? ' font-mono' : '')} />
+        </Field>
+    );
+}
+
+function OptionField({ label, value, options, onChange, empty }: {
+    label: string;
+    value: number | null;
+    options: Option[];
+    onChange: (v: number | null) => void;
+    empty: string;
+}) {
+    const known = value === null || options.some((o) => o.id === value);
+    return (
+        <Field label={label}>
+            <select value={value ?? ''} onChange={(e) => onChange(e.target.value ? Number(e.target.value) : null)} className={inputCls}>
+                <option value="">{empty}</option>
+                {!known && <option value={value ?? ''}>#{value}</option>}
+                {options.map((o) => (
+                    <option key={o.id} value={o.id}>
+                        {o.name}
+                    </option>
+                ))}
+            </select>
+        </Field>
+    );
+}
+
+function ConditionField({ label, value, onChange, fields }: {
+    label: string;
+    value: string;
+    onChange: (v: string) => void;
+    /** Fields of a sample payload; picking one appends a test on it. */
+    fields?: PayloadField[];
+}) {
+    const error = value.trim() ? validateCondition(value) : null;
+
+    function pick(i: string) {
+        const f = fields?.[Number(i)];
+        if (!f) return;
+        const cond = fieldCondition(f);
+        onChange(value.trim() ? `${value.trim()} and ${cond}` : cond);
+    }
+
+    return (
+        <Field label={label} hint={error ? undefined : 'Paths start with payload. or contact.; use == != > >= < <= contains, and, or, not.'}>
+            <textarea
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+                rows={3}
+                placeholder='payload.event == "signup"'
+                className={inputCls + ' font-mono' + (error ? ' border-red-300' : '')}
+            />
+            {error && <span className="mt-1 block text-xs text-red-600">{error}</span>}
+            {fields && fields.length > 0 && (
+                <select value="" onChange={(e) => pick(e.target.value)} className={inputCls + ' mt-2 font-mono text-xs'}>
+                    <option value="">Insert a payload field…</option>
+                    {fields.map((f, i) => (
+                        <option key={f.jsonPath} value={i}>
+                            {f.jsonPath} · {previewValue(f.sample)}
+                        </option>
+                    ))}
+                </select>
+            )}
+        </Field>
+    );
+}
+
+/* ------------------------------ Trigger ----------------------------- */
+
+export function TriggerInspector({ trigger, onChange }: { trigger: FlowTrigger; onChange: (t: FlowTrigger) => void }) {
+    switch (trigger.type) {
+        case 'time':
+            return (
+                <div className="space-y-4">
+                    <TextField
+                        label="CRON"
+                        value={trigger.cron}
+                        mono
+                        placeholder="0 9 * * *"
+                        hint="minute hour day month weekday, e.g. 0 9 * * 1-5 for weekdays at 09:00."
+                        onChange={(cron) => onChange({ ...trigger, cron })}
+                    />
+                </div>
+            );
+        case 'webhook':
+            return (
+                <div className="space-y-4">
+                    <Field label="Secret" hint="Callers sign requests with this; the trigger URL is shown on the automation page once saved.">
+                        <div className="flex items-center gap-2">
+                            <input value={trigger.secret} onChange={(e) => onChange({ ...trigger, secret: e.target.value })} className={inputCls + ' font-mono'} />
+                            <button
+                                type="button"
+                                title="Generate a new secret"
+                                onClick={() => onChange({ ...trigger, secret: randomSecret() })}
+                                className="shrink-0 rounded border p-2 text-gray-600 hover:bg-gray-50"
+                            >
+                                <ArrowPathIcon className="h-4 w-4" />
+                            </button>
+                        </div>
+                    </Field>
+                </div>
+            );
+        case 'event':
+            return (
+                <div className="space-y-4">
+                    <Field label="Event name">
+                        <input
+                            value={trigger.name}
+                            onChange={(e) => onChange({ ...trigger, name: e.target.value })}
+                            list="automation-events"
+                            placeholder="contact.created"
+                            className={inputCls + ' font-mono'}
+                        />
+                        <datalist id="automation-events">
+                            {EVENT_SUGGESTIONS.map((e) => (
+                                <option key={e} value={e} />
+                            ))}
+                        </datalist>
+                    </Field>
+                </div>
+            );
+    }
+}
+
+/* ------------------------------- Step ------------------------------- */
+
+export function StepInspector({ step, onChange, templates, lists, fields }: {
+    step: FlowStep;
+    onChange: (s: FlowStep) => void;
+    templates: Option[];
+    lists: Option[];
+    fields?: PayloadField[];
+}) {
+    switch (step.type) {
+        case 'action':
+            switch (step.name) {
+                case 'send_email':
+                    return (
+                        <div className="space-y-4">
+                            <OptionField
+                                label="Template"
+                                value={step.template_id}
+                                options={templates}
+                                empty="Choose a template…"
+                                onChange={(template_id) => onChange({ ...step, template_id })}
+                            />
+                            <TextField
+                                label="Subject"
+                                value={step.subject ?? ''}
+                                placeholder="Template subject"
+                                hint="Leave empty to use the template's subject."
+                                onChange={(subject) => onChange({ ...step, subject: subject || null })}
+                            />
+                        </div>
+                    );
+                case 'add_to_list':
+                case 'remove_from_list':
+                    return (
+                        <div className="space-y-4">
+                            <OptionField label="List" value={step.list_id} options={lists} empty="Choose a list…" onChange={(list_id) => onChange({ ...step, list_id })} />
+                        </div>
+                    );
+                case 'update_attribute':
+                    return (
+                        <div className="space-y-4">
+                            <TextField label="Attribute" value={step.attribute} mono placeholder="plan" onChange={(attribute) => onChange({ ...step, attribute })} />
+                            <TextField
+                                label="Value"
+                                value={step.value}
+                                placeholder="pro"
+                                hint="Merge tags such as {{payload.plan}} are resolved when the step runs."
+                                onChange={(value) => onChange({ ...step, value })}
+                            />
+                        </div>
+                    );
+                case 'call_webhook':
+                    return (
+                        <div className="space-y-4">
+                            <TextField label="URL" value={step.url} placeholder="https://…" onChange={(url) => onChange({ ...step, url })} />
+                            <Field label="Method" hint="POST sends the contact and trigger payload as JSON.">
+                                <select value={step.method} onChange={(e) => onChange({ ...step, method: e.target.value as 'POST' | 'GET' })} className={inputCls}>
+                                    <option value="POST">POST</option>
+                                    <option value="GET">GET</option>
+                                </select>
+                            </Field>
+                        </div>
+                    );
+            }
+            return null;
+
+        case 'delay':
+            return (
+                <div className="space-y-4">
+                    <div className="grid grid-cols-2 gap-2">
+                        <Field label="Wait">
+                            <input
+                                type="number"
+                                min={1}
+                                value={step.amount}
+                                onChange={(e) => onChange({ ...step, amount: Number(e.target.value) })}
+                                className={inputCls}
+                            />
+                        </Field>
+                        <Field label="Unit">
+                            <select value={step.unit} onChange={(e) => onChange({ ...step, unit: e.target.value as DelayUnit })} className={inputCls}>
+                                {DELAY_UNITS.map((u) => (
+                                    <option key={u} value={u}>
+                                        {u}
+                                    </option>
+                                ))}
+                            </select>
+                        </Field>
+                    </div>
+                </div>
+            );
+
+        case 'wait_until':
+            return (
+                <div className="space-y-4">
+                    <Field label="Time" hint="In the contact's timezone.">
+                        <input type="time" value={step.time} onChange={(e) => onChange({ ...step, time: e.target.value })} className={inputCls} />
+                    </Field>
+                    <Field label="Days" hint="None selected means any day.">
+                        <div className="flex flex-wrap gap-1">
+                            {WEEKDAYS.map(({ code, label }) => {
+                                const on = step.weekdays.includes(code);
+                                return (
+                                    <button
+                                        key={code}
+                                        type="button"
+                                        onClick={() =>
+                                            onChange({
+                                                ...step,
+                                                weekdays: on ? step.weekdays.filter((d) => d !== code) : WEEKDAYS.map((w) => w.code).filter((d) => d === code || step.weekdays.includes(d)),
+                                            })
+                                        }
+                                        className={
+                                            'rounded px-2 py-1 text-xs font-medium ring-1 ' +
+                                            (on ? 'bg-indigo-600 text-white ring-indigo-600' : 'bg-white text-gray-700 ring-gray-300 hover:bg-gray-50')
+                                        }
+                                    >
+                                        {label}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </Field>
+                </div>
+            );
+
+        case 'filter':
+            return (
+                <div className="space-y-4">
+                    <ConditionField label="Continue only if" value={step.if} fields={fields} onChange={(v) => onChange({ ...step, if: v })} />
+                </div>
+            );
+
+        case 'split':
+            return (
+                <div className="space-y-4">
+                    <ConditionField label="Condition" value={step.if} fields={fields} onChange={(v) => onChange({ ...step, if: v })} />
+                    <p className="text-xs text-gray-500">Contacts matching the condition take the Yes branch, the rest take No.</p>
+                </div>
+            );
+
+        case 'goal':
+            return (
+                <div className="space-y-4">
+                    <TextField label="Goal name" value={step.name} placeholder="Upgraded" onChange={(name) => onChange({ ...step, name })} />
+                    <ConditionField label="Reached when" value={step.if} fields={fields} onChange={(v) => onChange({ ...step, if: v })} />
+                    <p className="text-xs text-gray-500">Contacts who reach the goal leave the flow and count as converted; the rest continue.</p>
+                </div>
+            );
+
+        case 'exit':
+            return <p className="text-sm text-gray-500">Contacts leave the flow here.</p>;
+
+        case 'unknown':
+            return (
+                <div className="space-y-2">
+                    <p className="text-sm text-gray-500">This step type has no editor. Change it in the JSON view; it is saved as is.</p>
+                    <pre className="max-h-64 overflow-auto rounded bg-gray-50 p-2 text-xs">{JSON.stringify(step.raw, null, 2)}</pre>
+                </div>
+            );
+    }
+}
@@ -0,0 +1,261 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { ArrowPathIcon, BeakerIcon, MagnifyingGlassIcon, PlayIcon } from '@heroicons/react/24/outline';
+import { api, errorMessage } from '@/lib/api';
+import { browserTimeZone } from '@/lib/send-time';
+import {
+    type SimEffect,
+    type SimEnd,
+    type SimResult,
+    type TraceOutcome,
+    SIM_END_LABELS,
+    formatOffset,
+    sampleContact,
+    samplePayload,
+    simulateFlow,
+} from '@/lib/automation-flow/simulate';
+import type { AutomationFlow } from '@/types/automation-flow';
+import { useFlowOptions } from './useFlowOptions';
+
+type Props = {
+    hash: string;
+    flow: AutomationFlow;
+    /** True while the flow cannot be simulated (e.g. invalid JSON). */
+    disabled?: boolean;
+    /** Reports the step ids of the last run, or null when it is cleared. */
+    onPath: (ids: Set<string> | null) => void;
+};
+
+const OUTCOME_BADGE: Record<TraceOutcome, string> = {
+    ran: 'bg-indigo-50 text-indigo-700',
+    passed: 'bg-emerald-50 text-emerald-700',
+    yes: 'bg-emerald-50 text-emerald-700',
+    no: 'bg-gray-100 text-gray-600',
+    waited: 'bg-amber-50 text-amber-800',
+    converted: 'bg-emerald-100 text-emerald-800',
+    stopped: 'bg-rose-50 text-rose-700',
+    skipped: 'bg-gray-100 text-gray-500',
+    error: 'bg-red-100 text-red-700',
+};
+
+const END_BADGE: Record<SimEnd, string> = {
+    completed: 'bg-emerald-50 text-emerald-700',
+    goal: 'bg-emerald-50 text-emerald-700',
+    exit: 'bg-gray-100 text-gray-700',
+    filtered: 'bg-amber-50 text-amber-800',
+    not_triggered: 'bg-amber-50 text-amber-800',
+    error: 'bg-red-50 text-red-700',
+};
+
+const inputCls = 'w-full rounded-lg border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+function pretty(v: unknown): string {
+    return JSON.stringify(v, null, 2);
+}
+
+function parseObject(text: string, what: string): Record<string, unknown> {
+    let v: unknown;
+    try {
+        v = JSON.parse(text || '{}');
+    } catch {
+        throw new Error(`${what} is not valid JSON.`);
+    }
+    if (!v || typeof v !== 'object' || Array.isArray(v)) throw new Error(`${what} must be a JSON object.`);
+    return v as Record<string, unknown>;
+}
+
+/** Runs the current (unsaved) flow locally against a sample contact and trigger payload. */
+export default function FlowSimulator({ hash, flow, disabled, onPath }: Props) {
+    const { templateNames, listNames } = useFlowOptions(hash);
+    const [contactText, setContactText] = useState(() => pretty(sampleContact(browserTimeZone())));
+    const [payloadText, setPayloadText] = useState(() => pretty(samplePayload(flow.trigger)));
+    const [email, setEmail] = useState('');
+    const [looking, setLooking] = useState(false);
+    const [result, setResult] = useState<SimResult | null>(null);
+    const [err, setErr] = useState<string | null>(null);
+
+    const triggerType = flow.trigger.type;
+    useEffect(() => {
+        setPayloadText(pretty(samplePayload(flow.trigger)));
+        // only a different kind of trigger calls for a different sample
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [triggerType]);
+
+    // A result describes the flow it ran on; drop it once the flow is edited
+    useEffect(() => {
+        setResult(null);
+        onPath(null);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [flow]);
+
+    async function lookup(e: React.FormEvent) {
+        e.preventDefault();
+        if (!email.trim()) return;
+        setLooking(true);
+        setErr(null);
+        try {
+            setContactText(pretty(await api.contacts.lookup(hash, email.trim())));
+        } catch (e) {
+            setErr(errorMessage(e));
+        } finally {
+            setLooking(false);
+        }
+    }
+
+    function run() {
+        setErr(null);
+        try {
+            const r = simulateFlow(flow, {
+                contact: parseObject(contactText, 'Contact'),
+                payload: parseObject(payloadText, 'Payload'),
+                start: Date.now(),
+                timezone: browserTimeZone(),
+            });
+            setResult(r);
+            onPath(new Set(r.trace.map((t) => t.stepId)));
+        } catch (e) {
+            setErr(errorMessage(e));
+            setResult(null);
+            onPath(null);
+        }
+    }
+
+    function effectLine(e: SimEffect): string {
+        switch (e.kind) {
+            case 'email':
+                return `Email “${e.template_id === null ? 'no template' : templateNames.get(e.template_id) ?? `Template #${e.template_id}`}”${e.subject ? ` with subject “${e.subject}”` : ''}`;
+            case 'list': {
+                const name = e.list_id === null ? 'no list' : listNames.get(e.list_id) ?? `List #${e.list_id}`;
+                return e.op === 'add' ? `Add to “${name}”` : `Remove from “${name}”`;
+            }
+            case 'attribute':
+                return `Set ${e.attribute} = “${e.value}”`;
+            case 'webhook':
+                return `${e.method} ${e.url}`;
+        }
+    }
+
+    return (
+        <div className="bg-white border rounded-lg overflow-hidden">
+            <div className="p-3 border-b flex items-center justify-between">
+                <h2 className="text-lg font-semibold inline-flex items-center gap-2">
+                    <BeakerIcon className="h-5 w-5 text-gray-500" /> Simulator
+                </h2>
+                <span className="text-sm text-gray-600">Dry run in the browser · nothing is sent or changed</span>
+            </div>
+
+            <div className="grid lg:grid-cols-2 lg:divide-x">
+                {/* Inputs */}
+                <div className="p-4 space-y-4">
+                    <form onSubmit={lookup} className="flex items-center gap-2">
+                        <input
+                            type="email"
+                            value={email}
+                            onChange={(e) => setEmail(e.target.value)}
+                            placeholder="Load a contact by email"
+                            className={inputCls}
+                        />
+                        <button
+                            type="submit"
+                            disabled={looking || !email.trim()}
+                            className="inline-flex shrink-0 items-center gap-1 rounded-lg bg-white px-3 py-1.5 text-sm font-medium text-gray-700 ring-1 ring-gray-200 hover:bg-gray-50 disabled:opacity-50"
+                        >
+                            <MagnifyingGlassIcon className="h-4 w-4" />
+                            {looking ? 'Loading…' : 'Load'}
+                        </button>
+                    </form>
+
+                    <label className="block">
+                        <span className="flex items-center justify-between text-xs font-medium text-gray-600 mb-1">
+                            Contact
+                            <button
+                                type="button"
+                                onClick={() => setContactText(pretty(sampleContact(browserTimeZone())))}
+                                className="inline-flex items-center gap-1 text-indigo-600 hover:text-indigo-700"
+                            >
+                                <ArrowPathIcon className="h-3.5 w-3.5" /> Sample
+                            </button>
+                        </span>
+                        <textarea value={contactText} onChange={(e) => setContactText(e.target.value)} rows={10} className={inputCls + ' font-mono text-xs'} />
+                    </label>
+
+                    <label className="block">
+                        <span className="flex items-center justify-between text-xs font-medium text-gray-600 mb-1">
+                            Trigger payload
+                            <button
+                                type="button"
+                                onClick={() => setPayloadText(pretty(samplePayload(flow.trigger)))}
+                                className="inline-flex items-center gap-1 text-indigo-600 hover:text-indigo-700"
+                            >
+                                <ArrowPathIcon className="h-3.5 w-3.5" /> Sample
+                            </button>
+                        </span>
+                        <textarea value={payloadText} onChange={(e) => setPayloadText(e.target.value)} rows={7} className={inputCls + ' font-mono text-xs'} />
+                        <span className="mt-1 block text-xs text-gray-400">Conditions read it as payload.*, and the contact as contact.*.</span>
+                    </label>
+
+                    <div className="flex items-center gap-3">
+                        <button
+                            type="button"
+                            onClick={run}
+                            disabled={disabled}
+                            className="inline-flex items-center px-3 py-1.5 rounded border hover:bg-gray-50 text-sm disabled:opacity-60"
+                        >
+                            <PlayIcon className="h-4 w-4 mr-1" /> Simulate
+                        </button>
+                        {err && <span className="text-sm text-red-600">{err}</span>}
+                    </div>
+                </div>
+
+                {/* Result */}
+                <div className="p-4 space-y-4">
+                    {!result ? (
+                        <p className="py-10 text-center text-sm text-gray-500">Run a simulation to see the path the contact takes.</p>
+                    ) : (
+                        <>
+                            <div className="flex flex-wrap items-center gap-2 text-sm">
+                                <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${END_BADGE[result.end]}`}>{SIM_END_LABELS[result.end]}</span>
+                                <span className="text-gray-600">
+                                    Time in flow: <span className="font-medium">{formatOffset(result.endedAt - result.startedAt)}</span>
+                                </span>
+                            </div>
+
+                            <div>
+                                <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Path</h3>
+                                <ol className="space-y-1.5">
+                                    {result.trace.map((t, i) => (
+                                        <li key={i} className="flex items-start gap-2 text-sm" style={{ paddingLeft: t.depth * 16 }}>
+                                            <span className="w-16 shrink-0 text-right text-xs tabular-nums text-gray-500">{formatOffset(t.at - result.startedAt)}</span>
+                                            <span className={`shrink-0 rounded px-1.5 py-0.5 text-[11px] font-medium ${OUTCOME_BADGE[t.outcome]}`}>{t.outcome}</span>
+                                            <span className="min-w-0">
+                                                <span className="font-medium text-gray-900">{t.label}</span>
+                                                <span className="block break-words font-mono text-xs text-gray-500">{t.detail}</span>
+                                            </span>
+                                        </li>
+                                    ))}
+                                </ol>
+                            </div>
+
+                            <div>
+                                <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Would happen</h3>
+                                {result.effects.length === 0 ? (
+                                    <p className="text-sm text-gray-500">No emails, list changes, attribute updates or webhook calls.</p>
+                                ) : (
+                                    <ul className="space-y-1 text-sm">
+                                        {result.effects.map((e, i) => (
+                                            <li key={i} className="flex gap-2">
+                                                <span className="w-16 shrink-0 text-right text-xs tabular-nums text-gray-500">{formatOffset(e.at - result.startedAt)}</span>
+                                                <span className="text-gray-800">{effectLine(e)}</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
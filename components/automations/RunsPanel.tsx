@@ -0,0 +1,410 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { ArrowPathIcon, ArrowUturnRightIcon, ChevronDownIcon, ChevronRightIcon, ClockIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { api, errorMessage, isAbortError } from '@/lib/api';
+import { findStep, stepLabel } from '@/lib/automation-flow/flow';
+import type { AutomationFlow } from '@/types/automation-flow';
+import type {
+    ApiPaged,
+    AutomationRun,
+    AutomationRunContact,
+    AutomationRunStatus,
+    AutomationWaitingCount,
+    RunContactAction,
+    RunContactStatus,
+    StepLogStatus,
+} from '@/types/api';
+
+type Props = {
+    hash: string;
+    automationId: number;
+    /** Current flow, used to name the steps in logs. */
+    flow: AutomationFlow;
+};
+
+const PER_PAGE = 20;
+
+const RUN_BADGE: Record<AutomationRunStatus, string> = {
+    running: 'bg-blue-50 text-blue-700',
+    completed: 'bg-emerald-50 text-emerald-700',
+    failed: 'bg-red-50 text-red-700',
+    cancelled: 'bg-gray-100 text-gray-600',
+};
+
+const CONTACT_BADGE: Record<RunContactStatus, string> = {
+    running: 'bg-blue-50 text-blue-700',
+    waiting: 'bg-amber-50 text-amber-800',
+    completed: 'bg-emerald-50 text-emerald-700',
+    converted: 'bg-emerald-100 text-emerald-800',
+    exited: 'bg-gray-100 text-gray-600',
+    failed: 'bg-red-50 text-red-700',
+    cancelled: 'bg-gray-100 text-gray-500',
+};
+
+const LOG_BADGE: Record<StepLogStatus, string> = {
+    ok: 'bg-emerald-50 text-emerald-700',
+    skipped: 'bg-gray-100 text-gray-500',
+    waiting: 'bg-amber-50 text-amber-800',
+    failed: 'bg-red-50 text-red-700',
+};
+
+const CONTACT_FILTERS: Array<{ value: RunContactStatus | ''; label: string }> = [
+    { value: '', label: 'All contacts' },
+    { value: 'failed', label: 'Failed' },
+    { value: 'waiting', label: 'Waiting' },
+    { value: 'running', label: 'Running' },
+    { value: 'completed', label: 'Completed' },
+    { value: 'converted', label: 'Converted' },
+    { value: 'exited', label: 'Exited' },
+    { value: 'cancelled', label: 'Cancelled' },
+];
+
+/** Which per-contact controls apply in each status. */
+const CONTACT_ACTIONS: Record<RunContactStatus, RunContactAction[]> = {
+    running: ['cancel'],
+    waiting: ['cancel'],
+    failed: ['retry'],
+    completed: [],
+    converted: [],
+    exited: [],
+    cancelled: [],
+};
+
+function toLocale(iso: string | null) {
+    return iso ? new Date(iso).toLocaleString() : '—';
+}
+
+function duration(from: string | null, to: string | null): string {
+    if (!from || !to) return '—';
+    const s = Math.max(0, Math.round((Date.parse(to) - Date.parse(from)) / 1000));
+    if (s < 60) return `${s}s`;
+    if (s < 3600) return `${Math.floor(s / 60)}m ${s % 60}s`;
+    if (s < 86_400) return `${Math.floor(s / 3600)}h ${Math.floor((s % 3600) / 60)}m`;
+    return `${Math.floor(s / 86_400)}d ${Math.floor((s % 86_400) / 3600)}h`;
+}
+
+function payloadPreview(p: Record<string, unknown> | null): string {
+    if (!p) return '—';
+    const s = JSON.stringify(p);
+    return s.length > 60 ? `${s.slice(0, 60)}…` : s;
+}
+
+function Pager({ meta, onPage }: { meta: ApiPaged<unknown>['meta']; onPage: (page: number) => void }) {
+    if (meta.totalPages <= 1) return null;
+    return (
+        <div className="flex items-center justify-between border-t px-3 py-2 text-sm">
+            <span className="text-gray-600">
+                Page <span className="font-medium">{meta.page}</span> of <span className="font-medium">{meta.totalPages}</span> · {meta.total.toLocaleString()}
+            </span>
+            <div className="flex items-center gap-2">
+                <button
+                    type="button"
+                    onClick={() => onPage(meta.page - 1)}
+                    disabled={meta.page <= 1}
+                    className="px-3 py-1.5 rounded border border-gray-300 disabled:opacity-50 hover:bg-gray-50 text-sm"
+                >
+                    Previous
+                </button>
+                <button
+                    type="button"
+                    onClick={() => onPage(meta.page + 1)}
+                    disabled={meta.page >= meta.totalPages}
+                    className="px-3 py-1.5 rounded border border-gray-300 disabled:opacity-50 hover:bg-gray-50 text-sm"
+                >
+                    Next
+                </button>
+            </div>
+        </div>
+    );
+}
+
+/** Execution history: contacts waiting in delays, each run of the trigger, and per-contact step logs. */
+export default function RunsPanel({ hash, automationId, flow }: Props) {
+    const [page, setPage] = useState(1);
+    const [runs, setRuns] = useState<ApiPaged<AutomationRun> | null>(null);
+    const [waiting, setWaiting] = useState<AutomationWaitingCount[] | null>(null);
+    const [selected, setSelected] = useState<number | null>(null);
+    const [version, setVersion] = useState(0);
+    const [loading, setLoading] = useState(false);
+    const [err, setErr] = useState<string | null>(null);
+
+    useEffect(() => {
+        const ctrl = new AbortController();
+        setLoading(true);
+        Promise.all([
+            api.automations.runs(hash, automationId, { signal: ctrl.signal, query: { page, perPage: PER_PAGE } }),
+            api.automations.waiting(hash, automationId, { signal: ctrl.signal }),
+        ])
+            .then(([r, w]) => {
+                setRuns(r);
+                setWaiting(w);
+                setErr(null);
+            })
+            .catch((e) => {
+                if (!isAbortError(e)) setErr(errorMessage(e));
+            })
+            .finally(() => {
+                if (!ctrl.signal.aborted) setLoading(false);
+            });
+        return () => ctrl.abort();
+    }, [hash, automationId, page, version]);
+
+    /** Names a step from the current flow; steps removed since the run fall back to the logged type. */
+    const label = (stepId: string | null, fallback?: string) => {
+        if (!stepId) return '—';
+        const found = findStep(flow, stepId);
+        return found ? stepLabel(found.step) : fallback ?? `Removed step (${stepId})`;
+    };
+
+    const run = runs?.items.find((r) => r.id === selected) ?? null;
+    const totalWaiting = waiting?.reduce((n, w) => n + w.count, 0) ?? 0;
+
+    return (
+        <div className="space-y-6">
+            {/* Waiting */}
+            <div className="bg-white border rounded-lg overflow-hidden">
+                <div className="p-3 border-b flex items-center justify-between">
+                    <h2 className="text-lg font-semibold">Waiting in delays</h2>
+                    <span className="text-sm text-gray-600">{totalWaiting.toLocaleString()} contacts</span>
+                </div>
+                {!waiting || waiting.length === 0 ? (
+                    <p className="p-4 text-sm text-gray-500">{waiting ? 'No contacts are waiting.' : 'Loading…'}</p>
+                ) : (
+                    <div className="grid gap-3 p-3 sm:grid-cols-2 lg:grid-cols-4">
+                        {waiting.map((w) => (
+                            <div key={w.step_id} className="rounded border p-3">
+                                <div className="flex items-center gap-1 text-xs text-gray-500">
+                                    <ClockIcon className="h-3.5 w-3.5" /> {label(w.step_id)}
+                                </div>
+                                <div className="mt-1 text-xl font-semibold tabular-nums">{w.count.toLocaleString()}</div>
+                                <div className="text-xs text-gray-500">Next release: {toLocale(w.next_release_at)}</div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Runs */}
+            <div className="bg-white border rounded-lg overflow-hidden">
+                <div className="p-3 border-b flex items-center justify-between">
+                    <h2 className="text-lg font-semibold">Runs</h2>
+                    <button
+                        type="button"
+                        onClick={() => setVersion((v) => v + 1)}
+                        disabled={loading}
+                        className="inline-flex items-center gap-1 rounded border px-2 py-1 text-sm hover:bg-gray-50 disabled:opacity-60"
+                    >
+                        <ArrowPathIcon className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} /> Refresh
+                    </button>
+                </div>
+
+                {err && <div className="p-3 text-sm text-red-600">{err}</div>}
+
+                {!runs ? (
+                    !err && <p className="p-6 text-center text-sm text-gray-500">Loading runs…</p>
+                ) : runs.items.length === 0 ? (
+                    <p className="p-6 text-center text-sm text-gray-500">This automation has not run yet.</p>
+                ) : (
+                    <>
+                        <div className="overflow-x-auto">
+                            <table className="min-w-full text-sm">
+                                <thead className="bg-gray-50">
+                                <tr className="text-left">
+                                    <th className="px-3 py-2">Started</th>
+                                    <th className="px-3 py-2">Duration</th>
+                                    <th className="px-3 py-2">Outcome</th>
+                                    <th className="px-3 py-2">Trigger payload</th>
+                                    <th className="px-3 py-2 text-right">Contacts</th>
+                                    <th className="px-3 py-2 text-right">Waiting</th>
+                                    <th className="px-3 py-2 text-right">Failed</th>
+                                </tr>
+                                </thead>
+                                <tbody>
+                                {runs.items.map((r) => (
+                                    <tr
+                                        key={r.id}
+                                        onClick={() => setSelected(selected === r.id ? null : r.id)}
+                                        className={`border-t cursor-pointer ${selected === r.id ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+                                    >
+                                        <td className="px-3 py-2 tabular-nums">{toLocale(r.started_at)}</td>
+                                        <td className="px-3 py-2 tabular-nums">{r.finished_at ? duration(r.started_at, r.finished_at) : 'running'}</td>
+                                        <td className="px-3 py-2">
+                                            <span className={`rounded-full px-2 py-0.5 text-xs ${RUN_BADGE[r.status]}`}>{r.status}</span>
+                                        </td>
+                                        <td className="px-3 py-2 font-mono text-xs text-gray-600">{payloadPreview(r.trigger_payload)}</td>
+                                        <td className="px-3 py-2 text-right tabular-nums">{r.counts.total.toLocaleString()}</td>
+                                        <td className="px-3 py-2 text-right tabular-nums">{r.counts.waiting.toLocaleString()}</td>
+                                        <td className={`px-3 py-2 text-right tabular-nums ${r.counts.failed ? 'text-red-600' : ''}`}>{r.counts.failed.toLocaleString()}</td>
+                                    </tr>
+                                ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        <Pager meta={runs.meta} onPage={setPage} />
+                    </>
+                )}
+            </div>
+
+            {run && <RunDetail key={run.id} hash={hash} automationId={automationId} run={run} label={label} onChanged={() => setVersion((v) => v + 1)} />}
+        </div>
+    );
+}
+
+/* ----------------------------- Run detail ----------------------------- */
+
+function RunDetail({ hash, automationId, run, label, onChanged }: {
+    hash: string;
+    automationId: number;
+    run: AutomationRun;
+    label: (stepId: string | null, fallback?: string) => string;
+    /** Called after a contact was cancelled or retried, so run counts can refresh. */
+    onChanged: () => void;
+}) {
+    const [status, setStatus] = useState<RunContactStatus | ''>(run.counts.failed ? 'failed' : '');
+    const [page, setPage] = useState(1);
+    const [contacts, setContacts] = useState<ApiPaged<AutomationRunContact> | null>(null);
+    const [open, setOpen] = useState<number | null>(null);
+    const [busy, setBusy] = useState<number | null>(null);
+    const [err, setErr] = useState<string | null>(null);
+
+    useEffect(() => {
+        const ctrl = new AbortController();
+        api.automations
+            .runContacts(hash, automationId, run.id, { signal: ctrl.signal, query: { page, perPage: PER_PAGE, status: status || undefined } })
+            .then((res) => {
+                setContacts(res);
+                setErr(null);
+            })
+            .catch((e) => {
+                if (!isAbortError(e)) setErr(errorMessage(e));
+            });
+        return () => ctrl.abort();
+    }, [hash, automationId, run.id, page, status]);
+
+    async function act(c: AutomationRunContact, action: RunContactAction) {
+        if (action === 'cancel' && !confirm(`Remove ${c.email ?? `contact #${c.contact_id}`} from this run?`)) return;
+        setBusy(c.contact_id);
+        setErr(null);
+        try {
+            const updated = await api.automations.runContactAction(hash, automationId, run.id, c.contact_id, action);
+            setContacts((prev) => (prev ? { ...prev, items: prev.items.map((x) => (x.contact_id === c.contact_id ? updated : x)) } : prev));
+            onChanged();
+        } catch (e) {
+            setErr(errorMessage(e));
+        } finally {
+            setBusy(null);
+        }
+    }
+
+    return (
+        <div className="bg-white border rounded-lg overflow-hidden">
+            <div className="p-3 border-b flex flex-wrap items-center justify-between gap-2">
+                <h2 className="text-lg font-semibold">Run #{run.id}</h2>
+                <div className="flex items-center gap-3 text-sm text-gray-600">
+                    <span>
+                        {toLocale(run.started_at)} → {run.finished_at ? toLocale(run.finished_at) : 'still running'}
+                    </span>
+                    <select
+                        value={status}
+                        onChange={(e) => {
+                            setStatus(e.target.value as RunContactStatus | '');
+                            setPage(1);
+                        }}
+                        className="rounded border px-2 py-1 text-sm"
+                    >
+                        {CONTACT_FILTERS.map((f) => (
+                            <option key={f.value} value={f.value}>
+                                {f.label}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            <div className="grid lg:grid-cols-[minmax(0,1fr)_minmax(0,2fr)] lg:divide-x">
+                <div className="p-3">
+                    <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Trigger payload</h3>
+                    <pre className="max-h-80 overflow-auto rounded bg-gray-50 p-2 text-xs">{run.trigger_payload ? JSON.stringify(run.trigger_payload, null, 2) : '—'}</pre>
+                    {run.error && <p className="mt-2 text-sm text-red-600">{run.error}</p>}
+                    <dl className="mt-3 grid grid-cols-2 gap-1 text-sm">
+                        {(['completed', 'waiting', 'failed', 'cancelled'] as const).map((k) => (
+                            <React.Fragment key={k}>
+                                <dt className="capitalize text-gray-500">{k}</dt>
+                                <dd className="text-right tabular-nums">{run.counts[k].toLocaleString()}</dd>
+                            </React.Fragment>
+                        ))}
+                    </dl>
+                </div>
+
+                <div>
+                    {err && <div className="p-3 text-sm text-red-600">{err}</div>}
+                    {!contacts ? (
+                        !err && <p className="p-6 text-center text-sm text-gray-500">Loading contacts…</p>
+                    ) : contacts.items.length === 0 ? (
+                        <p className="p-6 text-center text-sm text-gray-500">No contacts match.</p>
+                    ) : (
+                        <ul className="divide-y">
+                            {contacts.items.map((c) => {
+                                const expanded = open === c.contact_id;
+                                const failed = c.steps.find((s) => s.status === 'failed');
+                                return (
+                                    <li key={c.contact_id}>
+                                        <div className="flex items-center gap-2 px-3 py-2 text-sm">
+                                            <button
+                                                type="button"
+                                                onClick={() => setOpen(expanded ? null : c.contact_id)}
+                                                className="flex min-w-0 flex-1 items-center gap-2 text-left"
+                                            >
+                                                {expanded ? <ChevronDownIcon className="h-4 w-4 shrink-0" /> : <ChevronRightIcon className="h-4 w-4 shrink-0" />}
+                                                <span className="truncate">{c.email ?? `Contact #${c.contact_id}`}</span>
+                                                <span className={`shrink-0 rounded-full px-2 py-0.5 text-xs ${CONTACT_BADGE[c.status]}`}>{c.status}</span>
+                                                <span className="truncate text-xs text-gray-500">
+                                                    {c.status === 'waiting' && c.resume_at
+                                                        ? `${label(c.current_step_id)} until ${toLocale(c.resume_at)}`
+                                                        : failed?.error ?? label(c.current_step_id)}
+                                                </span>
+                                            </button>
+                                            {CONTACT_ACTIONS[c.status].map((a) => (
+                                                <button
+                                                    key={a}
+                                                    type="button"
+                                                    onClick={() => act(c, a)}
+                                                    disabled={busy !== null}
+                                                    title={a === 'retry' ? 'Run the contact again from the failed step' : 'Stop this contact in this run'}
+                                                    className={`inline-flex shrink-0 items-center gap-1 rounded border px-2 py-1 text-xs disabled:opacity-60 ${
+                                                        a === 'cancel' ? 'text-red-600 hover:bg-red-50' : 'hover:bg-gray-50'
+                                                    }`}
+                                                >
+                                                    {a === 'retry' ? <ArrowUturnRightIcon className="h-3.5 w-3.5" /> : <XMarkIcon className="h-3.5 w-3.5" />}
+                                                    {busy === c.contact_id ? '…' : a === 'retry' ? 'Re-run' : 'Cancel'}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        {expanded && (
+                                            <ol className="space-y-1 bg-gray-50 px-9 py-2">
+                                                {c.steps.length === 0 && <li className="text-xs text-gray-500">No steps logged yet.</li>}
+                                                {c.steps.map((s, i) => (
+                                                    <li key={i} className="text-xs">
+                                                        <div className="flex items-center gap-2">
+                                                            <span className={`rounded px-1.5 py-0.5 font-medium ${LOG_BADGE[s.status]}`}>{s.status}</span>
+                                                            <span className="font-medium text-gray-900">{label(s.step_id, s.step_type)}</span>
+                                                            <span className="tabular-nums text-gray-500">{toLocale(s.started_at)}</span>
+                                                        </div>
+                                                        {s.message && <p className="ml-1 mt-0.5 text-gray-600">{s.message}</p>}
+                                                        {s.error && <p className="ml-1 mt-0.5 font-mono text-red-600">{s.error}</p>}
+                                                    </li>
+                                                ))}
+                                            </ol>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                    {contacts && <Pager meta={contacts.meta} onPage={setPage} />}
+                </div>
+            </div>
+        </div>
+    );
+}
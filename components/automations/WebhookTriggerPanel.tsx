@@ -0,0 +1,271 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowPathIcon, EyeIcon, EyeSlashIcon, KeyIcon, LinkIcon, PaperAirplaneIcon } from '@heroicons/react/24/outline';
+import { CopyButton } from '@/components/domain/CopyBits';
+import { api, errorMessage, isAbortError } from '@/lib/api';
+import { listFields, previewValue } from '@/lib/automation-flow/payload-fields';
+import { samplePayload } from '@/lib/automation-flow/simulate';
+import type { AutomationTriggerInfo, AutomationTriggerPayload } from '@/types/api';
+import type { WebhookTrigger } from '@/types/automation-flow';
+
+type Props = {
+    hash: string;
+    automationId: number;
+    /** The trigger as currently edited. */
+    trigger: WebhookTrigger;
+    /** Called with the new secret after a rotation, so the edited flow keeps it. */
+    onSecret: (secret: string) => void;
+    /** The payload condition pickers should offer fields from, or null for none. */
+    onSample: (payload: unknown) => void;
+};
+
+/** How many received payloads to show. */
+const RECENT = 20;
+
+const inputCls = 'w-full rounded-lg border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+function toLocale(iso: string | null) {
+    return iso ? new Date(iso).toLocaleString() : '—';
+}
+
+function masked(secret: string): string {
+    return secret.length > 4 ? `${'•'.repeat(Math.min(20, secret.length - 4))}${secret.slice(-4)}` : '••••';
+}
+
+/** Trigger URL and secret of a webhook automation, a test sender, and the payloads it received. */
+export default function WebhookTriggerPanel({ hash, automationId, trigger, onSecret, onSample }: Props) {
+    const [info, setInfo] = useState<AutomationTriggerInfo | null>(null);
+    const [payloads, setPayloads] = useState<AutomationTriggerPayload[] | null>(null);
+    const [selected, setSelected] = useState<number | null>(null);
+    const [reveal, setReveal] = useState(false);
+    const [testText, setTestText] = useState(() => JSON.stringify(samplePayload(trigger), null, 2));
+    const [version, setVersion] = useState(0);
+    const [busy, setBusy] = useState<'rotate' | 'test' | null>(null);
+    const [err, setErr] = useState<string | null>(null);
+
+    useEffect(() => {
+        const ctrl = new AbortController();
+        Promise.all([
+            api.automations.trigger(hash, automationId, { signal: ctrl.signal }),
+            api.automations.triggerPayloads(hash, automationId, { signal: ctrl.signal, query: { limit: RECENT } }),
+        ])
+            .then(([i, p]) => {
+                setInfo(i);
+                setPayloads(p);
+                setSelected((cur) => (cur !== null && p.some((x) => x.id === cur) ? cur : p[0]?.id ?? null));
+                setErr(null);
+            })
+            .catch((e) => {
+                if (!isAbortError(e)) setErr(errorMessage(e));
+            });
+        return () => ctrl.abort();
+    }, [hash, automationId, version]);
+
+    const current = payloads?.find((p) => p.id === selected) ?? null;
+    const fields = useMemo(() => (current ? listFields(current.payload) : []), [current]);
+
+    useEffect(() => {
+        onSample(current ? current.payload : null);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [current]);
+
+    async function rotate() {
+        if (!confirm('Rotate the secret? Senders using the current secret will be rejected until they switch to the new one.')) return;
+        setBusy('rotate');
+        setErr(null);
+        try {
+            const next = await api.automations.rotateSecret(hash, automationId);
+            setInfo(next);
+            onSecret(next.secret);
+        } catch (e) {
+            setErr(errorMessage(e));
+        } finally {
+            setBusy(null);
+        }
+    }
+
+    async function sendTest() {
+        let body: unknown;
+        try {
+            body = JSON.parse(testText || '{}');
+        } catch {
+            return setErr('Test payload is not valid JSON.');
+        }
+        setBusy('test');
+        setErr(null);
+        try {
+            const received = await api.automations.testTrigger(hash, automationId, body);
+            setPayloads((prev) => [received, ...(prev ?? [])].slice(0, RECENT));
+            setSelected(received.id);
+        } catch (e) {
+            setErr(errorMessage(e));
+        } finally {
+            setBusy(null);
+        }
+    }
+
+    return (
+        <div className="bg-white border rounded-lg overflow-hidden">
+            <div className="p-3 border-b flex items-center justify-between">
+                <h2 className="text-lg font-semibold inline-flex items-center gap-2">
+                    <LinkIcon className="h-5 w-5 text-gray-500" /> Webhook trigger
+                </h2>
+                <button
+                    type="button"
+                    onClick={() => setVersion((v) => v + 1)}
+                    className="inline-flex items-center gap-1 rounded border px-2 py-1 text-sm hover:bg-gray-50"
+                >
+                    <ArrowPathIcon className="h-4 w-4" /> Refresh
+                </button>
+            </div>
+
+            {err && <div className="px-4 pt-3 text-sm text-red-600">{err}</div>}
+
+            {/* Endpoint */}
+            <div className="p-4 space-y-3 border-b">
+                {!info ? (
+                    !err && <p className="text-sm text-gray-500">Loading trigger…</p>
+                ) : (
+                    <>
+                        <div>
+                            <div className="text-xs font-medium text-gray-600 mb-1">Trigger URL</div>
+                            <div className="flex items-center gap-2 rounded border bg-gray-50 px-2 py-1">
+                                <code className="min-w-0 flex-1 truncate text-sm">{info.url}</code>
+                                <CopyButton text={info.url} title="Copy URL" />
+                            </div>
+                        </div>
+                        <div>
+                            <div className="text-xs font-medium text-gray-600 mb-1">Signing secret</div>
+                            <div className="flex items-center gap-2">
+                                <div className="flex min-w-0 flex-1 items-center gap-2 rounded border bg-gray-50 px-2 py-1">
+                                    <code className="min-w-0 flex-1 truncate text-sm">{reveal ? info.secret : masked(info.secret)}</code>
+                                    <button
+                                        type="button"
+                                        onClick={() => setReveal((r) => !r)}
+                                        title={reveal ? 'Hide' : 'Show'}
+                                        className="inline-flex h-7 w-7 items-center justify-center rounded hover:bg-gray-200"
+                                    >
+                                        {reveal ? <EyeSlashIcon className="h-4 w-4 text-gray-600" /> : <EyeIcon className="h-4 w-4 text-gray-600" />}
+                                    </button>
+                                    <CopyButton text={info.secret} title="Copy secret" />
+                                </div>
+                                <button
+                                    type="button"
+                                    onClick={rotate}
+                                    disabled={busy !== null}
+                                    className="inline-flex shrink-0 items-center px-3 py-1.5 rounded border hover:bg-gray-50 text-sm disabled:opacity-60"
+                                >
+                                    <KeyIcon className="h-4 w-4 mr-1" /> {busy === 'rotate' ? 'Rotating…' : 'Rotate'}
+                                </button>
+                            </div>
+                            <p className="mt-1 text-xs text-gray-500">
+                                Send a JSON POST with the hex HMAC-SHA256 of the raw body in the <code>{info.signature_header}</code> header.
+                                {info.rotated_at && ` Last rotated ${toLocale(info.rotated_at)}.`}
+                            </p>
+                            {trigger.secret !== info.secret && (
+                                <p className="mt-1 text-xs text-amber-700">The secret in the editor differs from the active one; saving the automation replaces it.</p>
+                            )}
+                        </div>
+                    </>
+                )}
+            </div>
+
+            <div className="grid lg:grid-cols-2 lg:divide-x">
+                {/* Test sender */}
+                <div className="p-4 space-y-3">
+                    <label className="block">
+                        <span className="flex items-center justify-between text-xs font-medium text-gray-600 mb-1">
+                            Test payload
+                            <button
+                                type="button"
+                                onClick={() => setTestText(JSON.stringify(samplePayload(trigger), null, 2))}
+                                className="inline-flex items-center gap-1 text-indigo-600 hover:text-indigo-700"
+                            >
+                                <ArrowPathIcon className="h-3.5 w-3.5" /> Sample
+                            </button>
+                        </span>
+                        <textarea value={testText} onChange={(e) => setTestText(e.target.value)} rows={8} className={inputCls + ' font-mono text-xs'} />
+                        <span className="mt-1 block text-xs text-gray-400">Signed and delivered by the backend; it starts a real run of the saved flow.</span>
+                    </label>
+                    <button
+                        type="button"
+                        onClick={sendTest}
+                        disabled={busy !== null || !info}
+                        className="inline-flex items-center px-3 py-1.5 rounded border hover:bg-gray-50 text-sm disabled:opacity-60"
+                    >
+                        <PaperAirplaneIcon className="h-4 w-4 mr-1" /> {busy === 'test' ? 'Sending…' : 'Send test payload'}
+                    </button>
+                </div>
+
+                {/* Received */}
+                <div className="p-4 space-y-3">
+                    <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Last {RECENT} payloads</h3>
+                    {!payloads ? (
+                        !err && <p className="text-sm text-gray-500">Loading…</p>
+                    ) : payloads.length === 0 ? (
+                        <p className="text-sm text-gray-500">Nothing received yet. Send a test payload or call the trigger URL.</p>
+                    ) : (
+                        <ul className="max-h-48 divide-y overflow-y-auto rounded border text-sm">
+                            {payloads.map((p) => (
+                                <li key={p.id}>
+                                    <button
+                                        type="button"
+                                        onClick={() => setSelected(p.id)}
+                                        className={`flex w-full items-center gap-2 px-2 py-1.5 text-left ${selected === p.id ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+                                    >
+                                        <span className="tabular-nums text-gray-700">{toLocale(p.received_at)}</span>
+                                        {p.source === 'test' && <span className="rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-600">test</span>}
+                                        {!p.signature_valid && <span className="rounded bg-red-50 px-1.5 py-0.5 text-xs text-red-700">bad signature</span>}
+                                        <span className={`ml-auto truncate text-xs ${p.error ? 'text-red-600' : 'text-gray-500'}`}>
+                                            {p.error ?? (p.run_id !== null ? `Run #${p.run_id}` : 'No run')}
+                                        </span>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+
+                    {current && (
+                        <div>
+                            <div className="flex items-center justify-between text-xs font-medium text-gray-600 mb-1">
+                                <span>Fields</span>
+                                <span className="font-normal text-gray-400">Offered when editing conditions in the flow</span>
+                            </div>
+                            {fields.length === 0 ? (
+                                <p className="text-sm text-gray-500">The payload has no fields.</p>
+                            ) : (
+                                <div className="max-h-64 overflow-y-auto rounded border">
+                                    <table className="min-w-full text-xs">
+                                        <thead className="bg-gray-50 sticky top-0">
+                                        <tr className="text-left">
+                                            <th className="px-2 py-1">JSONPath</th>
+                                            <th className="px-2 py-1">Type</th>
+                                            <th className="px-2 py-1">Value</th>
+                                            <th className="px-2 py-1" />
+                                        </tr>
+                                        </thead>
+                                        <tbody>
+                                        {fields.map((f) => (
+                                            <tr key={f.jsonPath} className="border-t">
+                                                <td className="px-2 py-1 font-mono" style={{ paddingLeft: 8 + f.depth * 12 }}>
+                                                    {f.jsonPath}
+                                                </td>
+                                                <td className="px-2 py-1 text-gray-500">{f.type}</td>
+                                                <td className="px-2 py-1 font-mono text-gray-700">{previewValue(f.sample)}</td>
+                                                <td className="px-2 py-1 text-right">
+                                                    <CopyButton text={f.path} title={`Copy ${f.path}`} />
+                                                </td>
+                                            </tr>
+                                        ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
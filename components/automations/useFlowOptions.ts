@@ -0,0 +1,39 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { api, errorMessage, isAbortError } from '@/lib/api';
+import type { Option } from './FlowInspector';
+
+type FlowOptions = {
+    templates: Option[];
+    lists: Option[];
+    templateNames: Map<number, string>;
+    listNames: Map<number, string>;
+    error: string | null;
+};
+
+/** Templates and lists that flow steps can point at, for pickers and labels. */
+export function useFlowOptions(hash: string): FlowOptions {
+    const [templates, setTemplates] = useState<Option[]>([]);
+    const [lists, setLists] = useState<Option[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const ctrl = new AbortController();
+        const o = { signal: ctrl.signal, query: { perPage: 200 } };
+        Promise.all([api.templates.list(hash, o), api.lists.list(hash, o)])
+            .then(([t, l]) => {
+                setTemplates(t.items.map((x) => ({ id: x.id, name: x.name || `Template #${x.id}` })));
+                setLists(l.items.map((x) => ({ id: x.id, name: x.name })));
+            })
+            .catch((e) => {
+                if (!isAbortError(e)) setError(`Could not load templates and lists: ${errorMessage(e)}`);
+            });
+        return () => ctrl.abort();
+    }, [hash]);
+
+    const templateNames = useMemo(() => new Map(templates.map((t) => [t.id, t.name])), [templates]);
+    const listNames = useMemo(() => new Map(lists.map((l) => [l.id, l.name])), [lists]);
+
+    return { templates, lists, templateNames, listNames, error };
+}
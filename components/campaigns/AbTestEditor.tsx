@@ -0,0 +1,217 @@
+'use client';
+
+import React from 'react';
+import { BeakerIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import {
+    MAX_COHORT_PERCENT,
+    MAX_VARIANTS,
+    MIN_COHORT_PERCENT,
+    WAIT_HOUR_OPTIONS,
+    WINNER_METRIC_LABELS,
+    defaultAbTest,
+    nextVariantKey,
+    perVariantPercent,
+    validateAbTest,
+} from '@/lib/ab-test';
+import type { AbWinnerMetric, CampaignAbTest, CampaignVariant, Template } from '@/types/api';
+
+type Props = {
+    /** null while the campaign is a plain single-version send. */
+    value: CampaignAbTest | null;
+    onChange: (next: CampaignAbTest | null) => void;
+    templates: Array<Pick<Template, 'id' | 'name'>>;
+    /** The campaign's own subject and template, which empty variant fields fall back to. */
+    baseSubject: string;
+    baseTemplateId: number | null;
+    disabled?: boolean;
+};
+
+function cx(...xs: Array<string | false | null | undefined>) {
+    return xs.filter(Boolean).join(' ');
+}
+
+function formatPercent(n: number) {
+    return `${Number.isInteger(n) ? n : n.toFixed(1)}%`;
+}
+
+export default function AbTestEditor({ value, onChange, templates, baseSubject, baseTemplateId, disabled }: Props) {
+    const base = { subject: baseSubject, template_id: baseTemplateId };
+
+    if (!value) {
+        return (
+            <div className="bg-white border rounded-lg p-4 flex items-center justify-between gap-3">
+                <div>
+                    <h2 className="text-lg font-semibold">A/B test</h2>
+                    <p className="text-sm text-gray-500">
+                        Try up to {MAX_VARIANTS} subject lines, sender names or templates on part of the audience, then send the winner to the rest.
+                    </p>
+                </div>
+                <button
+                    type="button"
+                    onClick={() => onChange(defaultAbTest(base))}
+                    disabled={disabled}
+                    className="inline-flex shrink-0 items-center px-4 py-2 rounded border hover:bg-gray-50 disabled:opacity-60"
+                >
+                    <BeakerIcon className="h-5 w-5 mr-1" />
+                    Set up A/B test
+                </button>
+            </div>
+        );
+    }
+
+    const ab = value;
+    const problem = validateAbTest(ab, base);
+    const each = perVariantPercent(ab);
+
+    const patch = (p: Partial<CampaignAbTest>) => onChange({ ...ab, ...p });
+    const patchVariant = (key: string, p: Partial<CampaignVariant>) =>
+        patch({ variants: ab.variants.map((v) => (v.key === key ? { ...v, ...p } : v)) });
+
+    function addVariant() {
+        const key = nextVariantKey(ab.variants);
+        if (!key) return;
+        const last = ab.variants[ab.variants.length - 1];
+        patch({ variants: [...ab.variants, { key, subject: last?.subject ?? null, from_name: last?.from_name ?? null, template_id: last?.template_id ?? null }] });
+    }
+
+    const inputCls = 'w-full rounded border px-3 py-2 disabled:bg-gray-50';
+
+    return (
+        <div className="bg-white border rounded-lg p-4 space-y-4">
+            <div className="flex items-center justify-between gap-3">
+                <h2 className="flex items-center gap-2 text-lg font-semibold">
+                    <BeakerIcon className="h-5 w-5 text-indigo-600" />
+                    A/B test
+                </h2>
+                <button
+                    type="button"
+                    onClick={() => onChange(null)}
+                    disabled={disabled}
+                    className="text-sm text-gray-600 hover:text-red-600 disabled:opacity-60"
+                >
+                    Remove A/B test
+                </button>
+            </div>
+
+            <div className="space-y-3">
+                {ab.variants.map((v) => (
+                    <div key={v.key} className="grid gap-3 rounded border p-3 md:grid-cols-[auto_2fr_1fr_1fr_auto] md:items-end">
+                        <span className="inline-flex h-9 w-9 items-center justify-center rounded-full bg-indigo-50 font-semibold text-indigo-700">
+                            {v.key}
+                        </span>
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Subject</label>
+                            <input
+                                value={v.subject ?? ''}
+                                onChange={(e) => patchVariant(v.key, { subject: e.target.value || null })}
+                                placeholder={baseSubject || 'Subject line'}
+                                disabled={disabled}
+                                className={inputCls}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Sender name</label>
+                            <input
+                                value={v.from_name ?? ''}
+                                onChange={(e) => patchVariant(v.key, { from_name: e.target.value || null })}
+                                placeholder="Default"
+                                disabled={disabled}
+                                className={inputCls}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Template</label>
+                            <select
+                                value={v.template_id ?? ''}
+                                onChange={(e) => patchVariant(v.key, { template_id: e.target.value ? Number(e.target.value) : null })}
+                                disabled={disabled}
+                                className={cx(inputCls, 'bg-white')}
+                            >
+                                <option value="">Campaign template</option>
+                                {templates.map((t) => (
+                                    <option key={t.id} value={t.id}>
+                                        {t.name ?? `#${t.id}`}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        <button
+                            type="button"
+                            onClick={() => patch({ variants: ab.variants.filter((x) => x.key !== v.key) })}
+                            disabled={disabled || ab.variants.length <= 2}
+                            className="inline-flex h-9 items-center justify-center rounded border px-2 text-gray-500 hover:bg-gray-50 hover:text-red-600 disabled:opacity-40"
+                            title={ab.variants.length <= 2 ? 'A test needs at least two variants' : `Remove variant ${v.key}`}
+                        >
+                            <TrashIcon className="h-4 w-4" />
+                        </button>
+                    </div>
+                ))}
+
+                {ab.variants.length < MAX_VARIANTS && (
+                    <button
+                        type="button"
+                        onClick={addVariant}
+                        disabled={disabled}
+                        className="inline-flex items-center text-sm font-medium text-blue-700 hover:underline disabled:opacity-60"
+                    >
+                        <PlusIcon className="h-4 w-4 mr-1" />
+                        Add variant
+                    </button>
+                )}
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-3">
+                <div>
+                    <label className="block text-sm font-medium mb-1">
+                        Test cohort: <span className="font-semibold">{ab.cohort_percent}%</span>
+                    </label>
+                    <input
+                        type="range"
+                        min={MIN_COHORT_PERCENT}
+                        max={MAX_COHORT_PERCENT}
+                        step={5}
+                        value={ab.cohort_percent}
+                        onChange={(e) => patch({ cohort_percent: Number(e.target.value) })}
+                        disabled={disabled}
+                        className="w-full accent-indigo-600"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                        {formatPercent(each)} per variant; the winner goes to the remaining {100 - ab.cohort_percent}%.
+                    </p>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium mb-1">Winning metric</label>
+                    <select
+                        value={ab.winner_metric}
+                        onChange={(e) => patch({ winner_metric: e.target.value as AbWinnerMetric })}
+                        disabled={disabled}
+                        className={cx(inputCls, 'bg-white')}
+                    >
+                        {(Object.keys(WINNER_METRIC_LABELS) as AbWinnerMetric[]).map((m) => (
+                            <option key={m} value={m}>
+                                {WINNER_METRIC_LABELS[m]}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium mb-1">Pick the winner after</label>
+                    <select
+                        value={ab.wait_hours}
+                        onChange={(e) => patch({ wait_hours: Number(e.target.value) })}
+                        disabled={disabled}
+                        className={cx(inputCls, 'bg-white')}
+                    >
+                        {WAIT_HOUR_OPTIONS.map((h) => (
+                            <option key={h} value={h}>
+                                {h < 24 ? `${h} hour${h === 1 ? '' : 's'}` : `${h / 24} day${h === 24 ? '' : 's'}`}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            {problem && <div className="text-sm text-amber-700">{problem}</div>}
+        </div>
+    );
+}
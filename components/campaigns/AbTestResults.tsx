@@ -0,0 +1,111 @@
+'use client';
+
+import React from 'react';
+import { BeakerIcon, TrophyIcon } from '@heroicons/react/24/outline';
+import { WINNER_METRIC_LABELS, leadingVariant, perVariantPercent, variantRate } from '@/lib/ab-test';
+import type { CampaignAbTest } from '@/types/api';
+
+type Props = {
+    abTest: CampaignAbTest;
+    /** Fallbacks shown for variants that keep the campaign's own subject or template. */
+    baseSubject: string | null;
+    baseTemplateName: string;
+    templateName: (id: number) => string;
+};
+
+function cx(...xs: Array<string | false | null | undefined>) {
+    return xs.filter(Boolean).join(' ');
+}
+
+function pct(r: number | null) {
+    return r === null ? '—' : `${(r * 100).toFixed(1)}%`;
+}
+
+/** Per-variant metrics of an A/B campaign with the winner (or current leader) highlighted. */
+export default function AbTestResults({ abTest, baseSubject, baseTemplateName, templateName }: Props) {
+    const lead = leadingVariant(abTest);
+    const each = perVariantPercent(abTest);
+
+    return (
+        <div className="bg-white border rounded-lg overflow-hidden">
+            <div className="p-3 border-b flex flex-wrap items-center justify-between gap-2">
+                <h2 className="flex items-center gap-2 text-lg font-semibold">
+                    <BeakerIcon className="h-5 w-5 text-indigo-600" />
+                    A/B test
+                </h2>
+                <div className="text-sm text-gray-600">
+                    {abTest.cohort_percent}% test cohort ({Number.isInteger(each) ? each : each.toFixed(1)}% each) · judged on{' '}
+                    {WINNER_METRIC_LABELS[abTest.winner_metric].toLowerCase()} after {abTest.wait_hours}h
+                </div>
+            </div>
+
+            {lead && (
+                <div className={cx('px-3 py-2 text-sm border-b', lead.decided ? 'bg-emerald-50 text-emerald-800' : 'bg-gray-50 text-gray-700')}>
+                    {lead.decided ? (
+                        <>
+                            Variant <span className="font-semibold">{lead.key}</span> won and was sent to the remaining {100 - abTest.cohort_percent}%
+                            {abTest.winner_decided_at ? ` (${new Date(abTest.winner_decided_at).toLocaleString()})` : ''}.
+                        </>
+                    ) : (
+                        <>
+                            Variant <span className="font-semibold">{lead.key}</span> is leading; the winner is picked {abTest.wait_hours}h after the test
+                            send.
+                        </>
+                    )}
+                </div>
+            )}
+
+            <div className="overflow-auto">
+                <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50">
+                    <tr className="text-left">
+                        <th className="px-3 py-2">Variant</th>
+                        <th className="px-3 py-2">Subject</th>
+                        <th className="px-3 py-2">Sender name</th>
+                        <th className="px-3 py-2">Template</th>
+                        <th className="px-3 py-2 text-right">Sent</th>
+                        <th className="px-3 py-2 text-right">Delivered</th>
+                        <th className="px-3 py-2 text-right">Open rate</th>
+                        <th className="px-3 py-2 text-right">Click rate</th>
+                        <th className="px-3 py-2 text-right">Bounces</th>
+                    </tr>
+                    </thead>
+                    <tbody>
+                    {abTest.variants.map((v) => {
+                        const isLead = lead?.key === v.key;
+                        return (
+                            <tr key={v.key} className={cx('border-t', isLead && lead?.decided && 'bg-emerald-50/50')}>
+                                <td className="px-3 py-2">
+                                    <span className="inline-flex items-center gap-1 font-semibold">
+                                        {v.key}
+                                        {isLead && (
+                                            <TrophyIcon
+                                                className={cx('h-4 w-4', lead?.decided ? 'text-emerald-600' : 'text-gray-400')}
+                                                title={lead?.decided ? 'Winner' : 'Leading'}
+                                            />
+                                        )}
+                                    </span>
+                                </td>
+                                <td className="px-3 py-2">{v.subject || <span className="text-gray-500">{baseSubject || '—'}</span>}</td>
+                                <td className="px-3 py-2">{v.from_name || <span className="text-gray-500">Default</span>}</td>
+                                <td className="px-3 py-2">
+                                    {v.template_id ? templateName(v.template_id) : <span className="text-gray-500">{baseTemplateName}</span>}
+                                </td>
+                                <td className="px-3 py-2 text-right tabular-nums">{v.metrics?.sent ?? '—'}</td>
+                                <td className="px-3 py-2 text-right tabular-nums">{v.metrics?.delivered ?? '—'}</td>
+                                <td className={cx('px-3 py-2 text-right tabular-nums', abTest.winner_metric === 'opens' && 'font-semibold')}>
+                                    {pct(variantRate(v.metrics, 'opens'))}
+                                </td>
+                                <td className={cx('px-3 py-2 text-right tabular-nums', abTest.winner_metric === 'clicks' && 'font-semibold')}>
+                                    {pct(variantRate(v.metrics, 'clicks'))}
+                                </td>
+                                <td className="px-3 py-2 text-right tabular-nums">{v.metrics?.bounces ?? '—'}</td>
+                            </tr>
+                        );
+                    })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+import { api, errorMessage, isAbortError } from '@/lib/api';
+import type { CampaignBatchStatus, CampaignProgress, CampaignStatus } from '@/types/api';
+
+type Props = {
+    hash: string;
+    campaignId: number;
+    /** Status the page knows; polling restarts when it changes (e.g. after Resume). */
+    status: CampaignStatus;
+    /** Called when the server reports a different status, e.g. once the send completes. */
+    onStatus?: (status: CampaignStatus) => void;
+};
+
+const POLL_MS = 5000;
+// scheduled and paused sends only move at their start time or on Resume, which restarts polling anyway
+const IDLE_POLL_MS = 60_000;
+const LIVE: CampaignStatus[] = ['scheduled', 'sending', 'paused'];
+
+const BATCH_BADGE: Record<CampaignBatchStatus, string> = {
+    pending: 'bg-gray-100 text-gray-700',
+    sending: 'bg-blue-50 text-blue-700',
+    sent: 'bg-emerald-50 text-emerald-700',
+    paused: 'bg-amber-50 text-amber-800',
+    cancelled: 'bg-red-50 text-red-700',
+};
+
+/** Worth polling again: still scheduled, sending or paused with messages left to hand over. */
+function inFlight(p: Pick<CampaignProgress, 'status' | 'queued' | 'remaining'>): boolean {
+    return LIVE.includes(p.status) && p.queued + p.remaining > 0;
+}
+
+function pollDelay(status: CampaignStatus): number {
+    return status === 'sending' ? POLL_MS : IDLE_POLL_MS;
+}
+
+function toLocale(iso: string | null) {
+    return iso ? new Date(iso).toLocaleString() : '—';
+}
+
+/** Queued / sent / remaining for a throttled send, overall and per batch. */
+export default function CampaignProgressPanel({ hash, campaignId, status, onStatus }: Props) {
+    const [progress, setProgress] = useState<CampaignProgress | null>(null);
+    const [err, setErr] = useState<string | null>(null);
+    // the server's view wins over the page's, which is only refreshed by its own actions
+    const current = progress?.status ?? status;
+    const live = progress ? inFlight(progress) : LIVE.includes(status);
+
+    // read from the poll callbacks, which must not restart when the parent re-renders
+    const latest = useRef({ status, onStatus });
+    useEffect(() => {
+        latest.current = { status, onStatus };
+    }, [status, onStatus]);
+
+    useEffect(() => {
+        const ctrl = new AbortController();
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        // after a failed poll, keep going as long as the last known state was in flight
+        let again = LIVE.includes(status);
+        let delay = pollDelay(status);
+        const load = () =>
+            api.campaigns
+                .progress(hash, campaignId, { signal: ctrl.signal })
+                .then((p) => {
+                    setProgress(p);
+                    setErr(null);
+                    again = inFlight(p);
+                    delay = pollDelay(p.status);
+                    if (p.status !== latest.current.status) latest.current.onStatus?.(p.status);
+                })
+                .catch((e) => {
+                    if (!isAbortError(e)) setErr(errorMessage(e));
+                })
+                .finally(() => {
+                    if (again && !ctrl.signal.aborted) timer = setTimeout(load, delay);
+                });
+        load();
+        return () => {
+            ctrl.abort();
+            clearTimeout(timer);
+        };
+    }, [hash, campaignId, status]);
+
+    if (!progress && !err) return null;
+
+    const total = progress?.total ?? 0;
+    const share = (n: number) => (total ? `${(n / total) * 100}%` : '0%');
+
+    return (
+        <div className="bg-white border rounded-lg overflow-hidden">
+            <div className="p-3 border-b flex items-center justify-between">
+                <h2 className="text-lg font-semibold">Delivery progress</h2>
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                    {live && <ArrowPathIcon className="h-4 w-4 animate-spin" />}
+                    {progress?.next_batch_at && current !== 'paused' && <>Next batch {toLocale(progress.next_batch_at)}</>}
+                </div>
+            </div>
+
+            {err && <div className="p-3 text-sm text-red-600">{err}</div>}
+
+            {progress && (
+                <>
+                    <div className="p-4 space-y-3">
+                        <div className="flex h-3 overflow-hidden rounded-full bg-gray-100">
+                            <div className="bg-emerald-500" style={{ width: share(progress.sent) }} />
+                            <div className="bg-red-400" style={{ width: share(progress.failed) }} />
+                            <div className="bg-blue-400" style={{ width: share(progress.queued) }} />
+                        </div>
+                        <div className="grid grid-cols-2 gap-3 text-sm md:grid-cols-4">
+                            {[
+                                { label: 'Sent', value: progress.sent, dot: 'bg-emerald-500' },
+                                { label: 'Queued', value: progress.queued, dot: 'bg-blue-400' },
+                                { label: 'Remaining', value: progress.remaining, dot: 'bg-gray-200' },
+                                { label: 'Failed', value: progress.failed, dot: 'bg-red-400' },
+                            ].map((m) => (
+                                <div key={m.label} className="flex items-center gap-2">
+                                    <span className={`h-2.5 w-2.5 rounded-full ${m.dot}`} />
+                                    <span className="text-gray-500">{m.label}</span>
+                                    <span className="font-semibold tabular-nums">{m.value.toLocaleString()}</span>
+                                </div>
+                            ))}
+                        </div>
+                        {current === 'paused' && (
+                            <p className="rounded bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                                Paused. A batch already handed to the mail servers finishes; the batches after it wait until you resume.
+                            </p>
+                        )}
+                    </div>
+
+                    {progress.batches.length > 0 && (
+                        <div className="max-h-96 overflow-auto border-t">
+                            <table className="min-w-full text-sm">
+                                <thead className="sticky top-0 bg-gray-50">
+                                <tr className="text-left">
+                                    <th className="px-3 py-2">Batch</th>
+                                    <th className="px-3 py-2">Status</th>
+                                    <th className="px-3 py-2 text-right">Size</th>
+                                    <th className="px-3 py-2 text-right">Queued</th>
+                                    <th className="px-3 py-2 text-right">Sent</th>
+                                    <th className="px-3 py-2 text-right">Remaining</th>
+                                    <th className="px-3 py-2">Start</th>
+                                    <th className="px-3 py-2">Completed</th>
+                                </tr>
+                                </thead>
+                                <tbody>
+                                {progress.batches.map((b) => (
+                                    <tr key={b.index} className="border-t">
+                                        <td className="px-3 py-2 tabular-nums">#{b.index}</td>
+                                        <td className="px-3 py-2">
+                                            <span className={`rounded-full px-2 py-0.5 text-xs ${BATCH_BADGE[b.status]}`}>{b.status}</span>
+                                        </td>
+                                        <td className="px-3 py-2 text-right tabular-nums">{b.size.toLocaleString()}</td>
+                                        <td className="px-3 py-2 text-right tabular-nums">{b.queued.toLocaleString()}</td>
+                                        <td className="px-3 py-2 text-right tabular-nums">
+                                            {b.sent.toLocaleString()}
+                                            {b.failed > 0 && <span className="ml-1 text-xs text-red-600">({b.failed} failed)</span>}
+                                        </td>
+                                        <td className="px-3 py-2 text-right tabular-nums">
+                                            {Math.max(0, b.size - b.queued - b.sent - b.failed).toLocaleString()}
+                                        </td>
+                                        <td className="px-3 py-2">{toLocale(b.started_at ?? b.scheduled_at)}</td>
+                                        <td className="px-3 py-2">{toLocale(b.completed_at)}</td>
+                                    </tr>
+                                ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
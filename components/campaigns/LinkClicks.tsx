@@ -0,0 +1,182 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { CursorArrowRaysIcon, FireIcon, TableCellsIcon } from '@heroicons/react/24/outline';
+import { api, errorMessage, isAbortError } from '@/lib/api';
+import { aggregateClicks, annotateLinks, heatColor } from '@/lib/link-clicks';
+import type { CampaignEvent } from '@/types/api';
+
+type Props = {
+    hash: string;
+    campaignId: number;
+    /** Template whose HTML the heatmap is drawn on. */
+    templateId: number | null;
+    /** Denominator for CTR. */
+    delivered: number;
+};
+
+type View = 'table' | 'heatmap';
+
+/** Click events read for the report (200 per page). */
+const MAX_EVENT_PAGES = 25;
+const PER_PAGE = 200;
+
+function cx(...xs: Array<string | false | null | undefined>) {
+    return xs.filter(Boolean).join(' ');
+}
+
+function pct(n: number) {
+    return `${(n * 100).toFixed(1)}%`;
+}
+
+export default function LinkClicks({ hash, campaignId, templateId, delivered }: Props) {
+    const [events, setEvents] = useState<CampaignEvent[]>([]);
+    const [truncated, setTruncated] = useState(false);
+    const [loading, setLoading] = useState(true);
+    const [err, setErr] = useState<string | null>(null);
+    const [view, setView] = useState<View>('table');
+    const [html, setHtml] = useState<string | null>(null);
+
+    useEffect(() => {
+        const ctrl = new AbortController();
+        (async () => {
+            setLoading(true);
+            setErr(null);
+            const all: CampaignEvent[] = [];
+            try {
+                for (let page = 1; page <= MAX_EVENT_PAGES; page++) {
+                    const res = await api.campaigns.events(hash, campaignId, {
+                        signal: ctrl.signal,
+                        query: { type: 'clicked', page, perPage: PER_PAGE },
+                    });
+                    all.push(...res.items);
+                    if (page >= res.meta.totalPages) break;
+                    if (page === MAX_EVENT_PAGES) setTruncated(true);
+                }
+                setEvents(all);
+            } catch (e) {
+                if (!isAbortError(e)) setErr(errorMessage(e));
+            } finally {
+                if (!ctrl.signal.aborted) setLoading(false);
+            }
+        })();
+        return () => ctrl.abort();
+    }, [hash, campaignId]);
+
+    useEffect(() => {
+        if (view !== 'heatmap' || !templateId || html !== null) return;
+        const ctrl = new AbortController();
+        api.templates
+            .get(hash, templateId, { signal: ctrl.signal })
+            .then((t) => setHtml(t.html ?? ''))
+            .catch((e) => {
+                if (!isAbortError(e)) setErr(errorMessage(e));
+            });
+        return () => ctrl.abort();
+    }, [view, hash, templateId, html]);
+
+    const stats = useMemo(() => aggregateClicks(events), [events]);
+    const totalClicks = stats.reduce((n, s) => n + s.total, 0);
+    const top = stats[0]?.total ?? 0;
+
+    const heatmapDoc = useMemo(() => {
+        if (!html) return '';
+        const shares = new Map(stats.map((s) => [s.key, totalClicks ? s.total / totalClicks : 0]));
+        return annotateLinks(html, shares);
+    }, [html, stats, totalClicks]);
+
+    return (
+        <div className="bg-white border rounded-lg overflow-hidden">
+            <div className="p-3 border-b flex flex-wrap items-center justify-between gap-2">
+                <h2 className="flex items-center gap-2 text-lg font-semibold">
+                    <CursorArrowRaysIcon className="h-5 w-5 text-indigo-600" />
+                    Link clicks
+                </h2>
+                <div className="flex items-center gap-1 rounded-lg bg-gray-100 p-1 text-sm">
+                    {(
+                        [
+                            { id: 'table', label: 'Links', icon: TableCellsIcon },
+                            { id: 'heatmap', label: 'Heatmap', icon: FireIcon },
+                        ] as const
+                    ).map(({ id, label, icon: Icon }) => (
+                        <button
+                            key={id}
+                            type="button"
+                            onClick={() => setView(id)}
+                            disabled={id === 'heatmap' && !templateId}
+                            title={id === 'heatmap' && !templateId ? 'This campaign has no template' : undefined}
+                            className={cx(
+                                'inline-flex items-center gap-1 rounded px-2 py-1 font-medium disabled:opacity-50',
+                                view === id ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                            )}
+                        >
+                            <Icon className="h-4 w-4" />
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {err && <div className="p-3 text-sm text-red-600">{err}</div>}
+            {truncated && (
+                <div className="px-3 py-2 text-xs text-amber-700 bg-amber-50">
+                    Based on the first {(MAX_EVENT_PAGES * PER_PAGE).toLocaleString()} clicks.
+                </div>
+            )}
+
+            {loading ? (
+                <p className="p-6 text-center text-sm text-gray-500">Loading clicks…</p>
+            ) : stats.length === 0 ? (
+                <p className="p-6 text-center text-sm text-gray-500">No tracked clicks yet.</p>
+            ) : view === 'table' ? (
+                <div className="overflow-auto">
+                    <table className="min-w-full text-sm">
+                        <thead className="bg-gray-50">
+                        <tr className="text-left">
+                            <th className="px-3 py-2">URL</th>
+                            <th className="px-3 py-2 text-right">Total clicks</th>
+                            <th className="px-3 py-2 text-right">Unique clicks</th>
+                            <th className="px-3 py-2 text-right">CTR</th>
+                            <th className="px-3 py-2 w-48">Share of clicks</th>
+                        </tr>
+                        </thead>
+                        <tbody>
+                        {stats.map((s) => (
+                            <tr key={s.key} className="border-t">
+                                <td className="px-3 py-2 max-w-md">
+                                    <a href={s.url} target="_blank" rel="noreferrer" className="block truncate font-mono text-xs text-blue-700 hover:underline">
+                                        {s.url}
+                                    </a>
+                                </td>
+                                <td className="px-3 py-2 text-right tabular-nums">{s.total.toLocaleString()}</td>
+                                <td className="px-3 py-2 text-right tabular-nums">{s.unique.toLocaleString()}</td>
+                                <td className="px-3 py-2 text-right tabular-nums">{delivered ? pct(s.unique / delivered) : '—'}</td>
+                                <td className="px-3 py-2">
+                                    <div className="flex items-center gap-2">
+                                        <div className="h-2 flex-1 overflow-hidden rounded-full bg-gray-100">
+                                            <div
+                                                className="h-full rounded-full"
+                                                style={{ width: pct(s.total / totalClicks), background: heatColor(top ? s.total / top : 0) }}
+                                            />
+                                        </div>
+                                        <span className="w-12 text-right text-xs tabular-nums text-gray-600">{pct(s.total / totalClicks)}</span>
+                                    </div>
+                                </td>
+                            </tr>
+                        ))}
+                        </tbody>
+                    </table>
+                </div>
+            ) : html === null ? (
+                <p className="p-6 text-center text-sm text-gray-500">Loading template…</p>
+            ) : (
+                <div className="bg-gray-100 p-4">
+                    <p className="mb-2 text-xs text-gray-500">
+                        Badges show each link&apos;s share of all clicks; dashed links were not clicked. Links that differ per recipient may not match.
+                    </p>
+                    <iframe title="click heatmap" className="h-[640px] w-full rounded-lg bg-white shadow-sm" sandbox="allow-same-origin" srcDoc={heatmapDoc} />
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ForwardIcon, PauseIcon, PlayIcon, ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+import { api, errorMessage, isAbortError } from '@/lib/api';
+import { formatOccurrence } from '@/lib/rrule';
+import type { CampaignOccurrence, OccurrenceAction, OccurrenceStatus } from '@/types/api';
+
+type Props = {
+    hash: string;
+    campaignId: number;
+    /** The rule's timezone; occurrences are listed on its wall clock. */
+    timezone: string;
+};
+
+const UPCOMING_SHOWN = 10;
+
+const STATUS_BADGE: Record<OccurrenceStatus, string> = {
+    upcoming: 'bg-blue-50 text-blue-700',
+    skipped: 'bg-gray-100 text-gray-500 line-through',
+    paused: 'bg-amber-50 text-amber-800',
+    sending: 'bg-indigo-50 text-indigo-700',
+    sent: 'bg-emerald-50 text-emerald-700',
+    failed: 'bg-red-50 text-red-700',
+};
+
+/** Which per-occurrence controls apply in each status. */
+const ACTIONS: Record<OccurrenceStatus, OccurrenceAction[]> = {
+    upcoming: ['skip', 'pause'],
+    skipped: ['unskip'],
+    paused: ['resume', 'skip'],
+    sending: ['pause'],
+    sent: [],
+    failed: [],
+};
+
+const ACTION_UI: Record<OccurrenceAction, { label: string; icon: typeof PauseIcon; title: string }> = {
+    skip: { label: 'Skip', icon: ForwardIcon, title: 'Do not send this occurrence' },
+    unskip: { label: 'Restore', icon: ArrowUturnLeftIcon, title: 'Send this occurrence after all' },
+    pause: { label: 'Pause', icon: PauseIcon, title: 'Hold this occurrence until you resume it' },
+    resume: { label: 'Resume', icon: PlayIcon, title: 'Send this occurrence (now, if its time has passed)' },
+};
+
+/** Sends of a recurring campaign: past child campaigns with their metrics, and the next occurrences with skip/pause. */
+export default function OccurrencesPanel({ hash, campaignId, timezone }: Props) {
+    const [items, setItems] = useState<CampaignOccurrence[] | null>(null);
+    const [err, setErr] = useState<string | null>(null);
+    const [busy, setBusy] = useState<string | null>(null);
+
+    useEffect(() => {
+        const ctrl = new AbortController();
+        api.campaigns
+            .occurrences(hash, campaignId, { signal: ctrl.signal, query: { upcoming: UPCOMING_SHOWN } })
+            .then((xs) => setItems([...xs].sort((a, b) => a.at.localeCompare(b.at))))
+            .catch((e) => {
+                if (!isAbortError(e)) setErr(errorMessage(e));
+            });
+        return () => ctrl.abort();
+    }, [hash, campaignId]);
+
+    async function act(o: CampaignOccurrence, action: OccurrenceAction) {
+        setBusy(o.at);
+        setErr(null);
+        try {
+            const updated = await api.campaigns.occurrenceAction(hash, campaignId, action, o.at);
+            setItems((prev) => prev?.map((x) => (x.at === o.at ? updated : x)) ?? prev);
+        } catch (e) {
+            setErr(errorMessage(e));
+        } finally {
+            setBusy(null);
+        }
+    }
+
+    const past = items?.filter((o) => o.campaign_id !== null).length ?? 0;
+
+    return (
+        <div className="bg-white border rounded-lg overflow-hidden">
+            <div className="p-3 border-b flex items-center justify-between">
+                <h2 className="text-lg font-semibold">Occurrences</h2>
+                {items && (
+                    <span className="text-sm text-gray-600">
+                        {past} sent · times in {timezone}
+                    </span>
+                )}
+            </div>
+
+            {err && <div className="p-3 text-sm text-red-600">{err}</div>}
+
+            {!items ? (
+                !err && <p className="p-6 text-center text-sm text-gray-500">Loading occurrences…</p>
+            ) : items.length === 0 ? (
+                <p className="p-6 text-center text-sm text-gray-500">No occurrences yet.</p>
+            ) : (
+                <div className="max-h-[28rem] overflow-auto">
+                    <table className="min-w-full text-sm">
+                        <thead className="sticky top-0 bg-gray-50">
+                        <tr className="text-left">
+                            <th className="px-3 py-2">When</th>
+                            <th className="px-3 py-2">Status</th>
+                            <th className="px-3 py-2">Campaign</th>
+                            <th className="px-3 py-2 text-right">Sent</th>
+                            <th className="px-3 py-2 text-right">Opens</th>
+                            <th className="px-3 py-2 text-right">Clicks</th>
+                            <th className="px-3 py-2 w-48" />
+                        </tr>
+                        </thead>
+                        <tbody>
+                        {items.map((o) => (
+                            <tr key={o.at} className="border-t">
+                                <td className="px-3 py-2 tabular-nums">{formatOccurrence(o.at, timezone)}</td>
+                                <td className="px-3 py-2">
+                                    <span className={`rounded-full px-2 py-0.5 text-xs ${STATUS_BADGE[o.status]}`}>{o.status}</span>
+                                </td>
+                                <td className="px-3 py-2">
+                                    {o.campaign_id ? (
+                                        <Link href={`/dashboard/company/${hash}/campaigns/${o.campaign_id}`} className="text-indigo-600 hover:underline">
+                                            #{o.campaign_id}
+                                        </Link>
+                                    ) : (
+                                        <span className="text-gray-400">—</span>
+                                    )}
+                                </td>
+                                <td className="px-3 py-2 text-right tabular-nums">{o.metrics ? o.metrics.sent.toLocaleString() : '—'}</td>
+                                <td className="px-3 py-2 text-right tabular-nums">{o.metrics ? o.metrics.opens.toLocaleString() : '—'}</td>
+                                <td className="px-3 py-2 text-right tabular-nums">{o.metrics ? o.metrics.clicks.toLocaleString() : '—'}</td>
+                                <td className="px-3 py-2">
+                                    <div className="flex justify-end gap-1">
+                                        {ACTIONS[o.status].map((a) => {
+                                            const { label, icon: Icon, title } = ACTION_UI[a];
+                                            return (
+                                                <button
+                                                    key={a}
+                                                    type="button"
+                                                    onClick={() => act(o, a)}
+                                                    disabled={busy !== null}
+                                                    title={title}
+                                                    className="inline-flex items-center gap-1 rounded border px-2 py-1 text-xs hover:bg-gray-50 disabled:opacity-60"
+                                                >
+                                                    <Icon className="h-3.5 w-3.5" />
+                                                    {busy === o.at ? '…' : label}
+                                                </button>
+                                            );
+                                        })}
+                                    </div>
+                                </td>
+                            </tr>
+                        ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,191 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+    ArrowPathIcon,
+    CheckCircleIcon,
+    ClockIcon,
+    ExclamationTriangleIcon,
+    PaperAirplaneIcon,
+    ShieldCheckIcon,
+    XCircleIcon,
+    XMarkIcon,
+} from '@heroicons/react/24/outline';
+import { errorMessage, isAbortError } from '@/lib/api';
+import {
+    PREFLIGHT_GROUP_LABELS,
+    type PreflightGroup,
+    type PreflightItem,
+    type PreflightReport,
+    type PreflightRequest,
+    runPreflight,
+} from '@/lib/preflight';
+
+export type PreflightAction = 'send' | 'schedule';
+
+type Props = {
+    open: boolean;
+    onClose: () => void;
+    /** Which button opened the check; the confirm button performs it. */
+    action: PreflightAction;
+    request: PreflightRequest;
+    onConfirm: () => void | Promise<void>;
+};
+
+function cx(...xs: Array<string | false | null | undefined>) {
+    return xs.filter(Boolean).join(' ');
+}
+
+function StatusIcon({ item }: { item: PreflightItem }) {
+    if (item.status === 'pass') return <CheckCircleIcon className="h-5 w-5 shrink-0 text-emerald-500" />;
+    if (item.status === 'warn') return <ExclamationTriangleIcon className="h-5 w-5 shrink-0 text-amber-500" />;
+    return <XCircleIcon className={cx('h-5 w-5 shrink-0', item.blocking ? 'text-red-500' : 'text-orange-500')} />;
+}
+
+/** Checklist shown before a campaign is sent or scheduled; blocking failures disable the confirm button. */
+export default function PreflightDialog({ open, onClose, action, request, onConfirm }: Props) {
+    const [report, setReport] = useState<PreflightReport | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [err, setErr] = useState<string | null>(null);
+    const [confirming, setConfirming] = useState(false);
+    const [runKey, setRunKey] = useState(0);
+
+    const rerun = useCallback(() => setRunKey((k) => k + 1), []);
+
+    useEffect(() => {
+        if (!open) return;
+        const ctrl = new AbortController();
+        setReport(null);
+        setErr(null);
+        setLoading(true);
+        runPreflight(request, ctrl.signal)
+            .then(setReport)
+            .catch((e) => {
+                if (!isAbortError(e)) setErr(errorMessage(e));
+            })
+            .finally(() => {
+                if (!ctrl.signal.aborted) setLoading(false);
+            });
+        return () => ctrl.abort();
+        // the request is captured when the dialog opens; "Re-run" picks up later edits
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [open, runKey]);
+
+    if (!open) return null;
+
+    async function confirm() {
+        setConfirming(true);
+        try {
+            await onConfirm();
+            onClose();
+        } finally {
+            setConfirming(false);
+        }
+    }
+
+    const groups = (Object.keys(PREFLIGHT_GROUP_LABELS) as PreflightGroup[])
+        .map((g) => ({ group: g, items: report?.items.filter((i) => i.group === g) ?? [] }))
+        .filter((g) => g.items.length > 0);
+    const blocked = !report || report.blockers > 0;
+    const busy = loading || confirming;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4" role="dialog" aria-modal="true">
+            <div className="absolute inset-0 bg-black/50" onClick={() => (!busy ? onClose() : null)} />
+            <div className="relative flex max-h-[90vh] w-full max-w-2xl flex-col rounded-xl bg-white shadow-xl">
+                <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+                    <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+                        <ShieldCheckIcon className="h-5 w-5 text-indigo-600" />
+                        Pre-flight check
+                    </h3>
+                    <button onClick={onClose} disabled={busy} className="text-gray-400 hover:text-gray-600">
+                        <XMarkIcon className="h-5 w-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 space-y-5 overflow-y-auto px-6 py-5 text-sm">
+                    {loading && (
+                        <div className="flex items-center gap-2 text-gray-500">
+                            <ArrowPathIcon className="h-4 w-4 animate-spin" />
+                            Checking content, sender authentication and audience…
+                        </div>
+                    )}
+
+                    {err && <div className="rounded-lg bg-red-50 p-3 text-red-700">{err}</div>}
+
+                    {report && (
+                        <div
+                            className={cx(
+                                'rounded-lg px-3 py-2 text-sm',
+                                report.blockers > 0
+                                    ? 'bg-red-50 text-red-700'
+                                    : report.warnings > 0
+                                      ? 'bg-amber-50 text-amber-800'
+                                      : 'bg-emerald-50 text-emerald-700'
+                            )}
+                        >
+                            {report.blockers > 0
+                                ? `${report.blockers} blocking issue${report.blockers === 1 ? '' : 's'} must be fixed before this campaign can go out.`
+                                : report.warnings > 0
+                                  ? `Ready, with ${report.warnings} warning${report.warnings === 1 ? '' : 's'} worth a look.`
+                                  : 'All checks passed.'}
+                        </div>
+                    )}
+
+                    {groups.map(({ group, items }) => (
+                        <section key={group}>
+                            <h4 className="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">{PREFLIGHT_GROUP_LABELS[group]}</h4>
+                            <ul className="divide-y divide-gray-100 rounded-lg ring-1 ring-gray-200">
+                                {items.map((item) => (
+                                    <li key={item.id} className="flex items-start gap-3 px-3 py-2">
+                                        <StatusIcon item={item} />
+                                        <div className="min-w-0 flex-1">
+                                            <div className="flex items-center gap-2">
+                                                <span className="font-medium text-gray-900">{item.title}</span>
+                                                {item.status === 'fail' && item.blocking && (
+                                                    <span className="rounded bg-red-100 px-1.5 py-0.5 text-[11px] font-medium text-red-700">Blocking</span>
+                                                )}
+                                            </div>
+                                            {item.detail && <p className="mt-0.5 text-xs text-gray-600">{item.detail}</p>}
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        </section>
+                    ))}
+                </div>
+
+                <div className="flex items-center justify-between gap-3 border-t border-gray-200 px-6 py-4">
+                    <button
+                        type="button"
+                        onClick={rerun}
+                        disabled={busy}
+                        className="inline-flex items-center gap-1 text-sm font-medium text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                    >
+                        <ArrowPathIcon className="h-4 w-4" />
+                        Re-run
+                    </button>
+                    <div className="flex gap-3">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            disabled={confirming}
+                            className="rounded-lg border border-gray-300 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="button"
+                            onClick={confirm}
+                            disabled={busy || blocked}
+                            className="inline-flex items-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-500 disabled:opacity-50"
+                        >
+                            {action === 'send' ? <PaperAirplaneIcon className="h-4 w-4" /> : <ClockIcon className="h-4 w-4" />}
+                            {confirming ? (action === 'send' ? 'Sending…' : 'Scheduling…') : action === 'send' ? 'Send now' : 'Schedule'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
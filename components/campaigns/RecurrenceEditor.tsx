@@ -0,0 +1,391 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { ArrowPathRoundedSquareIcon, CodeBracketIcon } from '@heroicons/react/24/outline';
+import {
+    type Frequency,
+    type MonthlyMode,
+    type RecurrenceRule,
+    type Weekday,
+    BUSINESS_DAYS,
+    FREQUENCY_UNITS,
+    RECURRENCE_PRESETS,
+    WEEKDAYS,
+    WEEKDAY_LABELS,
+    describeRecurrence,
+    formatOccurrence,
+    formatRecurrence,
+    monthlyMode,
+    nextOccurrences,
+    ordinal,
+    parseRecurrence,
+    weekdayOf,
+} from '@/lib/rrule';
+import { browserTimeZone, timeZoneOptions } from '@/lib/send-time';
+
+type Props = {
+    /** RRULE text (DTSTART + RRULE lines). */
+    value: string;
+    onChange: (v: string) => void;
+    disabled?: boolean;
+};
+
+type EndKind = 'never' | 'count' | 'until';
+
+const PREVIEW_SIZES = [5, 10, 20];
+const WEEKDAY_POSITIONS = [1, 2, 3, 4, -1];
+const MONTH_DAYS = [...Array.from({ length: 31 }, (_, i) => i + 1), -1];
+
+function cx(...xs: Array<string | false | null | undefined>) {
+    return xs.filter(Boolean).join(' ');
+}
+
+/** Schedule builder for recurring campaigns, with the raw RRULE one click away and a preview of the next sends. */
+export default function RecurrenceEditor({ value, onChange, disabled }: Props) {
+    const zones = useMemo(() => timeZoneOptions(), []);
+    const viewerTz = useMemo(() => browserTimeZone(), []);
+    const [asText, setAsText] = useState(false);
+    const [previewSize, setPreviewSize] = useState(PREVIEW_SIZES[0]);
+
+    const parsed = useMemo(() => {
+        try {
+            return { rule: parseRecurrence(value), error: null };
+        } catch (e) {
+            return { rule: null, error: e instanceof Error ? e.message : String(e) };
+        }
+    }, [value]);
+    const rule = parsed.rule;
+
+    const upcoming = useMemo(() => (rule ? nextOccurrences(rule, Date.now(), previewSize) : []), [rule, previewSize]);
+
+    function update(patch: Partial<RecurrenceRule>) {
+        if (rule) onChange(formatRecurrence({ ...rule, ...patch }));
+    }
+
+    function setFrequency(freq: Frequency) {
+        if (!rule) return;
+        const startDay = weekdayOf(rule.start);
+        if (freq === 'DAILY') update({ freq, byDay: [], byMonthDay: [], bySetPos: [] });
+        if (freq === 'WEEKLY') update({ freq, byDay: [{ day: startDay, n: 0 }], byMonthDay: [], bySetPos: [] });
+        if (freq === 'MONTHLY') update({ freq, byDay: [], byMonthDay: [Number(rule.start.slice(8, 10))], bySetPos: [] });
+    }
+
+    function setMonthlyMode(mode: MonthlyMode) {
+        if (!rule) return;
+        const dom = Number(rule.start.slice(8, 10));
+        if (mode === 'day') update({ byDay: [], byMonthDay: [dom], bySetPos: [] });
+        if (mode === 'weekday') update({ byDay: [{ day: weekdayOf(rule.start), n: Math.min(4, Math.ceil(dom / 7)) }], byMonthDay: [], bySetPos: [] });
+        if (mode === 'business') update({ byDay: BUSINESS_DAYS.map((day) => ({ day, n: 0 })), byMonthDay: [], bySetPos: [1] });
+    }
+
+    function toggleWeekday(day: Weekday) {
+        if (!rule) return;
+        const on = rule.byDay.some((b) => b.day === day);
+        const next = on ? rule.byDay.filter((b) => b.day !== day) : [...rule.byDay, { day, n: 0 }];
+        if (next.length) update({ byDay: WEEKDAYS.filter((d) => next.some((b) => b.day === d)).map((d) => ({ day: d, n: 0 })) });
+    }
+
+    function setEnd(kind: EndKind) {
+        if (!rule) return;
+        if (kind === 'never') update({ count: null, until: null });
+        if (kind === 'count') update({ count: rule.count ?? 10, until: null });
+        if (kind === 'until') update({ count: null, until: rule.until ?? rule.start.slice(0, 10) });
+    }
+
+    const end: EndKind = rule?.count ? 'count' : rule?.until ? 'until' : 'never';
+    const mMode = rule ? monthlyMode(rule) : 'custom';
+
+    return (
+        <div className="space-y-4 rounded-lg border bg-gray-50 p-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <h3 className="flex items-center gap-2 font-medium">
+                    <ArrowPathRoundedSquareIcon className="h-5 w-5 text-indigo-600" />
+                    Recurrence
+                </h3>
+                <button
+                    type="button"
+                    onClick={() => setAsText((v) => !v)}
+                    className="inline-flex items-center gap-1 text-sm text-indigo-600 hover:underline"
+                >
+                    <CodeBracketIcon className="h-4 w-4" />
+                    {asText ? 'Use the builder' : 'Edit as RRULE'}
+                </button>
+            </div>
+
+            {asText ? (
+                <div>
+                    <textarea
+                        value={value}
+                        onChange={(e) => onChange(e.target.value)}
+                        disabled={disabled}
+                        rows={3}
+                        spellCheck={false}
+                        className="w-full rounded border bg-white px-3 py-2 font-mono text-xs"
+                    />
+                    <p className="mt-1 text-xs text-gray-500">
+                        RFC 5545: a <code>DTSTART;TZID=…</code> line and an <code>RRULE:</code> line with FREQ=DAILY, WEEKLY or MONTHLY.
+                    </p>
+                </div>
+            ) : !rule ? (
+                <p className="text-sm text-gray-600">Fix the RRULE text to use the builder again.</p>
+            ) : (
+                <fieldset disabled={disabled} className="space-y-4">
+                    <div className="flex flex-wrap gap-2">
+                        {RECURRENCE_PRESETS.map((p) => (
+                            <button
+                                key={p.id}
+                                type="button"
+                                onClick={() => onChange(formatRecurrence(p.apply(rule)))}
+                                className="rounded-full border bg-white px-3 py-1 text-xs hover:bg-gray-100"
+                            >
+                                {p.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="grid gap-4 md:grid-cols-2">
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Repeat</label>
+                            <div className="flex items-center gap-2">
+                                <span className="text-sm text-gray-600">Every</span>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={99}
+                                    value={rule.interval}
+                                    onChange={(e) => update({ interval: Math.max(1, Math.min(99, Number(e.target.value) || 1)) })}
+                                    className="w-20 rounded border bg-white px-3 py-2"
+                                />
+                                <select
+                                    value={rule.freq}
+                                    onChange={(e) => setFrequency(e.target.value as Frequency)}
+                                    className="flex-1 rounded border bg-white px-3 py-2"
+                                >
+                                    {(Object.keys(FREQUENCY_UNITS) as Frequency[]).map((f) => (
+                                        <option key={f} value={f}>
+                                            {FREQUENCY_UNITS[f][rule.interval > 1 ? 1 : 0]}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Timezone</label>
+                            <select
+                                value={rule.timezone}
+                                onChange={(e) => update({ timezone: e.target.value })}
+                                className="w-full rounded border bg-white px-3 py-2"
+                            >
+                                {!zones.includes(rule.timezone) && <option value={rule.timezone}>{rule.timezone}</option>}
+                                {zones.map((z) => (
+                                    <option key={z} value={z}>
+                                        {z}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    {rule.freq === 'WEEKLY' && (
+                        <div>
+                            <label className="block text-sm font-medium mb-1">On</label>
+                            <div className="flex flex-wrap gap-1">
+                                {WEEKDAYS.map((d) => {
+                                    const on = rule.byDay.some((b) => b.day === d);
+                                    return (
+                                        <button
+                                            key={d}
+                                            type="button"
+                                            onClick={() => toggleWeekday(d)}
+                                            aria-pressed={on}
+                                            className={cx(
+                                                'w-12 rounded border px-2 py-1.5 text-sm',
+                                                on ? 'border-indigo-600 bg-indigo-600 text-white' : 'bg-white hover:bg-gray-100'
+                                            )}
+                                        >
+                                            {WEEKDAY_LABELS[d].slice(0, 3)}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
+
+                    {rule.freq === 'MONTHLY' && (
+                        <div className="space-y-2 text-sm">
+                            <label className="block font-medium">On</label>
+                            <label className="flex items-center gap-2">
+                                <input type="radio" checked={mMode === 'day'} onChange={() => setMonthlyMode('day')} />
+                                Day
+                                <select
+                                    value={mMode === 'day' ? rule.byMonthDay[0] ?? Number(rule.start.slice(8, 10)) : ''}
+                                    onChange={(e) => update({ byDay: [], byMonthDay: [Number(e.target.value)], bySetPos: [] })}
+                                    disabled={mMode !== 'day'}
+                                    className="rounded border bg-white px-2 py-1"
+                                >
+                                    {mMode !== 'day' && <option value="" />}
+                                    {MONTH_DAYS.map((d) => (
+                                        <option key={d} value={d}>
+                                            {d === -1 ? 'last' : d}
+                                        </option>
+                                    ))}
+                                </select>
+                                <span className="text-gray-500">of the month</span>
+                            </label>
+                            <label className="flex items-center gap-2">
+                                <input type="radio" checked={mMode === 'weekday'} onChange={() => setMonthlyMode('weekday')} />
+                                The
+                                <select
+                                    value={mMode === 'weekday' ? rule.byDay[0].n : ''}
+                                    onChange={(e) => update({ byDay: [{ day: rule.byDay[0].day, n: Number(e.target.value) }] })}
+                                    disabled={mMode !== 'weekday'}
+                                    className="rounded border bg-white px-2 py-1"
+                                >
+                                    {mMode !== 'weekday' && <option value="" />}
+                                    {WEEKDAY_POSITIONS.map((n) => (
+                                        <option key={n} value={n}>
+                                            {ordinal(n)}
+                                        </option>
+                                    ))}
+                                </select>
+                                <select
+                                    value={mMode === 'weekday' ? rule.byDay[0].day : ''}
+                                    onChange={(e) => update({ byDay: [{ day: e.target.value as Weekday, n: rule.byDay[0].n }] })}
+                                    disabled={mMode !== 'weekday'}
+                                    className="rounded border bg-white px-2 py-1"
+                                >
+                                    {mMode !== 'weekday' && <option value="" />}
+                                    {WEEKDAYS.map((d) => (
+                                        <option key={d} value={d}>
+                                            {WEEKDAY_LABELS[d]}
+                                        </option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className="flex items-center gap-2">
+                                <input type="radio" checked={mMode === 'business'} onChange={() => setMonthlyMode('business')} />
+                                The
+                                <select
+                                    value={mMode === 'business' ? rule.bySetPos[0] : ''}
+                                    onChange={(e) => update({ bySetPos: [Number(e.target.value)] })}
+                                    disabled={mMode !== 'business'}
+                                    className="rounded border bg-white px-2 py-1"
+                                >
+                                    {mMode !== 'business' && <option value="" />}
+                                    {[1, 2, -1].map((n) => (
+                                        <option key={n} value={n}>
+                                            {ordinal(n)}
+                                        </option>
+                                    ))}
+                                </select>
+                                business day <span className="text-gray-500">(Mon–Fri; holidays are not skipped)</span>
+                            </label>
+                            {mMode === 'custom' && <p className="text-gray-600">This rule uses a custom day pattern; edit it as RRULE text.</p>}
+                        </div>
+                    )}
+
+                    <div className="grid gap-4 md:grid-cols-2">
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Starting</label>
+                            <div className="flex gap-2">
+                                <input
+                                    type="date"
+                                    value={rule.start.slice(0, 10)}
+                                    onChange={(e) => e.target.value && update({ start: `${e.target.value}T${rule.start.slice(11, 16)}` })}
+                                    className="flex-1 rounded border bg-white px-3 py-2"
+                                />
+                                <input
+                                    type="time"
+                                    value={rule.start.slice(11, 16)}
+                                    onChange={(e) => e.target.value && update({ start: `${rule.start.slice(0, 10)}T${e.target.value}` })}
+                                    className="w-32 rounded border bg-white px-3 py-2"
+                                />
+                            </div>
+                            <p className="text-xs text-gray-500 mt-1">Every send goes out at this time in {rule.timezone}.</p>
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Ends</label>
+                            <div className="flex gap-2">
+                                <select
+                                    value={end}
+                                    onChange={(e) => setEnd(e.target.value as EndKind)}
+                                    className="rounded border bg-white px-3 py-2"
+                                >
+                                    <option value="never">Never</option>
+                                    <option value="count">After</option>
+                                    <option value="until">On</option>
+                                </select>
+                                {end === 'count' && (
+                                    <label className="flex flex-1 items-center gap-2 text-sm text-gray-600">
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            max={1000}
+                                            value={rule.count ?? 1}
+                                            onChange={(e) => update({ count: Math.max(1, Math.min(1000, Number(e.target.value) || 1)), until: null })}
+                                            className="w-24 rounded border bg-white px-3 py-2"
+                                        />
+                                        sends
+                                    </label>
+                                )}
+                                {end === 'until' && (
+                                    <input
+                                        type="date"
+                                        value={rule.until ?? ''}
+                                        min={rule.start.slice(0, 10)}
+                                        onChange={(e) => e.target.value && update({ until: e.target.value, count: null })}
+                                        className="flex-1 rounded border bg-white px-3 py-2"
+                                    />
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                </fieldset>
+            )}
+
+            {parsed.error ? (
+                <p className="text-sm text-red-600">{parsed.error}</p>
+            ) : (
+                rule && (
+                    <div className="rounded border bg-white p-3">
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                            <p className="text-sm font-medium">{describeRecurrence(rule)}</p>
+                            <label className="text-xs text-gray-600">
+                                Next{' '}
+                                <select
+                                    value={previewSize}
+                                    onChange={(e) => setPreviewSize(Number(e.target.value))}
+                                    className="rounded border px-1 py-0.5"
+                                >
+                                    {PREVIEW_SIZES.map((n) => (
+                                        <option key={n} value={n}>
+                                            {n}
+                                        </option>
+                                    ))}
+                                </select>{' '}
+                                sends
+                            </label>
+                        </div>
+                        {upcoming.length === 0 ? (
+                            <p className="mt-2 text-sm text-amber-700">No sends left in the future with this schedule.</p>
+                        ) : (
+                            <ol className="mt-2 grid gap-x-6 gap-y-1 text-sm sm:grid-cols-2">
+                                {upcoming.map((at, i) => (
+                                    <li key={at} className="flex items-baseline gap-2">
+                                        <span className="w-6 text-right text-xs tabular-nums text-gray-400">{i + 1}.</span>
+                                        <span className="tabular-nums">{formatOccurrence(at, rule.timezone)}</span>
+                                        {viewerTz !== rule.timezone && (
+                                            <span className="text-xs text-gray-500">({formatOccurrence(at, viewerTz)} your time)</span>
+                                        )}
+                                    </li>
+                                ))}
+                            </ol>
+                        )}
+                    </div>
+                )
+            )}
+        </div>
+    );
+}
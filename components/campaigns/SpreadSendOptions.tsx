@@ -0,0 +1,174 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+import { errorMessage, isAbortError } from '@/lib/api';
+import {
+    type DeliveryWindow,
+    type SpreadSendMode,
+    parseLocalTime,
+    previewDeliveryWindow,
+    timeZoneOptions,
+} from '@/lib/send-time';
+
+type Props = {
+    hash: string;
+    mode: SpreadSendMode;
+    localTime: string;
+    onLocalTimeChange: (v: string) => void;
+    fallbackTimezone: string;
+    onFallbackTimezoneChange: (v: string) => void;
+    target: 'list' | 'segment';
+    listId: number | null;
+    segmentId: number | null;
+    /** Earliest delivery as an ISO string; null for "as soon as sent". */
+    start: string | null;
+    disabled?: boolean;
+};
+
+const PREVIEW_DELAY_MS = 400;
+
+function cx(...xs: Array<string | false | null | undefined>) {
+    return xs.filter(Boolean).join(' ');
+}
+
+/** Settings for the local-time and optimized send modes, with a preview of when the audience receives the campaign. */
+export default function SpreadSendOptions({
+    hash,
+    mode,
+    localTime,
+    onLocalTimeChange,
+    fallbackTimezone,
+    onFallbackTimezoneChange,
+    target,
+    listId,
+    segmentId,
+    start,
+    disabled,
+}: Props) {
+    const zones = useMemo(() => timeZoneOptions(), []);
+    const [win, setWin] = useState<DeliveryWindow | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [err, setErr] = useState<string | null>(null);
+
+    const audienceId = target === 'segment' ? segmentId : listId;
+    const validTime = parseLocalTime(localTime) !== null;
+
+    useEffect(() => {
+        setWin(null);
+        setErr(null);
+        if (!audienceId || !validTime) return;
+        const ctrl = new AbortController();
+        const timer = setTimeout(() => {
+            setLoading(true);
+            previewDeliveryWindow(
+                {
+                    hash,
+                    mode,
+                    target,
+                    list_id: listId,
+                    segment_id: segmentId,
+                    start,
+                    local_time: localTime,
+                    fallback_timezone: fallbackTimezone,
+                },
+                ctrl.signal
+            )
+                .then(setWin)
+                .catch((e) => {
+                    if (!isAbortError(e)) setErr(errorMessage(e));
+                })
+                .finally(() => {
+                    if (!ctrl.signal.aborted) setLoading(false);
+                });
+        }, PREVIEW_DELAY_MS);
+        return () => {
+            clearTimeout(timer);
+            ctrl.abort();
+        };
+    }, [hash, mode, target, listId, segmentId, audienceId, start, localTime, validTime, fallbackTimezone]);
+
+    const peak = win ? Math.max(1, ...win.buckets.map((b) => b.count)) : 1;
+    const fmtHour = (iso: string) => new Date(iso).toLocaleString(undefined, { weekday: 'short', hour: 'numeric' });
+
+    return (
+        <div className="space-y-3">
+            <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                    <label className="block text-sm font-medium mb-1">{mode === 'local_time' ? 'Deliver at (recipient time)' : 'Default hour'}</label>
+                    <input
+                        type="time"
+                        value={localTime}
+                        onChange={(e) => onLocalTimeChange(e.target.value)}
+                        disabled={disabled}
+                        className="w-full rounded border px-3 py-2"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                        {mode === 'local_time'
+                            ? 'Each contact gets the campaign at this time in their own timezone.'
+                            : 'Each contact gets the campaign at the hour they usually open; this hour is used when there is no open history yet.'}
+                    </p>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium mb-1">Fallback timezone</label>
+                    <select
+                        value={fallbackTimezone}
+                        onChange={(e) => onFallbackTimezoneChange(e.target.value)}
+                        disabled={disabled}
+                        className="w-full rounded border bg-white px-3 py-2"
+                    >
+                        {!zones.includes(fallbackTimezone) && <option value={fallbackTimezone}>{fallbackTimezone}</option>}
+                        {zones.map((z) => (
+                            <option key={z} value={z}>
+                                {z}
+                            </option>
+                        ))}
+                    </select>
+                    <p className="text-xs text-gray-500 mt-1">Used for contacts without a timezone.</p>
+                </div>
+            </div>
+
+            <div className="rounded border p-3">
+                <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">Delivery window</span>
+                    <span className="text-gray-500">
+                        {loading ? (
+                            <ArrowPathIcon className="h-4 w-4 animate-spin" />
+                        ) : win && win.first && win.last ? (
+                            `${fmtHour(win.first)} – ${fmtHour(win.last)} (your time)`
+                        ) : null}
+                    </span>
+                </div>
+
+                {!audienceId ? (
+                    <p className="mt-2 text-sm text-gray-500">Choose a list or segment to preview delivery times.</p>
+                ) : err ? (
+                    <p className="mt-2 text-sm text-red-600">{err}</p>
+                ) : win && win.buckets.length === 0 ? (
+                    <p className="mt-2 text-sm text-gray-500">The audience is empty.</p>
+                ) : win ? (
+                    <>
+                        <div className="mt-3 flex h-28 items-end gap-px">
+                            {win.buckets.map((b) => (
+                                <div
+                                    key={b.at}
+                                    className={cx('min-w-[3px] flex-1 rounded-t', b.count ? 'bg-indigo-500' : 'bg-gray-100')}
+                                    style={{ height: `${Math.max(2, (b.count / peak) * 100)}%` }}
+                                    title={`${fmtHour(b.at)}: ~${b.count.toLocaleString()}`}
+                                />
+                            ))}
+                        </div>
+                        <p className="mt-2 text-xs text-gray-500">
+                            Estimated from {win.sampled.toLocaleString()} of {win.total.toLocaleString()} contacts
+                            {win.fallback > 0 &&
+                                ` · ${win.fallback.toLocaleString()} sampled ${
+                                    mode === 'local_time' ? 'without a timezone use the fallback' : 'without open history use the audience-wide best hour'
+                                }`}
+                            .
+                        </p>
+                    </>
+                ) : null}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import React from 'react';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import {
+    COMMON_RECIPIENT_DOMAINS,
+    defaultThrottle,
+    effectiveHourlyRate,
+    estimateSendHours,
+    formatHours,
+    validateThrottle,
+} from '@/lib/throttle';
+import type { CampaignThrottle } from '@/types/api';
+
+type Props = {
+    /** null sends without pacing. */
+    value: CampaignThrottle | null;
+    onChange: (next: CampaignThrottle | null) => void;
+    /** Recipient count for the duration estimate, when known. */
+    audienceSize?: number | null;
+    disabled?: boolean;
+};
+
+function toCount(raw: string): number | null {
+    if (!raw.trim()) return null;
+    const n = Number(raw);
+    return Number.isFinite(n) ? Math.trunc(n) : null;
+}
+
+export default function ThrottleEditor({ value, onChange, audienceSize, disabled }: Props) {
+    const t = value;
+    const patch = (p: Partial<CampaignThrottle>) => t && onChange({ ...t, ...p });
+    const problem = t ? validateThrottle(t) : null;
+    const rate = t ? effectiveHourlyRate(t) : null;
+    const hours = t && audienceSize ? estimateSendHours(audienceSize, t) : null;
+    const unusedDomains = COMMON_RECIPIENT_DOMAINS.filter((d) => !t?.domain_caps.some((c) => c.domain.trim().toLowerCase() === d));
+
+    const inputCls = 'w-full rounded border px-3 py-2 disabled:bg-gray-50';
+
+    return (
+        <div className="bg-white border rounded-lg p-4 space-y-4">
+            <div className="flex items-center justify-between gap-3">
+                <div>
+                    <h2 className="text-lg font-semibold">Delivery pacing</h2>
+                    <p className="text-sm text-gray-500">Spread large sends out to protect IP reputation while warming up.</p>
+                </div>
+                <label className="inline-flex items-center gap-2 text-sm">
+                    <input
+                        type="checkbox"
+                        checked={!!t}
+                        onChange={(e) => onChange(e.target.checked ? defaultThrottle() : null)}
+                        disabled={disabled}
+                        className="rounded border-gray-300"
+                    />
+                    Throttle delivery
+                </label>
+            </div>
+
+            {t && (
+                <>
+                    <div className="grid gap-4 md:grid-cols-3">
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Max messages per hour</label>
+                            <input
+                                type="number"
+                                min={1}
+                                value={t.max_per_hour ?? ''}
+                                onChange={(e) => patch({ max_per_hour: toCount(e.target.value) })}
+                                placeholder="No limit"
+                                disabled={disabled}
+                                className={inputCls}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Batch size</label>
+                            <input
+                                type="number"
+                                min={1}
+                                value={t.batch_size ?? ''}
+                                onChange={(e) => patch({ batch_size: toCount(e.target.value) })}
+                                placeholder="One batch"
+                                disabled={disabled}
+                                className={inputCls}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Minutes between batches</label>
+                            <input
+                                type="number"
+                                min={1}
+                                value={t.batch_interval_minutes ?? ''}
+                                onChange={(e) => patch({ batch_interval_minutes: toCount(e.target.value) })}
+                                placeholder="—"
+                                disabled={disabled}
+                                className={inputCls}
+                            />
+                        </div>
+                    </div>
+
+                    <div>
+                        <div className="flex items-center justify-between">
+                            <span className="block text-sm font-medium">Per-domain caps (messages per hour)</span>
+                            <div className="flex flex-wrap gap-2 text-xs">
+                                {unusedDomains.map((d) => (
+                                    <button
+                                        key={d}
+                                        type="button"
+                                        onClick={() => patch({ domain_caps: [...t.domain_caps, { domain: d, max_per_hour: 1000 }] })}
+                                        disabled={disabled}
+                                        className="rounded-full border px-2 py-0.5 text-gray-600 hover:bg-gray-50 disabled:opacity-60"
+                                    >
+                                        + {d}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="mt-2 space-y-2">
+                            {t.domain_caps.map((c, i) => (
+                                <div key={i} className="flex items-center gap-2">
+                                    <input
+                                        value={c.domain}
+                                        onChange={(e) =>
+                                            patch({ domain_caps: t.domain_caps.map((x, j) => (j === i ? { ...x, domain: e.target.value } : x)) })
+                                        }
+                                        placeholder="example.com"
+                                        disabled={disabled}
+                                        className={inputCls}
+                                    />
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        value={c.max_per_hour || ''}
+                                        onChange={(e) =>
+                                            patch({
+                                                domain_caps: t.domain_caps.map((x, j) => (j === i ? { ...x, max_per_hour: toCount(e.target.value) ?? 0 } : x)),
+                                            })
+                                        }
+                                        disabled={disabled}
+                                        className={`${inputCls} max-w-[10rem]`}
+                                    />
+                                    <button
+                                        type="button"
+                                        onClick={() => patch({ domain_caps: t.domain_caps.filter((_, j) => j !== i) })}
+                                        disabled={disabled}
+                                        className="inline-flex h-9 items-center justify-center rounded border px-2 text-gray-500 hover:bg-gray-50 hover:text-red-600 disabled:opacity-40"
+                                        title={`Remove cap for ${c.domain || 'domain'}`}
+                                    >
+                                        <TrashIcon className="h-4 w-4" />
+                                    </button>
+                                </div>
+                            ))}
+                            <button
+                                type="button"
+                                onClick={() => patch({ domain_caps: [...t.domain_caps, { domain: '', max_per_hour: 1000 }] })}
+                                disabled={disabled}
+                                className="inline-flex items-center text-sm font-medium text-blue-700 hover:underline disabled:opacity-60"
+                            >
+                                <PlusIcon className="h-4 w-4 mr-1" />
+                                Add domain cap
+                            </button>
+                        </div>
+                    </div>
+
+                    {problem ? (
+                        <div className="text-sm text-amber-700">{problem}</div>
+                    ) : (
+                        <p className="text-sm text-gray-600">
+                            {rate === null
+                                ? 'Only the per-domain caps apply.'
+                                : `Up to ${Math.round(rate).toLocaleString()} messages per hour`}
+                            {rate !== null && hours !== null && audienceSize
+                                ? ` · about ${formatHours(hours)} for ${audienceSize.toLocaleString()} recipients${t.domain_caps.length ? ', longer if a capped domain is the bottleneck' : ''}.`
+                                : rate !== null
+                                  ? '.'
+                                  : ''}
+                        </p>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
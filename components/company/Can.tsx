@@ -0,0 +1,36 @@
+'use client';
+
+import React from 'react';
+import { ShieldExclamationIcon } from '@heroicons/react/24/outline';
+import { useCompanyRole } from '@/components/company/CompanyRoleProvider';
+import type { Permission } from '@/lib/permissions';
+
+type Props = {
+    permission: Permission;
+    /** Rendered when the role lacks the permission (nothing by default). */
+    fallback?: React.ReactNode;
+    children: React.ReactNode;
+};
+
+/** Renders `children` only if the current user's company role grants `permission`. */
+export default function Can({ permission, fallback = null, children }: Props) {
+    const { can, loading } = useCompanyRole();
+    if (loading) return null;
+    return <>{can(permission) ? children : fallback}</>;
+}
+
+/** Page-level fallback for `<Can>` around whole forms. */
+export function AccessDenied({ message = "Your role in this company doesn't allow this action." }: { message?: string }) {
+    const { error } = useCompanyRole();
+    return (
+        <div className="mx-auto max-w-lg rounded-xl border border-amber-200 bg-amber-50 p-6 text-center">
+            <ShieldExclamationIcon className="mx-auto h-8 w-8 text-amber-500" />
+            <h2 className="mt-2 text-sm font-semibold text-amber-900">Not allowed</h2>
+            {error ? (
+                <p className="mt-1 text-sm text-amber-800">Your role in this company could not be loaded: {error}. Reload the page to try again.</p>
+            ) : (
+                <p className="mt-1 text-sm text-amber-800">{message} Ask a company owner or admin for access.</p>
+            )}
+        </div>
+    );
+}
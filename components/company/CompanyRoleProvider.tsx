@@ -0,0 +1,59 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { api, errorMessage, isAbortError } from '@/lib/api';
+import { hasPermission, type Permission } from '@/lib/permissions';
+
+type CompanyRoleState = {
+    hash: string | null;
+    roles: string[];
+    loading: boolean;
+    /** Why the roles could not be loaded; `roles` is empty meanwhile. */
+    error: string | null;
+    can: (permission: Permission) => boolean;
+};
+
+const CompanyRoleContext = createContext<CompanyRoleState>({
+    hash: null,
+    roles: [],
+    loading: false,
+    error: null,
+    can: () => false,
+});
+
+type Props = { hash: string; children: React.ReactNode };
+
+/** Loads the signed-in user's roles in company `hash` once and shares them with the subtree. */
+export default function CompanyRoleProvider({ hash, children }: Props) {
+    const [roles, setRoles] = useState<string[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const ctrl = new AbortController();
+        setLoading(true);
+        setError(null);
+        api.companies
+            .me(hash, { signal: ctrl.signal })
+            .then((data) => setRoles(Array.isArray(data.roles) ? data.roles : []))
+            .catch((e) => {
+                if (isAbortError(e)) return;
+                // no roles means read-only: the backend still enforces every write
+                setRoles([]);
+                setError(errorMessage(e, 'Your role in this company could not be loaded.'));
+            })
+            .finally(() => {
+                if (!ctrl.signal.aborted) setLoading(false);
+            });
+        return () => ctrl.abort();
+    }, [hash]);
+
+    const can = useCallback((permission: Permission) => hasPermission(roles, permission), [roles]);
+    const value = useMemo(() => ({ hash, roles, loading, error, can }), [hash, roles, loading, error, can]);
+
+    return <CompanyRoleContext.Provider value={value}>{children}</CompanyRoleContext.Provider>;
+}
+
+export function useCompanyRole(): CompanyRoleState {
+    return useContext(CompanyRoleContext);
+}
@@ -19,6 +19,7 @@ import {
     XMarkIcon,
     Bars3Icon,
 } from '@heroicons/react/24/outline';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
 
 type Item = {
     title: string;
@@ -60,18 +61,12 @@ export default function CompanySidebar() {
     }, [pathname]);
 
     // Fetch company name when hash is available
-    const authHeaders = (): HeadersInit => {
-        const token = typeof window !== 'undefined' ? localStorage.getItem('jwt') : null;
-        return { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) };
-    };
 
     useEffect(() => {
         if (!hash) return;
         (async () => {
             try {
-                const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/companies/${hash}/name`, {
-                    headers: authHeaders(),
-                });
+                const res = await apiFetch(`${BACKEND_URL}/companies/${hash}/name`);
                 if (!res.ok) throw new Error(`Failed: ${res.status}`);
                 const data = await res.json();
                 setCompanyName(data?.name ?? '—');
@@ -0,0 +1,40 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { api } from '@/lib/api';
+import type { CompanyPlan, PlanCapabilities } from '@/types/api';
+
+type PlanCapabilitiesState = {
+    capabilities: PlanCapabilities;
+    loading: boolean;
+};
+
+function capabilitiesOf(plan: CompanyPlan | null): PlanCapabilities {
+    const features = plan?.features;
+    if (!features || Array.isArray(features)) return {};
+    return features.capabilities ?? {};
+}
+
+/** Capability flags of company `hash`'s current plan; empty (everything off) until loaded or on error. */
+export function usePlanCapabilities(hash: string | null | undefined): PlanCapabilitiesState {
+    const [capabilities, setCapabilities] = useState<PlanCapabilities>({});
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        if (!hash) return;
+        const ctrl = new AbortController();
+        setLoading(true);
+        api.companies
+            .plan(hash, { signal: ctrl.signal })
+            .then((plan) => setCapabilities(capabilitiesOf(plan)))
+            .catch(() => {
+                if (!ctrl.signal.aborted) setCapabilities({});
+            })
+            .finally(() => {
+                if (!ctrl.signal.aborted) setLoading(false);
+            });
+        return () => ctrl.abort();
+    }, [hash]);
+
+    return { capabilities, loading };
+}
@@ -23,9 +23,8 @@ export default function RightMenu({ user }: RightMenuProps) {
         : null;
 
     const handleLogout = () => {
-        fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/auth/logout`, { method: "POST" })
+        fetch("/api/auth/logout", { method: "POST" })
             .then(() => {
-                localStorage.removeItem("jwt");
                 window.location.href = "/login";
             });
     };
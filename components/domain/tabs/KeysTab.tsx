@@ -20,32 +20,20 @@ import {
 import {
     KeyIcon as KeySolid,
 } from '@heroicons/react/24/solid';
+import { api, errorMessage, isAbortError } from '@/lib/api';
+import type { DomainApiKey } from '@/types/api';
+import Can from '@/components/company/Can';
 
 export type KeysTabProps = {
-    backendUrl: string;
     companyHash: string;
     domainId: number;
-    authHeaders: () => HeadersInit;
 };
 
-type ApiKeyRaw = {
-    id: number;
-    label: string | null;
-    prefix: string;
-    scopes: string[] | string | null;
-    last_used_at: string | null;
-    revoked_at: string | null;
-    created_at: string;
-    domain_id?: number | null;
-};
-
-type ApiKey = Omit<ApiKeyRaw, 'scopes'> & { scopes: string[] };
+type ApiKey = Omit<DomainApiKey, 'scopes'> & { scopes: string[] };
 
 type DomainDetail = {
     id: number;
-    domain: string;
-    hash: string;
-    company: { id: number; name: string; hash: string };
+    domain: string | null;
 };
 
 function formatDate(s?: string | null, format: 'full' | 'short' = 'full'): string {
@@ -201,18 +189,20 @@ function KeyCard({
                         </div>
                     </div>
 
-                    <button
-                        onClick={() => onDelete(apiKey.id)}
-                        disabled={isDeleting}
-                        className={`ml-3 p-2 rounded-lg transition-all ${
-                            isDeleting
-                                ? 'bg-red-50 text-red-400 cursor-not-allowed'
-                                : 'bg-red-100 text-red-600 hover:bg-red-200 hover:scale-105'
-                        }`}
-                        title="Delete API key"
-                    >
-                        <TrashIcon className={`h-5 w-5 ${isDeleting ? 'animate-pulse' : ''}`} />
-                    </button>
+                    <Can permission="apikey.manage">
+                        <button
+                            onClick={() => onDelete(apiKey.id)}
+                            disabled={isDeleting}
+                            className={`ml-3 p-2 rounded-lg transition-all ${
+                                isDeleting
+                                    ? 'bg-red-50 text-red-400 cursor-not-allowed'
+                                    : 'bg-red-100 text-red-600 hover:bg-red-200 hover:scale-105'
+                            }`}
+                            title="Delete API key"
+                        >
+                            <TrashIcon className={`h-5 w-5 ${isDeleting ? 'animate-pulse' : ''}`} />
+                        </button>
+                    </Can>
                 </div>
             </div>
         </div>
@@ -220,10 +210,8 @@ function KeyCard({
 }
 
 export default function KeysTab({
-                                    backendUrl,
                                     companyHash,
                                     domainId,
-                                    authHeaders,
                                 }: KeysTabProps) {
     const router = useRouter();
 
@@ -234,27 +222,15 @@ export default function KeysTab({
     const [error, setError] = React.useState<string | null>(null);
     const [deletingId, setDeletingId] = React.useState<number | null>(null);
 
-    const listEndpoint = React.useMemo(
-        () => `${backendUrl}/companies/${companyHash}/domains/${domainId}/apikeys`,
-        [backendUrl, companyHash, domainId],
-    );
-
-    const domainEndpoint = React.useMemo(
-        () => `${backendUrl}/companies/${companyHash}/domains/${domainId}`,
-        [backendUrl, companyHash, domainId],
-    );
-
     // Load keys
     React.useEffect(() => {
-        let abort = false;
+        const controller = new AbortController();
 
         (async () => {
             setLoading(true);
             setError(null);
             try {
-                const res = await fetch(listEndpoint, { headers: authHeaders() });
-                if (!res.ok) throw new Error(`Failed to load API keys (${res.status})`);
-                const data: ApiKeyRaw[] = await res.json();
+                const data = await api.domains.apiKeys(companyHash, domainId, { signal: controller.signal });
 
                 const normalized: ApiKey[] = (data || []).map((k) => {
                     let scopes: string[] = [];
@@ -266,50 +242,42 @@ export default function KeysTab({
                     return { ...k, scopes };
                 });
 
-                if (!abort) setKeys(normalized);
+                setKeys(normalized);
             } catch (e) {
-                if (!abort) setError(e instanceof Error ? e.message : String(e));
+                if (!isAbortError(e)) setError(errorMessage(e, 'Failed to load API keys'));
             } finally {
-                if (!abort) setLoading(false);
+                if (!controller.signal.aborted) setLoading(false);
             }
         })();
 
-        return () => {
-            abort = true;
-        };
-    }, [listEndpoint, authHeaders]);
+        return () => controller.abort();
+    }, [companyHash, domainId]);
 
     // Load domain details
     React.useEffect(() => {
-        let abort = false;
+        const controller = new AbortController();
 
         (async () => {
             try {
-                const res = await fetch(domainEndpoint, { headers: authHeaders() });
-                if (!res.ok) throw new Error(`Failed to load domain (${res.status})`);
-                const data: DomainDetail = await res.json();
-                if (!abort) setDomainDetail(data);
+                const data = await api.domains.get(companyHash, domainId, { signal: controller.signal });
+                setDomainDetail(data);
             } catch (e) {
-                console.error(e);
+                if (!isAbortError(e)) console.error(e);
             }
         })();
 
-        return () => {
-            abort = true;
-        };
-    }, [domainEndpoint, authHeaders]);
+        return () => controller.abort();
+    }, [companyHash, domainId]);
 
     async function handleDelete(keyId: number) {
         if (!confirm('Are you sure you want to delete this API key? This action cannot be undone.')) return;
 
         setDeletingId(keyId);
         try {
-            const deleteUrl = `${backendUrl}/companies/${companyHash}/domains/${domainId}/apikeys/${keyId}`;
-            const res = await fetch(deleteUrl, { method: 'DELETE', headers: authHeaders() });
-            if (!res.ok) throw new Error(`Delete failed (${res.status})`);
+            await api.domains.removeApiKey(companyHash, domainId, keyId);
             setKeys((arr) => arr.filter((k) => k.id !== keyId));
         } catch (e) {
-            alert(e instanceof Error ? e.message : String(e));
+            alert(errorMessage(e));
         } finally {
             setDeletingId(null);
         }
@@ -375,13 +343,15 @@ export default function KeysTab({
                                 </p>
                             </div>
                         </div>
-                        <Link
-                            href={createHref}
-                            className="inline-flex items-center gap-2 rounded-lg bg-white/20 backdrop-blur px-4 py-2 text-sm font-medium text-white hover:bg-white/30 transition-all"
-                        >
-                            <PlusIcon className="h-4 w-4" />
-                            Create New Key
-                        </Link>
+                        <Can permission="apikey.manage">
+                            <Link
+                                href={createHref}
+                                className="inline-flex items-center gap-2 rounded-lg bg-white/20 backdrop-blur px-4 py-2 text-sm font-medium text-white hover:bg-white/30 transition-all"
+                            >
+                                <PlusIcon className="h-4 w-4" />
+                                Create New Key
+                            </Link>
+                        </Can>
                     </div>
                 </div>
 
@@ -427,13 +397,15 @@ export default function KeysTab({
                         <p className="mt-2 text-sm text-gray-500">
                             Get started by creating your first API key for this domain.
                         </p>
-                        <Link
-                            href={createHref}
-                            className="mt-4 inline-flex items-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 transition-colors"
-                        >
-                            <PlusIcon className="h-4 w-4" />
-                            Create Your First Key
-                        </Link>
+                        <Can permission="apikey.manage">
+                            <Link
+                                href={createHref}
+                                className="mt-4 inline-flex items-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 transition-colors"
+                            >
+                                <PlusIcon className="h-4 w-4" />
+                                Create Your First Key
+                            </Link>
+                        </Can>
                     </div>
                 </div>
             ) : (
@@ -459,15 +431,17 @@ export default function KeysTab({
                     Back to Domain
                 </button>
 
-                {keys.length > 0 && (
-                    <Link
-                        href={createHref}
-                        className="inline-flex items-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 transition-colors shadow-sm"
-                    >
-                        <PlusIcon className="h-4 w-4" />
-                        Add Another Key
-                    </Link>
-                )}
+                <Can permission="apikey.manage">
+                    {keys.length > 0 && (
+                        <Link
+                            href={createHref}
+                            className="inline-flex items-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 transition-colors shadow-sm"
+                        >
+                            <PlusIcon className="h-4 w-4" />
+                            Add Another Key
+                        </Link>
+                    )}
+                </Can>
             </div>
         </div>
     );
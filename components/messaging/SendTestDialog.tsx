@@ -0,0 +1,322 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { ArrowTopRightOnSquareIcon, CheckCircleIcon, PaperAirplaneIcon, XCircleIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { api, errorMessage, isAbortError } from '@/lib/api';
+import type { Contact, DomainSummary, TestSendInput, TestSendResult } from '@/types/api';
+
+/** Seed inboxes per proof send. */
+export const MAX_TEST_RECIPIENTS = 5;
+
+type Props = {
+    open: boolean;
+    onClose: () => void;
+    hash: string;
+    /** Performs the send for the template or campaign being edited. */
+    send: (body: TestSendInput) => Promise<TestSendResult>;
+    /** Shown above the form, e.g. which version of the content is sent. */
+    note?: string;
+    defaultDomainId?: number | null;
+    defaultSubject?: string | null;
+    /** Whether the subject can be changed; campaigns send with their own subject. */
+    subjectEditable?: boolean;
+    /** The editor's preview data; offered as the merge-data source when given. */
+    previewData?: Record<string, unknown>;
+};
+
+type DataSource = 'preview' | 'contact' | 'none';
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function cx(...xs: Array<string | false | null | undefined>) {
+    return xs.filter(Boolean).join(' ');
+}
+
+function isVerified(d: DomainSummary) {
+    return (d.statusDomain ?? d.status) === 'active';
+}
+
+function parseRecipients(raw: string): string[] {
+    return [...new Set(raw.split(/[\s,;]+/).map((s) => s.trim().toLowerCase()).filter(Boolean))];
+}
+
+export default function SendTestDialog({
+    open,
+    onClose,
+    hash,
+    send,
+    note,
+    defaultDomainId,
+    defaultSubject,
+    subjectEditable = true,
+    previewData,
+}: Props) {
+    const [domains, setDomains] = useState<DomainSummary[]>([]);
+    const [domainsErr, setDomainsErr] = useState<string | null>(null);
+    const [domainId, setDomainId] = useState<number | null>(defaultDomainId ?? null);
+    const [localPart, setLocalPart] = useState('test');
+    const [fromName, setFromName] = useState('');
+    const [subject, setSubject] = useState(defaultSubject ?? '');
+    const [recipients, setRecipients] = useState('');
+
+    const [source, setSource] = useState<DataSource>(previewData ? 'preview' : 'none');
+    const [contactEmail, setContactEmail] = useState('');
+    const [contact, setContact] = useState<Contact | null>(null);
+    const [lookupErr, setLookupErr] = useState<string | null>(null);
+
+    const [sending, setSending] = useState(false);
+    const [err, setErr] = useState<string | null>(null);
+    const [result, setResult] = useState<TestSendResult | null>(null);
+
+    useEffect(() => {
+        if (!open) return;
+        setResult(null);
+        setErr(null);
+        setSubject(defaultSubject ?? '');
+        const ctrl = new AbortController();
+        api.domains
+            .list(hash, { signal: ctrl.signal })
+            .then((list) => {
+                const verified = list.filter(isVerified);
+                setDomains(verified);
+                setDomainId((cur) =>
+                    verified.some((d) => d.id === (cur ?? defaultDomainId)) ? (cur ?? defaultDomainId ?? null) : (verified[0]?.id ?? null)
+                );
+            })
+            .catch((e) => {
+                if (!isAbortError(e)) setDomainsErr(errorMessage(e));
+            });
+        return () => ctrl.abort();
+    }, [open, hash, defaultDomainId, defaultSubject]);
+
+    const to = useMemo(() => parseRecipients(recipients), [recipients]);
+    const invalid = to.filter((e) => !EMAIL_RE.test(e));
+    const domain = domains.find((d) => d.id === domainId) ?? null;
+
+    if (!open) return null;
+
+    async function lookupContact() {
+        setLookupErr(null);
+        setContact(null);
+        try {
+            setContact(await api.contacts.lookup(hash, contactEmail.trim()));
+        } catch (e) {
+            setLookupErr(errorMessage(e));
+        }
+    }
+
+    const problems = [
+        !domain && 'Pick a verified domain.',
+        !/^[a-z0-9._%+-]+$/i.test(localPart) && 'Enter a valid sender address.',
+        subjectEditable && !subject.trim() && 'Enter a subject.',
+        to.length === 0 && 'Add at least one recipient.',
+        to.length > MAX_TEST_RECIPIENTS && `At most ${MAX_TEST_RECIPIENTS} recipients per test.`,
+        invalid.length > 0 && `Invalid address: ${invalid.join(', ')}`,
+        source === 'contact' && !contact && 'Look up the contact to render with.',
+    ].filter((p): p is string => Boolean(p));
+
+    async function submit() {
+        if (!domain || problems.length) return;
+        setSending(true);
+        setErr(null);
+        setResult(null);
+        try {
+            setResult(
+                await send({
+                    domain_id: domain.id,
+                    from_email: `${localPart}@${domain.domain}`,
+                    from_name: fromName.trim() || null,
+                    subject: subjectEditable ? subject.trim() : null,
+                    to,
+                    data: source === 'preview' ? (previewData ?? null) : null,
+                    contact_id: source === 'contact' ? (contact?.id ?? null) : null,
+                })
+            );
+        } catch (e) {
+            setErr(errorMessage(e));
+        } finally {
+            setSending(false);
+        }
+    }
+
+    const inputCls = 'w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4" role="dialog" aria-modal="true">
+            <div className="absolute inset-0 bg-black/50" onClick={() => (!sending ? onClose() : null)} />
+            <div className="relative w-full max-w-lg rounded-xl bg-white shadow-xl">
+                <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+                    <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+                        <PaperAirplaneIcon className="h-5 w-5 text-indigo-600" />
+                        Send test
+                    </h3>
+                    <button onClick={onClose} disabled={sending} className="text-gray-400 hover:text-gray-600">
+                        <XMarkIcon className="h-5 w-5" />
+                    </button>
+                </div>
+
+                <div className="space-y-4 px-6 py-5 text-sm">
+                    {note && <p className="rounded-lg bg-gray-50 px-3 py-2 text-xs text-gray-600">{note}</p>}
+
+                    <div>
+                        <label className="mb-1 block font-medium text-gray-700">From</label>
+                        {domainsErr ? (
+                            <p className="text-red-600">{domainsErr}</p>
+                        ) : domains.length === 0 ? (
+                            <p className="text-gray-500">
+                                No verified domains yet.{' '}
+                                <Link href={`/dashboard/company/${hash}/domain`} className="text-indigo-600 hover:underline">
+                                    Verify a domain
+                                </Link>{' '}
+                                to send tests.
+                            </p>
+                        ) : (
+                            <div className="flex items-center gap-2">
+                                <input value={localPart} onChange={(e) => setLocalPart(e.target.value)} className={inputCls} />
+                                <span className="text-gray-500">@</span>
+                                <select
+                                    value={domainId ?? ''}
+                                    onChange={(e) => setDomainId(Number(e.target.value))}
+                                    className={inputCls}
+                                >
+                                    {domains.map((d) => (
+                                        <option key={d.id} value={d.id}>
+                                            {d.domain}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+                        <input
+                            value={fromName}
+                            onChange={(e) => setFromName(e.target.value)}
+                            placeholder="Sender name (optional)"
+                            className={cx(inputCls, 'mt-2')}
+                        />
+                    </div>
+
+                    <div>
+                        <label className="mb-1 block font-medium text-gray-700">Subject</label>
+                        <input
+                            value={subject}
+                            onChange={(e) => setSubject(e.target.value)}
+                            disabled={!subjectEditable}
+                            className={cx(inputCls, !subjectEditable && 'bg-gray-50 text-gray-500')}
+                        />
+                    </div>
+
+                    <div>
+                        <label className="mb-1 block font-medium text-gray-700">
+                            Recipients <span className="font-normal text-gray-400">(up to {MAX_TEST_RECIPIENTS})</span>
+                        </label>
+                        <textarea
+                            value={recipients}
+                            onChange={(e) => setRecipients(e.target.value)}
+                            rows={2}
+                            placeholder="you@example.com, qa@example.com"
+                            className={inputCls}
+                        />
+                    </div>
+
+                    <div>
+                        <label className="mb-1 block font-medium text-gray-700">Merge data</label>
+                        <div className="flex flex-wrap gap-4">
+                            {previewData && (
+                                <label className="inline-flex items-center gap-2">
+                                    <input type="radio" checked={source === 'preview'} onChange={() => setSource('preview')} />
+                                    Editor test data
+                                </label>
+                            )}
+                            <label className="inline-flex items-center gap-2">
+                                <input type="radio" checked={source === 'contact'} onChange={() => setSource('contact')} />
+                                A real contact
+                            </label>
+                            {!previewData && (
+                                <label className="inline-flex items-center gap-2">
+                                    <input type="radio" checked={source === 'none'} onChange={() => setSource('none')} />
+                                    Sample values
+                                </label>
+                            )}
+                        </div>
+                        {source === 'contact' && (
+                            <div className="mt-2 flex items-center gap-2">
+                                <input
+                                    type="email"
+                                    value={contactEmail}
+                                    onChange={(e) => setContactEmail(e.target.value)}
+                                    placeholder="contact@example.com"
+                                    className={inputCls}
+                                />
+                                <button
+                                    type="button"
+                                    onClick={lookupContact}
+                                    disabled={!contactEmail.trim()}
+                                    className="rounded-lg bg-white px-3 py-2 font-medium text-gray-700 ring-1 ring-gray-200 hover:bg-gray-50 disabled:opacity-50"
+                                >
+                                    Look up
+                                </button>
+                            </div>
+                        )}
+                        {source === 'contact' && contact && (
+                            <p className="mt-1 text-xs text-emerald-700">Rendering as {contact.name || contact.email}</p>
+                        )}
+                        {source === 'contact' && lookupErr && <p className="mt-1 text-xs text-red-600">{lookupErr}</p>}
+                    </div>
+
+                    {err && <div className="rounded-lg bg-red-50 p-3 text-red-700">{err}</div>}
+
+                    {result && (
+                        <ul className="divide-y divide-gray-100 rounded-lg ring-1 ring-gray-200">
+                            {result.messages.map((m) => (
+                                <li key={m.to} className="flex items-center justify-between gap-2 px-3 py-2">
+                                    <span className="flex min-w-0 items-center gap-2">
+                                        {m.error ? (
+                                            <XCircleIcon className="h-4 w-4 shrink-0 text-red-500" />
+                                        ) : (
+                                            <CheckCircleIcon className="h-4 w-4 shrink-0 text-emerald-500" />
+                                        )}
+                                        <span className="truncate">{m.to}</span>
+                                        {m.error && <span className="truncate text-xs text-red-600">{m.error}</span>}
+                                    </span>
+                                    {m.messageId && (
+                                        <Link
+                                            href={`/dashboard/company/${hash}/messaging/messages/${encodeURIComponent(m.messageId)}`}
+                                            className="inline-flex shrink-0 items-center gap-1 text-xs font-medium text-indigo-600 hover:underline"
+                                        >
+                                            View message
+                                            <ArrowTopRightOnSquareIcon className="h-3.5 w-3.5" />
+                                        </Link>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                <div className="flex items-center justify-between gap-3 border-t border-gray-200 px-6 py-4">
+                    <p className="text-xs text-amber-700">{!result && problems[0]}</p>
+                    <div className="flex gap-3">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            disabled={sending}
+                            className="rounded-lg border border-gray-300 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                        >
+                            {result ? 'Done' : 'Cancel'}
+                        </button>
+                        <button
+                            type="button"
+                            onClick={submit}
+                            disabled={sending || problems.length > 0}
+                            className="inline-flex items-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-500 disabled:opacity-50"
+                        >
+                            <PaperAirplaneIcon className="h-4 w-4" />
+                            {sending ? 'Sending…' : result ? 'Send again' : 'Send test'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
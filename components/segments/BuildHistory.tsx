@@ -0,0 +1,151 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+import { api, errorMessage, isAbortError } from '@/lib/api';
+import type { ApiPaged, SegmentBuild, SegmentBuildStatus } from '@/types/api';
+
+type Props = {
+    hash: string;
+    segmentId: number;
+    /** Bump to reload, e.g. after Build Now. */
+    version: number;
+};
+
+const PER_PAGE = 20;
+
+const STATUS_BADGE: Record<SegmentBuildStatus, string> = {
+    running: 'bg-blue-50 text-blue-700',
+    succeeded: 'bg-emerald-50 text-emerald-700',
+    failed: 'bg-red-50 text-red-700',
+};
+
+function toLocale(iso: string | null) {
+    return iso ? new Date(iso).toLocaleString() : '—';
+}
+
+function duration(from: string | null, to: string | null): string {
+    if (!from || !to) return '—';
+    const ms = Math.max(0, Date.parse(to) - Date.parse(from));
+    if (ms < 1000) return `${ms}ms`;
+    const s = Math.round(ms / 1000);
+    if (s < 60) return `${s}s`;
+    return `${Math.floor(s / 60)}m ${s % 60}s`;
+}
+
+function Pager({ meta, onPage }: { meta: ApiPaged<unknown>['meta']; onPage: (page: number) => void }) {
+    if (meta.totalPages <= 1) return null;
+    return (
+        <div className="flex items-center justify-between border-t px-3 py-2 text-sm">
+            <span className="text-gray-600">
+                Page <span className="font-medium">{meta.page}</span> of <span className="font-medium">{meta.totalPages}</span> · {meta.total.toLocaleString()}
+            </span>
+            <div className="flex items-center gap-2">
+                <button
+                    type="button"
+                    onClick={() => onPage(meta.page - 1)}
+                    disabled={meta.page <= 1}
+                    className="px-3 py-1.5 rounded border border-gray-300 disabled:opacity-50 hover:bg-gray-50 text-sm"
+                >
+                    Previous
+                </button>
+                <button
+                    type="button"
+                    onClick={() => onPage(meta.page + 1)}
+                    disabled={meta.page >= meta.totalPages}
+                    className="px-3 py-1.5 rounded border border-gray-300 disabled:opacity-50 hover:bg-gray-50 text-sm"
+                >
+                    Next
+                </button>
+            </div>
+        </div>
+    );
+}
+
+/** Past builds of a segment, newest first, with their size and the members each one added and removed. */
+export default function BuildHistory({ hash, segmentId, version }: Props) {
+    const [page, setPage] = useState(1);
+    const [data, setData] = useState<ApiPaged<SegmentBuild> | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [err, setErr] = useState<string | null>(null);
+    const [reload, setReload] = useState(0);
+
+    useEffect(() => {
+        const ctrl = new AbortController();
+        setLoading(true);
+        setErr(null);
+        api.segments
+            .builds(hash, segmentId, { signal: ctrl.signal, query: { page, perPage: PER_PAGE } })
+            .then(setData)
+            .catch((e) => {
+                if (!isAbortError(e)) setErr(errorMessage(e));
+            })
+            .finally(() => {
+                if (!ctrl.signal.aborted) setLoading(false);
+            });
+        return () => ctrl.abort();
+    }, [hash, segmentId, page, version, reload]);
+
+    return (
+        <div>
+            <div className="flex items-center justify-between px-3 py-2">
+                <span className="text-xs text-gray-500">{loading ? 'Loading…' : data ? `${data.meta.total.toLocaleString()} builds` : ''}</span>
+                <button
+                    type="button"
+                    onClick={() => setReload((n) => n + 1)}
+                    className="inline-flex items-center gap-1 rounded border border-gray-300 px-2 py-1 text-xs hover:bg-gray-50"
+                >
+                    <ArrowPathIcon className="h-3.5 w-3.5" />
+                    Refresh
+                </button>
+            </div>
+
+            {err && <p className="px-3 pb-2 text-sm text-red-600">{err}</p>}
+
+            <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50 text-left text-xs uppercase tracking-wider text-gray-500">
+                        <tr>
+                            <th className="px-3 py-2">Started</th>
+                            <th className="px-3 py-2">Trigger</th>
+                            <th className="px-3 py-2">Status</th>
+                            <th className="px-3 py-2">Duration</th>
+                            <th className="px-3 py-2 text-right">Contacts</th>
+                            <th className="px-3 py-2 text-right">Added</th>
+                            <th className="px-3 py-2 text-right">Removed</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                        {data && data.items.length === 0 && (
+                            <tr>
+                                <td colSpan={7} className="px-3 py-8 text-center text-gray-500">
+                                    Not built yet.
+                                </td>
+                            </tr>
+                        )}
+                        {data?.items.map((b) => (
+                            <tr key={b.id} className="hover:bg-gray-50">
+                                <td className="px-3 py-2 whitespace-nowrap">{toLocale(b.started_at)}</td>
+                                <td className="px-3 py-2 text-gray-600">{b.trigger === 'schedule' ? 'Scheduled' : 'Manual'}</td>
+                                <td className="px-3 py-2">
+                                    <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_BADGE[b.status]}`}>{b.status}</span>
+                                    {b.error && (
+                                        <span className="ml-2 text-xs text-red-600" title={b.error}>
+                                            {b.error.length > 60 ? `${b.error.slice(0, 60)}…` : b.error}
+                                        </span>
+                                    )}
+                                </td>
+                                <td className="px-3 py-2 tabular-nums">{b.finished_at ? duration(b.started_at, b.finished_at) : 'running'}</td>
+                                <td className="px-3 py-2 text-right tabular-nums">{b.count?.toLocaleString() ?? '—'}</td>
+                                <td className="px-3 py-2 text-right tabular-nums text-emerald-700">{b.added ? `+${b.added.toLocaleString()}` : b.added === 0 ? '0' : '—'}</td>
+                                <td className="px-3 py-2 text-right tabular-nums text-red-700">{b.removed ? `−${b.removed.toLocaleString()}` : b.removed === 0 ? '0' : '—'}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            {data && <Pager meta={data.meta} onPage={setPage} />}
+        </div>
+    );
+}
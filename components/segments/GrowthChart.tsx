@@ -0,0 +1,116 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowTrendingDownIcon, ArrowTrendingUpIcon } from '@heroicons/react/24/outline';
+import { Bar, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { api, errorMessage, isAbortError } from '@/lib/api';
+import { type GrowthPoint, growthSeries, netGrowth } from '@/lib/segment-rules/schedule';
+
+type Props = {
+    hash: string;
+    segmentId: number;
+    /** Bump to reload, e.g. after Build Now. */
+    version: number;
+};
+
+/** The chart reads the latest builds only; older ones stay in the history table. */
+const MAX_BUILDS = 200;
+
+const RANGES: Array<{ days: number | null; label: string }> = [
+    { days: 7, label: '7 days' },
+    { days: 30, label: '30 days' },
+    { days: 90, label: '90 days' },
+    { days: null, label: 'All' },
+];
+
+const DAY = 86_400_000;
+
+const inputCls = 'rounded-lg border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+const shortDate = (t: number) => new Date(t).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+/** Segment size after each successful build, with the members it added and removed. */
+export default function GrowthChart({ hash, segmentId, version }: Props) {
+    const [points, setPoints] = useState<GrowthPoint[] | null>(null);
+    const [err, setErr] = useState<string | null>(null);
+    const [days, setDays] = useState<number | null>(30);
+
+    useEffect(() => {
+        const ctrl = new AbortController();
+        setErr(null);
+        api.segments
+            .builds(hash, segmentId, { signal: ctrl.signal, query: { page: 1, perPage: MAX_BUILDS } })
+            .then((res) => setPoints(growthSeries(res.items)))
+            .catch((e) => {
+                if (!isAbortError(e)) setErr(errorMessage(e));
+            });
+        return () => ctrl.abort();
+    }, [hash, segmentId, version]);
+
+    const shown = useMemo(() => {
+        if (!points || days === null) return points ?? [];
+        const since = Date.now() - days * DAY;
+        return points.filter((p) => p.at >= since);
+    }, [points, days]);
+
+    const net = netGrowth(shown);
+
+    if (err) return <p className="text-sm text-red-600">{err}</p>;
+    if (!points) return <div className="h-64 animate-pulse rounded-lg bg-gray-100" />;
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between gap-3">
+                <div className="text-sm text-gray-600">
+                    {net ? (
+                        <span className={`inline-flex items-center gap-1 font-medium ${net.delta < 0 ? 'text-red-700' : 'text-emerald-700'}`}>
+                            {net.delta < 0 ? <ArrowTrendingDownIcon className="h-4 w-4" /> : <ArrowTrendingUpIcon className="h-4 w-4" />}
+                            {net.delta > 0 ? '+' : ''}
+                            {net.delta.toLocaleString()}
+                            {net.percent !== null && ` (${net.percent > 0 ? '+' : ''}${net.percent.toFixed(1)}%)`}
+                            <span className="font-normal text-gray-500">over {shown.length} builds</span>
+                        </span>
+                    ) : (
+                        'Needs at least two successful builds in this range.'
+                    )}
+                </div>
+                <select value={days ?? ''} onChange={(e) => setDays(e.target.value ? Number(e.target.value) : null)} className={inputCls}>
+                    {RANGES.map((r) => (
+                        <option key={r.label} value={r.days ?? ''}>
+                            {r.label}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            {shown.length === 0 ? (
+                <div className="flex h-64 items-center justify-center rounded-lg border border-dashed text-sm text-gray-500">No builds in this range.</div>
+            ) : (
+                <ResponsiveContainer width="100%" height={260}>
+                    <ComposedChart data={shown} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                        <XAxis
+                            dataKey="at"
+                            type="number"
+                            scale="time"
+                            domain={['dataMin', 'dataMax']}
+                            tickFormatter={shortDate}
+                            tick={{ fontSize: 11, fill: '#6b7280' }}
+                        />
+                        <YAxis yAxisId="count" tick={{ fontSize: 11, fill: '#6b7280' }} allowDecimals={false} />
+                        <YAxis yAxisId="delta" orientation="right" tick={{ fontSize: 11, fill: '#6b7280' }} allowDecimals={false} />
+                        <Tooltip
+                            labelFormatter={(label: unknown) => new Date(Number(label)).toLocaleString()}
+                            formatter={(v: unknown, name: unknown): [string, string] => [Number(v).toLocaleString(), String(name)]}
+                            contentStyle={{ backgroundColor: '#fff', border: '1px solid #e5e7eb', borderRadius: '8px', fontSize: '12px' }}
+                        />
+                        <Legend wrapperStyle={{ fontSize: '12px' }} />
+                        <Bar yAxisId="delta" dataKey="added" name="Added" fill="#10b981" maxBarSize={12} />
+                        <Bar yAxisId="delta" dataKey="removed" name="Removed" fill="#f87171" maxBarSize={12} />
+                        <Line yAxisId="count" type="monotone" dataKey="count" name="Contacts" stroke="#6366f1" strokeWidth={2} dot={shown.length <= 40} />
+                    </ComposedChart>
+                </ResponsiveContainer>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,158 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { ClockIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { api, errorMessage } from '@/lib/api';
+import { SCHEDULE_MODES, type ScheduleMode, defaultSchedule, describeSchedule, validateSchedule } from '@/lib/segment-rules/schedule';
+import { browserTimeZone, timeZoneOptions } from '@/lib/send-time';
+import type { Segment, SegmentSchedule } from '@/types/api';
+
+type Props = {
+    hash: string;
+    segmentId: number;
+    schedule: SegmentSchedule | null;
+    nextBuildAt: string | null;
+    onSaved: (segment: Segment) => void;
+};
+
+const inputCls = 'rounded-lg border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+function toLocale(iso: string | null) {
+    return iso ? new Date(iso).toLocaleString() : '—';
+}
+
+/** Picks when the backend rebuilds the segment on its own: never, hourly, daily at a time, or on a CRON. */
+export default function RebuildSchedule({ hash, segmentId, schedule, nextBuildAt, onSaved }: Props) {
+    const [draft, setDraft] = useState<SegmentSchedule | null>(schedule);
+    const [saving, setSaving] = useState(false);
+    const [err, setErr] = useState<string | null>(null);
+    const zones = useMemo(() => timeZoneOptions(), []);
+
+    useEffect(() => setDraft(schedule), [schedule]);
+
+    const mode: ScheduleMode = draft?.mode ?? 'manual';
+    const problem = validateSchedule(draft);
+    const dirty = JSON.stringify(draft) !== JSON.stringify(schedule);
+
+    async function save() {
+        setSaving(true);
+        setErr(null);
+        try {
+            onSaved(await api.segments.update(hash, segmentId, { schedule: draft }));
+        } catch (e) {
+            setErr(errorMessage(e));
+        } finally {
+            setSaving(false);
+        }
+    }
+
+    const zoneSelect = (tz: string, onChange: (timezone: string) => void) => (
+        <select value={tz} onChange={(e) => onChange(e.target.value)} className={inputCls}>
+            {!zones.includes(tz) && <option value={tz}>{tz}</option>}
+            {zones.map((z) => (
+                <option key={z} value={z}>
+                    {z}
+                </option>
+            ))}
+        </select>
+    );
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+                <label className="block">
+                    <span className="block text-xs font-medium text-gray-600 mb-1">Rebuild</span>
+                    <select
+                        value={mode}
+                        onChange={(e) => setDraft(defaultSchedule(e.target.value as ScheduleMode, browserTimeZone()))}
+                        className={inputCls}
+                    >
+                        {SCHEDULE_MODES.map((m) => (
+                            <option key={m.value} value={m.value}>
+                                {m.label}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+
+                {draft?.mode === 'hourly' && (
+                    <label className="block">
+                        <span className="block text-xs font-medium text-gray-600 mb-1">At minute</span>
+                        <input
+                            type="number"
+                            min={0}
+                            max={59}
+                            value={Number.isNaN(draft.minute) ? '' : draft.minute}
+                            onChange={(e) => setDraft({ ...draft, minute: e.target.value === '' ? NaN : Number(e.target.value) })}
+                            className={inputCls + ' w-24'}
+                        />
+                    </label>
+                )}
+
+                {draft?.mode === 'daily' && (
+                    <>
+                        <label className="block">
+                            <span className="block text-xs font-medium text-gray-600 mb-1">At</span>
+                            <input type="time" value={draft.time} onChange={(e) => setDraft({ ...draft, time: e.target.value })} className={inputCls} />
+                        </label>
+                        <label className="block">
+                            <span className="block text-xs font-medium text-gray-600 mb-1">Timezone</span>
+                            {zoneSelect(draft.timezone, (timezone) => setDraft({ ...draft, timezone }))}
+                        </label>
+                    </>
+                )}
+
+                {draft?.mode === 'cron' && (
+                    <>
+                        <label className="block">
+                            <span className="block text-xs font-medium text-gray-600 mb-1">CRON</span>
+                            <input
+                                value={draft.cron}
+                                onChange={(e) => setDraft({ ...draft, cron: e.target.value })}
+                                placeholder="0 6 * * 1-5"
+                                className={inputCls + ' w-48 font-mono'}
+                            />
+                        </label>
+                        <label className="block">
+                            <span className="block text-xs font-medium text-gray-600 mb-1">Timezone</span>
+                            {zoneSelect(draft.timezone, (timezone) => setDraft({ ...draft, timezone }))}
+                        </label>
+                    </>
+                )}
+
+                <button
+                    type="button"
+                    onClick={save}
+                    disabled={!dirty || !!problem || saving}
+                    className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {saving ? 'Saving…' : 'Save schedule'}
+                </button>
+                {dirty && !saving && (
+                    <button type="button" onClick={() => setDraft(schedule)} className="text-sm text-gray-600 hover:underline">
+                        Discard
+                    </button>
+                )}
+            </div>
+
+            {draft?.mode === 'cron' && (
+                <p className="text-xs text-gray-500">minute hour day month weekday, e.g. 0 6 * * 1-5 for weekdays at 06:00.</p>
+            )}
+            {problem && (
+                <p className="flex items-center gap-1.5 text-sm text-red-600">
+                    <ExclamationTriangleIcon className="h-4 w-4" />
+                    {problem}
+                </p>
+            )}
+            {err && <p className="text-sm text-red-600">{err}</p>}
+
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-600">
+                <span className="inline-flex items-center gap-1.5">
+                    <ClockIcon className="h-4 w-4 text-gray-400" />
+                    {describeSchedule(schedule)}
+                </span>
+                {schedule && <span>Next build: {toLocale(nextBuildAt)}</span>}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,472 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+    CursorArrowRaysIcon,
+    ExclamationTriangleIcon,
+    ListBulletIcon,
+    PlusIcon,
+    RectangleGroupIcon,
+    TrashIcon,
+    UsersIcon,
+    XMarkIcon,
+} from '@heroicons/react/24/outline';
+import { errorMessage } from '@/lib/api';
+import {
+    type RuleIssue,
+    CONTACT_FIELDS,
+    CONTACT_STATUSES,
+    ENGAGEMENT_PRESETS,
+    EVENT_VERBS,
+    MATCH_LABELS,
+    OPERATOR_LABELS,
+    appendRule,
+    createCondition,
+    createEventRule,
+    createGroup,
+    createListRule,
+    describeRules,
+    isAttributeField,
+    operatorsFor,
+    removeRule,
+    replaceRule,
+    valueKind,
+    withEvent,
+    withField,
+    withMatch,
+    withOperator,
+} from '@/lib/segment-rules/rules';
+import type { ConditionRule, EngagementEvent, EventRule, ListRule, RuleGroup, SegmentRule } from '@/types/segment-rules';
+
+export type Option = { id: number; name: string };
+
+type Props = {
+    value: RuleGroup;
+    onChange: (root: RuleGroup) => void;
+    lists: Option[];
+    campaigns: Option[];
+    attributeKeys: string[];
+    issues: RuleIssue[];
+    /** Counts the contacts one rule matches on its own; unset until the segment is saved. */
+    onCount?: (rule: SegmentRule) => Promise<number>;
+};
+
+/** Shared by every level of the tree. */
+type Ctx = {
+    root: RuleGroup;
+    onChange: (root: RuleGroup) => void;
+    lists: Option[];
+    campaigns: Option[];
+    attributeKeys: string[];
+    issuesById: Map<string, RuleIssue[]>;
+    onCount?: (rule: SegmentRule) => Promise<number>;
+};
+
+/** Nesting deeper than this is allowed in stored definitions but not offered in the builder. */
+const MAX_DEPTH = 3;
+
+const CUSTOM = '__custom';
+
+const inputCls = 'rounded-lg border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+function cx(...xs: Array<string | false | null | undefined>) {
+    return xs.filter(Boolean).join(' ');
+}
+
+/** Nested AND/OR/NOT editor over contact fields, custom attributes, list membership and engagement events. */
+export default function RuleBuilder({ value, onChange, lists, campaigns, attributeKeys, issues, onCount }: Props) {
+    const issuesById = new Map<string, RuleIssue[]>();
+    for (const i of issues) issuesById.set(i.id, [...(issuesById.get(i.id) ?? []), i]);
+    const names = {
+        list: (id: number) => lists.find((l) => l.id === id)?.name ?? `#${id}`,
+        campaign: (id: number) => campaigns.find((c) => c.id === id)?.name ?? `#${id}`,
+    };
+
+    // An empty tree becomes the preset; otherwise the preset is added as a group
+    function applyPreset(i: string) {
+        const preset = ENGAGEMENT_PRESETS[Number(i)];
+        if (!preset) return;
+        const group = preset.build();
+        onChange(value.rules.length === 0 ? group : appendRule(value, value.id, group));
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-end gap-2 text-sm">
+                <label htmlFor="segment-preset" className="text-gray-600">
+                    Start from
+                </label>
+                <select id="segment-preset" value="" onChange={(e) => applyPreset(e.target.value)} className={inputCls}>
+                    <option value="">a template…</option>
+                    {ENGAGEMENT_PRESETS.map((p, i) => (
+                        <option key={p.label} value={i} title={p.hint}>
+                            {p.label}
+                        </option>
+                    ))}
+                </select>
+            </div>
+            <GroupEditor group={value} depth={0} ctx={{ root: value, onChange, lists, campaigns, attributeKeys, issuesById, onCount }} />
+            <div className="rounded-lg bg-gray-50 px-3 py-2 text-xs text-gray-600">
+                <span className="font-medium text-gray-700">Matches contacts where </span>
+                <span className="font-mono">{describeRules(value, names)}</span>
+            </div>
+        </div>
+    );
+}
+
+/** Runs a dry-run build for one rule; the result is dropped once the rule changes. */
+function MatchCount({ rule, ctx }: { rule: SegmentRule; ctx: Ctx }) {
+    const [state, setState] = useState<{ n: number } | { error: string } | 'loading' | null>(null);
+    const key = JSON.stringify(rule);
+
+    useEffect(() => setState(null), [key]);
+
+    async function count() {
+        if (!ctx.onCount) return;
+        setState('loading');
+        try {
+            setState({ n: await ctx.onCount(rule) });
+        } catch (e) {
+            setState({ error: errorMessage(e) });
+        }
+    }
+
+    if (state && state !== 'loading') {
+        return 'n' in state ? (
+            <button type="button" onClick={count} title="Count again" className="mt-1 shrink-0 rounded px-1.5 py-1 text-xs font-medium tabular-nums text-indigo-700 hover:bg-indigo-50">
+                {state.n.toLocaleString()} contacts
+            </button>
+        ) : (
+            <button type="button" onClick={count} title={state.error} className="mt-1 shrink-0 rounded px-1.5 py-1 text-xs text-red-600 hover:bg-red-50">
+                Count failed
+            </button>
+        );
+    }
+    return (
+        <button
+            type="button"
+            onClick={count}
+            disabled={!ctx.onCount || state === 'loading'}
+            title={ctx.onCount ? 'Count the contacts this rule matches on its own' : 'Save the segment to count matches'}
+            className="mt-1 inline-flex shrink-0 items-center gap-1 rounded px-1.5 py-1 text-xs text-gray-500 hover:bg-gray-100 disabled:opacity-50"
+        >
+            <UsersIcon className="h-3.5 w-3.5" /> {state === 'loading' ? '…' : 'Count'}
+        </button>
+    );
+}
+
+function Issues({ id, ctx }: { id: string; ctx: Ctx }) {
+    const list = ctx.issuesById.get(id);
+    if (!list) return null;
+    return (
+        <ul className="mt-1 space-y-0.5">
+            {list.map((i, n) => (
+                <li key={n} className={cx('flex items-center gap-1 text-xs', i.severity === 'error' ? 'text-red-600' : 'text-amber-700')}>
+                    <ExclamationTriangleIcon className="h-3.5 w-3.5 shrink-0" />
+                    {i.message}
+                </li>
+            ))}
+        </ul>
+    );
+}
+
+/* -------------------------------- Group ------------------------------- */
+
+function GroupEditor({ group, depth, ctx }: { group: RuleGroup; depth: number; ctx: Ctx }) {
+    const isRoot = depth === 0;
+    const set = (g: RuleGroup) => ctx.onChange(replaceRule(ctx.root, g));
+    const add = (r: SegmentRule) => ctx.onChange(appendRule(ctx.root, group.id, r));
+    const joiner = group.combinator === 'and' ? 'AND' : 'OR';
+
+    return (
+        <div
+            className={cx(
+                'rounded-lg border p-3 space-y-2',
+                group.negate ? 'border-rose-200 bg-rose-50/40' : depth % 2 ? 'border-gray-200 bg-gray-50' : 'border-gray-200 bg-white',
+            )}
+        >
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+                <button
+                    type="button"
+                    onClick={() => set({ ...group, negate: !group.negate })}
+                    title="Match contacts that do NOT match this group"
+                    className={cx(
+                        'rounded px-2 py-0.5 text-xs font-semibold ring-1',
+                        group.negate ? 'bg-rose-600 text-white ring-rose-600' : 'bg-white text-gray-500 ring-gray-300 hover:bg-gray-50',
+                    )}
+                >
+                    NOT
+                </button>
+                <span className="text-gray-600">Match</span>
+                <div className="inline-flex rounded-lg bg-gray-100 p-0.5">
+                    {(['and', 'or'] as const).map((c) => (
+                        <button
+                            key={c}
+                            type="button"
+                            onClick={() => set({ ...group, combinator: c })}
+                            className={cx(
+                                'rounded px-2.5 py-0.5 text-xs font-medium',
+                                group.combinator === c ? 'bg-white shadow-sm text-gray-900' : 'text-gray-600 hover:text-gray-900',
+                            )}
+                        >
+                            {c === 'and' ? 'ALL' : 'ANY'}
+                        </button>
+                    ))}
+                </div>
+                <span className="text-gray-600">of the following</span>
+                {!isRoot && (
+                    <button
+                        type="button"
+                        onClick={() => ctx.onChange(removeRule(ctx.root, group.id))}
+                        title="Remove group"
+                        className="ml-auto rounded p-1 text-gray-400 hover:bg-red-50 hover:text-red-600"
+                    >
+                        <TrashIcon className="h-4 w-4" />
+                    </button>
+                )}
+            </div>
+            <Issues id={group.id} ctx={ctx} />
+
+            {group.rules.map((r, i) => (
+                <div key={r.id}>
+                    {i > 0 && (
+                        <div className={cx('my-1 pl-2 text-[11px] font-semibold', group.combinator === 'and' ? 'text-indigo-600' : 'text-amber-600')}>
+                            {joiner}
+                        </div>
+                    )}
+                    {r.type === 'group' ? (
+                        <GroupEditor group={r} depth={depth + 1} ctx={ctx} />
+                    ) : (
+                        <div className="flex items-start gap-2">
+                            <div className="min-w-0 flex-1">
+                                {r.type === 'condition' && <ConditionEditor rule={r} ctx={ctx} />}
+                                {r.type === 'list' && <ListRuleEditor rule={r} ctx={ctx} />}
+                                {r.type === 'event' && <EventRuleEditor rule={r} ctx={ctx} />}
+                                {r.type === 'unknown' && <code className="block truncate rounded bg-gray-100 px-2 py-1.5 text-xs">{JSON.stringify(r.raw)}</code>}
+                                <Issues id={r.id} ctx={ctx} />
+                            </div>
+                            {r.type !== 'unknown' && <MatchCount rule={r} ctx={ctx} />}
+                            <button
+                                type="button"
+                                onClick={() => ctx.onChange(removeRule(ctx.root, r.id))}
+                                title="Remove"
+                                className="mt-1 rounded p-1 text-gray-400 hover:bg-red-50 hover:text-red-600"
+                            >
+                                <XMarkIcon className="h-4 w-4" />
+                            </button>
+                        </div>
+                    )}
+                </div>
+            ))}
+
+            <div className="flex flex-wrap gap-2 pt-1">
+                <AddButton onClick={() => add(createCondition())} icon={PlusIcon} label="Condition" />
+                <AddButton onClick={() => add(createListRule())} icon={ListBulletIcon} label="List membership" />
+                <AddButton onClick={() => add(createEventRule())} icon={CursorArrowRaysIcon} label="Engagement" />
+                {depth < MAX_DEPTH && <AddButton onClick={() => add(createGroup(group.combinator === 'and' ? 'or' : 'and', [createCondition()]))} icon={RectangleGroupIcon} label="Group" />}
+            </div>
+        </div>
+    );
+}
+
+function AddButton({ onClick, icon: Icon, label }: { onClick: () => void; icon: React.ComponentType<{ className?: string }>; label: string }) {
+    return (
+        <button
+            type="button"
+            onClick={onClick}
+            className="inline-flex items-center gap-1 rounded-lg bg-white px-2.5 py-1 text-xs font-medium text-gray-700 ring-1 ring-gray-200 hover:bg-gray-50"
+        >
+            <Icon className="h-3.5 w-3.5" /> {label}
+        </button>
+    );
+}
+
+/* ------------------------------ Condition ----------------------------- */
+
+function ConditionEditor({ rule, ctx }: { rule: ConditionRule; ctx: Ctx }) {
+    const set = (r: ConditionRule) => ctx.onChange(replaceRule(ctx.root, r));
+    const attrKey = isAttributeField(rule.field) ? rule.field.slice('attributes.'.length) : null;
+    const custom = attrKey !== null && !ctx.attributeKeys.includes(attrKey);
+    const kind = valueKind(rule.operator);
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <select
+                value={custom ? CUSTOM : rule.field}
+                onChange={(e) => set(withField(rule, e.target.value === CUSTOM ? 'attributes.' : (e.target.value as ConditionRule['field'])))}
+                className={inputCls}
+            >
+                <optgroup label="Contact">
+                    {CONTACT_FIELDS.map((f) => (
+                        <option key={f.field} value={f.field}>
+                            {f.label}
+                        </option>
+                    ))}
+                </optgroup>
+                <optgroup label="Custom attributes">
+                    {ctx.attributeKeys.map((k) => (
+                        <option key={k} value={`attributes.${k}`}>
+                            {k}
+                        </option>
+                    ))}
+                    <option value={CUSTOM}>Other attribute…</option>
+                </optgroup>
+            </select>
+
+            {custom && (
+                <input
+                    value={attrKey ?? ''}
+                    onChange={(e) => set({ ...rule, field: `attributes.${e.target.value.trim()}` })}
+                    placeholder="attribute_key"
+                    className={cx(inputCls, 'w-36 font-mono')}
+                />
+            )}
+
+            <select value={rule.operator} onChange={(e) => set(withOperator(rule, e.target.value as ConditionRule['operator']))} className={inputCls}>
+                {operatorsFor(rule.field).map((op) => (
+                    <option key={op} value={op}>
+                        {OPERATOR_LABELS[op]}
+                    </option>
+                ))}
+            </select>
+
+            {rule.field === 'status' ? (
+                <select value={String(rule.value ?? '')} onChange={(e) => set({ ...rule, value: e.target.value })} className={inputCls}>
+                    {CONTACT_STATUSES.map((s) => (
+                        <option key={s} value={s}>
+                            {s}
+                        </option>
+                    ))}
+                </select>
+            ) : kind === 'text' ? (
+                <input
+                    value={String(rule.value ?? '')}
+                    onChange={(e) => set({ ...rule, value: e.target.value })}
+                    placeholder={rule.operator === 'regex' ? '^.+@example\\.com$' : 'value'}
+                    className={cx(inputCls, 'min-w-[10rem] flex-1', rule.operator === 'regex' && 'font-mono')}
+                />
+            ) : kind === 'number' || kind === 'days' ? (
+                <span className="inline-flex items-center gap-1">
+                    <input
+                        type="number"
+                        min={kind === 'days' ? 1 : undefined}
+                        value={typeof rule.value === 'number' ? rule.value : ''}
+                        onChange={(e) => set({ ...rule, value: e.target.value === '' ? null : Number(e.target.value) })}
+                        className={cx(inputCls, 'w-28')}
+                    />
+                    {kind === 'days' && <span className="text-sm text-gray-500">days</span>}
+                </span>
+            ) : kind === 'date' ? (
+                <input type="date" value={String(rule.value ?? '')} onChange={(e) => set({ ...rule, value: e.target.value })} className={inputCls} />
+            ) : null}
+        </div>
+    );
+}
+
+/* ------------------------------ List rule ----------------------------- */
+
+function ListRuleEditor({ rule, ctx }: { rule: ListRule; ctx: Ctx }) {
+    const set = (r: ListRule) => ctx.onChange(replaceRule(ctx.root, r));
+    const available = ctx.lists.filter((l) => !rule.list_ids.includes(l.id));
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <select value={rule.operator} onChange={(e) => set({ ...rule, operator: e.target.value as ListRule['operator'] })} className={inputCls}>
+                <option value="in_any">Is in any of</option>
+                <option value="in_none">Is in none of</option>
+            </select>
+            {rule.list_ids.map((id) => (
+                <span
+                    key={id}
+                    className={cx(
+                        'inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium',
+                        rule.operator === 'in_any' ? 'bg-emerald-100 text-emerald-800' : 'bg-red-100 text-red-800',
+                    )}
+                >
+                    {ctx.lists.find((l) => l.id === id)?.name ?? `#${id}`}
+                    <button type="button" onClick={() => set({ ...rule, list_ids: rule.list_ids.filter((x) => x !== id) })} title="Remove list">
+                        <XMarkIcon className="h-3 w-3" />
+                    </button>
+                </span>
+            ))}
+            {available.length > 0 && (
+                <select value="" onChange={(e) => e.target.value && set({ ...rule, list_ids: [...rule.list_ids, Number(e.target.value)] })} className={inputCls}>
+                    <option value="">Add a list…</option>
+                    {available.map((l) => (
+                        <option key={l.id} value={l.id}>
+                            {l.name}
+                        </option>
+                    ))}
+                </select>
+            )}
+        </div>
+    );
+}
+
+/* ---------------------------- Engagement rule -------------------------- */
+
+function EventRuleEditor({ rule, ctx }: { rule: EventRule; ctx: Ctx }) {
+    const set = (r: EventRule) => ctx.onChange(replaceRule(ctx.root, r));
+    const counting = rule.match === 'at_least' || rule.match === 'fewer_than';
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+            <select value={rule.event} onChange={(e) => set(withEvent(rule, e.target.value as EngagementEvent))} className={inputCls}>
+                {(Object.keys(EVENT_VERBS) as EngagementEvent[]).map((ev) => (
+                    <option key={ev} value={ev}>
+                        {EVENT_VERBS[ev]}
+                    </option>
+                ))}
+            </select>
+            <select
+                value={rule.campaign_id ?? ''}
+                onChange={(e) => set({ ...rule, campaign_id: e.target.value ? Number(e.target.value) : null })}
+                className={cx(inputCls, 'max-w-[14rem]')}
+            >
+                <option value="">any campaign</option>
+                {rule.campaign_id !== null && !ctx.campaigns.some((c) => c.id === rule.campaign_id) && <option value={rule.campaign_id}>#{rule.campaign_id}</option>}
+                {ctx.campaigns.map((c) => (
+                    <option key={c.id} value={c.id}>
+                        {c.name}
+                    </option>
+                ))}
+            </select>
+            <select value={rule.match} onChange={(e) => set(withMatch(rule, e.target.value as EventRule['match']))} className={inputCls}>
+                {(Object.keys(MATCH_LABELS) as Array<EventRule['match']>).map((m) => (
+                    <option key={m} value={m}>
+                        {MATCH_LABELS[m]}
+                    </option>
+                ))}
+            </select>
+            {counting && (
+                <input
+                    type="number"
+                    min={1}
+                    value={rule.count ?? ''}
+                    onChange={(e) => set({ ...rule, count: e.target.value === '' ? null : Number(e.target.value) })}
+                    aria-label="Number of times"
+                    className={cx(inputCls, 'w-20')}
+                />
+            )}
+            <span className="text-gray-500">in the last</span>
+            <input
+                type="number"
+                min={1}
+                value={rule.within_days ?? ''}
+                onChange={(e) => set({ ...rule, within_days: e.target.value === '' ? null : Number(e.target.value) })}
+                placeholder="all time"
+                aria-label="Days"
+                className={cx(inputCls, 'w-24')}
+            />
+            <span className="text-gray-500">days</span>
+            {rule.event === 'clicked' && (
+                <input
+                    value={rule.url_pattern ?? ''}
+                    onChange={(e) => set({ ...rule, url_pattern: e.target.value || null })}
+                    placeholder="URL pattern, e.g. https://example.com/pricing*"
+                    className={cx(inputCls, 'min-w-[16rem] flex-1 font-mono')}
+                />
+            )}
+        </div>
+    );
+}
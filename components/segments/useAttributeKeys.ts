@@ -0,0 +1,30 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { api } from '@/lib/api';
+
+/** Contacts sampled to discover custom attribute keys; there is no schema endpoint for them. */
+const SAMPLE_SIZE = 200;
+
+/** Custom attribute keys seen on company `hash`'s contacts, sorted. */
+export function useAttributeKeys(hash: string | null | undefined): string[] {
+    const [keys, setKeys] = useState<string[]>([]);
+
+    useEffect(() => {
+        if (!hash) return;
+        const ctrl = new AbortController();
+        api.contacts
+            .list(hash, { signal: ctrl.signal, query: { page: 1, perPage: SAMPLE_SIZE } })
+            .then((res) => {
+                const seen = new Set<string>();
+                for (const c of res.items) for (const k of Object.keys(c.attributes ?? {})) seen.add(k);
+                setKeys([...seen].sort());
+            })
+            .catch(() => {
+                if (!ctrl.signal.aborted) setKeys([]);
+            });
+        return () => ctrl.abort();
+    }, [hash]);
+
+    return keys;
+}
@@ -0,0 +1,25 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { api } from '@/lib/api';
+
+export type CampaignOption = { id: number; name: string };
+
+/** Campaigns of company `hash` for engagement rule pickers, newest first as the API returns them. */
+export function useCampaignOptions(hash: string | null | undefined): CampaignOption[] {
+    const [campaigns, setCampaigns] = useState<CampaignOption[]>([]);
+
+    useEffect(() => {
+        if (!hash) return;
+        const ctrl = new AbortController();
+        api.campaigns
+            .list(hash, { signal: ctrl.signal, query: { perPage: 200 } })
+            .then((res) => setCampaigns(res.items.map((c) => ({ id: c.id, name: c.name || c.subject || `Campaign #${c.id}` }))))
+            .catch(() => {
+                if (!ctrl.signal.aborted) setCampaigns([]);
+            });
+        return () => ctrl.abort();
+    }, [hash]);
+
+    return campaigns;
+}
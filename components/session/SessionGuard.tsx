@@ -1,38 +1,23 @@
 'use client';
 
 import React, { useEffect } from "react";
-import { useRouter } from "next/navigation";
+import { isTokenExpired, redirectToLogin, refreshSession } from "@/lib/session";
 
 export default function SessionGuard({ children }: { children: React.ReactNode }) {
-    const router = useRouter();
-
     useEffect(() => {
-        const check = () => {
-            const token = localStorage.getItem("jwt") || sessionStorage.getItem("jwt");
-            if (!token || isTokenExpired(token)) {
-                localStorage.removeItem("jwt");
-                sessionStorage.removeItem("jwt");
-                router.replace("/login");
-            }
+        const check = async () => {
+            if (!isTokenExpired()) return;
+            // try the refresh cookie before giving up on the session
+            if (!(await refreshSession())) redirectToLogin();
         };
 
         // check immediately
-        check();
+        void check();
 
         // check every minute
         const t = setInterval(check, 60 * 1000);
         return () => clearInterval(t);
-    }, [router]);
+    }, []);
 
     return <>{children}</>;
 }
-
-function isTokenExpired(token: string): boolean {
-    try {
-        const [, payload] = token.split(".");
-        const decoded = JSON.parse(atob(payload.replace(/-/g, "+").replace(/_/g, "/")));
-        return decoded.exp && Date.now() >= decoded.exp * 1000;
-    } catch {
-        return true;
-    }
-}
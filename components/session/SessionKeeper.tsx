@@ -1,6 +1,8 @@
 'use client';
 
 import { useEffect, useRef } from 'react';
+import { SESSION_CHANNEL, redirectToLogin, refreshSession, tokenExpiresAt, type SessionMessage } from '@/lib/session';
+import { BACKEND_URL } from '@/lib/api';
 
 type KeepOpts = {
     idleMs?: number;
@@ -9,14 +11,6 @@ type KeepOpts = {
     heartbeatEveryMs?: number;
 };
 
-type MLMessage =
-    | { type: 'activity'; ts: number }
-    | { type: 'token_refreshed' };
-
-type RefreshResponse = { token?: string };
-
-const BACKEND = process.env.NEXT_PUBLIC_BACKEND_URL!;
-
 export default function SessionKeeper({
                                           idleMs = 30 * 60 * 1000,
                                           refreshSkewMs = 2 * 60 * 1000,
@@ -26,56 +20,21 @@ export default function SessionKeeper({
     const lastActivity = useRef<number>(Date.now());
     const bc = useRef<BroadcastChannel | null>(null);
 
-    function getAccessExpMs(): number | null {
-        const token = localStorage.getItem('jwt') || sessionStorage.getItem('jwt');
-        if (!token) return null;
-        try {
-            const [, payload] = token.split('.');
-            const json = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/'))) as { exp?: number };
-            return typeof json.exp === 'number' ? json.exp * 1000 : null;
-        } catch {
-            return null;
-        }
-    }
-
     async function refreshIfNeeded(): Promise<void> {
-        const expMs = getAccessExpMs();
+        const expMs = tokenExpiresAt();
         if (!expMs) return;
 
         const now = Date.now();
         const inactive = now - lastActivity.current > idleMs;
         const isNearExpiry = expMs - now <= refreshSkewMs;
 
-        if (!inactive && isNearExpiry) {
-            try {
-                const res = await fetch(`${BACKEND}/auth/refresh`, {
-                    method: 'POST',
-                    credentials: 'include',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({}),
-                });
-
-                const json = (await res
-                    .json()
-                    .catch<Partial<RefreshResponse>>(() => ({}))) as Partial<RefreshResponse>;
-
-                if (res.ok && json.token) {
-                    if (localStorage.getItem('jwt')) {
-                        localStorage.setItem('jwt', json.token);
-                    } else {
-                        sessionStorage.setItem('jwt', json.token);
-                    }
-                    bc.current?.postMessage({ type: 'token_refreshed' } satisfies MLMessage);
-                }
-            } catch {
-                // ignore; try again on next tick
-            }
-        }
+        // shares the in-flight refresh with any 401 replay happening at the same time
+        if (!inactive && isNearExpiry) await refreshSession();
     }
 
     function heartbeat(): void {
         try {
-            const url = `${BACKEND}/auth/heartbeat`;
+            const url = `${BACKEND_URL}/auth/heartbeat`;
             const ok = typeof navigator.sendBeacon === 'function' ? navigator.sendBeacon(url) : false;
             if (!ok) {
                 void fetch(url, { method: 'POST', keepalive: true, credentials: 'include' }).catch(() => {});
@@ -88,7 +47,7 @@ export default function SessionKeeper({
     useEffect(() => {
         const touch = (): void => {
             lastActivity.current = Date.now();
-            bc.current?.postMessage({ type: 'activity', ts: lastActivity.current } satisfies MLMessage);
+            bc.current?.postMessage({ type: 'activity', ts: lastActivity.current } satisfies SessionMessage);
         };
         const onVisibility = (): void => {
             if (!document.hidden) touch();
@@ -106,15 +65,25 @@ export default function SessionKeeper({
 
         window.addEventListener('focus', onFocus);
 
-        bc.current = 'BroadcastChannel' in window ? new BroadcastChannel('ml-session') : null;
-        bc.current?.addEventListener('message', (ev: MessageEvent<MLMessage>) => {
-            if (ev.data?.type === 'activity') {
-                lastActivity.current = Math.max(lastActivity.current, Number(ev.data.ts) || Date.now());
+        let t1 = window.setInterval(refreshIfNeeded, checkEveryMs);
+
+        bc.current = 'BroadcastChannel' in window ? new BroadcastChannel(SESSION_CHANNEL) : null;
+        bc.current?.addEventListener('message', (ev: MessageEvent<SessionMessage>) => {
+            switch (ev.data?.type) {
+                case 'activity':
+                    lastActivity.current = Math.max(lastActivity.current, Number(ev.data.ts) || Date.now());
+                    break;
+                case 'token_refreshed':
+                    // another tab just refreshed; start a full interval over instead of checking on the old beat
+                    window.clearInterval(t1);
+                    t1 = window.setInterval(refreshIfNeeded, checkEveryMs);
+                    break;
+                case 'refresh_failed':
+                    // the refresh cookie is gone for every tab, not just the one that tried
+                    redirectToLogin();
+                    break;
             }
-            // 'token_refreshed' -> no-op
         });
-
-        const t1 = window.setInterval(refreshIfNeeded, checkEveryMs);
         const t2 = heartbeatEveryMs > 0 ? window.setInterval(heartbeat, heartbeatEveryMs) : null;
 
         touch(); // count initial navigation as activity
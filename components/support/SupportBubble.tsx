@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useEffect, useMemo, useRef, useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Dialog, Transition } from '@headlessui/react';
 import {
     ChatBubbleLeftRightIcon,
@@ -10,11 +10,12 @@ import {
     CheckCircleIcon,
     ExclamationTriangleIcon,
 } from '@heroicons/react/24/outline';
+import { BACKEND_URL, apiFetch } from '@/lib/api';
 
-type Props = { tokenStorageKey?: string; backendUrl?: string };
+type Props = { backendUrl?: string };
 type SelFile = { file: File; id: string };
 
-export default function SupportBubble({ tokenStorageKey = 'access_token', backendUrl }: Props) {
+export default function SupportBubble({ backendUrl }: Props) {
     const [open, setOpen] = useState(false);
     const [subject, setSubject] = useState('');
     const [description, setDescription] = useState('');
@@ -25,16 +26,9 @@ export default function SupportBubble({ tokenStorageKey = 'access_token', backen
     const [dragOver, setDragOver] = useState(false);
 
     const totalBytes = useMemo(() => files.reduce((n, f) => n + f.file.size, 0), [files]);
-    const backend = backendUrl || process.env.NEXT_PUBLIC_BACKEND_URL || '';
-    const tokenRef = useRef<string | null>(null);
+    const backend = backendUrl || BACKEND_URL;
     const subjectMax = 160;
 
-    useEffect(() => {
-        try {
-            tokenRef.current = typeof window !== 'undefined' ? localStorage.getItem(tokenStorageKey) : null;
-        } catch {}
-    }, [tokenStorageKey]);
-
     function addFiles(list: FileList | File[]) {
         if (!list || (list as FileList).length === 0) return;
         setError(null);
@@ -74,13 +68,9 @@ export default function SupportBubble({ tokenStorageKey = 'access_token', backen
 
         setSending(true);
         try {
-            const res = await fetch(`${backend}/support`, {
+            const res = await apiFetch(`${backend}/support`, {
                 method: 'POST',
-                headers: {
-                    ...(tokenRef.current ? { Authorization: `Bearer ${tokenRef.current}` } : {}),
-                },
                 body: fd,
-                credentials: 'include',
             });
 
             if (res.status === 202) {
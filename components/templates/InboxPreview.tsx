@@ -0,0 +1,138 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { ComputerDesktopIcon, DevicePhoneMobileIcon, DocumentTextIcon, MoonIcon, PhotoIcon } from '@heroicons/react/24/outline';
+import { DARK_MODE_LABELS, type DarkModeStyle, blockImages, simulateDarkMode } from '@/lib/email-preview';
+
+type Pane = 'desktop' | 'mobile' | 'text';
+
+type Props = {
+    /** Rendered HTML part; null when the template only has a text part. */
+    html: string | null;
+    /** Rendered plain-text part. */
+    text: string;
+    height?: number;
+};
+
+const PANES: Array<{ id: Pane; label: string; icon: React.ComponentType<{ className?: string }> }> = [
+    { id: 'desktop', label: 'Desktop', icon: ComputerDesktopIcon },
+    { id: 'mobile', label: 'Mobile', icon: DevicePhoneMobileIcon },
+    { id: 'text', label: 'Plain text', icon: DocumentTextIcon },
+];
+
+const MOBILE_WIDTH = 375;
+
+function cx(...xs: Array<string | false | null | undefined>) {
+    return xs.filter(Boolean).join(' ');
+}
+
+function frameDoc(html: string) {
+    return `<!doctype html><html><head><meta charset="utf-8" /><meta name="viewport" content="width=device-width,initial-scale=1" /></head><body style="margin:0">${html}</body></html>`;
+}
+
+/** Side-by-side inbox simulations of one rendered message. */
+export default function InboxPreview({ html, text, height = 600 }: Props) {
+    const [panes, setPanes] = useState<Pane[]>(['desktop']);
+    const [dark, setDark] = useState<DarkModeStyle | ''>('');
+    const [imagesOff, setImagesOff] = useState(false);
+
+    const shown: Pane[] = html === null ? ['text'] : panes;
+
+    const doc = useMemo(() => {
+        if (html === null) return '';
+        let out = html;
+        if (imagesOff) out = blockImages(out);
+        if (dark) out = simulateDarkMode(out, dark);
+        return frameDoc(out);
+    }, [html, dark, imagesOff]);
+
+    function toggle(p: Pane) {
+        // keep at least one pane open
+        setPanes((cur) => (cur.includes(p) ? (cur.length > 1 ? cur.filter((x) => x !== p) : cur) : [...cur, p]));
+    }
+
+    return (
+        <div>
+            <div className="flex flex-wrap items-center gap-3 border-b border-gray-200 bg-gray-50 px-4 py-2 text-xs">
+                <div className="flex items-center gap-1 rounded-lg bg-gray-100 p-1">
+                    {PANES.map(({ id, label, icon: Icon }) => (
+                        <button
+                            key={id}
+                            type="button"
+                            onClick={() => toggle(id)}
+                            disabled={html === null}
+                            className={cx(
+                                'inline-flex items-center gap-1 rounded px-2 py-1 font-medium transition-all disabled:opacity-50',
+                                shown.includes(id) ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                            )}
+                        >
+                            <Icon className="h-3.5 w-3.5" />
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                <label className="inline-flex items-center gap-1.5 text-gray-700">
+                    <MoonIcon className="h-4 w-4" />
+                    <select
+                        value={dark}
+                        onChange={(e) => setDark(e.target.value as DarkModeStyle | '')}
+                        className="rounded border-gray-300 py-0.5 pl-2 pr-7 text-xs focus:border-indigo-500 focus:ring-indigo-500"
+                    >
+                        <option value="">Light mode</option>
+                        {(Object.keys(DARK_MODE_LABELS) as DarkModeStyle[]).map((s) => (
+                            <option key={s} value={s}>
+                                Dark · {DARK_MODE_LABELS[s]}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+
+                <label className="inline-flex items-center gap-1.5 text-gray-700">
+                    <input
+                        type="checkbox"
+                        checked={imagesOff}
+                        onChange={(e) => setImagesOff(e.target.checked)}
+                        className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <PhotoIcon className="h-4 w-4" />
+                    Images off
+                </label>
+            </div>
+
+            <div className={cx('flex gap-4 overflow-x-auto p-4', dark ? 'bg-zinc-800' : 'bg-gray-100')} style={{ height }}>
+                {shown.includes('desktop') && (
+                    <div className="flex min-w-[640px] flex-1 flex-col">
+                        <PaneLabel dark={!!dark}>Desktop</PaneLabel>
+                        <iframe title="desktop preview" className="w-full flex-1 rounded-lg bg-white shadow-sm" sandbox="allow-same-origin" srcDoc={doc} />
+                    </div>
+                )}
+                {shown.includes('mobile') && (
+                    <div className="flex shrink-0 flex-col" style={{ width: MOBILE_WIDTH + 16 }}>
+                        <PaneLabel dark={!!dark}>Mobile · {MOBILE_WIDTH}px</PaneLabel>
+                        <div className="flex-1 overflow-hidden rounded-[1.75rem] border-8 border-gray-900 bg-white shadow">
+                            <iframe title="mobile preview" className="h-full bg-white" style={{ width: MOBILE_WIDTH }} sandbox="allow-same-origin" srcDoc={doc} />
+                        </div>
+                    </div>
+                )}
+                {shown.includes('text') && (
+                    <div className={cx('flex shrink-0 flex-col', html === null ? 'flex-1' : 'w-[360px]')}>
+                        <PaneLabel dark={!!dark}>Plain text</PaneLabel>
+                        <pre
+                            className={cx(
+                                'flex-1 overflow-auto whitespace-pre-wrap rounded-lg p-4 font-mono text-sm leading-relaxed shadow-sm',
+                                dark ? 'bg-[#121212] text-zinc-200' : 'bg-white text-gray-900'
+                            )}
+                        >
+                            {text || <span className="text-gray-400">No plain-text part.</span>}
+                        </pre>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
+
+function PaneLabel({ dark, children }: { dark: boolean; children: React.ReactNode }) {
+    return <div className={cx('mb-2 text-xs font-medium', dark ? 'text-zinc-300' : 'text-gray-500')}>{children}</div>;
+}
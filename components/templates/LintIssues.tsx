@@ -0,0 +1,72 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ChevronDownIcon, ChevronRightIcon, ExclamationTriangleIcon, InformationCircleIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import { type LintIssue, type LintSeverity, countBySeverity } from '@/lib/email-lint';
+
+type Props = {
+    issues: LintIssue[];
+    /** Moves the editor cursor to a 1-based line; omitted when the lines belong to generated HTML. */
+    onJump?: (line: number) => void;
+};
+
+const SEVERITY_STYLE: Record<LintSeverity, { icon: React.ComponentType<{ className?: string }>; text: string; iconColor: string }> = {
+    error: { icon: XCircleIcon, text: 'text-red-800', iconColor: 'text-red-500' },
+    warning: { icon: ExclamationTriangleIcon, text: 'text-amber-800', iconColor: 'text-amber-500' },
+    info: { icon: InformationCircleIcon, text: 'text-gray-700', iconColor: 'text-sky-500' },
+};
+
+function plural(n: number, word: string) {
+    return `${n} ${word}${n === 1 ? '' : 's'}`;
+}
+
+export default function LintIssues({ issues, onJump }: Props) {
+    const [open, setOpen] = useState(true);
+    if (issues.length === 0) return null;
+
+    const counts = countBySeverity(issues);
+
+    return (
+        <div className="border-t border-gray-200 bg-gray-50 text-xs">
+            <button
+                type="button"
+                onClick={() => setOpen(!open)}
+                className="w-full flex items-center gap-2 px-4 py-2 font-medium text-gray-700 hover:bg-gray-100"
+            >
+                {open ? <ChevronDownIcon className="h-3.5 w-3.5" /> : <ChevronRightIcon className="h-3.5 w-3.5" />}
+                Email compatibility
+                <span className="font-normal text-gray-500">
+                    {[
+                        counts.error && plural(counts.error, 'error'),
+                        counts.warning && plural(counts.warning, 'warning'),
+                        counts.info && plural(counts.info, 'note'),
+                    ]
+                        .filter(Boolean)
+                        .join(' · ')}
+                </span>
+                {!onJump && <span className="ml-auto font-normal text-gray-400">Lines refer to the generated HTML</span>}
+            </button>
+            {open && (
+                <div className="max-h-40 overflow-y-auto">
+                    {issues.map((issue, i) => {
+                        const s = SEVERITY_STYLE[issue.severity];
+                        const Icon = s.icon;
+                        return (
+                            <button
+                                key={`${issue.rule}-${issue.from}-${i}`}
+                                type="button"
+                                onClick={() => onJump?.(issue.line)}
+                                disabled={!onJump}
+                                className={`w-full flex items-center gap-2 px-4 py-1.5 text-left ${s.text} enabled:hover:bg-white`}
+                            >
+                                <Icon className={`h-4 w-4 shrink-0 ${s.iconColor}`} />
+                                <span className="font-mono text-gray-500 shrink-0">Line {issue.line}</span>
+                                <span className="truncate">{issue.message}</span>
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ExclamationTriangleIcon, InformationCircleIcon, MagnifyingGlassIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import { api, errorMessage } from '@/lib/api';
+import type { Contact } from '@/types/api';
+import type { MergeTagReport } from './useMergeTags';
+
+type Props = {
+    hash: string;
+    variables: string[];
+    issues: MergeTagReport[];
+    /** Contact currently used as preview data, if any. */
+    contact: Contact | null;
+    onContact: (contact: Contact | null) => void;
+};
+
+function cx(...xs: Array<string | false | null | undefined>) {
+    return xs.filter(Boolean).join(' ');
+}
+
+const ISSUE_ICON = { error: XCircleIcon, warning: ExclamationTriangleIcon, info: InformationCircleIcon };
+const ISSUE_COLOR = { error: 'text-red-500', warning: 'text-amber-500', info: 'text-sky-500' };
+
+export default function MergeTagPanel({ hash, variables, issues, contact, onContact }: Props) {
+    const [email, setEmail] = useState('');
+    const [looking, setLooking] = useState(false);
+    const [err, setErr] = useState<string | null>(null);
+
+    const flagged = new Set(issues.filter((i) => i.severity === 'warning').map((i) => i.path));
+
+    async function lookup(e: React.FormEvent) {
+        e.preventDefault();
+        if (!email.trim()) return;
+        setLooking(true);
+        setErr(null);
+        try {
+            onContact(await api.contacts.lookup(hash, email.trim()));
+        } catch (e) {
+            setErr(errorMessage(e));
+        } finally {
+            setLooking(false);
+        }
+    }
+
+    return (
+        <div className="border-b border-gray-200 text-sm">
+            <form onSubmit={lookup} className="flex flex-wrap items-center gap-2 px-4 py-3">
+                <span className="text-gray-700">Preview as contact</span>
+                <input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="contact@example.com"
+                    className="rounded-lg border-gray-300 px-3 py-1.5 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+                <button
+                    type="submit"
+                    disabled={looking || !email.trim()}
+                    className="inline-flex items-center gap-1 rounded-lg bg-white px-3 py-1.5 text-sm font-medium text-gray-700 ring-1 ring-gray-200 hover:bg-gray-50 disabled:opacity-50"
+                >
+                    <MagnifyingGlassIcon className="h-4 w-4" />
+                    {looking ? 'Looking up…' : 'Load'}
+                </button>
+                {contact && (
+                    <span className="inline-flex items-center gap-2 rounded-full bg-purple-50 px-3 py-1 text-xs text-purple-700">
+                        {contact.name || contact.email}
+                        <button type="button" onClick={() => onContact(null)} className="hover:text-purple-900" title="Back to sample data">
+                            ✕
+                        </button>
+                    </span>
+                )}
+                {err && <span className="text-xs text-red-600">{err}</span>}
+            </form>
+
+            {variables.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 px-4 pb-3">
+                    {variables.map((v) => (
+                        <span
+                            key={v}
+                            className={cx(
+                                'rounded px-2 py-0.5 font-mono text-xs',
+                                flagged.has(v) ? 'bg-amber-50 text-amber-800 ring-1 ring-amber-200' : 'bg-gray-100 text-gray-700'
+                            )}
+                        >
+                            {v}
+                        </span>
+                    ))}
+                </div>
+            )}
+
+            {issues.length > 0 && (
+                <ul className="max-h-40 overflow-y-auto border-t border-gray-100 bg-gray-50 text-xs">
+                    {issues.map((issue, i) => {
+                        const Icon = ISSUE_ICON[issue.severity];
+                        return (
+                            <li key={`${issue.part}-${issue.path}-${i}`} className="flex items-center gap-2 px-4 py-1.5 text-gray-700">
+                                <Icon className={cx('h-4 w-4 shrink-0', ISSUE_COLOR[issue.severity])} />
+                                <span className="shrink-0 font-mono text-gray-500">
+                                    {issue.part === 'html' ? 'HTML' : 'Text'} line {issue.line}
+                                </span>
+                                <span className="truncate">{issue.message}</span>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+}
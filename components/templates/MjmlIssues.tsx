@@ -0,0 +1,40 @@
+'use client';
+
+import React from 'react';
+import { ExclamationTriangleIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import type { MjmlIssue } from '@/lib/mjml';
+
+type Props = {
+    issues: MjmlIssue[];
+    error: string | null;
+    /** Moves the editor cursor to a 1-based line. */
+    onJump: (line: number) => void;
+};
+
+export default function MjmlIssues({ issues, error, onJump }: Props) {
+    if (!error && issues.length === 0) return null;
+
+    return (
+        <div className="max-h-40 overflow-y-auto border-t border-gray-200 bg-gray-50 text-xs">
+            {error && (
+                <div className="flex items-center gap-2 px-4 py-2 text-red-700 bg-red-50">
+                    <XCircleIcon className="h-4 w-4 shrink-0" />
+                    <span>{error}</span>
+                </div>
+            )}
+            {issues.map((issue, i) => (
+                <button
+                    key={`${issue.line}-${i}`}
+                    type="button"
+                    onClick={() => onJump(issue.line)}
+                    className="w-full flex items-center gap-2 px-4 py-1.5 text-left text-amber-800 hover:bg-amber-50"
+                >
+                    <ExclamationTriangleIcon className="h-4 w-4 shrink-0 text-amber-500" />
+                    <span className="font-mono text-gray-500 shrink-0">Line {issue.line}</span>
+                    {issue.tagName && <span className="font-mono text-gray-400 shrink-0">&lt;{issue.tagName}&gt;</span>}
+                    <span className="truncate">{issue.message}</span>
+                </button>
+            ))}
+        </div>
+    );
+}
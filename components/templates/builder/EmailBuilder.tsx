@@ -0,0 +1,502 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import {
+    ArrowDownIcon,
+    ArrowUpIcon,
+    Bars3BottomLeftIcon,
+    CursorArrowRaysIcon,
+    DocumentDuplicateIcon,
+    MinusIcon,
+    NoSymbolIcon,
+    PhotoIcon,
+    ShareIcon,
+    TrashIcon,
+    ViewColumnsIcon,
+} from '@heroicons/react/24/outline';
+import type { Block, BlockType, EmailDocument, Section } from '@/types/email-builder';
+import {
+    type BlockPath,
+    createBlock,
+    createSection,
+    duplicateBlock,
+    duplicateSection,
+    findBlock,
+    hasFooter,
+    insertBlock,
+    insertSection,
+    moveBlock,
+    moveSection,
+    removeBlock,
+    removeSection,
+    setSectionColumns,
+    updateBlock,
+    updateSection,
+} from '@/lib/email-builder/document';
+import { BlockInspector, DocumentInspector, SectionInspector } from './Inspector';
+
+/* -------------------------------- Types -------------------------------- */
+
+type Props = {
+    value: EmailDocument;
+    onChange: (doc: EmailDocument) => void;
+};
+
+type Selection = { kind: 'block'; id: string } | { kind: 'section'; id: string } | null;
+
+type DragPayload =
+    | { kind: 'new-block'; type: BlockType }
+    | { kind: 'move-block'; id: string }
+    | { kind: 'new-section'; columns: number }
+    | { kind: 'move-section'; id: string };
+
+type DropTarget = { kind: 'block'; path: BlockPath } | { kind: 'section'; index: number };
+
+const PALETTE: Array<{ type: BlockType; label: string; icon: React.ComponentType<{ className?: string }> }> = [
+    { type: 'text', label: 'Text', icon: Bars3BottomLeftIcon },
+    { type: 'image', label: 'Image', icon: PhotoIcon },
+    { type: 'button', label: 'Button', icon: CursorArrowRaysIcon },
+    { type: 'divider', label: 'Divider', icon: MinusIcon },
+    { type: 'social', label: 'Social', icon: ShareIcon },
+    { type: 'footer', label: 'Footer', icon: NoSymbolIcon },
+];
+
+const BLOCK_LABELS: Record<BlockType, string> = {
+    text: 'Text',
+    image: 'Image',
+    button: 'Button',
+    divider: 'Divider',
+    social: 'Social links',
+    footer: 'Footer',
+};
+
+function cx(...xs: Array<string | false | null | undefined>) {
+    return xs.filter(Boolean).join(' ');
+}
+
+function footerSection(doc: EmailDocument): number {
+    return doc.sections.findIndex((s) => s.columns.some((c) => c.blocks.some((b) => b.type === 'footer')));
+}
+
+function stripTags(html: string): string {
+    return html.replace(/<br\s*\/?>/gi, '\n').replace(/<\/p>/gi, '\n').replace(/<[^>]+>/g, '').replace(/&nbsp;/g, ' ').trim();
+}
+
+/* ------------------------------ Component ------------------------------ */
+
+/**
+ * Drag-and-drop block editor. Pure view over `value`: every edit goes through
+ * the tree operations in lib/email-builder/document and is reported via `onChange`.
+ */
+export default function EmailBuilder({ value: doc, onChange }: Props) {
+    const [selected, setSelected] = useState<Selection>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [over, setOver] = useState<string | null>(null);
+    // dataTransfer payloads are unreadable during dragover, so keep our own copy
+    const drag = useRef<DragPayload | null>(null);
+
+    const selectedBlock = selected?.kind === 'block' ? findBlock(doc, selected.id)?.block ?? null : null;
+    const selectedSection = selected?.kind === 'section' ? doc.sections.find((s) => s.id === selected.id) ?? null : null;
+
+    function change(next: EmailDocument) {
+        setNotice(null);
+        onChange(next);
+    }
+
+    /* ---------- drag & drop ---------- */
+
+    function startDrag(e: React.DragEvent, payload: DragPayload) {
+        drag.current = payload;
+        e.dataTransfer.effectAllowed = payload.kind.startsWith('new') ? 'copy' : 'move';
+        e.dataTransfer.setData('text/plain', payload.kind); // Firefox needs some data to start a drag
+        e.stopPropagation();
+    }
+
+    function endDrag() {
+        drag.current = null;
+        setOver(null);
+    }
+
+    function accepts(target: DropTarget): boolean {
+        const p = drag.current;
+        if (!p) return false;
+        return target.kind === 'block' ? p.kind === 'new-block' || p.kind === 'move-block' : p.kind === 'new-section' || p.kind === 'move-section';
+    }
+
+    function drop(target: DropTarget) {
+        const p = drag.current;
+        endDrag();
+        if (!p) return;
+
+        if (target.kind === 'block') {
+            if (p.kind === 'new-block') {
+                const block = createBlock(p.type);
+                change(insertBlock(doc, target.path, block));
+                setSelected({ kind: 'block', id: block.id });
+            } else if (p.kind === 'move-block') {
+                change(moveBlock(doc, p.id, target.path));
+            }
+            return;
+        }
+
+        if (p.kind === 'new-section') {
+            const section = createSection(p.columns);
+            change(insertSection(doc, target.index, section));
+            setSelected({ kind: 'section', id: section.id });
+        } else if (p.kind === 'move-section') {
+            const from = doc.sections.findIndex((s) => s.id === p.id);
+            if (from < 0) return;
+            const index = from < target.index ? target.index - 1 : target.index;
+            change(insertSection(removeSection(doc, p.id), index, doc.sections[from]));
+        }
+    }
+
+    /* ---------- actions ---------- */
+
+    function appendBlock(type: BlockType) {
+        const block = createBlock(type);
+        const found = selected?.kind === 'block' ? findBlock(doc, selected.id) : null;
+        if (found) {
+            change(insertBlock(doc, { ...found.path, index: found.path.index + 1 }, block));
+        } else {
+            // new content goes into the selected section, else the one above the footer
+            const footerAt = footerSection(doc);
+            let next = doc;
+            let si = selectedSection ? doc.sections.indexOf(selectedSection) : footerAt < 0 ? doc.sections.length - 1 : footerAt - 1;
+            if (si < 0) {
+                si = Math.max(footerAt, 0);
+                next = insertSection(doc, si, createSection(1));
+            }
+            change(insertBlock(next, { section: si, column: 0, index: next.sections[si].columns[0].blocks.length }, block));
+        }
+        setSelected({ kind: 'block', id: block.id });
+    }
+
+    function appendSection(columns: number) {
+        const section = createSection(columns);
+        const footerAt = footerSection(doc);
+        change(insertSection(doc, footerAt < 0 ? doc.sections.length : footerAt, section));
+        setSelected({ kind: 'section', id: section.id });
+    }
+
+    function deleteBlock(id: string) {
+        const next = removeBlock(doc, id);
+        if (hasFooter(doc) && !hasFooter(next)) return setNotice('The footer carries the unsubscribe link and cannot be removed.');
+        change(next);
+        if (selected?.id === id) setSelected(null);
+    }
+
+    function deleteSection(id: string) {
+        const next = removeSection(doc, id);
+        if (hasFooter(doc) && !hasFooter(next)) return setNotice('This section holds the footer with the unsubscribe link; move the footer first.');
+        change(next);
+        if (selected?.id === id) setSelected(null);
+    }
+
+    /* ---------- render helpers ---------- */
+
+    function dropZone(id: string, target: DropTarget, label?: string) {
+        const active = over === id;
+        return (
+            <div
+                key={id}
+                onDragOver={(e) => {
+                    if (!accepts(target)) return;
+                    e.preventDefault();
+                    e.stopPropagation();
+                    if (over !== id) setOver(id);
+                }}
+                onDragLeave={() => active && setOver(null)}
+                onDrop={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    drop(target);
+                }}
+                className={cx(
+                    'rounded transition-all',
+                    active ? 'h-8 bg-indigo-100 ring-2 ring-indigo-400 ring-dashed' : label ? 'h-10' : 'h-2',
+                    label && !active && 'flex items-center justify-center border border-dashed border-gray-300 text-xs text-gray-400',
+                )}
+            >
+                {label && !active ? label : null}
+            </div>
+        );
+    }
+
+    function renderSection(section: Section, si: number) {
+        const isSelected = selected?.kind === 'section' && selected.id === section.id;
+        return (
+            <div
+                key={section.id}
+                draggable
+                onDragStart={(e) => startDrag(e, { kind: 'move-section', id: section.id })}
+                onDragEnd={endDrag}
+                onClick={(e) => {
+                    e.stopPropagation();
+                    setSelected({ kind: 'section', id: section.id });
+                }}
+                className={cx(
+                    'group relative rounded-lg ring-1 transition-all cursor-move',
+                    isSelected ? 'ring-2 ring-indigo-500' : 'ring-transparent hover:ring-indigo-200',
+                )}
+                style={{
+                    backgroundColor: section.backgroundColor || doc.settings.contentBackgroundColor,
+                    padding: Math.min(section.padding, 32),
+                }}
+            >
+                <div className="absolute -top-3 right-2 z-10 hidden items-center gap-1 rounded-md bg-white px-1 py-0.5 shadow ring-1 ring-gray-200 group-hover:flex">
+                    <span className="px-1 text-[10px] font-medium uppercase tracking-wider text-gray-400">
+                        Section · {section.columns.length} col
+                    </span>
+                    <IconButton title="Move up" onClick={() => change(moveSection(doc, section.id, -1))} disabled={si === 0}>
+                        <ArrowUpIcon className="h-3.5 w-3.5" />
+                    </IconButton>
+                    <IconButton title="Move down" onClick={() => change(moveSection(doc, section.id, 1))} disabled={si === doc.sections.length - 1}>
+                        <ArrowDownIcon className="h-3.5 w-3.5" />
+                    </IconButton>
+                    <IconButton title="Duplicate" onClick={() => change(duplicateSection(doc, section.id))}>
+                        <DocumentDuplicateIcon className="h-3.5 w-3.5" />
+                    </IconButton>
+                    <IconButton title="Delete" onClick={() => deleteSection(section.id)} danger>
+                        <TrashIcon className="h-3.5 w-3.5" />
+                    </IconButton>
+                </div>
+
+                <div className="flex gap-3">
+                    {section.columns.map((column, ci) => (
+                        <div key={column.id} className="min-w-0 flex-1 rounded border border-dashed border-gray-200 p-1">
+                            {dropZone(
+                                `${column.id}:0`,
+                                { kind: 'block', path: { section: si, column: ci, index: 0 } },
+                                column.blocks.length ? undefined : 'Drop blocks here',
+                            )}
+                            {column.blocks.map((block, bi) => (
+                                <React.Fragment key={block.id}>
+                                    {renderBlock(block)}
+                                    {dropZone(`${column.id}:${bi + 1}`, { kind: 'block', path: { section: si, column: ci, index: bi + 1 } })}
+                                </React.Fragment>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            </div>
+        );
+    }
+
+    function renderBlock(block: Block) {
+        const isSelected = selected?.kind === 'block' && selected.id === block.id;
+        return (
+            <div
+                draggable
+                onDragStart={(e) => startDrag(e, { kind: 'move-block', id: block.id })}
+                onDragEnd={endDrag}
+                onClick={(e) => {
+                    e.stopPropagation();
+                    setSelected({ kind: 'block', id: block.id });
+                }}
+                className={cx(
+                    'group/block relative rounded px-2 py-1 ring-1 transition-all cursor-move',
+                    isSelected ? 'ring-2 ring-indigo-500 bg-indigo-50/40' : 'ring-transparent hover:ring-gray-300',
+                )}
+            >
+                <div className="absolute right-1 top-1 z-10 hidden items-center gap-1 rounded bg-white/90 shadow-sm ring-1 ring-gray-200 group-hover/block:flex">
+                    <IconButton title="Duplicate" onClick={() => change(duplicateBlock(doc, block.id))}>
+                        <DocumentDuplicateIcon className="h-3.5 w-3.5" />
+                    </IconButton>
+                    <IconButton title="Delete" onClick={() => deleteBlock(block.id)} danger>
+                        <TrashIcon className="h-3.5 w-3.5" />
+                    </IconButton>
+                </div>
+                <BlockPreview block={block} doc={doc} />
+            </div>
+        );
+    }
+
+    /* ------------------------------- Render -------------------------------- */
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-[180px_minmax(0,1fr)_280px] min-h-[600px]">
+            {/* Palette */}
+            <aside className="border-b lg:border-b-0 lg:border-r border-gray-200 bg-gray-50 p-4 space-y-5">
+                <div>
+                    <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Blocks</h4>
+                    <div className="grid grid-cols-2 gap-2">
+                        {PALETTE.map(({ type, label, icon: Icon }) => (
+                            <button
+                                key={type}
+                                type="button"
+                                draggable
+                                onDragStart={(e) => startDrag(e, { kind: 'new-block', type })}
+                                onDragEnd={endDrag}
+                                onClick={() => appendBlock(type)}
+                                className="flex flex-col items-center gap-1 rounded-lg bg-white px-2 py-3 text-xs font-medium text-gray-700 ring-1 ring-gray-200 hover:ring-indigo-300 hover:text-indigo-600 cursor-grab transition-all"
+                            >
+                                <Icon className="h-5 w-5" />
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <div>
+                    <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Sections</h4>
+                    <div className="space-y-2">
+                        {[1, 2, 3].map((n) => (
+                            <button
+                                key={n}
+                                type="button"
+                                draggable
+                                onDragStart={(e) => startDrag(e, { kind: 'new-section', columns: n })}
+                                onDragEnd={endDrag}
+                                onClick={() => appendSection(n)}
+                                className="w-full flex items-center gap-2 rounded-lg bg-white px-3 py-2 text-xs font-medium text-gray-700 ring-1 ring-gray-200 hover:ring-indigo-300 hover:text-indigo-600 cursor-grab transition-all"
+                            >
+                                <ViewColumnsIcon className="h-4 w-4" />
+                                {n} column{n > 1 ? 's' : ''}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <p className="text-xs text-gray-400">Drag onto the canvas, or click to add.</p>
+            </aside>
+
+            {/* Canvas */}
+            <div
+                className="overflow-auto p-6"
+                style={{ backgroundColor: doc.settings.backgroundColor }}
+                onClick={() => setSelected(null)}
+            >
+                {notice && (
+                    <div className="mx-auto mb-3 max-w-xl rounded-lg bg-amber-50 px-3 py-2 text-xs text-amber-700 ring-1 ring-amber-200">
+                        {notice}
+                    </div>
+                )}
+                <div
+                    className="mx-auto"
+                    style={{
+                        maxWidth: doc.settings.width,
+                        fontFamily: doc.settings.fontFamily,
+                        color: doc.settings.textColor,
+                    }}
+                >
+                    {dropZone('section:0', { kind: 'section', index: 0 }, doc.sections.length ? undefined : 'Drop a section here')}
+                    {doc.sections.map((section, si) => (
+                        <React.Fragment key={section.id}>
+                            {renderSection(section, si)}
+                            {dropZone(`section:${si + 1}`, { kind: 'section', index: si + 1 })}
+                        </React.Fragment>
+                    ))}
+                </div>
+            </div>
+
+            {/* Inspector */}
+            <aside className="border-t lg:border-t-0 lg:border-l border-gray-200 bg-white p-4 overflow-y-auto">
+                <div className="flex items-center justify-between mb-4">
+                    <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                        {selectedBlock ? BLOCK_LABELS[selectedBlock.type] : selectedSection ? 'Section' : 'Email settings'}
+                    </h4>
+                    {selected && (
+                        <button type="button" onClick={() => setSelected(null)} className="text-xs text-indigo-600 hover:text-indigo-700">
+                            Email settings
+                        </button>
+                    )}
+                </div>
+                {selectedBlock ? (
+                    <BlockInspector block={selectedBlock} onChange={(patch) => change(updateBlock(doc, selectedBlock.id, patch))} />
+                ) : selectedSection ? (
+                    <SectionInspector
+                        section={selectedSection}
+                        onChange={(patch) => change(updateSection(doc, selectedSection.id, patch))}
+                        onColumns={(n) => change(setSectionColumns(doc, selectedSection.id, n))}
+                    />
+                ) : (
+                    <DocumentInspector settings={doc.settings} onChange={(patch) => change({ ...doc, settings: { ...doc.settings, ...patch } })} />
+                )}
+            </aside>
+        </div>
+    );
+}
+
+/* ----------------------------- Subcomponents ---------------------------- */
+
+function IconButton({ title, onClick, disabled, danger, children }: {
+    title: string;
+    onClick: () => void;
+    disabled?: boolean;
+    danger?: boolean;
+    children: React.ReactNode;
+}) {
+    return (
+        <button
+            type="button"
+            title={title}
+            disabled={disabled}
+            onClick={(e) => {
+                e.stopPropagation();
+                onClick();
+            }}
+            className={cx(
+                'rounded p-1 disabled:opacity-30 disabled:cursor-not-allowed',
+                danger ? 'text-gray-500 hover:bg-red-50 hover:text-red-600' : 'text-gray-500 hover:bg-gray-100 hover:text-gray-900',
+            )}
+        >
+            {children}
+        </button>
+    );
+}
+
+/** Canvas stand-in for a block; the live preview shows the compiled email. */
+function BlockPreview({ block, doc }: { block: Block; doc: EmailDocument }) {
+    switch (block.type) {
+        case 'text':
+            return (
+                <div
+                    className="whitespace-pre-line line-clamp-6"
+                    style={{ textAlign: block.align, fontSize: Math.min(block.fontSize, 28), color: block.color || undefined }}
+                >
+                    {stripTags(block.content) || <span className="text-gray-400">Empty text</span>}
+                </div>
+            );
+        case 'image':
+            return (
+                <div style={{ textAlign: block.align }}>
+                    {block.src ? (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img src={block.src} alt={block.alt} className="inline-block max-w-full" style={{ width: block.width ?? '100%' }} draggable={false} />
+                    ) : (
+                        <div className="flex h-24 items-center justify-center rounded bg-gray-100 text-xs text-gray-400">
+                            <PhotoIcon className="mr-1 h-4 w-4" /> No image URL
+                        </div>
+                    )}
+                </div>
+            );
+        case 'button':
+            return (
+                <div style={{ textAlign: block.align }} className="py-1">
+                    <span
+                        className="inline-block px-5 py-2 text-sm font-bold"
+                        style={{ backgroundColor: block.backgroundColor, color: block.color, borderRadius: block.radius }}
+                    >
+                        {block.label || 'Button'}
+                    </span>
+                </div>
+            );
+        case 'divider':
+            return <div className="my-2" style={{ borderTop: `${block.thickness}px solid ${block.color}` }} />;
+        case 'social':
+            return (
+                <div style={{ textAlign: block.align, color: doc.settings.linkColor }} className="text-sm">
+                    {block.links.length ? block.links.map((l) => (l.network === 'x' ? 'X' : l.network)).join(' · ') : <span className="text-gray-400">No links</span>}
+                </div>
+            );
+        case 'footer':
+            return (
+                <div style={{ textAlign: block.align, color: block.color }} className="text-xs">
+                    {block.content && <p className="mb-1">{stripTags(block.content)}</p>}
+                    <p>
+                        <span className="underline">Unsubscribe</span>
+                        {block.showViewInBrowser && <> · <span className="underline">View in browser</span></>}
+                    </p>
+                </div>
+            );
+    }
+}
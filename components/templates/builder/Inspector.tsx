@@ -0,0 +1,297 @@
+'use client';
+
+import React from 'react';
+import type { Align, Block, EmailDocumentSettings, Section, SocialNetwork } from '@/types/email-builder';
+import { MAX_COLUMNS } from '@/lib/email-builder/document';
+
+const NETWORKS: SocialNetwork[] = ['facebook', 'x', 'instagram', 'linkedin', 'youtube'];
+
+const FONTS = [
+    'Arial, Helvetica, sans-serif',
+    'Helvetica, Arial, sans-serif',
+    'Georgia, Times, serif',
+    'Tahoma, Verdana, sans-serif',
+    "'Trebuchet MS', sans-serif",
+    "'Courier New', monospace",
+];
+
+/* ------------------------------ Fields ------------------------------ */
+
+const inputCls = 'w-full rounded-lg border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+function Field({ label, hint, children }: { label: string; hint?: string; children: React.ReactNode }) {
+    return (
+        <label className="block">
+            <span className="block text-xs font-medium text-gray-600 mb-1">{label}</span>
+            {children}
+            {hint && <span className="mt-1 block text-xs text-gray-400">{hint}</span>}
+        </label>
+    );
+}
+
+function TextField({ label, value, onChange, placeholder, hint }: {
+    label: string;
+    value: string;
+    onChange: (v: string) => void;
+    placeholder?: string;
+    hint?: string;
+}) {
+    return (
+        <Field label={label} hint={hint}>
+            <input value={value} onChange={(e) => onChange(e.target.value)} placeholder={placeholder} className={inputCls} />
+        </Field>
+    );
+}
+
+function NumberField({ label, value, onChange, min, max }: {
+    label: string;
+    value: number;
+    onChange: (v: number) => void;
+    min?: number;
+    max?: number;
+}) {
+    return (
+        <Field label={label}>
+            <input
+                type="number"
+                value={value}
+                min={min}
+                max={max}
+                onChange={(e) => {
+                    const n = Number(e.target.value);
+                    if (Number.isFinite(n)) onChange(n);
+                }}
+                className={inputCls}
+            />
+        </Field>
+    );
+}
+
+function ColorField({ label, value, onChange, placeholder }: {
+    label: string;
+    value: string;
+    onChange: (v: string) => void;
+    placeholder?: string;
+}) {
+    return (
+        <Field label={label}>
+            <div className="flex items-center gap-2">
+                <input
+                    type="color"
+                    value={/^#[0-9a-f]{6}$/i.test(value) ? value : '#ffffff'}
+                    onChange={(e) => onChange(e.target.value)}
+                    className="h-9 w-10 shrink-0 cursor-pointer rounded border border-gray-300 bg-white p-0.5"
+                />
+                <input value={value} onChange={(e) => onChange(e.target.value)} placeholder={placeholder} className={inputCls} />
+            </div>
+        </Field>
+    );
+}
+
+function AlignField({ value, onChange }: { value: Align; onChange: (v: Align) => void }) {
+    return (
+        <Field label="Alignment">
+            <div className="inline-flex rounded-lg bg-gray-100 p-1">
+                {(['left', 'center', 'right'] as Align[]).map((a) => (
+                    <button
+                        key={a}
+                        type="button"
+                        onClick={() => onChange(a)}
+                        className={
+                            'rounded px-3 py-1 text-xs font-medium capitalize transition-all ' +
+                            (value === a ? 'bg-white shadow-sm text-gray-900' : 'text-gray-600 hover:text-gray-900')
+                        }
+                    >
+                        {a}
+                    </button>
+                ))}
+            </div>
+        </Field>
+    );
+}
+
+/* ------------------------------ Block ------------------------------- */
+
+export function BlockInspector({ block, onChange }: { block: Block; onChange: (patch: Partial<Block>) => void }) {
+    switch (block.type) {
+        case 'text':
+            return (
+                <div className="space-y-4">
+                    <Field label="Content (HTML)" hint="Inline tags like <p>, <strong>, <a> and merge tags are allowed.">
+                        <textarea
+                            value={block.content}
+                            onChange={(e) => onChange({ content: e.target.value })}
+                            rows={8}
+                            className={inputCls + ' font-mono'}
+                        />
+                    </Field>
+                    <AlignField value={block.align} onChange={(align) => onChange({ align })} />
+                    <NumberField label="Font size (px)" value={block.fontSize} min={10} max={48} onChange={(fontSize) => onChange({ fontSize })} />
+                    <ColorField label="Text color" value={block.color} placeholder="Document default" onChange={(color) => onChange({ color })} />
+                </div>
+            );
+
+        case 'image':
+            return (
+                <div className="space-y-4">
+                    <TextField label="Image URL" value={block.src} placeholder="https://…" onChange={(src) => onChange({ src })} />
+                    <TextField label="Alt text" value={block.alt} hint="Shown when images are blocked." onChange={(alt) => onChange({ alt })} />
+                    <TextField label="Link" value={block.href} placeholder="Optional" onChange={(href) => onChange({ href })} />
+                    <Field label="Width (px)" hint="Leave empty to fill the column.">
+                        <input
+                            type="number"
+                            value={block.width ?? ''}
+                            min={16}
+                            onChange={(e) => onChange({ width: e.target.value === '' ? null : Number(e.target.value) })}
+                            className={inputCls}
+                        />
+                    </Field>
+                    <AlignField value={block.align} onChange={(align) => onChange({ align })} />
+                </div>
+            );
+
+        case 'button':
+            return (
+                <div className="space-y-4">
+                    <TextField label="Label" value={block.label} onChange={(label) => onChange({ label })} />
+                    <TextField label="Link" value={block.href} placeholder="https://…" onChange={(href) => onChange({ href })} />
+                    <AlignField value={block.align} onChange={(align) => onChange({ align })} />
+                    <ColorField label="Background" value={block.backgroundColor} onChange={(backgroundColor) => onChange({ backgroundColor })} />
+                    <ColorField label="Text color" value={block.color} onChange={(color) => onChange({ color })} />
+                    <NumberField label="Corner radius (px)" value={block.radius} min={0} max={32} onChange={(radius) => onChange({ radius })} />
+                </div>
+            );
+
+        case 'divider':
+            return (
+                <div className="space-y-4">
+                    <ColorField label="Color" value={block.color} onChange={(color) => onChange({ color })} />
+                    <NumberField label="Thickness (px)" value={block.thickness} min={1} max={8} onChange={(thickness) => onChange({ thickness })} />
+                </div>
+            );
+
+        case 'social':
+            return (
+                <div className="space-y-4">
+                    <AlignField value={block.align} onChange={(align) => onChange({ align })} />
+                    {NETWORKS.map((network) => {
+                        const link = block.links.find((l) => l.network === network);
+                        return (
+                            <TextField
+                                key={network}
+                                label={network === 'x' ? 'X (Twitter)' : network[0].toUpperCase() + network.slice(1)}
+                                value={link?.url ?? ''}
+                                placeholder="Leave empty to hide"
+                                onChange={(url) => {
+                                    const rest = block.links.filter((l) => l.network !== network);
+                                    const links = url ? [...rest, { network, url }] : rest;
+                                    links.sort((a, b) => NETWORKS.indexOf(a.network) - NETWORKS.indexOf(b.network));
+                                    onChange({ links });
+                                }}
+                            />
+                        );
+                    })}
+                </div>
+            );
+
+        case 'footer':
+            return (
+                <div className="space-y-4">
+                    <Field label="Footer text (HTML)" hint="An unsubscribe link ({{unsubscribe_url}}) is always added below.">
+                        <textarea
+                            value={block.content}
+                            onChange={(e) => onChange({ content: e.target.value })}
+                            rows={4}
+                            className={inputCls + ' font-mono'}
+                        />
+                    </Field>
+                    <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                            type="checkbox"
+                            checked={block.showViewInBrowser}
+                            onChange={(e) => onChange({ showViewInBrowser: e.target.checked })}
+                            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        Add “View in browser” link
+                    </label>
+                    <AlignField value={block.align} onChange={(align) => onChange({ align })} />
+                    <ColorField label="Text color" value={block.color} onChange={(color) => onChange({ color })} />
+                </div>
+            );
+    }
+}
+
+/* ----------------------------- Section ------------------------------ */
+
+export function SectionInspector({ section, onChange, onColumns }: {
+    section: Section;
+    onChange: (patch: Partial<Omit<Section, 'id' | 'columns'>>) => void;
+    onColumns: (count: number) => void;
+}) {
+    return (
+        <div className="space-y-4">
+            <Field label="Columns" hint="Columns stack on screens narrower than the email width.">
+                <div className="inline-flex rounded-lg bg-gray-100 p-1">
+                    {Array.from({ length: MAX_COLUMNS }, (_, i) => i + 1).map((n) => (
+                        <button
+                            key={n}
+                            type="button"
+                            onClick={() => onColumns(n)}
+                            className={
+                                'rounded px-3 py-1 text-xs font-medium transition-all ' +
+                                (section.columns.length === n ? 'bg-white shadow-sm text-gray-900' : 'text-gray-600 hover:text-gray-900')
+                            }
+                        >
+                            {n}
+                        </button>
+                    ))}
+                </div>
+            </Field>
+            <ColorField
+                label="Background"
+                value={section.backgroundColor}
+                placeholder="Content background"
+                onChange={(backgroundColor) => onChange({ backgroundColor })}
+            />
+            <NumberField label="Padding (px)" value={section.padding} min={0} max={64} onChange={(padding) => onChange({ padding })} />
+        </div>
+    );
+}
+
+/* ----------------------------- Document ----------------------------- */
+
+export function DocumentInspector({ settings, onChange }: {
+    settings: EmailDocumentSettings;
+    onChange: (patch: Partial<EmailDocumentSettings>) => void;
+}) {
+    return (
+        <div className="space-y-4">
+            <TextField label="Title" value={settings.title ?? ''} placeholder="Shown in the browser view" onChange={(title) => onChange({ title })} />
+            <TextField
+                label="Preheader"
+                value={settings.preheader ?? ''}
+                placeholder="Inbox preview text"
+                hint="Hidden text most clients show after the subject."
+                onChange={(preheader) => onChange({ preheader })}
+            />
+            <NumberField label="Width (px)" value={settings.width} min={320} max={800} onChange={(width) => onChange({ width })} />
+            <Field label="Font">
+                <select value={settings.fontFamily} onChange={(e) => onChange({ fontFamily: e.target.value })} className={inputCls}>
+                    {FONTS.map((f) => (
+                        <option key={f} value={f}>
+                            {f.split(',')[0].replace(/'/g, '')}
+                        </option>
+                    ))}
+                </select>
+            </Field>
+            <ColorField label="Page background" value={settings.backgroundColor} onChange={(backgroundColor) => onChange({ backgroundColor })} />
+            <ColorField
+                label="Content background"
+                value={settings.contentBackgroundColor}
+                onChange={(contentBackgroundColor) => onChange({ contentBackgroundColor })}
+            />
+            <ColorField label="Text color" value={settings.textColor} onChange={(textColor) => onChange({ textColor })} />
+            <ColorField label="Link color" value={settings.linkColor} onChange={(linkColor) => onChange({ linkColor })} />
+        </div>
+    );
+}
@@ -0,0 +1,150 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import type { TemplateRevision } from '@/types/api';
+import { type DiffRow, MAX_DIFF_EDITS, diffLines, diffStats, toSideBySide } from '@/lib/diff';
+
+type Field = 'html' | 'text' | 'mjml';
+
+const FIELD_LABELS: Record<Field, string> = { html: 'HTML', text: 'Plain Text', mjml: 'MJML' };
+
+/** Unchanged lines kept around each change when collapsing. */
+const CONTEXT = 3;
+
+function cx(...xs: Array<string | false | null | undefined>) {
+    return xs.filter(Boolean).join(' ');
+}
+
+type Collapsed = DiffRow | { kind: 'gap'; hidden: number };
+
+function collapse(rows: DiffRow[]): Collapsed[] {
+    const keep = rows.map(() => false);
+    rows.forEach((r, i) => {
+        if (r.kind === 'same') return;
+        for (let j = Math.max(0, i - CONTEXT); j <= Math.min(rows.length - 1, i + CONTEXT); j++) keep[j] = true;
+    });
+
+    const out: Collapsed[] = [];
+    let hidden = 0;
+    rows.forEach((r, i) => {
+        if (keep[i]) {
+            if (hidden) out.push({ kind: 'gap', hidden });
+            hidden = 0;
+            out.push(r);
+        } else {
+            hidden++;
+        }
+    });
+    if (hidden) out.push({ kind: 'gap', hidden });
+    return out;
+}
+
+export default function RevisionDiff({ base, target }: { base: TemplateRevision; target: TemplateRevision }) {
+    const fields = (['html', 'text', 'mjml'] as Field[]).filter((f) => base[f] || target[f]);
+    const [field, setField] = useState<Field>(fields[0] ?? 'html');
+    const [onlyChanges, setOnlyChanges] = useState(true);
+
+    const { rows, stats } = useMemo(() => {
+        const ops = diffLines(base[field] ?? '', target[field] ?? '');
+        return ops ? { rows: toSideBySide(ops), stats: diffStats(ops) } : { rows: null, stats: null };
+    }, [base, target, field]);
+
+    const shown: Collapsed[] = !rows ? [] : onlyChanges ? collapse(rows) : rows;
+    const identical = stats !== null && stats.added === 0 && stats.removed === 0;
+
+    return (
+        <div>
+            <div className="flex items-center justify-between border-b border-gray-200 px-4 py-2">
+                <div className="flex items-center gap-1 rounded-lg bg-gray-100 p-1">
+                    {(fields.length ? fields : (['html'] as Field[])).map((f) => (
+                        <button
+                            key={f}
+                            onClick={() => setField(f)}
+                            className={cx(
+                                'rounded px-2 py-1 text-xs font-medium transition-all',
+                                field === f ? 'bg-white shadow-sm text-gray-900' : 'text-gray-600 hover:text-gray-900'
+                            )}
+                        >
+                            {FIELD_LABELS[f]}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex items-center gap-4 text-xs">
+                    {stats && (
+                        <span className="font-mono">
+                            <span className="text-emerald-600">+{stats.added}</span>{' '}
+                            <span className="text-red-600">−{stats.removed}</span>
+                        </span>
+                    )}
+                    <label className="inline-flex items-center gap-2 text-gray-700">
+                        <input
+                            type="checkbox"
+                            checked={onlyChanges}
+                            onChange={(e) => setOnlyChanges(e.target.checked)}
+                            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        Only changes
+                    </label>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 border-b border-gray-200 bg-gray-50 text-xs font-medium text-gray-600">
+                <div className="px-4 py-2 border-r border-gray-200">v{base.version}</div>
+                <div className="px-4 py-2">v{target.version}</div>
+            </div>
+
+            {!rows ? (
+                <p className="p-8 text-center text-sm text-gray-500">
+                    The {FIELD_LABELS[field]} of these versions differs in more than {MAX_DIFF_EDITS.toLocaleString()} lines, too many to diff here.
+                </p>
+            ) : identical ? (
+                <p className="p-8 text-center text-sm text-gray-500">No differences in {FIELD_LABELS[field]}.</p>
+            ) : (
+                <div className="max-h-[560px] overflow-auto">
+                    <table className="w-full table-fixed border-collapse font-mono text-xs">
+                        <colgroup>
+                            <col className="w-12" />
+                            <col />
+                            <col className="w-12" />
+                            <col />
+                        </colgroup>
+                        <tbody>
+                            {shown.map((row, i) =>
+                                row.kind === 'gap' ? (
+                                    <tr key={i} className="bg-indigo-50/60 text-indigo-500">
+                                        <td colSpan={4} className="px-4 py-1 text-center">
+                                            ⋯ {row.hidden} unchanged line{row.hidden === 1 ? '' : 's'}
+                                        </td>
+                                    </tr>
+                                ) : (
+                                    <tr key={i} className="align-top">
+                                        <td className="select-none border-r border-gray-100 px-2 text-right text-gray-400">{row.left?.line ?? ''}</td>
+                                        <td
+                                            className={cx(
+                                                'whitespace-pre-wrap break-all border-r border-gray-200 px-2',
+                                                row.left && row.kind !== 'same' && 'bg-red-50 text-red-900',
+                                                !row.left && 'bg-gray-50'
+                                            )}
+                                        >
+                                            {row.left?.text ?? ''}
+                                        </td>
+                                        <td className="select-none border-r border-gray-100 px-2 text-right text-gray-400">{row.right?.line ?? ''}</td>
+                                        <td
+                                            className={cx(
+                                                'whitespace-pre-wrap break-all px-2',
+                                                row.right && row.kind !== 'same' && 'bg-emerald-50 text-emerald-900',
+                                                !row.right && 'bg-gray-50'
+                                            )}
+                                        >
+                                            {row.right?.text ?? ''}
+                                        </td>
+                                    </tr>
+                                )
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,220 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { ArrowPathIcon, ArrowUturnLeftIcon, ClockIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { api, errorMessage, isAbortError } from '@/lib/api';
+import type { Template, TemplateRevision } from '@/types/api';
+import RevisionDiff from './RevisionDiff';
+
+type Props = {
+    hash: string;
+    templateId: number;
+    /** Called with the template as it is after a restore. */
+    onRestored: (template: Template) => void;
+};
+
+const PER_PAGE = 50;
+
+function cx(...xs: Array<string | false | null | undefined>) {
+    return xs.filter(Boolean).join(' ');
+}
+
+function when(iso: string) {
+    try {
+        return new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+    } catch {
+        return iso;
+    }
+}
+
+/**
+ * Revision list with a two-way compare (A = older side, B = newer side) and restore.
+ * Revisions are immutable; restoring writes a new one on the backend.
+ */
+export default function TemplateHistory({ hash, templateId, onRestored }: Props) {
+    const [revisions, setRevisions] = useState<TemplateRevision[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [err, setErr] = useState<string | null>(null);
+    const [reloadKey, setReloadKey] = useState(0);
+
+    const [baseId, setBaseId] = useState<number | null>(null);
+    const [targetId, setTargetId] = useState<number | null>(null);
+    const [full, setFull] = useState<Record<number, TemplateRevision>>({});
+    const [diffErr, setDiffErr] = useState<string | null>(null);
+
+    const [restoring, setRestoring] = useState<number | null>(null);
+
+    useEffect(() => {
+        const ctrl = new AbortController();
+        setLoading(true);
+        setErr(null);
+        api.templates
+            .revisions(hash, templateId, { signal: ctrl.signal, query: { page: 1, perPage: PER_PAGE } })
+            .then((res) => {
+                const items = [...res.items].sort((a, b) => b.version - a.version);
+                setRevisions(items);
+                // default compare: previous revision against the current one
+                setTargetId(items[0]?.id ?? null);
+                setBaseId(items[1]?.id ?? null);
+            })
+            .catch((e) => {
+                if (!isAbortError(e)) setErr(errorMessage(e));
+            })
+            .finally(() => {
+                if (!ctrl.signal.aborted) setLoading(false);
+            });
+        return () => ctrl.abort();
+    }, [hash, templateId, reloadKey]);
+
+    const loadFull = useCallback(
+        async (id: number, signal: AbortSignal) => {
+            const listed = revisions.find((r) => r.id === id);
+            // list responses may already carry the content
+            if (listed && listed.html !== undefined && listed.text !== undefined) return listed;
+            return api.templates.revision(hash, templateId, id, { signal });
+        },
+        [hash, templateId, revisions]
+    );
+
+    useEffect(() => {
+        const ids = [baseId, targetId].filter((id): id is number => id !== null && !full[id]);
+        if (!ids.length) return;
+        const ctrl = new AbortController();
+        setDiffErr(null);
+        Promise.all(ids.map((id) => loadFull(id, ctrl.signal)))
+            .then((loaded) => setFull((prev) => Object.fromEntries([...Object.entries(prev), ...loaded.map((r) => [r.id, r])])))
+            .catch((e) => {
+                if (!isAbortError(e)) setDiffErr(errorMessage(e));
+            });
+        return () => ctrl.abort();
+    }, [baseId, targetId, full, loadFull]);
+
+    async function restore(rev: TemplateRevision) {
+        if (!confirm(`Restore version ${rev.version}? The current content is kept in history.`)) return;
+        setRestoring(rev.id);
+        setErr(null);
+        try {
+            const tpl = await api.templates.restore(hash, templateId, rev.id);
+            onRestored(tpl);
+            setReloadKey((k) => k + 1);
+        } catch (e) {
+            setErr(errorMessage(e));
+        } finally {
+            setRestoring(null);
+        }
+    }
+
+    const base = baseId !== null ? full[baseId] : undefined;
+    const target = targetId !== null ? full[targetId] : undefined;
+    const currentId = revisions[0]?.id;
+
+    return (
+        <div className="bg-white rounded-xl shadow-sm ring-1 ring-gray-200 overflow-hidden">
+            <div className="bg-gradient-to-r from-gray-700 to-gray-800 px-6 py-3">
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2 text-white">
+                        <ClockIcon className="h-5 w-5" />
+                        <h3 className="text-sm font-semibold uppercase tracking-wider">Version History</h3>
+                    </div>
+                    <button
+                        onClick={() => setReloadKey((k) => k + 1)}
+                        className="text-white/60 hover:text-white"
+                        title="Reload"
+                    >
+                        <ArrowPathIcon className={cx('h-4 w-4', loading && 'animate-spin')} />
+                    </button>
+                </div>
+            </div>
+
+            {err && (
+                <div className="flex items-center gap-2 border-b border-red-200 bg-red-50 px-6 py-2 text-sm text-red-700">
+                    <ExclamationTriangleIcon className="h-4 w-4" />
+                    {err}
+                </div>
+            )}
+
+            {loading && revisions.length === 0 ? (
+                <p className="p-8 text-center text-sm text-gray-500">Loading history…</p>
+            ) : revisions.length === 0 ? (
+                <p className="p-8 text-center text-sm text-gray-500">No revisions yet. Every save will be recorded here.</p>
+            ) : (
+                <div className="max-h-80 overflow-y-auto">
+                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <thead className="bg-gray-50 text-xs font-medium uppercase tracking-wider text-gray-500 sticky top-0">
+                            <tr>
+                                <th className="px-3 py-2 text-center" title="Compare from">A</th>
+                                <th className="px-3 py-2 text-center" title="Compare to">B</th>
+                                <th className="px-3 py-2 text-left">Version</th>
+                                <th className="px-3 py-2 text-left">Author</th>
+                                <th className="px-3 py-2 text-left">Saved</th>
+                                <th className="px-3 py-2" />
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {revisions.map((rev) => (
+                                <tr key={rev.id} className={cx(rev.id === baseId || rev.id === targetId ? 'bg-indigo-50/40' : 'hover:bg-gray-50')}>
+                                    <td className="px-3 py-2 text-center">
+                                        <input
+                                            type="radio"
+                                            name="rev-base"
+                                            checked={baseId === rev.id}
+                                            onChange={() => setBaseId(rev.id)}
+                                            className="border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                                        />
+                                    </td>
+                                    <td className="px-3 py-2 text-center">
+                                        <input
+                                            type="radio"
+                                            name="rev-target"
+                                            checked={targetId === rev.id}
+                                            onChange={() => setTargetId(rev.id)}
+                                            className="border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                                        />
+                                    </td>
+                                    <td className="px-3 py-2 font-medium text-gray-900">
+                                        v{rev.version}
+                                        {rev.id === currentId && (
+                                            <span className="ml-2 rounded-full bg-emerald-100 px-2 py-0.5 text-xs font-medium text-emerald-700">Current</span>
+                                        )}
+                                    </td>
+                                    <td className="px-3 py-2 text-gray-700">
+                                        {rev.author ? rev.author.fullName || rev.author.email : <span className="text-gray-400">Unknown</span>}
+                                    </td>
+                                    <td className="px-3 py-2 text-gray-500">{when(rev.created_at)}</td>
+                                    <td className="px-3 py-2 text-right">
+                                        {rev.id !== currentId && (
+                                            <button
+                                                onClick={() => restore(rev)}
+                                                disabled={restoring !== null}
+                                                className="inline-flex items-center gap-1 rounded-lg bg-white px-2.5 py-1 text-xs font-medium text-gray-700 ring-1 ring-gray-200 hover:bg-gray-50 disabled:opacity-50"
+                                            >
+                                                <ArrowUturnLeftIcon className="h-3.5 w-3.5" />
+                                                {restoring === rev.id ? 'Restoring…' : 'Restore'}
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {revisions.length > 1 && (
+                <div className="border-t border-gray-200">
+                    {diffErr ? (
+                        <p className="p-4 text-sm text-red-600">{diffErr}</p>
+                    ) : baseId === null || targetId === null ? (
+                        <p className="p-4 text-sm text-gray-500">Pick an A and a B revision to compare.</p>
+                    ) : baseId === targetId ? (
+                        <p className="p-4 text-sm text-gray-500">Pick two different revisions to compare.</p>
+                    ) : base && target ? (
+                        <RevisionDiff base={base} target={target} />
+                    ) : (
+                        <p className="p-4 text-sm text-gray-500">Loading revisions…</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
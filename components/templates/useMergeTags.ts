@@ -0,0 +1,75 @@
+'use client';
+
+import { useDeferredValue, useEffect, useMemo, useState } from 'react';
+import type Handlebars from 'handlebars';
+import { api } from '@/lib/api';
+import {
+    type MergeTagCategory,
+    type MergeTagIssue,
+    analyzeMergeTags,
+    mergeTagCatalog,
+    mergeTagSchema,
+    validateMergeTags,
+} from '@/lib/merge-tags';
+
+/** Contacts sampled to discover custom attribute keys; there is no schema endpoint for them. */
+const SAMPLE_SIZE = 200;
+
+export type MergeTagReport = MergeTagIssue & { part: 'html' | 'text' };
+
+type MergeTagsState = {
+    attributeKeys: string[];
+    catalog: MergeTagCategory[];
+    /** Distinct variables referenced by the template. */
+    variables: string[];
+    issues: MergeTagReport[];
+};
+
+/** Validates the Handlebars variables in `html`/`text` against company `hash`'s contact fields. */
+export function useMergeTags(hash: string | null | undefined, html: string, text: string, enabled: boolean): MergeTagsState {
+    const [attributeKeys, setAttributeKeys] = useState<string[]>([]);
+    const [hbs, setHbs] = useState<typeof Handlebars | null>(null);
+
+    useEffect(() => {
+        if (!enabled || hbs) return;
+        void import('handlebars').then((m) => setHbs(m.default));
+    }, [enabled, hbs]);
+
+    useEffect(() => {
+        if (!hash) return;
+        const ctrl = new AbortController();
+        api.contacts
+            .list(hash, { signal: ctrl.signal, query: { page: 1, perPage: SAMPLE_SIZE } })
+            .then((res) => {
+                const keys = new Set<string>();
+                for (const c of res.items) for (const k of Object.keys(c.attributes ?? {})) keys.add(k);
+                setAttributeKeys([...keys].sort());
+            })
+            .catch(() => {
+                if (!ctrl.signal.aborted) setAttributeKeys([]);
+            });
+        return () => ctrl.abort();
+    }, [hash]);
+
+    const htmlSource = useDeferredValue(html);
+    const textSource = useDeferredValue(text);
+
+    const catalog = useMemo(() => mergeTagCatalog(attributeKeys), [attributeKeys]);
+
+    const { variables, issues } = useMemo(() => {
+        if (!enabled || !hbs) return { variables: [], issues: [] };
+        const schema = mergeTagSchema(attributeKeys);
+        const vars = new Set<string>();
+        const out: MergeTagReport[] = [];
+        for (const [part, source] of [['html', htmlSource], ['text', textSource]] as const) {
+            if (!source.trim()) continue;
+            const { refs, error } = analyzeMergeTags(hbs, source);
+            if (error) out.push({ ...error, part });
+            for (const r of refs) if (!r.scoped) vars.add(r.path);
+            out.push(...validateMergeTags(refs, schema).map((i) => ({ ...i, part })));
+        }
+        return { variables: [...vars].sort(), issues: out };
+    }, [enabled, hbs, attributeKeys, htmlSource, textSource]);
+
+    return { attributeKeys, catalog, variables, issues };
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { compileMjml, type MjmlIssue } from '@/lib/mjml';
+
+type MjmlCompileState = {
+    html: string;
+    issues: MjmlIssue[];
+    error: string | null;
+    compiling: boolean;
+};
+
+/** Debounced server compile of `source`; idle (empty result) while `enabled` is false. */
+export function useMjmlCompile(source: string, enabled: boolean): MjmlCompileState {
+    const [html, setHtml] = useState('');
+    const [issues, setIssues] = useState<MjmlIssue[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [compiling, setCompiling] = useState(false);
+
+    useEffect(() => {
+        if (!enabled || !source.trim()) {
+            setHtml('');
+            setIssues([]);
+            setError(null);
+            return;
+        }
+
+        const controller = new AbortController();
+        const t = setTimeout(async () => {
+            try {
+                setCompiling(true);
+                const out = await compileMjml(source, controller.signal);
+                setIssues(out.errors ?? []);
+                setError(out.error ?? null);
+                // keep the last good render while the document is momentarily unparsable
+                if (out.html !== undefined) setHtml(out.html);
+            } catch (e) {
+                if (!(e instanceof DOMException && e.name === 'AbortError')) setError((e as Error).message);
+            } finally {
+                if (!controller.signal.aborted) setCompiling(false);
+            }
+        }, 300);
+
+        return () => {
+            controller.abort();
+            clearTimeout(t);
+        };
+    }, [source, enabled]);
+
+    return { html, issues, error, compiling };
+}
@@ -0,0 +1,89 @@
+// lib/ab-test.ts
+// A/B campaign helpers shared by the campaign editors and the detail page.
+import type { AbWinnerMetric, CampaignAbTest, CampaignMetrics, CampaignVariant } from '@/types/api';
+
+export const MAX_VARIANTS = 4;
+export const VARIANT_KEYS = ['A', 'B', 'C', 'D'] as const;
+
+export const MIN_COHORT_PERCENT = 10;
+export const MAX_COHORT_PERCENT = 90;
+
+export const WAIT_HOUR_OPTIONS = [1, 2, 4, 6, 12, 24, 48, 72] as const;
+
+export const WINNER_METRIC_LABELS: Record<AbWinnerMetric, string> = {
+    opens: 'Open rate',
+    clicks: 'Click rate',
+};
+
+/** Two variants that start out identical to the campaign; the user then changes what is tested. */
+export function defaultAbTest(base: { subject: string; template_id: number | null }): CampaignAbTest {
+    return {
+        variants: VARIANT_KEYS.slice(0, 2).map((key) => ({
+            key,
+            subject: base.subject || null,
+            from_name: null,
+            template_id: base.template_id,
+        })),
+        cohort_percent: 20,
+        winner_metric: 'opens',
+        wait_hours: 4,
+    };
+}
+
+/** Next unused key, so removing B from A/B/C and adding again gives B rather than a duplicate C. */
+export function nextVariantKey(variants: CampaignVariant[]): string | null {
+    return VARIANT_KEYS.find((k) => !variants.some((v) => v.key === k)) ?? null;
+}
+
+function signature(v: CampaignVariant, base: { subject: string; template_id: number | null }) {
+    return JSON.stringify([
+        (v.subject ?? '').trim() || base.subject.trim(),
+        (v.from_name ?? '').trim(),
+        v.template_id ?? base.template_id,
+    ]);
+}
+
+/** First problem that stops the test from being saved, or null. */
+export function validateAbTest(ab: CampaignAbTest, base: { subject: string; template_id: number | null }): string | null {
+    if (ab.variants.length < 2) return 'An A/B test needs at least two variants.';
+    if (ab.variants.length > MAX_VARIANTS) return `At most ${MAX_VARIANTS} variants.`;
+    for (const v of ab.variants) {
+        if (!(v.subject ?? '').trim() && !base.subject.trim()) return `Variant ${v.key} has no subject.`;
+        if (v.template_id == null && base.template_id == null) return `Variant ${v.key} has no template.`;
+    }
+    const seen = new Map<string, string>();
+    for (const v of ab.variants) {
+        const sig = signature(v, base);
+        const twin = seen.get(sig);
+        if (twin) return `Variants ${twin} and ${v.key} are identical; change the subject, sender name or template.`;
+        seen.set(sig, v.key);
+    }
+    if (ab.cohort_percent < MIN_COHORT_PERCENT || ab.cohort_percent > MAX_COHORT_PERCENT) {
+        return `The test cohort must be between ${MIN_COHORT_PERCENT}% and ${MAX_COHORT_PERCENT}% of the audience.`;
+    }
+    if (!(ab.wait_hours > 0)) return 'Pick how long to wait before choosing the winner.';
+    return null;
+}
+
+/** Share of the whole audience each variant receives during the test. */
+export function perVariantPercent(ab: Pick<CampaignAbTest, 'variants' | 'cohort_percent'>): number {
+    return ab.variants.length ? ab.cohort_percent / ab.variants.length : 0;
+}
+
+/** Opens or clicks per delivered message (per sent while delivery counts are still zero). */
+export function variantRate(m: CampaignMetrics | undefined, metric: AbWinnerMetric): number | null {
+    if (!m) return null;
+    const denom = m.delivered || m.sent;
+    return denom ? m[metric] / denom : null;
+}
+
+/** The decided winner, or the current leader on the winning metric while the test runs. */
+export function leadingVariant(ab: CampaignAbTest): { key: string; decided: boolean } | null {
+    if (ab.winner_key) return { key: ab.winner_key, decided: true };
+    let best: { key: string; rate: number } | null = null;
+    for (const v of ab.variants) {
+        const r = variantRate(v.metrics, ab.winner_metric);
+        if (r !== null && (!best || r > best.rate)) best = { key: v.key, rate: r };
+    }
+    return best ? { key: best.key, decided: false } : null;
+}
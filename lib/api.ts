@@ -0,0 +1,430 @@
+// lib/api.ts
+import type {
+    ApiErrorBody,
+    ApiPaged,
+    Automation,
+    AutomationInput,
+    AutomationLifecycle,
+    AutomationRun,
+    AutomationRunContact,
+    AutomationTriggerInfo,
+    AutomationTriggerPayload,
+    AutomationWaitingCount,
+    BuildDryRunResponse,
+    BuildResponse,
+    Campaign,
+    CampaignAction,
+    CampaignEvent,
+    CampaignInput,
+    CampaignOccurrence,
+    CampaignProgress,
+    CampaignRecipient,
+    CampaignStats,
+    Company,
+    CompanyBrief,
+    CompanyMembership,
+    CompanyPlan,
+    Contact,
+    DomainApiKey,
+    DomainDetail,
+    DomainSummary,
+    DomainVerifyReport,
+    InboundMessage,
+    InboundRoute,
+    IpPool,
+    IpPoolInput,
+    ListBulkResult,
+    ListGroup,
+    OccurrenceAction,
+    ReportRange,
+    RunContactAction,
+    Segment,
+    SegmentBuild,
+    SegmentBuildInput,
+    SegmentPreviewRow,
+    Template,
+    TemplateInput,
+    TemplateRevision,
+    TestSendInput,
+    TestSendResult,
+    Webhook,
+    WebhookCreated,
+    WebhookInput,
+} from '@/types/api';
+import { redirectToLogin, refreshSession } from '@/lib/session';
+
+export type { ApiPaged, ApiErrorBody } from '@/types/api';
+
+/** Same-origin BFF proxy (app/api/backend); it attaches the session cookie as a Bearer token. */
+export const BACKEND_URL = '/api/backend';
+
+const RETRY_BASE_MS = 300;
+const IDEMPOTENT = new Set(['GET', 'HEAD', 'PUT', 'DELETE']);
+
+/* ------------------------------- Errors ------------------------------- */
+
+export class ApiError extends Error {
+    readonly status: number;
+    readonly fields: Record<string, string>;
+    readonly body: unknown;
+
+    constructor(message: string, status: number, fields: Record<string, string> = {}, body: unknown = null) {
+        super(message);
+        this.name = 'ApiError';
+        this.status = status;
+        this.fields = fields;
+        this.body = body;
+    }
+}
+
+export function isAbortError(e: unknown): boolean {
+    return e instanceof DOMException && e.name === 'AbortError';
+}
+
+/** Human-readable message for anything thrown by a request. */
+export function errorMessage(e: unknown, fallback = 'Something went wrong'): string {
+    if (e instanceof Error) return e.message || fallback;
+    return typeof e === 'string' && e ? e : fallback;
+}
+
+async function toApiError(res: Response): Promise<ApiError> {
+    let body: unknown = null;
+    try {
+        body = await res.json();
+    } catch {
+        // non-JSON error page (proxy, gateway…)
+    }
+    const b = (body && typeof body === 'object' ? body : {}) as ApiErrorBody;
+    const message =
+        (typeof b.message === 'string' && b.message) ||
+        (typeof b.error === 'string' && b.error) ||
+        `Request failed (${res.status})`;
+    return new ApiError(message, res.status, b.fields ?? {}, body);
+}
+
+/* ------------------------------ Helpers ------------------------------- */
+
+export function joinUrl(base: string, path: string): string {
+    return `${(base || '').replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+}
+
+export type Query = Record<string, string | number | boolean | null | undefined>;
+
+function withQuery(path: string, query?: Query): string {
+    if (!query) return path;
+    const sp = new URLSearchParams();
+    for (const [k, v] of Object.entries(query)) {
+        if (v === undefined || v === null || v === '') continue;
+        sp.set(k, String(v));
+    }
+    const qs = sp.toString();
+    return qs ? `${path}${path.includes('?') ? '&' : '?'}${qs}` : path;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+        const t = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(t);
+            reject(new DOMException('Aborted', 'AbortError'));
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/* ------------------------------ Request ------------------------------- */
+
+const NO_REFRESH = /\/auth\/(login|refresh|logout|register|password)\b/;
+
+/**
+ * `fetch` for backend calls. A 401 triggers one shared `/auth/refresh`, after which the
+ * request is replayed with the renewed cookie; if that fails too the user is sent to login.
+ * Credentials are not set here — the proxy adds them from the HttpOnly cookie. String bodies
+ * go out as JSON unless the caller names another Content-Type; FormData sets its own.
+ */
+export async function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+    if (typeof init.body === 'string') {
+        const headers = new Headers(init.headers);
+        if (!headers.has('Content-Type')) headers.set('Content-Type', 'application/json');
+        init = { ...init, headers };
+    }
+
+    const res = await fetch(input, init);
+    if (res.status !== 401 || NO_REFRESH.test(input)) return res;
+
+    if (!(await refreshSession())) {
+        redirectToLogin();
+        return res;
+    }
+
+    const replay = await fetch(input, init);
+    if (replay.status === 401) redirectToLogin();
+    return replay;
+}
+
+export type RequestOptions = {
+    method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+    query?: Query;
+    /** Serialized as JSON unless it is already FormData or a string. */
+    body?: unknown;
+    headers?: HeadersInit;
+    signal?: AbortSignal;
+    /** Extra attempts on network errors and 5xx. Defaults to 2 for idempotent methods, 0 otherwise. */
+    retries?: number;
+};
+
+/**
+ * Calls the backend and returns the parsed JSON body.
+ * Non-2xx responses throw an `ApiError` carrying the backend `{ message, fields }`.
+ */
+export function request<T>(path: string, opts: RequestOptions = {}): Promise<T> {
+    return send<T>(joinUrl(BACKEND_URL, withQuery(path, opts.query)), opts);
+}
+
+/**
+ * Calls one of this app's own session-aware routes (`/api/campaigns/…`), with the same
+ * refresh-on-401, retries and `ApiError`s as `request`; their `{ error }` becomes the message.
+ */
+export function localRequest<T>(path: `/api/${string}`, opts: RequestOptions = {}): Promise<T> {
+    return send<T>(withQuery(path, opts.query), opts);
+}
+
+async function send<T>(url: string, opts: RequestOptions): Promise<T> {
+    const method = opts.method ?? 'GET';
+    const retries = opts.retries ?? (IDEMPOTENT.has(method) ? 2 : 0);
+
+    const isForm = typeof FormData !== 'undefined' && opts.body instanceof FormData;
+    const body =
+        opts.body === undefined ? undefined
+            : isForm || typeof opts.body === 'string' ? (opts.body as BodyInit)
+                : JSON.stringify(opts.body);
+
+    for (let attempt = 0; ; attempt++) {
+        let res: Response;
+        try {
+            res = await apiFetch(url, { method, headers: opts.headers, body, signal: opts.signal });
+        } catch (e) {
+            if (isAbortError(e) || attempt >= retries) throw e;
+            await sleep(RETRY_BASE_MS * 2 ** attempt, opts.signal);
+            continue;
+        }
+
+        if (res.status >= 500 && attempt < retries) {
+            await sleep(RETRY_BASE_MS * 2 ** attempt, opts.signal);
+            continue;
+        }
+        if (!res.ok) throw await toApiError(res);
+        if (res.status === 204) return undefined as T;
+
+        const type = res.headers.get('content-type') || '';
+        return (type.includes('application/json') ? await res.json() : await res.text()) as T;
+    }
+}
+
+type Opts = Pick<RequestOptions, 'signal' | 'query'>;
+
+const co = (hash: string) => `/companies/${encodeURIComponent(hash)}`;
+
+/* ------------------------------ Resources ----------------------------- */
+
+export const api = {
+    companies: {
+        listFull: (o?: Opts) => request<Company[]>('/companies/list-full', o),
+        get: (hash: string, o?: Opts) => request<Company>(co(hash), o),
+        plan: (hash: string, o?: Opts) => request<CompanyPlan | null>(`/companies-plan/${encodeURIComponent(hash)}`, o),
+        me: (hash: string, o?: Opts) => request<CompanyMembership>(`${co(hash)}/users/me`, o),
+        search: (q: string, o?: Pick<Opts, 'signal'>) =>
+            request<CompanyBrief[]>('/search-companies', { ...o, query: { q, limit: 10 } }),
+    },
+
+    ipPools: {
+        get: (id: number, o?: Opts) => request<IpPool>(`/ippools/${id}`, o),
+        create: (body: IpPoolInput) => request<IpPool>('/ippools', { method: 'POST', body }),
+        update: (id: number, body: Partial<IpPoolInput>) => request<IpPool>(`/ippools/${id}`, { method: 'PATCH', body }),
+        remove: (id: number) => request<void>(`/ippools/${id}`, { method: 'DELETE' }),
+    },
+
+    domains: {
+        list: (hash: string, o?: Opts) => request<DomainSummary[]>(`${co(hash)}/domains`, o),
+        get: (hash: string, id: number, o?: Opts) => request<DomainDetail>(`${co(hash)}/domains/${id}`, o),
+        create: (hash: string, body: { domain: string }) =>
+            request<DomainDetail>(`${co(hash)}/domains`, { method: 'POST', body }),
+        verify: (hash: string, id: number) =>
+            request<DomainVerifyReport>(`${co(hash)}/domains/${id}/verify`, { method: 'POST' }),
+        remove: (hash: string, id: number) =>
+            request<void>(`${co(hash)}/domains/${id}`, { method: 'DELETE' }),
+        apiKeys: (hash: string, id: number, o?: Opts) =>
+            request<DomainApiKey[]>(`${co(hash)}/domains/${id}/apikeys`, o),
+        removeApiKey: (hash: string, id: number, keyId: number) =>
+            request<void>(`${co(hash)}/domains/${id}/apikeys/${keyId}`, { method: 'DELETE' }),
+    },
+
+    contacts: {
+        list: (hash: string, o?: Opts) => request<ApiPaged<Contact>>(`${co(hash)}/contacts`, o),
+        get: (hash: string, id: number, o?: Opts) => request<Contact>(`${co(hash)}/contacts/${id}`, o),
+        lookup: (hash: string, email: string, o?: Opts) =>
+            request<Contact>(`/companies/contacts/${encodeURIComponent(hash)}/lookup`, { ...o, query: { email } }),
+        create: (hash: string, body: Partial<Contact>) =>
+            request<Contact>(`${co(hash)}/contacts`, { method: 'POST', body }),
+        update: (hash: string, id: number, body: Partial<Contact>) =>
+            request<Contact>(`${co(hash)}/contacts/${id}`, { method: 'PATCH', body }),
+        remove: (hash: string, id: number) =>
+            request<void>(`${co(hash)}/contacts/${id}`, { method: 'DELETE' }),
+    },
+
+    lists: {
+        list: (hash: string, o?: Opts) => request<ApiPaged<ListGroup>>(`${co(hash)}/lists`, o),
+        get: (hash: string, id: number, o?: Opts) => request<ListGroup>(`${co(hash)}/lists/${id}`, o),
+        create: (hash: string, body: { name: string }) =>
+            request<ListGroup>(`${co(hash)}/lists`, { method: 'POST', body }),
+        update: (hash: string, id: number, body: { name: string }) =>
+            request<ListGroup>(`${co(hash)}/lists/${id}`, { method: 'PATCH', body }),
+        remove: (hash: string, id: number) =>
+            request<void>(`${co(hash)}/lists/${id}`, { method: 'DELETE' }),
+        contacts: (hash: string, id: number, o?: Opts) =>
+            request<ApiPaged<Contact>>(`${co(hash)}/lists/${id}/contacts`, o),
+        /** Unknown emails become contacts named `default_name`; existing members are skipped. */
+        bulkAdd: (hash: string, id: number, body: { emails: string[]; default_name?: string }) =>
+            request<ListBulkResult>(`${co(hash)}/lists/${id}/contacts/bulk`, { method: 'POST', body }),
+    },
+
+    segments: {
+        list: (hash: string, o?: Opts) => request<ApiPaged<Segment>>(`${co(hash)}/segments`, o),
+        get: (hash: string, id: number, o?: Opts) => request<Segment>(`${co(hash)}/segments/${id}`, o),
+        create: (hash: string, body: Pick<Segment, 'name' | 'definition'>) =>
+            request<Segment>(`${co(hash)}/segments`, { method: 'POST', body }),
+        update: (hash: string, id: number, body: Partial<Pick<Segment, 'name' | 'definition' | 'schedule'>>) =>
+            request<Segment>(`${co(hash)}/segments/${id}`, { method: 'PATCH', body }),
+        remove: (hash: string, id: number) =>
+            request<void>(`${co(hash)}/segments/${id}`, { method: 'DELETE' }),
+        build: (hash: string, id: number, body: SegmentBuildInput) =>
+            request<BuildDryRunResponse>(`${co(hash)}/segments/${id}/build`, { method: 'POST', body }),
+        buildNow: (hash: string, id: number) =>
+            request<BuildResponse>(`${co(hash)}/segments/${id}/build`, { method: 'POST', body: { dryRun: false } }),
+        preview: (hash: string, id: number, o?: Opts) =>
+            request<ApiPaged<SegmentPreviewRow>>(`${co(hash)}/segments/${id}/preview`, o),
+        /** Newest first. */
+        builds: (hash: string, id: number, o?: Opts) =>
+            request<ApiPaged<SegmentBuild>>(`${co(hash)}/segments/${id}/builds`, o),
+    },
+
+    campaigns: {
+        list: (hash: string, o?: Opts) => request<ApiPaged<Campaign>>(`${co(hash)}/campaigns`, o),
+        get: (hash: string, id: number, o?: Opts) => request<Campaign>(`${co(hash)}/campaigns/${id}`, o),
+        create: (hash: string, body: Partial<CampaignInput>) =>
+            request<Campaign>(`${co(hash)}/campaigns`, { method: 'POST', body }),
+        update: (hash: string, id: number, body: Partial<CampaignInput>) =>
+            request<Campaign>(`${co(hash)}/campaigns/${id}`, { method: 'PATCH', body }),
+        remove: (hash: string, id: number) =>
+            request<void>(`${co(hash)}/campaigns/${id}`, { method: 'DELETE' }),
+        send: (hash: string, id: number) =>
+            request<Campaign>(`${co(hash)}/campaigns/${id}/send`, { method: 'POST' }),
+        schedule: (hash: string, id: number, scheduledAt: string) =>
+            request<Campaign>(`${co(hash)}/campaigns/${id}/schedule`, { method: 'POST', body: { scheduled_at: scheduledAt } }),
+        action: (hash: string, id: number, action: CampaignAction) =>
+            request<Campaign>(`${co(hash)}/campaigns/${id}/${action}`, { method: 'POST' }),
+        /** Copies the campaign into a new draft. */
+        duplicate: (hash: string, id: number) =>
+            request<Campaign>(`${co(hash)}/campaigns/${id}/duplicate`, { method: 'POST' }),
+        stats: (hash: string, id: number, o?: Opts) => request<CampaignStats>(`${co(hash)}/campaigns/${id}/stats`, o),
+        recipients: (hash: string, id: number, o?: Opts) =>
+            request<ApiPaged<CampaignRecipient>>(`${co(hash)}/campaigns/${id}/recipients`, o),
+        sendTest: (hash: string, id: number, body: TestSendInput) =>
+            request<TestSendResult>(`${co(hash)}/campaigns/${id}/test-send`, { method: 'POST', body }),
+        progress: (hash: string, id: number, o?: Opts) =>
+            request<CampaignProgress>(`${co(hash)}/campaigns/${id}/progress`, o),
+        events: (hash: string, id: number, o?: Opts) =>
+            request<ApiPaged<CampaignEvent>>(`${co(hash)}/campaigns/${id}/events`, o),
+        /** Past occurrences of a recurring campaign (newest first) followed by the next `upcoming`. */
+        occurrences: (hash: string, id: number, o?: Opts) =>
+            request<CampaignOccurrence[]>(`${co(hash)}/campaigns/${id}/occurrences`, o),
+        occurrenceAction: (hash: string, id: number, action: OccurrenceAction, at: string) =>
+            request<CampaignOccurrence>(`${co(hash)}/campaigns/${id}/occurrences/${action}`, { method: 'POST', body: { at } }),
+    },
+
+    automations: {
+        list: (hash: string, o?: Opts) => request<ApiPaged<Automation>>(`${co(hash)}/automations`, o),
+        get: (hash: string, id: number, o?: Opts) => request<Automation>(`${co(hash)}/automations/${id}`, o),
+        create: (hash: string, body: AutomationInput) =>
+            request<Automation>(`${co(hash)}/automations`, { method: 'POST', body }),
+        update: (hash: string, id: number, body: Partial<AutomationInput>) =>
+            request<Automation>(`${co(hash)}/automations/${id}`, { method: 'PATCH', body }),
+        remove: (hash: string, id: number) =>
+            request<void>(`${co(hash)}/automations/${id}`, { method: 'DELETE' }),
+        /** Resolves to the updated automation; `run` answers `{ automation, run }` and is unwrapped. */
+        lifecycle: (hash: string, id: number, action: AutomationLifecycle) =>
+            request<Automation | { automation: Automation; run: AutomationRun }>(`${co(hash)}/automations/${id}/${action}`, {
+                method: 'POST',
+            }).then((res) => ('automation' in res ? res.automation : res)),
+        /** Newest first. */
+        runs: (hash: string, id: number, o?: Opts) =>
+            request<ApiPaged<AutomationRun>>(`${co(hash)}/automations/${id}/runs`, o),
+        runContacts: (hash: string, id: number, runId: number, o?: Opts) =>
+            request<ApiPaged<AutomationRunContact>>(`${co(hash)}/automations/${id}/runs/${runId}/contacts`, o),
+        runContactAction: (hash: string, id: number, runId: number, contactId: number, action: RunContactAction) =>
+            request<AutomationRunContact>(`${co(hash)}/automations/${id}/runs/${runId}/contacts/${contactId}/${action}`, { method: 'POST' }),
+        waiting: (hash: string, id: number, o?: Opts) =>
+            request<AutomationWaitingCount[]>(`${co(hash)}/automations/${id}/waiting`, o),
+        trigger: (hash: string, id: number, o?: Opts) =>
+            request<AutomationTriggerInfo>(`${co(hash)}/automations/${id}/trigger`, o),
+        /** Issues a new secret; requests signed with the old one are rejected from then on. */
+        rotateSecret: (hash: string, id: number) =>
+            request<AutomationTriggerInfo>(`${co(hash)}/automations/${id}/trigger/rotate`, { method: 'POST' }),
+        /** Newest first; `limit` caps how many are returned. */
+        triggerPayloads: (hash: string, id: number, o?: Opts) =>
+            request<AutomationTriggerPayload[]>(`${co(hash)}/automations/${id}/trigger/payloads`, o),
+        /** The backend signs `payload` and delivers it to the trigger URL, starting a real run. */
+        testTrigger: (hash: string, id: number, payload: unknown) =>
+            request<AutomationTriggerPayload>(`${co(hash)}/automations/${id}/trigger/test`, { method: 'POST', body: payload }),
+    },
+
+    templates: {
+        list: (hash: string, o?: Opts) => request<ApiPaged<Template>>(`${co(hash)}/templates`, o),
+        get: (hash: string, id: number, o?: Opts) => request<Template>(`${co(hash)}/templates/${id}`, o),
+        create: (hash: string, body: TemplateInput) =>
+            request<Template>(`${co(hash)}/templates`, { method: 'POST', body }),
+        update: (hash: string, id: number, body: Partial<TemplateInput>) =>
+            request<Template>(`${co(hash)}/templates/${id}`, { method: 'PATCH', body }),
+        remove: (hash: string, id: number) =>
+            request<void>(`${co(hash)}/templates/${id}`, { method: 'DELETE' }),
+        revisions: (hash: string, id: number, o?: Opts) =>
+            request<ApiPaged<TemplateRevision>>(`${co(hash)}/templates/${id}/revisions`, o),
+        revision: (hash: string, id: number, revisionId: number, o?: Opts) =>
+            request<TemplateRevision>(`${co(hash)}/templates/${id}/revisions/${revisionId}`, o),
+        /** Copies the revision's content onto the template; the backend records that as a new revision. */
+        restore: (hash: string, id: number, revisionId: number) =>
+            request<Template>(`${co(hash)}/templates/${id}/revisions/${revisionId}/restore`, { method: 'POST' }),
+        sendTest: (hash: string, id: number, body: TestSendInput) =>
+            request<TestSendResult>(`${co(hash)}/templates/${id}/test-send`, { method: 'POST', body }),
+    },
+
+    webhooks: {
+        list: (hash: string, o?: Opts) => request<Webhook[]>(`${co(hash)}/webhooks`, o),
+        get: (hash: string, id: number, o?: Opts) => request<Webhook>(`${co(hash)}/webhooks/${id}`, o),
+        create: (hash: string, body: WebhookInput) =>
+            request<WebhookCreated>(`${co(hash)}/webhooks`, { method: 'POST', body }),
+        update: (hash: string, id: number, body: Partial<WebhookInput>) =>
+            request<Webhook>(`${co(hash)}/webhooks/${id}`, { method: 'PATCH', body }),
+        remove: (hash: string, id: number) =>
+            request<void>(`${co(hash)}/webhooks/${id}`, { method: 'DELETE' }),
+    },
+
+    inbound: {
+        routes: (hash: string, o?: Opts) => request<ApiPaged<InboundRoute>>(`${co(hash)}/inbound-routes`, o),
+        route: (hash: string, id: number, o?: Opts) => request<InboundRoute>(`${co(hash)}/inbound-routes/${id}`, o),
+        messages: (hash: string, o?: Opts) => request<ApiPaged<InboundMessage>>(`${co(hash)}/inbound-messages`, o),
+        message: (hash: string, id: number, o?: Opts) =>
+            request<InboundMessage>(`${co(hash)}/inbound-messages/${id}`, o),
+    },
+
+    reports: {
+        dmarc: <T>(hash: string, range: ReportRange, o?: Pick<Opts, 'signal'>) =>
+            request<T>(`${co(hash)}/reports/dmarc`, { ...o, query: range }),
+        tlsrpt: <T>(hash: string, range: ReportRange, o?: Pick<Opts, 'signal'>) =>
+            request<T>(`${co(hash)}/reports/tlsrpt`, { ...o, query: range }),
+    },
+};
@@ -0,0 +1,101 @@
+// lib/auth.ts — server-only: used by middleware and the /api route handlers
+import type { NextRequest, NextResponse } from 'next/server';
+
+export const TOKEN_COOKIE = 'token';
+/** Readable by client JS: only the expiry (epoch seconds), so tabs can schedule a refresh. */
+export const TOKEN_EXP_COOKIE = 'token_exp';
+const REMEMBER_COOKIE = 'remember';
+
+const REMEMBER_MAX_AGE = 60 * 60 * 24 * 30; // 30 days
+const SESSION_COOKIES = new Set([TOKEN_COOKIE, TOKEN_EXP_COOKIE, REMEMBER_COOKIE]);
+
+export function backendUrl(path: string): string {
+    const base = (process.env.BACKEND_URL || process.env.NEXT_PUBLIC_BACKEND_URL || '').replace(/\/+$/, '');
+    return `${base}/${path.replace(/^\/+/, '')}`;
+}
+
+export function readToken(req: NextRequest): string | null {
+    return req.cookies.get(TOKEN_COOKIE)?.value || null;
+}
+
+export type TokenClaims = { exp?: number; roles?: string[] };
+
+/**
+ * Decodes (does not verify) the JWT payload. Fine for routing decisions —
+ * the backend verifies the signature on every proxied call. Edge-safe (no Buffer).
+ */
+export function tokenClaims(token: string): TokenClaims {
+    try {
+        const [, payload] = token.split('.');
+        return JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/'))) as TokenClaims;
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Stores the access token in an HttpOnly cookie. Without `remember` it keeps whatever the
+ * login chose, so a refresh never turns a browser-session cookie into a persistent one.
+ */
+export function setSessionCookies(req: NextRequest, res: NextResponse, token: string, remember?: boolean): void {
+    const persistent = remember ?? req.cookies.get(REMEMBER_COOKIE)?.value === '1';
+    const base = {
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax' as const,
+        path: '/',
+        ...(persistent ? { maxAge: REMEMBER_MAX_AGE } : {}),
+    };
+
+    res.cookies.set(TOKEN_COOKIE, token, { ...base, httpOnly: true });
+    res.cookies.set(TOKEN_EXP_COOKIE, String(tokenClaims(token).exp ?? ''), { ...base, httpOnly: false });
+    if (persistent) res.cookies.set(REMEMBER_COOKIE, '1', { ...base, httpOnly: true });
+    else res.cookies.delete(REMEMBER_COOKIE);
+}
+
+export function clearSessionCookies(res: NextResponse): void {
+    SESSION_COOKIES.forEach((name) => res.cookies.delete(name));
+}
+
+/** Cookies the backend set for itself (e.g. its refresh cookie), minus ours. */
+export function backendCookieHeader(req: NextRequest): string | null {
+    const pairs = req.cookies
+        .getAll()
+        .filter((c) => !SESSION_COOKIES.has(c.name))
+        .map((c) => `${c.name}=${c.value}`);
+    return pairs.length ? pairs.join('; ') : null;
+}
+
+/** Re-issues backend `Set-Cookie`s on our origin (their Domain would not match). */
+export function relaySetCookies(from: Response, res: NextResponse): void {
+    for (const raw of from.headers.getSetCookie()) {
+        const name = raw.slice(0, raw.indexOf('='));
+        if (!name || SESSION_COOKIES.has(name)) continue;
+        res.headers.append('Set-Cookie', raw.replace(/;\s*domain=[^;]*/i, ''));
+    }
+}
+
+/** Non-2xx answer from the backend when a route handler calls it directly. */
+export class BackendError extends Error {
+    constructor(
+        readonly status: number,
+        message: string
+    ) {
+        super(message);
+    }
+}
+
+/** JSON fetcher that calls the backend as the signed-in user, like the /api/backend proxy does. */
+export function backendFetcher(req: NextRequest) {
+    const headers = new Headers({ Accept: 'application/json' });
+    const token = readToken(req);
+    const cookie = backendCookieHeader(req);
+    if (token) headers.set('Authorization', `Bearer ${token}`);
+    if (cookie) headers.set('Cookie', cookie);
+
+    return async <T>(path: string, init?: { method?: string }): Promise<T> => {
+        const method = init?.method ?? 'GET';
+        const res = await fetch(backendUrl(path), { method, headers, cache: 'no-store' });
+        if (!res.ok) throw new BackendError(res.status, `${method} ${path} failed (${res.status})`);
+        return (await res.json()) as T;
+    };
+}
@@ -0,0 +1,297 @@
+// lib/automation-flow/condition.ts
+// Parser and evaluator for step conditions such as `payload.event == "signup" and not contact.gdpr_consent`.
+
+export type CompareOp = '==' | '!=' | '>' | '>=' | '<' | '<=' | 'contains';
+
+export type ConditionRoot = 'payload' | 'contact';
+
+export type ConditionExpr =
+    | { kind: 'or' | 'and'; left: ConditionExpr; right: ConditionExpr }
+    | { kind: 'not'; expr: ConditionExpr }
+    | { kind: 'compare'; op: CompareOp; left: ConditionExpr; right: ConditionExpr }
+    | { kind: 'path'; root: ConditionRoot; keys: Array<string | number> }
+    | { kind: 'literal'; value: string | number | boolean | null };
+
+export const CONDITION_ROOTS: ConditionRoot[] = ['payload', 'contact'];
+
+type Token =
+    | { t: 'op'; v: CompareOp; at: number }
+    | { t: 'word'; v: string; at: number }
+    | { t: 'str'; v: string; at: number }
+    | { t: 'num'; v: number; at: number }
+    | { t: 'punct'; v: '(' | ')' | '.' | '[' | ']'; at: number }
+    | { t: 'end'; at: number };
+
+const SYMBOL_OPS: CompareOp[] = ['==', '!=', '>=', '<=', '>', '<'];
+
+function tokenize(src: string): Token[] {
+    const out: Token[] = [];
+    let i = 0;
+    while (i < src.length) {
+        const c = src[i];
+        if (/\s/.test(c)) {
+            i++;
+            continue;
+        }
+        const op = SYMBOL_OPS.find((o) => src.startsWith(o, i));
+        if (op) {
+            out.push({ t: 'op', v: op, at: i });
+            i += op.length;
+            continue;
+        }
+        if (src.startsWith('&&', i) || src.startsWith('||', i)) {
+            out.push({ t: 'word', v: src[i] === '&' ? 'and' : 'or', at: i });
+            i += 2;
+            continue;
+        }
+        if (c === '!') {
+            out.push({ t: 'word', v: 'not', at: i++ });
+            continue;
+        }
+        if ('().[]'.includes(c)) {
+            out.push({ t: 'punct', v: c as '(' | ')' | '.' | '[' | ']', at: i++ });
+            continue;
+        }
+        if (c === '"' || c === "'") {
+            const start = i++;
+            let v = '';
+            while (i < src.length && src[i] !== c) {
+                if (src[i] === '\\' && i + 1 < src.length) i++;
+                v += src[i++];
+            }
+            if (i >= src.length) throw new Error(`Unterminated string starting at position ${start + 1}`);
+            i++;
+            out.push({ t: 'str', v, at: start });
+            continue;
+        }
+        const num = /^-?\d+(\.\d+)?/.exec(src.slice(i));
+        if (num) {
+            out.push({ t: 'num', v: Number(num[0]), at: i });
+            i += num[0].length;
+            continue;
+        }
+        const word = /^[A-Za-z_][\w-]*/.exec(src.slice(i));
+        if (word) {
+            out.push({ t: 'word', v: word[0], at: i });
+            i += word[0].length;
+            continue;
+        }
+        throw new Error(`Unexpected "${c}" at position ${i + 1}`);
+    }
+    out.push({ t: 'end', at: src.length });
+    return out;
+}
+
+const KEYWORDS = ['and', 'or', 'not', 'contains', 'true', 'false', 'null'];
+
+function describe(tok: Token): string {
+    return tok.t === 'end' ? 'end of condition' : `"${String(tok.v)}" at position ${tok.at + 1}`;
+}
+
+/** Throws a readable error for malformed input; an empty string is not a condition. */
+export function parseCondition(src: string): ConditionExpr {
+    const toks = tokenize(src);
+    let pos = 0;
+    const peek = () => toks[pos];
+    const isWord = (v: string) => {
+        const tok = peek();
+        return tok.t === 'word' && tok.v === v;
+    };
+    const fail = (expected: string): never => {
+        throw new Error(`Expected ${expected}, found ${describe(peek())}`);
+    };
+
+    function orExpr(): ConditionExpr {
+        let left = andExpr();
+        while (isWord('or')) {
+            pos++;
+            left = { kind: 'or', left, right: andExpr() };
+        }
+        return left;
+    }
+
+    function andExpr(): ConditionExpr {
+        let left = notExpr();
+        while (isWord('and')) {
+            pos++;
+            left = { kind: 'and', left, right: notExpr() };
+        }
+        return left;
+    }
+
+    function notExpr(): ConditionExpr {
+        if (isWord('not')) {
+            pos++;
+            return { kind: 'not', expr: notExpr() };
+        }
+        return compare();
+    }
+
+    function compare(): ConditionExpr {
+        const left = operand();
+        const tok = peek();
+        const op = tok.t === 'op' ? tok.v : isWord('contains') ? 'contains' : null;
+        if (!op) return left;
+        pos++;
+        return { kind: 'compare', op, left, right: operand() };
+    }
+
+    function operand(): ConditionExpr {
+        const tok = peek();
+        if (tok.t === 'punct' && tok.v === '(') {
+            pos++;
+            const inner = orExpr();
+            const close = peek();
+            if (!(close.t === 'punct' && close.v === ')')) fail('")"');
+            pos++;
+            return inner;
+        }
+        if (tok.t === 'str' || tok.t === 'num') {
+            pos++;
+            return { kind: 'literal', value: tok.v };
+        }
+        if (tok.t === 'word') {
+            if (tok.v === 'true' || tok.v === 'false') {
+                pos++;
+                return { kind: 'literal', value: tok.v === 'true' };
+            }
+            if (tok.v === 'null') {
+                pos++;
+                return { kind: 'literal', value: null };
+            }
+            if (!CONDITION_ROOTS.includes(tok.v as ConditionRoot)) {
+                if (KEYWORDS.includes(tok.v)) fail('a value');
+                throw new Error(`Unknown name "${tok.v}" at position ${tok.at + 1}; paths start with payload. or contact.`);
+            }
+            pos++;
+            return path(tok.v as ConditionRoot);
+        }
+        return fail('a value');
+    }
+
+    function path(root: ConditionRoot): ConditionExpr {
+        const keys: Array<string | number> = [];
+        for (;;) {
+            const tok = peek();
+            if (tok.t === 'punct' && tok.v === '.') {
+                pos++;
+                const key = peek();
+                if (key.t !== 'word') return fail('a field name');
+                keys.push(key.v);
+                pos++;
+            } else if (tok.t === 'punct' && tok.v === '[') {
+                pos++;
+                const key = peek();
+                if (key.t !== 'num' && key.t !== 'str') return fail('an index');
+                keys.push(key.v);
+                pos++;
+                const close = peek();
+                if (!(close.t === 'punct' && close.v === ']')) fail('"]"');
+                pos++;
+            } else {
+                return { kind: 'path', root, keys };
+            }
+        }
+    }
+
+    if (peek().t === 'end') throw new Error('Condition is empty');
+    const expr = orExpr();
+    if (peek().t !== 'end') fail('"and", "or" or end of condition');
+    return expr;
+}
+
+/** `null` when `src` parses. */
+export function validateCondition(src: string): string | null {
+    try {
+        parseCondition(src);
+        return null;
+    } catch (e) {
+        return e instanceof Error ? e.message : String(e);
+    }
+}
+
+/* ------------------------------ Evaluation ----------------------------- */
+
+export type ConditionScope = { payload: unknown; contact: unknown };
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+    return !!v && typeof v === 'object' && !Array.isArray(v);
+}
+
+/** `contact.plan` falls back to `contact.attributes.plan`, as custom attributes are read by the backend. */
+export function resolvePath(scope: ConditionScope, root: ConditionRoot, keys: Array<string | number>): unknown {
+    let cur: unknown = scope[root];
+    keys.forEach((k, i) => {
+        if (Array.isArray(cur) && typeof k === 'number') cur = cur[k];
+        else if (isRecord(cur)) {
+            const attrs = root === 'contact' && i === 0 && !(k in cur) && isRecord(cur.attributes) ? cur.attributes : null;
+            cur = attrs ? attrs[k] : cur[k];
+        } else cur = undefined;
+    });
+    return cur;
+}
+
+function truthy(v: unknown): boolean {
+    if (Array.isArray(v)) return v.length > 0;
+    return !!v;
+}
+
+function numeric(v: unknown): number | null {
+    if (typeof v === 'number') return v;
+    if (typeof v === 'string' && v.trim() !== '' && Number.isFinite(Number(v))) return Number(v);
+    return null;
+}
+
+function equals(a: unknown, b: unknown): boolean {
+    if (a === undefined) a = null;
+    if (b === undefined) b = null;
+    if (a === null || b === null) return a === b;
+    const na = numeric(a);
+    const nb = numeric(b);
+    if (na !== null && nb !== null) return na === nb;
+    if (typeof a === 'boolean' || typeof b === 'boolean') return truthy(a) === truthy(b);
+    return String(a) === String(b);
+}
+
+function compare(op: CompareOp, a: unknown, b: unknown): boolean {
+    switch (op) {
+        case '==':
+            return equals(a, b);
+        case '!=':
+            return !equals(a, b);
+        case 'contains':
+            if (Array.isArray(a)) return a.some((x) => equals(x, b));
+            return typeof a === 'string' && b !== null && b !== undefined && a.toLowerCase().includes(String(b).toLowerCase());
+    }
+    if (a === null || a === undefined || b === null || b === undefined) return false;
+    const na = numeric(a);
+    const nb = numeric(b);
+    // ISO dates compare correctly as strings
+    const [x, y] = na !== null && nb !== null ? [na, nb] : [String(a), String(b)];
+    if (op === '>') return x > y;
+    if (op === '>=') return x >= y;
+    if (op === '<') return x < y;
+    return x <= y;
+}
+
+function value(expr: ConditionExpr, scope: ConditionScope): unknown {
+    switch (expr.kind) {
+        case 'literal':
+            return expr.value;
+        case 'path':
+            return resolvePath(scope, expr.root, expr.keys);
+        case 'not':
+            return !truthy(value(expr.expr, scope));
+        case 'and':
+            return truthy(value(expr.left, scope)) && truthy(value(expr.right, scope));
+        case 'or':
+            return truthy(value(expr.left, scope)) || truthy(value(expr.right, scope));
+        case 'compare':
+            return compare(expr.op, value(expr.left, scope), value(expr.right, scope));
+    }
+}
+
+/** Evaluates `src` against a contact and trigger payload; throws like `parseCondition` on malformed input. */
+export function evaluateCondition(src: string, scope: ConditionScope): boolean {
+    return truthy(value(parseCondition(src), scope));
+}
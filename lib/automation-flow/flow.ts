@@ -0,0 +1,283 @@
+// lib/automation-flow/flow.ts
+// Factories, parsing and immutable tree operations for automation flows edited on the canvas.
+import type {
+    ActionName,
+    AutomationFlow,
+    DelayUnit,
+    FlowStep,
+    FlowTrigger,
+    TriggerKind,
+    WaitUntilStep,
+} from '@/types/automation-flow';
+
+/** What the palette offers; actions are keyed by `name`, everything else by `type`. */
+export type StepKind = ActionName | 'delay' | 'wait_until' | 'filter' | 'split' | 'goal' | 'exit';
+
+export type StepGroup = 'Actions' | 'Timing' | 'Logic';
+
+export const STEP_KINDS: Array<{ kind: StepKind; label: string; group: StepGroup }> = [
+    { kind: 'send_email', label: 'Send email', group: 'Actions' },
+    { kind: 'add_to_list', label: 'Add to list', group: 'Actions' },
+    { kind: 'remove_from_list', label: 'Remove from list', group: 'Actions' },
+    { kind: 'update_attribute', label: 'Update attribute', group: 'Actions' },
+    { kind: 'call_webhook', label: 'Call webhook', group: 'Actions' },
+    { kind: 'delay', label: 'Delay', group: 'Timing' },
+    { kind: 'wait_until', label: 'Wait until', group: 'Timing' },
+    { kind: 'filter', label: 'Filter', group: 'Logic' },
+    { kind: 'split', label: 'Conditional split', group: 'Logic' },
+    { kind: 'goal', label: 'Goal', group: 'Logic' },
+    { kind: 'exit', label: 'Exit', group: 'Logic' },
+];
+
+export const TRIGGER_LABELS: Record<TriggerKind, string> = {
+    time: 'Schedule (CRON)',
+    webhook: 'Webhook',
+    event: 'Event',
+};
+
+const ACTION_NAMES: ActionName[] = ['send_email', 'add_to_list', 'remove_from_list', 'update_attribute', 'call_webhook'];
+const DELAY_UNITS: DelayUnit[] = ['minutes', 'hours', 'days'];
+const WEEKDAY_CODES: WaitUntilStep['weekdays'] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+export function uid(prefix = 'st'): string {
+    return `${prefix}_${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function stepKind(step: FlowStep): StepKind | 'unknown' {
+    return step.type === 'action' ? step.name : step.type;
+}
+
+export function stepLabel(step: FlowStep): string {
+    if (step.type === 'unknown') return `Unknown step (${String(step.raw.type ?? '?')})`;
+    const kind = stepKind(step);
+    return STEP_KINDS.find((k) => k.kind === kind)?.label ?? kind;
+}
+
+/** Steps after these in the same list can never run. */
+export function isTerminal(step: FlowStep): boolean {
+    return step.type === 'split' || step.type === 'exit';
+}
+
+/* ------------------------------ Factories ----------------------------- */
+
+/** 24 hex characters for webhook trigger secrets. */
+export function randomSecret(): string {
+    const bytes = new Uint8Array(12);
+    crypto.getRandomValues(bytes);
+    return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function defaultTrigger(kind: TriggerKind): FlowTrigger {
+    switch (kind) {
+        case 'time':
+            return { type: 'time', cron: '0 9 * * *' }; // every day 09:00
+        case 'webhook':
+            return { type: 'webhook', secret: randomSecret() };
+        case 'event':
+            return { type: 'event', name: 'contact.created' };
+    }
+}
+
+export function createStep(kind: StepKind): FlowStep {
+    const id = uid();
+    switch (kind) {
+        case 'send_email':
+            return { id, type: 'action', name: kind, template_id: null };
+        case 'add_to_list':
+        case 'remove_from_list':
+            return { id, type: 'action', name: kind, list_id: null };
+        case 'update_attribute':
+            return { id, type: 'action', name: kind, attribute: '', value: '' };
+        case 'call_webhook':
+            return { id, type: 'action', name: kind, url: 'https://', method: 'POST' };
+        case 'delay':
+            return { id, type: 'delay', amount: 1, unit: 'days' };
+        case 'wait_until':
+            return { id, type: 'wait_until', time: '09:00', weekdays: [] };
+        case 'filter':
+            return { id, type: 'filter', if: '' };
+        case 'split':
+            return { id, type: 'split', if: '', yes: [], no: [] };
+        case 'goal':
+            return { id, type: 'goal', name: '', if: '' };
+        case 'exit':
+            return { id, type: 'exit' };
+    }
+}
+
+/** Starter flow for a trigger. */
+export function defaultFlow(trigger: TriggerKind): AutomationFlow {
+    switch (trigger) {
+        case 'time':
+            return { trigger: defaultTrigger('time'), steps: [createStep('send_email')] };
+        case 'webhook':
+            return { trigger: defaultTrigger('webhook'), steps: [{ id: uid(), type: 'filter', if: 'payload.event == "signup"' }] };
+        case 'event':
+            return { trigger: defaultTrigger('event'), steps: [createStep('add_to_list')] };
+    }
+}
+
+/* ------------------------------- Parsing ------------------------------ */
+
+type Obj = Record<string, unknown>;
+
+const isObj = (v: unknown): v is Obj => !!v && typeof v === 'object' && !Array.isArray(v);
+const str = (v: unknown) => (typeof v === 'string' ? v : v === undefined || v === null ? '' : String(v));
+const idOrNull = (v: unknown) => (v === null || v === undefined || v === '' || !Number.isFinite(Number(v)) ? null : Number(v));
+
+function parseTrigger(raw: unknown): FlowTrigger {
+    if (!isObj(raw)) return defaultTrigger('time');
+    if (raw.type === 'webhook') return { ...raw, type: 'webhook', secret: str(raw.secret) };
+    if (raw.type === 'event') return { ...raw, type: 'event', name: str(raw.name) };
+    return { ...raw, type: 'time', cron: str(raw.cron) };
+}
+
+function parseStep(raw: unknown): FlowStep {
+    if (!isObj(raw)) return { id: uid(), type: 'unknown', raw: { value: raw } };
+    const id = typeof raw.id === 'string' && raw.id ? raw.id : uid();
+    // Keys the canvas does not edit are carried along on the step object.
+    const base = { ...raw, id };
+    switch (raw.type) {
+        case 'action': {
+            const name = raw.name as ActionName;
+            if (!ACTION_NAMES.includes(name)) break;
+            if (name === 'send_email') return { ...base, type: 'action', name, template_id: idOrNull(raw.template_id), subject: raw.subject ? str(raw.subject) : null };
+            if (name === 'add_to_list' || name === 'remove_from_list') return { ...base, type: 'action', name, list_id: idOrNull(raw.list_id) };
+            if (name === 'update_attribute') return { ...base, type: 'action', name, attribute: str(raw.attribute), value: str(raw.value) };
+            return { ...base, type: 'action', name, url: str(raw.url), method: raw.method === 'GET' ? 'GET' : 'POST' };
+        }
+        case 'delay':
+            return {
+                ...base,
+                type: 'delay',
+                amount: Number(raw.amount ?? 1),
+                unit: DELAY_UNITS.includes(raw.unit as DelayUnit) ? (raw.unit as DelayUnit) : 'hours',
+            };
+        case 'wait_until':
+            return {
+                ...base,
+                type: 'wait_until',
+                time: str(raw.time),
+                weekdays: Array.isArray(raw.weekdays) ? WEEKDAY_CODES.filter((d) => (raw.weekdays as unknown[]).includes(d)) : [],
+            };
+        case 'filter':
+            return { ...base, type: 'filter', if: str(raw.if) };
+        case 'split':
+            return { ...base, type: 'split', if: str(raw.if), yes: parseSteps(raw.yes), no: parseSteps(raw.no) };
+        case 'goal':
+            return { ...base, type: 'goal', name: str(raw.name), if: str(raw.if) };
+        case 'exit':
+            return { id, type: 'exit' };
+    }
+    return { id, type: 'unknown', raw };
+}
+
+function parseSteps(raw: unknown): FlowStep[] {
+    return Array.isArray(raw) ? raw.map(parseStep) : [];
+}
+
+/** Reads whatever is stored in `automation.flow`; steps without an id get one, unknown steps are kept verbatim. */
+export function parseFlow(raw: unknown): AutomationFlow {
+    const obj = isObj(raw) ? raw : {};
+    return { ...obj, trigger: parseTrigger(obj.trigger), steps: parseSteps(obj.steps) };
+}
+
+function stepsToJson(steps: FlowStep[]): Obj[] {
+    return steps.map((s) => {
+        if (s.type === 'unknown') return { ...s.raw, id: s.id };
+        if (s.type === 'split') return { ...s, yes: stepsToJson(s.yes), no: stepsToJson(s.no) };
+        return { ...s };
+    });
+}
+
+/** The `flow` object sent to the API. */
+export function toFlowJson(flow: AutomationFlow): Record<string, unknown> {
+    return { ...flow, steps: stepsToJson(flow.steps) };
+}
+
+/* ---------------------------- Tree operations -------------------------- */
+
+/** A step list: the root `steps`, or one branch of a split. */
+export type ListRef = { parent: null } | { parent: string; branch: 'yes' | 'no' };
+
+export const ROOT: ListRef = { parent: null };
+
+function mapList(steps: FlowStep[], ref: ListRef, fn: (list: FlowStep[]) => FlowStep[]): FlowStep[] {
+    if (ref.parent === null) return fn(steps);
+    const { parent, branch } = ref;
+    return steps.map((s) => {
+        if (s.type !== 'split') return s;
+        if (s.id === parent) return { ...s, [branch]: fn(s[branch]) };
+        return { ...s, yes: mapList(s.yes, ref, fn), no: mapList(s.no, ref, fn) };
+    });
+}
+
+/** Depth-first, in execution order; `ref` is the list the step sits in. */
+export function walkSteps(steps: FlowStep[], fn: (step: FlowStep, ref: ListRef, index: number) => void, ref: ListRef = ROOT) {
+    steps.forEach((s, i) => {
+        fn(s, ref, i);
+        if (s.type === 'split') {
+            walkSteps(s.yes, fn, { parent: s.id, branch: 'yes' });
+            walkSteps(s.no, fn, { parent: s.id, branch: 'no' });
+        }
+    });
+}
+
+/** The steps of the list `ref` points at. */
+export function listOf(flow: AutomationFlow, ref: ListRef): FlowStep[] {
+    if (ref.parent === null) return flow.steps;
+    const found = findStep(flow, ref.parent);
+    return found?.step.type === 'split' ? found.step[ref.branch] : [];
+}
+
+export function findStep(flow: AutomationFlow, id: string): { step: FlowStep; ref: ListRef; index: number } | null {
+    let found: { step: FlowStep; ref: ListRef; index: number } | null = null;
+    walkSteps(flow.steps, (step, ref, index) => {
+        if (!found && step.id === id) found = { step, ref, index };
+    });
+    return found;
+}
+
+export function insertStep(flow: AutomationFlow, ref: ListRef, index: number, step: FlowStep): AutomationFlow {
+    return {
+        ...flow,
+        steps: mapList(flow.steps, ref, (list) => {
+            const next = list.slice();
+            next.splice(Math.min(index, next.length), 0, step);
+            return next;
+        }),
+    };
+}
+
+export function replaceStep(flow: AutomationFlow, step: FlowStep): AutomationFlow {
+    const found = findStep(flow, step.id);
+    if (!found) return flow;
+    return { ...flow, steps: mapList(flow.steps, found.ref, (list) => list.map((s) => (s.id === step.id ? step : s))) };
+}
+
+export function removeStep(flow: AutomationFlow, id: string): AutomationFlow {
+    const found = findStep(flow, id);
+    if (!found) return flow;
+    return { ...flow, steps: mapList(flow.steps, found.ref, (list) => list.filter((s) => s.id !== id)) };
+}
+
+export function moveStep(flow: AutomationFlow, id: string, delta: -1 | 1): AutomationFlow {
+    const found = findStep(flow, id);
+    if (!found) return flow;
+    return {
+        ...flow,
+        steps: mapList(flow.steps, found.ref, (list) => {
+            const to = found.index + delta;
+            if (to < 0 || to >= list.length) return list;
+            const next = list.slice();
+            [next[found.index], next[to]] = [next[to], next[found.index]];
+            return next;
+        }),
+    };
+}
+
+export function countSteps(steps: FlowStep[]): number {
+    let n = 0;
+    walkSteps(steps, () => n++);
+    return n;
+}
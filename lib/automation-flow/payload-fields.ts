@@ -0,0 +1,85 @@
+// lib/automation-flow/payload-fields.ts
+// Lists the fields of a sample trigger payload as JSONPath and as condition paths, for pickers.
+import type { ConditionRoot } from '@/lib/automation-flow/condition';
+
+export type FieldType = 'string' | 'number' | 'boolean' | 'null' | 'array' | 'object';
+
+export type PayloadField = {
+    /** `$.user.tags[0]` */
+    jsonPath: string;
+    /** `payload.user.tags[0]`, as conditions read it. */
+    path: string;
+    type: FieldType;
+    sample: unknown;
+    depth: number;
+};
+
+const MAX_DEPTH = 6;
+const MAX_FIELDS = 200;
+
+function typeOf(v: unknown): FieldType {
+    if (v === null || v === undefined) return 'null';
+    if (Array.isArray(v)) return 'array';
+    switch (typeof v) {
+        case 'string':
+        case 'number':
+        case 'boolean':
+            return typeof v as FieldType;
+        default:
+            return 'object';
+    }
+}
+
+/** `.key` for plain names, `["odd key"]` otherwise; both syntaxes parse as conditions. */
+function keySegment(key: string): string {
+    return /^[A-Za-z_][\w-]*$/.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`;
+}
+
+/** Depth-first; arrays are described by their first element. */
+export function listFields(value: unknown, root: ConditionRoot = 'payload'): PayloadField[] {
+    const out: PayloadField[] = [];
+
+    function walk(v: unknown, suffix: string, depth: number) {
+        if (out.length >= MAX_FIELDS || depth > MAX_DEPTH) return;
+        if (Array.isArray(v)) {
+            if (v.length > 0) visit(v[0], `${suffix}[0]`, depth);
+        } else if (v && typeof v === 'object') {
+            for (const [k, child] of Object.entries(v)) visit(child, suffix + keySegment(k), depth);
+        }
+    }
+
+    function visit(v: unknown, suffix: string, depth: number) {
+        if (out.length >= MAX_FIELDS) return;
+        out.push({ jsonPath: '$' + suffix, path: root + suffix, type: typeOf(v), sample: v, depth });
+        walk(v, suffix, depth + 1);
+    }
+
+    walk(value, '', 0);
+    return out;
+}
+
+/** A condition testing the field against its sample value. */
+export function fieldCondition(f: PayloadField): string {
+    switch (f.type) {
+        case 'string':
+            return `${f.path} == ${JSON.stringify(f.sample)}`;
+        case 'number':
+            return `${f.path} == ${String(f.sample)}`;
+        case 'boolean':
+            return f.sample ? f.path : `not ${f.path}`;
+        case 'null':
+            return `${f.path} == null`;
+        case 'array': {
+            const first = (f.sample as unknown[])[0];
+            return typeof first === 'string' || typeof first === 'number' ? `${f.path} contains ${JSON.stringify(first)}` : f.path;
+        }
+        case 'object':
+            return f.path;
+    }
+}
+
+/** Short display form of a sample value. */
+export function previewValue(v: unknown): string {
+    const s = typeOf(v) === 'object' ? '{…}' : typeOf(v) === 'array' ? `[${(v as unknown[]).length}]` : JSON.stringify(v ?? null);
+    return s.length > 40 ? `${s.slice(0, 40)}…` : s;
+}
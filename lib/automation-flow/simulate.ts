@@ -0,0 +1,260 @@
+// lib/automation-flow/simulate.ts
+// Local dry run of a flow for one contact: which steps run, how long they wait and what they would change.
+import { type ConditionRoot, CONDITION_ROOTS, evaluateCondition, resolvePath } from '@/lib/automation-flow/condition';
+import { stepLabel } from '@/lib/automation-flow/flow';
+import { isValidTimeZone, parseLocalTime, wallClock, zonedInstant } from '@/lib/send-time';
+import type { AutomationFlow, DelayUnit, FlowStep, FlowTrigger, WaitUntilStep } from '@/types/automation-flow';
+
+export type TraceOutcome = 'ran' | 'passed' | 'stopped' | 'yes' | 'no' | 'waited' | 'converted' | 'skipped' | 'error';
+
+export type TraceEntry = {
+    /** Step id, or 'trigger'. */
+    stepId: string;
+    label: string;
+    /** Split branches entered before this step. */
+    depth: number;
+    /** Simulated instant the step runs at. */
+    at: number;
+    outcome: TraceOutcome;
+    detail: string;
+};
+
+export type SimEffect =
+    | { kind: 'email'; stepId: string; at: number; template_id: number | null; subject: string | null }
+    | { kind: 'list'; stepId: string; at: number; op: 'add' | 'remove'; list_id: number | null }
+    | { kind: 'attribute'; stepId: string; at: number; attribute: string; value: string }
+    | { kind: 'webhook'; stepId: string; at: number; method: 'POST' | 'GET'; url: string };
+
+/** Why the contact left the flow. */
+export type SimEnd = 'completed' | 'not_triggered' | 'filtered' | 'goal' | 'exit' | 'error';
+
+export type SimResult = {
+    trace: TraceEntry[];
+    effects: SimEffect[];
+    end: SimEnd;
+    startedAt: number;
+    endedAt: number;
+    /** The contact after simulated attribute updates. */
+    contact: Record<string, unknown>;
+};
+
+export type SimInput = {
+    contact: Record<string, unknown>;
+    payload: unknown;
+    /** Instant the trigger fires. */
+    start: number;
+    /** Timezone for wait-until steps when the contact has none. */
+    timezone: string;
+};
+
+export const SIM_END_LABELS: Record<SimEnd, string> = {
+    completed: 'Reached the end of the flow',
+    not_triggered: 'Trigger did not fire',
+    filtered: 'Stopped by a filter',
+    goal: 'Reached a goal',
+    exit: 'Left at an exit step',
+    error: 'Stopped by an error',
+};
+
+const UNIT_MS: Record<DelayUnit, number> = { minutes: 60_000, hours: 3_600_000, days: 86_400_000 };
+
+const DAY_CODES: Array<WaitUntilStep['weekdays'][number]> = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/* ------------------------------- Samples ------------------------------ */
+
+export function sampleContact(timezone: string): Record<string, unknown> {
+    return {
+        id: 0,
+        email: 'jane@example.com',
+        name: 'Jane Doe',
+        status: 'subscribed',
+        locale: 'en',
+        timezone,
+        gdpr_consent_at: null,
+        attributes: { plan: 'free' },
+    };
+}
+
+export function samplePayload(trigger: FlowTrigger, now = Date.now()): Record<string, unknown> {
+    const at = new Date(now).toISOString();
+    switch (trigger.type) {
+        case 'event':
+            return { event: trigger.name || 'contact.created', occurred_at: at };
+        case 'webhook':
+            return { event: 'signup', email: 'jane@example.com', plan: 'pro', received_at: at };
+        case 'time':
+            return { scheduled_at: at };
+    }
+}
+
+/* ------------------------------- Helpers ------------------------------ */
+
+/** '+2d 3h', '+45m', 'now'. */
+export function formatOffset(ms: number): string {
+    if (ms < 60_000) return 'now';
+    const d = Math.floor(ms / 86_400_000);
+    const h = Math.floor((ms % 86_400_000) / 3_600_000);
+    const m = Math.floor((ms % 3_600_000) / 60_000);
+    return '+' + [d && `${d}d`, h && `${h}h`, m && `${m}m`].filter(Boolean).join(' ');
+}
+
+/** First instant at or after `from` when the wall clock in `tz` shows h:m on one of `weekdays`. */
+function nextWallTime(from: number, { h, m }: { h: number; m: number }, weekdays: WaitUntilStep['weekdays'], tz: string): number {
+    for (let i = 0; i <= 7; i++) {
+        const w = wallClock(from + i * 86_400_000, tz);
+        const at = zonedInstant(w.y, w.mo, w.d, h, m, tz);
+        const day = DAY_CODES[new Date(Date.UTC(w.y, w.mo - 1, w.d)).getUTCDay()];
+        if (at >= from && (weekdays.length === 0 || weekdays.includes(day))) return at;
+    }
+    return from;
+}
+
+/** Replaces `{{payload.x}}` / `{{contact.x}}` with values from the scope. */
+function renderValue(template: string, scope: { payload: unknown; contact: unknown }): string {
+    return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (whole, path: string) => {
+        const [root, ...keys] = path.split('.');
+        if (!CONDITION_ROOTS.includes(root as ConditionRoot)) return whole;
+        const v = resolvePath(scope, root as ConditionRoot, keys);
+        return v === undefined || v === null ? '' : typeof v === 'object' ? JSON.stringify(v) : String(v);
+    });
+}
+
+function triggerFires(trigger: FlowTrigger, payload: unknown): { fires: boolean; detail: string } {
+    switch (trigger.type) {
+        case 'time':
+            return { fires: true, detail: `Scheduled run (${trigger.cron || 'no CRON'})` };
+        case 'webhook':
+            return { fires: true, detail: 'Webhook request received' };
+        case 'event': {
+            const event = payload && typeof payload === 'object' ? (payload as Record<string, unknown>).event : undefined;
+            if (typeof event === 'string' && event !== trigger.name) {
+                return { fires: false, detail: `Payload event "${event}" does not match "${trigger.name}"` };
+            }
+            return { fires: true, detail: `Event ${trigger.name}` };
+        }
+    }
+}
+
+/* ------------------------------ Simulation ---------------------------- */
+
+/** Walks the flow for one contact without calling the backend. */
+export function simulateFlow(flow: AutomationFlow, input: SimInput): SimResult {
+    const contact = structuredClone(input.contact);
+    const scope = { payload: input.payload, contact };
+    const tz = typeof contact.timezone === 'string' && isValidTimeZone(contact.timezone) ? contact.timezone : input.timezone;
+    const trace: TraceEntry[] = [];
+    const effects: SimEffect[] = [];
+    let clock = input.start;
+    let end: SimEnd = 'completed';
+
+    const push = (step: FlowStep, depth: number, outcome: TraceOutcome, detail: string) =>
+        trace.push({ stepId: step.id, label: stepLabel(step), depth, at: clock, outcome, detail });
+
+    function test(step: FlowStep & { if: string }, depth: number): boolean | null {
+        try {
+            return evaluateCondition(step.if, scope);
+        } catch (e) {
+            push(step, depth, 'error', e instanceof Error ? e.message : String(e));
+            end = 'error';
+            return null;
+        }
+    }
+
+    function setAttribute(name: string, value: string) {
+        if (name in contact && name !== 'attributes' && name !== 'id') {
+            contact[name] = value;
+            return;
+        }
+        const attrs = contact.attributes && typeof contact.attributes === 'object' ? (contact.attributes as Record<string, unknown>) : {};
+        contact.attributes = { ...attrs, [name]: value };
+    }
+
+    /** false once the contact has left the flow. */
+    function run(steps: FlowStep[], depth: number): boolean {
+        for (const step of steps) {
+            switch (step.type) {
+                case 'action':
+                    switch (step.name) {
+                        case 'send_email':
+                            effects.push({ kind: 'email', stepId: step.id, at: clock, template_id: step.template_id, subject: step.subject ?? null });
+                            push(step, depth, 'ran', step.subject ? `Subject: ${renderValue(step.subject, scope)}` : 'Template subject');
+                            break;
+                        case 'add_to_list':
+                        case 'remove_from_list':
+                            effects.push({ kind: 'list', stepId: step.id, at: clock, op: step.name === 'add_to_list' ? 'add' : 'remove', list_id: step.list_id });
+                            push(step, depth, 'ran', step.name === 'add_to_list' ? 'Subscribed to the list' : 'Removed from the list');
+                            break;
+                        case 'update_attribute': {
+                            const value = renderValue(step.value, scope);
+                            setAttribute(step.attribute, value);
+                            effects.push({ kind: 'attribute', stepId: step.id, at: clock, attribute: step.attribute, value });
+                            push(step, depth, 'ran', `${step.attribute} = "${value}"`);
+                            break;
+                        }
+                        case 'call_webhook':
+                            effects.push({ kind: 'webhook', stepId: step.id, at: clock, method: step.method, url: step.url });
+                            push(step, depth, 'ran', `${step.method} ${step.url} (not called)`);
+                            break;
+                    }
+                    break;
+                case 'delay':
+                    clock += Math.max(0, step.amount) * UNIT_MS[step.unit];
+                    push(step, depth, 'waited', `Waits ${step.amount} ${step.unit}`);
+                    break;
+                case 'wait_until': {
+                    const time = parseLocalTime(step.time);
+                    if (!time) {
+                        push(step, depth, 'error', `"${step.time}" is not a HH:MM time`);
+                        end = 'error';
+                        return false;
+                    }
+                    clock = nextWallTime(clock, time, step.weekdays, tz);
+                    push(step, depth, 'waited', `Waits until ${step.time}${step.weekdays.length ? ` on ${step.weekdays.join(', ')}` : ''} (${tz})`);
+                    break;
+                }
+                case 'filter': {
+                    const ok = test(step, depth);
+                    if (ok === null) return false;
+                    push(step, depth, ok ? 'passed' : 'stopped', `${step.if} is ${ok}`);
+                    if (!ok) {
+                        end = 'filtered';
+                        return false;
+                    }
+                    break;
+                }
+                case 'split': {
+                    const ok = test(step, depth);
+                    if (ok === null) return false;
+                    push(step, depth, ok ? 'yes' : 'no', `${step.if} is ${ok}`);
+                    return run(ok ? step.yes : step.no, depth + 1);
+                }
+                case 'goal': {
+                    const ok = test(step, depth);
+                    if (ok === null) return false;
+                    if (ok) {
+                        push(step, depth, 'converted', `${step.name || 'Goal'} reached`);
+                        end = 'goal';
+                        return false;
+                    }
+                    push(step, depth, 'passed', `${step.name || 'Goal'} not reached; continues`);
+                    break;
+                }
+                case 'exit':
+                    push(step, depth, 'stopped', 'Leaves the flow');
+                    end = 'exit';
+                    return false;
+                case 'unknown':
+                    push(step, depth, 'skipped', 'Unknown step type; not simulated');
+                    break;
+            }
+        }
+        return true;
+    }
+
+    const t = triggerFires(flow.trigger, input.payload);
+    trace.push({ stepId: 'trigger', label: 'Trigger', depth: 0, at: clock, outcome: t.fires ? 'ran' : 'stopped', detail: t.detail });
+    if (t.fires) run(flow.steps, 0);
+    else end = 'not_triggered';
+
+    return { trace, effects, end, startedAt: input.start, endedAt: clock, contact };
+}
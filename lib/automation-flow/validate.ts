@@ -0,0 +1,92 @@
+// lib/automation-flow/validate.ts
+// Schema checks run on the canvas before an automation is saved.
+import { cronProblem } from '@/lib/cron';
+import type { LintSeverity } from '@/lib/email-lint';
+import { validateCondition } from '@/lib/automation-flow/condition';
+import { isTerminal, listOf, stepLabel, walkSteps } from '@/lib/automation-flow/flow';
+import type { AutomationFlow, FlowStep, FlowTrigger } from '@/types/automation-flow';
+
+export type FlowIssue = {
+    /** Step id, or 'trigger'. */
+    target: string;
+    severity: Exclude<LintSeverity, 'info'>;
+    message: string;
+};
+
+const PLACEHOLDER_SECRETS = ['replace-me', 'secret', 'changeme'];
+
+function triggerIssues(t: FlowTrigger): string[] {
+    switch (t.type) {
+        case 'time': {
+            const problem = cronProblem(t.cron);
+            return problem ? [problem] : [];
+        }
+        case 'webhook':
+            if (t.secret.trim().length < 8) return ['Webhook secret must be at least 8 characters'];
+            return [];
+        case 'event':
+            return t.name.trim() ? [] : ['Event name is required'];
+    }
+}
+
+function conditionIssue(src: string): string | null {
+    if (!src.trim()) return 'Condition is required';
+    const err = validateCondition(src);
+    return err ? `Condition: ${err}` : null;
+}
+
+function stepIssues(s: FlowStep): string[] {
+    const out: Array<string | null> = [];
+    switch (s.type) {
+        case 'action':
+            if (s.name === 'send_email' && s.template_id === null) out.push('Choose a template');
+            if ((s.name === 'add_to_list' || s.name === 'remove_from_list') && s.list_id === null) out.push('Choose a list');
+            if (s.name === 'update_attribute' && !/^[A-Za-z_][\w.]*$/.test(s.attribute)) out.push('Attribute name is required (letters, digits, _ and .)');
+            if (s.name === 'call_webhook' && !/^https?:\/\/[^\s/]+\.[^\s]+$/.test(s.url)) out.push('Webhook URL must be an http(s) address');
+            break;
+        case 'delay':
+            if (!Number.isInteger(s.amount) || s.amount < 1) out.push('Delay must be a whole number of at least 1');
+            break;
+        case 'wait_until':
+            if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(s.time)) out.push('Time must be HH:MM');
+            break;
+        case 'filter':
+        case 'split':
+            out.push(conditionIssue(s.if));
+            break;
+        case 'goal':
+            if (!s.name.trim()) out.push('Goal name is required');
+            out.push(conditionIssue(s.if));
+            break;
+        case 'unknown':
+            out.push(`${stepLabel(s)} cannot be edited on the canvas; the backend may reject it`);
+            break;
+    }
+    return out.filter((m): m is string => m !== null);
+}
+
+/** Everything that would make the backend reject the flow is an error; likely mistakes are warnings. */
+export function validateFlow(flow: AutomationFlow): FlowIssue[] {
+    const issues: FlowIssue[] = triggerIssues(flow.trigger).map((message) => ({ target: 'trigger', severity: 'error', message }));
+    if (flow.trigger.type === 'webhook' && PLACEHOLDER_SECRETS.includes(flow.trigger.secret.trim())) {
+        issues.push({ target: 'trigger', severity: 'warning', message: 'Webhook secret looks like a placeholder' });
+    }
+    if (flow.steps.length === 0) {
+        issues.push({ target: 'trigger', severity: 'warning', message: 'The flow has no steps' });
+    }
+
+    const ids = new Set<string>();
+    walkSteps(flow.steps, (step, ref, index) => {
+        for (const message of stepIssues(step)) issues.push({ target: step.id, severity: 'error', message });
+        if (ids.has(step.id)) issues.push({ target: step.id, severity: 'error', message: `Duplicate step id "${step.id}"` });
+        ids.add(step.id);
+        if (step.type === 'split' && step.yes.length === 0 && step.no.length === 0) {
+            issues.push({ target: step.id, severity: 'warning', message: 'Both branches are empty' });
+        }
+        const prev = index > 0 ? listOf(flow, ref)[index - 1] : null;
+        if (prev && isTerminal(prev)) {
+            issues.push({ target: step.id, severity: 'error', message: `Unreachable: comes after ${stepLabel(prev).toLowerCase()}` });
+        }
+    });
+    return issues;
+}
@@ -0,0 +1,101 @@
+// lib/campaign-compare.ts
+// Side-by-side campaign report: rates, deltas between consecutive sends, time-to-open curves and CSV export.
+import type { Campaign, CampaignEvent, CampaignMetrics } from '@/types/api';
+
+export const MIN_COMPARE = 2;
+export const MAX_COMPARE = 10;
+
+export type RateKey = 'delivery' | 'open' | 'click' | 'bounce' | 'complaint';
+
+export type RateDef = {
+    key: RateKey;
+    label: string;
+    /** Bounces and complaints improve when they go down. */
+    lowerIsBetter: boolean;
+    of: (m: CampaignMetrics) => [number, number];
+};
+
+export const RATE_DEFS: RateDef[] = [
+    { key: 'delivery', label: 'Delivery rate', lowerIsBetter: false, of: (m) => [m.delivered, m.sent] },
+    { key: 'open', label: 'Open rate', lowerIsBetter: false, of: (m) => [m.opens, m.delivered] },
+    { key: 'click', label: 'Click rate', lowerIsBetter: false, of: (m) => [m.clicks, m.delivered] },
+    { key: 'bounce', label: 'Bounce rate', lowerIsBetter: true, of: (m) => [m.bounces, m.sent] },
+    { key: 'complaint', label: 'Complaint rate', lowerIsBetter: true, of: (m) => [m.complaints, m.delivered] },
+];
+
+export function rate(def: RateDef, m: CampaignMetrics | undefined): number | null {
+    if (!m) return null;
+    const [n, d] = def.of(m);
+    return d ? n / d : null;
+}
+
+/** When a campaign went out, for chronological ordering. */
+export function sentAt(c: Pick<Campaign, 'scheduled_at' | 'created_at'>): string {
+    return c.scheduled_at ?? c.created_at ?? '';
+}
+
+export function chronological<T extends Pick<Campaign, 'scheduled_at' | 'created_at'>>(cs: T[]): T[] {
+    return [...cs].sort((a, b) => sentAt(a).localeCompare(sentAt(b)));
+}
+
+/** Change against the previous send, in percentage points. */
+export function delta(cur: number | null, prev: number | null): number | null {
+    return cur === null || prev === null ? null : (cur - prev) * 100;
+}
+
+/** Hours since the send started at which the time-to-open curves are sampled. */
+export const CURVE_HOURS = [0, 1, 2, 3, 4, 6, 8, 12, 18, 24, 36, 48, 72] as const;
+
+/**
+ * Where the time-to-open curve starts: the earliest of the scheduled send time and the given events
+ * (a delivery sample and the opens read), so no open can fall before it whatever order the API lists them in.
+ */
+export function curveStart(c: Pick<Campaign, 'scheduled_at'>, events: CampaignEvent[]): string | null {
+    const times = [c.scheduled_at, ...events.map((e) => e.at)].map((at) => (at ? Date.parse(at) : NaN)).filter((t) => !Number.isNaN(t));
+    return times.length ? new Date(Math.min(...times)).toISOString() : null;
+}
+
+/**
+ * Cumulative share of the campaign's `openers` (its unique opens) who had opened by each of `CURVE_HOURS`,
+ * counted from `startAt` (see `curveStart`). Each recipient counts once, at their first open.
+ * `opens` must be the oldest opens; when they are only a sample (`complete` false) the hours past the
+ * last one read are unknown and come back null.
+ */
+export function openCurve(opens: CampaignEvent[], startAt: string | null, openers: number, complete: boolean): Array<number | null> | null {
+    const start = startAt ? Date.parse(startAt) : NaN;
+    if (Number.isNaN(start)) return null;
+    const first = new Map<string, number>();
+    let lastRead = -Infinity;
+    for (const e of opens) {
+        const t = Date.parse(e.at);
+        if (Number.isNaN(t)) continue;
+        lastRead = Math.max(lastRead, t);
+        const who = e.recipient.email?.toLowerCase() ?? `#${e.recipient.id ?? e.id}`;
+        const seen = first.get(who);
+        if (seen === undefined || t < seen) first.set(who, t);
+    }
+    if (!first.size) return null;
+    const total = Math.max(openers, first.size);
+    const hours = [...first.values()].map((t) => Math.max(0, (t - start) / 3_600_000));
+    const known = complete ? Infinity : Math.max(0, (lastRead - start) / 3_600_000);
+    return CURVE_HOURS.map((h) => (h > known ? null : hours.filter((x) => x <= h).length / total));
+}
+
+function csvCell(v: string | number | null): string {
+    if (v === null) return '';
+    const s = String(v);
+    return /[",\n\r]/.test(s) ? `"${s.replaceAll('"', '""')}"` : s;
+}
+
+export function toCsv(rows: Array<Array<string | number | null>>): string {
+    return rows.map((r) => r.map(csvCell).join(',')).join('\r\n');
+}
+
+export function downloadText(filename: string, text: string, type = 'text/csv;charset=utf-8') {
+    const url = URL.createObjectURL(new Blob([text], { type }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+}
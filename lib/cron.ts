@@ -0,0 +1,9 @@
+// lib/cron.ts
+// Shape check for five-field CRON expressions (minute hour day month weekday); the backend does the real parse.
+
+/** The problem with `cron`, or null when it looks usable. */
+export function cronProblem(cron: string): string | null {
+    const fields = cron.trim().split(/\s+/).filter(Boolean);
+    if (fields.length !== 5) return 'CRON needs 5 fields: minute hour day month weekday';
+    return fields.some((f) => !/^[\d*,/\-A-Za-z?]+$/.test(f)) ? 'CRON contains invalid characters' : null;
+}
@@ -0,0 +1,129 @@
+// lib/diff.ts
+// Line diff (Myers) laid out for a side-by-side view.
+
+export type DiffOp = { kind: 'same' | 'del' | 'add'; text: string };
+
+export type DiffSide = { line: number; text: string };
+
+/** One row of the side-by-side view; a missing side is rendered as a blank filler. */
+export type DiffRow = {
+    kind: 'same' | 'del' | 'add' | 'change';
+    left: DiffSide | null;
+    right: DiffSide | null;
+};
+
+function splitLines(s: string): string[] {
+    return s === '' ? [] : s.replace(/\r\n?/g, '\n').split('\n');
+}
+
+/**
+ * Above this many inserted plus deleted lines `diffLines` gives up; the trace it keeps
+ * grows with the square of the edit count (about 16 MB here).
+ */
+export const MAX_DIFF_EDITS = 2000;
+
+/**
+ * Shortest edit script between two line arrays (Myers, O((N+M)·D) time, O(D²) memory),
+ * or null when the texts differ by more than `MAX_DIFF_EDITS` lines.
+ */
+export function diffLines(a: string, b: string): DiffOp[] | null {
+    const all = splitLines(a);
+    const allB = splitLines(b);
+
+    // common head and tail lines never take part in the search
+    let head = 0;
+    while (head < all.length && head < allB.length && all[head] === allB[head]) head++;
+    let tail = 0;
+    while (tail < all.length - head && tail < allB.length - head && all[all.length - 1 - tail] === allB[allB.length - 1 - tail]) tail++;
+
+    const xs = all.slice(head, all.length - tail);
+    const ys = allB.slice(head, allB.length - tail);
+    const n = xs.length;
+    const m = ys.length;
+    const max = Math.min(n + m, MAX_DIFF_EDITS);
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    // trace[d] holds v for diagonals -d..d as it stood before step d
+    const trace: Int32Array[] = [];
+    let done = n === 0 && m === 0;
+
+    outer: for (let d = 0; d <= max && !done; d++) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && xs[x] === ys[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                done = true;
+                break outer;
+            }
+        }
+    }
+    if (!done) return null;
+
+    // walk the trace backwards to recover the edit script
+    const ops: DiffOp[] = [];
+    for (let i = all.length - 1; i >= all.length - tail; i--) ops.push({ kind: 'same', text: all[i] });
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d >= 0; d--) {
+        const vd = trace[d];
+        const at = (k: number) => vd[k + d];
+        const k = x - y;
+        const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+        const prevX = d === 0 ? 0 : at(prevK);
+        const prevY = prevX - prevK;
+        while (x > prevX && y > prevY) {
+            x--;
+            y--;
+            ops.push({ kind: 'same', text: xs[x] });
+        }
+        if (d === 0) break;
+        if (x === prevX) ops.push({ kind: 'add', text: ys[--y] });
+        else ops.push({ kind: 'del', text: xs[--x] });
+    }
+    for (let i = head - 1; i >= 0; i--) ops.push({ kind: 'same', text: all[i] });
+    return ops.reverse();
+}
+
+/** Pairs runs of deletions and additions so edited lines sit next to each other. */
+export function toSideBySide(ops: DiffOp[]): DiffRow[] {
+    const rows: DiffRow[] = [];
+    let left = 0;
+    let right = 0;
+    let i = 0;
+
+    while (i < ops.length) {
+        if (ops[i].kind === 'same') {
+            rows.push({ kind: 'same', left: { line: ++left, text: ops[i].text }, right: { line: ++right, text: ops[i].text } });
+            i++;
+            continue;
+        }
+        const dels: string[] = [];
+        const adds: string[] = [];
+        while (i < ops.length && ops[i].kind !== 'same') {
+            (ops[i].kind === 'del' ? dels : adds).push(ops[i].text);
+            i++;
+        }
+        for (let j = 0; j < Math.max(dels.length, adds.length); j++) {
+            const l = j < dels.length ? { line: ++left, text: dels[j] } : null;
+            const r = j < adds.length ? { line: ++right, text: adds[j] } : null;
+            rows.push({ kind: l && r ? 'change' : l ? 'del' : 'add', left: l, right: r });
+        }
+    }
+    return rows;
+}
+
+export function diffStats(ops: DiffOp[]): { added: number; removed: number } {
+    let added = 0;
+    let removed = 0;
+    for (const op of ops) {
+        if (op.kind === 'add') added++;
+        else if (op.kind === 'del') removed++;
+    }
+    return { added, removed };
+}
@@ -0,0 +1,32 @@
+// lib/editor.ts
+// Small helpers around the CodeMirror views used by the template editors.
+import type { EditorView, Extension } from '@uiw/react-codemirror';
+import { type Diagnostic, linter, lintGutter } from '@codemirror/lint';
+import { lintEmailHtml } from '@/lib/email-lint';
+
+/** Puts the cursor at the start of a 1-based line (clamped to the document) and scrolls it into view. */
+export function jumpToLine(view: EditorView | null, lineNumber: number): void {
+    if (!view) return;
+    const { doc } = view.state;
+    const line = doc.line(Math.min(Math.max(lineNumber, 1), doc.lines));
+    view.dispatch({ selection: { anchor: line.from }, scrollIntoView: true });
+    view.focus();
+}
+
+/** Runs the email compatibility lint on the editor's own document and marks issues in the gutter. */
+export const emailLintExtensions: Extension[] = [
+    lintGutter(),
+    linter(
+        (view): Diagnostic[] => {
+            const len = view.state.doc.length;
+            return lintEmailHtml(view.state.doc.toString()).issues.map((i) => ({
+                from: Math.min(i.from, len),
+                to: Math.min(i.to, len),
+                severity: i.severity,
+                source: i.rule,
+                message: i.message,
+            }));
+        },
+        { delay: 500 }
+    ),
+];
@@ -0,0 +1,194 @@
+// lib/email-builder/compile.ts
+// Renders a builder document to table-based, email-client-safe HTML.
+import type { Align, Block, Column, EmailDocument, Section, SocialNetwork } from '@/types/email-builder';
+
+type InlineResponse = { html?: string; error?: string };
+
+const SOCIAL_LABELS: Record<SocialNetwork, string> = {
+    facebook: 'Facebook',
+    x: 'X',
+    instagram: 'Instagram',
+    linkedin: 'LinkedIn',
+    youtube: 'YouTube',
+};
+
+/* ------------------------------- Helpers ------------------------------ */
+
+function esc(s: string): string {
+    return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** Attribute values keep merge tags intact: `{{unsubscribe_url}}` survives escaping. */
+function attr(s: string): string {
+    return esc(s.trim());
+}
+
+function style(rules: Record<string, string | number | null | undefined>): string {
+    return Object.entries(rules)
+        .filter(([, v]) => v !== '' && v !== null && v !== undefined)
+        .map(([k, v]) => `${k}:${v}`)
+        .join(';');
+}
+
+function td(align: Align, inner: string, extra: Record<string, string | number> = {}): string {
+    return `<tr><td align="${align}" style="${style({ padding: '8px 0', ...extra })}">${inner}</td></tr>`;
+}
+
+/* -------------------------------- Blocks ------------------------------ */
+
+function renderBlock(block: Block, doc: EmailDocument, columnWidth: number): string {
+    const s = doc.settings;
+    switch (block.type) {
+        case 'text':
+            return td(block.align, block.content, {
+                'font-family': s.fontFamily,
+                'font-size': `${block.fontSize}px`,
+                'line-height': 1.5,
+                color: block.color || s.textColor,
+                'text-align': block.align,
+            });
+
+        case 'image': {
+            const width = Math.min(block.width ?? columnWidth, columnWidth);
+            const img = `<img src="${attr(block.src)}" alt="${attr(block.alt)}" width="${width}" style="${style({
+                display: 'block',
+                width: '100%',
+                'max-width': `${width}px`,
+                height: 'auto',
+                border: 0,
+            })}">`;
+            return td(block.align, block.href.trim() ? `<a href="${attr(block.href)}" target="_blank">${img}</a>` : img);
+        }
+
+        case 'button': {
+            const link = `<a href="${attr(block.href)}" target="_blank" style="${style({
+                display: 'inline-block',
+                padding: '12px 24px',
+                'font-family': s.fontFamily,
+                'font-size': '16px',
+                'font-weight': 'bold',
+                color: block.color,
+                'text-decoration': 'none',
+            })}">${esc(block.label)}</a>`;
+            // bulletproof button: the cell carries the background so Outlook still paints it
+            const table = `<table role="presentation" border="0" cellpadding="0" cellspacing="0"><tr><td bgcolor="${attr(block.backgroundColor)}" style="${style({
+                'border-radius': `${block.radius}px`,
+                'background-color': block.backgroundColor,
+            })}">${link}</td></tr></table>`;
+            return td(block.align, table);
+        }
+
+        case 'divider':
+            return `<tr><td style="padding:12px 0"><table role="presentation" width="100%" border="0" cellpadding="0" cellspacing="0"><tr><td style="${style({
+                'border-top': `${block.thickness}px solid ${block.color}`,
+                'font-size': '1px',
+                'line-height': '1px',
+            })}">&nbsp;</td></tr></table></td></tr>`;
+
+        case 'social': {
+            const links = block.links
+                .filter((l) => l.url.trim())
+                .map(
+                    (l) =>
+                        `<a href="${attr(l.url)}" target="_blank" style="${style({
+                            display: 'inline-block',
+                            margin: '0 6px',
+                            color: s.linkColor,
+                            'font-family': s.fontFamily,
+                            'font-size': '14px',
+                            'text-decoration': 'none',
+                        })}">${SOCIAL_LABELS[l.network]}</a>`,
+                )
+                .join('');
+            return links ? td(block.align, links) : '';
+        }
+
+        case 'footer': {
+            const linkStyle = style({ color: block.color, 'text-decoration': 'underline' });
+            const links = [`<a href="{{unsubscribe_url}}" style="${linkStyle}">Unsubscribe</a>`];
+            if (block.showViewInBrowser) links.push(`<a href="{{view_in_browser_url}}" style="${linkStyle}">View in browser</a>`);
+            return td(block.align, `${block.content ? `<p style="margin:0 0 8px">${block.content}</p>` : ''}<p style="margin:0">${links.join(' · ')}</p>`, {
+                'font-family': s.fontFamily,
+                'font-size': '12px',
+                'line-height': 1.5,
+                color: block.color,
+                'text-align': block.align,
+            });
+        }
+    }
+}
+
+/* ------------------------------- Layout ------------------------------- */
+
+function renderColumn(column: Column, doc: EmailDocument, width: number, count: number): string {
+    const blocks = column.blocks.map((b) => renderBlock(b, doc, width)).join('');
+    return `<td class="ml-col" width="${width}" valign="top" style="width:${Math.round(100 / count)}%;vertical-align:top">
+<table role="presentation" width="100%" border="0" cellpadding="0" cellspacing="0">${blocks || '<tr><td>&nbsp;</td></tr>'}</table>
+</td>`;
+}
+
+function renderSection(section: Section, doc: EmailDocument): string {
+    const inner = doc.settings.width - section.padding * 2;
+    const count = Math.max(section.columns.length, 1);
+    const colWidth = Math.floor(inner / count);
+    const bg = section.backgroundColor || doc.settings.contentBackgroundColor;
+
+    return `<tr><td bgcolor="${attr(bg)}" style="${style({ 'background-color': bg, padding: `${section.padding}px` })}">
+<table role="presentation" width="100%" border="0" cellpadding="0" cellspacing="0"><tr>
+${section.columns.map((c) => renderColumn(c, doc, colWidth, count)).join('\n')}
+</tr></table>
+</td></tr>`;
+}
+
+/**
+ * Compiles the document to a full HTML email: nested presentation tables, a fixed-width
+ * container and a single media query that stacks columns on narrow screens.
+ * Merge tags are left untouched for the sending engine.
+ */
+export function compileDocument(doc: EmailDocument): string {
+    const s = doc.settings;
+    const preheader = s.preheader?.trim()
+        ? `<div style="display:none;max-height:0;overflow:hidden;mso-hide:all">${esc(s.preheader)}</div>`
+        : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<meta name="x-apple-disable-message-reformatting">
+<title>${esc(s.title || '')}</title>
+<style>
+a { color: ${s.linkColor}; }
+p { margin: 0 0 12px; }
+@media only screen and (max-width: ${s.width}px) {
+  .ml-container { width: 100% !important; }
+  .ml-col { display: block !important; width: 100% !important; }
+}
+</style>
+</head>
+<body style="margin:0;padding:0;background-color:${s.backgroundColor}">
+${preheader}
+<table role="presentation" width="100%" border="0" cellpadding="0" cellspacing="0" bgcolor="${attr(s.backgroundColor)}" style="background-color:${s.backgroundColor}">
+<tr><td align="center" style="padding:24px 0">
+<table role="presentation" class="ml-container" width="${s.width}" border="0" cellpadding="0" cellspacing="0" style="width:${s.width}px;max-width:100%">
+${doc.sections.map((sec) => renderSection(sec, doc)).join('\n')}
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+}
+
+/** Runs compiled HTML through the juice step (`/api/email/inline`) so the saved markup carries inline styles. */
+export async function inlineCompiledHtml(html: string, signal?: AbortSignal): Promise<string> {
+    const res = await fetch('/api/email/inline', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ html }),
+        signal,
+    });
+    const payload = (await res.json().catch(() => ({}))) as InlineResponse;
+    if (!res.ok || payload.error || !payload.html) throw new Error(payload.error || `Inline failed (${res.status})`);
+    return payload.html;
+}
@@ -0,0 +1,219 @@
+// lib/email-builder/document.ts
+// Factories and immutable tree operations for the visual builder document.
+import type { Block, BlockType, Column, EmailDocument, Section } from '@/types/email-builder';
+
+export const MAX_COLUMNS = 3;
+
+/** Where a block sits: section index, column index, block index. */
+export type BlockPath = { section: number; column: number; index: number };
+
+export function uid(prefix = 'b'): string {
+    return `${prefix}_${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/* ------------------------------ Factories ----------------------------- */
+
+export function createBlock(type: BlockType): Block {
+    const id = uid();
+    switch (type) {
+        case 'text':
+            return { id, type, content: '<p>Hi {{contact.name}},</p><p>Write something great.</p>', align: 'left', fontSize: 16, color: '' };
+        case 'image':
+            return { id, type, src: 'https://placehold.co/600x240', alt: 'Image description', href: '', width: null, align: 'center' };
+        case 'button':
+            return { id, type, label: 'Call to action', href: 'https://example.com', align: 'center', backgroundColor: '#4f46e5', color: '#ffffff', radius: 6 };
+        case 'divider':
+            return { id, type, color: '#e5e7eb', thickness: 1 };
+        case 'social':
+            return {
+                id,
+                type,
+                align: 'center',
+                links: [
+                    { network: 'facebook', url: 'https://facebook.com/' },
+                    { network: 'x', url: 'https://x.com/' },
+                    { network: 'instagram', url: 'https://instagram.com/' },
+                ],
+            };
+        case 'footer':
+            return { id, type, content: 'You are receiving this email because you subscribed to {{company.name}}.', align: 'center', color: '#6b7280', showViewInBrowser: false };
+    }
+}
+
+export function createColumn(blocks: Block[] = []): Column {
+    return { id: uid('c'), blocks };
+}
+
+export function createSection(columns = 1): Section {
+    const n = Math.min(Math.max(columns, 1), MAX_COLUMNS);
+    return {
+        id: uid('s'),
+        backgroundColor: '',
+        padding: 24,
+        columns: Array.from({ length: n }, () => createColumn()),
+    };
+}
+
+export function createDocument(): EmailDocument {
+    const header = createSection(1);
+    header.columns[0].blocks = [createBlock('text')];
+    const footer = createSection(1);
+    footer.columns[0].blocks = [createBlock('divider'), createBlock('footer')];
+
+    return {
+        version: 1,
+        settings: {
+            title: '',
+            width: 600,
+            backgroundColor: '#f3f4f6',
+            contentBackgroundColor: '#ffffff',
+            fontFamily: 'Arial, Helvetica, sans-serif',
+            textColor: '#111827',
+            linkColor: '#4f46e5',
+            preheader: '',
+        },
+        sections: [header, footer],
+    };
+}
+
+/** Accepts whatever came back from the API; anything that is not a v1 document is dropped. */
+export function parseDocument(raw: unknown): EmailDocument | null {
+    const value = typeof raw === 'string' ? safeJson(raw) : raw;
+    if (!value || typeof value !== 'object') return null;
+    const doc = value as Partial<EmailDocument>;
+    if (doc.version !== 1 || !doc.settings || !Array.isArray(doc.sections)) return null;
+    return doc as EmailDocument;
+}
+
+function safeJson(s: string): unknown {
+    try {
+        return JSON.parse(s);
+    } catch {
+        return null;
+    }
+}
+
+/** Every document must keep a footer so the unsubscribe link cannot be dropped. */
+export function hasFooter(doc: EmailDocument): boolean {
+    return doc.sections.some((s) => s.columns.some((c) => c.blocks.some((b) => b.type === 'footer')));
+}
+
+/* ---------------------------- Tree operations -------------------------- */
+
+function mapSection(doc: EmailDocument, index: number, fn: (s: Section) => Section): EmailDocument {
+    return { ...doc, sections: doc.sections.map((s, i) => (i === index ? fn(s) : s)) };
+}
+
+function mapColumn(doc: EmailDocument, section: number, column: number, fn: (c: Column) => Column): EmailDocument {
+    return mapSection(doc, section, (s) => ({ ...s, columns: s.columns.map((c, i) => (i === column ? fn(c) : c)) }));
+}
+
+export function findBlock(doc: EmailDocument, id: string): { block: Block; path: BlockPath } | null {
+    for (let si = 0; si < doc.sections.length; si++) {
+        const cols = doc.sections[si].columns;
+        for (let ci = 0; ci < cols.length; ci++) {
+            const bi = cols[ci].blocks.findIndex((b) => b.id === id);
+            if (bi >= 0) return { block: cols[ci].blocks[bi], path: { section: si, column: ci, index: bi } };
+        }
+    }
+    return null;
+}
+
+export function insertBlock(doc: EmailDocument, at: BlockPath, block: Block): EmailDocument {
+    return mapColumn(doc, at.section, at.column, (c) => {
+        const blocks = c.blocks.slice();
+        blocks.splice(Math.min(at.index, blocks.length), 0, block);
+        return { ...c, blocks };
+    });
+}
+
+export function removeBlock(doc: EmailDocument, id: string): EmailDocument {
+    const found = findBlock(doc, id);
+    if (!found) return doc;
+    const { section, column } = found.path;
+    return mapColumn(doc, section, column, (c) => ({ ...c, blocks: c.blocks.filter((b) => b.id !== id) }));
+}
+
+export function updateBlock(doc: EmailDocument, id: string, patch: Partial<Block>): EmailDocument {
+    const found = findBlock(doc, id);
+    if (!found) return doc;
+    const { section, column } = found.path;
+    return mapColumn(doc, section, column, (c) => ({
+        ...c,
+        blocks: c.blocks.map((b) => (b.id === id ? ({ ...b, ...patch, id: b.id, type: b.type } as Block) : b)),
+    }));
+}
+
+/** Moves a block; `to.index` is read against the tree after the block has been taken out. */
+export function moveBlock(doc: EmailDocument, id: string, to: BlockPath): EmailDocument {
+    const found = findBlock(doc, id);
+    if (!found) return doc;
+    const { path } = found;
+    let index = to.index;
+    if (path.section === to.section && path.column === to.column && path.index < to.index) index -= 1;
+    return insertBlock(removeBlock(doc, id), { ...to, index }, found.block);
+}
+
+export function duplicateBlock(doc: EmailDocument, id: string): EmailDocument {
+    const found = findBlock(doc, id);
+    if (!found) return doc;
+    const copy = { ...structuredClone(found.block), id: uid() };
+    return insertBlock(doc, { ...found.path, index: found.path.index + 1 }, copy);
+}
+
+export function insertSection(doc: EmailDocument, index: number, section: Section): EmailDocument {
+    const sections = doc.sections.slice();
+    sections.splice(Math.min(index, sections.length), 0, section);
+    return { ...doc, sections };
+}
+
+export function removeSection(doc: EmailDocument, id: string): EmailDocument {
+    return { ...doc, sections: doc.sections.filter((s) => s.id !== id) };
+}
+
+export function moveSection(doc: EmailDocument, id: string, delta: -1 | 1): EmailDocument {
+    const from = doc.sections.findIndex((s) => s.id === id);
+    const to = from + delta;
+    if (from < 0 || to < 0 || to >= doc.sections.length) return doc;
+    const sections = doc.sections.slice();
+    [sections[from], sections[to]] = [sections[to], sections[from]];
+    return { ...doc, sections };
+}
+
+export function duplicateSection(doc: EmailDocument, id: string): EmailDocument {
+    const index = doc.sections.findIndex((s) => s.id === id);
+    if (index < 0) return doc;
+    const src = doc.sections[index];
+    const copy: Section = {
+        ...src,
+        id: uid('s'),
+        columns: src.columns.map((c) => ({
+            id: uid('c'),
+            // a second footer would only repeat the unsubscribe line
+            blocks: c.blocks.filter((b) => b.type !== 'footer').map((b) => ({ ...structuredClone(b), id: uid() })),
+        })),
+    };
+    return insertSection(doc, index + 1, copy);
+}
+
+export function updateSection(doc: EmailDocument, id: string, patch: Partial<Omit<Section, 'id' | 'columns'>>): EmailDocument {
+    return { ...doc, sections: doc.sections.map((s) => (s.id === id ? { ...s, ...patch } : s)) };
+}
+
+/** Changes the column count; blocks from dropped columns move into the last remaining one. */
+export function setSectionColumns(doc: EmailDocument, id: string, count: number): EmailDocument {
+    const n = Math.min(Math.max(count, 1), MAX_COLUMNS);
+    return {
+        ...doc,
+        sections: doc.sections.map((s) => {
+            if (s.id !== id || s.columns.length === n) return s;
+            if (n > s.columns.length) {
+                return { ...s, columns: [...s.columns, ...Array.from({ length: n - s.columns.length }, () => createColumn())] };
+            }
+            const kept = s.columns.slice(0, n);
+            const overflow = s.columns.slice(n).flatMap((c) => c.blocks);
+            kept[n - 1] = { ...kept[n - 1], blocks: [...kept[n - 1].blocks, ...overflow] };
+            return { ...s, columns: kept };
+        }),
+    };
+}
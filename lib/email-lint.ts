@@ -0,0 +1,197 @@
+// lib/email-lint.ts
+// Email-client compatibility checks for template HTML. Plain string scanning (no DOM),
+// so the same pass runs in the editor and in the /api/email/lint route handler.
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintRule =
+    | 'flexbox-grid'
+    | 'non-inlinable-selector'
+    | 'external-font'
+    | 'img-alt'
+    | 'img-width'
+    | 'size-limit'
+    | 'missing-title'
+    | 'missing-preheader'
+    | 'relative-url';
+
+export type LintIssue = {
+    rule: LintRule;
+    severity: LintSeverity;
+    message: string;
+    /** 1-based; document-level issues point at line 1. */
+    line: number;
+    /** Character range in the linted source. */
+    from: number;
+    to: number;
+};
+
+export type LintReport = { issues: LintIssue[]; bytes: number };
+
+/** Gmail clips messages whose HTML is larger than this. */
+export const GMAIL_CLIP_BYTES = 102 * 1024;
+const CLIP_WARN_BYTES = 90 * 1024;
+
+const SEVERITY_ORDER: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+/* ------------------------------- Helpers ------------------------------ */
+
+function lineIndex(src: string): (offset: number) => number {
+    const starts = [0];
+    for (let i = 0; i < src.length; i++) if (src.charCodeAt(i) === 10) starts.push(i + 1);
+    return (offset) => {
+        let lo = 0;
+        let hi = starts.length - 1;
+        while (lo < hi) {
+            const mid = (lo + hi + 1) >> 1;
+            if (starts[mid] <= offset) lo = mid;
+            else hi = mid - 1;
+        }
+        return lo + 1;
+    };
+}
+
+/** Attribute value plus the range of `name="value"` inside the tag. */
+function attr(tag: string, name: string): { value: string; start: number; end: number } | null {
+    const m = new RegExp(`\\s(${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+)))`, 'i').exec(tag);
+    if (!m) return null;
+    const start = m.index + m[0].length - m[1].length;
+    return { value: m[3] ?? m[4] ?? m[5] ?? '', start, end: start + m[1].length };
+}
+
+function byteLength(s: string): number {
+    return typeof TextEncoder !== 'undefined' ? new TextEncoder().encode(s).length : s.length;
+}
+
+/** Link targets that work from an inbox, plus merge tags resolved at send time. */
+function isAbsoluteUrl(url: string): boolean {
+    const u = url.trim();
+    return !u || /^(https?:|mailto:|tel:|sms:|cid:|data:|#|\{\{)/i.test(u) || u.startsWith('//');
+}
+
+/** `<style>` bodies with the offset where each body starts. */
+function styleBlocks(src: string): Array<{ css: string; start: number }> {
+    const out: Array<{ css: string; start: number }> = [];
+    const re = /<style\b[^>]*>([\s\S]*?)<\/style>/gi;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(src))) out.push({ css: m[1], start: m.index + m[0].indexOf('>') + 1 });
+    return out;
+}
+
+/** Top-level rule selectors of a stylesheet, skipping at-rule bodies such as @media and @font-face. */
+function topLevelSelectors(css: string): Array<{ selector: string; index: number }> {
+    const out: Array<{ selector: string; index: number }> = [];
+    const clean = css.replace(/\/\*[\s\S]*?\*\//g, (c) => ' '.repeat(c.length));
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < clean.length; i++) {
+        const ch = clean[i];
+        if (ch === '{') {
+            if (depth === 0) {
+                const selector = clean.slice(start, i).trim();
+                if (selector && !selector.startsWith('@')) out.push({ selector, index: start + clean.slice(start, i).search(/\S/) });
+            }
+            depth++;
+        } else if (ch === '}') {
+            depth = Math.max(0, depth - 1);
+            if (depth === 0) start = i + 1;
+        } else if (ch === ';' && depth === 0) {
+            start = i + 1; // @import / @charset statements
+        }
+    }
+    return out;
+}
+
+/* -------------------------------- Lint -------------------------------- */
+
+export function lintEmailHtml(html: string): LintReport {
+    // blank out comments (keeping Outlook conditionals and line breaks) so offsets still match the source
+    const src = html.replace(/<!--[\s\S]*?-->/g, (c) => (c.startsWith('<!--[if') ? c : c.replace(/[^\n]/g, ' ')));
+    const lineOf = lineIndex(src);
+    const issues: LintIssue[] = [];
+
+    const add = (rule: LintRule, severity: LintSeverity, message: string, from: number, to = from) =>
+        issues.push({ rule, severity, message, line: lineOf(from), from, to: Math.max(to, from) });
+
+    // flexbox / grid, in style attributes and <style> blocks alike
+    for (const m of src.matchAll(/display\s*:\s*(inline-)?(flex|grid)\b/gi)) {
+        add('flexbox-grid', 'warning', `display:${m[1] ?? ''}${m[2]} is ignored by Outlook and several webmail clients; use tables for layout.`, m.index!, m.index! + m[0].length);
+    }
+
+    // <style> selectors juice leaves behind
+    for (const block of styleBlocks(src)) {
+        for (const { selector, index } of topLevelSelectors(block.css)) {
+            const pseudo = /::?[a-z-]+/i.exec(selector.replace(/\[[^\]]*\]/g, ''));
+            if (!pseudo) continue;
+            const from = block.start + index;
+            add(
+                'non-inlinable-selector',
+                'warning',
+                `"${selector}" cannot be inlined (${pseudo[0]}); it only works in clients that keep <style>, and Gmail drops it in many views.`,
+                from,
+                from + selector.length
+            );
+        }
+        for (const m of block.css.matchAll(/@import\b[^;]*;?|@font-face\s*\{[^}]*url\([^}]*\}/gi)) {
+            const from = block.start + m.index!;
+            add('external-font', 'warning', 'Web fonts load in few email clients; make sure the font stack ends in a safe fallback.', from, from + m[0].length);
+        }
+    }
+
+    // tags: fonts, images, URLs
+    for (const m of src.matchAll(/<(link|img|a|area|source|td|table|body)\b[^>]*>/gi)) {
+        const tag = m[0];
+        const name = m[1].toLowerCase();
+        const at = m.index!;
+        const end = at + tag.length;
+
+        if (name === 'link') {
+            const href = attr(tag, 'href')?.value ?? '';
+            if (/stylesheet/i.test(attr(tag, 'rel')?.value ?? '') || /fonts\.(googleapis|bunny)|typekit|fonts\.com/i.test(href)) {
+                add('external-font', 'warning', 'External stylesheets and web fonts are stripped by Gmail and Outlook.', at, end);
+            }
+            continue;
+        }
+
+        if (name === 'img') {
+            if (!attr(tag, 'alt')) add('img-alt', 'error', 'Image has no alt attribute; it is what most recipients see while images are blocked.', at, end);
+            if (!attr(tag, 'width')) add('img-width', 'warning', 'Image has no width attribute; Outlook renders it at its natural size.', at, end);
+        }
+
+        for (const key of ['href', 'src', 'background']) {
+            const a = attr(tag, key);
+            if (a && !isAbsoluteUrl(a.value)) {
+                add('relative-url', 'error', `Relative URL "${a.value}" will not resolve from an inbox; use an absolute https:// URL.`, at + a.start, at + a.end);
+            }
+        }
+    }
+
+    // document-level checks
+    const bytes = byteLength(html);
+    if (bytes > GMAIL_CLIP_BYTES) {
+        add('size-limit', 'error', `HTML is ${(bytes / 1024).toFixed(1)} KB; Gmail clips messages over 102 KB (and hides the unsubscribe link with them).`, 0);
+    } else if (bytes > CLIP_WARN_BYTES) {
+        add('size-limit', 'warning', `HTML is ${(bytes / 1024).toFixed(1)} KB, close to Gmail's 102 KB clipping limit.`, 0);
+    }
+
+    const title = /<title\b[^>]*>([\s\S]*?)<\/title>/i.exec(src);
+    if (!title || !title[1].trim()) {
+        add('missing-title', 'warning', 'Missing or empty <title>; some clients show it in the web view and in notifications.', title?.index ?? 0);
+    }
+
+    const body = /<body\b[^>]*>/i.exec(src);
+    const head = src.slice(body ? body.index + body[0].length : 0).slice(0, 2000);
+    const hasPreheader = /class\s*=\s*["'][^"']*preheader/i.test(head) || /style\s*=\s*["'][^"']*display\s*:\s*none/i.test(head);
+    if (!hasPreheader) {
+        add('missing-preheader', 'info', 'No preheader found; inboxes will preview the first visible text instead.', body?.index ?? 0);
+    }
+
+    issues.sort((a, b) => a.line - b.line || SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+    return { issues, bytes };
+}
+
+export function countBySeverity(issues: LintIssue[]): Record<LintSeverity, number> {
+    const counts: Record<LintSeverity, number> = { error: 0, warning: 0, info: 0 };
+    for (const i of issues) counts[i.severity]++;
+    return counts;
+}
@@ -0,0 +1,174 @@
+// lib/email-preview.ts
+// Approximations of what inbox clients do to a message: dark-mode color rewriting and blocked images.
+// They are string transforms on the rendered HTML, so they run before it is handed to a preview iframe.
+
+/**
+ * - `respect`: clients that honour `@media (prefers-color-scheme: dark)` (Apple Mail, iOS Mail)
+ * - `partial`: only light backgrounds and dark text are flipped (Outlook apps, Gmail on Android)
+ * - `full`: every color's lightness is inverted (Outlook.com, Gmail on iOS)
+ */
+export type DarkModeStyle = 'respect' | 'partial' | 'full';
+
+export const DARK_MODE_LABELS: Record<DarkModeStyle, string> = {
+    respect: 'Respects prefers-color-scheme',
+    partial: 'Partial invert',
+    full: 'Full invert',
+};
+
+/* ------------------------------- Colors ------------------------------- */
+
+type Rgb = { r: number; g: number; b: number; a: number };
+
+const NAMED: Record<string, string> = {
+    white: '#ffffff',
+    black: '#000000',
+    transparent: '',
+};
+
+function parseColor(raw: string): Rgb | null {
+    let v = raw.trim().toLowerCase();
+    if (v in NAMED) v = NAMED[v];
+    if (!v) return null;
+    let m = /^#([0-9a-f]{3,4})$/.exec(v);
+    if (m) {
+        const [r, g, b] = m[1].split('').map((c) => parseInt(c + c, 16));
+        return { r, g, b, a: 1 };
+    }
+    m = /^#([0-9a-f]{6})(?:[0-9a-f]{2})?$/.exec(v);
+    if (m) {
+        const n = parseInt(m[1], 16);
+        return { r: (n >> 16) & 255, g: (n >> 8) & 255, b: n & 255, a: 1 };
+    }
+    m = /^rgba?\(\s*(\d+)\s*[, ]\s*(\d+)\s*[, ]\s*(\d+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/.exec(v);
+    if (m) {
+        const a = m[4] === undefined ? 1 : m[4].endsWith('%') ? parseFloat(m[4]) / 100 : parseFloat(m[4]);
+        return { r: +m[1], g: +m[2], b: +m[3], a };
+    }
+    return null;
+}
+
+function toHsl({ r, g, b }: Rgb): [number, number, number] {
+    const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+    const max = Math.max(rn, gn, bn);
+    const min = Math.min(rn, gn, bn);
+    const l = (max + min) / 2;
+    if (max === min) return [0, 0, l];
+    const d = max - min;
+    const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+    const h = max === rn ? (gn - bn) / d + (gn < bn ? 6 : 0) : max === gn ? (bn - rn) / d + 2 : (rn - gn) / d + 4;
+    return [h / 6, s, l];
+}
+
+function toHex(h: number, s: number, l: number): string {
+    const f = (n: number) => {
+        const k = (n + h * 12) % 12;
+        const a = s * Math.min(l, 1 - l);
+        const c = l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+        return Math.round(c * 255)
+            .toString(16)
+            .padStart(2, '0');
+    };
+    return `#${f(0)}${f(8)}${f(4)}`;
+}
+
+type ColorRole = 'background' | 'text' | 'border';
+
+/** Clients keep some contrast headroom rather than mapping white to pure black. */
+function darken(raw: string, role: ColorRole, style: Exclude<DarkModeStyle, 'respect'>): string {
+    const c = parseColor(raw);
+    if (!c || c.a === 0) return raw;
+    const [h, s, l] = toHsl(c);
+    const flip = (x: number) => 0.07 + (1 - x) * 0.86;
+
+    if (style === 'full') return toHex(h, s * 0.9, flip(l));
+    // partial: only colors that would clash with a dark canvas change
+    if (role === 'background' && l > 0.55) return toHex(h, s * 0.8, flip(l));
+    if (role === 'text' && l < 0.45) return toHex(h, s * 0.8, flip(l));
+    if (role === 'border' && l > 0.75) return toHex(h, s, flip(l));
+    return raw;
+}
+
+const COLOR_VALUE = /#[0-9a-f]{3,8}\b|rgba?\([^)]*\)|\b(?:white|black)\b/gi;
+
+function roleOf(property: string): ColorRole | null {
+    const p = property.trim().toLowerCase();
+    if (p === 'color') return 'text';
+    if (p === 'background' || p === 'background-color') return 'background';
+    if (p.startsWith('border')) return 'border';
+    return null;
+}
+
+/** Rewrites colors inside a declaration list (`a: b; c: d`). */
+function darkenDeclarations(css: string, style: Exclude<DarkModeStyle, 'respect'>): string {
+    return css.replace(/([a-z-]+)(\s*:\s*)([^;{}"]+)/gi, (decl, prop: string, sep: string, value: string) => {
+        const role = roleOf(prop);
+        if (!role) return decl;
+        return prop + sep + value.replace(COLOR_VALUE, (c) => darken(c, role, style));
+    });
+}
+
+/* ------------------------------ Transforms ---------------------------- */
+
+/** The dark canvas clients paint behind messages that don't set their own background. */
+const DARK_CANVAS = '<style>html,body{background-color:#121212 !important;color:#e4e4e7}</style>';
+
+export function simulateDarkMode(html: string, style: DarkModeStyle): string {
+    if (style === 'respect') {
+        // activate the author's dark rules as if the OS asked for them
+        return html.replace(/@media([^{]*)\(\s*prefers-color-scheme\s*:\s*dark\s*\)/gi, (_m, rest: string) => {
+            const other = rest.replace(/\band\s*$/i, '').trim();
+            return `@media ${other || 'all'}`;
+        });
+    }
+
+    const out = html
+        // <style> blocks
+        .replace(/(<style\b[^>]*>)([\s\S]*?)(<\/style>)/gi, (_m, open: string, css: string, close: string) => open + darkenDeclarations(css, style) + close)
+        // style="" attributes
+        .replace(/(\sstyle\s*=\s*)(["'])([\s\S]*?)\2/gi, (_m, lead: string, q: string, css: string) => lead + q + darkenDeclarations(css, style) + q)
+        // legacy presentational attributes
+        .replace(/(\s(bgcolor|color)\s*=\s*)(["']?)(#[0-9a-f]{3,8}|white|black)\3/gi, (_m, lead: string, attr: string, q: string, value: string) =>
+            lead + q + darken(value, attr.toLowerCase() === 'bgcolor' ? 'background' : 'text', style) + q
+        );
+
+    return /<head\b[^>]*>/i.test(out) ? out.replace(/<head\b[^>]*>/i, (m) => m + DARK_CANVAS) : DARK_CANVAS + out;
+}
+
+function attrValue(tag: string, name: string): string | null {
+    const m = new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i').exec(tag);
+    return m ? (m[2] ?? m[3] ?? m[4] ?? '') : null;
+}
+
+function escapeText(s: string) {
+    return s.replaceAll('&', '&amp;').replaceAll('<', '&lt;').replaceAll('>', '&gt;');
+}
+
+/** Replaces images with their alt text in a placeholder of the declared size, and drops background images. */
+export function blockImages(html: string): string {
+    return html
+        .replace(/<img\b[^>]*>/gi, (tag) => {
+            const alt = attrValue(tag, 'alt');
+            const width = Number(attrValue(tag, 'width')) || null;
+            const height = Number(attrValue(tag, 'height')) || null;
+            const box = [
+                'display:inline-block',
+                'box-sizing:border-box',
+                'max-width:100%',
+                'overflow:hidden',
+                'vertical-align:middle',
+                'border:1px dashed #9ca3af',
+                'padding:4px',
+                'font:12px/1.3 Arial,sans-serif',
+                'color:#6b7280',
+                width ? `width:${width}px` : '',
+                height ? `height:${height}px` : '',
+            ]
+                .filter(Boolean)
+                .join(';');
+            // no alt at all is what most clients show as an empty box
+            return `<span style="${box}">${alt ? escapeText(alt) : ''}</span>`;
+        })
+        .replace(/(\s)background\s*=\s*(["'])[^"']*\2/gi, '$1')
+        .replace(/background-image\s*:\s*url\([^)]*\)\s*;?/gi, '')
+        .replace(/(background\s*:[^;"']*?)url\([^)]*\)/gi, '$1');
+}
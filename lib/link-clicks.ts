@@ -0,0 +1,84 @@
+// lib/link-clicks.ts
+// Per-link click reporting: aggregates `clicked` events by `meta.url` and overlays the result on the campaign HTML.
+import type { CampaignEvent } from '@/types/api';
+
+export type LinkStat = {
+    /** URL as first seen in the events. */
+    url: string;
+    /** Grouping key; see `linkKey`. */
+    key: string;
+    total: number;
+    unique: number;
+    firstAt: string | null;
+    lastAt: string | null;
+};
+
+/**
+ * Same link, regardless of per-send decoration: drops the fragment, utm_* parameters,
+ * a trailing slash and host case, so the template href and the clicked URL line up.
+ */
+export function linkKey(raw: string): string {
+    try {
+        const u = new URL(raw.trim());
+        u.hash = '';
+        u.hostname = u.hostname.toLowerCase();
+        for (const k of [...u.searchParams.keys()]) if (k.toLowerCase().startsWith('utm_')) u.searchParams.delete(k);
+        return u.toString().replace(/\/(\?|$)/, '$1');
+    } catch {
+        return raw.trim();
+    }
+}
+
+export function aggregateClicks(events: CampaignEvent[]): LinkStat[] {
+    const byKey = new Map<string, LinkStat & { who: Set<string> }>();
+    for (const e of events) {
+        if (e.type !== 'clicked') continue;
+        const url = typeof e.meta?.url === 'string' ? e.meta.url : null;
+        if (!url) continue;
+        const key = linkKey(url);
+        let s = byKey.get(key);
+        if (!s) byKey.set(key, (s = { url, key, total: 0, unique: 0, firstAt: null, lastAt: null, who: new Set() }));
+        s.total++;
+        const who = e.recipient.email?.toLowerCase() ?? (e.recipient.id !== null ? `#${e.recipient.id}` : `event:${e.id}`);
+        s.who.add(who);
+        if (!s.firstAt || e.at < s.firstAt) s.firstAt = e.at;
+        if (!s.lastAt || e.at > s.lastAt) s.lastAt = e.at;
+    }
+    return [...byKey.values()]
+        .map(({ who, ...s }) => ({ ...s, unique: who.size }))
+        .sort((a, b) => b.total - a.total || a.url.localeCompare(b.url));
+}
+
+/** Yellow (few clicks) to red (most clicks). */
+export function heatColor(share: number, alpha = 1): string {
+    const hue = Math.round(50 - Math.min(1, Math.max(0, share)) * 50);
+    return `hsla(${hue}, 95%, 50%, ${alpha})`;
+}
+
+function decodeAttr(v: string) {
+    return v.replaceAll('&amp;', '&').replaceAll('&quot;', '"').replaceAll('&#39;', "'");
+}
+
+/**
+ * Outlines every tracked link in `html` and prefixes it with a badge showing its share of all clicks.
+ * `shares` is keyed by `linkKey`; links without clicks get a dashed outline so they still stand out.
+ */
+export function annotateLinks(html: string, shares: Map<string, number>): string {
+    const max = Math.max(0, ...shares.values());
+    return html.replace(/<a\b([^>]*?)\shref\s*=\s*(["'])([^"']*)\2([^>]*)>/gi, (tag, before: string, q: string, href: string, after: string) => {
+        if (!/^https?:/i.test(href.trim())) return tag;
+        const share = shares.get(linkKey(decodeAttr(href))) ?? 0;
+        const rel = max ? share / max : 0;
+        const outline = share
+            ? `outline:3px solid ${heatColor(rel, 0.9)};outline-offset:2px;background-color:${heatColor(rel, 0.15)};`
+            : 'outline:1px dashed #9ca3af;outline-offset:2px;';
+        const badge =
+            `<span style="display:inline-block;margin-right:4px;padding:1px 5px;border-radius:3px;font:bold 11px/1.4 Arial,sans-serif;` +
+            `color:#fff;background:${share ? heatColor(rel) : '#9ca3af'};text-decoration:none">${(share * 100).toFixed(1)}%</span>`;
+        const attrs = `${before} href=${q}${href}${q}${after}`;
+        const styled = /\sstyle\s*=\s*(["'])/i.test(attrs)
+            ? attrs.replace(/(\sstyle\s*=\s*)(["'])/i, `$1$2${outline}`)
+            : `${attrs} style="${outline}"`;
+        return `<a${styled}>${badge}`;
+    });
+}
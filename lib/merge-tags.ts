@@ -0,0 +1,226 @@
+// lib/merge-tags.ts
+// Merge-tag discovery (via the Handlebars AST) and validation against the company's contact schema.
+import type Handlebars from 'handlebars';
+import type { Contact } from '@/types/api';
+import type { LintSeverity } from '@/lib/email-lint';
+
+type HandlebarsModule = typeof Handlebars;
+
+export type MergeTagRef = {
+    path: string;
+    line: number;
+    /** Sits inside an {{#if}}/{{#unless}} on the same value (or a parent of it). */
+    guarded: boolean;
+    /** Resolved against an {{#each}}/{{#with}} context, so it can't be checked statically. */
+    scoped: boolean;
+    /** Printed as-is (`{{path}}`) rather than passed to a helper. */
+    rendered: boolean;
+};
+
+export type MergeTagIssue = {
+    path: string | null;
+    severity: LintSeverity;
+    message: string;
+    line: number;
+};
+
+export type MergeTagAnalysis = { refs: MergeTagRef[]; error: MergeTagIssue | null };
+
+export type MergeTagCategory = {
+    category: string;
+    tags: Array<{ key: string; label: string; icon: string }>;
+};
+
+/** Variables the sender fills for every message. */
+export const SYSTEM_TAGS = ['company.name', 'company.website', 'today', 'unsubscribe_url', 'view_in_browser_url'];
+
+/** Contact columns exposed to templates; `attributes` holds the company's custom fields. */
+export const CONTACT_FIELDS = ['email', 'name', 'status', 'locale', 'timezone'] as const;
+
+/** Always present on a contact, so they don't need a fallback. */
+const REQUIRED_CONTACT_FIELDS = new Set(['contact.email', 'contact.status']);
+
+const BUILTIN_HELPERS = new Set(['if', 'unless', 'each', 'with', 'lookup', 'log']);
+
+/* ------------------------------ Analysis ------------------------------ */
+
+type Scope = { guards: string[]; scoped: boolean };
+
+function pathOf(node: hbs.AST.Expression | hbs.AST.Literal, scope: Scope): { path: string; scoped: boolean } | null {
+    if (node.type !== 'PathExpression') return null;
+    const p = node as hbs.AST.PathExpression;
+    if (p.data) {
+        // @root.x is the top-level context; @index, @key, … are loop metadata
+        return p.parts[0] === 'root' && p.parts.length > 1 ? { path: p.parts.slice(1).join('.'), scoped: false } : null;
+    }
+    if (!p.parts.length) return null; // {{this}}, {{.}}
+    return { path: p.parts.join('.'), scoped: scope.scoped && p.depth === 0 };
+}
+
+/** Every variable reference in `source`, in document order. */
+export function analyzeMergeTags(hbsModule: HandlebarsModule, source: string): MergeTagAnalysis {
+    let program: hbs.AST.Program;
+    try {
+        program = hbsModule.parse(source);
+    } catch (e) {
+        const lines = (e as Error).message.split('\n');
+        const line = Number(/line (\d+)/i.exec(lines[0])?.[1] ?? 1);
+        // Handlebars puts a source excerpt between the headline and the expectation
+        const message = lines.length > 1 ? `${lines[0]} ${lines[lines.length - 1]}` : lines[0];
+        return { refs: [], error: { path: null, severity: 'error', message, line } };
+    }
+
+    const refs: MergeTagRef[] = [];
+
+    const ref = (node: hbs.AST.Expression, scope: Scope, rendered = false) => {
+        const r = pathOf(node, scope);
+        if (!r) return;
+        const guarded = scope.guards.some((g) => r.path === g || r.path.startsWith(`${g}.`));
+        refs.push({ path: r.path, line: node.loc.start.line, guarded, scoped: r.scoped, rendered });
+    };
+
+    const args = (params: hbs.AST.Expression[], hash: hbs.AST.Hash | undefined, scope: Scope) => {
+        for (const p of params) expr(p, scope);
+        for (const pair of hash?.pairs ?? []) expr(pair.value, scope);
+    };
+
+    const expr = (node: hbs.AST.Expression, scope: Scope) => {
+        if (node.type === 'SubExpression') {
+            const sub = node as hbs.AST.SubExpression;
+            args(sub.params, sub.hash, scope);
+        } else {
+            ref(node, scope);
+        }
+    };
+
+    const walk = (prog: hbs.AST.Program | undefined, scope: Scope) => {
+        for (const stmt of prog?.body ?? []) {
+            if (stmt.type === 'MustacheStatement') {
+                const m = stmt as hbs.AST.MustacheStatement;
+                // {{name}} is a lookup; {{helper a b}} passes a and b
+                if (m.params.length || m.hash?.pairs.length) args(m.params, m.hash, scope);
+                else ref(m.path as hbs.AST.Expression, scope, true);
+            } else if (stmt.type === 'BlockStatement') {
+                const b = stmt as hbs.AST.BlockStatement;
+                const helper = b.path.original;
+                const subject = b.params[0] ? pathOf(b.params[0], scope)?.path : undefined;
+                if (helper === 'if' || helper === 'unless') {
+                    // the condition itself is the check, so it counts as guarded too
+                    const guarded = subject ? { ...scope, guards: [...scope.guards, subject] } : scope;
+                    args(b.params, b.hash, guarded);
+                    walk(b.program, guarded);
+                    walk(b.inverse, scope);
+                } else if (helper === 'each' || helper === 'with' || !BUILTIN_HELPERS.has(helper)) {
+                    args(b.params, b.hash, scope);
+                    walk(b.program, { ...scope, scoped: true });
+                    walk(b.inverse, scope);
+                } else {
+                    args(b.params, b.hash, scope);
+                    walk(b.program, scope);
+                    walk(b.inverse, scope);
+                }
+            } else if (stmt.type === 'PartialStatement') {
+                const p = stmt as hbs.AST.PartialStatement;
+                args(p.params, p.hash, scope);
+            }
+        }
+    };
+
+    walk(program, { guards: [], scoped: false });
+    return { refs, error: null };
+}
+
+/* ------------------------------- Schema ------------------------------- */
+
+/** Every path a template may reference, given the company's custom attribute keys. */
+export function mergeTagSchema(attributeKeys: string[]): Set<string> {
+    return new Set([
+        ...SYSTEM_TAGS,
+        ...CONTACT_FIELDS.map((f) => `contact.${f}`),
+        ...attributeKeys.map((k) => `contact.attributes.${k}`),
+    ]);
+}
+
+/** Picker entries; the contact group follows the company's real fields. */
+export function mergeTagCatalog(attributeKeys: string[]): MergeTagCategory[] {
+    const label = (s: string) => s.replace(/[_-]+/g, ' ').replace(/^\w/, (c) => c.toUpperCase());
+    return [
+        {
+            category: 'Contact',
+            tags: [
+                { key: '{{contact.name}}', label: 'Name', icon: '👤' },
+                { key: '{{contact.email}}', label: 'Email', icon: '✉️' },
+                { key: '{{contact.locale}}', label: 'Locale', icon: '🌐' },
+                { key: '{{contact.timezone}}', label: 'Timezone', icon: '🕒' },
+            ],
+        },
+        ...(attributeKeys.length
+            ? [{ category: 'Custom Attributes', tags: attributeKeys.map((k) => ({ key: `{{contact.attributes.${k}}}`, label: label(k), icon: '🏷️' })) }]
+            : []),
+        {
+            category: 'Company',
+            tags: [
+                { key: '{{company.name}}', label: 'Company Name', icon: '🏢' },
+                { key: '{{company.website}}', label: 'Website', icon: '🌐' },
+            ],
+        },
+        {
+            category: 'System',
+            tags: [
+                { key: '{{today}}', label: "Today's Date", icon: '📅' },
+                { key: '{{unsubscribe_url}}', label: 'Unsubscribe Link', icon: '🔗' },
+                { key: '{{view_in_browser_url}}', label: 'Browser View Link', icon: '🔗' },
+            ],
+        },
+    ];
+}
+
+function suggestion(path: string, schema: Set<string>): string | null {
+    const leaf = path.split('.').pop();
+    const match = [...schema].find((known) => known !== path && known.split('.').pop() === leaf);
+    return match ?? null;
+}
+
+/** Unknown variables (warning) and optional contact values without an {{#if}} fallback (info). */
+export function validateMergeTags(refs: MergeTagRef[], schema: Set<string>): MergeTagIssue[] {
+    const issues: MergeTagIssue[] = [];
+    const seen = new Set<string>();
+
+    for (const r of refs) {
+        if (r.scoped) continue;
+        const known = schema.has(r.path) || [...schema].some((k) => k.startsWith(`${r.path}.`));
+        if (!known) {
+            const key = `unknown:${r.path}`;
+            if (seen.has(key)) continue;
+            seen.add(key);
+            const alt = suggestion(r.path, schema);
+            issues.push({
+                path: r.path,
+                severity: 'warning',
+                message: `{{${r.path}}} is not a contact field, custom attribute or system tag${alt ? `; did you mean {{${alt}}}?` : ''}`,
+                line: r.line,
+            });
+            continue;
+        }
+        if (r.rendered && r.path.startsWith('contact.') && !REQUIRED_CONTACT_FIELDS.has(r.path) && !r.guarded) {
+            const key = `fallback:${r.path}`;
+            if (seen.has(key)) continue;
+            seen.add(key);
+            issues.push({
+                path: r.path,
+                severity: 'info',
+                message: `{{${r.path}}} can be empty; wrap it in {{#if ${r.path}}}…{{else}}fallback{{/if}}`,
+                line: r.line,
+            });
+        }
+    }
+    return issues;
+}
+
+/* ------------------------------ Preview ------------------------------- */
+
+/** Preview data with `contact` replaced by a real contact, shaped the way templates see it. */
+export function contactPreviewData(contact: Contact, base: Record<string, unknown>): Record<string, unknown> {
+    const fields = Object.fromEntries(CONTACT_FIELDS.map((f) => [f, contact[f] ?? null]));
+    return { ...base, contact: { ...fields, attributes: contact.attributes ?? {} } };
+}
@@ -0,0 +1,48 @@
+// lib/mjml.ts
+// Client side of the MJML engine: calls the `/api/email/mjml` route handler.
+
+/** One MJML validation problem; `line` is 1-based in the submitted source. */
+export type MjmlIssue = { line: number; message: string; tagName: string };
+
+/** `html` is present whenever the source parsed, even if it has validation issues. */
+export type MjmlResult = { html?: string; errors?: MjmlIssue[]; error?: string };
+
+export const MJML_STARTER = `<mjml>
+  <mj-head>
+    <mj-title>{{company.name}}</mj-title>
+    <mj-preview>News from {{company.name}}</mj-preview>
+    <mj-attributes>
+      <mj-all font-family="Arial, Helvetica, sans-serif" />
+      <mj-text font-size="16px" line-height="1.5" color="#111827" />
+    </mj-attributes>
+  </mj-head>
+  <mj-body background-color="#f3f4f6">
+    <mj-section background-color="#ffffff" padding="24px">
+      <mj-column>
+        <mj-text>Hi {{contact.name}},</mj-text>
+        <mj-text>Write something great.</mj-text>
+        <mj-button href="https://example.com" background-color="#4f46e5">Call to action</mj-button>
+      </mj-column>
+    </mj-section>
+    <mj-section padding="16px">
+      <mj-column>
+        <mj-text align="center" font-size="12px" color="#6b7280">
+          <a href="{{unsubscribe_url}}" style="color:#6b7280">Unsubscribe</a>
+        </mj-text>
+      </mj-column>
+    </mj-section>
+  </mj-body>
+</mjml>
+`;
+
+export async function compileMjml(mjml: string, signal?: AbortSignal): Promise<MjmlResult> {
+    const res = await fetch('/api/email/mjml', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mjml }),
+        signal,
+    });
+    const payload = (await res.json().catch(() => null)) as MjmlResult | null;
+    if (!payload) throw new Error(`MJML compile failed (${res.status})`);
+    return payload;
+}
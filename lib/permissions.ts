@@ -0,0 +1,38 @@
+// lib/permissions.ts
+export const COMPANY_ROLES = ['owner', 'admin', 'member', 'billing', 'viewer'] as const;
+export type CompanyRole = (typeof COMPANY_ROLES)[number];
+
+export type Permission =
+    | 'company.manage'
+    | 'domain.manage'
+    | 'smtp.manage'
+    | 'apikey.manage'
+    | 'webhook.manage'
+    | 'billing.manage'
+    | 'users.manage';
+
+/** What each company role may change; anyone who belongs to the company can read. */
+const ROLE_PERMISSIONS: Record<CompanyRole, readonly Permission[]> = {
+    owner: ['company.manage', 'domain.manage', 'smtp.manage', 'apikey.manage', 'webhook.manage', 'billing.manage', 'users.manage'],
+    admin: ['company.manage', 'domain.manage', 'smtp.manage', 'apikey.manage', 'webhook.manage', 'users.manage'],
+    member: [],
+    billing: ['billing.manage'],
+    viewer: [],
+};
+
+export function isCompanyRole(role: string): role is CompanyRole {
+    return (COMPANY_ROLES as readonly string[]).includes(role);
+}
+
+export function hasPermission(roles: readonly string[], permission: Permission): boolean {
+    return roles.some((r) => isCompanyRole(r) && ROLE_PERMISSIONS[r].includes(permission));
+}
+
+/* --------------------------- Platform admin --------------------------- */
+
+const PLATFORM_ADMIN_ROLES = ['ROLE_ADMIN', 'ROLE_SUPER_ADMIN'];
+
+/** Platform-wide (not per-company) admin claim, as carried in the JWT `roles`. */
+export function isPlatformAdmin(roles: readonly string[] | null | undefined): boolean {
+    return !!roles?.some((r) => PLATFORM_ADMIN_ROLES.includes(r));
+}
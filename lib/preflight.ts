@@ -0,0 +1,363 @@
+// lib/preflight.ts
+// Campaign pre-flight: rule-based content, authentication and audience checks.
+// The rules are pure; `/api/campaigns/preflight` gathers the inputs from the backend and runs them.
+import { localRequest } from '@/lib/api';
+import type { CampaignVariant } from '@/types/api';
+import type { DomainAuthCheck, DomainDetail } from '@/types/domain';
+
+export type PreflightGroup = 'content' | 'authentication' | 'audience';
+export type PreflightStatus = 'pass' | 'warn' | 'fail';
+
+export type PreflightItem = {
+    id: string;
+    group: PreflightGroup;
+    status: PreflightStatus;
+    /** A failing blocking item prevents send and schedule. */
+    blocking: boolean;
+    title: string;
+    detail?: string;
+};
+
+export type PreflightReport = {
+    items: PreflightItem[];
+    /** Number of failing blocking items. */
+    blockers: number;
+    warnings: number;
+    checked_at: string;
+};
+
+export type PreflightRequest = {
+    hash: string;
+    subject: string | null;
+    template_id: number | null;
+    domain_id: number | null;
+    target: 'list' | 'segment';
+    list_id: number | null;
+    segment_id: number | null;
+    /** A/B variants; each one's own subject and template fall back to the campaign's. */
+    variants?: Array<Pick<CampaignVariant, 'key' | 'subject' | 'template_id'>> | null;
+};
+
+/** One message the campaign sends: the campaign itself, or an A/B variant (`key` set). */
+export type ContentTarget = { key: string | null; subject: string | null; template_id: number | null };
+
+/** Status counts over a sample of the target audience. */
+export type AudienceSample = { total: number; sampled: number; byStatus: Record<string, number> };
+
+export const PREFLIGHT_GROUP_LABELS: Record<PreflightGroup, string> = {
+    content: 'Content',
+    authentication: 'Authentication',
+    audience: 'Audience',
+};
+
+/* ------------------------------- Content ------------------------------ */
+
+const SPAM_PHRASES = [
+    '100% free',
+    'act now',
+    'apply now',
+    'as seen on',
+    'buy now',
+    'cash bonus',
+    'click here',
+    'congratulations',
+    'dear friend',
+    'double your',
+    'earn money',
+    'extra income',
+    'free gift',
+    'guaranteed',
+    'limited time',
+    'make money',
+    'no credit check',
+    'no obligation',
+    'order now',
+    'risk-free',
+    'urgent',
+    "you've been selected",
+    'winner',
+];
+
+const SHORTENERS = ['bit.ly', 'tinyurl.com', 'goo.gl', 't.co', 'ow.ly', 'is.gd', 'buff.ly', 'rebrand.ly', 'cutt.ly', 'shorturl.at', 'tiny.cc'];
+
+/** Below this many words per image, filters start treating the message as image-only. */
+const MIN_WORDS_PER_IMAGE = 60;
+
+function visibleText(html: string): string {
+    return html
+        .replace(/<(head|style|script)\b[\s\S]*?<\/\1>/gi, ' ')
+        .replace(/<!--[\s\S]*?-->/g, ' ')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&nbsp;|&#160;/gi, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+function hostOf(url: string): string | null {
+    try {
+        return new URL(/^[a-z][a-z0-9+.-]*:/i.test(url) ? url : `https://${url}`).hostname.replace(/^www\./, '').toLowerCase();
+    } catch {
+        return null;
+    }
+}
+
+function spamPhrases(s: string): string[] {
+    const lower = s.toLowerCase();
+    return SPAM_PHRASES.filter((p) => lower.includes(p));
+}
+
+export function contentChecks(input: { subject: string | null; html: string | null; text: string | null }): PreflightItem[] {
+    const items: PreflightItem[] = [];
+    const subject = (input.subject ?? '').trim();
+    const html = input.html ?? '';
+    const text = (input.text ?? '').trim();
+    const add = (item: Omit<PreflightItem, 'group'>) => items.push({ group: 'content', ...item });
+
+    // subject
+    if (!subject) {
+        add({ id: 'subject', status: 'fail', blocking: true, title: 'Subject line is empty' });
+    } else {
+        const letters = subject.replace(/[^a-z]/gi, '');
+        const upper = letters.replace(/[^A-Z]/g, '').length;
+        const shouting = letters.length >= 6 && upper / letters.length > 0.7;
+        const punctuation = /[!?]{2,}|\${2,}/.test(subject);
+        add({
+            id: 'subject-style',
+            status: shouting || punctuation ? 'warn' : 'pass',
+            blocking: false,
+            title: shouting ? 'Subject is mostly capital letters' : punctuation ? 'Subject has repeated !, ? or $' : 'Subject line looks fine',
+        });
+    }
+
+    if (!html.trim() && !text) {
+        add({ id: 'body', status: 'fail', blocking: true, title: 'The template has no content' });
+        return items;
+    }
+
+    // phrases
+    const phrases = [...new Set([...spamPhrases(subject), ...spamPhrases(visibleText(html)), ...spamPhrases(text)])];
+    add({
+        id: 'phrases',
+        status: phrases.length >= 3 ? 'warn' : 'pass',
+        blocking: false,
+        title: phrases.length ? `Spam-trigger phrases: ${phrases.join(', ')}` : 'No common spam-trigger phrases',
+        detail: phrases.length >= 3 ? 'Several trigger phrases together raise content-filter scores.' : undefined,
+    });
+
+    // unsubscribe
+    const hasUnsub = /\{\{\s*unsubscribe_url\s*\}\}/.test(html) || /\{\{\s*unsubscribe_url\s*\}\}/.test(text);
+    add({
+        id: 'unsubscribe',
+        status: hasUnsub ? 'pass' : 'fail',
+        blocking: true,
+        title: hasUnsub ? 'Unsubscribe link present' : 'No {{unsubscribe_url}} link',
+        detail: hasUnsub ? undefined : 'Bulk mail without a working unsubscribe link is rejected by Gmail and Yahoo.',
+    });
+
+    // image-to-text ratio
+    const images = (html.match(/<img\b/gi) ?? []).length;
+    const words = visibleText(html).split(' ').filter(Boolean).length;
+    if (images > 0) {
+        const low = words / images < MIN_WORDS_PER_IMAGE;
+        add({
+            id: 'image-ratio',
+            status: low ? 'warn' : 'pass',
+            blocking: false,
+            title: low ? `Image-heavy: ${images} image${images === 1 ? '' : 's'} for ${words} words` : 'Healthy image-to-text ratio',
+            detail: low ? 'Add more live text; messages that are mostly images are often filtered and unreadable with images off.' : undefined,
+        });
+    }
+
+    // links
+    const anchors = [...html.matchAll(/<a\b[^>]*\shref\s*=\s*(["'])(.*?)\1[^>]*>([\s\S]*?)<\/a>/gi)];
+    const hrefs = anchors.map((m) => m[2].trim()).filter((h) => /^https?:\/\//i.test(h));
+    const shortened = [...new Set(hrefs.map(hostOf).filter((h): h is string => !!h && SHORTENERS.includes(h)))];
+    add({
+        id: 'shorteners',
+        status: shortened.length ? 'warn' : 'pass',
+        blocking: false,
+        title: shortened.length ? `URL shorteners: ${shortened.join(', ')}` : 'No URL shorteners',
+        detail: shortened.length ? 'Shared shortener domains carry other senders’ reputation; link to your own domain.' : undefined,
+    });
+
+    const mismatched = anchors.flatMap((m) => {
+        const label = visibleText(m[3]);
+        if (!/^(https?:\/\/)?([a-z0-9-]+\.)+[a-z]{2,}(\/\S*)?$/i.test(label) || m[2].includes('{{')) return [];
+        const shown = hostOf(label);
+        const actual = hostOf(m[2]);
+        return shown && actual && shown !== actual ? [`${label} → ${actual}`] : [];
+    });
+    add({
+        id: 'link-mismatch',
+        status: mismatched.length ? 'fail' : 'pass',
+        blocking: false,
+        title: mismatched.length ? 'Link text shows a different domain than it opens' : 'Link text matches link targets',
+        detail: mismatched.length ? `${mismatched.slice(0, 3).join('; ')}. This is a classic phishing signal.` : undefined,
+    });
+
+    // text part
+    add({
+        id: 'text-part',
+        status: text ? 'pass' : 'warn',
+        blocking: false,
+        title: text ? 'Plain-text part present' : 'No plain-text part',
+        detail: text ? undefined : 'HTML-only messages score worse with several filters; generate one in the template editor.',
+    });
+
+    return items;
+}
+
+/** What each variant actually sends, after falling back to the campaign subject and template. */
+export function contentTargets(req: Pick<PreflightRequest, 'subject' | 'template_id' | 'variants'>): ContentTarget[] {
+    if (!req.variants?.length) return [{ key: null, subject: req.subject, template_id: req.template_id }];
+    return req.variants.map((v) => ({
+        key: v.key,
+        subject: (v.subject ?? '').trim() || req.subject,
+        template_id: v.template_id ?? req.template_id,
+    }));
+}
+
+/**
+ * Content checks for one target; `template` is null when it has none. Variant items get
+ * the variant key in their id and title so the checklist keeps them apart.
+ */
+export function targetContentChecks(target: ContentTarget, template: { html: string | null; text: string | null } | null): PreflightItem[] {
+    const items: PreflightItem[] = target.template_id
+        ? contentChecks({ subject: target.subject, html: template?.html ?? null, text: template?.text ?? null })
+        : [{ id: 'template', group: 'content', status: 'fail', blocking: true, title: 'No template selected' }];
+    if (target.key === null) return items;
+    return items.map((i) => ({ ...i, id: `${i.id}-${target.key}`, title: `Variant ${target.key}: ${i.title}` }));
+}
+
+/* ---------------------------- Authentication -------------------------- */
+
+function checkPassed(status: DomainAuthCheck['status'] | undefined): boolean | null {
+    const s = String(status ?? '').toLowerCase();
+    if (['pass', 'ok', 'valid', 'verified', 'active'].includes(s)) return true;
+    if (['fail', 'invalid', 'missing', 'error'].includes(s)) return false;
+    return null;
+}
+
+/** Reads the verification stored on the domain; re-running it is left to the domain page. */
+export function authenticationChecks(domain: DomainDetail | null): PreflightItem[] {
+    if (!domain) {
+        return [{ id: 'domain', group: 'authentication', status: 'fail', blocking: true, title: 'No sending domain selected' }];
+    }
+
+    const status = domain.statusDomain ?? domain.status;
+    const items: PreflightItem[] = [
+        {
+            id: 'domain',
+            group: 'authentication',
+            status: status === 'active' ? 'pass' : 'fail',
+            blocking: true,
+            title: status === 'active' ? `${domain.domain} is verified` : `${domain.domain} is not verified (${status ?? 'unknown'})`,
+        },
+    ];
+
+    const records = domain.records;
+    const rows: Array<{ id: string; label: string; status: DomainAuthCheck['status'] | undefined; blocking: boolean }> = [
+        { id: 'spf', label: 'SPF', status: records?.spf_status, blocking: true },
+        { id: 'dkim', label: 'DKIM', status: records?.dkim_status, blocking: true },
+        // DMARC is required for bulk senders, but a missing record degrades rather than stops delivery
+        { id: 'dmarc', label: 'DMARC', status: records?.dmarc_status, blocking: false },
+    ];
+    for (const r of rows) {
+        const ok = checkPassed(r.status);
+        const policy = r.id === 'dmarc' && records?.dmarc_policy ? ` (p=${records.dmarc_policy})` : '';
+        items.push({
+            id: r.id,
+            group: 'authentication',
+            status: ok === true ? 'pass' : ok === false ? 'fail' : 'warn',
+            blocking: r.blocking && ok === false,
+            title: ok === true ? `${r.label} passes${policy}` : ok === false ? `${r.label} fails` : `${r.label} could not be checked`,
+            detail:
+                ok !== null
+                    ? undefined
+                    : r.status
+                      ? `The last verification reported “${r.status}”; verify the domain again once DNS has propagated.`
+                      : `${domain.domain} has no stored ${r.label} result; run a verification from the domain page.`,
+        });
+    }
+    return items;
+}
+
+/* ------------------------------- Audience ----------------------------- */
+
+/** Gmail's published complaint-rate ceiling for bulk senders. */
+const COMPLAINT_LIMIT = 0.003;
+const BOUNCE_WARN = 0.02;
+/** Past this share of known-bad addresses the send is held back. */
+const BAD_BLOCK = 0.1;
+
+function pct(x: number) {
+    return `${(x * 100).toFixed(x < 0.01 ? 2 : 1)}%`;
+}
+
+export function audienceChecks(sample: AudienceSample | null): PreflightItem[] {
+    if (!sample) {
+        return [{ id: 'audience', group: 'audience', status: 'fail', blocking: true, title: 'No list or segment selected' }];
+    }
+    if (sample.total === 0) {
+        return [{ id: 'audience', group: 'audience', status: 'fail', blocking: true, title: 'The target audience is empty' }];
+    }
+
+    const n = Math.max(sample.sampled, 1);
+    const share = (s: string) => (sample.byStatus[s] ?? 0) / n;
+    const bounced = share('bounced');
+    const complained = share('complained');
+    const unsubscribed = share('unsubscribed');
+    const basis = sample.sampled < sample.total ? ` (sample of ${sample.sampled.toLocaleString()} of ${sample.total.toLocaleString()})` : '';
+
+    return [
+        {
+            id: 'audience',
+            group: 'audience',
+            status: 'pass',
+            blocking: false,
+            title: `${sample.total.toLocaleString()} contacts targeted`,
+        },
+        {
+            id: 'bounced',
+            group: 'audience',
+            status: bounced + complained > BAD_BLOCK ? 'fail' : bounced > BOUNCE_WARN ? 'warn' : 'pass',
+            blocking: bounced + complained > BAD_BLOCK,
+            title: `${pct(bounced)} bounced contacts${basis}`,
+            detail: bounced > BOUNCE_WARN ? 'Clean the list before sending; high bounce rates damage domain reputation.' : undefined,
+        },
+        {
+            id: 'complained',
+            group: 'audience',
+            status: complained > COMPLAINT_LIMIT ? 'warn' : 'pass',
+            blocking: false,
+            title: `${pct(complained)} contacts who complained${basis}`,
+            detail: complained > COMPLAINT_LIMIT ? 'Above the 0.3% complaint rate mailbox providers tolerate.' : undefined,
+        },
+        ...(unsubscribed > 0
+            ? [
+                  {
+                      id: 'unsubscribed',
+                      group: 'audience' as const,
+                      status: 'warn' as const,
+                      blocking: false,
+                      title: `${pct(unsubscribed)} unsubscribed contacts will be skipped`,
+                  },
+              ]
+            : []),
+    ];
+}
+
+export function buildReport(items: PreflightItem[]): PreflightReport {
+    return {
+        items,
+        blockers: items.filter((i) => i.blocking && i.status === 'fail').length,
+        warnings: items.filter((i) => i.status === 'warn' || (i.status === 'fail' && !i.blocking)).length,
+        checked_at: new Date().toISOString(),
+    };
+}
+
+/* -------------------------------- Client ------------------------------ */
+
+export function runPreflight(body: PreflightRequest, signal?: AbortSignal): Promise<PreflightReport> {
+    return localRequest<PreflightReport>('/api/campaigns/preflight', { method: 'POST', body, signal });
+}
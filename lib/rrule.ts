@@ -0,0 +1,467 @@
+// lib/rrule.ts
+// The iCalendar (RFC 5545) recurrence subset recurring campaigns use: DAILY/WEEKLY/MONTHLY with INTERVAL,
+// BYDAY, BYMONTHDAY, BYSETPOS, COUNT and UNTIL, anchored by a `DTSTART;TZID=` line. Parsing, expansion and wording.
+import { isValidTimeZone, wallClock, zonedInstant } from '@/lib/send-time';
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+/** `n` picks the nth such weekday of the month (negative counts from the end); 0 means every one. */
+export type ByDay = { day: Weekday; n: number };
+
+export type RecurrenceRule = {
+    freq: Frequency;
+    interval: number;
+    byDay: ByDay[];
+    byMonthDay: number[];
+    bySetPos: number[];
+    count: number | null;
+    /** Last local date (inclusive), 'YYYY-MM-DD'. */
+    until: string | null;
+    /** First local date and send time, 'YYYY-MM-DDTHH:MM'; occurrences keep its time of day. */
+    start: string;
+    timezone: string;
+};
+
+export const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+export const BUSINESS_DAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR'];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+    MO: 'Monday',
+    TU: 'Tuesday',
+    WE: 'Wednesday',
+    TH: 'Thursday',
+    FR: 'Friday',
+    SA: 'Saturday',
+    SU: 'Sunday',
+};
+
+export const FREQUENCY_UNITS: Record<Frequency, [string, string]> = {
+    DAILY: ['day', 'days'],
+    WEEKLY: ['week', 'weeks'],
+    MONTHLY: ['month', 'months'],
+};
+
+const DAY = 86_400_000;
+/** Periods scanned before giving up on finding more occurrences. */
+const MAX_PERIODS = 5000;
+
+/* ------------------------------- Calendar ------------------------------ */
+
+function dayNumber(y: number, m: number, d: number) {
+    return Date.UTC(y, m - 1, d) / DAY;
+}
+
+function ymd(n: number) {
+    const d = new Date(n * DAY);
+    return { y: d.getUTCFullYear(), m: d.getUTCMonth() + 1, d: d.getUTCDate() };
+}
+
+/** 0 = Monday. */
+function weekdayIndex(n: number) {
+    return (new Date(n * DAY).getUTCDay() + 6) % 7;
+}
+
+function daysInMonth(y: number, m: number) {
+    return new Date(Date.UTC(y, m, 0)).getUTCDate();
+}
+
+const pad = (n: number, w = 2) => String(n).padStart(w, '0');
+
+function parseStart(start: string) {
+    const m = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/.exec(start);
+    if (!m) return null;
+    const [y, mo, d, h, mi] = m.slice(1).map(Number);
+    if (mo < 1 || mo > 12 || d < 1 || d > daysInMonth(y, mo) || h > 23 || mi > 59) return null;
+    return { y, mo, d, h, mi };
+}
+
+function parseDate(date: string) {
+    const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+    return m ? dayNumber(+m[1], +m[2], +m[3]) : NaN;
+}
+
+/* -------------------------------- Text -------------------------------- */
+
+/** 'YYYYMMDD' + optional 'THHMMSS' + optional 'Z'. */
+function parseIcalDateTime(v: string) {
+    const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(v.trim());
+    if (!m) return null;
+    return { y: +m[1], mo: +m[2], d: +m[3], h: +(m[4] ?? 0), mi: +(m[5] ?? 0), utc: !!m[7] };
+}
+
+function intList(v: string, name: string): number[] {
+    return v.split(',').map((x) => {
+        const n = Number(x);
+        if (!Number.isInteger(n) || n === 0) throw new Error(`${name} has an invalid value “${x}”.`);
+        return n;
+    });
+}
+
+/**
+ * Reads a `DTSTART` line and an `RRULE:` line. Without `TZID`, `DTSTART` is read in `fallbackTz` (converted first when it ends in Z).
+ * Throws with a readable message on anything outside the supported subset.
+ */
+export function parseRecurrence(text: string, fallbackTz = 'UTC'): RecurrenceRule {
+    const lines = text
+        .split(/\r?\n/)
+        .map((l) => l.trim())
+        .filter(Boolean);
+    const dtLine = lines.find((l) => /^DTSTART[;:]/i.test(l));
+    const ruleLine = lines.find((l) => /^RRULE:/i.test(l)) ?? lines.find((l) => /^FREQ=/i.test(l));
+    if (!dtLine) throw new Error('Missing DTSTART line.');
+    if (!ruleLine) throw new Error('Missing RRULE line.');
+
+    const [dtHead, dtValue = ''] = dtLine.split(':', 2);
+    const tzid = /TZID=([^;:]+)/i.exec(dtHead)?.[1];
+    const dt = parseIcalDateTime(dtValue);
+    if (!dt) throw new Error('DTSTART is not a valid date-time.');
+    const timezone = tzid ?? fallbackTz;
+    if (!isValidTimeZone(timezone)) throw new Error(`Unknown timezone “${timezone}”.`);
+    let start = `${dt.y}-${pad(dt.mo)}-${pad(dt.d)}T${pad(dt.h)}:${pad(dt.mi)}`;
+    if (dt.utc) {
+        if (tzid) throw new Error('DTSTART cannot have both TZID and a Z suffix.');
+        const w = wallClock(Date.UTC(dt.y, dt.mo - 1, dt.d, dt.h, dt.mi), timezone);
+        start = `${w.y}-${pad(w.mo)}-${pad(w.d)}T${pad(w.h)}:${pad(w.mi)}`;
+    }
+    if (!parseStart(start)) throw new Error('DTSTART is not a valid date-time.');
+
+    const rule: RecurrenceRule = {
+        freq: 'WEEKLY',
+        interval: 1,
+        byDay: [],
+        byMonthDay: [],
+        bySetPos: [],
+        count: null,
+        until: null,
+        start,
+        timezone,
+    };
+    let freq: Frequency | null = null;
+    for (const part of ruleLine.replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+        const [rawKey, value = ''] = part.split('=', 2);
+        const key = rawKey.toUpperCase();
+        const v = value.toUpperCase();
+        switch (key) {
+            case 'FREQ':
+                if (v !== 'DAILY' && v !== 'WEEKLY' && v !== 'MONTHLY') throw new Error(`FREQ=${value} is not supported; use DAILY, WEEKLY or MONTHLY.`);
+                freq = v;
+                break;
+            case 'INTERVAL':
+                rule.interval = Number(v);
+                break;
+            case 'BYDAY':
+                rule.byDay = v.split(',').map((x) => {
+                    const m = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(x);
+                    if (!m) throw new Error(`BYDAY has an invalid value “${x}”.`);
+                    return { day: m[2] as Weekday, n: m[1] ? Number(m[1]) : 0 };
+                });
+                break;
+            case 'BYMONTHDAY':
+                rule.byMonthDay = intList(v, 'BYMONTHDAY');
+                break;
+            case 'BYSETPOS':
+                rule.bySetPos = intList(v, 'BYSETPOS');
+                break;
+            case 'COUNT':
+                rule.count = Number(v);
+                break;
+            case 'UNTIL': {
+                const u = parseIcalDateTime(v);
+                if (!u) throw new Error('UNTIL is not a valid date.');
+                const local = u.utc ? wallClock(Date.UTC(u.y, u.mo - 1, u.d, u.h, u.mi), timezone) : { y: u.y, mo: u.mo, d: u.d };
+                rule.until = `${local.y}-${pad(local.mo)}-${pad(local.d)}`;
+                break;
+            }
+            case 'WKST':
+                if (v !== 'MO') throw new Error('Only WKST=MO is supported.');
+                break;
+            default:
+                throw new Error(`${key} is not supported by the schedule builder.`);
+        }
+    }
+    if (!freq) throw new Error('RRULE needs a FREQ.');
+    rule.freq = freq;
+    const problem = ruleProblem(rule);
+    if (problem) throw new Error(problem);
+    return rule;
+}
+
+/** Canonical two-line form; UNTIL is written as the end of that local day in UTC, as RFC 5545 requires with TZID. */
+export function formatRecurrence(rule: RecurrenceRule): string {
+    const s = parseStart(rule.start);
+    const dtstart = s ? `${s.y}${pad(s.mo)}${pad(s.d)}T${pad(s.h)}${pad(s.mi)}00` : rule.start;
+    const parts = [`FREQ=${rule.freq}`];
+    if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+    if (rule.byDay.length) parts.push(`BYDAY=${rule.byDay.map((b) => `${b.n || ''}${b.day}`).join(',')}`);
+    if (rule.byMonthDay.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+    if (rule.bySetPos.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+    if (rule.count) parts.push(`COUNT=${rule.count}`);
+    else if (rule.until) {
+        const u = ymd(parseDate(rule.until));
+        const end = new Date(zonedInstant(u.y, u.m, u.d, 23, 59, rule.timezone) + 59_000);
+        parts.push(`UNTIL=${end.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+    }
+    return `DTSTART;TZID=${rule.timezone}:${dtstart}\nRRULE:${parts.join(';')}`;
+}
+
+function ruleProblem(rule: RecurrenceRule): string | null {
+    if (!parseStart(rule.start)) return 'Pick a valid start date and time.';
+    if (!isValidTimeZone(rule.timezone)) return `Unknown timezone “${rule.timezone}”.`;
+    if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > 99) return 'The interval must be between 1 and 99.';
+    // daily expansion ignores BYDAY and BYSETPOS, so the preview would disagree with the stored rule
+    if (rule.freq === 'DAILY' && (rule.byDay.length || rule.bySetPos.length))
+        return 'Daily rules cannot pick weekdays; use a weekly rule with those days instead.';
+    if (rule.byDay.some((b) => b.n !== 0 && (rule.freq !== 'MONTHLY' || Math.abs(b.n) > 5)))
+        return 'Numbered weekdays (like 1MO or -1FR) only work with monthly rules, from -5 to 5.';
+    if (rule.byMonthDay.length && rule.freq !== 'MONTHLY') return 'BYMONTHDAY only works with monthly rules.';
+    if (rule.byMonthDay.some((d) => Math.abs(d) > 31)) return 'Days of the month must be between -31 and 31.';
+    if (rule.bySetPos.some((p) => Math.abs(p) > 31)) return 'BYSETPOS must be between -31 and 31.';
+    if (rule.freq === 'WEEKLY' && rule.byDay.length === 0) return 'Pick at least one weekday.';
+    // RFC 5545 forbids both, and which one a server honours is undefined
+    if (rule.count !== null && rule.until !== null) return 'End after a number of sends or on a date, not both (COUNT and UNTIL).';
+    if (rule.count !== null && (!Number.isInteger(rule.count) || rule.count < 1 || rule.count > 1000))
+        return 'The number of sends must be between 1 and 1000.';
+    if (rule.until !== null) {
+        const until = parseDate(rule.until);
+        if (Number.isNaN(until)) return 'Pick a valid end date.';
+        if (until < parseDate(rule.start.slice(0, 10))) return 'The end date is before the start date.';
+    }
+    return null;
+}
+
+/* ------------------------------ Expansion ----------------------------- */
+
+function pickSetPos(days: number[], pos: number[]): number[] {
+    if (!pos.length) return days;
+    const out = pos.map((p) => days[p > 0 ? p - 1 : days.length + p]).filter((d): d is number => d !== undefined);
+    return [...new Set(out)].sort((a, b) => a - b);
+}
+
+/** Candidate local days of the `p`-th period after the one containing the start date. */
+function periodDays(rule: RecurrenceRule, startDay: number, p: number): number[] {
+    const step = p * rule.interval;
+    if (rule.freq === 'DAILY') return [startDay + step];
+    if (rule.freq === 'WEEKLY') {
+        const monday = startDay - weekdayIndex(startDay) + step * 7;
+        const days = rule.byDay.map((b) => monday + WEEKDAYS.indexOf(b.day));
+        return pickSetPos([...new Set(days)].sort((a, b) => a - b), rule.bySetPos);
+    }
+
+    const s = ymd(startDay);
+    const monthIndex = s.m - 1 + step;
+    const y = s.y + Math.floor(monthIndex / 12);
+    const m = (monthIndex % 12) + 1;
+    const dim = daysInMonth(y, m);
+    const first = dayNumber(y, m, 1);
+
+    const fromMonthDays = rule.byMonthDay.map((md) => (md > 0 ? md : dim + md + 1)).filter((d) => d >= 1 && d <= dim);
+    const fromWeekdays = rule.byDay.flatMap((b) => {
+        const all: number[] = [];
+        for (let d = first + ((WEEKDAYS.indexOf(b.day) - weekdayIndex(first) + 7) % 7); d < first + dim; d += 7) all.push(d);
+        if (b.n === 0) return all;
+        const hit = all[b.n > 0 ? b.n - 1 : all.length + b.n];
+        return hit === undefined ? [] : [hit];
+    });
+
+    let days: number[];
+    if (rule.byMonthDay.length && rule.byDay.length) {
+        const md = new Set(fromMonthDays.map((d) => first + d - 1));
+        days = fromWeekdays.filter((d) => md.has(d));
+    } else if (rule.byMonthDay.length) {
+        days = fromMonthDays.map((d) => first + d - 1);
+    } else if (rule.byDay.length) {
+        days = fromWeekdays;
+    } else {
+        days = s.d <= dim ? [first + s.d - 1] : [];
+    }
+    return pickSetPos([...new Set(days)].sort((a, b) => a - b), rule.bySetPos);
+}
+
+/**
+ * The next `limit` send instants at or after `from` (ms), in order. Like most RRULE engines, DTSTART itself only
+ * counts when it matches the rule; COUNT is counted from DTSTART, including occurrences before `from`.
+ */
+export function nextOccurrences(rule: RecurrenceRule, from: number, limit: number): number[] {
+    const s = parseStart(rule.start);
+    if (!s || ruleProblem(rule)) return [];
+    const startDay = dayNumber(s.y, s.mo, s.d);
+    const untilDay = rule.until ? parseDate(rule.until) : Infinity;
+    const out: number[] = [];
+    let seen = 0;
+    for (let p = 0; p < MAX_PERIODS; p++) {
+        for (const day of periodDays(rule, startDay, p)) {
+            if (day < startDay) continue;
+            if (day > untilDay) return out;
+            if (rule.count !== null && ++seen > rule.count) return out;
+            const d = ymd(day);
+            const at = zonedInstant(d.y, d.m, d.d, s.h, s.mi, rule.timezone);
+            if (at >= from) {
+                out.push(at);
+                if (out.length >= limit) return out;
+            }
+        }
+    }
+    return out;
+}
+
+/** Message for the first problem in an RRULE text, or null when it parses and still has a send ahead. */
+export function validateRecurrence(text: string, now = Date.now()): string | null {
+    try {
+        const rule = parseRecurrence(text);
+        return nextOccurrences(rule, now, 1).length ? null : 'This schedule has no sends left in the future.';
+    } catch (e) {
+        return e instanceof Error ? e.message : String(e);
+    }
+}
+
+/** ISO instant of the next send of an RRULE text, or null when it does not parse or has no sends left. */
+export function nextOccurrenceAt(text: string, now = Date.now()): string | null {
+    try {
+        const [at] = nextOccurrences(parseRecurrence(text), now, 1);
+        return at === undefined ? null : new Date(at).toISOString();
+    } catch {
+        return null;
+    }
+}
+
+/* ------------------------------- Wording ------------------------------ */
+
+const ORDINALS: Record<string, string> = {
+    '1': 'first',
+    '2': 'second',
+    '3': 'third',
+    '4': 'fourth',
+    '5': 'fifth',
+    '-1': 'last',
+    '-2': 'second-to-last',
+};
+
+export function ordinal(n: number): string {
+    return ORDINALS[String(n)] ?? `#${n}`;
+}
+
+function joinWords(xs: string[]) {
+    return xs.length <= 1 ? xs.join('') : `${xs.slice(0, -1).join(', ')} and ${xs[xs.length - 1]}`;
+}
+
+function sameDays(a: ByDay[], b: Weekday[]) {
+    return a.length === b.length && a.every((x) => x.n === 0 && b.includes(x.day));
+}
+
+/** "Business day" rules: every weekday of the month narrowed by BYSETPOS to one position. */
+export function isBusinessDayRule(rule: RecurrenceRule): boolean {
+    return rule.freq === 'MONTHLY' && sameDays(rule.byDay, BUSINESS_DAYS) && rule.bySetPos.length === 1 && !rule.byMonthDay.length;
+}
+
+export type MonthlyMode = 'day' | 'weekday' | 'business' | 'custom';
+
+/** Which of the builder's monthly forms a rule matches; anything else can only be edited as text. */
+export function monthlyMode(rule: RecurrenceRule): MonthlyMode {
+    if (isBusinessDayRule(rule)) return 'business';
+    if (rule.bySetPos.length) return 'custom';
+    if (rule.byDay.length === 1 && rule.byDay[0].n !== 0 && !rule.byMonthDay.length) return 'weekday';
+    if (rule.byMonthDay.length === 1 && !rule.byDay.length) return 'day';
+    if (!rule.byDay.length && !rule.byMonthDay.length) return 'day';
+    return 'custom';
+}
+
+/** Weekday of a 'YYYY-MM-DD…' local date. */
+export function weekdayOf(date: string): Weekday {
+    return WEEKDAYS[weekdayIndex(parseDate(date.slice(0, 10)))] ?? 'MO';
+}
+
+function dayOfMonth(n: number) {
+    if (n === -1) return 'the last day';
+    if (n < 0) return `${-n} days before the end of the month`;
+    const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th';
+    return `the ${n}${suffix}`;
+}
+
+/** Plain-English summary, e.g. "Every Monday at 09:00 (Europe/Paris)". */
+export function describeRecurrence(rule: RecurrenceRule): string {
+    const [one, many] = FREQUENCY_UNITS[rule.freq];
+    const every = rule.interval > 1 ? `Every ${rule.interval} ${many}` : '';
+    let what: string;
+
+    if (rule.freq === 'DAILY') {
+        what = every || 'Every day';
+    } else if (rule.freq === 'WEEKLY') {
+        const days = sameDays(rule.byDay, BUSINESS_DAYS)
+            ? 'weekday'
+            : joinWords(WEEKDAYS.filter((d) => rule.byDay.some((b) => b.day === d)).map((d) => WEEKDAY_LABELS[d]));
+        what = every ? `${every} on ${days === 'weekday' ? 'weekdays' : days}` : `Every ${days}`;
+    } else {
+        let on: string;
+        if (isBusinessDayRule(rule)) on = `the ${ordinal(rule.bySetPos[0])} business day`;
+        else if (rule.byDay.length && !rule.byMonthDay.length && !rule.bySetPos.length && rule.byDay.every((b) => b.n !== 0))
+            on = joinWords(rule.byDay.map((b) => `the ${ordinal(b.n)} ${WEEKDAY_LABELS[b.day]}`));
+        else if (rule.byMonthDay.length && !rule.byDay.length && !rule.bySetPos.length)
+            on = joinWords(rule.byMonthDay.map(dayOfMonth));
+        else if (!rule.byDay.length && !rule.byMonthDay.length) on = dayOfMonth(Number(rule.start.slice(8, 10)));
+        else on = 'a custom set of days';
+        what = `${every || `Every ${one}`} on ${on}`;
+    }
+
+    const time = rule.start.slice(11, 16);
+    let end = '';
+    if (rule.count) end = `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+    else if (rule.until) end = `, until ${rule.until}`;
+    return `${what} at ${time} (${rule.timezone})${end}`;
+}
+
+/** "Mon, Oct 19, 2026, 09:00" on the wall clock in `tz`. */
+export function formatOccurrence(at: number | string, tz: string): string {
+    return new Intl.DateTimeFormat('en-US', {
+        timeZone: tz,
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+    }).format(typeof at === 'string' ? Date.parse(at) : at);
+}
+
+/* ------------------------------- Presets ------------------------------ */
+
+/** Weekly on Mondays at 09:00, starting today in `tz`. */
+export function defaultRecurrence(tz: string, now = Date.now()): RecurrenceRule {
+    const w = wallClock(now, tz);
+    return {
+        freq: 'WEEKLY',
+        interval: 1,
+        byDay: [{ day: 'MO', n: 0 }],
+        byMonthDay: [],
+        bySetPos: [],
+        count: null,
+        until: null,
+        start: `${w.y}-${pad(w.mo)}-${pad(w.d)}T09:00`,
+        timezone: tz,
+    };
+}
+
+/** One-click starting points for the builder; they keep the start date, time and timezone. */
+export const RECURRENCE_PRESETS: Array<{ id: string; label: string; apply: (r: RecurrenceRule) => RecurrenceRule }> = [
+    {
+        id: 'weekly-monday',
+        label: 'Weekly digest (Mondays)',
+        apply: (r) => ({ ...r, freq: 'WEEKLY', interval: 1, byDay: [{ day: 'MO', n: 0 }], byMonthDay: [], bySetPos: [] }),
+    },
+    {
+        id: 'weekdays',
+        label: 'Every weekday',
+        apply: (r) => ({ ...r, freq: 'WEEKLY', interval: 1, byDay: BUSINESS_DAYS.map((day) => ({ day, n: 0 })), byMonthDay: [], bySetPos: [] }),
+    },
+    {
+        id: 'first-business-day',
+        label: 'First business day of the month',
+        apply: (r) => ({ ...r, freq: 'MONTHLY', interval: 1, byDay: BUSINESS_DAYS.map((day) => ({ day, n: 0 })), byMonthDay: [], bySetPos: [1] }),
+    },
+    {
+        id: 'monthly-first',
+        label: 'Monthly on the 1st',
+        apply: (r) => ({ ...r, freq: 'MONTHLY', interval: 1, byDay: [], byMonthDay: [1], bySetPos: [] }),
+    },
+];
@@ -0,0 +1,482 @@
+// lib/segment-rules/rules.ts
+// Field catalog, parsing to and from stored definitions, tree operations and checks for segment rule trees.
+import type {
+    ConditionRule,
+    ContactField,
+    EngagementEvent,
+    EventRule,
+    LegacyDefinition,
+    ListRule,
+    RuleGroup,
+    RuleOperator,
+    SegmentDefinition,
+    SegmentRule,
+} from '@/types/segment-rules';
+
+/* ------------------------------- Catalog ------------------------------ */
+
+/** How a field's values compare; custom attributes are untyped and allow every operator. */
+export type FieldType = 'text' | 'status' | 'date' | 'attribute';
+
+export const CONTACT_FIELDS: Array<{ field: ContactField; label: string; type: FieldType }> = [
+    { field: 'email', label: 'Email', type: 'text' },
+    { field: 'name', label: 'Name', type: 'text' },
+    { field: 'status', label: 'Status', type: 'status' },
+    { field: 'locale', label: 'Locale', type: 'text' },
+    { field: 'timezone', label: 'Timezone', type: 'text' },
+    { field: 'gdpr_consent_at', label: 'GDPR consent date', type: 'date' },
+    { field: 'created_at', label: 'Created', type: 'date' },
+];
+
+export const CONTACT_STATUSES = ['subscribed', 'unsubscribed', 'bounced', 'complained'];
+
+export const OPERATOR_LABELS: Record<RuleOperator, string> = {
+    equals: 'equals',
+    not_equals: 'does not equal',
+    contains: 'contains',
+    not_contains: 'does not contain',
+    starts_with: 'starts with',
+    ends_with: 'ends with',
+    regex: 'matches regex',
+    gt: '>',
+    gte: '≥',
+    lt: '<',
+    lte: '≤',
+    before: 'is before',
+    after: 'is after',
+    in_last_days: 'in the last N days',
+    not_in_last_days: 'not in the last N days',
+    is_empty: 'is empty',
+    is_not_empty: 'is not empty',
+};
+
+const TEXT_OPS: RuleOperator[] = ['equals', 'not_equals', 'contains', 'not_contains', 'starts_with', 'ends_with', 'regex'];
+const NUMBER_OPS: RuleOperator[] = ['gt', 'gte', 'lt', 'lte'];
+const DATE_OPS: RuleOperator[] = ['before', 'after', 'in_last_days', 'not_in_last_days'];
+const EMPTY_OPS: RuleOperator[] = ['is_empty', 'is_not_empty'];
+const ALL_OPS = Object.keys(OPERATOR_LABELS) as RuleOperator[];
+
+const OPERATORS_BY_TYPE: Record<FieldType, RuleOperator[]> = {
+    text: [...TEXT_OPS, ...EMPTY_OPS],
+    status: ['equals', 'not_equals'],
+    date: [...DATE_OPS, ...EMPTY_OPS],
+    attribute: [...TEXT_OPS, ...NUMBER_OPS, ...DATE_OPS, ...EMPTY_OPS],
+};
+
+export const EVENT_VERBS: Record<EngagementEvent, string> = {
+    delivered: 'received',
+    opened: 'opened',
+    clicked: 'clicked',
+    bounced: 'bounced',
+};
+
+export const MATCH_LABELS: Record<EventRule['match'], string> = {
+    any: 'at least once',
+    none: 'never',
+    at_least: 'at least N times',
+    fewer_than: 'fewer than N times',
+};
+
+const ENGAGEMENT_EVENTS = Object.keys(EVENT_VERBS) as EngagementEvent[];
+const EVENT_MATCHES = Object.keys(MATCH_LABELS) as Array<EventRule['match']>;
+
+/** What the value input of an operator takes. */
+export type ValueKind = 'none' | 'text' | 'number' | 'days' | 'date';
+
+export function valueKind(op: RuleOperator): ValueKind {
+    if (EMPTY_OPS.includes(op)) return 'none';
+    if (NUMBER_OPS.includes(op)) return 'number';
+    if (op === 'in_last_days' || op === 'not_in_last_days') return 'days';
+    if (op === 'before' || op === 'after') return 'date';
+    return 'text';
+}
+
+export function isAttributeField(field: string): field is `attributes.${string}` {
+    return field.startsWith('attributes.');
+}
+
+export function fieldType(field: string): FieldType {
+    if (isAttributeField(field)) return 'attribute';
+    return CONTACT_FIELDS.find((f) => f.field === field)?.type ?? 'text';
+}
+
+export function fieldLabel(field: string): string {
+    if (isAttributeField(field)) return field.slice('attributes.'.length);
+    return CONTACT_FIELDS.find((f) => f.field === field)?.label ?? field;
+}
+
+export function operatorsFor(field: string): RuleOperator[] {
+    return OPERATORS_BY_TYPE[fieldType(field)];
+}
+
+/* ------------------------------ Factories ----------------------------- */
+
+export function ruleId(): string {
+    return `rl_${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function createCondition(field: ConditionRule['field'] = 'email'): ConditionRule {
+    const operator = operatorsFor(field)[0];
+    return { type: 'condition', id: ruleId(), field, operator, value: field === 'status' ? 'subscribed' : defaultValue(operator) };
+}
+
+export function createListRule(): ListRule {
+    return { type: 'list', id: ruleId(), operator: 'in_any', list_ids: [] };
+}
+
+export function createEventRule(event: EngagementEvent = 'opened', match: EventRule['match'] = 'any', within_days: number | null = 90): EventRule {
+    return { type: 'event', id: ruleId(), event, match, count: null, campaign_id: null, within_days, url_pattern: null };
+}
+
+export function createGroup(combinator: 'and' | 'or' = 'and', rules: SegmentRule[] = []): RuleGroup {
+    return { type: 'group', id: ruleId(), combinator, negate: false, rules };
+}
+
+export function defaultValue(op: RuleOperator): ConditionRule['value'] {
+    switch (valueKind(op)) {
+        case 'none':
+            return null;
+        case 'number':
+            return 0;
+        case 'days':
+            return 30;
+        default:
+            return '';
+    }
+}
+
+/** Keeps the value when the new operator takes the same kind of input. */
+export function withOperator(rule: ConditionRule, operator: RuleOperator): ConditionRule {
+    const same = valueKind(operator) === valueKind(rule.operator);
+    return { ...rule, operator, value: same ? rule.value : defaultValue(operator) };
+}
+
+/** Resets the operator when the new field does not support it. */
+export function withField(rule: ConditionRule, field: ConditionRule['field']): ConditionRule {
+    if (field === 'status') return { ...rule, field, operator: 'equals', value: 'subscribed' };
+    const ops = operatorsFor(field);
+    if (rule.field === 'status' || !ops.includes(rule.operator)) return { ...rule, field, operator: ops[0], value: defaultValue(ops[0]) };
+    return { ...rule, field };
+}
+
+/** Count applies to the counting matches only; the URL pattern to clicks only. */
+export function withMatch(rule: EventRule, match: EventRule['match']): EventRule {
+    const counting = match === 'at_least' || match === 'fewer_than';
+    return { ...rule, match, count: counting ? rule.count ?? 3 : null };
+}
+
+export function withEvent(rule: EventRule, event: EngagementEvent): EventRule {
+    return { ...rule, event, url_pattern: event === 'clicked' ? rule.url_pattern : null };
+}
+
+/** Starting points for common engagement audiences. */
+export const ENGAGEMENT_PRESETS: Array<{ label: string; hint: string; build: () => RuleGroup }> = [
+    {
+        label: 'Engaged in the last 90 days',
+        hint: 'Opened or clicked any email in the last 90 days',
+        build: () => createGroup('or', [createEventRule('opened', 'any', 90), createEventRule('clicked', 'any', 90)]),
+    },
+    {
+        label: 'Sunset candidates',
+        hint: 'Received 5+ emails in 180 days without opening any',
+        build: () =>
+            createGroup('and', [
+                { ...createEventRule('delivered', 'at_least', 180), count: 5 },
+                createEventRule('opened', 'none', 180),
+                createEventRule('clicked', 'none', 180),
+            ]),
+    },
+    {
+        label: 'Never opened',
+        hint: 'No opens recorded at all',
+        build: () => createGroup('and', [createEventRule('opened', 'none', null)]),
+    },
+    {
+        label: 'Recently bounced',
+        hint: 'Bounced in the last 30 days',
+        build: () => createGroup('and', [createEventRule('bounced', 'any', 30)]),
+    },
+];
+
+/* ------------------------------- Parsing ------------------------------ */
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+    return !!v && typeof v === 'object' && !Array.isArray(v);
+}
+
+function toIds(v: unknown): number[] {
+    return Array.isArray(v) ? v.map(Number).filter((n) => Number.isInteger(n)) : [];
+}
+
+function toInt(v: unknown): number | null {
+    return typeof v === 'number' && Number.isFinite(v) ? v : null;
+}
+
+function parseRule(raw: unknown): SegmentRule {
+    const r = isRecord(raw) ? raw : {};
+    const id = typeof r.id === 'string' && r.id ? r.id : ruleId();
+    switch (r.type) {
+        case 'group':
+            return {
+                type: 'group',
+                id,
+                combinator: r.combinator === 'or' ? 'or' : 'and',
+                negate: r.negate === true,
+                rules: Array.isArray(r.rules) ? r.rules.map(parseRule) : [],
+            };
+        case 'condition':
+            if (typeof r.field === 'string' && typeof r.operator === 'string' && ALL_OPS.includes(r.operator as RuleOperator)) {
+                const value = typeof r.value === 'string' || typeof r.value === 'number' ? r.value : null;
+                return { type: 'condition', id, field: r.field as ConditionRule['field'], operator: r.operator as RuleOperator, value };
+            }
+            break;
+        case 'list':
+            if (r.operator === 'in_any' || r.operator === 'in_none') return { type: 'list', id, operator: r.operator, list_ids: toIds(r.list_ids) };
+            break;
+        case 'event':
+            if (ENGAGEMENT_EVENTS.includes(r.event as EngagementEvent) && EVENT_MATCHES.includes(r.match as EventRule['match'])) {
+                return {
+                    type: 'event',
+                    id,
+                    event: r.event as EngagementEvent,
+                    match: r.match as EventRule['match'],
+                    count: toInt(r.count),
+                    campaign_id: toInt(r.campaign_id),
+                    within_days: toInt(r.within_days),
+                    url_pattern: typeof r.url_pattern === 'string' && r.url_pattern ? r.url_pattern : null,
+                };
+            }
+            break;
+    }
+    return { type: 'unknown', id, raw: r };
+}
+
+/** The legacy keys as an AND group, in the order the old form showed them. */
+function fromLegacy(def: LegacyDefinition): RuleGroup {
+    const rules: SegmentRule[] = [];
+    if (typeof def.status === 'string' && def.status) {
+        rules.push({ type: 'condition', id: ruleId(), field: 'status', operator: 'equals', value: def.status });
+    }
+    if (typeof def.email_contains === 'string' && def.email_contains) {
+        rules.push({ type: 'condition', id: ruleId(), field: 'email', operator: 'contains', value: def.email_contains });
+    }
+    if (typeof def.gdpr_consent === 'boolean') {
+        rules.push({ type: 'condition', id: ruleId(), field: 'gdpr_consent_at', operator: def.gdpr_consent ? 'is_not_empty' : 'is_empty', value: null });
+    }
+    const inIds = toIds(def.in_list_ids);
+    if (inIds.length) rules.push({ type: 'list', id: ruleId(), operator: 'in_any', list_ids: inIds });
+    const notInIds = toIds(def.not_in_list_ids);
+    if (notInIds.length) rules.push({ type: 'list', id: ruleId(), operator: 'in_none', list_ids: notInIds });
+    return createGroup('and', rules);
+}
+
+/** Reads a stored definition of either version; missing or malformed input gives an empty group. */
+export function parseDefinition(def: unknown): RuleGroup {
+    if (!isRecord(def)) return createGroup();
+    if (isRecord(def.rules)) {
+        const root = parseRule({ ...def.rules, type: 'group' });
+        return root.type === 'group' ? root : createGroup();
+    }
+    return fromLegacy(def as LegacyDefinition);
+}
+
+/** The legacy form of `root` when it only uses what the old filters could express, else null. */
+function toLegacy(root: RuleGroup): LegacyDefinition | null {
+    if (root.combinator !== 'and' || root.negate) return null;
+    const out: LegacyDefinition = {};
+    for (const r of root.rules) {
+        if (r.type === 'condition') {
+            if (r.field === 'status' && r.operator === 'equals' && typeof r.value === 'string' && out.status === undefined) {
+                out.status = r.value;
+            } else if (r.field === 'email' && r.operator === 'contains' && typeof r.value === 'string' && r.value && out.email_contains === undefined) {
+                out.email_contains = r.value;
+            } else if (r.field === 'gdpr_consent_at' && EMPTY_OPS.includes(r.operator) && out.gdpr_consent === undefined) {
+                out.gdpr_consent = r.operator === 'is_not_empty';
+            } else {
+                return null;
+            }
+        } else if (r.type === 'list' && r.list_ids.length) {
+            const key = r.operator === 'in_any' ? 'in_list_ids' : 'not_in_list_ids';
+            if (out[key]) return null;
+            out[key] = r.list_ids;
+        } else {
+            return null;
+        }
+    }
+    return out;
+}
+
+function serialize(rule: SegmentRule): Record<string, unknown> {
+    switch (rule.type) {
+        case 'group':
+            return { ...rule, rules: rule.rules.map(serialize) };
+        case 'unknown':
+            return { ...rule.raw, id: rule.id };
+        default:
+            return { ...rule };
+    }
+}
+
+/** Trees the old filters can express are stored in the legacy shape, so existing builders keep reading them. */
+export function toDefinition(root: RuleGroup): SegmentDefinition {
+    return toLegacy(root) ?? { version: 2, rules: serialize(root) as RuleGroup };
+}
+
+/** A definition matching what `rule` matches on its own, for counting it in a dry run. */
+export function ruleDefinition(rule: SegmentRule): SegmentDefinition {
+    return toDefinition(rule.type === 'group' ? rule : createGroup('and', [rule]));
+}
+
+/* ---------------------------- Tree operations ------------------------- */
+
+function mapGroups(group: RuleGroup, fn: (g: RuleGroup) => RuleGroup): RuleGroup {
+    const rules = group.rules.map((r) => (r.type === 'group' ? mapGroups(r, fn) : r));
+    return fn({ ...group, rules });
+}
+
+export function replaceRule(root: RuleGroup, rule: SegmentRule): RuleGroup {
+    if (rule.id === root.id && rule.type === 'group') return rule;
+    return mapGroups(root, (g) => ({ ...g, rules: g.rules.map((r) => (r.id === rule.id ? rule : r)) }));
+}
+
+export function removeRule(root: RuleGroup, id: string): RuleGroup {
+    return mapGroups(root, (g) => ({ ...g, rules: g.rules.filter((r) => r.id !== id) }));
+}
+
+export function appendRule(root: RuleGroup, groupId: string, rule: SegmentRule): RuleGroup {
+    return mapGroups(root, (g) => (g.id === groupId ? { ...g, rules: [...g.rules, rule] } : g));
+}
+
+/** Conditions and list rules, not counting groups. */
+export function countRules(group: RuleGroup): number {
+    return group.rules.reduce((n, r) => n + (r.type === 'group' ? countRules(r) : 1), 0);
+}
+
+/* -------------------------------- Checks ------------------------------ */
+
+export type RuleIssue = { id: string; severity: 'error' | 'warning'; message: string };
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function checkCondition(r: ConditionRule): string | null {
+    if (isAttributeField(r.field) && !/^attributes\.[A-Za-z_][\w-]*$/.test(r.field)) return 'Attribute names use letters, digits, _ and -.';
+    if (!operatorsFor(r.field).includes(r.operator)) return `“${OPERATOR_LABELS[r.operator]}” does not apply to ${fieldLabel(r.field)}.`;
+    switch (valueKind(r.operator)) {
+        case 'none':
+            return null;
+        case 'number':
+            return typeof r.value === 'number' && Number.isFinite(r.value) ? null : 'Enter a number.';
+        case 'days':
+            return typeof r.value === 'number' && Number.isInteger(r.value) && r.value >= 1 ? null : 'Days must be a whole number of at least 1.';
+        case 'date':
+            return typeof r.value === 'string' && DATE_RE.test(r.value) && !Number.isNaN(Date.parse(r.value)) ? null : 'Pick a date.';
+        case 'text':
+            if (typeof r.value !== 'string' || r.value === '') return 'Enter a value.';
+            if (r.operator === 'regex') {
+                try {
+                    new RegExp(r.value);
+                } catch (e) {
+                    return `Invalid regex: ${e instanceof Error ? e.message : String(e)}`;
+                }
+            }
+            return null;
+    }
+}
+
+function checkEvent(r: EventRule): string | null {
+    const counting = r.match === 'at_least' || r.match === 'fewer_than';
+    if (counting && !(typeof r.count === 'number' && Number.isInteger(r.count) && r.count >= 1)) return 'The number of times must be a whole number of at least 1.';
+    if (r.within_days !== null && !(Number.isInteger(r.within_days) && r.within_days >= 1)) return 'Days must be a whole number of at least 1, or empty for all time.';
+    if (r.url_pattern !== null && r.event !== 'clicked') return 'URL patterns apply to clicks only.';
+    return null;
+}
+
+export function validateRules(root: RuleGroup): RuleIssue[] {
+    const issues: RuleIssue[] = [];
+    const visit = (rule: SegmentRule, isRoot: boolean) => {
+        switch (rule.type) {
+            case 'group':
+                if (rule.rules.length === 0) {
+                    issues.push(
+                        isRoot
+                            ? { id: rule.id, severity: 'warning', message: 'No conditions; the segment matches every contact.' }
+                            : { id: rule.id, severity: 'error', message: 'Empty group; add a condition or remove it.' },
+                    );
+                }
+                rule.rules.forEach((r) => visit(r, false));
+                break;
+            case 'condition': {
+                const message = checkCondition(rule);
+                if (message) issues.push({ id: rule.id, severity: 'error', message });
+                break;
+            }
+            case 'list':
+                if (rule.list_ids.length === 0) issues.push({ id: rule.id, severity: 'error', message: 'Choose at least one list.' });
+                break;
+            case 'event': {
+                const message = checkEvent(rule);
+                if (message) issues.push({ id: rule.id, severity: 'error', message });
+                break;
+            }
+            case 'unknown':
+                issues.push({ id: rule.id, severity: 'warning', message: `Unknown rule type “${String(rule.raw.type ?? '?')}”; it is kept but cannot be edited here.` });
+                break;
+        }
+    };
+    visit(root, true);
+    return issues;
+}
+
+/* ------------------------------- Summary ------------------------------ */
+
+function describeValue(r: ConditionRule): string {
+    switch (valueKind(r.operator)) {
+        case 'none':
+            return '';
+        case 'days':
+            return ` ${String(r.value)} days`;
+        case 'text':
+            return ` “${String(r.value ?? '')}”`;
+        default:
+            return ` ${String(r.value ?? '')}`;
+    }
+}
+
+export type RuleNames = {
+    list?: (id: number) => string;
+    campaign?: (id: number) => string;
+};
+
+function describeEvent(r: EventRule, names: RuleNames): string {
+    const verb = EVENT_VERBS[r.event];
+    const campaign = r.campaign_id === null ? 'any email' : `campaign “${names.campaign?.(r.campaign_id) ?? `#${r.campaign_id}`}”`;
+    const url = r.url_pattern ? ` with a URL matching “${r.url_pattern}”` : '';
+    const period = r.within_days === null ? '' : ` in the last ${r.within_days} days`;
+    if (r.match === 'none') return `Never ${verb} ${campaign}${url}${period}`;
+    const times = r.match === 'any' ? '' : ` ${r.match === 'at_least' ? 'at least' : 'fewer than'} ${r.count ?? '?'} times`;
+    return `${verb[0].toUpperCase()}${verb.slice(1)} ${campaign}${url}${times}${period}`;
+}
+
+/** One-line, human-readable form of a rule tree, e.g. `Status equals “subscribed” AND (… OR …)`. */
+export function describeRules(rule: SegmentRule, names: RuleNames = {}): string {
+    switch (rule.type) {
+        case 'group': {
+            const parts = rule.rules.map((r) => {
+                const s = describeRules(r, names);
+                return r.type === 'group' && r.rules.length > 1 && !r.negate ? `(${s})` : s;
+            });
+            const body = parts.length ? parts.join(rule.combinator === 'and' ? ' AND ' : ' OR ') : 'everyone';
+            return rule.negate ? `NOT (${body})` : body;
+        }
+        case 'condition': {
+            const op = valueKind(rule.operator) === 'days' ? (rule.operator === 'in_last_days' ? 'in the last' : 'not in the last') : OPERATOR_LABELS[rule.operator];
+            return `${fieldLabel(rule.field)} ${op}${describeValue(rule)}`;
+        }
+        case 'list':
+            return `${rule.operator === 'in_any' ? 'In any of' : 'In none of'} ${rule.list_ids.map((id) => names.list?.(id) ?? `#${id}`).join(', ') || '—'}`;
+        case 'event':
+            return describeEvent(rule, names);
+        case 'unknown':
+            return `[${String(rule.raw.type ?? 'unknown')}]`;
+    }
+}
@@ -0,0 +1,82 @@
+// lib/segment-rules/schedule.ts
+// Rebuild schedules for segments (defaults, validation, wording) and the size series drawn from build history.
+import { cronProblem } from '@/lib/cron';
+import { isValidTimeZone, parseLocalTime } from '@/lib/send-time';
+import type { SegmentBuild, SegmentSchedule } from '@/types/api';
+
+export type ScheduleMode = 'manual' | SegmentSchedule['mode'];
+
+export const SCHEDULE_MODES: Array<{ value: ScheduleMode; label: string }> = [
+    { value: 'manual', label: 'Manually' },
+    { value: 'hourly', label: 'Every hour' },
+    { value: 'daily', label: 'Every day' },
+    { value: 'cron', label: 'Custom (CRON)' },
+];
+
+/** Manual is stored as a null schedule. */
+export function defaultSchedule(mode: ScheduleMode, timezone: string): SegmentSchedule | null {
+    switch (mode) {
+        case 'manual':
+            return null;
+        case 'hourly':
+            return { mode, minute: 0 };
+        case 'daily':
+            return { mode, time: '06:00', timezone };
+        case 'cron':
+            return { mode, cron: '0 6 * * 1-5', timezone };
+    }
+}
+
+/** First problem that stops the schedule from being saved, or null. */
+export function validateSchedule(s: SegmentSchedule | null): string | null {
+    if (!s) return null;
+    switch (s.mode) {
+        case 'hourly':
+            return Number.isInteger(s.minute) && s.minute >= 0 && s.minute < 60 ? null : 'Minute must be a whole number from 0 to 59.';
+        case 'daily':
+            if (!parseLocalTime(s.time)) return 'Time must be HH:MM.';
+            return isValidTimeZone(s.timezone) ? null : `Unknown timezone "${s.timezone}".`;
+        case 'cron': {
+            const problem = cronProblem(s.cron);
+            if (problem) return `${problem}.`;
+            return isValidTimeZone(s.timezone) ? null : `Unknown timezone "${s.timezone}".`;
+        }
+    }
+}
+
+export function describeSchedule(s: SegmentSchedule | null | undefined): string {
+    if (!s) return 'Rebuilt manually';
+    switch (s.mode) {
+        case 'hourly':
+            return `Rebuilt every hour at :${String(s.minute).padStart(2, '0')}`;
+        case 'daily':
+            return `Rebuilt every day at ${s.time} (${s.timezone})`;
+        case 'cron':
+            return `Rebuilt on CRON ${s.cron} (${s.timezone})`;
+    }
+}
+
+/* ---- History ---- */
+
+export type GrowthPoint = { at: number; count: number; added: number; removed: number };
+
+/** Successful builds oldest first, for charting; `builds` comes newest first as the API returns it. */
+export function growthSeries(builds: SegmentBuild[]): GrowthPoint[] {
+    return builds
+        .filter((b) => b.status === 'succeeded' && b.count !== null)
+        .map((b) => ({
+            at: Date.parse(b.finished_at ?? b.started_at),
+            count: b.count ?? 0,
+            added: b.added ?? 0,
+            removed: b.removed ?? 0,
+        }))
+        .sort((a, b) => a.at - b.at);
+}
+
+/** Net change across the series, and the change in percent of the first count (null when it was 0). */
+export function netGrowth(points: GrowthPoint[]): { delta: number; percent: number | null } | null {
+    if (points.length < 2) return null;
+    const first = points[0].count;
+    const delta = points[points.length - 1].count - first;
+    return { delta, percent: first > 0 ? (delta / first) * 100 : null };
+}
@@ -0,0 +1,172 @@
+// lib/send-time.ts
+// Per-recipient delivery times for the `local_time` and `optimized` send modes.
+// The math is pure; `/api/campaigns/delivery-window` samples the audience and open history and runs it.
+import { localRequest } from '@/lib/api';
+
+/** Send modes that fan one campaign out over a window instead of a single instant. */
+export type SpreadSendMode = 'local_time' | 'optimized';
+
+export type DeliveryWindowRequest = {
+    hash: string;
+    mode: SpreadSendMode;
+    target: 'list' | 'segment';
+    list_id: number | null;
+    segment_id: number | null;
+    /** Earliest delivery (ISO); now when omitted. */
+    start: string | null;
+    /** 'HH:MM' in each recipient's timezone; for `optimized`, the hour used when there is no open history at all. */
+    local_time: string;
+    /** IANA zone for contacts without a valid `timezone`. */
+    fallback_timezone: string;
+};
+
+export type DeliveryBucket = { at: string; count: number };
+
+export type DeliveryWindow = {
+    /** Hourly buckets from the first to the last delivery, scaled from the sample to the whole audience. */
+    buckets: DeliveryBucket[];
+    total: number;
+    sampled: number;
+    /** Sampled contacts that used `fallback_timezone` (local_time) or the audience-wide best hour (optimized). */
+    fallback: number;
+    first: string | null;
+    last: string | null;
+};
+
+export const DEFAULT_LOCAL_TIME = '09:00';
+const HOUR = 3_600_000;
+
+export function browserTimeZone(): string {
+    try {
+        return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+    } catch {
+        return 'UTC';
+    }
+}
+
+export function isValidTimeZone(tz: string | null | undefined): tz is string {
+    if (!tz) return false;
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: tz });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/** IANA zones the runtime knows, for fallback pickers; UTC first. */
+export function timeZoneOptions(): string[] {
+    const all = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+    return ['UTC', ...all.filter((z) => z !== 'UTC')];
+}
+
+export function parseLocalTime(hhmm: string): { h: number; m: number } | null {
+    const m = /^(\d{1,2}):(\d{2})$/.exec(hhmm.trim());
+    if (!m) return null;
+    const h = Number(m[1]);
+    const min = Number(m[2]);
+    return h < 24 && min < 60 ? { h, m: min } : null;
+}
+
+/* ------------------------------ Timezones ----------------------------- */
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Calendar fields of `instant` as the wall clock in `tz` reads them. */
+export function wallClock(instant: number, tz: string) {
+    let f = formatters.get(tz);
+    if (!f) {
+        f = new Intl.DateTimeFormat('en-US', {
+            timeZone: tz,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+        });
+        formatters.set(tz, f);
+    }
+    const parts = Object.fromEntries(f.formatToParts(instant).map((p) => [p.type, p.value]));
+    return { y: +parts.year, mo: +parts.month, d: +parts.day, h: +parts.hour, mi: +parts.minute };
+}
+
+/** Minutes `tz` is ahead of UTC at `instant`. */
+function offsetMinutes(instant: number, tz: string): number {
+    const w = wallClock(instant, tz);
+    return Math.round((Date.UTC(w.y, w.mo - 1, w.d, w.h, w.mi) - Math.floor(instant / 60_000) * 60_000) / 60_000);
+}
+
+/**
+ * The instant the wall clock in `tz` shows y-mo-d h:m (second pass settles DST edges). A time the clock
+ * skips when it springs forward resolves forward by the jump, as RFC 5545 does: 2026-03-08 02:30 in
+ * America/New_York is 03:30 EDT, never 01:30 EST.
+ */
+export function zonedInstant(y: number, mo: number, d: number, h: number, m: number, tz: string): number {
+    const naive = Date.UTC(y, mo - 1, d, h, m);
+    const first = naive - offsetMinutes(naive, tz) * 60_000;
+    const second = naive - offsetMinutes(first, tz) * 60_000;
+    const w = wallClock(second, tz);
+    if (w.h === h && w.mi === m) return second;
+    // in the gap the two guesses straddle the jump; reading the time with the earlier (smaller) offset lands after it
+    return naive - Math.min(offsetMinutes(first, tz), offsetMinutes(second, tz)) * 60_000;
+}
+
+/** First time at or after `start` that reads `at` on the wall clock in `tz`. */
+export function nextLocalTime(start: number, at: { h: number; m: number }, tz: string): number {
+    const w = wallClock(start, tz);
+    const today = zonedInstant(w.y, w.mo, w.d, at.h, at.m, tz);
+    if (today >= start) return today;
+    const tomorrow = new Date(Date.UTC(w.y, w.mo - 1, w.d + 1));
+    return zonedInstant(tomorrow.getUTCFullYear(), tomorrow.getUTCMonth() + 1, tomorrow.getUTCDate(), at.h, at.m, tz);
+}
+
+/** First whole UTC hour `hour` at or after `start`. */
+export function nextUtcHour(start: number, hour: number): number {
+    const d = new Date(start);
+    const at = Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(), hour);
+    return at >= start ? at : at + 24 * HOUR;
+}
+
+/* ------------------------------ Open history -------------------------- */
+
+/** Most frequent UTC hour in a 24-slot histogram; ties go to the earlier hour. */
+export function peakHour(hist: number[]): number | null {
+    let best = -1;
+    for (let h = 0; h < 24; h++) if ((hist[h] ?? 0) > 0 && (best < 0 || hist[h] > hist[best])) best = h;
+    return best < 0 ? null : best;
+}
+
+/** Per-recipient and overall UTC open-hour histograms from `opened` events. */
+export function openHistograms(events: Array<{ email: string | null | undefined; at: string }>) {
+    const byEmail = new Map<string, number[]>();
+    const overall = new Array<number>(24).fill(0);
+    for (const e of events) {
+        const t = Date.parse(e.at);
+        if (!e.email || Number.isNaN(t)) continue;
+        const h = new Date(t).getUTCHours();
+        const key = e.email.toLowerCase();
+        let hist = byEmail.get(key);
+        if (!hist) byEmail.set(key, (hist = new Array<number>(24).fill(0)));
+        hist[h]++;
+        overall[h]++;
+    }
+    return { byEmail, overall };
+}
+
+/* ------------------------------- Buckets ------------------------------ */
+
+/** Hourly histogram of delivery instants, scaled by `scale` (audience / sample). */
+export function bucketize(times: number[], scale: number): DeliveryBucket[] {
+    if (!times.length) return [];
+    const floor = (t: number) => Math.floor(t / HOUR) * HOUR;
+    const first = floor(Math.min(...times));
+    const last = floor(Math.max(...times));
+    const counts = new Array<number>((last - first) / HOUR + 1).fill(0);
+    for (const t of times) counts[(floor(t) - first) / HOUR]++;
+    return counts.map((c, i) => ({ at: new Date(first + i * HOUR).toISOString(), count: Math.round(c * scale) }));
+}
+
+export function previewDeliveryWindow(body: DeliveryWindowRequest, signal?: AbortSignal): Promise<DeliveryWindow> {
+    return localRequest<DeliveryWindow>('/api/campaigns/delivery-window', { method: 'POST', body, signal });
+}
@@ -0,0 +1,109 @@
+// lib/session.ts
+// The JWT itself sits in an HttpOnly cookie (see lib/auth.ts); client JS only sees its expiry.
+const EXP_COOKIE = 'token_exp';
+const REFRESH_LOCK = 'ml-session-refresh';
+const REFRESH_URL = '/api/auth/refresh';
+
+export const SESSION_CHANNEL = 'ml-session';
+
+export type SessionMessage =
+    | { type: 'activity'; ts: number }
+    | { type: 'token_refreshed' }
+    | { type: 'refresh_failed' };
+
+/* ------------------------------- Expiry ------------------------------ */
+
+/** Access-token expiry in ms, or null when signed out. */
+export function tokenExpiresAt(): number | null {
+    if (typeof document === 'undefined') return null;
+    const raw = document.cookie
+        .split('; ')
+        .find((c) => c.startsWith(`${EXP_COOKIE}=`))
+        ?.slice(EXP_COOKIE.length + 1);
+    const exp = Number(raw);
+    return raw && Number.isFinite(exp) ? exp * 1000 : null;
+}
+
+export function isTokenExpired(): boolean {
+    const exp = tokenExpiresAt();
+    return exp === null || Date.now() >= exp;
+}
+
+/* ------------------------------ Channel ------------------------------ */
+
+let channel: BroadcastChannel | null | undefined;
+
+function sessionChannel(): BroadcastChannel | null {
+    if (channel === undefined) {
+        channel = typeof window !== 'undefined' && 'BroadcastChannel' in window
+            ? new BroadcastChannel(SESSION_CHANNEL)
+            : null;
+    }
+    return channel;
+}
+
+export function broadcast(msg: SessionMessage): void {
+    sessionChannel()?.postMessage(msg);
+}
+
+/* ------------------------------ Refresh ------------------------------ */
+
+let inflight: Promise<boolean> | null = null;
+
+/**
+ * Asks the BFF to exchange the refresh cookie for a new access token.
+ * Concurrent callers share one `/auth/refresh` call; across tabs a Web Lock
+ * serializes refreshes and the tab that waited reuses the cookie the other one got.
+ */
+export function refreshSession(): Promise<boolean> {
+    if (!inflight) {
+        const before = tokenExpiresAt();
+        inflight = withRefreshLock(() => doRefresh(before)).finally(() => {
+            inflight = null;
+        });
+    }
+    return inflight;
+}
+
+async function withRefreshLock<T>(fn: () => Promise<T>): Promise<T> {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+        return navigator.locks.request(REFRESH_LOCK, fn);
+    }
+    return fn();
+}
+
+async function doRefresh(before: number | null): Promise<boolean> {
+    const current = tokenExpiresAt();
+    if (current !== null && current !== before && !isTokenExpired()) return true;
+
+    try {
+        const res = await fetch(REFRESH_URL, { method: 'POST' });
+        if (res.ok) {
+            broadcast({ type: 'token_refreshed' });
+            return true;
+        }
+    } catch {
+        // network error: treat as a failed refresh
+    }
+    broadcast({ type: 'refresh_failed' });
+    return false;
+}
+
+/* ------------------------------ Redirect ----------------------------- */
+
+let redirecting = false;
+
+/** Sends the user to `/login?next=<current path>`; the failed refresh already cleared the cookies. */
+export function redirectToLogin(): void {
+    if (typeof window === 'undefined' || redirecting) return;
+    redirecting = true;
+    const { pathname, search } = window.location;
+    const next = pathname.startsWith('/login') ? '' : `?next=${encodeURIComponent(pathname + search)}`;
+    window.location.assign(`/login${next}`);
+}
+
+/** Only same-origin paths are honoured as a post-login destination. */
+export function safeNextPath(next: string | null | undefined, fallback = '/dashboard'): string {
+    if (!next || !next.startsWith('/') || next.startsWith('//') || next.startsWith('/\\')) return fallback;
+    return next;
+}
@@ -0,0 +1,50 @@
+// lib/throttle.ts
+// Campaign delivery pacing: defaults, validation and the send-duration estimate shown in the editors.
+import type { CampaignThrottle } from '@/types/api';
+
+/** Mailbox providers that rate-limit new senders hardest; offered as quick-add caps. */
+export const COMMON_RECIPIENT_DOMAINS = ['gmail.com', 'outlook.com', 'hotmail.com', 'yahoo.com', 'icloud.com'] as const;
+
+export function defaultThrottle(): CampaignThrottle {
+    return { max_per_hour: 5000, batch_size: 500, batch_interval_minutes: 10, domain_caps: [] };
+}
+
+const DOMAIN_RE = /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,}$/i;
+
+/** First problem that stops the throttle from being saved, or null. */
+export function validateThrottle(t: CampaignThrottle): string | null {
+    const positive = (n: number | null) => n === null || (Number.isInteger(n) && n > 0);
+    if (!positive(t.max_per_hour)) return 'Max messages per hour must be a whole number above 0.';
+    if (!positive(t.batch_size)) return 'Batch size must be a whole number above 0.';
+    if (!positive(t.batch_interval_minutes)) return 'Batch interval must be a whole number of minutes above 0.';
+    if ((t.batch_size === null) !== (t.batch_interval_minutes === null)) return 'Set both a batch size and an interval, or neither.';
+    const seen = new Set<string>();
+    for (const c of t.domain_caps) {
+        const d = c.domain.trim().toLowerCase();
+        if (!DOMAIN_RE.test(d)) return `"${c.domain || '(empty)'}" is not a domain.`;
+        if (seen.has(d)) return `${d} is capped twice.`;
+        seen.add(d);
+        if (!Number.isInteger(c.max_per_hour) || c.max_per_hour <= 0) return `The cap for ${d} must be a whole number above 0.`;
+    }
+    return null;
+}
+
+/** Effective messages per hour across the whole send, ignoring per-domain caps. */
+export function effectiveHourlyRate(t: CampaignThrottle): number | null {
+    const rates: number[] = [];
+    if (t.max_per_hour) rates.push(t.max_per_hour);
+    if (t.batch_size && t.batch_interval_minutes) rates.push((t.batch_size * 60) / t.batch_interval_minutes);
+    return rates.length ? Math.min(...rates) : null;
+}
+
+/** Hours until `total` messages are out at the effective rate; per-domain caps can only make it longer. */
+export function estimateSendHours(total: number, t: CampaignThrottle): number | null {
+    const rate = effectiveHourlyRate(t);
+    return rate === null ? null : total / rate;
+}
+
+export function formatHours(h: number): string {
+    if (h < 1) return `${Math.max(1, Math.round(h * 60))} min`;
+    if (h < 48) return `${h < 10 ? h.toFixed(1).replace(/\.0$/, '') : Math.round(h)} h`;
+    return `${(h / 24).toFixed(1).replace(/\.0$/, '')} days`;
+}
@@ -1,19 +1,32 @@
 import { NextResponse, NextRequest } from "next/server";
+import { TOKEN_COOKIE, tokenClaims } from "@/lib/auth";
+import { isPlatformAdmin } from "@/lib/permissions";
 
 export function middleware(req: NextRequest) {
-    const { pathname } = req.nextUrl;
+    const { pathname, search } = req.nextUrl;
+    const token = req.cookies.get(TOKEN_COOKIE)?.value;
 
-    // Only protect /protect and its subpaths
-    if (pathname.startsWith("/protect")) {
-        const token = req.cookies.get("token")?.value;
-        if (!token) {
-            // Redirect to /login if no token
-            const loginUrl = req.nextUrl.clone();
-            loginUrl.pathname = "/login";
-            return NextResponse.redirect(loginUrl);
-        }
+    if (!token) {
+        // No session cookie — send to /login and come back here afterwards
+        const loginUrl = req.nextUrl.clone();
+        loginUrl.pathname = "/login";
+        loginUrl.search = "";
+        loginUrl.searchParams.set("next", pathname + search);
+        return NextResponse.redirect(loginUrl);
+    }
+
+    // /admin is platform staff only, whatever their company roles are
+    if (pathname.startsWith("/admin") && !isPlatformAdmin(tokenClaims(token).roles)) {
+        const dashboardUrl = req.nextUrl.clone();
+        dashboardUrl.pathname = "/dashboard";
+        dashboardUrl.search = "";
+        return NextResponse.redirect(dashboardUrl);
     }
 
-    // Otherwise — let the request through
     return NextResponse.next();
-}
\ No newline at end of file
+}
+
+export const config = {
+    // Route groups don't show up in the URL, so match the real paths under (protect)
+    matcher: ["/dashboard/:path*", "/admin/:path*", "/companies/:path*"],
+};
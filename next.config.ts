@@ -1,6 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+    // mjml resolves components and config with runtime requires; load it from node_modules instead of bundling
+    serverExternalPackages: ["mjml"],
     images: {
         dangerouslyAllowSVG: true,
         contentSecurityPolicy:
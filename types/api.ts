@@ -0,0 +1,560 @@
+// types/api.ts
+import type { DomainDetail, DomainVerifyReport } from '@/types/domain';
+import type { EmailDocument } from '@/types/email-builder';
+import type { SegmentDefinition } from '@/types/segment-rules';
+
+/* ---------------------------- Envelopes ---------------------------- */
+
+export type ApiPaged<T> = {
+    meta: { page: number; perPage: number; total: number; totalPages: number };
+    items: T[];
+};
+
+/** Error body returned by the backend on 4xx/5xx responses. */
+export type ApiErrorBody = {
+    error?: true | string;
+    message?: string;
+    fields?: Record<string, string>;
+};
+
+/* ---------------------------- Companies ---------------------------- */
+
+export type CompanyUser = { id: number; email: string; fullName: string | null };
+
+/** The signed-in user's membership in one company; role names are checked by lib/permissions. */
+export type CompanyMembership = { roles?: string[] | null };
+
+export type Company = {
+    hash: string;
+    name: string | null;
+    phone_number?: string | null;
+    address?: { street?: string; city?: string; zip?: string; country?: string } | null;
+    users?: CompanyUser[];
+    plan?: { id?: number; name: string | null } | null;
+    domains?: Array<{ id: number; domain: string | null; statusDomain?: string | null }>;
+};
+
+/** Capability flags inside a plan's `features` object. */
+export type PlanCapabilities = {
+    analytics?: string;
+    api?: boolean;
+    smtp?: boolean;
+    webhooks?: boolean;
+    templateBuilder?: boolean;
+    sendTimeOptimization?: boolean;
+    dedicatedIpPools?: boolean;
+};
+
+/** `GET /companies-plan/{hash}`; features may be an object, a bullet list or null. */
+export type CompanyPlan = {
+    id: number;
+    name: string;
+    features: ({ capabilities?: PlanCapabilities } & Record<string, unknown>) | string[] | null;
+};
+
+/** Row of `GET /search-companies`, used by admin pickers. */
+export type CompanyBrief = { id: number; name: string | null };
+
+/* ------------------------------ IP pools --------------------------- */
+
+export type IpPool = {
+    id: number;
+    name: string | null;
+    ips: string[] | null;
+    reputation_score: number | null;
+    warmup_state: string | null;
+    created_at: string | null;
+    company: CompanyBrief | null;
+};
+
+/** `companyId` null detaches the pool from any company; `created_at` is ISO-8601. */
+export type IpPoolInput = {
+    name: string;
+    ips: string[];
+    reputation_score: number | null;
+    warmup_state: string | null;
+    created_at: string | null;
+    companyId: number | null;
+};
+
+/* ----------------------------- Domains ----------------------------- */
+
+export type DomainSummary = {
+    id: number;
+    domain: string | null;
+    statusDomain?: string | null;
+    status?: string | null;
+};
+
+export type { DomainDetail, DomainVerifyReport };
+
+export type DomainApiKey = {
+    id: number;
+    label: string | null;
+    prefix: string;
+    scopes: string[] | string | null;
+    last_used_at: string | null;
+    revoked_at: string | null;
+    created_at: string;
+    domain_id?: number | null;
+};
+
+/* ----------------------------- Contacts ---------------------------- */
+
+export type Contact = {
+    id: number;
+    email: string | null;
+    name: string | null;
+    status: string | null;
+    locale?: string | null;
+    timezone?: string | null;
+    gdpr_consent_at: string | null;
+    attributes?: Record<string, unknown> | null;
+    created_at: string | null;
+};
+
+export type ListGroup = {
+    id: number;
+    name: string;
+    created_at?: string | null;
+    hash?: string | null;
+    counts?: { contacts?: number | null; campaigns?: number | null };
+};
+
+export type ListBulkResult = {
+    summary: { added: number; skipped: number; total: number };
+    results: Array<{ email: string; status: 'added' | 'exists'; membership_id: number }>;
+};
+
+export type Segment = {
+    id: number;
+    name: string;
+    definition: SegmentDefinition | null;
+    materialized_count: number | null;
+    last_built_at: string | null;
+    hash?: string | null;
+    /** null rebuilds only when asked (Build Now). */
+    schedule?: SegmentSchedule | null;
+    next_build_at?: string | null;
+};
+
+/** `time` is local 'HH:MM' in `timezone`; `cron` is five fields, also read in `timezone`. */
+export type SegmentSchedule =
+    | { mode: 'hourly'; minute: number }
+    | { mode: 'daily'; time: string; timezone: string }
+    | { mode: 'cron'; cron: string; timezone: string };
+
+export type SegmentBuildStatus = 'running' | 'succeeded' | 'failed';
+
+/** One materialization; `added`/`removed` compare its members with the previous successful build. */
+export type SegmentBuild = {
+    id: number;
+    trigger: 'manual' | 'schedule';
+    status: SegmentBuildStatus;
+    started_at: string;
+    finished_at: string | null;
+    count: number | null;
+    added: number | null;
+    removed: number | null;
+    error: string | null;
+};
+
+/** `definition` overrides the saved one for a dry run, e.g. to count a single rule. */
+export type SegmentBuildInput = {
+    dryRun?: boolean;
+    definition?: SegmentDefinition;
+};
+
+export type SegmentPreviewRow = { id: number; email: string | null; name: string | null; status: string | null };
+
+export type BuildDryRunResponse = {
+    segment: Segment;
+    matches: number;
+    sample: SegmentPreviewRow[];
+    dryRun: boolean;
+};
+
+/** A real (non dry-run) build; `segment` carries the new count and `last_built_at`. */
+export type BuildResponse = {
+    segment: Segment;
+    performed: { new_count: number; delta: number };
+};
+
+/* ---------------------------- Messaging ---------------------------- */
+
+export type CampaignStatus = 'draft' | 'scheduled' | 'sending' | 'paused' | 'completed' | 'cancelled';
+/**
+ * `local_time` and `optimized` spread delivery per recipient, starting no earlier than `scheduled_at`.
+ * `recurring` sends a child campaign at every occurrence of `recurrence`; `scheduled_at` is the next one.
+ */
+export type SendMode = 'immediate' | 'scheduled' | 'local_time' | 'optimized' | 'recurring';
+export type TargetKind = 'list' | 'segment';
+
+export type CampaignMetrics = {
+    sent: number;
+    delivered: number;
+    opens: number;
+    clicks: number;
+    bounces: number;
+    complaints: number;
+};
+
+export type Campaign = {
+    id: number;
+    name: string | null;
+    subject: string | null;
+    send_mode: SendMode;
+    scheduled_at: string | null;
+    /** 'HH:MM' in each recipient's timezone (`local_time`), or the default hour without open history (`optimized`). */
+    send_local_time?: string | null;
+    /** IANA zone for recipients without a timezone. */
+    fallback_timezone?: string | null;
+    target: TargetKind;
+    status: CampaignStatus;
+    created_at: string | null;
+    template_id: number | null;
+    domain_id: number | null;
+    listGroup_id: number | null;
+    segment_id: number | null;
+    metrics?: CampaignMetrics;
+    /** Present on A/B campaigns; `subject`/`template_id` are then the defaults variants fall back to. */
+    ab_test?: CampaignAbTest | null;
+    /** null sends as fast as the platform allows. */
+    throttle?: CampaignThrottle | null;
+    recurrence?: CampaignRecurrence | null;
+    /** Set on the child campaigns a recurring campaign creates, one per occurrence. */
+    parent_id?: number | null;
+    occurrence_at?: string | null;
+};
+
+/** Create/update body; writes name the list `list_group_id` where reads say `listGroup_id`. */
+export type CampaignInput = {
+    name: string | null;
+    subject: string | null;
+    template_id: number | null;
+    domain_id: number | null;
+    target: TargetKind;
+    list_group_id: number | null;
+    segment_id: number | null;
+    send_mode: SendMode;
+    scheduled_at: string | null;
+    send_local_time: string | null;
+    fallback_timezone: string | null;
+    recurrence: CampaignRecurrence | null;
+    throttle: CampaignThrottle | null;
+    ab_test: CampaignAbTest | null;
+};
+
+/** Transitions of a whole campaign; send and schedule have their own calls. */
+export type CampaignAction = 'pause' | 'resume' | 'cancel';
+
+export type CampaignStats = {
+    metrics: CampaignMetrics;
+    status: CampaignStatus;
+    /** Fresher per-variant metrics and winner on A/B campaigns. */
+    ab_test?: Pick<CampaignAbTest, 'winner_key' | 'winner_decided_at'> & { variants: Array<Pick<CampaignVariant, 'key' | 'metrics'>> };
+};
+
+export type CampaignRecipient = { id: number; email: string | null; name: string | null; status: string | null };
+
+export type CampaignRecurrence = {
+    /** iCalendar text: a `DTSTART;TZID=…` line and an `RRULE:` line; see lib/rrule. */
+    rrule: string;
+};
+
+/**
+ * `skipped` occurrences are never sent; `paused` ones wait for a resume (an in-flight child is paused too).
+ * `sent` covers a child that finished sending; its own status says whether it completed or was cancelled.
+ */
+export type OccurrenceStatus = 'upcoming' | 'skipped' | 'paused' | 'sending' | 'sent' | 'failed';
+
+export type CampaignOccurrence = {
+    at: string;
+    status: OccurrenceStatus;
+    /** Child campaign, once the occurrence has started. */
+    campaign_id: number | null;
+    metrics?: CampaignMetrics | null;
+};
+
+export type OccurrenceAction = 'skip' | 'unskip' | 'pause' | 'resume';
+
+/** Delivery pacing for IP warmup; every limit is optional and the strictest one wins. */
+export type CampaignThrottle = {
+    max_per_hour: number | null;
+    batch_size: number | null;
+    batch_interval_minutes: number | null;
+    /** Hourly caps per recipient domain, e.g. gmail.com. */
+    domain_caps: Array<{ domain: string; max_per_hour: number }>;
+};
+
+export type CampaignBatchStatus = 'pending' | 'sending' | 'sent' | 'paused' | 'cancelled';
+
+export type CampaignBatch = {
+    /** 1-based. */
+    index: number;
+    size: number;
+    queued: number;
+    sent: number;
+    failed: number;
+    status: CampaignBatchStatus;
+    scheduled_at: string | null;
+    started_at: string | null;
+    completed_at: string | null;
+};
+
+export type CampaignProgress = {
+    status: CampaignStatus;
+    total: number;
+    queued: number;
+    sent: number;
+    failed: number;
+    remaining: number;
+    batches: CampaignBatch[];
+    next_batch_at: string | null;
+};
+
+/** Engagement the test cohort is judged on; rates are per delivered message. */
+export type AbWinnerMetric = 'opens' | 'clicks';
+
+/** One arm of an A/B test; empty fields fall back to the campaign's own value. */
+export type CampaignVariant = {
+    /** 'A'..'D', stable for the life of the campaign. */
+    key: string;
+    subject: string | null;
+    from_name: string | null;
+    template_id: number | null;
+    metrics?: CampaignMetrics;
+};
+
+export type CampaignAbTest = {
+    variants: CampaignVariant[];
+    /** Share of the audience split evenly across the variants; the winner goes to the rest. */
+    cohort_percent: number;
+    winner_metric: AbWinnerMetric;
+    /** Hours between the test send and picking the winner. */
+    wait_hours: number;
+    winner_key?: string | null;
+    winner_decided_at?: string | null;
+};
+
+/** Tracking event of one campaign message; `clicked` events carry the target in `meta.url`. */
+export type CampaignEvent = {
+    id: number;
+    type: string;
+    at: string;
+    recipient: { id: number | null; email: string | null };
+    meta?: Record<string, unknown> | null;
+};
+
+/** Proof send of a template or campaign to seed inboxes; it is not counted in campaign metrics. */
+export type TestSendInput = {
+    domain_id: number;
+    from_email: string;
+    from_name?: string | null;
+    /** Overrides the campaign subject; required for templates. */
+    subject?: string | null;
+    to: string[];
+    /** Merge data; ignored when `contact_id` is set. */
+    data?: Record<string, unknown> | null;
+    /** Render with this contact's fields and attributes. */
+    contact_id?: number | null;
+};
+
+export type TestSendResult = {
+    messages: Array<{ to: string; messageId: string | null; state: string | null; error?: string | null }>;
+};
+
+export type Template = {
+    id: number;
+    name: string | null;
+    engine: string | null;
+    version: number | null;
+    html: string | null;
+    text: string | null;
+    /** Visual builder design; `html` holds its compiled output. */
+    builder_json?: EmailDocument | null;
+    /** MJML source when `engine` is `mjml`; `html` holds its compiled output. */
+    mjml?: string | null;
+    created_at: string | null;
+};
+
+export type TemplateInput = {
+    name: string;
+    engine: string | null;
+    /** Left out, the backend numbers the revision itself. */
+    version?: number | null;
+    html: string | null;
+    text: string | null;
+    builder_json?: EmailDocument | null;
+    mjml?: string | null;
+};
+
+/** Immutable snapshot written by the backend on every template save. */
+export type TemplateRevision = {
+    id: number;
+    template_id: number;
+    version: number;
+    name: string | null;
+    engine: string | null;
+    /** Content fields may be omitted in list responses; fetch the single revision for them. */
+    html?: string | null;
+    text?: string | null;
+    mjml?: string | null;
+    builder_json?: EmailDocument | null;
+    author: CompanyUser | null;
+    created_at: string;
+};
+
+/* ---------------------------- Automations -------------------------- */
+
+export type AutomationStatus = 'draft' | 'active' | 'paused' | 'disabled';
+
+export type Automation = {
+    id: number;
+    name: string | null;
+    trigger: string | null; // 'time' | 'webhook' | 'event' | null
+    flow: Record<string, unknown> | null;
+    status: AutomationStatus | null;
+    last_run_at: string | null;
+    created_at: string | null;
+};
+
+export type AutomationInput = {
+    name: string;
+    trigger: string | null;
+    status: AutomationStatus | null;
+    flow: Record<string, unknown> | null;
+};
+
+/** `run` fires the trigger once by hand; the others move the status. */
+export type AutomationLifecycle = 'run' | 'enable' | 'pause' | 'disable';
+
+export type AutomationRunStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+/** One firing of an automation's trigger and the contacts it admitted. */
+export type AutomationRun = {
+    id: number;
+    status: AutomationRunStatus;
+    trigger_payload: Record<string, unknown> | null;
+    started_at: string | null;
+    /** Null while contacts are still in the flow. */
+    finished_at: string | null;
+    counts: { total: number; completed: number; waiting: number; failed: number; cancelled: number };
+    /** Why the run itself failed (e.g. the trigger payload was rejected). */
+    error?: string | null;
+};
+
+/** `waiting` contacts are held in a delay or wait-until step; `exited` left at a filter or exit step. */
+export type RunContactStatus = 'running' | 'waiting' | 'completed' | 'exited' | 'converted' | 'failed' | 'cancelled';
+
+export type StepLogStatus = 'ok' | 'skipped' | 'waiting' | 'failed';
+
+export type AutomationStepLog = {
+    /** `id` of the flow step; it may no longer exist if the flow was edited since. */
+    step_id: string;
+    /** Step type, or action name for actions. */
+    step_type: string;
+    status: StepLogStatus;
+    started_at: string | null;
+    finished_at: string | null;
+    message: string | null;
+    error: string | null;
+};
+
+export type AutomationRunContact = {
+    contact_id: number;
+    email: string | null;
+    status: RunContactStatus;
+    /** Step the contact is in, or stopped at. */
+    current_step_id: string | null;
+    /** When a waiting contact is released. */
+    resume_at: string | null;
+    steps: AutomationStepLog[];
+};
+
+/** Contacts currently held by one delay or wait-until step, across all runs. */
+export type AutomationWaitingCount = {
+    step_id: string;
+    count: number;
+    next_release_at: string | null;
+};
+
+/** Where a webhook-triggered automation receives requests. */
+export type AutomationTriggerInfo = {
+    url: string;
+    secret: string;
+    /** Request header carrying the hex HMAC-SHA256 of the raw body, signed with `secret`. */
+    signature_header: string;
+    rotated_at: string | null;
+};
+
+/** A request captured at the trigger URL; only the most recent ones are kept. */
+export type AutomationTriggerPayload = {
+    id: number;
+    received_at: string;
+    /** `test` for payloads sent from the dashboard. */
+    source: 'http' | 'test';
+    signature_valid: boolean;
+    payload: unknown;
+    /** The run the payload started, if it was accepted. */
+    run_id: number | null;
+    error: string | null;
+};
+
+/** `retry` re-runs a failed contact from the step that failed. */
+export type RunContactAction = 'cancel' | 'retry';
+
+/* ----------------------------- Webhooks ---------------------------- */
+
+export type Webhook = {
+    id: number;
+    url: string | null;
+    events: string[] | null;
+    status: 'active' | 'disabled' | (string & {}) | null;
+    batch_size?: number | null;
+    max_retries?: number | null;
+    retry_backoff?: string | null;
+    created_at?: string | null;
+};
+
+export type WebhookInput = {
+    url: string;
+    events: string[];
+    status: 'active' | 'disabled';
+    batch_size: number;
+    max_retries: number;
+    retry_backoff: string;
+};
+
+export type WebhookCreated = { id?: number; secret?: string | null };
+
+/* ------------------------------ Inbound ---------------------------- */
+
+export type InboundRoute = {
+    id: number;
+    pattern: string | null;
+    action: string | null;
+    destination: { type?: string; [key: string]: unknown } | null;
+    spam_threshold: number | null;
+    dkim_required: number | null;
+    tls_required: number | null;
+    created_at: string | null;
+    domain: { id: number; domain: string | null } | null;
+};
+
+export type InboundMessage = {
+    id: number;
+    from_email: string | null;
+    subject: string | null;
+    raw_mime_ref: string | null;
+    spam_score: number | null;
+    dkim_result: string | null;
+    dmarc_result: string | null;
+    arc_result: string | null;
+    received_at: string | null;
+    domain: { id: number; domain: string | null } | null;
+};
+
+/* ------------------------------ Reports ---------------------------- */
+
+export type ReportRange = { from: string; to: string };
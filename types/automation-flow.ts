@@ -0,0 +1,66 @@
+// types/automation-flow.ts
+// `flow` JSON of an automation: `{ trigger, steps }`. Split steps nest their branches, so the flow is a tree.
+
+export type TriggerKind = 'time' | 'webhook' | 'event';
+
+export type TimeTrigger = { type: 'time'; cron: string };
+export type WebhookTrigger = { type: 'webhook'; secret: string };
+/** Internal event, e.g. `contact.created`. */
+export type EventTrigger = { type: 'event'; name: string };
+export type FlowTrigger = TimeTrigger | WebhookTrigger | EventTrigger;
+
+export type ActionName = 'send_email' | 'add_to_list' | 'remove_from_list' | 'update_attribute' | 'call_webhook';
+
+/** Steps keep a stable `id` so the canvas, the simulator and run logs can point at them. */
+type StepBase = { id: string };
+
+export type SendEmailStep = StepBase & {
+    type: 'action';
+    name: 'send_email';
+    template_id: number | null;
+    /** Overrides the template subject when set. */
+    subject?: string | null;
+};
+
+export type ListStep = StepBase & { type: 'action'; name: 'add_to_list' | 'remove_from_list'; list_id: number | null };
+
+export type UpdateAttributeStep = StepBase & { type: 'action'; name: 'update_attribute'; attribute: string; value: string };
+
+export type CallWebhookStep = StepBase & { type: 'action'; name: 'call_webhook'; url: string; method: 'POST' | 'GET' };
+
+export type ActionStep = SendEmailStep | ListStep | UpdateAttributeStep | CallWebhookStep;
+
+export type DelayUnit = 'minutes' | 'hours' | 'days';
+
+export type DelayStep = StepBase & { type: 'delay'; amount: number; unit: DelayUnit };
+
+/** Holds the contact until the next `time` ('HH:MM', contact timezone) on one of `weekdays` (empty = any day). */
+export type WaitUntilStep = StepBase & { type: 'wait_until'; time: string; weekdays: Array<'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU'> };
+
+/** Contacts for whom `if` is false leave the flow here. */
+export type FilterStep = StepBase & { type: 'filter'; if: string };
+
+export type SplitStep = StepBase & { type: 'split'; if: string; yes: FlowStep[]; no: FlowStep[] };
+
+/** Contacts for whom `if` is true have converted and leave the flow; the rest continue. */
+export type GoalStep = StepBase & { type: 'goal'; name: string; if: string };
+
+export type ExitStep = StepBase & { type: 'exit' };
+
+/** A step type the canvas does not know; `raw` is written back untouched. */
+export type UnknownStep = StepBase & { type: 'unknown'; raw: Record<string, unknown> };
+
+export type FlowStep =
+    | ActionStep
+    | DelayStep
+    | WaitUntilStep
+    | FilterStep
+    | SplitStep
+    | GoalStep
+    | ExitStep
+    | UnknownStep;
+
+export type AutomationFlow = {
+    trigger: FlowTrigger;
+    steps: FlowStep[];
+};
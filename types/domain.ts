@@ -11,6 +11,8 @@ export type DomainDetail = {
     id: number;
     domain: string | null;
     status: 'pending' | 'active' | 'failed' | string | null;
+    /** Same as `status`; some responses name it like the domain list does. */
+    statusDomain?: DomainDetail['status'];
     created_at: string | null;   // ISO
     verified_at: string | null;  // ISO
     require_tls: boolean | null;
@@ -21,6 +23,12 @@ export type DomainDetail = {
         spf_expected: string | null;
         dmarc_expected: string | null;
         mx_expected: MxRecord[] | null;
+        /** Stored outcome of the last verification run, per record (`DomainAuthCheck['status']`); absent until one ran. */
+        spf_status?: DomainAuthCheck['status'];
+        dkim_status?: DomainAuthCheck['status'];
+        dmarc_status?: DomainAuthCheck['status'];
+        /** The published DMARC `p=` policy seen by the last run. */
+        dmarc_policy?: string | null;
     };
     counts: {
         cname: string;
@@ -40,4 +48,27 @@ export type DomainDetail = {
         campaigns: number;
     };
     company: CompanyBrief;
-};
\ No newline at end of file
+};
+
+/** Result of one DNS authentication check in a verification run. */
+export type DomainAuthCheck = {
+    status: 'pass' | 'fail' | 'missing' | 'pending' | string | null;
+    /** Record found in DNS, if any. */
+    found?: string | null;
+    /** DMARC only: the published `p=` policy. */
+    policy?: string | null;
+    selector?: string | null;
+    message?: string | null;
+};
+
+/**
+ * Returned by `POST /domains/{id}/verify`, which re-runs the DNS checks and stores their outcome on the
+ * domain (`DomainDetail.records`). Checks the backend did not run are omitted.
+ */
+export type DomainVerifyReport = {
+    status?: DomainDetail['status'];
+    spf?: DomainAuthCheck | null;
+    dkim?: DomainAuthCheck | null;
+    dmarc?: DomainAuthCheck | null;
+    checked_at?: string | null;
+};
@@ -0,0 +1,97 @@
+// types/email-builder.ts
+// JSON document produced by the visual template builder and stored with the template.
+
+export type Align = 'left' | 'center' | 'right';
+
+export type TextBlock = {
+    id: string;
+    type: 'text';
+    /** Inline HTML; merge tags (`{{contact.name}}`) are kept verbatim. */
+    content: string;
+    align: Align;
+    fontSize: number;
+    color: string;
+};
+
+export type ImageBlock = {
+    id: string;
+    type: 'image';
+    src: string;
+    alt: string;
+    href: string;
+    /** Pixel width; `null` stretches to the column. */
+    width: number | null;
+    align: Align;
+};
+
+export type ButtonBlock = {
+    id: string;
+    type: 'button';
+    label: string;
+    href: string;
+    align: Align;
+    backgroundColor: string;
+    color: string;
+    radius: number;
+};
+
+export type DividerBlock = {
+    id: string;
+    type: 'divider';
+    color: string;
+    thickness: number;
+};
+
+export type SocialNetwork = 'facebook' | 'x' | 'instagram' | 'linkedin' | 'youtube';
+
+export type SocialBlock = {
+    id: string;
+    type: 'social';
+    align: Align;
+    links: Array<{ network: SocialNetwork; url: string }>;
+};
+
+export type FooterBlock = {
+    id: string;
+    type: 'footer';
+    /** Sender identity / postal address shown above the unsubscribe link. */
+    content: string;
+    align: Align;
+    color: string;
+    showViewInBrowser: boolean;
+};
+
+export type Block = TextBlock | ImageBlock | ButtonBlock | DividerBlock | SocialBlock | FooterBlock;
+export type BlockType = Block['type'];
+
+export type Column = {
+    id: string;
+    blocks: Block[];
+};
+
+export type Section = {
+    id: string;
+    backgroundColor: string;
+    padding: number;
+    /** One to three columns, rendered side by side and stacked on mobile. */
+    columns: Column[];
+};
+
+export type EmailDocumentSettings = {
+    /** Document `<title>`; some clients show it in the web view. */
+    title: string;
+    width: number;
+    backgroundColor: string;
+    contentBackgroundColor: string;
+    fontFamily: string;
+    textColor: string;
+    linkColor: string;
+    /** Hidden inbox preview text. */
+    preheader: string;
+};
+
+export type EmailDocument = {
+    version: 1;
+    settings: EmailDocumentSettings;
+    sections: Section[];
+};
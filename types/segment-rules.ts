@@ -0,0 +1,82 @@
+// types/segment-rules.ts
+// Segment `definition` JSON: the legacy flat filters, or (version 2) a tree of AND/OR groups over conditions.
+
+/** Contact columns conditions can test; custom attributes are addressed as `attributes.<key>`. */
+export type ContactField = 'email' | 'name' | 'status' | 'locale' | 'timezone' | 'gdpr_consent_at' | 'created_at';
+
+export type RuleOperator =
+    | 'equals'
+    | 'not_equals'
+    | 'contains'
+    | 'not_contains'
+    | 'starts_with'
+    | 'ends_with'
+    | 'regex'
+    | 'gt'
+    | 'gte'
+    | 'lt'
+    | 'lte'
+    | 'before'
+    | 'after'
+    | 'in_last_days'
+    | 'not_in_last_days'
+    | 'is_empty'
+    | 'is_not_empty';
+
+/** Rules keep a client-side `id` so the builder can address them; the backend ignores it. */
+type RuleBase = { id: string };
+
+/**
+ * `value` is a string for text operators, a number for numeric ones and `in_last_days`,
+ * an ISO date (YYYY-MM-DD) for `before`/`after`, and null for the emptiness checks.
+ */
+export type ConditionRule = RuleBase & {
+    type: 'condition';
+    field: ContactField | `attributes.${string}`;
+    operator: RuleOperator;
+    value: string | number | null;
+};
+
+export type ListRule = RuleBase & { type: 'list'; operator: 'in_any' | 'in_none'; list_ids: number[] };
+
+/** `delivered` reads as "received" in the builder. */
+export type EngagementEvent = 'delivered' | 'opened' | 'clicked' | 'bounced';
+
+/**
+ * Tests the contact's message events: `any` = at least once, `none` = never,
+ * `at_least`/`fewer_than` compare the number of events with `count`.
+ */
+export type EventRule = RuleBase & {
+    type: 'event';
+    event: EngagementEvent;
+    match: 'any' | 'none' | 'at_least' | 'fewer_than';
+    count: number | null;
+    /** Null for any campaign. */
+    campaign_id: number | null;
+    /** Null for all time. */
+    within_days: number | null;
+    /** Clicks only; `*` matches any run of characters, e.g. `https://example.com/pricing*`. */
+    url_pattern: string | null;
+};
+
+/** `negate` turns the group into NOT(…). */
+export type RuleGroup = RuleBase & { type: 'group'; combinator: 'and' | 'or'; negate: boolean; rules: SegmentRule[] };
+
+/** A rule this client does not know; kept as-is so saving does not drop it. */
+export type UnknownRule = RuleBase & { type: 'unknown'; raw: Record<string, unknown> };
+
+export type SegmentRule = ConditionRule | ListRule | EventRule | RuleGroup | UnknownRule;
+
+/** The filters segments had before rule trees; all present keys must match. */
+export type LegacyDefinition = {
+    status?: string;
+    email_contains?: string;
+    gdpr_consent?: boolean;
+    in_list_ids?: number[];
+    not_in_list_ids?: number[];
+};
+
+export type SegmentDefinition = LegacyDefinition & {
+    version?: 2;
+    rules?: RuleGroup;
+};